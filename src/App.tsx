@@ -22,11 +22,14 @@ import Analytics from "./pages/Analytics";
 import AnalyticsDemo from "./pages/AnalyticsDemo";
 import Flashcards from "./pages/Flashcards";
 import PassageStudy from "./pages/PassageStudy";
+import Notebook from "./pages/Notebook";
 import NotFound from "./pages/NotFound";
 import Settings from "./pages/Settings";
 import Onboarding from "./pages/Onboarding";
 import PromotionCodesAdmin from "./pages/admin/PromotionCodesAdmin";
+import AnswerDisputesAdmin from "./pages/admin/AnswerDisputesAdmin";
 import FullMockTest from "./pages/FullMockTest";
+import FullMockTestSession from "./pages/FullMockTestSession";
 import GenerateListeningPOC from "./pages/GenerateListeningPOC";
 import TestComparison from "./pages/TestComparison";
 import AIPractice from "./pages/AIPractice";
@@ -98,6 +101,7 @@ const App = () => (
             
             {/* Full Mock Test */}
             <Route path="/full-mock-test" element={<FullMockTest />} />
+            <Route path="/full-mock-test/session/:sessionId" element={<FullMockTestSession />} />
             
             {/* Test Results */}
             <Route path="/results/:submissionId" element={<TestResults />} />
@@ -106,6 +110,7 @@ const App = () => (
             <Route path="/analytics" element={<Analytics />} />
             <Route path="/analytics/demo" element={<AnalyticsDemo />} />
             <Route path="/flashcards" element={<Flashcards />} />
+            <Route path="/notebook" element={<Notebook />} />
             
             {/* AI Generation POC */}
             <Route path="/generate/listening" element={<GenerateListeningPOC />} />
@@ -142,6 +147,7 @@ const App = () => (
               <Route path="speaking/edit/:testId" element={<SpeakingTestEditor />} />
               <Route path="speaking/shared-audio" element={<SpeakingSharedAudioAdmin />} />
               <Route path="promotions" element={<PromotionCodesAdmin />} />
+              <Route path="disputes" element={<AnswerDisputesAdmin />} />
               <Route path="testbank" element={<TestBankAdmin />} />
               <Route path="test-factory" element={<TestFactoryAdmin />} />
               <Route path="settings" element={<AdminSettings />} />
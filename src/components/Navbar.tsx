@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { ChevronDown, Menu, X, User, LogOut, Settings as SettingsIcon, BarChart3, Layers, Brain, Sparkles, Shield } from 'lucide-react';
+import { ChevronDown, Menu, X, User, LogOut, Settings as SettingsIcon, BarChart3, Layers, Brain, Sparkles, Shield, NotebookPen } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
 import { useAdminAccess } from '@/hooks/useAdminAccess';
@@ -206,6 +206,15 @@ export const Navbar = () => {
                 Flashcards
               </Link>
             </li>
+            <li>
+              <Link
+                to="/notebook"
+                className="nav-link flex items-center gap-2 py-3 px-4"
+              >
+                <NotebookPen size={16} className="text-primary" />
+                Notebook
+              </Link>
+            </li>
           </ul>
         </div>
       </nav>
@@ -244,7 +253,7 @@ export const Navbar = () => {
                 )}
               </div>
             ))}
-            <div className="grid grid-cols-3 gap-2 mt-4">
+            <div className="grid grid-cols-2 gap-2 mt-4">
               <Link to="/ai-practice" className="flex-1">
                 <Button variant="outline" className="w-full gap-2">
                   <Sparkles size={16} />
@@ -263,6 +272,12 @@ export const Navbar = () => {
                   Flashcards
                 </Button>
               </Link>
+              <Link to="/notebook" className="flex-1">
+                <Button variant="outline" className="w-full gap-2">
+                  <NotebookPen size={16} />
+                  Notebook
+                </Button>
+              </Link>
             </div>
             {user && (
               <>
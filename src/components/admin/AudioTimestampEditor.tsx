@@ -3,7 +3,7 @@ import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Play, Pause, Clock, Save } from 'lucide-react';
+import { Play, Pause, Clock, Save, X } from 'lucide-react';
 
 interface PartTimestamp {
   partNumber: number;
@@ -13,8 +13,13 @@ interface PartTimestamp {
 
 interface AudioTimestampEditorProps {
   audioUrl: string | null;
-  partTimestamps: PartTimestamp[];
-  onTimestampsChange: (timestamps: PartTimestamp[]) => void;
+  /** Part boundaries; the part cards are hidden when onTimestampsChange is omitted */
+  partTimestamps?: PartTimestamp[];
+  onTimestampsChange?: (timestamps: PartTimestamp[]) => void;
+  /** Questions whose answer can be pinned to a point in this audio */
+  questionNumbers?: number[];
+  questionTimestamps?: Record<number, number>;
+  onQuestionTimestampChange?: (questionNumber: number, seconds: number | null) => void;
 }
 
 const formatTime = (seconds: number): string => {
@@ -33,8 +38,11 @@ const parseTime = (timeStr: string): number => {
 
 export function AudioTimestampEditor({
   audioUrl,
-  partTimestamps,
+  partTimestamps = [],
   onTimestampsChange,
+  questionNumbers = [],
+  questionTimestamps = {},
+  onQuestionTimestampChange,
 }: AudioTimestampEditorProps) {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -49,9 +57,11 @@ export function AudioTimestampEditor({
     { partNumber: 4, startTime: 1800, endTime: 2400 },
   ];
 
+  const showPartTimestamps = !!onTimestampsChange;
+
   useEffect(() => {
     if (partTimestamps.length === 0) {
-      onTimestampsChange(timestamps);
+      onTimestampsChange?.(timestamps);
     }
   }, []);
 
@@ -95,7 +105,7 @@ export function AudioTimestampEditor({
     const newTimestamps = timestamps.map(t => 
       t.partNumber === partNumber ? { ...t, [field]: value } : t
     );
-    onTimestampsChange(newTimestamps);
+    onTimestampsChange?.(newTimestamps);
   };
 
   const setCurrentAsStart = (partNumber: number) => {
@@ -158,7 +168,7 @@ export function AudioTimestampEditor({
 
           {/* Part Timestamp Markers - Visual */}
           <div className="relative h-8 bg-muted rounded-lg overflow-hidden">
-            {timestamps.map((part, idx) => {
+            {showPartTimestamps && timestamps.map((part, idx) => {
               const startPercent = duration > 0 ? (part.startTime / duration) * 100 : 0;
               const widthPercent = duration > 0 ? ((part.endTime - part.startTime) / duration) * 100 : 25;
               const colors = ['bg-blue-500', 'bg-green-500', 'bg-yellow-500', 'bg-purple-500'];
@@ -174,6 +184,15 @@ export function AudioTimestampEditor({
                 </div>
               );
             })}
+            {/* Question answer markers */}
+            {questionNumbers.filter(q => questionTimestamps[q] !== undefined).map(q => (
+              <div
+                key={`q-${q}`}
+                className="absolute top-0 h-full w-px bg-foreground/60"
+                style={{ left: `${duration > 0 ? (questionTimestamps[q] / duration) * 100 : 0}%` }}
+                title={`Q${q}: ${formatTime(questionTimestamps[q])}`}
+              />
+            ))}
             {/* Current position indicator */}
             <div 
               className="absolute top-0 w-0.5 h-full bg-destructive z-10"
@@ -184,6 +203,7 @@ export function AudioTimestampEditor({
       </Card>
 
       {/* Part Timestamp Settings */}
+      {showPartTimestamps && (
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {timestamps.map((part) => (
           <Card key={part.partNumber} className="border-l-4" style={{ borderLeftColor: ['#3b82f6', '#22c55e', '#eab308', '#a855f7'][part.partNumber - 1] }}>
@@ -257,9 +277,52 @@ export function AudioTimestampEditor({
           </Card>
         ))}
       </div>
+      )}
+
+      {/* Question Answer Timestamps */}
+      {questionNumbers.length > 0 && onQuestionTimestampChange && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          {questionNumbers.map(q => {
+            const seconds = questionTimestamps[q];
+            return (
+              <div key={q} className="flex items-center gap-1 rounded-md border p-1.5">
+                <button
+                  type="button"
+                  className="w-8 text-xs font-mono font-semibold text-left disabled:text-muted-foreground"
+                  onClick={() => seconds !== undefined && seekTo(Math.max(0, seconds - 3))}
+                  disabled={seconds === undefined}
+                  title="Play from just before this answer"
+                >
+                  Q{q}
+                </button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 flex-1 font-mono text-xs"
+                  onClick={() => onQuestionTimestampChange(q, Math.round(currentTime * 100) / 100)}
+                  title="Set current time as where this answer is heard"
+                >
+                  {seconds !== undefined ? formatTime(seconds) : <Save size={12} />}
+                </Button>
+                {seconds !== undefined && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => onQuestionTimestampChange(q, null)}
+                    title="Clear timestamp"
+                  >
+                    <X size={12} />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
 
       <p className="text-xs text-muted-foreground text-center">
-        💡 Tip: Play the audio and click the save icon when you hear each part start/end to set timestamps precisely.
+        💡 Tip: Play the audio and click the save icon when you hear each {showPartTimestamps ? 'part start/end' : 'answer'} to set timestamps precisely.
       </p>
     </div>
   );
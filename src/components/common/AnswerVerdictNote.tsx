@@ -0,0 +1,46 @@
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AnswerVerdict, describeAnswerVerdict } from '@/lib/ieltsAnswerValidation';
+
+interface AnswerVerdictNoteProps {
+  verdict: AnswerVerdict;
+  /**
+   * The mark actually awarded. When it disagrees with the verdict (e.g. a test
+   * marked strictly against the answer key) no note is shown, so it never
+   * contradicts the score.
+   */
+  isCorrect?: boolean;
+  className?: string;
+}
+
+/**
+ * One-line explanation of how an answer was marked, e.g.
+ * "Accepted as British/American spelling of 'color'".
+ */
+export function AnswerVerdictNote({ verdict, isCorrect = verdict.accepted, className }: AnswerVerdictNoteProps) {
+  if (isCorrect !== verdict.accepted) return null;
+
+  const description = describeAnswerVerdict(verdict);
+  const text = description.charAt(0).toUpperCase() + description.slice(1);
+  const Icon = verdict.accepted ? CheckCircle2 : XCircle;
+
+  return (
+    <p
+      className={cn(
+        'flex items-start gap-1.5 text-xs',
+        verdict.accepted ? 'text-success' : 'text-destructive',
+        className
+      )}
+    >
+      <Icon className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+      <span>
+        {text}.
+        {verdict.normalizedCorrect && verdict.normalizedCorrect !== verdict.normalizedUser && (
+          <span className="text-muted-foreground">
+            {' '}Compared “{verdict.normalizedUser}” with “{verdict.normalizedCorrect}”.
+          </span>
+        )}
+      </span>
+    </p>
+  );
+}
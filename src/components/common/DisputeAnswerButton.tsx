@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { Scale, Loader2, Clock, CheckCircle2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { cn } from '@/lib/utils';
+
+export type DisputeTestSource = 'reading' | 'listening' | 'ai_practice';
+
+interface DisputeAnswerButtonProps {
+  testSource: DisputeTestSource;
+  testId: string;
+  submissionId?: string;
+  questionNumber: number;
+  questionText?: string;
+  questionType?: string;
+  userAnswer: string;
+  correctAnswer: string;
+  className?: string;
+}
+
+const STATUS_BADGES = {
+  pending: { label: 'Dispute pending', icon: Clock, className: 'bg-warning/10 text-warning border-warning/30' },
+  accepted: { label: 'Dispute accepted', icon: CheckCircle2, className: 'bg-success/10 text-success border-success/30' },
+  rejected: { label: 'Dispute rejected', icon: XCircle, className: 'bg-muted text-muted-foreground' },
+} as const;
+
+/**
+ * Lets a student flag a reading/listening answer they believe was marked wrong.
+ * Once filed, shows the dispute status instead of the button.
+ */
+export function DisputeAnswerButton({
+  testSource,
+  testId,
+  submissionId,
+  questionNumber,
+  questionText,
+  questionType,
+  userAnswer,
+  correctAnswer,
+  className,
+}: DisputeAnswerButtonProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const queryKey = ['answer-dispute', user?.id, testSource, testId, questionNumber];
+
+  const { data: existing } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      if (!user) return null;
+      const { data, error } = await supabase
+        .from('answer_disputes')
+        .select('id, status, admin_note')
+        .eq('user_id', user.id)
+        .eq('test_source', testSource)
+        .eq('test_id', testId)
+        .eq('question_number', questionNumber)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!userAnswer.trim(),
+  });
+
+  // Nothing to dispute for blank answers
+  if (!userAnswer.trim()) return null;
+
+  if (existing) {
+    const badge = STATUS_BADGES[existing.status as keyof typeof STATUS_BADGES] ?? STATUS_BADGES.pending;
+    const Icon = badge.icon;
+    return (
+      <Badge variant="outline" className={cn('gap-1 font-normal', badge.className, className)} title={existing.admin_note ?? undefined}>
+        <Icon size={12} />
+        {badge.label}
+      </Badge>
+    );
+  }
+
+  const handleSubmit = async () => {
+    if (!user) {
+      toast.error('Please log in to dispute an answer');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.from('answer_disputes').insert({
+        user_id: user.id,
+        test_source: testSource,
+        test_id: testId,
+        submission_id: submissionId ?? null,
+        question_number: questionNumber,
+        question_text: questionText ?? null,
+        question_type: questionType ?? null,
+        user_answer: userAnswer.trim(),
+        correct_answer: correctAnswer,
+        reason: reason.trim() || null,
+      });
+
+      if (error) throw error;
+
+      queryClient.invalidateQueries({ queryKey });
+      setOpen(false);
+      setReason('');
+      toast.success('Dispute submitted. An admin will review your answer.');
+    } catch (error) {
+      console.error('Error submitting dispute:', error);
+      toast.error('Failed to submit dispute');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn('gap-1 text-muted-foreground hover:text-amber-600', className)}
+        >
+          <Scale size={14} />
+          Dispute
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scale size={20} className="text-primary" />
+            Dispute Question {questionNumber}
+          </DialogTitle>
+          <DialogDescription>
+            If an admin accepts your answer, it becomes an accepted variant and your score is updated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div className="p-3 rounded-lg bg-muted/50">
+              <p className="text-xs text-muted-foreground mb-1">Your answer</p>
+              <p className="font-medium">{userAnswer}</p>
+            </div>
+            <div className="p-3 rounded-lg bg-muted/50">
+              <p className="text-xs text-muted-foreground mb-1">Answer key</p>
+              <p className="font-medium">{correctAnswer}</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`dispute-reason-${questionNumber}`}>Why should this be accepted? (optional)</Label>
+            <Textarea
+              id={`dispute-reason-${questionNumber}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. The passage uses both words interchangeably in paragraph C"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving}>
+            {isSaving && <Loader2 size={14} className="mr-2 animate-spin" />}
+            Submit Dispute
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
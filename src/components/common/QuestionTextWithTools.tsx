@@ -4,6 +4,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Highlighter, StickyNote, X, Pencil } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useHighlightNotesOptional, Highlight } from '@/hooks/useHighlightNotes';
+import { splitSelectionByContent, type SelectionSegment } from '@/lib/studyNotes';
 
 interface QuestionTextWithToolsProps {
   contentId: string; // passageId or questionId
@@ -36,6 +37,8 @@ export function QuestionTextWithTools({
 
   const containerRef = useRef<HTMLDivElement>(null);
   const [selectedTextInfo, setSelectedTextInfo] = useState<{ text: string; startOffset: number; endOffset: number; } | null>(null);
+  // A selection that runs on into other blocks (e.g. the next paragraph), when it starts in this one
+  const [selectedSegments, setSelectedSegments] = useState<SelectionSegment[] | null>(null);
   const [showToolbar, setShowToolbar] = useState(false);
   const [toolbarPosition, setToolbarPosition] = useState({ x: 0, y: 0 });
   const [showNoteInput, setShowNoteInput] = useState(false);
@@ -86,33 +89,45 @@ export function QuestionTextWithTools({
             startOffset,
             endOffset,
           });
+          setSelectedSegments(null);
           
           const rect = range.getBoundingClientRect();
           setToolbarPosition({ x: rect.left + rect.width / 2, y: rect.top }); // Position above
           setShowToolbar(true);
-        } else {
-          setShowToolbar(false);
+          return;
+        }
+
+        // Spanning several blocks: the block the selection starts in shows the toolbar
+        const blocks = Array.from(document.querySelectorAll<HTMLElement>('[data-highlight-content-id]'))
+          .filter((block) => block.dataset.highlightTestId === testId);
+        const segments = splitSelectionByContent(range, blocks);
+        if (segments.length > 1 && segments[0].contentId === contentId) {
           setSelectedTextInfo(null);
+          setSelectedSegments(segments);
+          const rect = range.getBoundingClientRect();
+          setToolbarPosition({ x: rect.left + rect.width / 2, y: rect.top });
+          setShowToolbar(true);
+          return;
         }
-      } else {
-        setShowToolbar(false);
-        setSelectedTextInfo(null);
       }
+      setShowToolbar(false);
+      setSelectedTextInfo(null);
+      setSelectedSegments(null);
     };
 
     document.addEventListener('mouseup', handleMouseUp);
     return () => {
       document.removeEventListener('mouseup', handleMouseUp);
     };
-  }, []);
+  }, [testId, contentId]);
 
-  // Effect to clear selection and hide toolbar if selectedTextInfo becomes null
+  // Effect to clear selection and hide toolbar once nothing is selected
   useEffect(() => {
-    if (!selectedTextInfo) {
+    if (!selectedTextInfo && !selectedSegments) {
       setShowToolbar(false);
       window.getSelection()?.removeAllRanges();
     }
-  }, [selectedTextInfo]);
+  }, [selectedTextInfo, selectedSegments]);
 
   // Close note input/highlight menu on outside click
   useEffect(() => {
@@ -139,6 +154,14 @@ export function QuestionTextWithTools({
   }, [showNoteInput, showHighlightMenu]);
 
   const handleHighlightClick = useCallback(() => {
+    if (selectedSegments) {
+      // One highlight per block, so each is stored and rendered with its own content
+      for (const segment of selectedSegments) {
+        addHighlight({ ...segment, testId }, 'yellow');
+      }
+      setSelectedSegments(null);
+      return;
+    }
     if (!selectedTextInfo) return;
 
     const existingHighlight = currentContentHighlights.find(
@@ -151,7 +174,7 @@ export function QuestionTextWithTools({
       addHighlight({ ...selectedTextInfo, testId, contentId }, 'yellow');
     }
     setSelectedTextInfo(null); // Clear selection info to hide toolbar
-  }, [selectedTextInfo, currentContentHighlights, addHighlight, removeHighlight, testId, contentId]);
+  }, [selectedSegments, selectedTextInfo, currentContentHighlights, addHighlight, removeHighlight, testId, contentId]);
 
   const handleNoteClick = useCallback(() => {
     if (!selectedTextInfo) return;
@@ -293,7 +316,13 @@ export function QuestionTextWithTools({
   const Wrapper = Component === 'span' ? 'span' : 'div';
 
   return (
-    <Wrapper ref={containerRef as any} className={cn("relative", Component === 'span' && "inline")} onClick={handleExistingHighlightClick}>
+    <Wrapper
+      ref={containerRef as any}
+      className={cn("relative", Component === 'span' && "inline")}
+      onClick={handleExistingHighlightClick}
+      data-highlight-content-id={contentId}
+      data-highlight-test-id={testId}
+    >
       <Component
         className={cn(
           "leading-relaxed",
@@ -305,7 +334,7 @@ export function QuestionTextWithTools({
         dangerouslySetInnerHTML={{ __html: processedText }}
       />
 
-      {showToolbar && selectedTextInfo && (
+      {showToolbar && (selectedTextInfo || selectedSegments) && (
         <div 
           id="highlight-toolbar"
           className="fixed z-[9999] bg-card border border-border rounded-lg shadow-lg p-1 flex items-center gap-1"
@@ -324,15 +353,18 @@ export function QuestionTextWithTools({
             <Highlighter size={16} className="mr-2" />
             Highlight
           </Button>
-          <Button
-            variant="ghost"
-            size="sm"
-            className="justify-start text-sm h-8"
-            onClick={handleNoteClick}
-          >
-            <StickyNote size={16} className="mr-2" />
-            Note
-          </Button>
+          {/* A note belongs to a single highlight, so it is only offered within one block */}
+          {selectedTextInfo && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="justify-start text-sm h-8"
+              onClick={handleNoteClick}
+            >
+              <StickyNote size={16} className="mr-2" />
+              Note
+            </Button>
+          )}
         </div>
       )}
 
@@ -8,7 +8,7 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { Button } from '@/components/ui/button';
-import { Clock, Send, Play } from 'lucide-react';
+import { Clock, Send, Play, MonitorSmartphone } from 'lucide-react';
 
 interface RestoreTestStateDialogProps {
   open: boolean;
@@ -17,6 +17,10 @@ interface RestoreTestStateDialogProps {
   totalQuestions: number;
   onContinue: () => void;
   onSubmit: () => void;
+  /** Label of the device the progress was saved on, when it wasn't this one */
+  savedOnDevice?: string | null;
+  /** The other device saved moments ago and probably still has the test open */
+  isOpenElsewhere?: boolean;
 }
 
 export function RestoreTestStateDialog({
@@ -26,6 +30,8 @@ export function RestoreTestStateDialog({
   totalQuestions,
   onContinue,
   onSubmit,
+  savedOnDevice,
+  isOpenElsewhere = false,
 }: RestoreTestStateDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   
@@ -59,8 +65,17 @@ export function RestoreTestStateDialog({
           </AlertDialogTitle>
           <AlertDialogDescription className="space-y-3">
             <p>
-              Your previous test session has been restored.
+              {savedOnDevice
+                ? `Your progress from ${savedOnDevice} has been restored.`
+                : 'Your previous test session has been restored.'}
             </p>
+
+            {isOpenElsewhere && (
+              <p className="flex items-start gap-2 rounded-lg border border-amber-500/40 bg-amber-500/10 p-3 text-sm text-foreground">
+                <MonitorSmartphone className="h-4 w-4 mt-0.5 shrink-0 text-amber-600" />
+                This test is still open on your other device. Continuing here will take over the session.
+              </p>
+            )}
             
             <div className="bg-muted/50 rounded-lg p-4 space-y-2">
               <div className="flex justify-between text-sm">
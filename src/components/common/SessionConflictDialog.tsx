@@ -0,0 +1,69 @@
+import { formatDistanceToNow } from 'date-fns';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { MonitorSmartphone, Download, Laptop } from 'lucide-react';
+import type { SavedTestSession } from '@/lib/testSession';
+
+interface SessionConflictDialogProps {
+  /** The other device's latest snapshot; the dialog is open while set */
+  session: SavedTestSession | null;
+  totalQuestions: number;
+  onUseThisDevice: () => void;
+  onLoadOtherDevice: () => void;
+}
+
+/**
+ * Shown when the same test is being taken on two devices at once and the
+ * other one has saved since this one last did.
+ */
+export function SessionConflictDialog({
+  session,
+  totalQuestions,
+  onUseThisDevice,
+  onLoadOtherDevice,
+}: SessionConflictDialogProps) {
+  const answeredCount = session
+    ? Object.values(session.answers).filter((answer) => answer?.trim()).length
+    : 0;
+
+  return (
+    <AlertDialog open={!!session}>
+      <AlertDialogContent className="max-w-md">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <MonitorSmartphone className="h-5 w-5 text-amber-600" />
+            Test Open on Another Device
+          </AlertDialogTitle>
+          <AlertDialogDescription className="space-y-3">
+            <p>
+              {session?.deviceLabel ?? 'Another device'} saved progress on this test{' '}
+              {session ? formatDistanceToNow(new Date(session.updatedAt), { addSuffix: true }) : ''}.
+              Your timer is paused until you choose which one to keep.
+            </p>
+            <div className="bg-muted/50 rounded-lg p-4 text-sm flex justify-between">
+              <span className="text-muted-foreground">Answered on the other device:</span>
+              <span className="font-medium">{answeredCount} / {totalQuestions}</span>
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={onLoadOtherDevice} className="w-full sm:w-auto">
+            <Download className="h-4 w-4 mr-2" />
+            Load Their Progress
+          </Button>
+          <Button onClick={onUseThisDevice} className="w-full sm:w-auto">
+            <Laptop className="h-4 w-4 mr-2" />
+            Keep This Device
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
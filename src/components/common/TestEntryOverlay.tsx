@@ -1,14 +1,26 @@
 import { Play, BookOpen, Headphones } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 
 interface TestEntryOverlayProps {
   onEnter: () => void;
   isVisible: boolean;
   testType: 'reading' | 'listening';
   testTitle?: string;
+  /** Computer-delivered IELTS mode; the toggle is hidden when onCdModeChange is omitted */
+  cdMode?: boolean;
+  onCdModeChange?: (enabled: boolean) => void;
 }
 
-export function TestEntryOverlay({ onEnter, isVisible, testType, testTitle }: TestEntryOverlayProps) {
+export function TestEntryOverlay({
+  onEnter,
+  isVisible,
+  testType,
+  testTitle,
+  cdMode = false,
+  onCdModeChange,
+}: TestEntryOverlayProps) {
   if (!isVisible) return null;
 
   const Icon = testType === 'listening' ? Headphones : BookOpen;
@@ -51,6 +63,18 @@ export function TestEntryOverlay({ onEnter, isVisible, testType, testTitle }: Te
           To continue, click {testType === 'listening' ? 'Play' : 'Start'}.
         </p>
 
+        {onCdModeChange && (
+          <div className="flex items-start gap-3 rounded-lg border border-gray-300 p-3 mb-6 text-left">
+            <Switch id="cd-ielts-mode" checked={cdMode} onCheckedChange={onCdModeChange} className="mt-0.5" />
+            <Label htmlFor="cd-ielts-mode" className="space-y-1 cursor-pointer">
+              <span className="block text-sm font-medium text-foreground">Computer-delivered IELTS mode</span>
+              <span className="block text-xs font-normal text-muted-foreground">
+                Drag-and-drop for all matching questions, flag questions for review, and a review screen before you submit.
+              </span>
+            </Label>
+          </div>
+        )}
+
         {/* Start Button */}
         <Button 
           onClick={onEnter}
@@ -0,0 +1,121 @@
+import { Flag, Send, ArrowLeft, CircleDashed } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+
+export interface ReviewPart {
+  label: string;
+  questionNumbers: number[];
+}
+
+interface TestReviewScreenProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  parts: ReviewPart[];
+  unansweredQuestions: number[];
+  flaggedQuestions: Set<number>;
+  onGoToQuestion: (questionNumber: number) => void;
+  onSubmit: () => void;
+}
+
+const formatList = (numbers: number[]) => (numbers.length > 0 ? numbers.join(', ') : 'None');
+
+/**
+ * End-of-test review, as on the computer-delivered test: every question by
+ * part, with flagged and blank ones marked. Clicking a number returns to it.
+ */
+export function TestReviewScreen({
+  open,
+  onOpenChange,
+  parts,
+  unansweredQuestions,
+  flaggedQuestions,
+  onGoToQuestion,
+  onSubmit,
+}: TestReviewScreenProps) {
+  const unanswered = new Set(unansweredQuestions);
+  const flagged = parts
+    .flatMap((p) => p.questionNumbers)
+    .filter((n) => flaggedQuestions.has(n));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Review your answers</DialogTitle>
+          <DialogDescription>
+            Select a question number to go back to it. Once you submit you cannot change your answers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid sm:grid-cols-2 gap-3 text-sm">
+          <div className="rounded-md border border-amber-500/40 bg-amber-500/10 p-3">
+            <p className="flex items-center gap-2 font-medium">
+              <Flag size={14} className="text-amber-600" />
+              Flagged for review ({flagged.length})
+            </p>
+            <p className="mt-1 text-muted-foreground">{formatList(flagged)}</p>
+          </div>
+          <div className="rounded-md border border-border bg-muted/40 p-3">
+            <p className="flex items-center gap-2 font-medium">
+              <CircleDashed size={14} className="text-muted-foreground" />
+              Not answered ({unansweredQuestions.length})
+            </p>
+            <p className="mt-1 text-muted-foreground">{formatList(unansweredQuestions)}</p>
+          </div>
+        </div>
+
+        <ScrollArea className="max-h-[45vh]">
+          <div className="space-y-4 pr-3">
+            {parts.map((part) => (
+              <div key={part.label}>
+                <p className="mb-2 text-sm font-semibold">{part.label}</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {part.questionNumbers.map((n) => {
+                    const isBlank = unanswered.has(n);
+                    const isFlagged = flaggedQuestions.has(n);
+                    return (
+                      <button
+                        key={n}
+                        type="button"
+                        onClick={() => onGoToQuestion(n)}
+                        className={cn(
+                          'relative h-8 min-w-8 px-1.5 rounded border text-sm tabular-nums transition-colors',
+                          isBlank
+                            ? 'border-dashed border-muted-foreground/50 text-muted-foreground hover:bg-muted'
+                            : 'border-foreground/70 bg-foreground text-background hover:bg-foreground/90',
+                          isFlagged && 'ring-2 ring-amber-500 ring-offset-1'
+                        )}
+                        title={isFlagged ? 'Flagged for review' : isBlank ? 'Not answered' : 'Answered'}
+                      >
+                        {n}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="gap-2">
+            <ArrowLeft size={16} />
+            Return to test
+          </Button>
+          <Button onClick={onSubmit} className="gap-2">
+            <Send size={16} />
+            Submit answers
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,6 +14,8 @@ import {
   Volume2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ListeningExamModeToggle } from '@/components/listening/ListeningAnswerSheet';
+import { WritingExamModeToggle } from '@/components/writing/WritingAssistantPanel';
 
 interface TestStartOverlayProps {
   module: 'reading' | 'listening' | 'writing' | 'speaking';
@@ -25,6 +27,9 @@ interface TestStartOverlayProps {
   wordLimit?: number;
   onStart: () => void;
   onCancel: () => void;
+  /** Listening and writing: offer the exam mode switch */
+  examMode?: boolean;
+  onExamModeChange?: (enabled: boolean) => void;
 }
 
 export function TestStartOverlay({
@@ -37,6 +42,8 @@ export function TestStartOverlay({
   wordLimit,
   onStart,
   onCancel,
+  examMode = false,
+  onExamModeChange,
 }: TestStartOverlayProps) {
   const [hasTestedAudio, setHasTestedAudio] = useState(module !== 'listening' && module !== 'speaking');
   const [hasTestedMic, setHasTestedMic] = useState(module !== 'speaking');
@@ -253,6 +260,12 @@ export function TestStartOverlay({
             </div>
           </div>
 
+          {module === 'listening' && onExamModeChange && (
+            <ListeningExamModeToggle checked={examMode} onCheckedChange={onExamModeChange} />
+          )}
+          {module === 'writing' && onExamModeChange && (
+            <WritingExamModeToggle checked={examMode} onCheckedChange={onExamModeChange} />
+          )}
 
           {/* Action Buttons */}
           <div className="flex gap-3">
@@ -1,12 +1,16 @@
 import { Play, Headphones } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { ListeningExamModeToggle } from './ListeningAnswerSheet';
 
 interface AudioPlayOverlayProps {
   onPlay: () => void;
   isVisible: boolean;
+  examMode?: boolean;
+  /** Omit to hide the exam-mode switch (e.g. when a mock test forces it on) */
+  onExamModeChange?: (enabled: boolean) => void;
 }
 
-export function AudioPlayOverlay({ onPlay, isVisible }: AudioPlayOverlayProps) {
+export function AudioPlayOverlay({ onPlay, isVisible, examMode = false, onExamModeChange }: AudioPlayOverlayProps) {
   if (!isVisible) return null;
 
   return (
@@ -38,6 +42,10 @@ export function AudioPlayOverlay({ onPlay, isVisible }: AudioPlayOverlayProps) {
           To continue, click Play.
         </p>
 
+        {onExamModeChange && (
+          <ListeningExamModeToggle checked={examMode} onCheckedChange={onExamModeChange} className="mb-6" />
+        )}
+
         {/* Play Button */}
         <Button 
           onClick={onPlay}
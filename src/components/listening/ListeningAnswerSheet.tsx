@@ -0,0 +1,147 @@
+import { useEffect, useRef, useState } from 'react';
+import { Clock, Send, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+
+// Paper-based IELTS: 10 minutes after the recording to copy answers across
+export const LISTENING_TRANSFER_SECONDS = 10 * 60;
+export const LISTENING_ANSWER_SHEET_ROWS = 40;
+
+interface ListeningAnswerSheetProps {
+  answers: Record<number, string>;
+  onAnswerChange: (questionNumber: number, value: string) => void;
+  onSubmit: () => void;
+  totalRows?: number;
+  transferSeconds?: number;
+  isSubmitting?: boolean;
+}
+
+/**
+ * The 40-row answer sheet shown once the exam-mode recording has finished.
+ * Answers written on the question paper are pre-filled; the sheet submits
+ * itself when the transfer time runs out.
+ */
+export function ListeningAnswerSheet({
+  answers,
+  onAnswerChange,
+  onSubmit,
+  totalRows = LISTENING_ANSWER_SHEET_ROWS,
+  transferSeconds = LISTENING_TRANSFER_SECONDS,
+  isSubmitting = false,
+}: ListeningAnswerSheetProps) {
+  const [secondsLeft, setSecondsLeft] = useState(transferSeconds);
+  const endAtRef = useRef(Date.now() + transferSeconds * 1000);
+  const hasSubmittedRef = useRef(false);
+  const onSubmitRef = useRef(onSubmit);
+
+  useEffect(() => {
+    onSubmitRef.current = onSubmit;
+  }, [onSubmit]);
+
+  // Wall-clock countdown so a throttled background tab can't stretch the time
+  useEffect(() => {
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((endAtRef.current - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0 && !hasSubmittedRef.current) {
+        hasSubmittedRef.current = true;
+        onSubmitRef.current();
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleSubmit = () => {
+    if (hasSubmittedRef.current) return;
+    hasSubmittedRef.current = true;
+    onSubmit();
+  };
+
+  const minutes = Math.floor(secondsLeft / 60);
+  const seconds = secondsLeft % 60;
+  const half = Math.ceil(totalRows / 2);
+  const columns = [
+    Array.from({ length: half }, (_, i) => i + 1),
+    Array.from({ length: totalRows - half }, (_, i) => half + i + 1),
+  ];
+
+  return (
+    <div className="flex-1 overflow-y-auto bg-muted/30 p-4 md:p-8">
+      <div className="max-w-4xl mx-auto bg-card border border-border rounded-lg shadow-sm">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 border-b border-border px-4 py-3">
+          <div className="flex items-center gap-2">
+            <FileText className="w-5 h-5 text-primary" />
+            <div>
+              <h2 className="font-semibold">Listening Answer Sheet</h2>
+              <p className="text-xs text-muted-foreground">
+                Spelling must be correct. Capital or lower-case letters are both accepted.
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <div
+              className={cn(
+                'flex items-center gap-2 px-3 py-1.5 rounded-lg font-mono font-bold',
+                secondsLeft < 60 ? 'bg-destructive/10 text-destructive' : 'bg-foreground/10'
+              )}
+            >
+              <Clock className="w-4 h-4" />
+              {minutes.toString().padStart(2, '0')}:{seconds.toString().padStart(2, '0')}
+            </div>
+            <Button onClick={handleSubmit} disabled={isSubmitting} className="gap-2">
+              <Send className="w-4 h-4" />
+              Submit
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 p-4">
+          {columns.map((column, columnIndex) => (
+            <div key={columnIndex} className="divide-y divide-border">
+              {column.map((questionNumber) => (
+                <div key={questionNumber} className="flex items-center gap-3 py-1.5">
+                  <span className="w-8 text-right font-mono text-sm font-semibold text-muted-foreground">
+                    {questionNumber}
+                  </span>
+                  <Input
+                    value={answers[questionNumber] ?? ''}
+                    onChange={(e) => onAnswerChange(questionNumber, e.target.value)}
+                    className="h-8 font-mono"
+                    autoComplete="off"
+                    spellCheck={false}
+                    aria-label={`Answer ${questionNumber}`}
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ListeningExamModeToggleProps {
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+  className?: string;
+}
+
+export function ListeningExamModeToggle({ checked, onCheckedChange, className }: ListeningExamModeToggleProps) {
+  return (
+    <div className={cn('flex items-start gap-3 rounded-lg border border-border p-3 text-left', className)}>
+      <Switch id="listening-exam-mode" checked={checked} onCheckedChange={onCheckedChange} className="mt-0.5" />
+      <Label htmlFor="listening-exam-mode" className="space-y-1 cursor-pointer">
+        <span className="block text-sm font-medium">Exam mode (paper-based)</span>
+        <span className="block text-xs font-normal text-muted-foreground">
+          The recording plays once with no seeking, then you get 10 minutes to transfer your answers to the answer sheet.
+        </span>
+      </Label>
+    </div>
+  );
+}
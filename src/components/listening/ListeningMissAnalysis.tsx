@@ -0,0 +1,195 @@
+import { useEffect, useRef, useState } from 'react';
+import { Play, Pause, RotateCcw, Loader2, BarChart3, Quote } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { getClipWindow, type ListeningMissSummary } from '@/lib/listeningAnalytics';
+import { getSignedUrl } from '@/lib/storageUrls';
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/** Wraps the words of the answer inside the transcript sentence in <mark> */
+function HighlightedSentence({ sentence, answer }: { sentence: string; answer: string }) {
+  const answerWords = new Set(
+    answer
+      .split('/')
+      .flatMap(alt => alt.toLowerCase().split(/\s+/))
+      .map(word => word.replace(/[^a-z0-9']/g, ''))
+      .filter(Boolean)
+  );
+
+  return (
+    <>
+      {sentence.split(/(\s+)/).map((token, idx) => {
+        const bare = token.toLowerCase().replace(/[^a-z0-9']/g, '');
+        return bare && answerWords.has(bare) ? (
+          <mark key={idx} className="bg-amber-300/60 dark:bg-amber-500/40 rounded px-0.5 text-foreground">
+            {token}
+          </mark>
+        ) : (
+          <span key={idx}>{token}</span>
+        );
+      })}
+    </>
+  );
+}
+
+interface AnswerClipPlayerProps {
+  audioUrl: string;
+  /** Seconds into audioUrl where the answer is heard */
+  timestamp: number;
+  correctAnswer: string;
+  answerSentence?: string | null;
+  className?: string;
+}
+
+/**
+ * Replays the few seconds of recording around a missed answer, with the
+ * transcript sentence that contains it.
+ */
+export function AnswerClipPlayer({ audioUrl, timestamp, correctAnswer, answerSentence, className }: AnswerClipPlayerProps) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [hasPlayed, setHasPlayed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const clip = getClipWindow(timestamp, audioRef.current?.duration);
+
+  useEffect(() => {
+    return () => {
+      audioRef.current?.pause();
+      audioRef.current = null;
+    };
+  }, [audioUrl]);
+
+  const playClip = async () => {
+    setError(null);
+    try {
+      if (!audioRef.current) {
+        setIsLoading(true);
+        const audio = new Audio(await getSignedUrl(audioUrl));
+        audio.addEventListener('timeupdate', () => {
+          const { end } = getClipWindow(timestamp, audio.duration);
+          if (audio.currentTime >= end) {
+            audio.pause();
+            setIsPlaying(false);
+          }
+        });
+        audio.addEventListener('pause', () => setIsPlaying(false));
+        audioRef.current = audio;
+      }
+      const audio = audioRef.current;
+      audio.currentTime = getClipWindow(timestamp, audio.duration).start;
+      await audio.play();
+      setIsPlaying(true);
+      setHasPlayed(true);
+    } catch (err) {
+      console.error('Failed to play answer clip:', err);
+      setError('Could not play this clip');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      audioRef.current?.pause();
+      return;
+    }
+    playClip();
+  };
+
+  return (
+    <div className={cn('rounded-lg border border-border bg-muted/30 p-3 space-y-2', className)}>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={togglePlay} disabled={isLoading} className="gap-2 h-7">
+          {isLoading ? (
+            <Loader2 size={14} className="animate-spin" />
+          ) : isPlaying ? (
+            <Pause size={14} />
+          ) : hasPlayed ? (
+            <RotateCcw size={14} />
+          ) : (
+            <Play size={14} />
+          )}
+          {isPlaying ? 'Pause' : hasPlayed ? 'Replay clip' : 'Play clip'}
+        </Button>
+        <span className="text-xs font-mono text-muted-foreground">
+          {formatTime(clip.start)} – {formatTime(clip.end)}
+        </span>
+        {error && <span className="text-xs text-destructive">{error}</span>}
+      </div>
+      {answerSentence && (
+        <p className="flex gap-2 text-sm leading-relaxed text-foreground/90">
+          <Quote size={14} className="mt-1 shrink-0 text-muted-foreground" />
+          <span>
+            <HighlightedSentence sentence={answerSentence} answer={correctAnswer} />
+          </span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+const formatQuestionType = (type: string) => type.replace(/_/g, ' ').toLowerCase();
+
+interface ListeningMissBreakdownProps {
+  summary: ListeningMissSummary;
+  className?: string;
+}
+
+/** Which sections and question types the student missed most */
+export function ListeningMissBreakdown({ summary, className }: ListeningMissBreakdownProps) {
+  const typesWithMisses = summary.byQuestionType.filter(bucket => bucket.missed > 0);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <BarChart3 size={18} className="text-primary" />
+          Where You Lost Marks
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-5">
+        <div className="space-y-2">
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">By section</p>
+          {summary.byPart.filter(bucket => bucket.total > 0).map(bucket => (
+            <div key={bucket.key} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span>Part {bucket.key}</span>
+                <span className="text-muted-foreground">
+                  {bucket.missed}/{bucket.total} missed
+                </span>
+              </div>
+              <Progress value={bucket.missRate * 100} className="h-1.5" />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">By question type</p>
+          {typesWithMisses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No missed questions.</p>
+          ) : (
+            typesWithMisses.map(bucket => (
+              <div key={bucket.key} className="space-y-1">
+                <div className="flex justify-between gap-2 text-sm">
+                  <span className="capitalize truncate">{formatQuestionType(bucket.key)}</span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {bucket.missed}/{bucket.total}
+                  </span>
+                </div>
+                <Progress value={bucket.missRate * 100} className="h-1.5" />
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
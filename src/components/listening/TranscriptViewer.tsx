@@ -4,8 +4,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { FileText, ChevronDown, ChevronUp, User, Users, BookOpen } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import { FileText, ChevronDown, ChevronUp, User, Users, BookOpen, StickyNote } from 'lucide-react';
+import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { useHighlightNotesOptional } from '@/hooks/useHighlightNotes';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { AddToFlashcardButton } from '@/components/common/AddToFlashcardButton';
 
@@ -24,6 +27,10 @@ interface TranscriptViewerProps {
   };
   defaultExpanded?: boolean;
   className?: string;
+  /** Transcript sentences to highlight, e.g. where missed answers were given */
+  highlightSentences?: string[];
+  /** Test the transcript belongs to; inside a HighlightNoteProvider, selections can be saved as notes */
+  noteTestId?: string;
 }
 
 const SPEAKER_COLORS = [
@@ -94,13 +101,56 @@ function parseTranscript(transcript: string): TranscriptLine[] {
   return lines;
 }
 
-function TranscriptPart({ transcript, partNumber }: { transcript: string; partNumber: number }) {
+function renderWithHighlights(text: string, highlightSentences: string[]) {
+  const chunks: React.ReactNode[] = [];
+  let rest = text;
+  let key = 0;
+
+  // Peel off the earliest highlighted sentence until none remain in the line
+  for (;;) {
+    let next: { index: number; sentence: string } | null = null;
+    for (const sentence of highlightSentences) {
+      const index = sentence ? rest.indexOf(sentence) : -1;
+      if (index !== -1 && (!next || index < next.index)) next = { index, sentence };
+    }
+    if (!next) break;
+
+    if (next.index > 0) chunks.push(rest.slice(0, next.index));
+    chunks.push(
+      <mark key={key++} className="bg-amber-300/50 dark:bg-amber-500/30 rounded px-0.5 text-foreground">
+        {next.sentence}
+      </mark>
+    );
+    rest = rest.slice(next.index + next.sentence.length);
+  }
+
+  if (chunks.length === 0) return text;
+  if (rest) chunks.push(rest);
+  return chunks;
+}
+
+function TranscriptPart({
+  transcript,
+  partNumber,
+  highlightSentences = [],
+  noteTestId,
+}: {
+  transcript: string;
+  partNumber: number;
+  highlightSentences?: string[];
+  noteTestId?: string;
+}) {
   const lines = parseTranscript(transcript);
+  const highlightContext = useHighlightNotesOptional();
+  const canTakeNotes = !!highlightContext && !!noteTestId;
   const [selectedText, setSelectedText] = useState<string>('');
   const [showFlashcardButton, setShowFlashcardButton] = useState(false);
   const [buttonPosition, setButtonPosition] = useState({ x: 0, y: 0 });
+  const [isWritingNote, setIsWritingNote] = useState(false);
+  const [noteText, setNoteText] = useState('');
   
   const handleMouseUp = useCallback(() => {
+    if (isWritingNote) return;
     const selection = window.getSelection();
     const text = selection?.toString().trim();
     
@@ -115,12 +165,37 @@ function TranscriptPart({ transcript, partNumber }: { transcript: string; partNu
     } else {
       setShowFlashcardButton(false);
     }
-  }, []);
+  }, [isWritingNote]);
 
   const handleFlashcardSuccess = useCallback(() => {
     setShowFlashcardButton(false);
     window.getSelection()?.removeAllRanges();
   }, []);
+
+  const closeNote = () => {
+    setIsWritingNote(false);
+    setNoteText('');
+    setShowFlashcardButton(false);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const saveNote = () => {
+    if (!highlightContext || !noteTestId || !noteText.trim()) return;
+    const startOffset = Math.max(0, transcript.indexOf(selectedText));
+    const highlight = highlightContext.addHighlight(
+      {
+        testId: noteTestId,
+        contentId: `transcript-part-${partNumber}`,
+        text: selectedText,
+        startOffset,
+        endOffset: startOffset + selectedText.length,
+      },
+      'red'
+    );
+    highlightContext.addOrUpdateNote(highlight.id, noteText.trim());
+    toast.success('Note saved to your notebook');
+    closeNote();
+  };
   
   if (lines.length === 0) {
     return (
@@ -146,12 +221,41 @@ function TranscriptPart({ transcript, partNumber }: { transcript: string; partNu
             transform: 'translateX(-50%)'
           }}
         >
-          <AddToFlashcardButton 
-            word={selectedText}
-            variant="button"
-            className="shadow-lg"
-            onSuccess={handleFlashcardSuccess}
-          />
+          {isWritingNote ? (
+            <div className="w-64 rounded-lg border border-border bg-popover p-2 shadow-lg space-y-2">
+              <p className="text-xs text-muted-foreground line-clamp-2">"{selectedText}"</p>
+              <Textarea
+                value={noteText}
+                onChange={(e) => setNoteText(e.target.value)}
+                placeholder="Write a note..."
+                className="min-h-[72px] text-sm"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={closeNote}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={saveNote} disabled={!noteText.trim()}>
+                  Save note
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <AddToFlashcardButton 
+                word={selectedText}
+                variant="button"
+                className="shadow-lg"
+                onSuccess={handleFlashcardSuccess}
+              />
+              {canTakeNotes && (
+                <Button size="sm" variant="secondary" className="gap-1 shadow-lg" onClick={() => setIsWritingNote(true)}>
+                  <StickyNote size={14} />
+                  Note
+                </Button>
+              )}
+            </div>
+          )}
         </div>
       )}
       
@@ -199,7 +303,7 @@ function TranscriptPart({ transcript, partNumber }: { transcript: string; partNu
                 </span>
               </div>
               <p className="text-sm text-foreground/90 leading-relaxed pl-6">
-                {line.text}
+                {renderWithHighlights(line.text, highlightSentences)}
               </p>
             </div>
           );
@@ -209,13 +313,17 @@ function TranscriptPart({ transcript, partNumber }: { transcript: string; partNu
       {/* Tip for adding to flashcards */}
       <div className="flex items-center justify-center gap-2 pt-2 text-xs text-muted-foreground">
         <BookOpen size={12} />
-        <span>Select any word or phrase to add to flashcards</span>
+        <span>
+          {canTakeNotes
+            ? 'Select any word or phrase to add to flashcards or your notebook'
+            : 'Select any word or phrase to add to flashcards'}
+        </span>
       </div>
     </div>
   );
 }
 
-export function TranscriptViewer({ transcripts, defaultExpanded = false, className }: TranscriptViewerProps) {
+export function TranscriptViewer({ transcripts, defaultExpanded = false, className, highlightSentences, noteTestId }: TranscriptViewerProps) {
   const [isExpanded, setIsExpanded] = useState(defaultExpanded);
   
   const availableParts = [
@@ -278,6 +386,8 @@ export function TranscriptViewer({ transcripts, defaultExpanded = false, classNa
                     <TranscriptPart 
                       transcript={part.transcript!} 
                       partNumber={parseInt(part.key.replace('part', ''))} 
+                      highlightSentences={highlightSentences}
+                      noteTestId={noteTestId}
                     />
                   </ScrollArea>
                 </TabsContent>
@@ -10,7 +10,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { cn } from '@/lib/utils';
-import { supabase } from '@/integrations/supabase/client';
+import { getSignedUrl } from '@/lib/storageUrls';
 
 interface WebAudioScheduledPlayerProps {
   audioUrls: {
@@ -24,6 +24,12 @@ interface WebAudioScheduledPlayerProps {
   onPartChange?: (partNumber: number) => void;
   onTestComplete?: () => void;
   onReviewStart?: () => void;
+  /**
+   * Paper-based exam rules: the whole recording plays once with no pausing,
+   * seeking, speed changes or skipping, and onTestComplete fires as soon as
+   * the last part ends (the page then runs the answer transfer time).
+   */
+  examMode?: boolean;
 }
 
 // Official IELTS timing (in seconds)
@@ -43,60 +49,6 @@ type PlayerPhase =
 
 const playbackSpeeds = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
 
-type ParsedStorageRef = { bucket: string; path: string };
-
-function parseSupabaseStorageObjectUrl(url: string): ParsedStorageRef | null {
-  try {
-    const u = new URL(url);
-    const markerPublic = '/storage/v1/object/public/';
-    const markerSign = '/storage/v1/object/sign/';
-    const marker = u.pathname.includes(markerPublic) ? markerPublic : u.pathname.includes(markerSign) ? markerSign : null;
-    if (!marker) return null;
-
-    const after = u.pathname.split(marker)[1];
-    if (!after) return null;
-
-    const [bucket, ...pathParts] = after.split('/').filter(Boolean);
-    const path = pathParts.join('/');
-    if (!bucket || !path) return null;
-
-    return { bucket, path: decodeURIComponent(path) };
-  } catch {
-    return null;
-  }
-}
-
-async function getSignedUrl(url: string): Promise<string> {
-  // If it's an external URL (R2, CDN, or any non-Supabase URL), use it directly
-  // This supports Cloudflare R2 and other external audio sources
-  if (!url.includes('/storage/v1/')) {
-    return url;
-  }
-
-  // If it's already a public Supabase URL, use it directly
-  if (url.includes('/storage/v1/object/public/')) {
-    return url;
-  }
-
-  // For Supabase private storage URLs, generate a signed URL
-  const storageRef = parseSupabaseStorageObjectUrl(url);
-  if (!storageRef) {
-    // Fallback: if we can't parse but it looks like Supabase, return as-is
-    return url;
-  }
-
-  // Generate a signed URL for private buckets
-  const { data, error } = await supabase.storage
-    .from(storageRef.bucket)
-    .createSignedUrl(storageRef.path, 3600);
-
-  if (error || !data?.signedUrl) {
-    throw new Error(`Failed to get signed URL: ${error?.message || 'Unknown error'}`);
-  }
-
-  return data.signedUrl;
-}
-
 export function WebAudioScheduledPlayer({
   audioUrls,
   initialStartTime = 0,
@@ -104,12 +56,14 @@ export function WebAudioScheduledPlayer({
   onPartChange,
   onTestComplete,
   onReviewStart,
+  examMode = false,
 }: WebAudioScheduledPlayerProps) {
   const audioRef = useRef<HTMLAudioElement>(null);
+  const startOffset = examMode ? 0 : initialStartTime;
   
   const [phase, setPhase] = useState<PlayerPhase>('loading');
   const [currentPart, setCurrentPart] = useState(initialPart || 1);
-  const [currentTime, setCurrentTime] = useState(initialStartTime);
+  const [currentTime, setCurrentTime] = useState(startOffset);
   const [hasAppliedInitialSeek, setHasAppliedInitialSeek] = useState(false);
   const [duration, setDuration] = useState(0);
   const [pauseCountdown, setPauseCountdown] = useState(0);
@@ -193,6 +147,10 @@ export function WebAudioScheduledPlayer({
         // Auto-play next part after audio loads
         setPhase('playing');
       });
+    } else if (examMode) {
+      // Exam mode hands over straight to the answer transfer time
+      setPhase('completed');
+      onTestComplete?.();
     } else {
       // Last part ended - show 30s pause then final review
       console.log('Last part ended, starting part4_pause');
@@ -206,7 +164,7 @@ export function WebAudioScheduledPlayer({
         });
       });
     }
-  }, [onPartChange, onReviewStart, onTestComplete, startCountdown]);
+  }, [onPartChange, onReviewStart, onTestComplete, startCountdown, examMode]);
 
   // Store handlePartEnd in a ref so event listeners always have the latest version
   const handlePartEndRef = useRef(handlePartEnd);
@@ -283,9 +241,9 @@ export function WebAudioScheduledPlayer({
       
       const startPlayback = () => {
         // Apply initial seek time if not yet applied and this is the initial part
-        if (!hasAppliedInitialSeek && initialStartTime > 0 && currentPart === (initialPart || 1)) {
-          console.log('Seeking to initial start time:', initialStartTime);
-          audio.currentTime = initialStartTime;
+        if (!hasAppliedInitialSeek && startOffset > 0 && currentPart === (initialPart || 1)) {
+          console.log('Seeking to initial start time:', startOffset);
+          audio.currentTime = startOffset;
           setHasAppliedInitialSeek(true);
         }
         audio.play().catch(e => console.error('Play failed:', e));
@@ -309,7 +267,7 @@ export function WebAudioScheduledPlayer({
         };
       }
     }
-  }, [phase, currentPart, signedUrls, hasAppliedInitialSeek, initialStartTime, initialPart]);
+  }, [phase, currentPart, signedUrls, hasAppliedInitialSeek, startOffset, initialPart]);
 
   // Set up audio event listeners
   useEffect(() => {
@@ -436,6 +394,7 @@ export function WebAudioScheduledPlayer({
     }
 
     if (phase === 'playing') {
+      if (examMode) return;
       audio.pause();
       setPhase('paused');
     } else if (phase === 'paused') {
@@ -444,16 +403,16 @@ export function WebAudioScheduledPlayer({
         .catch(e => console.error('Resume failed:', e));
       setPhase('playing');
     }
-  }, [phase]);
+  }, [phase, examMode]);
 
   // Seek
   const handleSeek = useCallback((value: number[]) => {
     const audio = audioRef.current;
-    if (audio) {
+    if (audio && !examMode) {
       audio.currentTime = value[0];
       setCurrentTime(value[0]);
     }
-  }, []);
+  }, [examMode]);
 
   // Volume
   const handleVolumeChange = useCallback((value: number[]) => {
@@ -537,15 +496,17 @@ export function WebAudioScheduledPlayer({
               {phase === 'final_review' ? 'Time remaining to check all answers' : 'Time to check your answers'}
             </div>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={skipToNextPart}
-            className="flex items-center gap-1"
-          >
-            <SkipForward size={16} />
-            {phase === 'part_pause' ? 'Start Next Part' : phase === 'final_review' ? 'Finish Test' : 'Continue'}
-          </Button>
+          {!examMode && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={skipToNextPart}
+              className="flex items-center gap-1"
+            >
+              <SkipForward size={16} />
+              {phase === 'part_pause' ? 'Start Next Part' : phase === 'final_review' ? 'Finish Test' : 'Continue'}
+            </Button>
+          )}
         </div>
       )}
 
@@ -556,7 +517,9 @@ export function WebAudioScheduledPlayer({
             <div className="text-lg font-semibold text-green-600 dark:text-green-400">
               Listening test completed
             </div>
-            <div className="text-xs text-muted-foreground">Please submit your answers</div>
+            <div className="text-xs text-muted-foreground">
+              {examMode ? 'Transfer your answers to the answer sheet' : 'Please submit your answers'}
+            </div>
           </div>
         </div>
       )}
@@ -576,13 +539,14 @@ export function WebAudioScheduledPlayer({
                 variant="ghost"
                 size="icon"
                 onClick={togglePlayPause}
+                disabled={examMode && phase === 'playing'}
                 className="flex-shrink-0 h-8 w-8"
               >
                 {phase === 'playing' ? <Pause size={20} /> : <Play size={20} />}
               </Button>
 
               {/* Skip to next part button (only during playing, not on last part) */}
-              {isPlayingOrPaused && availableParts.indexOf(currentPart) < availableParts.length - 1 && (
+              {!examMode && isPlayingOrPaused && availableParts.indexOf(currentPart) < availableParts.length - 1 && (
                 <Button
                   variant="ghost"
                   size="icon"
@@ -599,13 +563,22 @@ export function WebAudioScheduledPlayer({
                 <span className="text-xs text-muted-foreground w-10 text-right flex-shrink-0">
                   {formatTime(currentTime)}
                 </span>
-                <Slider
-                  value={[currentTime]}
-                  max={duration || 1}
-                  step={0.1}
-                  onValueChange={handleSeek}
-                  className="flex-1 min-w-[60px]"
-                />
+                {examMode ? (
+                  <div className="flex-1 min-w-[60px] h-1.5 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className="h-full bg-primary transition-[width]"
+                      style={{ width: `${duration ? (currentTime / duration) * 100 : 0}%` }}
+                    />
+                  </div>
+                ) : (
+                  <Slider
+                    value={[currentTime]}
+                    max={duration || 1}
+                    step={0.1}
+                    onValueChange={handleSeek}
+                    className="flex-1 min-w-[60px]"
+                  />
+                )}
                 <span className="text-xs text-muted-foreground w-10 text-left flex-shrink-0">
                   {formatTime(duration)}
                 </span>
@@ -626,18 +599,20 @@ export function WebAudioScheduledPlayer({
               </div>
 
               {/* Playback Speed */}
-              <Select value={playbackRate.toString()} onValueChange={handlePlaybackRateChange}>
-                <SelectTrigger className="w-[70px] h-7 text-xs">
-                  <SelectValue placeholder="Speed" />
-                </SelectTrigger>
-                <SelectContent>
-                  {playbackSpeeds.map((speed) => (
-                    <SelectItem key={speed} value={speed.toString()}>
-                      {speed}x
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              {!examMode && (
+                <Select value={playbackRate.toString()} onValueChange={handlePlaybackRateChange}>
+                  <SelectTrigger className="w-[70px] h-7 text-xs">
+                    <SelectValue placeholder="Speed" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {playbackSpeeds.map((speed) => (
+                      <SelectItem key={speed} value={speed.toString()}>
+                        {speed}x
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
 
               {/* Phase indicator and progress dots - right of speed controller */}
               <div className="flex items-center gap-2 flex-shrink-0 ml-2">
@@ -26,6 +26,8 @@ interface WebAudioScheduledPlayerSafeProps {
   onTestComplete?: () => void;
   onReviewStart?: () => void;
   onFallbackUsed?: () => void;
+  /** Paper-based exam rules, see WebAudioScheduledPlayer */
+  examMode?: boolean;
   accent?: 'US' | 'GB' | 'AU';
   className?: string;
 }
@@ -53,6 +55,7 @@ export function WebAudioScheduledPlayerSafe({
   onTestComplete,
   onReviewStart,
   onFallbackUsed,
+  examMode = false,
   accent = 'GB',
   className,
 }: WebAudioScheduledPlayerSafeProps) {
@@ -324,6 +327,7 @@ export function WebAudioScheduledPlayerSafe({
         onPartChange={handlePartChange}
         onTestComplete={onTestComplete}
         onReviewStart={onReviewStart}
+        examMode={examMode}
       />
       
       {/* Show SimulatedAudioPlayer if there's an error but we have transcripts */}
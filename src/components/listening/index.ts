@@ -10,4 +10,6 @@ export * from './ListeningNavigation';
 export * from './ListeningTestControls';
 export * from './ListeningTimer';
 export * from './AudioPlayOverlay';
-export * from './TranscriptViewer';
\ No newline at end of file
+export * from './TranscriptViewer';
+export * from './ListeningAnswerSheet';
+export * from './ListeningMissAnalysis';
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { useMemo, useCallback } from "react";
 import { cn } from "@/lib/utils";
-import { Check, ChevronLeft, ChevronRight } from "lucide-react";
+import { Check, ChevronLeft, ChevronRight, Flag } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
 
 interface Question {
@@ -56,6 +56,8 @@ const PART_LABEL_MIN_WIDTH = 60;
 const PART_LABEL_MIN_WIDTH_MOBILE = 16; // Minimal on mobile since text is hidden
 const NAV_HORIZONTAL_PADDING = 12;
 const NAV_HORIZONTAL_PADDING_MOBILE = 4; // Tighter on mobile
+const FLAG_BUTTON_WIDTH = 36;
+const FLAG_BUTTON_WIDTH_DESKTOP = 84;
 
 export function ReadingNavigation({
   questions,
@@ -66,6 +68,7 @@ export function ReadingNavigation({
   passages = [],
   onPassageChange,
   flaggedQuestions: externalFlaggedQuestions,
+  onToggleFlag,
   onSubmit,
   questionGroups = [],
 }: ReadingNavigationProps) {
@@ -449,8 +452,13 @@ export function ReadingNavigation({
             );
           })}
         </div>
-        {/* Spacer for submit button alignment */}
-        <div className="shrink-0 ml-2 md:ml-8" style={{ width: isMobile ? 36 : 64 }} />
+        {/* Spacer for submit (and review flag) button alignment */}
+        <div
+          className="shrink-0 ml-2 md:ml-8"
+          style={{
+            width: (isMobile ? 36 : 64) + (onToggleFlag ? (isMobile ? FLAG_BUTTON_WIDTH : FLAG_BUTTON_WIDTH_DESKTOP) + 8 : 0),
+          }}
+        />
       </div>
       
       {/* Content row - numbers centered */}
@@ -588,7 +596,25 @@ export function ReadingNavigation({
         </div>
 
         {/* Submit button - fixed position on mobile */}
-        <div className="flex shrink-0 items-center ml-2 md:ml-8">
+        <div className="flex shrink-0 items-center gap-2 ml-2 md:ml-8">
+          {/* Flag the current question for review */}
+          {onToggleFlag && (
+            <button
+              className={cn(
+                "flex items-center justify-center gap-1.5 rounded border text-sm transition-colors",
+                flaggedQuestions.has(currentQuestion)
+                  ? "border-amber-500 bg-amber-500/15 text-amber-700 dark:text-amber-400"
+                  : "border-border text-foreground/80 hover:bg-muted"
+              )}
+              style={{ width: isMobile ? FLAG_BUTTON_WIDTH : FLAG_BUTTON_WIDTH_DESKTOP, height: 32 }}
+              onClick={() => onToggleFlag(currentQuestion)}
+              aria-pressed={flaggedQuestions.has(currentQuestion)}
+              title={`Flag question ${currentQuestion} for review`}
+            >
+              <Flag size={14} className={cn(flaggedQuestions.has(currentQuestion) && "fill-current")} />
+              <span className="hidden md:inline">Review</span>
+            </button>
+          )}
           <button
             className={cn(
               "transition-colors flex items-center justify-center ielts-submit-btn",
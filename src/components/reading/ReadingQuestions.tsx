@@ -72,6 +72,8 @@ interface ReadingQuestionsProps {
   // Click-to-select props for matching headings
   selectedHeading?: string | null;
   onSelectedHeadingChange?: (headingId: string | null) => void;
+  // Computer-delivered IELTS: every matching type is answered by drag-and-drop
+  cdMode?: boolean;
 }
 
 export function ReadingQuestions({ 
@@ -92,7 +94,8 @@ export function ReadingQuestions({
   getQuestionGroupOptions,
   renderRichText, // Accept renderRichText prop
   selectedHeading,
-  onSelectedHeadingChange
+  onSelectedHeadingChange,
+  cdMode = false,
 }: ReadingQuestionsProps) {
   // Removed expandedTFNQ state as options will always be visible
 
@@ -676,6 +679,21 @@ export function ReadingQuestions({
                     
                     const optionsTitle = groupOptions?.options_title || 'List of People';
                     
+                    if (cdMode) {
+                      return (
+                        <MatchingSentenceEndingsDragDrop
+                          questions={typeQuestions}
+                          groupOptions={featureOptions.map((opt: { letter: string; text: string }) => `${opt.letter} ${opt.text}`)}
+                          answers={answers}
+                          onAnswerChange={onAnswerChange}
+                          onQuestionFocus={setCurrentQuestion}
+                          isActive={isActiveGroup}
+                          optionsTitle={optionsTitle}
+                          allowReuse
+                        />
+                      );
+                    }
+
                     // Transform questions to MatchingFeaturesQuestion format
                     const matchingQuestions = typeQuestions.map(q => ({
                       question_number: q.question_number,
@@ -745,6 +763,21 @@ export function ReadingQuestions({
                       );
                     }
                     
+                    if (cdMode) {
+                      return (
+                        <MatchingSentenceEndingsDragDrop
+                          questions={typeQuestions}
+                          groupOptions={matchingOptions.map(opt => `${opt.letter} ${opt.text}`)}
+                          answers={answers}
+                          onAnswerChange={onAnswerChange}
+                          onQuestionFocus={setCurrentQuestion}
+                          isActive={isActiveGroup}
+                          optionsTitle={optionsTitle}
+                          allowReuse
+                        />
+                      );
+                    }
+
                     // Transform questions to MatchingInformationQuestion format
                     const matchingQuestions = typeQuestions.map(q => ({
                       question_number: q.question_number,
@@ -15,6 +15,10 @@ interface MatchingSentenceEndingsDragDropProps {
   onAnswerChange: (questionNumber: number, answer: string) => void;
   onQuestionFocus?: (questionNumber: number) => void;
   isActive: boolean;
+  /** Heading above the draggable options */
+  optionsTitle?: string;
+  /** Options stay in the list once placed, for "you may use any letter more than once" types */
+  allowReuse?: boolean;
 }
 
 function extractOptionId(option: string): string {
@@ -40,6 +44,8 @@ export function MatchingSentenceEndingsDragDrop({
   answers: _answers,
   onAnswerChange: _onAnswerChange,
   onQuestionFocus,
+  optionsTitle = 'List of Sentence Endings',
+  allowReuse = false,
 }: MatchingSentenceEndingsDragDropProps) {
   const groupOptions = _groupOptions;
   const answers = _answers;
@@ -171,7 +177,7 @@ export function MatchingSentenceEndingsDragDrop({
 
       {/* Available Endings - styled exactly like List of Headings with drag-back support */}
       <div className="space-y-3">
-        <h4 className="text-sm font-bold text-foreground">List of Sentence Endings</h4>
+        <h4 className="text-sm font-bold text-foreground">{optionsTitle}</h4>
         <div
           className={cn(
             'inline-block max-w-full p-2 transition-colors',
@@ -184,7 +190,7 @@ export function MatchingSentenceEndingsDragDrop({
           <div className="space-y-1.5">
             {groupOptions.map((option) => {
               const optionId = extractOptionId(option);
-              const isUsed = usedOptionIds.includes(optionId);
+              const isUsed = !allowReuse && usedOptionIds.includes(optionId);
               const isPressed = pressedOption === option;
               const isDragging = draggedOption === option;
 
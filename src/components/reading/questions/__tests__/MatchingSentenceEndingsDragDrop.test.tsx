@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render } from '@testing-library/react';
+import { screen } from '@testing-library/dom';
+import { MatchingSentenceEndingsDragDrop } from '../MatchingSentenceEndingsDragDrop';
+
+describe('MatchingSentenceEndingsDragDrop', () => {
+  const questions = [
+    { id: 'q1', question_number: 1, question_text: 'proposed a new theory', options: null },
+    { id: 'q2', question_number: 2, question_text: 'disputed the findings', options: null },
+  ];
+
+  const defaultProps = {
+    questions,
+    groupOptions: ['A Anna Smith', 'B Ben Jones', 'C Carla Diaz'],
+    answers: { 1: 'A' } as Record<number, string>,
+    onAnswerChange: vi.fn(),
+    isActive: true,
+  };
+
+  it('should hide options already placed in this group', () => {
+    render(<MatchingSentenceEndingsDragDrop {...defaultProps} />);
+
+    // Only the copy in question 1's drop zone remains
+    expect(screen.queryByText('A Anna Smith')).not.toBeInTheDocument();
+    expect(screen.getByText('Anna Smith')).toBeInTheDocument();
+    expect(screen.getByText('List of Sentence Endings')).toBeInTheDocument();
+  });
+
+  it('should keep placed options draggable when they may be used more than once', () => {
+    render(<MatchingSentenceEndingsDragDrop {...defaultProps} optionsTitle="List of People" allowReuse />);
+
+    const option = screen.getByText('A Anna Smith');
+    expect(option.closest('[draggable]')).toHaveAttribute('draggable', 'true');
+    expect(screen.getByText('List of People')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,191 @@
+import { useMemo, useState } from 'react';
+import { ArrowRight, Loader2, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+import {
+  UPGRADE_CRITERION_LABELS,
+  UPGRADE_KIND_LABELS,
+  diffAnswerUpgrade,
+  type AnswerUpgrade,
+  type AnswerUpgradeCriterion,
+  type AnswerUpgradesRecord,
+} from '@/lib/answerUpgrade';
+
+const CRITERION_STYLES: Record<AnswerUpgradeCriterion, { text: string; mark: string }> = {
+  lexical_resource: {
+    text: 'border-sky-500/40 text-sky-700 dark:text-sky-400',
+    mark: 'bg-sky-500/15 text-sky-900 dark:text-sky-200',
+  },
+  grammatical_range: {
+    text: 'border-violet-500/40 text-violet-700 dark:text-violet-400',
+    mark: 'bg-violet-500/15 text-violet-900 dark:text-violet-200',
+  },
+  fluency_coherence: {
+    text: 'border-amber-500/40 text-amber-700 dark:text-amber-400',
+    mark: 'bg-amber-500/15 text-amber-900 dark:text-amber-200',
+  },
+};
+
+function UpgradeDiff({ upgrade }: { upgrade: AnswerUpgrade }) {
+  const segments = useMemo(() => diffAnswerUpgrade(upgrade), [upgrade]);
+
+  return (
+    <div className="grid gap-3 md:grid-cols-2">
+      <div className="rounded-lg border p-3">
+        <p className="text-xs text-muted-foreground mb-1">Your answer</p>
+        <p className="text-sm leading-relaxed">
+          {segments
+            .filter((s) => s.op !== 'added')
+            .map((s, i) => (
+              <span key={i}>
+                {i > 0 && ' '}
+                {s.op === 'removed' ? (
+                  <span className="rounded px-0.5 bg-destructive/10 text-destructive line-through decoration-destructive/50">
+                    {s.text}
+                  </span>
+                ) : (
+                  s.text
+                )}
+              </span>
+            ))}
+        </p>
+      </div>
+      <div className="rounded-lg border border-primary/30 bg-primary/5 p-3">
+        <p className="text-xs text-primary font-medium mb-1">Band {upgrade.targetBand} version</p>
+        <p className="text-sm leading-relaxed">
+          {segments
+            .filter((s) => s.op !== 'removed')
+            .map((s, i) => (
+              <span key={i}>
+                {i > 0 && ' '}
+                {s.op === 'added' ? (
+                  <mark
+                    className={cn(
+                      'rounded px-0.5 font-medium',
+                      s.criterion ? CRITERION_STYLES[s.criterion].mark : 'bg-success/15'
+                    )}
+                    title={s.criterion ? UPGRADE_CRITERION_LABELS[s.criterion] : undefined}
+                  >
+                    {s.text}
+                  </mark>
+                ) : (
+                  s.text
+                )}
+              </span>
+            ))}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface AnswerUpgradesCardProps {
+  resultId: string;
+  record?: AnswerUpgradesRecord;
+  onGenerated: (record: AnswerUpgradesRecord) => void;
+}
+
+/** The candidate's own answers rewritten one band up, diffed, with each change tagged by criterion */
+export function AnswerUpgradesCard({ resultId, record, onGenerated }: AnswerUpgradesCardProps) {
+  const [generating, setGenerating] = useState(false);
+
+  const generate = async () => {
+    setGenerating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('speaking-answer-upgrades', {
+        body: { resultId },
+      });
+      if (error || !data?.success) throw new Error(data?.error || error?.message || 'Failed to generate');
+      onGenerated(data.answerUpgrades as AnswerUpgradesRecord);
+      toast.success('Your answers have been upgraded');
+    } catch (err) {
+      console.error('[AnswerUpgradesCard] Failed to generate upgrades:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not upgrade your answers');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const upgrades = [...(record?.upgrades ?? [])].sort(
+    (a, b) => a.partNumber - b.partNumber || a.questionNumber - b.questionNumber
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wand2 className="w-5 h-5 text-primary" />
+          Your Answers, One Band Up
+        </CardTitle>
+        <CardDescription>
+          Your own transcripts rewritten at the next band, with every upgrade tagged by the criterion it improves
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {upgrades.length === 0 ? (
+          <div className="text-center space-y-3 py-4">
+            <p className="text-sm text-muted-foreground">
+              See exactly which collocations and structures would lift each of your answers.
+            </p>
+            <Button onClick={generate} disabled={generating}>
+              {generating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Wand2 className="w-4 h-4 mr-2" />}
+              {generating ? 'Rewriting your answers...' : 'Upgrade my answers'}
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(UPGRADE_CRITERION_LABELS) as AnswerUpgradeCriterion[]).map((criterion) => (
+                <Badge key={criterion} variant="outline" className={cn('text-[10px]', CRITERION_STYLES[criterion].text)}>
+                  {UPGRADE_CRITERION_LABELS[criterion]}
+                </Badge>
+              ))}
+            </div>
+
+            {upgrades.map((upgrade) => (
+              <div key={upgrade.segmentKey} className="space-y-3 border-b pb-6 last:border-b-0 last:pb-0">
+                <div className="flex flex-wrap items-start gap-2">
+                  <Badge variant="secondary" className="text-xs shrink-0">
+                    P{upgrade.partNumber} Q{upgrade.questionNumber}
+                  </Badge>
+                  <p className="text-sm font-medium flex-1">{upgrade.questionText}</p>
+                  <Badge variant="outline" className="text-xs shrink-0">
+                    Band {upgrade.fromBand} <ArrowRight className="w-3 h-3 mx-1" /> {upgrade.targetBand}
+                  </Badge>
+                </div>
+
+                <UpgradeDiff upgrade={upgrade} />
+
+                {upgrade.changes.length > 0 && (
+                  <ul className="space-y-2">
+                    {upgrade.changes.map((change, i) => (
+                      <li key={i} className="text-sm flex flex-wrap items-baseline gap-x-2 gap-y-1">
+                        <Badge variant="outline" className={cn('text-[10px]', CRITERION_STYLES[change.criterion].text)}>
+                          {UPGRADE_KIND_LABELS[change.kind]}
+                        </Badge>
+                        {change.original && (
+                          <>
+                            <span className="text-muted-foreground line-through">{change.original}</span>
+                            <ArrowRight className="w-3 h-3 text-muted-foreground self-center" />
+                          </>
+                        )}
+                        <span className="font-medium">{change.upgraded}</span>
+                        {change.explanation && (
+                          <span className="basis-full text-xs text-muted-foreground">{change.explanation}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Activity, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { PauseEvent } from '@/lib/speechRecognition';
+import {
+  buildFluencyTimeline,
+  computeWaveformPeaks,
+  detectSilences,
+  type TimeSpan,
+  type TimelineWord,
+} from '@/lib/fluencyTimeline';
+
+const WIDTH = 1000;
+const HEIGHT = 120;
+const WAVE_TOP = 40;
+const PACE_HEIGHT = 32;
+const WAVEFORM_BUCKETS = 200;
+
+const PAUSE_STYLES: Record<PauseEvent['type'], { fill: string; label: string; swatch: string }> = {
+  hesitation: { fill: 'fill-amber-400/30', label: 'Hesitations', swatch: 'bg-amber-400/60' },
+  pause: { fill: 'fill-orange-500/40', label: 'Pauses', swatch: 'bg-orange-500/70' },
+  breakdown: { fill: 'fill-destructive/50', label: 'Breakdowns', swatch: 'bg-destructive/70' },
+};
+
+interface DecodedAudio {
+  duration: number;
+  peaks: number[];
+  silences: TimeSpan[];
+}
+
+/** Decode a recording once for its waveform and silent stretches */
+function useDecodedAudio(audioUrl?: string) {
+  const [decoded, setDecoded] = useState<DecodedAudio | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setDecoded(null);
+    if (!audioUrl) return;
+
+    let cancelled = false;
+    const context = new AudioContext();
+    setIsLoading(true);
+    fetch(audioUrl)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Failed to fetch recording: ${res.status}`);
+        return res.arrayBuffer();
+      })
+      .then((data) => context.decodeAudioData(data))
+      .then((buffer) => {
+        if (cancelled) return;
+        const samples = buffer.getChannelData(0);
+        setDecoded({
+          duration: buffer.duration,
+          peaks: computeWaveformPeaks(samples, WAVEFORM_BUCKETS),
+          silences: detectSilences(samples, buffer.sampleRate),
+        });
+      })
+      .catch((err) => console.error('Failed to decode recording for fluency timeline:', err))
+      .finally(() => {
+        context.close();
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [audioUrl]);
+
+  return { decoded, isLoading };
+}
+
+const formatSeconds = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+interface FluencyTimelineProps {
+  audioUrl?: string;
+  /** Whisper word timings, when the evaluation kept them */
+  words?: TimelineWord[];
+  transcript?: string;
+  className?: string;
+}
+
+/**
+ * Waveform of one recorded answer with pauses shaded by severity, filler
+ * words marked and a words-per-minute line across the top.
+ */
+export function FluencyTimeline({ audioUrl, words, transcript, className }: FluencyTimelineProps) {
+  const { decoded, isLoading } = useDecodedAudio(audioUrl);
+
+  const timeline = useMemo(() => {
+    const duration = decoded?.duration ?? (words?.length ? words[words.length - 1].end : 0);
+    if (duration <= 0) return null;
+    return buildFluencyTimeline({ duration, words, transcript, silences: decoded?.silences });
+  }, [decoded, words, transcript]);
+
+  if (isLoading) {
+    return (
+      <div className={cn('flex items-center gap-2 text-xs text-muted-foreground', className)}>
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Building fluency timeline…
+      </div>
+    );
+  }
+
+  if (!timeline) return null;
+
+  const x = (seconds: number) => (seconds / timeline.duration) * WIDTH;
+  const maxWpm = Math.max(160, ...timeline.pace.map((p) => p.wpm));
+  const pacePath = timeline.pace
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.time).toFixed(1)},${(PACE_HEIGHT - (p.wpm / maxWpm) * PACE_HEIGHT + 2).toFixed(1)}`)
+    .join(' ');
+  const waveHeight = HEIGHT - WAVE_TOP;
+  const barWidth = decoded ? WIDTH / decoded.peaks.length : 0;
+  const { pauseMetrics } = timeline;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <Activity className="w-3 h-3" />
+        <span className="font-medium text-foreground">Fluency timeline</span>
+        <span>{timeline.averageWpm} wpm average</span>
+        {timeline.estimated && (
+          <Badge variant="outline" className="text-[10px]">
+            Word positions estimated
+          </Badge>
+        )}
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-28 rounded-md bg-muted/30"
+        role="img"
+        aria-label={`Fluency timeline: ${pauseMetrics.totalPauses} pauses, ${timeline.fillers.length} fillers`}
+      >
+        {timeline.pauses.map((pause) => (
+          <rect
+            key={pause.startTime}
+            x={x(pause.startTime / 1000)}
+            y={WAVE_TOP}
+            width={Math.max(2, x(pause.duration / 1000))}
+            height={waveHeight}
+            className={PAUSE_STYLES[pause.type].fill}
+          >
+            <title>{`${pause.type} · ${(pause.duration / 1000).toFixed(1)}s at ${formatSeconds(pause.startTime / 1000)}`}</title>
+          </rect>
+        ))}
+
+        {decoded?.peaks.map((peak, i) => {
+          const h = Math.max(1, peak * waveHeight * 0.9);
+          return (
+            <rect
+              key={i}
+              x={i * barWidth}
+              y={WAVE_TOP + (waveHeight - h) / 2}
+              width={Math.max(1, barWidth - 1)}
+              height={h}
+              className="fill-primary/60"
+            />
+          );
+        })}
+
+        {timeline.fillers.map((filler, i) => (
+          <g key={`${filler.time}-${i}`}>
+            <line x1={x(filler.time)} x2={x(filler.time)} y1={WAVE_TOP} y2={HEIGHT} className="stroke-violet-500" strokeWidth={2} />
+            <title>{`"${filler.word}" at ${formatSeconds(filler.time)}`}</title>
+          </g>
+        ))}
+
+        {pacePath && <path d={pacePath} fill="none" className="stroke-sky-500" strokeWidth={2} vectorEffect="non-scaling-stroke" />}
+      </svg>
+
+      <div className="flex justify-between text-[10px] font-mono text-muted-foreground">
+        <span>0:00</span>
+        <span>{formatSeconds(timeline.duration / 2)}</span>
+        <span>{formatSeconds(timeline.duration)}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        {(['hesitation', 'pause', 'breakdown'] as const).map((type) => {
+          const count =
+            type === 'hesitation'
+              ? pauseMetrics.hesitations
+              : type === 'pause'
+                ? pauseMetrics.noticeablePauses
+                : pauseMetrics.fluencyBreakdowns;
+          return (
+            <span key={type} className="flex items-center gap-1">
+              <span className={cn('inline-block w-2.5 h-2.5 rounded-sm', PAUSE_STYLES[type].swatch)} />
+              {PAUSE_STYLES[type].label}: {count}
+            </span>
+          );
+        })}
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-0.5 h-2.5 bg-violet-500" />
+          Fillers: {timeline.fillers.length}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2.5 h-0.5 bg-sky-500" />
+          Words per minute
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { Mic, Play, Square, Loader2, CheckCircle2, XCircle, Volume2, VolumeX, ArrowLeft, Globe, Info, AlertTriangle, Headphones, Radio } from 'lucide-react';
+import { Mic, Play, Square, Loader2, CheckCircle2, XCircle, Volume2, VolumeX, ArrowLeft, Globe, Info, AlertTriangle, Headphones, Radio, MessagesSquare } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -29,10 +30,13 @@ export type AccentCode = typeof ACCENT_OPTIONS[number]['value'];
 export type EvaluationMode = 'basic' | 'accuracy';
 
 interface MicrophoneTestProps {
-  onTestComplete: (selectedAccent: AccentCode, evaluationMode: EvaluationMode) => void;
+  onTestComplete: (selectedAccent: AccentCode, evaluationMode: EvaluationMode, adaptivePart3: boolean) => void;
   onBack?: () => void;
   initialAccent?: AccentCode;
   initialEvaluationMode?: EvaluationMode;
+  /** Offer follow-up Part 3 questions written from the candidate's answers */
+  showAdaptivePart3?: boolean;
+  initialAdaptivePart3?: boolean;
 }
 
 // Helper to check if microphone permission is already granted
@@ -66,7 +70,14 @@ const OPTIMIZED_AUDIO_CONSTRAINTS: MediaTrackConstraints = {
   sampleRate: { ideal: 48000 },
 };
 
-export function MicrophoneTest({ onTestComplete, onBack, initialAccent, initialEvaluationMode }: MicrophoneTestProps) {
+export function MicrophoneTest({
+  onTestComplete,
+  onBack,
+  initialAccent,
+  initialEvaluationMode,
+  showAdaptivePart3,
+  initialAdaptivePart3,
+}: MicrophoneTestProps) {
   // Browser detection for conditional UI
   const [browser] = useState(() => detectBrowser());
   
@@ -90,6 +101,7 @@ export function MicrophoneTest({ onTestComplete, onBack, initialAccent, initialE
   
   // Evaluation mode selection - DEFAULT to 'accuracy' (more reliable)
   const [evaluationMode, setEvaluationMode] = useState<EvaluationMode>(initialEvaluationMode || 'accuracy');
+  const [adaptivePart3, setAdaptivePart3] = useState(initialAdaptivePart3 ?? false);
   
   // Accent selection - use stored accent or default based on browser
   const [selectedAccent, setSelectedAccent] = useState<AccentCode>(() => {
@@ -564,9 +576,28 @@ export function MicrophoneTest({ onTestComplete, onBack, initialAccent, initialE
         )}
       </div>
 
+      {showAdaptivePart3 && (
+        <div className="bg-card border border-border rounded-xl p-6 mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-primary/10 text-primary flex items-center justify-center shrink-0">
+              <MessagesSquare className="w-5 h-5" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <label htmlFor="adaptive-part3" className="font-medium text-sm cursor-pointer">
+                Interactive Part 3
+              </label>
+              <p className="text-xs text-muted-foreground">
+                The examiner follows up on what you say, asking you to justify, compare and speculate
+              </p>
+            </div>
+            <Switch id="adaptive-part3" checked={adaptivePart3} onCheckedChange={setAdaptivePart3} />
+          </div>
+        </div>
+      )}
+
       {/* Start Button */}
       <Button
-        onClick={() => onTestComplete(selectedAccent, evaluationMode)}
+        onClick={() => onTestComplete(selectedAccent, evaluationMode, adaptivePart3)}
         disabled={!micAccessGranted && testPassed !== true}
         className="w-full h-12 text-base"
         size="lg"
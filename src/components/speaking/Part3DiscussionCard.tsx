@@ -0,0 +1,71 @@
+import { CornerDownRight, MessagesSquare } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { PART3_MOVE_LABELS, type Part3Move, type Part3QuestionTree } from '@/lib/part3FollowUp';
+
+const MOVE_STYLES: Record<Part3Move, string> = {
+  opening: 'border-muted-foreground/30 text-muted-foreground',
+  prepared: 'border-muted-foreground/30 text-muted-foreground',
+  justify: 'border-primary/40 text-primary',
+  compare: 'border-sky-500/40 text-sky-700 dark:text-sky-400',
+  speculate: 'border-violet-500/40 text-violet-700 dark:text-violet-400',
+  evaluate: 'border-amber-500/40 text-amber-700 dark:text-amber-400',
+};
+
+const EXCERPT_WORDS = 40;
+
+const excerpt = (text?: string) => {
+  const words = (text ?? '').trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '';
+  return words.length > EXCERPT_WORDS ? `${words.slice(0, EXCERPT_WORDS).join(' ')}…` : words.join(' ');
+};
+
+interface Part3DiscussionCardProps {
+  tree: Part3QuestionTree;
+}
+
+/** The interactive Part 3 questions in order, each linked to the answer it followed up */
+export function Part3DiscussionCard({ tree }: Part3DiscussionCardProps) {
+  const numberOf = new Map(tree.turns.map((turn, i) => [turn.questionId, i + 1]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessagesSquare className="w-5 h-5 text-primary" />
+          Part 3 Discussion
+        </CardTitle>
+        <CardDescription>
+          How the examiner followed up on your answers{tree.topic ? ` about "${tree.topic}"` : ''}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-4">
+          {tree.turns.map((turn, i) => {
+            const parentNumber = turn.parentQuestionId ? numberOf.get(turn.parentQuestionId) : undefined;
+            const answer = excerpt(turn.answerTranscript);
+            return (
+              <li key={turn.questionId} className={cn('space-y-1', parentNumber && 'pl-4 border-l-2 border-border')}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs font-medium text-muted-foreground">Q{i + 1}</span>
+                  <Badge variant="outline" className={cn('text-[10px]', MOVE_STYLES[turn.move])}>
+                    {PART3_MOVE_LABELS[turn.move]}
+                  </Badge>
+                </div>
+                {parentNumber && turn.focus && (
+                  <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <CornerDownRight className="w-3 h-3" />
+                    Picked up from Q{parentNumber}: {turn.focus}
+                  </p>
+                )}
+                <p className="text-sm font-medium">{turn.questionText}</p>
+                {answer && <p className="text-sm text-muted-foreground italic">"{answer}"</p>}
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,279 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { History, Loader2, Mic, RotateCcw, Square } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { SPEAKING_CRITERIA } from '@/lib/ieltsBand';
+import { cn } from '@/lib/utils';
+import {
+  RETRY_CRITERION_LABELS,
+  attemptFromRow,
+  criteriaDelta,
+  formatBandDelta,
+  type QuestionAttempt,
+} from '@/lib/questionRetry';
+
+// Same limits the examiner uses during the test
+const MAX_RECORDING_SECONDS: Record<number, number> = { 1: 45, 2: 120, 3: 90 };
+
+export interface QuestionRetrySource {
+  /** AI practice result the question belongs to */
+  resultId?: string;
+  /** Or the admin-test submission */
+  submissionId?: string;
+  segmentKey: string;
+  partNumber: number;
+  questionNumber: number;
+  questionText: string;
+}
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(String(reader.result || ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+function deltaClass(delta: number) {
+  if (delta > 0) return 'border-success/40 text-success';
+  if (delta < 0) return 'border-destructive/40 text-destructive';
+  return 'text-muted-foreground';
+}
+
+function AttemptDelta({ attempt }: { attempt: QuestionAttempt }) {
+  const delta = criteriaDelta(attempt.originalCriteria, attempt.criteria);
+  const overall = attempt.overallBand - attempt.originalBand;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium">Band {attempt.originalBand} → {attempt.overallBand}</span>
+        <Badge variant="outline" className={cn('text-xs', deltaClass(overall))}>
+          {formatBandDelta(overall)}
+        </Badge>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {SPEAKING_CRITERIA.map((key) => {
+          const after = attempt.criteria[key];
+          if (after === undefined) return null;
+          const change = delta[key];
+          return (
+            <div key={key} className="flex items-center justify-between rounded-md border px-2 py-1 text-xs">
+              <span className="text-muted-foreground">{RETRY_CRITERION_LABELS[key]}</span>
+              <span className="flex items-center gap-1.5">
+                <span className="font-medium">{after}</span>
+                {change !== undefined && (
+                  <Badge variant="outline" className={cn('text-[10px] px-1', deltaClass(change))}>
+                    {formatBandDelta(change)}
+                  </Badge>
+                )}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/** Re-record one question from a speaking report and compare it with the original answer */
+export function QuestionRetryDialog({ source }: { source: QuestionRetrySource }) {
+  const [open, setOpen] = useState(false);
+  const [attempts, setAttempts] = useState<QuestionAttempt[]>([]);
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [evaluating, setEvaluating] = useState(false);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const maxSeconds = MAX_RECORDING_SECONDS[source.partNumber] ?? 60;
+
+  const loadAttempts = useCallback(async () => {
+    let query = supabase
+      .from('speaking_question_attempts')
+      .select('*')
+      .eq('segment_key', source.segmentKey)
+      .order('created_at', { ascending: false });
+    query = source.resultId ? query.eq('result_id', source.resultId) : query.eq('submission_id', source.submissionId!);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('[QuestionRetryDialog] Failed to load attempts:', error);
+      return;
+    }
+    setAttempts((data || []).map((row) => attemptFromRow(row)));
+  }, [source.resultId, source.submissionId, source.segmentKey]);
+
+  useEffect(() => {
+    if (open) loadAttempts();
+  }, [open, loadAttempts]);
+
+  const submit = useCallback(async (blob: Blob, durationSeconds: number) => {
+    setEvaluating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('groq-speaking-evaluate', {
+        body: {
+          mode: 'single_question',
+          resultId: source.resultId,
+          submissionId: source.submissionId,
+          segmentKey: source.segmentKey,
+          partNumber: source.partNumber,
+          questionNumber: source.questionNumber,
+          questionText: source.questionText,
+          audioData: await blobToDataUrl(blob),
+          durationSeconds,
+        },
+      });
+      if (error || !data?.success) throw new Error(data?.error || error?.message || 'Failed to evaluate');
+      setAttempts((prev) => [data.attempt as QuestionAttempt, ...prev]);
+    } catch (err) {
+      console.error('[QuestionRetryDialog] Retry failed:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not evaluate your retry');
+    } finally {
+      setEvaluating(false);
+    }
+  }, [source]);
+
+  const stopRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+  }, []);
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true, channelCount: 1 },
+      });
+      const mimeType = ['audio/webm;codecs=opus', 'audio/webm'].find((t) => MediaRecorder.isTypeSupported(t));
+      const recorder = mimeType ? new MediaRecorder(stream, { mimeType }) : new MediaRecorder(stream);
+
+      chunksRef.current = [];
+      recorder.ondataavailable = (e) => {
+        if (e.data && e.data.size > 0) chunksRef.current.push(e.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach((t) => t.stop());
+        setIsRecording(false);
+        const durationSeconds = (Date.now() - startedAtRef.current) / 1000;
+        const blob = new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' });
+        if (blob.size > 0) submit(blob, durationSeconds);
+      };
+
+      // No timeslice, so the browser writes one valid container
+      recorder.start();
+      recorderRef.current = recorder;
+      startedAtRef.current = Date.now();
+      setElapsed(0);
+      setIsRecording(true);
+    } catch (err) {
+      console.error('[QuestionRetryDialog] Microphone error:', err);
+      toast.error('Could not access microphone');
+    }
+  };
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = window.setInterval(() => {
+      const seconds = Math.floor((Date.now() - startedAtRef.current) / 1000);
+      setElapsed(seconds);
+      if (seconds >= maxSeconds) stopRecording();
+    }, 250);
+    return () => window.clearInterval(timer);
+  }, [isRecording, maxSeconds, stopRecording]);
+
+  // Closing the dialog mid-recording discards the take
+  const handleOpenChange = (next: boolean) => {
+    if (!next && recorderRef.current?.state === 'recording') {
+      recorderRef.current.onstop = null;
+      recorderRef.current.stream.getTracks().forEach((t) => t.stop());
+      recorderRef.current.stop();
+      setIsRecording(false);
+    }
+    setOpen(next);
+  };
+
+  const [latest, ...earlier] = attempts;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-7 text-xs">
+          <RotateCcw className="w-3 h-3 mr-1" />
+          Retry this question
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Part {source.partNumber} · Q{source.questionNumber}</DialogTitle>
+          <DialogDescription>{source.questionText}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-2 rounded-lg border p-4">
+          {evaluating ? (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Scoring your new answer...
+            </p>
+          ) : isRecording ? (
+            <>
+              <p className="text-sm tabular-nums">
+                {elapsed}s <span className="text-muted-foreground">/ {maxSeconds}s</span>
+              </p>
+              <Button variant="destructive" onClick={stopRecording}>
+                <Square className="w-4 h-4 mr-2" />
+                Stop and score
+              </Button>
+            </>
+          ) : (
+            <Button onClick={startRecording}>
+              <Mic className="w-4 h-4 mr-2" />
+              {attempts.length > 0 ? 'Record another attempt' : 'Record your answer'}
+            </Button>
+          )}
+        </div>
+
+        {latest && (
+          <div className="space-y-3">
+            <AttemptDelta attempt={latest} />
+            {latest.feedback && <p className="text-sm text-muted-foreground">{latest.feedback}</p>}
+            {latest.audioUrl && (
+              <audio controls src={latest.audioUrl} className="w-full h-8" preload="metadata" />
+            )}
+            <p className="text-sm pl-3 border-l-2 border-muted whitespace-pre-line">{latest.transcript}</p>
+          </div>
+        )}
+
+        {earlier.length > 0 && (
+          <div className="space-y-2 border-t pt-3">
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <History className="w-3 h-3" />
+              Earlier attempts
+            </p>
+            {earlier.map((attempt) => (
+              <div key={attempt.id} className="flex items-center justify-between text-xs">
+                <span className="text-muted-foreground">{new Date(attempt.createdAt).toLocaleString()}</span>
+                <span className="flex items-center gap-1.5">
+                  Band {attempt.overallBand}
+                  <Badge variant="outline" className={cn('text-[10px] px-1', deltaClass(attempt.overallBand - attempt.originalBand))}>
+                    {formatBandDelta(attempt.overallBand - attempt.originalBand)}
+                  </Badge>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
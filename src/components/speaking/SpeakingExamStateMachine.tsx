@@ -6,6 +6,13 @@ import { Badge } from "@/components/ui/badge";
 import { SafeAudioPlayer } from "@/components/common/SafeAudioPlayer";
 import { useAudioPreloader } from "@/hooks/useAudioPreloader";
 import { useNetworkStatus } from "@/hooks/useNetworkStatus";
+import { useTTSFallback } from "@/hooks/useTTSFallback";
+import { useVoiceActivity } from "@/hooks/useVoiceActivity";
+import {
+  decideIntervention,
+  examinerLine,
+  type ExaminerIntervention,
+} from "@/lib/examinerInterventions";
 import { toast } from "sonner";
 import { 
   Play,
@@ -17,6 +24,7 @@ import {
   Loader2,
   CheckCircle,
   WifiOff,
+  MessageCircle,
 } from "lucide-react";
 
 export type SpeakingExamState = 
@@ -39,18 +47,26 @@ interface SpeakingQuestion {
 interface SpeakingExamStateMachineProps {
   questions: SpeakingQuestion[];
   partNumber: 1 | 2 | 3;
-  onQuestionComplete: (questionId: string, audioBlob: Blob) => Promise<void>;
+  /** interventions: what the examiner said during this answer, for the evaluation */
+  onQuestionComplete: (questionId: string, audioBlob: Blob, interventions: ExaminerIntervention[]) => Promise<void>;
   onPartComplete: () => void;
+  onIntervention?: (intervention: ExaminerIntervention) => void;
   preparationTimeSeconds?: number; // For Part 2
   speakingTimeSeconds?: number;    // For Part 2
   accentHint?: string;
 }
 
+// How often the examiner checks the candidate's voice activity while recording
+const INTERVENTION_CHECK_MS = 250;
+// Carry on if the device voice never reports the end of a line
+const EXAMINER_LINE_TIMEOUT_MS = 5000;
+
 export function SpeakingExamStateMachine({
   questions,
   partNumber,
   onQuestionComplete,
   onPartComplete,
+  onIntervention,
   preparationTimeSeconds = 60,
   speakingTimeSeconds = 120,
   accentHint,
@@ -65,12 +81,22 @@ export function SpeakingExamStateMachine({
   const countdownIntervalRef = useRef<number | null>(null);
   const recordingIntervalRef = useRef<number | null>(null);
 
+  // Examiner interventions for the answer being recorded
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [examinerPrompt, setExaminerPrompt] = useState<string | null>(null);
+  const recordingStartedAtRef = useRef(0);
+  const interventionsRef = useRef<ExaminerIntervention[]>([]);
+  const promptsGivenRef = useRef(0);
+  const examinerSpeakingRef = useRef(false);
+
   const currentQuestion = questions[currentQuestionIndex];
   const isLastQuestion = currentQuestionIndex === questions.length - 1;
 
   // Network status and audio preloader for offline resilience
   const { isOnline, onNetworkRestored } = useNetworkStatus();
   const { preloadMultiple, getPreloadedUrl } = useAudioPreloader();
+  const { speak } = useTTSFallback({ accentHint });
+  const { getState: getVoiceActivity, resetSilence } = useVoiceActivity(stream, state === "recording");
   
   // Track if we're using TTS fallback (for Device Audio indicator)
   const [usingDeviceAudio, setUsingDeviceAudio] = useState(false);
@@ -164,7 +190,10 @@ export function SpeakingExamStateMachine({
 
   const startRecording = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // Echo cancellation keeps the examiner's own prompts out of the voice activity
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true },
+      });
       const mediaRecorder = new MediaRecorder(stream);
       mediaRecorderRef.current = mediaRecorder;
       audioChunksRef.current = [];
@@ -177,22 +206,23 @@ export function SpeakingExamStateMachine({
 
       mediaRecorder.onstop = () => {
         stream.getTracks().forEach((track) => track.stop());
+        setStream(null);
       };
 
+      interventionsRef.current = [];
+      promptsGivenRef.current = 0;
+      examinerSpeakingRef.current = false;
+      setExaminerPrompt(null);
+      setStream(stream);
+
       mediaRecorder.start(1000); // Collect data every second
+      recordingStartedAtRef.current = Date.now();
       setState("recording");
       setRecordingTime(0);
 
-      // Start recording timer
+      // Start recording timer; the examiner stops Part 2 at the time limit
       recordingIntervalRef.current = window.setInterval(() => {
-        setRecordingTime((prev) => {
-          // Auto-stop for Part 2 after speaking time
-          if (partNumber === 2 && prev >= speakingTimeSeconds - 1) {
-            stopRecording();
-            return speakingTimeSeconds;
-          }
-          return prev + 1;
-        });
+        setRecordingTime((prev) => (partNumber === 2 ? Math.min(prev + 1, speakingTimeSeconds) : prev + 1));
       }, 1000);
     } catch (error) {
       console.error("Failed to start recording:", error);
@@ -211,6 +241,7 @@ export function SpeakingExamStateMachine({
       mediaRecorderRef.current.stop();
     }
     setState("saving");
+    setExaminerPrompt(null);
 
     // Wait a bit for final data chunks
     await new Promise((resolve) => setTimeout(resolve, 500));
@@ -218,7 +249,7 @@ export function SpeakingExamStateMachine({
     const audioBlob = new Blob(audioChunksRef.current, { type: "audio/webm" });
     
     try {
-      await onQuestionComplete(currentQuestion.id, audioBlob);
+      await onQuestionComplete(currentQuestion.id, audioBlob, [...interventionsRef.current]);
       
       if (isLastQuestion) {
         setState("completed");
@@ -238,6 +269,70 @@ export function SpeakingExamStateMachine({
     }
   }, [currentQuestion, isLastQuestion, onQuestionComplete, onPartComplete]);
 
+  // Examiner reacts to the candidate's voice activity: prompts a stalled
+  // answer, cuts in on an overlong one and stops Part 2 at the time limit
+  useEffect(() => {
+    if (state !== "recording" || !currentQuestion) return;
+
+    const interval = window.setInterval(() => {
+      if (examinerSpeakingRef.current) return;
+
+      const elapsedSeconds = (Date.now() - recordingStartedAtRef.current) / 1000;
+      const { silenceMs } = getVoiceActivity();
+      const type = decideIntervention({
+        partNumber,
+        elapsedSeconds,
+        silenceSeconds: silenceMs / 1000,
+        promptsGiven: promptsGivenRef.current,
+        speakingTimeSeconds,
+      });
+      if (!type) return;
+
+      const intervention: ExaminerIntervention = {
+        type,
+        partNumber,
+        questionId: currentQuestion.id,
+        atSeconds: Math.round(elapsedSeconds * 10) / 10,
+        ...(type === "silence_prompt" || type === "moved_on"
+          ? { silenceSeconds: Math.round(silenceMs / 100) / 10 }
+          : {}),
+        prompt: examinerLine(partNumber, type, promptsGivenRef.current),
+      };
+      console.log("[SpeakingExam] Examiner intervention:", intervention);
+      interventionsRef.current.push(intervention);
+      onIntervention?.(intervention);
+      if (type === "silence_prompt") promptsGivenRef.current += 1;
+
+      examinerSpeakingRef.current = true;
+      setExaminerPrompt(intervention.prompt);
+
+      let finished = false;
+      const finish = () => {
+        if (finished) return;
+        finished = true;
+        examinerSpeakingRef.current = false;
+        resetSilence();
+        if (type !== "silence_prompt" && mediaRecorderRef.current?.state === "recording") {
+          stopRecording();
+        }
+      };
+      window.setTimeout(finish, EXAMINER_LINE_TIMEOUT_MS);
+      speak(intervention.prompt, finish);
+    }, INTERVENTION_CHECK_MS);
+
+    return () => clearInterval(interval);
+  }, [
+    state,
+    currentQuestion,
+    partNumber,
+    speakingTimeSeconds,
+    getVoiceActivity,
+    resetSilence,
+    speak,
+    stopRecording,
+    onIntervention,
+  ]);
+
   const skipThinking = useCallback(() => {
     if (countdownIntervalRef.current) {
       clearInterval(countdownIntervalRef.current);
@@ -380,6 +475,12 @@ export function SpeakingExamStateMachine({
                 </span>
               )}
             </div>
+            {examinerPrompt && (
+              <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                <MessageCircle className="h-4 w-4 text-primary" />
+                Examiner: "{examinerPrompt}"
+              </p>
+            )}
             <Button 
               onClick={stopRecording}
               variant="destructive"
@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AudioLines, Gauge, Volume2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import {
+  CLARITY_REASON_LABELS,
+  type AnalyzedWord,
+  type AnswerPronunciation,
+  type PronunciationAnalysis,
+} from '@/lib/pronunciationAnalysis';
+
+// A little context either side so clipped consonants are still audible
+const LEAD_IN_SECONDS = 0.08;
+const TAIL_SECONDS = 0.15;
+
+/**
+ * Plays short spans of a recording. One audio element is kept and reused
+ * while the same recording is clicked through word by word.
+ */
+function useSpanPlayback() {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const stopAtRef = useRef(0);
+  const [playing, setPlaying] = useState<{ url: string; start: number } | null>(null);
+
+  useEffect(() => {
+    return () => {
+      audioRef.current?.pause();
+      audioRef.current = null;
+    };
+  }, []);
+
+  const playSpan = useCallback(async (url: string, start: number, end: number) => {
+    let audio = audioRef.current;
+    if (!audio || audio.dataset.url !== url) {
+      audio?.pause();
+      audio = new Audio(url);
+      audio.crossOrigin = 'anonymous';
+      audio.dataset.url = url;
+      audio.addEventListener('timeupdate', () => {
+        if (audio && audio.currentTime >= stopAtRef.current) audio.pause();
+      });
+      audio.addEventListener('pause', () => setPlaying(null));
+      audioRef.current = audio;
+    }
+
+    stopAtRef.current = end + TAIL_SECONDS;
+    audio.currentTime = Math.max(0, start - LEAD_IN_SECONDS);
+    try {
+      await audio.play();
+      setPlaying({ url, start });
+    } catch (err) {
+      console.error('Failed to play word audio:', err);
+      setPlaying(null);
+    }
+  }, []);
+
+  return { playing, playSpan };
+}
+
+const describeWord = (word: AnalyzedWord) =>
+  word.reasons.length > 0 ? word.reasons.map((r) => CLARITY_REASON_LABELS[r]).join('. ') : 'Play this word';
+
+interface WordTimedTranscriptProps {
+  answer: AnswerPronunciation;
+  audioUrl?: string;
+  className?: string;
+}
+
+/**
+ * A transcript in which every word plays its own span of the recording.
+ * Words the timing analysis found unclear are underlined.
+ */
+export function WordTimedTranscript({ answer, audioUrl, className }: WordTimedTranscriptProps) {
+  const { playing, playSpan } = useSpanPlayback();
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Gauge className="w-3 h-3" />
+          {answer.speechRate} wpm
+        </span>
+        {answer.unclearCount > 0 && (
+          <Badge variant="outline" className="text-[10px] border-amber-500/50 text-amber-700 dark:text-amber-400">
+            {answer.unclearCount} unclear {answer.unclearCount === 1 ? 'word' : 'words'}
+          </Badge>
+        )}
+      </div>
+      <p className="text-sm leading-relaxed">
+        {answer.words.map((word, idx) => {
+          const isPlaying = playing?.url === audioUrl && playing?.start === word.start;
+          return (
+            <span key={`${word.start}-${idx}`}>
+              <button
+                type="button"
+                disabled={!audioUrl}
+                title={describeWord(word)}
+                onClick={() => audioUrl && playSpan(audioUrl, word.start, word.end)}
+                className={cn(
+                  'rounded px-0.5 transition-colors enabled:hover:bg-primary/10 disabled:cursor-default',
+                  word.clarity === 'unclear' && 'underline decoration-wavy decoration-amber-500 underline-offset-4',
+                  word.clarity === 'uncertain' && 'underline decoration-dotted decoration-muted-foreground/60 underline-offset-4',
+                  isPlaying && 'bg-primary/20 text-primary'
+                )}
+              >
+                {word.word}
+              </button>{' '}
+            </span>
+          );
+        })}
+      </p>
+    </div>
+  );
+}
+
+interface PronunciationAnalysisCardProps {
+  analysis: PronunciationAnalysis;
+  audioUrls: Record<string, string>;
+}
+
+/** Speech rate, clarity and the words most likely to have been mispronounced */
+export function PronunciationAnalysisCard({ analysis, audioUrls }: PronunciationAnalysisCardProps) {
+  const { playing, playSpan } = useSpanPlayback();
+  const urlFor = (segmentKey: string) =>
+    audioUrls[segmentKey] ??
+    Object.entries(audioUrls).find(([key]) => key.toLowerCase() === segmentKey.toLowerCase())?.[1];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AudioLines className="w-5 h-5 text-primary" />
+          Word-level Pronunciation
+        </CardTitle>
+        <CardDescription>
+          Estimated from the timing of each word in your recordings. Click a word to hear how you said it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Clear words</p>
+            <p className="text-xl font-semibold">{Math.round(analysis.clarityRatio * 100)}%</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Average speech rate</p>
+            <p className="text-xl font-semibold">{analysis.averageSpeechRate} wpm</p>
+          </div>
+        </div>
+
+        {analysis.likelyMispronounced.length > 0 ? (
+          <div>
+            <p className="text-sm font-medium mb-2">Words to practise</p>
+            <div className="flex flex-wrap gap-2">
+              {analysis.likelyMispronounced.map((word) => {
+                const url = urlFor(word.segmentKey);
+                const isPlaying = !!url && playing?.url === url && playing?.start === word.start;
+                return (
+                  <button
+                    key={`${word.segmentKey}-${word.start}`}
+                    type="button"
+                    disabled={!url}
+                    title={word.reasons.map((r) => CLARITY_REASON_LABELS[r]).join('. ')}
+                    onClick={() => url && playSpan(url, word.start, word.end)}
+                    className={cn(
+                      'flex items-center gap-1 rounded-full border border-amber-500/40 bg-amber-500/10 px-3 py-1 text-sm transition-colors enabled:hover:bg-amber-500/20',
+                      isPlaying && 'bg-primary/20 border-primary text-primary'
+                    )}
+                  >
+                    {url && <Volume2 className="w-3 h-3" />}
+                    {word.word}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No individual words stood out as unclear.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,4 +11,9 @@ export { BrowserCompatibilityCheck } from './BrowserCompatibilityCheck';
 export { ModelAnswersAccordion } from './ModelAnswersAccordion';
 export { AccentSelector, BrowserSpeechModeBadge, ACCENT_OPTIONS } from './AccentSelector';
 export type { AccentCode } from './AccentSelector';
-export { SpeakingStateRestoreDialog } from './SpeakingStateRestoreDialog';
\ No newline at end of file
+export { SpeakingStateRestoreDialog } from './SpeakingStateRestoreDialog';
+export { WordTimedTranscript, PronunciationAnalysisCard } from './WordTimedTranscript';
+export { FluencyTimeline } from './FluencyTimeline';
+export { Part3DiscussionCard } from './Part3DiscussionCard';
+export { AnswerUpgradesCard } from './AnswerUpgradesCard';
+export { QuestionRetryDialog } from './QuestionRetryDialog';
@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import {
+  ANNOTATION_CATEGORIES,
+  ANNOTATION_CATEGORY_LABELS,
+  annotationCriterionLabel,
+  segmentAnnotatedText,
+  type AnnotationCategory,
+  type WritingAnnotation,
+} from '@/lib/writingAnnotations';
+
+const CATEGORY_STYLES: Record<AnnotationCategory, { mark: string; badge: string }> = {
+  grammar: { mark: 'bg-destructive/15 decoration-destructive', badge: 'border-destructive/40 text-destructive' },
+  collocation: { mark: 'bg-warning/20 decoration-warning', badge: 'border-warning/40 text-warning' },
+  spelling: { mark: 'bg-primary/15 decoration-primary', badge: 'border-primary/40 text-primary' },
+  cohesion: { mark: 'bg-accent/30 decoration-accent-foreground', badge: 'border-accent text-accent-foreground' },
+  register: { mark: 'bg-muted decoration-muted-foreground', badge: 'border-muted-foreground/40 text-muted-foreground' },
+};
+
+interface AnnotatedEssayProps {
+  text: string;
+  annotations: WritingAnnotation[];
+  /** Task 2 labels the first criterion Task Response */
+  taskNumber?: 1 | 2;
+  className?: string;
+}
+
+/** The candidate's essay with each annotated error marked, filterable by category */
+export function AnnotatedEssay({ text, annotations, taskNumber = 1, className }: AnnotatedEssayProps) {
+  const [hidden, setHidden] = useState<Set<AnnotationCategory>>(new Set());
+
+  const counts = useMemo(() => {
+    const byCategory = new Map<AnnotationCategory, number>();
+    for (const a of annotations) byCategory.set(a.category, (byCategory.get(a.category) ?? 0) + 1);
+    return byCategory;
+  }, [annotations]);
+
+  const segments = useMemo(
+    () => segmentAnnotatedText(text, annotations.filter((a) => !hidden.has(a.category))),
+    [text, annotations, hidden],
+  );
+
+  const toggle = (category: AnnotationCategory) => {
+    setHidden((prev) => {
+      const next = new Set(prev);
+      if (next.has(category)) next.delete(category);
+      else next.add(category);
+      return next;
+    });
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {annotations.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground">Show:</span>
+          {ANNOTATION_CATEGORIES.filter((c) => counts.has(c)).map((category) => (
+            <button key={category} type="button" onClick={() => toggle(category)}>
+              <Badge
+                variant="outline"
+                className={cn('cursor-pointer text-xs', hidden.has(category) ? 'opacity-40 line-through' : CATEGORY_STYLES[category].badge)}
+              >
+                {ANNOTATION_CATEGORY_LABELS[category]} · {counts.get(category)}
+              </Badge>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="whitespace-pre-wrap text-sm leading-7">
+        {segments.map((segment, i) =>
+          segment.annotation ? (
+            <Popover key={i}>
+              <PopoverTrigger asChild>
+                <mark
+                  className={cn(
+                    'cursor-pointer rounded-sm px-0.5 text-foreground underline decoration-2 underline-offset-4',
+                    CATEGORY_STYLES[segment.annotation.category].mark,
+                  )}
+                >
+                  {segment.text}
+                </mark>
+              </PopoverTrigger>
+              <PopoverContent className="w-72 space-y-2 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant="outline" className={cn('text-xs', CATEGORY_STYLES[segment.annotation.category].badge)}>
+                    {ANNOTATION_CATEGORY_LABELS[segment.annotation.category]}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {annotationCriterionLabel(segment.annotation.criterion, taskNumber)}
+                  </span>
+                </div>
+                <p className="flex flex-wrap items-center gap-1.5">
+                  <span className="line-through text-destructive">{segment.annotation.text}</span>
+                  <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                  <span className="font-medium text-success">{segment.annotation.correction}</span>
+                </p>
+                {segment.annotation.explanation && (
+                  <p className="text-muted-foreground">{segment.annotation.explanation}</p>
+                )}
+              </PopoverContent>
+            </Popover>
+          ) : (
+            <span key={i}>{segment.text}</span>
+          ),
+        )}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useRef, useState } from 'react';
+import { AlertTriangle, FileText, Loader2, ScanText, UploadCloud } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { describeApiError } from '@/lib/apiErrors';
+import {
+  MAX_SCAN_BYTES,
+  MAX_SCAN_PAGES,
+  UNCLEAR_MARK,
+  countUnclearMarks,
+  scanMimeType,
+} from '@/lib/handwritingTranscription';
+import { uploadToR2 } from '@/lib/r2Upload';
+
+type Step = 'select' | 'transcribing' | 'review';
+
+interface HandwritingUploadDialogProps {
+  taskNumber: 1 | 2;
+  /** Something is already typed; confirming replaces it */
+  hasText: boolean;
+  onConfirm: (text: string, scanUrls: string[]) => void;
+  disabled?: boolean;
+}
+
+/** Upload photos or a PDF of a handwritten answer and confirm the transcription */
+export function HandwritingUploadDialog({ taskNumber, hasText, onConfirm, disabled }: HandwritingUploadDialogProps) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>('select');
+  const [files, setFiles] = useState<File[]>([]);
+  const [scanUrls, setScanUrls] = useState<string[]>([]);
+  const [text, setText] = useState('');
+  const [notes, setNotes] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const unclearCount = countUnclearMarks(text);
+
+  const reset = () => {
+    setStep('select');
+    setFiles([]);
+    setScanUrls([]);
+    setText('');
+    setNotes('');
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (step === 'transcribing') return;
+    setOpen(next);
+    if (!next) reset();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    if (selected.length > MAX_SCAN_PAGES) {
+      toast.error(`Upload at most ${MAX_SCAN_PAGES} pages.`);
+      return;
+    }
+    if (selected.some((f) => !scanMimeType(f.name, f.type))) {
+      toast.error('Upload photos (JPEG, PNG, WebP, HEIC) or a PDF.');
+      return;
+    }
+    if (selected.some((f) => f.size > MAX_SCAN_BYTES)) {
+      toast.error('Each page must be under 10 MB.');
+      return;
+    }
+    setFiles(selected);
+  };
+
+  const handleTranscribe = async () => {
+    if (!user || files.length === 0) return;
+    setStep('transcribing');
+
+    try {
+      const urls: string[] = [];
+      for (const file of files) {
+        const result = await uploadToR2({ file, folder: `writing-scans/${user.id}` });
+        if (!result.success || !result.url) throw new Error(result.error || 'Upload failed');
+        urls.push(result.url);
+      }
+      setScanUrls(urls);
+
+      const { data, error } = await supabase.functions.invoke('transcribe-handwriting', {
+        body: { scanUrls: urls, taskNumber },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      setText(data.text);
+      setNotes(data.notes || '');
+      setStep('review');
+    } catch (err) {
+      console.error('Handwriting transcription failed:', err);
+      const errDesc = describeApiError(err);
+      toast.error(errDesc.title, { description: errDesc.description });
+      setStep('select');
+    }
+  };
+
+  const handleConfirm = () => {
+    onConfirm(text.trim(), scanUrls);
+    setOpen(false);
+    reset();
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        className="border-border"
+        title="Upload a photo or PDF of your handwritten answer"
+      >
+        <ScanText size={16} className="mr-2" />
+        Handwritten
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Upload a handwritten answer</DialogTitle>
+            <DialogDescription>
+              {step === 'review'
+                ? 'Check the transcription against your paper and correct anything that was misread. Only fix reading errors: your own mistakes are part of the assessment.'
+                : `Photograph each page of your Task ${taskNumber} answer in good light, or upload a PDF scan (up to ${MAX_SCAN_PAGES} pages).`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {step !== 'review' ? (
+            <div className="space-y-3">
+              <Label htmlFor="handwriting-upload">Pages, in order</Label>
+              <Input
+                id="handwriting-upload"
+                type="file"
+                accept="image/*,application/pdf"
+                multiple
+                onChange={handleFileChange}
+                ref={fileInputRef}
+                disabled={step === 'transcribing'}
+              />
+              {files.length > 0 && (
+                <ul className="space-y-1 text-sm text-muted-foreground">
+                  {files.map((f, i) => (
+                    <li key={i} className="flex items-center gap-2">
+                      <FileText size={14} />
+                      Page {i + 1}: {f.name}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {notes && (
+                <p className="flex items-start gap-2 text-sm text-warning">
+                  <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+                  {notes}
+                </p>
+              )}
+              {unclearCount > 0 && (
+                <p className="text-sm text-warning">
+                  {unclearCount} {unclearCount === 1 ? 'word is' : 'words are'} marked {UNCLEAR_MARK}. Check each against your paper, then remove the mark.
+                </p>
+              )}
+              <Textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                className="min-h-[280px] font-serif leading-relaxed"
+              />
+              <div className="flex flex-wrap gap-2 text-xs">
+                {scanUrls.map((url, i) => (
+                  <a key={url} href={url} target="_blank" rel="noreferrer" className="text-primary underline">
+                    Page {i + 1}
+                  </a>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {step === 'review' ? (
+              <>
+                <Button variant="outline" onClick={reset}>Start over</Button>
+                <Button onClick={handleConfirm} disabled={unclearCount > 0 || !text.trim()}>
+                  {hasText ? 'Replace my answer with this text' : 'Use this text'}
+                </Button>
+              </>
+            ) : (
+              <Button onClick={handleTranscribe} disabled={files.length === 0 || step === 'transcribing' || !user}>
+                {step === 'transcribing' ? (
+                  <>
+                    <Loader2 size={16} className="mr-2 animate-spin" />
+                    Reading your handwriting...
+                  </>
+                ) : (
+                  <>
+                    <UploadCloud size={16} className="mr-2" />
+                    Upload and transcribe
+                  </>
+                )}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,168 @@
+import { useMemo, useState } from 'react';
+import { CheckCircle2, CircleDashed, GitCompare, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { Tables } from '@/integrations/supabase/types';
+import { formatBandDelta } from '@/lib/questionRetry';
+import { cn } from '@/lib/utils';
+import { annotationCriterionLabel } from '@/lib/writingAnnotations';
+import {
+  SUBMISSION_REPORT_CRITERIA,
+  diffStats,
+  diffWords,
+  parseRevisionReview,
+  revisionBands,
+  revisionChain,
+  type RevisionStatus,
+} from '@/lib/writingRevisions';
+
+type WritingSubmission = Tables<'writing_submissions'>;
+
+const STATUS_DISPLAY: Record<RevisionStatus, { label: string; icon: typeof CheckCircle2; className: string }> = {
+  addressed: { label: 'Addressed', icon: CheckCircle2, className: 'text-success' },
+  partially_addressed: { label: 'Partly addressed', icon: CircleDashed, className: 'text-warning' },
+  not_addressed: { label: 'Not addressed', icon: XCircle, className: 'text-destructive' },
+};
+
+function deltaClass(delta: number) {
+  if (delta > 0) return 'text-success';
+  if (delta < 0) return 'text-destructive';
+  return 'text-muted-foreground';
+}
+
+interface RevisionHistoryProps {
+  /** The user's submissions for this task */
+  submissions: WritingSubmission[];
+  currentId: string;
+  taskNumber: 1 | 2;
+}
+
+/** Versions of one task answer: band trend, word diff and how the last feedback was used */
+export function RevisionHistory({ submissions, currentId, taskNumber }: RevisionHistoryProps) {
+  const chain = useMemo(() => revisionChain(submissions, currentId), [submissions, currentId]);
+  const currentIndex = chain.findIndex((s) => s.id === currentId);
+
+  // Compare the viewed version with the one before it (or the next one for a first draft)
+  const [fromId, setFromId] = useState<string | null>(null);
+  const toVersion = chain[currentIndex];
+  const fromVersion = chain.find((s) => s.id === fromId) ?? chain[currentIndex > 0 ? currentIndex - 1 : 1];
+
+  const diff = useMemo(() => {
+    if (!fromVersion || !toVersion) return [];
+    const [before, after] = fromVersion.revision_number <= toVersion.revision_number
+      ? [fromVersion, toVersion]
+      : [toVersion, fromVersion];
+    return diffWords(before.submission_text, after.submission_text);
+  }, [fromVersion, toVersion]);
+
+  if (chain.length < 2 || !toVersion) return null;
+
+  const bands = chain.map((s) => revisionBands(s.overall_band, s.evaluation_report));
+  const review = parseRevisionReview((toVersion.evaluation_report as Record<string, unknown> | null)?.revision_review);
+  const stats = diffStats(diff);
+
+  const rows = [
+    ...SUBMISSION_REPORT_CRITERIA.map(({ criterion }) => ({
+      label: annotationCriterionLabel(criterion, taskNumber),
+      values: bands.map((b) => b.criteria[criterion] ?? null),
+    })),
+    { label: 'Overall', values: bands.map((b) => b.overall) },
+  ];
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <h4 className="font-semibold flex items-center gap-2">
+        <GitCompare size={16} className="text-primary" />
+        Revision History
+        <Badge variant="secondary" className="text-xs font-normal">{chain.length} versions</Badge>
+      </h4>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Criterion</TableHead>
+            {chain.map((s) => (
+              <TableHead key={s.id} className={cn('text-center', s.id === currentId && 'text-primary')}>
+                v{s.revision_number}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.label}>
+              <TableCell className="text-sm">{row.label}</TableCell>
+              {row.values.map((value, i) => {
+                const previous = i > 0 ? row.values[i - 1] : null;
+                const delta = value !== null && previous !== null ? value - previous : null;
+                return (
+                  <TableCell key={chain[i].id} className="text-center text-sm tabular-nums">
+                    {value ?? '–'}
+                    {delta !== null && delta !== 0 && (
+                      <span className={cn('ml-1 text-xs', deltaClass(delta))}>{formatBandDelta(delta)}</span>
+                    )}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Changes between</span>
+          <Select value={fromVersion?.id} onValueChange={setFromId}>
+            <SelectTrigger className="h-8 w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {chain.filter((s) => s.id !== currentId).map((s) => (
+                <SelectItem key={s.id} value={s.id}>v{s.revision_number}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-muted-foreground">and v{toVersion.revision_number}:</span>
+          <span className="text-success">+{stats.added}</span>
+          <span className="text-destructive">−{stats.removed} words</span>
+        </div>
+        <p className="whitespace-pre-wrap text-sm leading-7 bg-muted/30 p-3 rounded-md">
+          {diff.map((part, i) =>
+            part.type === 'same' ? (
+              <span key={i}>{part.text}</span>
+            ) : part.type === 'added' ? (
+              <ins key={i} className="no-underline bg-success/15 text-success rounded-sm">{part.text}</ins>
+            ) : (
+              <del key={i} className="bg-destructive/10 text-destructive/80 rounded-sm">{part.text}</del>
+            ),
+          )}
+        </p>
+      </div>
+
+      {review && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Did this version use the earlier feedback?</p>
+          {review.summary && <p className="text-sm text-muted-foreground">{review.summary}</p>}
+          <ul className="space-y-2">
+            {review.items.map((item, i) => {
+              const status = STATUS_DISPLAY[item.status];
+              return (
+                <li key={i} className="flex items-start gap-2 text-sm">
+                  <status.icon size={16} className={cn('mt-0.5 shrink-0', status.className)} />
+                  <div>
+                    <p>
+                      {item.feedback}
+                      <span className={cn('ml-2 text-xs', status.className)}>{status.label}</span>
+                    </p>
+                    {item.comment && <p className="text-muted-foreground">{item.comment}</p>}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
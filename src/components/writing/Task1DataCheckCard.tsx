@@ -0,0 +1,80 @@
+import { AlertCircle, BarChart3, CheckCircle2, HelpCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import type { ClaimVerdict, Task1DataCheck } from '@/lib/task1DataCheck';
+
+const VERDICT_ICONS: Record<ClaimVerdict, { icon: typeof CheckCircle2; className: string; title: string }> = {
+  accurate: { icon: CheckCircle2, className: 'text-success', title: 'Matches the chart' },
+  misreported: { icon: AlertCircle, className: 'text-destructive', title: 'Does not match the chart' },
+  unverifiable: { icon: HelpCircle, className: 'text-muted-foreground', title: 'Could not be checked' },
+};
+
+interface Task1DataCheckCardProps {
+  check: Task1DataCheck;
+  className?: string;
+}
+
+/** Figures, trends and comparisons from a Task 1 report, checked against the chart data */
+export function Task1DataCheckCard({ check, className }: Task1DataCheckCardProps) {
+  const misreported = check.claims.filter((c) => c.verdict === 'misreported').length;
+  const accurate = check.claims.filter((c) => c.verdict === 'accurate').length;
+
+  return (
+    <Card className={cn('mb-4', className)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <BarChart3 className="w-4 h-4" />
+          Data Accuracy
+          <span className="ml-auto flex gap-1.5">
+            <Badge variant="outline" className="text-xs font-normal border-success/40 text-success">{accurate} accurate</Badge>
+            {misreported > 0 && (
+              <Badge variant="outline" className="text-xs font-normal border-destructive/40 text-destructive">
+                {misreported} misreported
+              </Badge>
+            )}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {check.original_band !== undefined && check.band_cap !== null && (
+          <p className="rounded border border-warning/30 bg-warning/10 p-2 text-warning">
+            Task Achievement was lowered from {check.original_band.toFixed(1)} to {check.band_cap.toFixed(1)} because of the issues below.
+          </p>
+        )}
+
+        {check.claims.length > 0 ? (
+          <ul className="space-y-2">
+            {check.claims.map((claim, i) => {
+              const { icon: Icon, className: iconClass, title } = VERDICT_ICONS[claim.verdict];
+              return (
+                <li key={i} className="flex items-start gap-2">
+                  <Icon className={cn('w-4 h-4 mt-0.5 shrink-0', iconClass)} aria-label={title} />
+                  <span>
+                    <span className="italic">"{claim.quote}"</span>
+                    {claim.actual && <span className="block text-xs text-muted-foreground">Chart: {claim.actual}</span>}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-muted-foreground">No specific figures, trends or comparisons were found in your report.</p>
+        )}
+
+        {check.missing_features.length > 0 && (
+          <div>
+            <p className="font-medium mb-1">
+              Key features not mentioned ({check.missing_features.length} of {check.feature_count})
+            </p>
+            <ul className="space-y-1 pl-6">
+              {check.missing_features.map((feature, i) => (
+                <li key={i} className="text-muted-foreground list-disc">{feature}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+import { useDeferredValue, useMemo } from 'react';
+import { AlertTriangle, CheckCircle2, Lightbulb, Sparkles, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import { analyzeDraft, type DraftContext, type ParagraphRole } from '@/lib/writingAssistant';
+
+const ROLE_LABELS: Record<ParagraphRole, string> = {
+  introduction: 'Introduction',
+  overview: 'Overview',
+  body: 'Body',
+  conclusion: 'Conclusion',
+};
+
+interface WritingAssistantPanelProps extends DraftContext {
+  text: string;
+  onClose?: () => void;
+  className?: string;
+}
+
+/** Practice-only feedback on the draft: structure, repetition and register */
+export function WritingAssistantPanel({ text, taskNumber, isLetter = false, onClose, className }: WritingAssistantPanelProps) {
+  // Re-analyse behind the keystrokes so typing stays responsive
+  const draft = useDeferredValue(text);
+  const analysis = useMemo(() => analyzeDraft(draft, { taskNumber, isLetter }), [draft, taskNumber, isLetter]);
+
+  return (
+    <aside className={cn('flex flex-col border border-border bg-card text-sm', className)}>
+      <div className="flex items-center justify-between border-b border-border px-3 py-2">
+        <span className="flex items-center gap-2 font-semibold">
+          <Sparkles size={14} className="text-primary" />
+          Writing Assistant
+        </span>
+        {onClose && (
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose} title="Hide assistant">
+            <X size={14} />
+          </Button>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="space-y-4 p-3">
+          {analysis.wordCount === 0 ? (
+            <p className="text-muted-foreground">Start writing and suggestions will appear here.</p>
+          ) : (
+            <>
+              <section className="space-y-2">
+                <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Structure</h4>
+                <ol className="space-y-1">
+                  {analysis.paragraphs.map((p, i) => (
+                    <li key={i} className="flex items-center justify-between gap-2">
+                      <span>
+                        {i + 1}. {ROLE_LABELS[p.role]}
+                        {!p.signal && <span className="text-muted-foreground"> (by position)</span>}
+                      </span>
+                      <span className="text-xs tabular-nums text-muted-foreground">{p.words} words</span>
+                    </li>
+                  ))}
+                </ol>
+                {analysis.hasOverview !== null && (
+                  <p className={cn('flex items-center gap-1.5', analysis.hasOverview ? 'text-success' : 'text-warning')}>
+                    {analysis.hasOverview ? <CheckCircle2 size={14} /> : <AlertTriangle size={14} />}
+                    {analysis.hasOverview ? 'Overview sentence found' : 'No overview sentence yet'}
+                  </p>
+                )}
+                {analysis.hints.map((hint) => (
+                  <p key={hint.id} className="flex items-start gap-1.5">
+                    {hint.severity === 'warning' ? (
+                      <AlertTriangle size={14} className="mt-0.5 shrink-0 text-warning" />
+                    ) : (
+                      <Lightbulb size={14} className="mt-0.5 shrink-0 text-primary" />
+                    )}
+                    {hint.message}
+                  </p>
+                ))}
+              </section>
+
+              {analysis.overusedWords.length > 0 && (
+                <section className="space-y-2">
+                  <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Repeated words</h4>
+                  <ul className="space-y-1.5">
+                    {analysis.overusedWords.map((w) => (
+                      <li key={w.word}>
+                        <Badge variant="outline" className="mr-1.5 text-xs">{w.word} ×{w.count}</Badge>
+                        <span className="text-muted-foreground">
+                          {w.alternatives.length > 0 ? `Try ${w.alternatives.join(', ')}` : 'Vary with a synonym or pronoun'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              {analysis.informalPhrases.length > 0 && (
+                <section className="space-y-2">
+                  <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Informal register</h4>
+                  <ul className="space-y-1.5">
+                    {analysis.informalPhrases.map((p) => (
+                      <li key={p.suggestion}>
+                        <Badge variant="outline" className="mr-1.5 text-xs border-warning/40 text-warning">
+                          {p.text}{p.count > 1 && ` ×${p.count}`}
+                        </Badge>
+                        <span className="text-muted-foreground">{p.suggestion}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+      </ScrollArea>
+    </aside>
+  );
+}
+
+interface WritingAssistantSwitchProps {
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+  className?: string;
+}
+
+export function WritingAssistantSwitch({ checked, onCheckedChange, className }: WritingAssistantSwitchProps) {
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <Switch id="writing-assistant" checked={checked} onCheckedChange={onCheckedChange} />
+      <Label htmlFor="writing-assistant" className="text-sm cursor-pointer">Assistant</Label>
+    </div>
+  );
+}
+
+interface WritingExamModeToggleProps {
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+  className?: string;
+}
+
+export function WritingExamModeToggle({ checked, onCheckedChange, className }: WritingExamModeToggleProps) {
+  return (
+    <div className={cn('flex items-start gap-3 rounded-lg border border-border p-3 text-left', className)}>
+      <Switch id="writing-exam-mode" checked={checked} onCheckedChange={onCheckedChange} className="mt-0.5" />
+      <Label htmlFor="writing-exam-mode" className="space-y-1 cursor-pointer">
+        <span className="block text-sm font-medium">Exam mode</span>
+        <span className="block text-xs font-normal text-muted-foreground">
+          Write without the live writing assistant, as in the real test.
+        </span>
+      </Label>
+    </div>
+  );
+}
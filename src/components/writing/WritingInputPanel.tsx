@@ -1,8 +1,12 @@
+import { useState } from 'react';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 
 import { Button } from '@/components/ui/button';
 import { Save, Send } from 'lucide-react';
+import type { DraftContext } from '@/lib/writingAssistant';
+import { WritingAssistantPanel, WritingAssistantSwitch } from './WritingAssistantPanel';
+import { HandwritingUploadDialog } from './HandwritingUploadDialog';
 
 interface WritingInputPanelProps {
   submissionText: string;
@@ -13,6 +17,11 @@ interface WritingInputPanelProps {
   isSaving: boolean;
   isSubmitting: boolean;
   fontSize: number;
+  /** Practice only: offers the live writing assistant. Leave unset in exam mode */
+  assistant?: DraftContext;
+  /** Replaces the answer with a confirmed transcription of uploaded handwritten pages */
+  onHandwrittenAnswer?: (text: string, scanUrls: string[]) => void;
+  taskNumber: 1 | 2;
 }
 
 export function WritingInputPanel({
@@ -24,29 +33,55 @@ export function WritingInputPanel({
   isSaving,
   isSubmitting,
   fontSize,
+  assistant,
+  onHandwrittenAnswer,
+  taskNumber,
 }: WritingInputPanelProps) {
+  const [showAssistant, setShowAssistant] = useState(false);
 
   return (
     <div className="p-6 flex flex-col h-full" style={{ fontFamily: 'var(--font-ielts)' }}>
       <div className="flex items-center justify-between mb-4">
         <Label htmlFor="writing-textarea" className="text-lg font-semibold" style={{ fontFamily: 'var(--font-ielts)' }}>Your Answer</Label>
-        <div className="flex items-center gap-2">
+        <div className="flex items-center gap-4">
+          {assistant && <WritingAssistantSwitch checked={showAssistant} onCheckedChange={setShowAssistant} />}
           <span className="text-sm font-semibold text-foreground" style={{ fontFamily: 'var(--font-ielts)' }}>
             Words: {wordCount}
           </span>
         </div>
       </div>
 
-      <Textarea
-        id="writing-textarea"
-        value={submissionText}
-        onChange={(e) => onSubmissionTextChange(e.target.value)}
-        placeholder="Start writing your answer here..."
-        className="flex-1 resize-none border-border focus-visible:ring-foreground ielts-input"
-        style={{ fontSize: `${fontSize}px`, fontFamily: 'var(--font-ielts)', borderRadius: 0 }}
-      />
+      <div className="flex-1 flex gap-3 min-h-0">
+        <Textarea
+          id="writing-textarea"
+          value={submissionText}
+          onChange={(e) => onSubmissionTextChange(e.target.value)}
+          placeholder="Start writing your answer here..."
+          className="flex-1 resize-none border-border focus-visible:ring-foreground ielts-input"
+          style={{ fontSize: `${fontSize}px`, fontFamily: 'var(--font-ielts)', borderRadius: 0 }}
+        />
+        {assistant && showAssistant && (
+          <WritingAssistantPanel
+            text={submissionText}
+            taskNumber={assistant.taskNumber}
+            isLetter={assistant.isLetter}
+            onClose={() => setShowAssistant(false)}
+            className="w-64 shrink-0"
+          />
+        )}
+      </div>
 
       <div className="flex justify-end gap-3 mt-4">
+        {onHandwrittenAnswer && (
+          <div className="mr-auto">
+            <HandwritingUploadDialog
+              taskNumber={taskNumber}
+              hasText={submissionText.trim().length > 0}
+              onConfirm={onHandwrittenAnswer}
+              disabled={isSubmitting}
+            />
+          </div>
+        )}
         <Button 
           variant="outline" 
           onClick={onSave} 
@@ -34,6 +34,8 @@ interface WritingTestControlsProps {
   customTime: number;
   setCustomTime: (time: number) => void;
   onTimeChange: (minutes: number) => void;
+  /** Full mock test: fixed 60-minute timer and no pausing */
+  examMode?: boolean;
 }
 
 export function WritingTestControls({
@@ -46,6 +48,7 @@ export function WritingTestControls({
   customTime,
   setCustomTime,
   onTimeChange,
+  examMode = false,
 }: WritingTestControlsProps) {
   const [showPauseWarning, setShowPauseWarning] = useState(false);
 
@@ -80,29 +83,31 @@ export function WritingTestControls({
     <>
       <div className="flex items-center gap-2">
         {/* Time Selection */}
-        <Popover>
-          <PopoverTrigger asChild>
-            <Button variant="outline" size="sm" className="gap-1">
-              <Clock size={16} />
-              <span className="text-xs">{customTime}m</span>
-            </Button>
-          </PopoverTrigger>
-          <PopoverContent className="w-48">
-            <div className="space-y-2">
-              <p className="text-sm font-medium">Test Duration</p>
-              <Select value={customTime.toString()} onValueChange={handleTimeChange}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="20">20 minutes (Task 1)</SelectItem>
-                  <SelectItem value="40">40 minutes (Task 2)</SelectItem>
-                  <SelectItem value="60">60 minutes (Full Test)</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </PopoverContent>
-        </Popover>
+        {!examMode && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="gap-1">
+                <Clock size={16} />
+                <span className="text-xs">{customTime}m</span>
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-48">
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Test Duration</p>
+                <Select value={customTime.toString()} onValueChange={handleTimeChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="20">20 minutes (Task 1)</SelectItem>
+                    <SelectItem value="40">40 minutes (Task 2)</SelectItem>
+                    <SelectItem value="60">60 minutes (Full Test)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </PopoverContent>
+          </Popover>
+        )}
 
         {/* Font Size Controls */}
         <div className="flex items-center border border-border rounded-md">
@@ -128,14 +133,16 @@ export function WritingTestControls({
         </div>
 
         {/* Pause Button */}
-        <Button 
-          variant="outline" 
-          size="sm"
-          onClick={handlePauseClick}
-          className={isPaused ? "bg-amber-500/10 border-amber-500 text-amber-600" : ""}
-        >
-          {isPaused ? <Play size={16} /> : <Pause size={16} />}
-        </Button>
+        {!examMode && (
+          <Button 
+            variant="outline" 
+            size="sm"
+            onClick={handlePauseClick}
+            className={isPaused ? "bg-amber-500/10 border-amber-500 text-amber-600" : ""}
+          >
+            {isPaused ? <Play size={16} /> : <Pause size={16} />}
+          </Button>
+        )}
 
         {/* Fullscreen Toggle */}
         <Button variant="outline" size="sm" onClick={toggleFullscreen}>
@@ -7,6 +7,7 @@ import {
   checkAnswerWithAlternatives,
   checkMCMAAnswer,
   calculateSubmitStats,
+  getUnansweredQuestionNumbers,
   saveFailedSubmission,
   loadFailedSubmission,
   clearFailedSubmission,
@@ -19,74 +20,17 @@ import {
 } from '../useTestSubmission';
 
 describe('calculateBandScoreFromPercentage', () => {
-  it('returns 9 for percentage >= 93', () => {
-    expect(calculateBandScoreFromPercentage(93)).toBe(9);
+  it('reads the percentage from the official table on the 40-question scale', () => {
     expect(calculateBandScoreFromPercentage(100)).toBe(9);
+    expect(calculateBandScoreFromPercentage(93)).toBe(8.5); // 37/40
+    expect(calculateBandScoreFromPercentage(75)).toBe(7); // 30/40
+    expect(calculateBandScoreFromPercentage(50)).toBe(5.5); // 20/40
+    expect(calculateBandScoreFromPercentage(0)).toBe(0);
   });
 
-  it('returns 8.5 for percentage >= 85 and < 93', () => {
-    expect(calculateBandScoreFromPercentage(85)).toBe(8.5);
-    expect(calculateBandScoreFromPercentage(92)).toBe(8.5);
-  });
-
-  it('returns 8 for percentage >= 78 and < 85', () => {
-    expect(calculateBandScoreFromPercentage(78)).toBe(8);
-    expect(calculateBandScoreFromPercentage(84)).toBe(8);
-  });
-
-  it('returns 7.5 for percentage >= 70 and < 78', () => {
-    expect(calculateBandScoreFromPercentage(70)).toBe(7.5);
-    expect(calculateBandScoreFromPercentage(77)).toBe(7.5);
-  });
-
-  it('returns 7 for percentage >= 63 and < 70', () => {
-    expect(calculateBandScoreFromPercentage(63)).toBe(7);
-    expect(calculateBandScoreFromPercentage(69)).toBe(7);
-  });
-
-  it('returns 6.5 for percentage >= 55 and < 63', () => {
-    expect(calculateBandScoreFromPercentage(55)).toBe(6.5);
-    expect(calculateBandScoreFromPercentage(62)).toBe(6.5);
-  });
-
-  it('returns 6 for percentage >= 48 and < 55', () => {
-    expect(calculateBandScoreFromPercentage(48)).toBe(6);
-    expect(calculateBandScoreFromPercentage(54)).toBe(6);
-  });
-
-  it('returns 5.5 for percentage >= 40 and < 48', () => {
-    expect(calculateBandScoreFromPercentage(40)).toBe(5.5);
-    expect(calculateBandScoreFromPercentage(47)).toBe(5.5);
-  });
-
-  it('returns 5 for percentage >= 33 and < 40', () => {
-    expect(calculateBandScoreFromPercentage(33)).toBe(5);
-    expect(calculateBandScoreFromPercentage(39)).toBe(5);
-  });
-
-  it('returns 4.5 for percentage >= 25 and < 33', () => {
-    expect(calculateBandScoreFromPercentage(25)).toBe(4.5);
-    expect(calculateBandScoreFromPercentage(32)).toBe(4.5);
-  });
-
-  it('returns 4 for percentage >= 18 and < 25', () => {
-    expect(calculateBandScoreFromPercentage(18)).toBe(4);
-    expect(calculateBandScoreFromPercentage(24)).toBe(4);
-  });
-
-  it('returns 3.5 for percentage >= 13 and < 18', () => {
-    expect(calculateBandScoreFromPercentage(13)).toBe(3.5);
-    expect(calculateBandScoreFromPercentage(17)).toBe(3.5);
-  });
-
-  it('returns 3 for percentage >= 8 and < 13', () => {
-    expect(calculateBandScoreFromPercentage(8)).toBe(3);
-    expect(calculateBandScoreFromPercentage(12)).toBe(3);
-  });
-
-  it('returns 2.5 for percentage < 8', () => {
-    expect(calculateBandScoreFromPercentage(7)).toBe(2.5);
-    expect(calculateBandScoreFromPercentage(0)).toBe(2.5);
+  it('uses the listening table when asked', () => {
+    expect(calculateBandScoreFromPercentage(80)).toBe(7); // 32/40 reading
+    expect(calculateBandScoreFromPercentage(80, 'listening')).toBe(7.5); // 32/40 listening
   });
 });
 
@@ -136,9 +80,11 @@ describe('calculateListeningBandScoreFromRaw', () => {
     expect(calculateListeningBandScoreFromRaw(17)).toBe(5);
   });
 
-  it('returns 4 for less than 16 correct answers', () => {
-    expect(calculateListeningBandScoreFromRaw(15)).toBe(4);
-    expect(calculateListeningBandScoreFromRaw(0)).toBe(4);
+  it('returns 4.5 for 13-15 and 4 for 10-12 correct answers', () => {
+    expect(calculateListeningBandScoreFromRaw(15)).toBe(4.5);
+    expect(calculateListeningBandScoreFromRaw(13)).toBe(4.5);
+    expect(calculateListeningBandScoreFromRaw(12)).toBe(4);
+    expect(calculateListeningBandScoreFromRaw(10)).toBe(4);
   });
 });
 
@@ -396,6 +342,16 @@ describe('calculateSubmitStats', () => {
   });
 });
 
+describe('getUnansweredQuestionNumbers', () => {
+  it('lists blank questions, filling MCQ multiple groups from the start', () => {
+    const answers = { 1: 'A', 2: '  ', 4: 'B' };
+    const questionGroups = [{ question_type: 'MULTIPLE_CHOICE_MULTIPLE', start_question: 4, end_question: 6 }];
+
+    expect(getUnansweredQuestionNumbers(answers, [1, 2, 3, 4, 5, 6], questionGroups)).toEqual([2, 3, 5, 6]);
+    expect(getUnansweredQuestionNumbers({ ...answers, 4: 'B,C' }, [4, 5, 6], questionGroups)).toEqual([6]);
+  });
+});
+
 // ============================================================================
 // Failed Submission Utilities Tests
 // ============================================================================
@@ -1,4 +1,13 @@
-import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  diffStudyHighlightRows,
+  fromStudyHighlightRows,
+  mergeHighlightStates,
+  serializeStudyHighlightRow,
+  toStudyHighlightRows,
+  type StoredStudyHighlight,
+} from '@/lib/studyNotes';
 
 export interface Highlight {
   id: string;
@@ -32,16 +41,54 @@ interface HighlightNoteContextType {
   getAllNotesForTest: (testId: string) => { highlight: Highlight; note: Note }[];
 }
 
+// Changes are pushed to the server once editing pauses for this long
+const HIGHLIGHT_SYNC_DELAY_MS = 1500;
+
+// Ids last confirmed on the server, so a reload can tell highlights deleted on
+// another device apart from ones made here that were never uploaded
+const syncedIdsKey = (testId: string) => `ieltsai-highlights-synced-${testId}`;
+
+const loadSyncedIds = (testId: string): Set<string> => {
+  try {
+    const saved = localStorage.getItem(syncedIdsKey(testId));
+    return new Set(saved ? (JSON.parse(saved) as string[]) : []);
+  } catch {
+    return new Set();
+  }
+};
+
+const saveSyncedIds = (testId: string, ids: string[]) => {
+  import('@/lib/storage').then(({ safeLocalStorageSetItem }) => {
+    safeLocalStorageSetItem(syncedIdsKey(testId), JSON.stringify(ids));
+  });
+};
+
 const HighlightNoteContext = createContext<HighlightNoteContextType | undefined>(undefined);
 
+export interface HighlightNoteState {
+  highlights: Highlight[];
+  notes: Note[];
+}
+
 interface HighlightNoteProviderProps {
   children: ReactNode;
   testId: string;
+  /** Replaces the current highlights and notes whenever it changes, e.g. with a resumed session */
+  restoreState?: HighlightNoteState | null;
+  onStateChange?: (state: HighlightNoteState) => void;
+  /** Set on real tests to keep highlights in the signed-in user's account (and the Notebook) */
+  testType?: 'reading' | 'listening';
 }
 
-export const HighlightNoteProvider = ({ children, testId }: HighlightNoteProviderProps) => {
+export const HighlightNoteProvider = ({ children, testId, restoreState, onStateChange, testType }: HighlightNoteProviderProps) => {
   const [highlights, setHighlights] = useState<Highlight[]>([]);
   const [notes, setNotes] = useState<Note[]>([]);
+  const stateRef = useRef<HighlightNoteState>({ highlights, notes });
+  stateRef.current = { highlights, notes };
+
+  // Server copy: rows as last saved (id -> serialized), null until loaded
+  const [syncUserId, setSyncUserId] = useState<string | null>(null);
+  const syncedRowsRef = useRef<Map<string, string> | null>(null);
 
   // Load from localStorage on mount
   useEffect(() => {
@@ -55,6 +102,94 @@ export const HighlightNoteProvider = ({ children, testId }: HighlightNoteProvide
     }
   }, [testId]);
 
+  useEffect(() => {
+    if (restoreState) {
+      setHighlights(restoreState.highlights);
+      setNotes(restoreState.notes);
+    }
+  }, [restoreState]);
+
+  useEffect(() => {
+    onStateChange?.({ highlights, notes });
+  }, [highlights, notes, onStateChange]);
+
+  // Load the signed-in user's saved highlights and merge them with this browser's
+  useEffect(() => {
+    if (!testType) return;
+    let cancelled = false;
+    syncedRowsRef.current = null;
+    setSyncUserId(null);
+
+    const loadSaved = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || cancelled) return;
+
+      const { data, error } = await supabase
+        .from('study_highlights')
+        .select('id, content_id, text, color, start_offset, end_offset, note, created_at, updated_at')
+        .eq('user_id', user.id)
+        .eq('test_type', testType)
+        .eq('test_id', testId);
+      if (cancelled) return;
+      if (error) {
+        console.error('Failed to load saved highlights:', error);
+        return;
+      }
+
+      const rows = (data ?? []) as StoredStudyHighlight[];
+      syncedRowsRef.current = new Map(rows.map(row => [row.id, serializeStudyHighlightRow(row)]));
+      const merged = mergeHighlightStates(stateRef.current, fromStudyHighlightRows(testId, rows), loadSyncedIds(testId));
+      saveSyncedIds(testId, rows.map(row => row.id));
+      setHighlights(merged.highlights);
+      setNotes(merged.notes);
+      setSyncUserId(user.id);
+    };
+
+    loadSaved();
+    return () => {
+      cancelled = true;
+    };
+  }, [testId, testType]);
+
+  // Push additions, edits and deletions once the server copy has loaded
+  useEffect(() => {
+    if (!testType || !syncUserId) return;
+
+    const timer = setTimeout(async () => {
+      const synced = syncedRowsRef.current;
+      if (!synced) return;
+      const rows = toStudyHighlightRows({ highlights, notes });
+      const { upserts, deletedIds } = diffStudyHighlightRows(synced, rows);
+      if (upserts.length === 0 && deletedIds.length === 0) return;
+
+      try {
+        if (upserts.length > 0) {
+          const sourcePath = `${window.location.pathname}${window.location.search}`;
+          const { error } = await supabase.from('study_highlights').upsert(
+            upserts.map(row => ({
+              ...row,
+              user_id: syncUserId,
+              test_type: testType,
+              test_id: testId,
+              source_path: sourcePath,
+            }))
+          );
+          if (error) throw error;
+        }
+        if (deletedIds.length > 0) {
+          const { error } = await supabase.from('study_highlights').delete().in('id', deletedIds);
+          if (error) throw error;
+        }
+        syncedRowsRef.current = new Map(rows.map(row => [row.id, serializeStudyHighlightRow(row)]));
+        saveSyncedIds(testId, rows.map(row => row.id));
+      } catch (err) {
+        console.error('Failed to save highlights:', err);
+      }
+    }, HIGHLIGHT_SYNC_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [highlights, notes, testType, testId, syncUserId]);
+
   // Save to localStorage whenever highlights or notes change (quota-safe)
   useEffect(() => {
     import('@/lib/storage').then(({ safeLocalStorageSetItem }) => {
@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toTestModule, type IELTSTestModule } from '@/lib/bandConversion';
+import { useAuth } from './useAuth';
+
+// Guests keep their choice locally; signed-in users store it on their profile
+const MODULE_PREF_KEY = 'ielts_module_preference';
+
+export const IELTS_MODULE_LABELS: Record<IELTSTestModule, string> = {
+  academic: 'Academic',
+  general: 'General Training',
+};
+
+/**
+ * The user's IELTS module (Academic or General Training). Filters the test
+ * lists and selects the reading band conversion table.
+ */
+export function useIELTSModulePreference() {
+  const { user } = useAuth();
+  const [module, setModuleState] = useState<IELTSTestModule>(
+    () => toTestModule(localStorage.getItem(MODULE_PREF_KEY))
+  );
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchPreference = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('ielts_module')
+          .eq('id', user.id)
+          .maybeSingle();
+
+        if (error) {
+          console.error('Error fetching IELTS module preference:', error);
+          return;
+        }
+        if (data) {
+          const preference = toTestModule(data.ielts_module);
+          setModuleState(preference);
+          localStorage.setItem(MODULE_PREF_KEY, preference);
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPreference();
+  }, [user]);
+
+  const setModule = useCallback(async (next: IELTSTestModule) => {
+    setModuleState(next);
+    localStorage.setItem(MODULE_PREF_KEY, next);
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ ielts_module: next })
+      .eq('id', user.id);
+
+    if (error) throw error;
+  }, [user]);
+
+  return { module, setModule, loading };
+}
@@ -0,0 +1,61 @@
+import { useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, TablesUpdate } from '@/integrations/supabase/types';
+import {
+  MOCK_SESSION_PARAM,
+  getNextMockStage,
+  type MockTestSection,
+} from '@/lib/mockTestSession';
+
+type SectionSubmissionIds = Pick<
+  TablesUpdate<'mock_test_sessions'>,
+  | 'listening_submission_id'
+  | 'reading_submission_id'
+  | 'writing_task1_submission_id'
+  | 'writing_task2_submission_id'
+  | 'speaking_submission_id'
+>;
+
+/**
+ * Links a test page to a full mock test session when it is opened with
+ * ?mockSession=<id>. Test pages use `isMockSession` to apply exam rules (no
+ * pausing) and hand their submission to `completeSection` instead of
+ * navigating to their own results page.
+ */
+export function useMockTestSession() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const mockSessionId = searchParams.get(MOCK_SESSION_PARAM);
+
+  const completeSection = useCallback(async (section: MockTestSection, submissionIds: SectionSubmissionIds) => {
+    if (!mockSessionId) return;
+
+    const { data: session, error: fetchError } = await supabase
+      .from('mock_test_sessions')
+      .select('section_timings')
+      .eq('id', mockSessionId)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const timings = (session?.section_timings ?? {}) as Record<string, Record<string, string>>;
+    const { error } = await supabase
+      .from('mock_test_sessions')
+      .update({
+        ...submissionIds,
+        current_section: getNextMockStage(section),
+        section_timings: {
+          ...timings,
+          [section]: { ...timings[section], submitted_at: new Date().toISOString() },
+        } as Json,
+      })
+      .eq('id', mockSessionId);
+
+    if (error) throw error;
+
+    navigate(`/full-mock-test/session/${mockSessionId}`, { replace: true });
+  }, [mockSessionId, navigate]);
+
+  return { mockSessionId, isMockSession: !!mockSessionId, completeSection };
+}
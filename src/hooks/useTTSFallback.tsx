@@ -6,7 +6,8 @@ interface UseTTSFallbackOptions {
 }
 
 interface UseTTSFallbackReturn {
-  speak: (text: string) => void;
+  /** onEnd runs once the utterance has finished, failed, or could not start */
+  speak: (text: string, onEnd?: () => void) => void;
   stop: () => void;
   pause: () => void;
   resume: () => void;
@@ -66,9 +67,10 @@ export function useTTSFallback({
   }, [accentHint, isSupported]);
 
   const speak = useCallback(
-    (text: string) => {
+    (text: string, onEnd?: () => void) => {
       if (!isSupported) {
         console.warn("Speech synthesis not supported");
+        onEnd?.();
         return;
       }
 
@@ -102,12 +104,14 @@ export function useTTSFallback({
       utterance.onend = () => {
         setIsSpeaking(false);
         setIsPaused(false);
+        onEnd?.();
       };
 
       utterance.onerror = (e) => {
         console.error("TTS error:", e);
         setIsSpeaking(false);
         setIsPaused(false);
+        onEnd?.();
       };
 
       window.speechSynthesis.speak(utterance);
@@ -0,0 +1,281 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import type { Highlight, Note } from '@/hooks/useHighlightNotes';
+import {
+  TEST_SESSION_AUTOSAVE_MS,
+  describeDevice,
+  getDeviceId,
+  isConflictingRevision,
+  type SavedTestSession,
+  type TestSessionSnapshot,
+  type TestSessionType,
+} from '@/lib/testSession';
+
+type TestSessionRow = Tables<'test_sessions'>;
+
+const fromRow = (row: TestSessionRow): SavedTestSession => ({
+  id: row.id,
+  answers: (row.answers ?? {}) as Record<number, string>,
+  timeLeft: row.time_left ?? 0,
+  currentQuestion: row.current_question ?? 1,
+  currentPassageIndex: row.current_passage_index ?? 0,
+  flaggedQuestions: (row.flagged_questions ?? []) as number[],
+  highlights: (row.highlights ?? []) as unknown as Highlight[],
+  notes: (row.notes ?? []) as unknown as Note[],
+  deviceId: row.device_id,
+  deviceLabel: row.device_label,
+  revision: row.revision,
+  updatedAt: row.updated_at,
+});
+
+interface UseTestSessionSyncOptions {
+  testType: TestSessionType;
+  testId: string | undefined;
+  /** Set false to hold off loading and saving, e.g. while a mock section hands over */
+  enabled?: boolean;
+}
+
+/**
+ * Autosaves an in-progress test to `test_sessions` so it can be resumed on
+ * any device. The page hands over its latest state with `queueSnapshot`; the
+ * hook writes it every few seconds with an optimistic revision check, and
+ * raises `conflict` when another device has saved the same session since.
+ */
+export function useTestSessionSync({ testType, testId, enabled = true }: UseTestSessionSyncOptions) {
+  const { user, loading: authLoading } = useAuth();
+  const deviceIdRef = useRef(getDeviceId());
+  const [savedSession, setSavedSession] = useState<SavedTestSession | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [conflict, setConflict] = useState<SavedTestSession | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+
+  const sessionIdRef = useRef<string | null>(null);
+  const revisionRef = useRef(0);
+  const pendingRef = useRef<TestSessionSnapshot | null>(null);
+  const lastSavedRef = useRef<string | null>(null);
+  const isSavingRef = useRef(false);
+  const isBlockedRef = useRef(false);
+
+  const trackSession = useCallback((id: string | null, revision: number) => {
+    sessionIdRef.current = id;
+    revisionRef.current = revision;
+    setSessionId(id);
+  }, []);
+
+  const raiseConflict = useCallback((session: SavedTestSession) => {
+    isBlockedRef.current = true;
+    setConflict(session);
+  }, []);
+
+  const fetchSession = useCallback(async () => {
+    if (!user || !testId) return null;
+    const { data, error } = await supabase
+      .from('test_sessions')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('test_type', testType)
+      .eq('test_id', testId)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? fromRow(data) : null;
+  }, [user, testId, testType]);
+
+  // Load the latest snapshot once per test
+  useEffect(() => {
+    if (!enabled || !testId || authLoading) return;
+    if (!user) {
+      setIsLoaded(true);
+      return;
+    }
+
+    let cancelled = false;
+    fetchSession()
+      .then((session) => {
+        if (cancelled) return;
+        if (session) {
+          trackSession(session.id, session.revision);
+          setSavedSession(session);
+        }
+      })
+      .catch((err) => console.error('Failed to load saved test session:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, testId, authLoading, user, fetchSession, trackSession]);
+
+  // Someone else wrote over us (or deleted the row) between our last save and this one
+  const handleLostRace = useCallback(async () => {
+    const latest = await fetchSession();
+    if (!latest) {
+      trackSession(null, 0);
+      return;
+    }
+    if (isConflictingRevision(latest, revisionRef.current, deviceIdRef.current)) {
+      raiseConflict(latest);
+      return;
+    }
+    // Another tab on this device: adopt its revision and write again next tick
+    trackSession(latest.id, latest.revision);
+    lastSavedRef.current = null;
+  }, [fetchSession, trackSession, raiseConflict]);
+
+  const saveNow = useCallback(async () => {
+    const snapshot = pendingRef.current;
+    if (!snapshot || !user || !testId || isSavingRef.current || isBlockedRef.current) return;
+
+    const serialized = JSON.stringify(snapshot);
+    if (serialized === lastSavedRef.current) return;
+
+    isSavingRef.current = true;
+    const payload = {
+      answers: snapshot.answers as Json,
+      time_left: snapshot.timeLeft,
+      current_question: snapshot.currentQuestion,
+      current_passage_index: snapshot.currentPassageIndex,
+      flagged_questions: snapshot.flaggedQuestions as Json,
+      highlights: snapshot.highlights as unknown as Json,
+      notes: snapshot.notes as unknown as Json,
+      device_id: deviceIdRef.current,
+      device_label: describeDevice(navigator.userAgent),
+    };
+
+    try {
+      if (!sessionIdRef.current) {
+        const { data, error } = await supabase
+          .from('test_sessions')
+          .insert({ ...payload, user_id: user.id, test_type: testType, test_id: testId, revision: 1 })
+          .select('id, revision')
+          .single();
+        if (error) {
+          // Unique violation: another device created the session first
+          if (error.code === '23505') {
+            await handleLostRace();
+            return;
+          }
+          throw error;
+        }
+        trackSession(data.id, data.revision);
+      } else {
+        const { data, error } = await supabase
+          .from('test_sessions')
+          .update({ ...payload, revision: revisionRef.current + 1 })
+          .eq('id', sessionIdRef.current)
+          .eq('revision', revisionRef.current)
+          .select('id, revision')
+          .maybeSingle();
+        if (error) throw error;
+        if (!data) {
+          await handleLostRace();
+          return;
+        }
+        revisionRef.current = data.revision;
+      }
+      lastSavedRef.current = serialized;
+    } catch (err) {
+      console.error('Failed to save test session:', err);
+    } finally {
+      isSavingRef.current = false;
+    }
+  }, [user, testId, testType, trackSession, handleLostRace]);
+
+  const queueSnapshot = useCallback((snapshot: TestSessionSnapshot) => {
+    pendingRef.current = snapshot;
+  }, []);
+
+  // Periodic autosave, plus a final save when the tab is hidden or closed
+  useEffect(() => {
+    if (!enabled || !user || !testId) return;
+
+    const timer = window.setInterval(saveNow, TEST_SESSION_AUTOSAVE_MS);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') saveNow();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', saveNow);
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('pagehide', saveNow);
+    };
+  }, [enabled, user, testId, saveNow]);
+
+  // Notice another device's saves as they happen rather than on our next write
+  useEffect(() => {
+    if (!enabled || !sessionId) return;
+
+    const channel = supabase
+      .channel(`test-session-${sessionId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'test_sessions',
+          filter: `id=eq.${sessionId}`,
+        },
+        (payload) => {
+          const row = payload.new as TestSessionRow | undefined;
+          if (!row?.id) return;
+          const latest = fromRow(row);
+          if (isConflictingRevision(latest, revisionRef.current, deviceIdRef.current)) {
+            raiseConflict(latest);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [enabled, sessionId, raiseConflict]);
+
+  /** Keep this device's state and overwrite the other device's snapshot */
+  const takeOver = useCallback(async () => {
+    if (conflict) revisionRef.current = conflict.revision;
+    isBlockedRef.current = false;
+    lastSavedRef.current = null;
+    setConflict(null);
+    await saveNow();
+  }, [conflict, saveNow]);
+
+  /** Switch to the other device's snapshot; the caller applies the returned state */
+  const adoptRemote = useCallback((): SavedTestSession | null => {
+    if (!conflict) return null;
+    revisionRef.current = conflict.revision;
+    isBlockedRef.current = false;
+    lastSavedRef.current = null;
+    pendingRef.current = null;
+    setConflict(null);
+    return conflict;
+  }, [conflict]);
+
+  /** Delete the snapshot once the test is submitted, and stop autosaving */
+  const discard = useCallback(async () => {
+    isBlockedRef.current = true;
+    pendingRef.current = null;
+    const id = sessionIdRef.current;
+    trackSession(null, 0);
+    if (!id) return;
+    const { error } = await supabase.from('test_sessions').delete().eq('id', id);
+    if (error) console.error('Failed to clear saved test session:', error);
+  }, [trackSession]);
+
+  return {
+    deviceId: deviceIdRef.current,
+    savedSession,
+    isLoaded,
+    conflict,
+    queueSnapshot,
+    saveNow,
+    takeOver,
+    adoptRemote,
+    discard,
+  };
+}
@@ -15,6 +15,7 @@ import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { describeApiError, ApiErrorDescriptor } from '@/lib/apiErrors';
 import { safeLocalStorageSetItem, safeLocalStorageGetItem } from '@/lib/storage';
+import { rawScoreToBand, type IELTSTestModule, type ScoredSkill } from '@/lib/bandConversion';
 
 // ============================================================================
 // Types
@@ -126,87 +127,36 @@ export interface SubmitTestParams {
 
 /**
  * Calculate IELTS band score based on percentage.
- * Used for AI practice tests and part tests where total questions != 40.
- * Uses a proportional scale derived from the official IELTS conversion.
+ * The percentage is mapped onto the 40-question scale and read from the
+ * official table (see src/lib/bandConversion.ts).
+ * @deprecated Use rawScoreToBand(skill, correct, total) so the right table is used
  */
-export function calculateBandScoreFromPercentage(percentage: number): number {
-  // Proportional mapping from official IELTS table (40 questions)
-  // 0/40 = 0% -> Band 0
-  // 1/40 = 2.5% -> Band 1.5
-  // 2-3/40 = 5-7.5% -> Band 2
-  // 4-5/40 = 10-12.5% -> Band 2.5
-  // etc.
-  if (percentage === 0) return 0;
-  if (percentage <= 2.5) return 1.5;
-  if (percentage <= 7.5) return 2;
-  if (percentage <= 12.5) return 2.5;
-  if (percentage <= 17.5) return 3;
-  if (percentage <= 22.5) return 3.5;
-  if (percentage <= 30) return 4;
-  if (percentage <= 35) return 4.5;
-  if (percentage <= 45) return 5;
-  if (percentage <= 55) return 5.5;
-  if (percentage <= 65) return 6;
-  if (percentage <= 72.5) return 6.5;
-  if (percentage <= 80) return 7;
-  if (percentage <= 85) return 7.5;
-  if (percentage <= 90) return 8;
-  if (percentage <= 95) return 8.5;
-  return 9;
+export function calculateBandScoreFromPercentage(
+  percentage: number,
+  skill: ScoredSkill = 'reading',
+  module: IELTSTestModule = 'academic'
+): number {
+  return rawScoreToBand(skill, Math.max(0, Math.min(100, percentage)), 100, module);
 }
 
 /**
- * Calculate band score based on raw score (out of 40).
- * Uses the OFFICIAL IELTS Listening/Reading band score conversion table.
- * This should ONLY be used for Cambridge full tests with exactly 40 questions.
- * 
- * Official IELTS Band Score Conversion Table:
- * Raw Score | Band Score
- * 39-40     | 9
- * 37-38     | 8.5
- * 35-36     | 8
- * 33-34     | 7.5
- * 30-32     | 7
- * 27-29     | 6.5
- * 23-26     | 6
- * 19-22     | 5.5
- * 15-18     | 5
- * 13-14     | 4.5
- * 10-12     | 4
- * 8-9       | 3.5
- * 6-7       | 3
- * 4-5       | 2.5
- * 2-3       | 2
- * 1         | 1.5
- * 0         | 0
+ * Calculate band score based on raw score (out of 40) using the official
+ * conversion table for the skill and module.
  */
-export function calculateBandScoreFromRaw40(correctCount: number): number {
-  if (correctCount >= 39) return 9;
-  if (correctCount >= 37) return 8.5;
-  if (correctCount >= 35) return 8;
-  if (correctCount >= 33) return 7.5;
-  if (correctCount >= 30) return 7;
-  if (correctCount >= 27) return 6.5;
-  if (correctCount >= 23) return 6;
-  if (correctCount >= 19) return 5.5;
-  if (correctCount >= 15) return 5;
-  if (correctCount >= 13) return 4.5;
-  if (correctCount >= 10) return 4;
-  if (correctCount >= 8) return 3.5;
-  if (correctCount >= 6) return 3;
-  if (correctCount >= 4) return 2.5;
-  if (correctCount >= 2) return 2;
-  if (correctCount >= 1) return 1.5;
-  return 0;
+export function calculateBandScoreFromRaw40(
+  correctCount: number,
+  skill: ScoredSkill = 'reading',
+  module: IELTSTestModule = 'academic'
+): number {
+  return rawScoreToBand(skill, correctCount, 40, module);
 }
 
 /**
  * Calculate band score based on raw listening score (out of 40).
- * Uses official IELTS listening band score table.
- * @deprecated Use calculateBandScoreFromRaw40 for full tests or calculateBandScoreFromPercentage for part tests
+ * @deprecated Use rawScoreToBand('listening', correct, total)
  */
 export function calculateListeningBandScoreFromRaw(correctCount: number): number {
-  return calculateBandScoreFromRaw40(correctCount);
+  return rawScoreToBand('listening', correctCount);
 }
 
 // ============================================================================
@@ -733,3 +683,34 @@ export function calculateSubmitStats(
     answeredCount,
   };
 }
+
+/**
+ * Question numbers still blank, for the end-of-test review screen.
+ * An MCQ multiple group of N questions answers one number per selection,
+ * counted from the start of the group, matching calculateSubmitStats.
+ */
+export function getUnansweredQuestionNumbers(
+  answers: Record<number | string, string>,
+  questionNumbers: number[],
+  questionGroups: Array<{ question_type: string; start_question: number; end_question: number }>
+): number[] {
+  const valueOf = (n: number) => {
+    const v: unknown = (answers as Record<string, unknown>)[String(n)];
+    return typeof v === 'string' ? v : v == null ? '' : String(v);
+  };
+
+  const answeredMcqNumbers = new Set<number>();
+  const mcqNumbers = new Set<number>();
+  for (const g of questionGroups) {
+    if (g.question_type !== 'MULTIPLE_CHOICE_MULTIPLE') continue;
+    const selectedCount = valueOf(g.start_question).split(',').map((s) => s.trim()).filter(Boolean).length;
+    for (let n = g.start_question; n <= g.end_question; n++) {
+      mcqNumbers.add(n);
+      if (n - g.start_question < selectedCount) answeredMcqNumbers.add(n);
+    }
+  }
+
+  return questionNumbers.filter((n) =>
+    mcqNumbers.has(n) ? !answeredMcqNumbers.has(n) : valueOf(n).trim().length === 0
+  );
+}
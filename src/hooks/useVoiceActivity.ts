@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { VoiceActivityDetector, computeRms, type VoiceActivityState } from '@/lib/speechRecognition/voiceActivity';
+
+const FRAME_INTERVAL_MS = 100;
+
+/**
+ * Voice activity on a live microphone stream. The level is sampled on an
+ * interval rather than every animation frame so detection keeps running when
+ * the tab is in the background, and the state is read on demand instead of
+ * re-rendering every frame.
+ */
+export function useVoiceActivity(stream: MediaStream | null, isActive: boolean) {
+  const detectorRef = useRef(new VoiceActivityDetector());
+
+  useEffect(() => {
+    if (!stream || !isActive) return;
+
+    let audioContext: AudioContext;
+    try {
+      audioContext = new (window.AudioContext ||
+        (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+    } catch (error) {
+      console.warn('[useVoiceActivity] AudioContext unavailable:', error);
+      return;
+    }
+
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    detectorRef.current.start();
+    const interval = window.setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      detectorRef.current.process(computeRms(samples));
+    }, FRAME_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      audioContext.close().catch(() => {});
+    };
+  }, [stream, isActive]);
+
+  const getState = useCallback((): VoiceActivityState => detectorRef.current.getState(), []);
+  const resetSilence = useCallback(() => detectorRef.current.resetSilence(), []);
+
+  return { getState, resetSilence };
+}
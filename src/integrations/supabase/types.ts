@@ -50,6 +50,7 @@ export type Database = {
           id: string
           module: string
           question_results: Json
+          scan_urls: Json | null
           score: number
           test_id: string
           time_spent_seconds: number
@@ -65,6 +66,7 @@ export type Database = {
           id?: string
           module: string
           question_results?: Json
+          scan_urls?: Json | null
           score?: number
           test_id: string
           time_spent_seconds?: number
@@ -80,6 +82,7 @@ export type Database = {
           id?: string
           module?: string
           question_results?: Json
+          scan_urls?: Json | null
           score?: number
           test_id?: string
           time_spent_seconds?: number
@@ -180,6 +183,69 @@ export type Database = {
         }
         Relationships: []
       }
+      answer_disputes: {
+        Row: {
+          admin_note: string | null
+          correct_answer: string
+          created_at: string
+          id: string
+          question_number: number
+          question_text: string | null
+          question_type: string | null
+          reason: string | null
+          rescored_submissions: number
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          submission_id: string | null
+          test_id: string
+          test_source: string
+          updated_at: string
+          user_answer: string
+          user_id: string
+        }
+        Insert: {
+          admin_note?: string | null
+          correct_answer: string
+          created_at?: string
+          id?: string
+          question_number: number
+          question_text?: string | null
+          question_type?: string | null
+          reason?: string | null
+          rescored_submissions?: number
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          submission_id?: string | null
+          test_id: string
+          test_source: string
+          updated_at?: string
+          user_answer: string
+          user_id: string
+        }
+        Update: {
+          admin_note?: string | null
+          correct_answer?: string
+          created_at?: string
+          id?: string
+          question_number?: number
+          question_text?: string | null
+          question_type?: string | null
+          reason?: string | null
+          rescored_submissions?: number
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          submission_id?: string | null
+          test_id?: string
+          test_source?: string
+          updated_at?: string
+          user_answer?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       api_key_locks: {
         Row: {
           cooldown_until: string | null
@@ -652,6 +718,7 @@ export type Database = {
       }
       listening_questions: {
         Row: {
+          audio_timestamp: number | null
           correct_answer: string
           created_at: string | null
           group_id: string
@@ -665,6 +732,7 @@ export type Database = {
           table_data: Json | null
         }
         Insert: {
+          audio_timestamp?: number | null
           correct_answer: string
           created_at?: string | null
           group_id: string
@@ -678,6 +746,7 @@ export type Database = {
           table_data?: Json | null
         }
         Update: {
+          audio_timestamp?: number | null
           correct_answer?: string
           created_at?: string | null
           group_id?: string
@@ -810,6 +879,190 @@ export type Database = {
         }
         Relationships: []
       }
+      llm_providers: {
+        Row: {
+          api_style: string
+          base_url: string
+          created_at: string
+          display_name: string
+          id: string
+          is_active: boolean
+          models: string[]
+          priority: number
+          supports_images: boolean
+          supports_json_mode: boolean
+          task_types: string[] | null
+          updated_at: string
+        }
+        Insert: {
+          api_style?: string
+          base_url: string
+          created_at?: string
+          display_name: string
+          id: string
+          is_active?: boolean
+          models?: string[]
+          priority?: number
+          supports_images?: boolean
+          supports_json_mode?: boolean
+          task_types?: string[] | null
+          updated_at?: string
+        }
+        Update: {
+          api_style?: string
+          base_url?: string
+          created_at?: string
+          display_name?: string
+          id?: string
+          is_active?: boolean
+          models?: string[]
+          priority?: number
+          supports_images?: boolean
+          supports_json_mode?: boolean
+          task_types?: string[] | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      mock_test_sessions: {
+        Row: {
+          book_name: string
+          completed_at: string | null
+          created_at: string
+          current_section: string
+          id: string
+          listening_submission_id: string | null
+          listening_test_id: string | null
+          overall_band: number | null
+          reading_submission_id: string | null
+          reading_test_id: string | null
+          section_timings: Json
+          speaking_submission_id: string | null
+          speaking_test_id: string | null
+          started_at: string
+          status: string
+          test_module: string
+          test_number: number
+          updated_at: string
+          user_id: string
+          writing_task1_submission_id: string | null
+          writing_task2_submission_id: string | null
+          writing_test_id: string | null
+        }
+        Insert: {
+          book_name: string
+          completed_at?: string | null
+          created_at?: string
+          current_section?: string
+          id?: string
+          listening_submission_id?: string | null
+          listening_test_id?: string | null
+          overall_band?: number | null
+          reading_submission_id?: string | null
+          reading_test_id?: string | null
+          section_timings?: Json
+          speaking_submission_id?: string | null
+          speaking_test_id?: string | null
+          started_at?: string
+          status?: string
+          test_module?: string
+          test_number: number
+          updated_at?: string
+          user_id: string
+          writing_task1_submission_id?: string | null
+          writing_task2_submission_id?: string | null
+          writing_test_id?: string | null
+        }
+        Update: {
+          book_name?: string
+          completed_at?: string | null
+          created_at?: string
+          current_section?: string
+          id?: string
+          listening_submission_id?: string | null
+          listening_test_id?: string | null
+          overall_band?: number | null
+          reading_submission_id?: string | null
+          reading_test_id?: string | null
+          section_timings?: Json
+          speaking_submission_id?: string | null
+          speaking_test_id?: string | null
+          started_at?: string
+          status?: string
+          test_module?: string
+          test_number?: number
+          updated_at?: string
+          user_id?: string
+          writing_task1_submission_id?: string | null
+          writing_task2_submission_id?: string | null
+          writing_test_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mock_test_sessions_listening_submission_id_fkey"
+            columns: ["listening_submission_id"]
+            isOneToOne: false
+            referencedRelation: "listening_test_submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_test_sessions_listening_test_id_fkey"
+            columns: ["listening_test_id"]
+            isOneToOne: false
+            referencedRelation: "listening_tests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_test_sessions_reading_submission_id_fkey"
+            columns: ["reading_submission_id"]
+            isOneToOne: false
+            referencedRelation: "reading_test_submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_test_sessions_reading_test_id_fkey"
+            columns: ["reading_test_id"]
+            isOneToOne: false
+            referencedRelation: "reading_tests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_test_sessions_speaking_submission_id_fkey"
+            columns: ["speaking_submission_id"]
+            isOneToOne: false
+            referencedRelation: "speaking_submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_test_sessions_speaking_test_id_fkey"
+            columns: ["speaking_test_id"]
+            isOneToOne: false
+            referencedRelation: "speaking_tests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_test_sessions_writing_task1_submission_id_fkey"
+            columns: ["writing_task1_submission_id"]
+            isOneToOne: false
+            referencedRelation: "writing_submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_test_sessions_writing_task2_submission_id_fkey"
+            columns: ["writing_task2_submission_id"]
+            isOneToOne: false
+            referencedRelation: "writing_submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_test_sessions_writing_test_id_fkey"
+            columns: ["writing_test_id"]
+            isOneToOne: false
+            referencedRelation: "writing_tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       model_performance_logs: {
         Row: {
           api_key_id: string | null
@@ -859,6 +1112,7 @@ export type Database = {
           email: string | null
           full_name: string | null
           id: string
+          ielts_module: string
           last_reset_date: string
           updated_at: string
         }
@@ -869,6 +1123,7 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id: string
+          ielts_module?: string
           last_reset_date?: string
           updated_at?: string
         }
@@ -879,6 +1134,7 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id?: string
+          ielts_module?: string
           last_reset_date?: string
           updated_at?: string
         }
@@ -1325,6 +1581,8 @@ export type Database = {
           id: string
           max_groq_retries: number
           provider: string
+          self_hosted_stt_model: string | null
+          self_hosted_stt_url: string | null
           singleton_key: string
           updated_at: string
         }
@@ -1337,6 +1595,8 @@ export type Database = {
           id?: string
           max_groq_retries?: number
           provider?: string
+          self_hosted_stt_model?: string | null
+          self_hosted_stt_url?: string | null
           singleton_key?: string
           updated_at?: string
         }
@@ -1349,11 +1609,91 @@ export type Database = {
           id?: string
           max_groq_retries?: number
           provider?: string
+          self_hosted_stt_model?: string | null
+          self_hosted_stt_url?: string | null
           singleton_key?: string
           updated_at?: string
         }
         Relationships: []
       }
+      speaking_question_attempts: {
+        Row: {
+          audio_url: string | null
+          created_at: string
+          criteria: Json
+          duration_seconds: number | null
+          feedback: string | null
+          file_path: string | null
+          id: string
+          original_band: number
+          original_criteria: Json
+          overall_band: number
+          part_number: number
+          question_number: number
+          question_text: string
+          result_id: string | null
+          segment_key: string
+          submission_id: string | null
+          transcript: string
+          user_id: string
+        }
+        Insert: {
+          audio_url?: string | null
+          created_at?: string
+          criteria?: Json
+          duration_seconds?: number | null
+          feedback?: string | null
+          file_path?: string | null
+          id?: string
+          original_band: number
+          original_criteria?: Json
+          overall_band: number
+          part_number: number
+          question_number: number
+          question_text?: string
+          result_id?: string | null
+          segment_key: string
+          submission_id?: string | null
+          transcript?: string
+          user_id: string
+        }
+        Update: {
+          audio_url?: string | null
+          created_at?: string
+          criteria?: Json
+          duration_seconds?: number | null
+          feedback?: string | null
+          file_path?: string | null
+          id?: string
+          original_band?: number
+          original_criteria?: Json
+          overall_band?: number
+          part_number?: number
+          question_number?: number
+          question_text?: string
+          result_id?: string | null
+          segment_key?: string
+          submission_id?: string | null
+          transcript?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "speaking_question_attempts_result_id_fkey"
+            columns: ["result_id"]
+            isOneToOne: false
+            referencedRelation: "ai_practice_results"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "speaking_question_attempts_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "speaking_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       speaking_question_groups: {
         Row: {
           created_at: string | null
@@ -1579,6 +1919,54 @@ export type Database = {
         }
         Relationships: []
       }
+      study_highlights: {
+        Row: {
+          color: string
+          content_id: string
+          created_at: string
+          end_offset: number
+          id: string
+          note: string | null
+          source_path: string | null
+          start_offset: number
+          test_id: string
+          test_type: string
+          text: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          content_id: string
+          created_at?: string
+          end_offset?: number
+          id: string
+          note?: string | null
+          source_path?: string | null
+          start_offset?: number
+          test_id: string
+          test_type: string
+          text: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          content_id?: string
+          created_at?: string
+          end_offset?: number
+          id?: string
+          note?: string | null
+          source_path?: string | null
+          start_offset?: number
+          test_id?: string
+          test_type?: string
+          text?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       subscriptions: {
         Row: {
           created_at: string
@@ -1697,6 +2085,63 @@ export type Database = {
           },
         ]
       }
+      test_sessions: {
+        Row: {
+          answers: Json
+          created_at: string
+          current_passage_index: number | null
+          current_question: number | null
+          device_id: string
+          device_label: string | null
+          flagged_questions: Json
+          highlights: Json
+          id: string
+          notes: Json
+          revision: number
+          test_id: string
+          test_type: string
+          time_left: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          answers?: Json
+          created_at?: string
+          current_passage_index?: number | null
+          current_question?: number | null
+          device_id: string
+          device_label?: string | null
+          flagged_questions?: Json
+          highlights?: Json
+          id?: string
+          notes?: Json
+          revision?: number
+          test_id: string
+          test_type: string
+          time_left?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          answers?: Json
+          created_at?: string
+          current_passage_index?: number | null
+          current_question?: number | null
+          device_id?: string
+          device_label?: string | null
+          flagged_questions?: Json
+          highlights?: Json
+          id?: string
+          notes?: Json
+          revision?: number
+          test_id?: string
+          test_type?: string
+          time_left?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_analytics: {
         Row: {
           analysis_data: Json
@@ -1830,6 +2275,9 @@ export type Database = {
           evaluation_report: Json | null
           id: string
           overall_band: number | null
+          revision_number: number
+          revision_of: string | null
+          scan_urls: string[]
           submission_text: string
           submitted_at: string | null
           task_id: string
@@ -1840,6 +2288,9 @@ export type Database = {
           evaluation_report?: Json | null
           id?: string
           overall_band?: number | null
+          revision_number?: number
+          revision_of?: string | null
+          scan_urls?: string[]
           submission_text: string
           submitted_at?: string | null
           task_id: string
@@ -1850,6 +2301,9 @@ export type Database = {
           evaluation_report?: Json | null
           id?: string
           overall_band?: number | null
+          revision_number?: number
+          revision_of?: string | null
+          scan_urls?: string[]
           submission_text?: string
           submitted_at?: string | null
           task_id?: string
@@ -1857,6 +2311,13 @@ export type Database = {
           word_count?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "writing_submissions_revision_of_fkey"
+            columns: ["revision_of"]
+            isOneToOne: false
+            referencedRelation: "writing_submissions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "writing_submissions_task_id_fkey"
             columns: ["task_id"]
@@ -1925,6 +2386,7 @@ export type Database = {
           description: string | null
           id: string
           is_published: boolean
+          test_type: string
           time_limit: number
           title: string
           updated_at: string
@@ -1934,6 +2396,7 @@ export type Database = {
           description?: string | null
           id?: string
           is_published?: boolean
+          test_type?: string
           time_limit?: number
           title: string
           updated_at?: string
@@ -1943,6 +2406,7 @@ export type Database = {
           description?: string | null
           id?: string
           is_published?: boolean
+          test_type?: string
           time_limit?: number
           title?: string
           updated_at?: string
@@ -1954,6 +2418,30 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_cambridge_answer_dispute: {
+        Args: {
+          p_admin_note: string
+          p_bands: Json
+          p_dispute_id: string
+          p_new_key: string
+          p_old_key: string
+          p_question_id: string
+          p_resolved_by: string
+          p_submission_ids: string[]
+        }
+        Returns: number
+      }
+      accept_practice_answer_dispute: {
+        Args: {
+          p_admin_note: string
+          p_bands: Json
+          p_dispute_id: string
+          p_payload: Json
+          p_resolved_by: string
+          p_results: Json
+        }
+        Returns: number
+      }
       can_user_submit: { Args: { p_user_id: string }; Returns: boolean }
       check_and_reserve_credits: {
         Args: { p_cost: number; p_user_id: string }
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAnswerUpgradePrompt,
+  diffAnswerUpgrade,
+  diffWords,
+  nextBand,
+  parseAnswerUpgrades,
+} from '../answerUpgrade';
+
+const source = {
+  segmentKey: 'part1-qabc',
+  partNumber: 1,
+  questionNumber: 2,
+  questionText: 'Do you like cooking?',
+  transcript: 'Yes I like cooking very much because it make me relax.',
+  band: 5.5,
+};
+
+describe('nextBand', () => {
+  it('targets the next whole band, capped at 9', () => {
+    expect(nextBand(5.5)).toBe(6);
+    expect(nextBand(6)).toBe(7);
+    expect(nextBand(8.5)).toBe(9);
+    expect(nextBand(9)).toBe(9);
+  });
+});
+
+describe('parseAnswerUpgrades', () => {
+  const reply = JSON.stringify({
+    upgrades: [
+      {
+        segment_key: 'PART1-QABC',
+        upgraded: 'Yes, I am really keen on cooking because it helps me unwind.',
+        changes: [
+          { original: 'like cooking very much', upgraded: 'am really keen on cooking', criterion: 'lexical_resource', kind: 'collocation', explanation: 'Idiomatic.' },
+          { original: 'it make me relax', upgraded: 'it helps me unwind', criterion: 'grammatical_range', kind: 'accuracy', explanation: 'Agreement.' },
+          { original: 'x', upgraded: 'y', criterion: 'pronunciation' },
+        ],
+      },
+      { segment_key: 'part9-unknown', upgraded: 'Ignored.' },
+    ],
+  });
+
+  it('matches upgrades to their answers and drops invalid changes', () => {
+    const [upgrade, ...rest] = parseAnswerUpgrades(`\`\`\`json\n${reply}\n\`\`\``, [source]);
+
+    expect(rest).toHaveLength(0);
+    expect(upgrade).toMatchObject({ segmentKey: 'part1-qabc', fromBand: 5.5, targetBand: 6, original: source.transcript });
+    expect(upgrade.changes.map((c) => c.criterion)).toEqual(['lexical_resource', 'grammatical_range']);
+  });
+
+  it('returns nothing for an unreadable reply', () => {
+    expect(parseAnswerUpgrades('not json', [source])).toEqual([]);
+  });
+
+  it('asks for the target band of each answer', () => {
+    expect(buildAnswerUpgradePrompt([source])).toContain('[part1-qabc] Part 1 Q2');
+    expect(buildAnswerUpgradePrompt([source])).toContain('rewrite at Band 6');
+  });
+});
+
+describe('diffWords', () => {
+  it('ignores case and punctuation when matching words', () => {
+    expect(diffWords('I like it, really', 'I really like it.')).toEqual([
+      { op: 'equal', text: 'I' },
+      { op: 'added', text: 'really' },
+      { op: 'equal', text: 'like it.' },
+      { op: 'removed', text: 'really' },
+    ]);
+  });
+});
+
+describe('diffAnswerUpgrade', () => {
+  it('tags changed segments with the criterion of the matching change', () => {
+    const segments = diffAnswerUpgrade({
+      segmentKey: 'k',
+      partNumber: 1,
+      questionNumber: 1,
+      questionText: '',
+      fromBand: 5,
+      targetBand: 6,
+      original: 'it make me relax',
+      upgraded: 'it helps me unwind',
+      changes: [
+        { original: 'make', upgraded: 'helps', criterion: 'grammatical_range', kind: 'accuracy', explanation: '' },
+        { original: 'relax', upgraded: 'unwind', criterion: 'lexical_resource', kind: 'vocabulary', explanation: '' },
+      ],
+    });
+
+    expect(segments.filter((s) => s.op === 'added').map((s) => [s.text, s.criterion])).toEqual([
+      ['helps', 'grammatical_range'],
+      ['unwind', 'lexical_resource'],
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { BAND_CONVERSION_VERSION, convertRawScore, rawScoreToBand } from '../bandConversion';
+
+describe('rawScoreToBand', () => {
+  it('uses different official tables for listening and academic reading', () => {
+    expect(rawScoreToBand('listening', 32)).toBe(7.5);
+    expect(rawScoreToBand('reading', 32)).toBe(7);
+    expect(rawScoreToBand('listening', 26)).toBe(6.5);
+    expect(rawScoreToBand('reading', 26)).toBe(6);
+  });
+
+  it('needs more correct answers for the same band in general training reading', () => {
+    expect(rawScoreToBand('reading', 30, 40, 'general')).toBe(6);
+    expect(rawScoreToBand('reading', 30, 40, 'academic')).toBe(7);
+    expect(rawScoreToBand('reading', 39, 40, 'general')).toBe(8.5);
+  });
+
+  it('clamps out-of-range scores', () => {
+    expect(rawScoreToBand('reading', 45)).toBe(9);
+    expect(rawScoreToBand('reading', -3)).toBe(0);
+  });
+});
+
+describe('convertRawScore', () => {
+  it('scales sets shorter than 40 questions onto the 40-question table', () => {
+    expect(convertRawScore({ skill: 'reading', correct: 12, total: 15 })).toMatchObject({
+      band: 7,
+      scaledRaw: 32,
+      isPartial: true,
+      version: BAND_CONVERSION_VERSION,
+    });
+    expect(convertRawScore({ skill: 'listening', correct: 5, total: 7 }).scaledRaw).toBe(29);
+  });
+
+  it('reads full tests directly', () => {
+    expect(convertRawScore({ skill: 'listening', correct: 35 })).toMatchObject({
+      band: 8,
+      scaledRaw: 35,
+      isPartial: false,
+      module: 'academic',
+    });
+  });
+});
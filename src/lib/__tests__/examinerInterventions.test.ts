@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decideIntervention,
+  describeInterventionsForPrompt,
+  examinerLine,
+  readInterventions,
+} from '../examinerInterventions';
+import { VoiceActivityDetector } from '../speechRecognition/voiceActivity';
+
+describe('decideIntervention', () => {
+  const activity = { elapsedSeconds: 10, silenceSeconds: 0, promptsGiven: 0 };
+
+  it('prompts a stalled answer, then moves on once the prompts are used up', () => {
+    expect(decideIntervention({ ...activity, partNumber: 1, silenceSeconds: 3 })).toBeNull();
+    expect(decideIntervention({ ...activity, partNumber: 1, silenceSeconds: 5 })).toBe('silence_prompt');
+    expect(decideIntervention({ ...activity, partNumber: 1, silenceSeconds: 5, promptsGiven: 1 })).toBe('moved_on');
+  });
+
+  it('never moves on during the Part 2 long turn but stops it at the time limit', () => {
+    expect(decideIntervention({ ...activity, partNumber: 2, silenceSeconds: 9, promptsGiven: 2 })).toBeNull();
+    expect(decideIntervention({ ...activity, partNumber: 2, elapsedSeconds: 120, speakingTimeSeconds: 120 })).toBe('time_up');
+  });
+
+  it('cuts in on an overlong answer at a breath, or after the grace period regardless', () => {
+    expect(decideIntervention({ ...activity, partNumber: 1, elapsedSeconds: 46 })).toBeNull();
+    expect(decideIntervention({ ...activity, partNumber: 1, elapsedSeconds: 46, silenceSeconds: 0.5 })).toBe('interrupt');
+    expect(decideIntervention({ ...activity, partNumber: 1, elapsedSeconds: 55 })).toBe('interrupt');
+    expect(decideIntervention({ ...activity, partNumber: 3, elapsedSeconds: 60, silenceSeconds: 0.5 })).toBeNull();
+  });
+});
+
+describe('examinerLine', () => {
+  it('varies the silence prompts and closes with a thank-you', () => {
+    expect(examinerLine(1, 'silence_prompt', 0)).toBe('Can you tell me more?');
+    expect(examinerLine(3, 'silence_prompt', 5)).toBe('Why do you think that is?');
+    expect(examinerLine(2, 'time_up')).toMatch(/^Thank you/);
+  });
+});
+
+describe('describeInterventionsForPrompt', () => {
+  const log = [
+    { type: 'silence_prompt', partNumber: 1, questionId: 'a', atSeconds: 12, silenceSeconds: 5.2, prompt: 'Can you tell me more?' },
+    { type: 'time_up', partNumber: 2, questionId: 'b', atSeconds: 120, prompt: 'Thank you.' },
+    { type: 'shouted', partNumber: 1, questionId: 'c', atSeconds: 3, prompt: '' },
+  ];
+
+  it('drops malformed entries', () => {
+    expect(readInterventions(log)).toHaveLength(2);
+    expect(readInterventions('nope')).toEqual([]);
+  });
+
+  it('describes the log per segment and can filter by part', () => {
+    const note = describeInterventionsForPrompt(log);
+    expect(note).toContain('[part1-qa] at 0:12');
+    expect(note).toContain('silent for 5s');
+    expect(note).toContain('[part2-qb] at 2:00');
+
+    expect(describeInterventionsForPrompt(log, 2)).not.toContain('part1-qa');
+    expect(describeInterventionsForPrompt([], 1)).toBe('');
+  });
+});
+
+describe('VoiceActivityDetector', () => {
+  it('tracks silence since the last voiced frame above the noise floor', () => {
+    const detector = new VoiceActivityDetector();
+    detector.start(0);
+    for (let t = 100; t <= 1000; t += 100) detector.process(0.005, t);
+    expect(detector.getState(1000)).toMatchObject({ hasSpoken: false, silenceMs: 1000 });
+
+    for (let t = 1100; t <= 2000; t += 100) detector.process(0.2, t);
+    expect(detector.getState(2000)).toMatchObject({ hasSpoken: true, isSpeaking: true, silenceMs: 0, speechMs: 1000 });
+
+    for (let t = 2100; t <= 4000; t += 100) detector.process(0.006, t);
+    expect(detector.getState(4000)).toMatchObject({ isSpeaking: false, silenceMs: 2000 });
+
+    detector.resetSilence(4000);
+    expect(detector.getState(4500).silenceMs).toBe(500);
+  });
+
+  it('adapts to steady background noise', () => {
+    const detector = new VoiceActivityDetector();
+    detector.start(0);
+    for (let t = 100; t <= 5000; t += 100) detector.process(0.03, t);
+    expect(detector.getState(5000).silenceMs).toBeGreaterThan(4000);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { buildFluencyTimeline, computePace, detectSilences, estimateWordTimings } from '../fluencyTimeline';
+
+const words = [
+  { word: 'I', start: 0.0, end: 0.2 },
+  { word: 'usually', start: 0.3, end: 0.8 },
+  { word: 'um,', start: 1.5, end: 1.8 },
+  { word: 'travel', start: 2.0, end: 2.4 },
+  { word: 'by', start: 3.6, end: 3.8 },
+  { word: 'train', start: 6.0, end: 6.4 },
+];
+
+describe('buildFluencyTimeline', () => {
+  it('classifies gaps between timed words with the PauseTracker thresholds', () => {
+    const timeline = buildFluencyTimeline({ duration: 7, words });
+
+    expect(timeline.estimated).toBe(false);
+    expect(timeline.pauses.map((p) => p.type)).toEqual(['hesitation', 'pause', 'breakdown']);
+    expect(timeline.pauses[0]).toMatchObject({ startTime: 800, endTime: 1500, duration: 700 });
+    expect(timeline.pauseMetrics.totalPauses).toBe(3);
+    expect(timeline.pauseMetrics.fluencyBreakdowns).toBe(1);
+  });
+
+  it('marks fillers and leaves them out of the pace', () => {
+    const timeline = buildFluencyTimeline({ duration: 6, words });
+
+    expect(timeline.fillers).toEqual([{ word: 'um', time: 1.5 }]);
+    expect(timeline.averageWpm).toBe(50);
+  });
+
+  it('estimates word positions from silences when there are no timings', () => {
+    const silences = [{ start: 2, end: 4.5 }];
+    const timeline = buildFluencyTimeline({ duration: 6, transcript: 'one two three four five uh six', silences });
+
+    expect(timeline.estimated).toBe(true);
+    expect(timeline.pauses).toHaveLength(1);
+    expect(timeline.pauses[0].type).toBe('breakdown');
+    expect(timeline.fillers).toHaveLength(1);
+    expect(timeline.fillers[0].time).toBeGreaterThanOrEqual(4.5);
+  });
+});
+
+describe('estimateWordTimings', () => {
+  it('keeps words out of silent stretches', () => {
+    const placed = estimateWordTimings('a b c d', 4, [{ start: 1, end: 3 }]);
+
+    expect(placed.map((w) => w.start)).toEqual([0, 0.5, 3, 3.5]);
+  });
+});
+
+describe('detectSilences', () => {
+  it('finds quiet runs of at least half a second', () => {
+    const rate = 1000;
+    const samples = new Float32Array(3 * rate);
+    for (let i = 0; i < samples.length; i++) {
+      const t = i / rate;
+      samples[i] = t < 1 || t >= 2 ? Math.sin(i) * 0.8 : 0;
+    }
+
+    const silences = detectSilences(samples, rate);
+    expect(silences).toHaveLength(1);
+    expect(silences[0].start).toBeCloseTo(1, 1);
+    expect(silences[0].end).toBeCloseTo(2, 1);
+  });
+});
+
+describe('computePace', () => {
+  it('uses the whole answer as one window when it is shorter than ten seconds', () => {
+    expect(computePace(words, 8)).toEqual([{ time: 4, wpm: 45 }]);
+  });
+});
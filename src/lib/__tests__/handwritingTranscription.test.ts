@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { UNCLEAR_MARK, normalizeTranscription, scanMimeType } from '../handwritingTranscription';
+
+describe('scanMimeType', () => {
+  it('prefers a supported Content-Type and falls back to the extension', () => {
+    expect(scanMimeType('https://cdn.example.com/writing-scans/u/page.bin', 'image/jpeg; charset=binary')).toBe('image/jpeg');
+    expect(scanMimeType('https://cdn.example.com/writing-scans/u/Page1.PDF?v=2', 'application/octet-stream')).toBe('application/pdf');
+    expect(scanMimeType('notes.docx', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')).toBeNull();
+  });
+});
+
+describe('normalizeTranscription', () => {
+  it('rejoins wrapped lines, keeps paragraphs and counts unclear words', () => {
+    const transcription = normalizeTranscription({
+      text: `Many people belive that\r\ncities are  too crowded.\n\n \nHowever, the enviroment${UNCLEAR_MARK} is\nimproving.\n`,
+      notes: ' Page 2 is blurred. ',
+    });
+
+    expect(transcription).toEqual({
+      text: `Many people belive that cities are too crowded.\n\nHowever, the enviroment${UNCLEAR_MARK} is improving.`,
+      notes: 'Page 2 is blurred.',
+      unclearCount: 1,
+    });
+  });
+
+  it('treats a missing text field as empty', () => {
+    expect(normalizeTranscription({ notes: 'Blank page' })).toEqual({ text: '', notes: 'Blank page', unclearCount: 0 });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkIeltsAnswer,
+  describeAnswerVerdict,
+  explainAnswer,
+  explainIeltsAnswer,
+  parseWordLimit,
+  supportsAnswerVariants,
+} from '../ieltsAnswerValidation';
+
+describe('explainIeltsAnswer', () => {
+  it('reports an exact match against the matched alternative', () => {
+    const verdict = explainIeltsAnswer('Hospital', 'clinic/hospital');
+    expect(verdict).toMatchObject({ accepted: true, matcher: 'exact', matchedAlternative: 'hospital' });
+  });
+
+  it('reports British/American spelling variants', () => {
+    const verdict = explainIeltsAnswer('colour', 'color');
+    expect(verdict.matcher).toBe('spelling');
+    expect(describeAnswerVerdict(verdict)).toBe("accepted as British/American spelling of 'color'");
+  });
+
+  it('reports date and time matchers', () => {
+    expect(explainIeltsAnswer('9.30am', '9:30 am').matcher).toBe('time');
+    expect(explainIeltsAnswer('15th March', 'March 15').matcher).toBe('date');
+  });
+
+  it('rejects answers over the word limit even when they would match', () => {
+    const verdict = explainIeltsAnswer('the city hospital', 'city hospital', {
+      wordLimit: { maxWords: 2 },
+    });
+    expect(verdict).toMatchObject({ accepted: false, matcher: 'word_limit' });
+    expect(describeAnswerVerdict(verdict)).toBe('rejected: exceeds NO MORE THAN TWO WORDS (3 words)');
+  });
+
+  it('notes an over-limit answer without rejecting it', () => {
+    const accepted = explainIeltsAnswer('the city hospital', 'city hospital', {
+      noteWordLimit: { maxWords: 2 },
+    });
+    expect(accepted).toMatchObject({ accepted: true, matcher: 'article' });
+    expect(describeAnswerVerdict(accepted)).toBe(
+      "accepted as 'city hospital' with a different article, although it exceeds NO MORE THAN TWO WORDS (3 words)"
+    );
+
+    const rejected = explainIeltsAnswer('the old museum', 'library', { noteWordLimit: { maxWords: 2 } });
+    expect(describeAnswerVerdict(rejected)).toBe(
+      'rejected: does not match the answer key and exceeds NO MORE THAN TWO WORDS (3 words)'
+    );
+  });
+
+  it('reports empty and unmatched answers', () => {
+    expect(explainIeltsAnswer('', 'library').matcher).toBe('empty');
+    expect(explainIeltsAnswer('museum', 'library')).toMatchObject({ accepted: false, matcher: 'none' });
+  });
+
+  it('ignores case but not spacing under strictSpelling', () => {
+    expect(explainIeltsAnswer('WEEKEND', 'weekend', { strictSpelling: true }).accepted).toBe(true);
+    expect(explainIeltsAnswer('week end', 'weekend').matcher).toBe('spacing');
+    expect(explainIeltsAnswer('week end', 'weekend', { strictSpelling: true }).accepted).toBe(false);
+    expect(explainIeltsAnswer('wekend', 'weekend', { strictSpelling: true }).accepted).toBe(false);
+    expect(explainIeltsAnswer('15th March', 'March 15', { strictSpelling: true }).matcher).toBe('date');
+    expect(explainIeltsAnswer('colour', 'color', { strictSpelling: true }).accepted).toBe(true);
+  });
+
+  it('agrees with checkIeltsAnswer', () => {
+    for (const [user, key] of [['colour', 'color'], ['museum', 'library'], ['ten kg', '10 kg']]) {
+      expect(checkIeltsAnswer(user, key)).toBe(explainIeltsAnswer(user, key).accepted);
+    }
+  });
+});
+
+describe('explainAnswer', () => {
+  it('compares option ids for letter-based question types', () => {
+    const verdict = explainAnswer('B', 'C', 'MULTIPLE_CHOICE');
+    expect(verdict).toMatchObject({ accepted: false, matcher: 'option_id' });
+    expect(describeAnswerVerdict(verdict)).toBe('rejected: the answer key is C');
+  });
+});
+
+describe('supportsAnswerVariants', () => {
+  it('allows "/" variants only where the matcher splits them', () => {
+    expect(supportsAnswerVariants('SENTENCE_COMPLETION')).toBe(true);
+    expect(supportsAnswerVariants(undefined)).toBe(true);
+    expect(supportsAnswerVariants('MATCHING_FEATURES')).toBe(false);
+    expect(supportsAnswerVariants('MULTIPLE_CHOICE_MULTIPLE')).toBe(false);
+    // An option-id key "A/C" is read as "A"
+    expect(explainAnswer('C', 'A/C', 'MATCHING_FEATURES').accepted).toBe(false);
+  });
+});
+
+describe('parseWordLimit', () => {
+  it('parses common IELTS instructions', () => {
+    expect(parseWordLimit('Write NO MORE THAN TWO WORDS for each answer.')).toEqual({ maxWords: 2 });
+    expect(parseWordLimit('Write NO MORE THAN THREE WORDS AND/OR A NUMBER')).toEqual({ maxWords: 3, maxNumbers: 1 });
+    expect(parseWordLimit('Write ONE WORD ONLY for each answer.')).toEqual({ maxWords: 1 });
+    expect(parseWordLimit('Choose the correct letter, A, B or C.')).toBeNull();
+  });
+});
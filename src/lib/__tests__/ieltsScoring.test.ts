@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateOverallBand,
+  calculateSpeakingBandFromCriteria,
+  calculateWritingBand,
+  calculateWritingTaskBand,
+  computeBandFromQuestionBands,
+  computeSpeakingOverallBandFromCriteria,
+  computeWeightedPartBand,
+  resolveSpeakingOverallBand,
+  roundIELTSBand,
+} from '../ieltsBand';
+import { rawScoreToBand } from '../bandConversion';
+import { computeMockOverallBand, computeMockWritingBand } from '../mockTestSession';
+
+// Conformance fixtures: edge functions store these bands and every report must
+// show the same ones. Changing an expectation here means bumping
+// IELTS_SCORING_VERSION.
+
+describe('roundIELTSBand', () => {
+  it.each([
+    [6.0, 6],
+    [6.124, 6],
+    [6.125, 6],
+    [6.25, 6.5],
+    [6.5, 6.5],
+    [6.74, 6.5],
+    [6.75, 7],
+    [8.9, 9],
+    [9.4, 9],
+    [-1, 0],
+    [Number.NaN, 0],
+  ])('rounds %s to %s', (raw, band) => {
+    expect(roundIELTSBand(raw)).toBe(band);
+  });
+});
+
+describe('speaking', () => {
+  it.each([
+    [{ fluency_coherence: { band: 5.5 }, lexical_resource: { band: 6 }, grammatical_range: { band: 5.5 }, pronunciation: { band: 6 } }, 6],
+    [{ fluency_coherence: { score: 7 }, lexical_resource: { score: 6.5 }, grammatical_range: { score: 6.5 }, pronunciation: { score: 6.5 } }, 6.5],
+    [{ fluency_coherence: { band: 7 }, lexical_resource: { band: 6 } }, 6.5],
+    [{ fluency_coherence: { band: 12 } }, 0],
+    [null, 0],
+  ])('bands criteria %j as %s', (criteria, band) => {
+    expect(calculateSpeakingBandFromCriteria(criteria)).toBe(band);
+  });
+
+  it('agrees with the report helper for the same criteria', () => {
+    expect(computeSpeakingOverallBandFromCriteria({ fluency: 5.5, lexical: 6, grammar: 5.5, pronunciation: 6 })).toBe(
+      calculateSpeakingBandFromCriteria({
+        fluency_coherence: 5.5,
+        lexical_resource: 6,
+        grammatical_range: 5.5,
+        pronunciation: 6,
+      })
+    );
+  });
+
+  it('weights parts 25/40/35 and needs at least half the weight', () => {
+    expect(computeWeightedPartBand({ part1: 6, part2: 7, part3: 6 })).toBe(6.5);
+    expect(computeWeightedPartBand({ part1: 5, part2: 6 })).toBe(5.5);
+    expect(computeWeightedPartBand({ part1: 7 })).toBeNull();
+  });
+
+  it('weights Part 2 question estimates double and clamps to 1-9', () => {
+    const modelAnswers = [
+      { partNumber: 1, estimatedBand: 5 },
+      { partNumber: 2, estimatedBand: 7 },
+      { partNumber: 3, estimatedBand: '6' },
+      { partNumber: 3, estimatedBand: null },
+    ];
+    expect(computeBandFromQuestionBands({ modelAnswers })).toBe(6);
+    expect(computeBandFromQuestionBands({ modelAnswers: [{ partNumber: 1, estimatedBand: 0 }] })).toBe(1);
+    expect(computeBandFromQuestionBands({ modelAnswers: [] })).toBeNull();
+  });
+
+  it('resolves the stored band from parts, then criteria, then questions', () => {
+    const criteria = { fluency_coherence: { band: 5 }, lexical_resource: { band: 5 }, grammatical_range: { band: 5 }, pronunciation: { band: 5 } };
+    const modelAnswers = [{ partNumber: 2, estimatedBand: 8 }];
+    expect(resolveSpeakingOverallBand({ part_scores: { part1: 7, part2: 7, part3: 7 }, criteria, modelAnswers })).toBe(7);
+    expect(resolveSpeakingOverallBand({ criteria, modelAnswers })).toBe(5);
+    expect(resolveSpeakingOverallBand({ modelAnswers })).toBe(8);
+    expect(resolveSpeakingOverallBand({})).toBe(6);
+  });
+});
+
+describe('writing', () => {
+  it('bands a task from its criteria, accepting task_response for Task 2', () => {
+    expect(
+      calculateWritingTaskBand({
+        task_response: { band: 6 },
+        coherence_cohesion: { band: 6.5 },
+        lexical_resource: { band: 6 },
+        grammatical_range: { band: 6.5 },
+      })
+    ).toBe(6.5);
+    expect(calculateWritingTaskBand({})).toBeNull();
+  });
+
+  it.each([
+    [6, 7.5, 7],
+    [5.5, 6.5, 6],
+    [6, null, 6],
+    [null, 7.5, 7.5],
+    [null, null, null],
+  ])('combines Task 1 %s and Task 2 %s as %s', (task1, task2, band) => {
+    expect(calculateWritingBand(task1, task2)).toBe(band);
+    expect(computeMockWritingBand(task1, task2)).toBe(band);
+  });
+});
+
+describe('reading and listening', () => {
+  it('uses the shared raw score tables', () => {
+    expect(rawScoreToBand('listening', 30)).toBe(7);
+    expect(rawScoreToBand('reading', 30)).toBe(7);
+    expect(rawScoreToBand('reading', 30, 40, 'general')).toBe(6);
+  });
+});
+
+describe('overall', () => {
+  it.each([
+    [[6.5, 6.5, 5, 7], 6.5],
+    [[4, 3.5, 4, 4], 4],
+    [[6, 6.5, 6.5, 6.5], 6.5],
+    [[7, 7, 7, 6.5], 7],
+    [[7, null, undefined, 6], 6.5],
+  ])('bands sections %j as %s', (sections, band) => {
+    expect(calculateOverallBand(sections)).toBe(band);
+  });
+
+  it('matches the mock test overall band', () => {
+    expect(computeMockOverallBand({ listening: 6.5, reading: 6.5, writing: 5, speaking: 7 }).overallBand).toBe(
+      calculateOverallBand([6.5, 6.5, 5, 7])
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findAnswerSentence,
+  getClipWindow,
+  getListeningPart,
+  summarizeListeningMisses,
+} from '../listeningAnalytics';
+
+const TRANSCRIPT = `Receptionist: Good morning, Harbour Sports Centre. How can I help?
+Caller: Hi, I'd like to book a tennis court. Is Thursday evening free?
+Receptionist: Thursday is full, I'm afraid. But we have a court on Friday at 7 pm. The fee is twelve pounds.`;
+
+describe('getListeningPart', () => {
+  it('maps question numbers onto the four sections', () => {
+    expect(getListeningPart(1)).toBe(1);
+    expect(getListeningPart(10)).toBe(1);
+    expect(getListeningPart(11)).toBe(2);
+    expect(getListeningPart(40)).toBe(4);
+  });
+});
+
+describe('getClipWindow', () => {
+  it('clamps the clip to the recording', () => {
+    expect(getClipWindow(3)).toEqual({ start: 0, end: 10 });
+    expect(getClipWindow(100, 104)).toEqual({ start: 92, end: 104 });
+  });
+});
+
+describe('findAnswerSentence', () => {
+  it('finds the sentence containing any accepted answer', () => {
+    expect(findAnswerSentence(TRANSCRIPT, 'Friday')).toBe('But we have a court on Friday at 7 pm.');
+    expect(findAnswerSentence(TRANSCRIPT, '£12/twelve pounds')).toBe('The fee is twelve pounds.');
+    expect(findAnswerSentence(TRANSCRIPT, 'swimming')).toBeNull();
+    expect(findAnswerSentence(null, 'Friday')).toBeNull();
+  });
+});
+
+describe('summarizeListeningMisses', () => {
+  it('counts misses by section and ranks question types', () => {
+    const summary = summarizeListeningMisses([
+      { questionNumber: 1, questionType: 'FILL_IN_BLANK', isCorrect: false },
+      { questionNumber: 2, questionType: 'FILL_IN_BLANK', isCorrect: true },
+      { questionNumber: 15, questionType: 'MAP_LABELING', isCorrect: false },
+      { questionNumber: 16, questionType: 'MAP_LABELING', isCorrect: false },
+      { questionNumber: 35, questionType: 'FILL_IN_BLANK', isCorrect: true },
+    ]);
+
+    expect(summary.byPart.map(b => [b.key, b.missed, b.total])).toEqual([
+      [1, 1, 2],
+      [2, 2, 2],
+      [3, 0, 0],
+      [4, 0, 1],
+    ]);
+    expect(summary.byQuestionType[0]).toMatchObject({ key: 'MAP_LABELING', missed: 2, missRate: 1 });
+  });
+});
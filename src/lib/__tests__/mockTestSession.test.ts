@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeMockOverallBand,
+  computeMockWritingBand,
+  getMockSectionPath,
+  getNextMockStage,
+} from '../mockTestSession';
+
+describe('getNextMockStage', () => {
+  it('runs the written sections back-to-back and breaks before speaking', () => {
+    expect(getNextMockStage('listening')).toBe('reading');
+    expect(getNextMockStage('reading')).toBe('writing');
+    expect(getNextMockStage('writing')).toBe('break');
+    expect(getNextMockStage('break')).toBe('speaking');
+    expect(getNextMockStage('speaking')).toBe('report');
+    expect(getNextMockStage('report')).toBe('report');
+  });
+
+  it('builds section paths that carry the session id', () => {
+    expect(getMockSectionPath('reading', 't1', 's1')).toBe('/reading/test/t1?mockSession=s1');
+  });
+});
+
+describe('computeMockWritingBand', () => {
+  it('weights Task 2 double', () => {
+    expect(computeMockWritingBand(6, 7)).toBe(6.5);
+    expect(computeMockWritingBand(7, 7.5)).toBe(7.5);
+    expect(computeMockWritingBand(5, 6)).toBe(5.5);
+  });
+
+  it('falls back to whichever task has been evaluated', () => {
+    expect(computeMockWritingBand(null, 6.5)).toBe(6.5);
+    expect(computeMockWritingBand(undefined, undefined)).toBeNull();
+  });
+});
+
+describe('computeMockOverallBand', () => {
+  it('averages the four sections with IELTS rounding', () => {
+    expect(computeMockOverallBand({ listening: 6.5, reading: 6.5, writing: 5, speaking: 7 })).toEqual({
+      overallBand: 6.5,
+      isProvisional: false,
+      missing: [],
+    });
+    // 6.125 rounds down, 6.25 rounds up to 6.5, 6.75 rounds up to 7
+    expect(computeMockOverallBand({ listening: 6, reading: 6.5, writing: 6, speaking: 6 }).overallBand).toBe(6);
+    expect(computeMockOverallBand({ listening: 6.5, reading: 6.5, writing: 6, speaking: 6 }).overallBand).toBe(6.5);
+    expect(computeMockOverallBand({ listening: 7, reading: 7, writing: 6.5, speaking: 6.5 }).overallBand).toBe(7);
+  });
+
+  it('marks the band provisional while sections are missing', () => {
+    expect(computeMockOverallBand({ listening: 7, reading: 6, writing: null })).toEqual({
+      overallBand: 6.5,
+      isProvisional: true,
+      missing: ['writing', 'speaking'],
+    });
+    expect(computeMockOverallBand({}).overallBand).toBeNull();
+  });
+});
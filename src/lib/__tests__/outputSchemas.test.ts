@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildRepairPrompt,
+  speakingResultSchema,
+  validateOutput,
+  writingTaskEvaluationSchema,
+} from '../outputSchemas';
+
+interface SpeakingResult {
+  overall_band: number;
+  criteria: Record<string, { band: number }>;
+  modelAnswers: unknown[];
+  transcripts_by_question: unknown;
+}
+
+const criterion = (band: unknown) => ({ band, feedback: 'Clear and well organised.' });
+
+describe('validateOutput', () => {
+  it('coerces numeric strings, rounds bands and resolves aliases', () => {
+    const result = validateOutput<SpeakingResult>(speakingResultSchema(1), {
+      overallBand: '6.3',
+      criteria: {
+        fluencyCoherence: criterion(6),
+        lexical_resource: { score: 6.2, feedback: 'Good range.' },
+        grammatical_range: criterion(5.5),
+        pronunciation: criterion('6'),
+      },
+      model_answers: [{ segment_key: 'part1-q1' }],
+      transcripts_by_question: { '1': [] },
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.value.overall_band).toBe(6.5);
+    expect(result.value.criteria.fluency_coherence.band).toBe(6);
+    expect(result.value.criteria.lexical_resource.band).toBe(6);
+    expect(result.value.criteria.pronunciation.band).toBe(6);
+    expect(result.value.modelAnswers).toHaveLength(1);
+    // Keys outside the schema pass through
+    expect(result.value.transcripts_by_question).toEqual({ '1': [] });
+  });
+
+  it('reports every problem with its path', () => {
+    const result = validateOutput(writingTaskEvaluationSchema(2), {
+      overall_band: 6.5,
+      evaluation_report: {
+        task_achievement: criterion(7),
+        coherence_cohesion: criterion(12),
+        lexical_resource: { band: 6, feedback: '' },
+        overall_feedback: 'Solid response.',
+      },
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual(expect.arrayContaining([
+      { path: 'evaluation_report.coherence_cohesion.band', message: 'must be at most 9, got 12' },
+      { path: 'evaluation_report.lexical_resource.feedback', message: 'must not be empty' },
+      { path: 'evaluation_report.grammatical_accuracy', message: 'is required' },
+    ]));
+    // task_achievement is accepted in place of task_response
+    expect(result.issues.some((issue) => issue.path.startsWith('evaluation_report.task_response'))).toBe(false);
+  });
+});
+
+describe('buildRepairPrompt', () => {
+  it('lists the issues, the required shape and the original output', () => {
+    const prompt = buildRepairPrompt({
+      schemaName: 'speaking evaluation',
+      schema: speakingResultSchema(2),
+      output: { overall_band: 6 },
+      issues: [{ path: 'modelAnswers', message: 'is required' }],
+    });
+
+    expect(prompt).toContain('a speaking evaluation that failed validation');
+    expect(prompt).toContain('- modelAnswers: is required');
+    expect(prompt).toContain('(at least 2)');
+    expect(prompt).toContain('"overall_band": 6');
+  });
+});
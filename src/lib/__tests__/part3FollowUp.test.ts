@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PART3_TREE_VERSION,
+  applyPart3QuestionTree,
+  buildFollowUpPrompt,
+  chooseNextMove,
+  parseFollowUp,
+  type Part3Turn,
+} from '../part3FollowUp';
+
+const longAnswer =
+  'I think people travel more nowadays because flights are much cheaper than they used to be and many young people want to see other cultures before they settle down and start a family of their own';
+
+const turn = (move: Part3Turn['move'], answerTranscript = longAnswer): Part3Turn => ({
+  questionId: `q-${move}`,
+  questionNumber: 1,
+  questionText: 'Why do people travel?',
+  move,
+  answerTranscript,
+});
+
+describe('chooseNextMove', () => {
+  it('presses a short answer for justification', () => {
+    expect(chooseNextMove([turn('opening', 'Because it is fun.')])).toBe('justify');
+  });
+
+  it('moves on to moves not yet used after a developed answer', () => {
+    expect(chooseNextMove([turn('opening')])).toBe('justify');
+    expect(chooseNextMove([turn('opening'), turn('justify')])).toBe('compare');
+    expect(chooseNextMove([turn('opening'), turn('justify'), turn('compare')])).toBe('speculate');
+  });
+
+  it('does not ask for justification twice in a row', () => {
+    expect(chooseNextMove([turn('opening'), turn('justify', 'Not sure.')])).toBe('compare');
+  });
+});
+
+describe('parseFollowUp', () => {
+  it('reads the JSON reply, fenced or not', () => {
+    expect(parseFollowUp('```json\n{"question": "Will that change in future?", "focus": "cheap flights"}\n```', 'speculate')).toEqual({
+      questionText: 'Will that change in future?',
+      move: 'speculate',
+      focus: 'cheap flights',
+    });
+  });
+
+  it('accepts a bare question and rejects empty replies', () => {
+    expect(parseFollowUp('How is that different for older people', 'compare')?.questionText).toBe(
+      'How is that different for older people?'
+    );
+    expect(parseFollowUp('{"question": ""}', 'compare')).toBeNull();
+  });
+});
+
+describe('buildFollowUpPrompt', () => {
+  it('includes the discussion so far and the chosen move', () => {
+    const prompt = buildFollowUpPrompt({ version: PART3_TREE_VERSION, topic: 'A journey', turns: [turn('opening')] }, 'compare');
+    expect(prompt).toContain('"A journey"');
+    expect(prompt).toContain(longAnswer);
+    expect(prompt).toContain('compare');
+  });
+});
+
+describe('applyPart3QuestionTree', () => {
+  const payload = {
+    speakingParts: [
+      { part_number: 1, questions: [{ id: 'a', question_text: 'Part 1 question' }] },
+      {
+        part_number: 3,
+        questions: [
+          { id: 'b', question_text: 'Prepared one' },
+          { id: 'c', question_text: 'Prepared two' },
+        ],
+      },
+    ],
+  };
+
+  it('replaces only the Part 3 questions that were asked differently', () => {
+    const tree = {
+      version: PART3_TREE_VERSION,
+      topic: 'A journey',
+      turns: [{ questionId: 'c', questionNumber: 2, questionText: 'Asked instead', move: 'compare' as const }],
+    };
+    const applied = applyPart3QuestionTree(payload, tree);
+
+    expect(applied.speakingParts[1].questions.map((q) => q.question_text)).toEqual(['Prepared one', 'Asked instead']);
+    expect(applied.speakingParts[0]).toBe(payload.speakingParts[0]);
+  });
+
+  it('leaves the payload alone without a valid tree', () => {
+    expect(applyPart3QuestionTree(payload, undefined)).toBe(payload);
+    expect(applyPart3QuestionTree(payload, { turns: 'nope' })).toBe(payload);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { analyzePronunciation, type TimedWord } from '../pronunciationAnalysis';
+
+/** Evenly paced words at 0.08s per letter with a 0.1s gap between them */
+const paced = (text: string, from = 0): TimedWord[] => {
+  let t = from;
+  return text.split(' ').map((word) => {
+    const start = t;
+    t += word.length * 0.08;
+    const timed = { word, start, end: t };
+    t += 0.1;
+    return timed;
+  });
+};
+
+describe('analyzePronunciation', () => {
+  it('flags words that are drawn out against the speaker\'s own pace', () => {
+    const words = paced('I usually travel to the countryside with my family');
+    const travel = words[2];
+    travel.end = travel.start + 1.5;
+
+    const analysis = analyzePronunciation([
+      { segmentKey: 'part1-q1', partNumber: 1, questionNumber: 1, duration: 6, words },
+    ]);
+
+    const [answer] = analysis.answers;
+    expect(answer.words.filter((w) => w.clarity === 'unclear').map((w) => w.word)).toEqual(['travel']);
+    expect(answer.words[2].reasons).toEqual(['drawn_out']);
+    expect(analysis.likelyMispronounced.map((w) => [w.word, w.segmentKey])).toEqual([['travel', 'part1-q1']]);
+  });
+
+  it('marks words in low-confidence phrases as uncertain, not mispronounced', () => {
+    const words = paced('the environment is important');
+    const analysis = analyzePronunciation([
+      {
+        segmentKey: 'part3-q1',
+        partNumber: 3,
+        questionNumber: 1,
+        duration: 3,
+        words,
+        segments: [{ start: 0, end: 3, avg_logprob: -1.2 }],
+      },
+    ]);
+
+    expect(analysis.answers[0].words.every((w) => w.clarity === 'uncertain')).toBe(true);
+    expect(analysis.likelyMispronounced).toEqual([]);
+    expect(analysis.clarityRatio).toBe(0);
+  });
+
+  it('reports speech rate over the recording and while speaking', () => {
+    const words = paced('one two three four five six', 1);
+    const analysis = analyzePronunciation([
+      { segmentKey: 'part1-q2', partNumber: 1, questionNumber: 2, duration: 6, words },
+    ]);
+
+    expect(analysis.answers[0].speechRate).toBe(60);
+    expect(analysis.answers[0].articulationRate).toBeGreaterThan(analysis.answers[0].speechRate);
+    expect(analysis.averageSpeechRate).toBe(60);
+  });
+});
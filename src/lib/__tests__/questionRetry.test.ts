@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  attemptFromRow,
+  buildQuestionRetryPrompt,
+  criteriaDelta,
+  formatBandDelta,
+  parseQuestionRetryEvaluation,
+} from '../questionRetry';
+
+describe('parseQuestionRetryEvaluation', () => {
+  it('reads both attempts and rounds to half bands', () => {
+    const reply = JSON.stringify({
+      original: { fluency_coherence: 5, lexical_resource: 5.5, grammatical_range: 5 },
+      retry: { fluency_coherence: 6.3, lexical_resource: 6, grammatical_range: 5.5, pronunciation: 8 },
+      feedback: 'You linked your ideas with "as a result".',
+    });
+
+    expect(parseQuestionRetryEvaluation(`\`\`\`json\n${reply}\n\`\`\``)).toEqual({
+      original: { fluency_coherence: 5, lexical_resource: 5.5, grammatical_range: 5 },
+      retry: { fluency_coherence: 6.5, lexical_resource: 6, grammatical_range: 5.5 },
+      feedback: 'You linked your ideas with "as a result".',
+    });
+  });
+
+  it('rejects a reply missing a retry criterion', () => {
+    expect(parseQuestionRetryEvaluation('{"retry": {"fluency_coherence": 6}}')).toBeNull();
+    expect(parseQuestionRetryEvaluation('not json')).toBeNull();
+  });
+});
+
+describe('criteriaDelta', () => {
+  it('compares only the criteria both attempts have', () => {
+    expect(criteriaDelta(
+      { fluency_coherence: 5, lexical_resource: 6, pronunciation: 6 },
+      { fluency_coherence: 6, lexical_resource: 5.5, grammatical_range: 6, pronunciation: 6 },
+    )).toEqual({ fluency_coherence: 1, lexical_resource: -0.5, pronunciation: 0 });
+  });
+
+  it('formats deltas with a sign', () => {
+    expect([0.5, -1, 0].map(formatBandDelta)).toEqual(['+0.5', '-1', '±0']);
+  });
+});
+
+describe('attemptFromRow', () => {
+  it('drops invalid stored bands', () => {
+    const attempt = attemptFromRow({
+      id: 'a1',
+      segment_key: 'part1-q1',
+      transcript: 'I like it',
+      audio_url: null,
+      duration_seconds: null,
+      criteria: { fluency_coherence: 6, lexical_resource: 'x' },
+      overall_band: 6,
+      original_criteria: {},
+      original_band: 5,
+      feedback: null,
+      created_at: '2026-01-27T09:00:00Z',
+    });
+
+    expect(attempt.criteria).toEqual({ fluency_coherence: 6 });
+    expect(attempt.durationSeconds).toBeNull();
+    expect(attempt.feedback).toBe('');
+  });
+});
+
+describe('buildQuestionRetryPrompt', () => {
+  it('marks a missing original answer', () => {
+    const prompt = buildQuestionRetryPrompt({
+      partNumber: 1,
+      questionNumber: 2,
+      questionText: 'Do you like cooking?',
+      originalTranscript: '',
+      retryTranscript: 'Yes, I really enjoy it.',
+      retryDurationSeconds: 12.4,
+    });
+    expect(prompt).toContain('(no answer recorded)');
+    expect(prompt).toContain('RETRY (12s of audio)');
+  });
+});
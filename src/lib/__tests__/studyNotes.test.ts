@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import type { Highlight, Note } from '@/hooks/useHighlightNotes';
+import {
+  diffStudyHighlightRows,
+  fromStudyHighlightRows,
+  mergeHighlightStates,
+  notebookToMarkdown,
+  serializeStudyHighlightRow,
+  splitSelectionByContent,
+  splitTextByHighlights,
+  toStudyHighlightRows,
+} from '../studyNotes';
+
+const highlight = (id: string, overrides: Partial<Highlight> = {}): Highlight => ({
+  id,
+  testId: 'test-1',
+  contentId: 'para-a',
+  text: 'migratory birds',
+  color: 'yellow',
+  startOffset: 4,
+  endOffset: 19,
+  isNote: false,
+  ...overrides,
+});
+
+const note = (highlightId: string, text: string): Note => ({
+  id: `${highlightId}-note`,
+  highlightId,
+  text,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('study highlight rows', () => {
+  it('round-trips highlights and their notes', () => {
+    const state = {
+      highlights: [highlight('h1'), highlight('h2', { color: 'red', isNote: true })],
+      notes: [note('h2', 'paraphrase of "seasonal"')],
+    };
+    const rows = toStudyHighlightRows(state).map((row) => ({
+      ...row,
+      created_at: '2026-01-26T08:00:00Z',
+      updated_at: '2026-01-26T08:00:00Z',
+    }));
+
+    expect(rows.map((row) => row.note)).toEqual([null, 'paraphrase of "seasonal"']);
+    const restored = fromStudyHighlightRows('test-1', rows);
+    expect(restored.highlights).toEqual(state.highlights);
+    expect(restored.notes.map((n) => [n.highlightId, n.text])).toEqual([['h2', 'paraphrase of "seasonal"']]);
+  });
+
+  it('only writes rows that changed and deletes removed ones', () => {
+    const [kept, edited, removed] = toStudyHighlightRows({
+      highlights: [highlight('h1'), highlight('h2'), highlight('h3')],
+      notes: [],
+    });
+    const synced = new Map([kept, edited, removed].map((row) => [row.id, serializeStudyHighlightRow(row)]));
+
+    const { upserts, deletedIds } = diffStudyHighlightRows(synced, [kept, { ...edited, note: 'new note' }]);
+    expect(upserts.map((row) => row.id)).toEqual(['h2']);
+    expect(deletedIds).toEqual(['h3']);
+  });
+
+  it('keeps local-only highlights when merging with the server copy', () => {
+    const merged = mergeHighlightStates(
+      { highlights: [highlight('h1', { text: 'stale' }), highlight('local')], notes: [note('local', 'mine')] },
+      { highlights: [highlight('h1')], notes: [] }
+    );
+    expect(merged.highlights.map((h) => [h.id, h.text])).toEqual([
+      ['h1', 'migratory birds'],
+      ['local', 'migratory birds'],
+    ]);
+    expect(merged.notes).toHaveLength(1);
+  });
+
+  it('drops highlights that were synced before but deleted on another device', () => {
+    // Device B still has h1 and h2 cached; device A deleted h1 since B last synced
+    const merged = mergeHighlightStates(
+      { highlights: [highlight('h1'), highlight('h2'), highlight('offline')], notes: [note('h1', 'gone')] },
+      { highlights: [highlight('h2')], notes: [] },
+      new Set(['h1', 'h2'])
+    );
+    expect(merged.highlights.map((h) => h.id)).toEqual(['h2', 'offline']);
+    expect(merged.notes).toEqual([]);
+  });
+});
+
+describe('splitTextByHighlights', () => {
+  it('falls back to the nearest match when offsets have drifted', () => {
+    const segments = splitTextByHighlights('The migratory birds return. Other migratory birds stay.', [
+      { text: 'migratory birds', startOffset: 30 },
+    ]);
+    expect(segments.map((s) => [s.text, !!s.highlight])).toEqual([
+      ['The migratory birds return. Other ', false],
+      ['migratory birds', true],
+      [' stay.', false],
+    ]);
+  });
+});
+
+describe('splitSelectionByContent', () => {
+  it('gives each paragraph a selection crosses its own segment', () => {
+    document.body.innerHTML = [
+      '<div data-highlight-content-id="para-a"><p>Birds <b>migrate</b> south.</p></div>',
+      '<div data-highlight-content-id="para-b"><p>Whales follow the krill.</p></div>',
+      '<div data-highlight-content-id="para-c"><p>Nothing here.</p></div>',
+    ].join('');
+    const [a, b] = Array.from(document.querySelectorAll<HTMLElement>('[data-highlight-content-id]'));
+
+    const range = document.createRange();
+    range.setStart(a.querySelector('b')!.firstChild!, 0);
+    range.setEnd(b.querySelector('p')!.firstChild!, 6);
+
+    expect(splitSelectionByContent(range, document.querySelectorAll<HTMLElement>('[data-highlight-content-id]'))).toEqual([
+      { contentId: 'para-a', text: 'migrate south.', startOffset: 6, endOffset: 20 },
+      { contentId: 'para-b', text: 'Whales', startOffset: 0, endOffset: 6 },
+    ]);
+  });
+});
+
+describe('notebookToMarkdown', () => {
+  it('groups notes by module and test', () => {
+    const markdown = notebookToMarkdown(
+      [
+        {
+          id: 'h1',
+          testType: 'reading',
+          testTitle: 'Cambridge 18 Test 1',
+          location: 'Passage 1 · Paragraph B',
+          text: 'migratory birds',
+          note: 'Q3 paraphrase',
+          updatedAt: '2026-01-26T08:00:00Z',
+          href: '/reading/study/t1?passage=1&highlight=h1',
+        },
+      ],
+      new Date('2026-01-26T09:00:00Z')
+    );
+
+    expect(markdown).toBe(
+      [
+        '# IELTS Study Notebook',
+        '',
+        '_Exported 2026-01-26_',
+        '',
+        '## Reading',
+        '',
+        '### Cambridge 18 Test 1',
+        '',
+        '**Passage 1 · Paragraph B**',
+        '',
+        '> migratory birds',
+        '',
+        'Q3 paraphrase',
+        '',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { applyDataCheck, dataCheckBandCap, extractChartFacts, readDataCheck, resolveDataCheck } from '../task1DataCheck';
+
+const lineGraph = {
+  type: 'LINE_GRAPH',
+  title: 'Car ownership',
+  yAxisLabel: 'Cars per 1,000 people',
+  series: [
+    { name: 'Germany', data: [{ x: 2000, y: 500 }, { x: 2010, y: 520 }, { x: 2020, y: 580 }] },
+    { name: 'Japan', data: [{ x: 2000, y: 400 }, { x: 2010, y: 405 }, { x: 2020, y: 395 }] },
+  ],
+};
+
+const essay = 'Car ownership in Germany rose to 580 by 2020. Japan started at 450 cars, well below Germany. Ownership in Japan fell slightly.';
+
+describe('extractChartFacts', () => {
+  it('numbers every point and lists trends before extremes', () => {
+    const facts = extractChartFacts(lineGraph)!;
+
+    expect(facts.sections[0].points).toHaveLength(6);
+    expect(facts.sections[0].points[0]).toEqual({ id: 'p1', label: 'Germany, 2000', value: 500 });
+    expect(facts.features.map((f) => f.description)).toEqual([
+      'Germany rose from 500 (2000) to 580 (2020)',
+      'Japan stayed roughly stable from 400 (2000) to 395 (2020)',
+      'Germany, 2020 is the highest value (580)',
+      'Japan, 2020 is the lowest value (395)',
+    ]);
+  });
+
+  it('reads numeric table cells and skips visuals without figures', () => {
+    const facts = extractChartFacts({
+      type: 'TABLE',
+      title: 'Museum visitors',
+      headers: ['Museum', '2019', '2020'],
+      rows: [
+        [{ value: 'Science' }, { value: '1,200' }, { value: 900 }],
+        [{ value: 'History' }, { value: '800' }, { value: 'n/a' }],
+      ],
+    })!;
+
+    expect(facts.sections[0].points.map((p) => `${p.label}=${p.value}`)).toEqual([
+      'Science, 2019=1200',
+      'Science, 2020=900',
+      'History, 2019=800',
+    ]);
+    expect(facts.features.map((f) => f.kind)).toEqual(['highest', 'lowest']);
+    expect(extractChartFacts({ type: 'PROCESS_DIAGRAM', title: 'Recycling', steps: [{ label: 'Collect' }] })).toBeNull();
+  });
+});
+
+describe('resolveDataCheck', () => {
+  const facts = extractChartFacts(lineGraph)!;
+
+  it('verifies figures, trends and comparisons against the data', () => {
+    const check = resolveDataCheck(facts, {
+      claims: [
+        { quote: 'rose to 580', kind: 'figure', points: ['p3'], value: 580 },
+        { quote: 'started at 450 cars', kind: 'figure', points: ['p4'], value: 450 },
+        { quote: 'well below Germany', kind: 'comparison', points: ['p4', 'p1'], relation: 'lower' },
+        { quote: 'fell slightly', kind: 'trend', points: ['p4', 'p6'], direction: 'down' },
+        { quote: 'not in the essay', kind: 'figure', points: ['p1'], value: 500 },
+        { quote: 'Ownership in Japan', kind: 'trend', points: ['p99', 'p6'], direction: 'up' },
+      ],
+      covered_features: ['f1', 'f2'],
+    }, essay);
+
+    expect(check.claims).toEqual([
+      { quote: 'rose to 580', kind: 'figure', verdict: 'accurate' },
+      { quote: 'started at 450 cars', kind: 'figure', verdict: 'misreported', actual: 'Japan, 2000 is 400' },
+      { quote: 'well below Germany', kind: 'comparison', verdict: 'accurate' },
+      { quote: 'fell slightly', kind: 'trend', verdict: 'accurate' },
+      { quote: 'Ownership in Japan', kind: 'trend', verdict: 'unverifiable' },
+    ]);
+    expect(check.missing_features).toHaveLength(2);
+    expect(check.band_cap).toBe(6);
+  });
+
+  it('tolerates a missing data_check', () => {
+    expect(resolveDataCheck(facts, undefined, essay)).toMatchObject({ claims: [], band_cap: 5 });
+  });
+});
+
+describe('dataCheckBandCap', () => {
+  it('sets no cap for an accurate report covering the key features', () => {
+    expect(dataCheckBandCap([{ quote: 'a', kind: 'figure', verdict: 'accurate' }], 1, 4)).toBeNull();
+    expect(dataCheckBandCap([{ quote: 'a', kind: 'figure', verdict: 'misreported' }], 0, 4)).toBe(7);
+  });
+});
+
+describe('applyDataCheck', () => {
+  it('lowers Task Achievement to the cap and stores the check', () => {
+    const report: Record<string, unknown> = { task_achievement: { band: 7.5, feedback: 'Good', weaknesses: [] } };
+    const check = resolveDataCheck(extractChartFacts(lineGraph)!, { claims: [], covered_features: ['f1'] }, essay);
+
+    expect(applyDataCheck(report, check)).toBe(true);
+    expect(report.task_achievement).toMatchObject({
+      band: 6,
+      weaknesses: ['Your report leaves out 3 of 4 key features, which limits Task Achievement to band 6.'],
+    });
+    expect(readDataCheck(report.data_check)).toMatchObject({ band_cap: 6, original_band: 7.5 });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TEST_SESSION_ACTIVE_WINDOW_MS,
+  describeDevice,
+  hasResumableProgress,
+  isConflictingRevision,
+  isOpenOnAnotherDevice,
+} from '../testSession';
+
+const NOW = Date.parse('2026-01-25T10:00:00Z');
+
+describe('isOpenOnAnotherDevice', () => {
+  it('only flags recent saves from a different device', () => {
+    const recent = new Date(NOW - 5_000).toISOString();
+    const stale = new Date(NOW - TEST_SESSION_ACTIVE_WINDOW_MS - 1).toISOString();
+
+    expect(isOpenOnAnotherDevice({ deviceId: 'tablet', updatedAt: recent }, 'laptop', NOW)).toBe(true);
+    expect(isOpenOnAnotherDevice({ deviceId: 'laptop', updatedAt: recent }, 'laptop', NOW)).toBe(false);
+    expect(isOpenOnAnotherDevice({ deviceId: 'tablet', updatedAt: stale }, 'laptop', NOW)).toBe(false);
+  });
+});
+
+describe('isConflictingRevision', () => {
+  it('conflicts when another device has saved past our revision', () => {
+    expect(isConflictingRevision({ deviceId: 'tablet', revision: 5 }, 4, 'laptop')).toBe(true);
+    expect(isConflictingRevision({ deviceId: 'tablet', revision: 4 }, 4, 'laptop')).toBe(false);
+    expect(isConflictingRevision({ deviceId: 'laptop', revision: 5 }, 4, 'laptop')).toBe(false);
+  });
+});
+
+describe('hasResumableProgress', () => {
+  it('ignores blank answers', () => {
+    expect(hasResumableProgress({ answers: { 1: '  ' }, highlights: [] })).toBe(false);
+    expect(hasResumableProgress({ answers: { 1: 'TRUE' }, highlights: [] })).toBe(true);
+  });
+});
+
+describe('describeDevice', () => {
+  it('names the browser and platform', () => {
+    expect(
+      describeDevice('Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Version/17.0 Mobile/15E148 Safari/604.1')
+    ).toBe('Safari on iPad');
+    expect(
+      describeDevice('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/120.0 Safari/537.36 Edg/120.0')
+    ).toBe('Edge on Windows');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  readWritingAnnotations,
+  resolveWritingAnnotations,
+  segmentAnnotatedText,
+} from '../writingAnnotations';
+
+const essay = 'People is living longer. In the other hand, people is working longer too.';
+
+describe('resolveWritingAnnotations', () => {
+  it('finds the quoted occurrence and fills in the criterion', () => {
+    const annotations = resolveWritingAnnotations(essay, [
+      { quote: 'people is', occurrence: 2, category: 'Grammar', correction: 'people are', explanation: 'Plural verb.' },
+      { quote: 'In the other hand', category: 'cohesion', correction: 'On the other hand', criterion: 'coherence_and_cohesion' },
+    ]);
+
+    expect(annotations).toEqual([
+      {
+        start: 25,
+        end: 42,
+        text: 'In the other hand',
+        category: 'cohesion',
+        correction: 'On the other hand',
+        explanation: '',
+        criterion: 'coherence_cohesion',
+      },
+      {
+        start: 44,
+        end: 53,
+        text: 'people is',
+        category: 'grammar',
+        correction: 'people are',
+        explanation: 'Plural verb.',
+        criterion: 'grammatical_range',
+      },
+    ]);
+  });
+
+  it('drops quotes not in the essay, unknown categories and overlaps', () => {
+    const annotations = resolveWritingAnnotations(essay, [
+      { quote: 'People is living', category: 'grammar', correction: 'People are living' },
+      { quote: 'is living', category: 'grammar', correction: 'are living' },
+      { quote: 'elderly persons', category: 'spelling', correction: 'older people' },
+      { quote: 'longer', category: 'style', correction: 'for longer' },
+    ]);
+
+    expect(annotations.map((a) => a.text)).toEqual(['People is living']);
+  });
+
+  it('matches a quote with different casing', () => {
+    const [annotation] = resolveWritingAnnotations(essay, [
+      { quote: 'people is living', category: 'grammar', correction: 'people are living' },
+    ]);
+    expect(annotation.start).toBe(0);
+    expect(annotation.text).toBe('People is living');
+  });
+});
+
+describe('segmentAnnotatedText', () => {
+  it('splits the essay around annotations and skips stale spans', () => {
+    const annotations = resolveWritingAnnotations(essay, [
+      { quote: 'In the other hand', category: 'cohesion', correction: 'On the other hand' },
+    ]);
+    const stale = { ...annotations[0], start: 0, end: 6, text: 'Nobody' };
+
+    const segments = segmentAnnotatedText(essay, readWritingAnnotations([stale, ...annotations]));
+
+    expect(segments.map((s) => s.text).join('')).toBe(essay);
+    expect(segments.filter((s) => s.annotation).map((s) => s.text)).toEqual(['In the other hand']);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeDraft, findInformalPhrases, findOverusedWords } from '../writingAssistant';
+
+const filler = (words: number) => Array.from({ length: words }, (_, i) => `word${i % 7}x`).join(' ');
+
+describe('analyzeDraft', () => {
+  it('labels essay paragraphs from their signal phrases', () => {
+    const essay = [
+      `Some people believe that cities are becoming too crowded. ${filler(20)}`,
+      `Firstly, housing costs have risen sharply in most capitals. ${filler(20)}`,
+      `Secondly, public transport is struggling to keep pace. ${filler(20)}`,
+      `In conclusion, governments should invest in smaller towns. ${filler(10)}`,
+    ].join('\n\n');
+
+    const analysis = analyzeDraft(essay, { taskNumber: 2 });
+
+    expect(analysis.paragraphs.map((p) => p.role)).toEqual(['introduction', 'body', 'body', 'conclusion']);
+    expect(analysis.paragraphs[0].signal).toBe('Some people believe');
+    expect(analysis.hints).toEqual([]);
+    expect(analysis.hasOverview).toBeNull();
+  });
+
+  it('flags a single-paragraph draft and a missing conclusion', () => {
+    expect(analyzeDraft(filler(100), { taskNumber: 2 }).hints.map((h) => h.id)).toEqual(['no_paragraphs']);
+
+    const noConclusion = [`Some people believe so. ${filler(40)}`, filler(40), filler(40)].join('\n');
+    expect(analyzeDraft(noConclusion, { taskNumber: 2 }).hints.map((h) => h.id)).toContain('no_conclusion');
+  });
+
+  it('warns when a Task 1 report has no overview', () => {
+    const report = [`The chart shows the number of visitors to three museums. ${filler(40)}`, filler(50)].join('\n');
+    const analysis = analyzeDraft(report, { taskNumber: 1 });
+    expect(analysis.hasOverview).toBe(false);
+    expect(analysis.hints[0].id).toBe('no_overview');
+
+    const withOverview = `${report}\nOverall, the science museum was the most popular throughout the period.`;
+    const fixed = analyzeDraft(withOverview, { taskNumber: 1 });
+    expect(fixed.hasOverview).toBe(true);
+    expect(fixed.paragraphs.map((p) => p.role)).toEqual(['introduction', 'body', 'overview']);
+  });
+
+  it('skips structure hints while the draft is short', () => {
+    expect(analyzeDraft('The chart shows sales.', { taskNumber: 1 }).hints).toEqual([]);
+  });
+});
+
+describe('findOverusedWords', () => {
+  it('reports watched words with alternatives and heavy general repetition', () => {
+    const text = 'It is very good. Very good ideas are very rare. Technology technology technology technology technology.';
+    expect(findOverusedWords(text)).toEqual([
+      { word: 'technology', count: 5, alternatives: [] },
+      { word: 'very', count: 3, alternatives: ['extremely', 'highly', 'considerably'] },
+    ]);
+  });
+});
+
+describe('findInformalPhrases', () => {
+  it('groups matches by rule and allows contractions in letters', () => {
+    const text = "Kids don't like it. But a lot of kids can’t stop!";
+    const phrases = findInformalPhrases(text, { taskNumber: 2 });
+
+    expect(phrases.find((p) => p.text === "don't")?.count).toBe(2);
+    expect(phrases.find((p) => p.text === 'Kids')?.count).toBe(2);
+    expect(phrases.map((p) => p.text)).toEqual(expect.arrayContaining(['a lot of', 'But', '!']));
+
+    expect(findInformalPhrases(text, { taskNumber: 1, isLetter: true }).some((p) => p.text === "don't")).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffStats,
+  diffWords,
+  parseRevisionReview,
+  previousFeedbackPoints,
+  revisionBands,
+  revisionChain,
+} from '../writingRevisions';
+
+const node = (id: string, revision_of: string | null, revision_number: number, submitted_at: string) =>
+  ({ id, revision_of, revision_number, submitted_at });
+
+describe('revisionChain', () => {
+  const submissions = [
+    node('v1', null, 1, '2026-01-01T10:00:00Z'),
+    node('v2', 'v1', 2, '2026-01-02T10:00:00Z'),
+    node('v3-old', 'v2', 3, '2026-01-03T10:00:00Z'),
+    node('v3', 'v2', 3, '2026-01-04T10:00:00Z'),
+    node('other', null, 1, '2026-01-05T10:00:00Z'),
+  ];
+
+  it('walks back to the first draft and forward to the latest revision', () => {
+    expect(revisionChain(submissions, 'v2').map((s) => s.id)).toEqual(['v1', 'v2', 'v3']);
+    expect(revisionChain(submissions, 'v1').map((s) => s.id)).toEqual(['v1', 'v2', 'v3']);
+    expect(revisionChain(submissions, 'other').map((s) => s.id)).toEqual(['other']);
+  });
+
+  it('survives a deleted predecessor', () => {
+    expect(revisionChain(submissions.slice(1), 'v2').map((s) => s.id)).toEqual(['v2', 'v3']);
+  });
+});
+
+describe('diffWords', () => {
+  it('marks changed words and reconstructs both versions', () => {
+    const before = 'People is living longer than ever.';
+    const after = 'People are living much longer than ever.';
+    const parts = diffWords(before, after);
+
+    expect(parts.filter((p) => p.type !== 'added').map((p) => p.text).join('')).toBe(before);
+    expect(parts.filter((p) => p.type !== 'removed').map((p) => p.text).join('')).toBe(after);
+    expect(parts.filter((p) => p.type === 'removed').map((p) => p.text.trim())).toEqual(['is']);
+    expect(diffStats(parts)).toEqual({ added: 2, removed: 1 });
+  });
+});
+
+describe('revisionBands', () => {
+  it('reads the submission report criteria', () => {
+    expect(revisionBands(6.5, {
+      task_achievement_response: { band: 6 },
+      coherence_and_cohesion: { band: 7 },
+      grammatical_range_and_accuracy: { band: 'n/a' },
+    })).toEqual({ overall: 6.5, criteria: { task_achievement: 6, coherence_cohesion: 7 } });
+  });
+});
+
+describe('revision review', () => {
+  it('collects feedback points without markdown', () => {
+    expect(previousFeedbackPoints({
+      lexical_resource: { weaknesses: 'You repeat **important**.', suggestions_for_improvement: '' },
+      annotations: [{ text: 'In the other hand', correction: 'On the other hand' }],
+    })).toEqual(['You repeat important.', '"In the other hand" should be "On the other hand"']);
+  });
+
+  it('keeps only items with a known status', () => {
+    expect(parseRevisionReview({
+      summary: 'You fixed most of the grammar.',
+      items: [
+        { feedback: 'Subject-verb agreement', status: 'Partially addressed', comment: 'Two errors remain.' },
+        { feedback: 'Paragraphing', status: 'maybe' },
+      ],
+    })).toEqual({
+      summary: 'You fixed most of the grammar.',
+      items: [{ feedback: 'Subject-verb agreement', status: 'partially_addressed', comment: 'Two errors remain.' }],
+    });
+    expect(parseRevisionReview({ items: [] })).toBeNull();
+  });
+});
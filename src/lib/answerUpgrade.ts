@@ -0,0 +1,22 @@
+// Shared with speaking-answer-upgrades, which writes the upgrades as a
+// follow-up stage of the speaking evaluation job.
+export {
+  ANSWER_UPGRADE_VERSION,
+  UPGRADE_CRITERION_LABELS,
+  UPGRADE_KIND_LABELS,
+  buildAnswerUpgradePrompt,
+  diffAnswerUpgrade,
+  diffWords,
+  isAnswerUpgradesRecord,
+  nextBand,
+  parseAnswerUpgrades,
+} from '../../supabase/functions/_shared/answerUpgrade.ts';
+
+export type {
+  AnswerUpgrade,
+  AnswerUpgradeChange,
+  AnswerUpgradeCriterion,
+  AnswerUpgradeKind,
+  AnswerUpgradesRecord,
+  DiffSegment,
+} from '../../supabase/functions/_shared/answerUpgrade.ts';
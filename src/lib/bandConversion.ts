@@ -0,0 +1,18 @@
+// The conversion tables are shared with the edge functions so the web app and
+// analyze-performance/resolve-answer-dispute can never disagree on a band.
+export {
+  BAND_CONVERSION_VERSION,
+  FULL_TEST_QUESTIONS,
+  convertRawScore,
+  getConversionTable,
+  rawScoreToBand,
+  toTestModule,
+} from '../../supabase/functions/_shared/bandConversion.ts';
+
+export type {
+  BandConversion,
+  BandConversionInput,
+  ConversionTable,
+  IELTSTestModule,
+  ScoredSkill,
+} from '../../supabase/functions/_shared/bandConversion.ts';
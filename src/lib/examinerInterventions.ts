@@ -0,0 +1,16 @@
+// Shared with the speaking evaluators, which describe the saved log in
+// their prompts.
+export {
+  EXAMINER_TIMING,
+  decideIntervention,
+  describeInterventionsForPrompt,
+  examinerLine,
+  readInterventions,
+} from '../../supabase/functions/_shared/examinerInterventions.ts';
+
+export type {
+  AnswerActivity,
+  ExaminerIntervention,
+  ExaminerInterventionType,
+  ExaminerTimingPolicy,
+} from '../../supabase/functions/_shared/examinerInterventions.ts';
@@ -0,0 +1,217 @@
+/**
+ * Fluency timeline for one recorded answer: where the speaker paused, where
+ * fillers fell and how their pace changed. Pauses use the same thresholds as
+ * the live PauseTracker and fillers the GhostWordTracker whitelist, so the
+ * results pages describe fluency the way the test did.
+ *
+ * Word timings (Whisper) are used when the result has them. Otherwise the
+ * transcript is spread over the voiced parts of the recording, found from its
+ * silences, and the timeline is marked as estimated.
+ */
+
+import {
+  GhostWordTracker,
+  PAUSE_THRESHOLDS,
+  classifyPause,
+  summarizePauses,
+  type PauseEvent,
+  type PauseMetrics,
+} from '@/lib/speechRecognition';
+
+export interface TimelineWord {
+  word: string;
+  /** Seconds from the start of the recording */
+  start: number;
+  end: number;
+}
+
+export interface TimeSpan {
+  start: number;
+  end: number;
+}
+
+export interface FillerMark {
+  word: string;
+  time: number;
+}
+
+export interface PacePoint {
+  /** Centre of the window, in seconds */
+  time: number;
+  wpm: number;
+}
+
+export interface FluencyTimeline {
+  duration: number;
+  /** startTime / endTime in milliseconds from the start of the recording */
+  pauses: PauseEvent[];
+  pauseMetrics: PauseMetrics;
+  fillers: FillerMark[];
+  pace: PacePoint[];
+  averageWpm: number;
+  /** True when word positions were spread over voiced audio rather than timed */
+  estimated: boolean;
+}
+
+const PACE_WINDOW_SECONDS = 10;
+const PACE_STEP_SECONDS = 2;
+
+const bare = (word: string) => word.toLowerCase().replace(/[^a-z']/g, '');
+
+const isFiller = (word: string) => {
+  const text = bare(word);
+  return !!text && GhostWordTracker.isFillerWord(text);
+};
+
+/** Peak amplitude per bucket, scaled so the loudest bucket is 1 */
+export function computeWaveformPeaks(samples: Float32Array, buckets: number): number[] {
+  if (samples.length === 0 || buckets <= 0) return [];
+  const size = Math.max(1, Math.floor(samples.length / buckets));
+  const peaks: number[] = [];
+  for (let b = 0; b < buckets; b++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (b + 1) * size);
+    for (let i = b * size; i < end; i++) {
+      const v = Math.abs(samples[i]);
+      if (v > peak) peak = v;
+    }
+    peaks.push(peak);
+  }
+  const max = peaks.reduce((m, p) => Math.max(m, p), 0);
+  return max > 0 ? peaks.map((p) => p / max) : peaks;
+}
+
+/**
+ * Silent stretches of at least a hesitation's length. A 20ms frame counts as
+ * silent when its RMS is under `relativeThreshold` of the loudest frame.
+ */
+export function detectSilences(samples: Float32Array, sampleRate: number, relativeThreshold = 0.08): TimeSpan[] {
+  const frame = Math.max(1, Math.round(sampleRate * 0.02));
+  const rms: number[] = [];
+  for (let i = 0; i < samples.length; i += frame) {
+    let sum = 0;
+    const end = Math.min(samples.length, i + frame);
+    for (let j = i; j < end; j++) sum += samples[j] * samples[j];
+    rms.push(Math.sqrt(sum / (end - i)));
+  }
+  const threshold = rms.reduce((m, v) => Math.max(m, v), 0) * relativeThreshold;
+  const frameSeconds = frame / sampleRate;
+  const minSeconds = PAUSE_THRESHOLDS.hesitation / 1000;
+
+  const silences: TimeSpan[] = [];
+  let runStart = -1;
+  rms.forEach((value, idx) => {
+    if (value < threshold) {
+      if (runStart === -1) runStart = idx;
+    } else if (runStart !== -1) {
+      if ((idx - runStart) * frameSeconds >= minSeconds) silences.push({ start: runStart * frameSeconds, end: idx * frameSeconds });
+      runStart = -1;
+    }
+  });
+  if (runStart !== -1 && (rms.length - runStart) * frameSeconds >= minSeconds) {
+    silences.push({ start: runStart * frameSeconds, end: rms.length * frameSeconds });
+  }
+  return silences;
+}
+
+/**
+ * Spread transcript words evenly over the voiced audio between silences.
+ * Leading and trailing silence is left empty.
+ */
+export function estimateWordTimings(transcript: string, duration: number, silences: TimeSpan[]): TimelineWord[] {
+  const tokens = transcript.split(/\s+/).filter(Boolean);
+  if (tokens.length === 0 || duration <= 0) return [];
+
+  const voiced: TimeSpan[] = [];
+  let cursor = 0;
+  for (const s of [...silences].sort((a, b) => a.start - b.start)) {
+    if (s.start > cursor) voiced.push({ start: cursor, end: s.start });
+    cursor = Math.max(cursor, s.end);
+  }
+  if (cursor < duration) voiced.push({ start: cursor, end: duration });
+  const voicedSeconds = voiced.reduce((sum, v) => sum + (v.end - v.start), 0);
+  if (voicedSeconds <= 0) return [];
+
+  const perWord = voicedSeconds / tokens.length;
+  return tokens.map((word, i) => {
+    // Walk the voiced spans to where i words' worth of speaking time ends
+    let remaining = i * perWord;
+    let span = voiced[0];
+    for (span of voiced) {
+      if (remaining < span.end - span.start) break;
+      remaining -= span.end - span.start;
+    }
+    const start = Math.min(span.start + remaining, span.end);
+    return { word, start, end: Math.min(span.end, start + perWord) };
+  });
+}
+
+function pausesFromWords(words: TimelineWord[]): PauseEvent[] {
+  const pauses: PauseEvent[] = [];
+  for (let i = 1; i < words.length; i++) {
+    const gapMs = Math.round((words[i].start - words[i - 1].end) * 1000);
+    if (gapMs >= PAUSE_THRESHOLDS.hesitation) {
+      pauses.push({
+        startTime: Math.round(words[i - 1].end * 1000),
+        endTime: Math.round(words[i].start * 1000),
+        duration: gapMs,
+        type: classifyPause(gapMs),
+      });
+    }
+  }
+  return pauses;
+}
+
+function pausesFromSilences(silences: TimeSpan[], duration: number): PauseEvent[] {
+  // Silence before the first word or after the last is thinking/stop time, not a pause
+  return silences
+    .filter((s) => s.start > 0 && s.end < duration)
+    .map((s) => {
+      const durationMs = Math.round((s.end - s.start) * 1000);
+      return {
+        startTime: Math.round(s.start * 1000),
+        endTime: Math.round(s.end * 1000),
+        duration: durationMs,
+        type: classifyPause(durationMs),
+      };
+    });
+}
+
+/** Words per minute in a sliding window across the recording */
+export function computePace(words: TimelineWord[], duration: number): PacePoint[] {
+  if (words.length === 0 || duration <= 0) return [];
+  const window = Math.min(PACE_WINDOW_SECONDS, duration);
+  const points: PacePoint[] = [];
+  for (let from = 0; from + window <= duration + 1e-6; from += PACE_STEP_SECONDS) {
+    const count = words.filter((w) => w.start >= from && w.start < from + window).length;
+    points.push({ time: from + window / 2, wpm: Math.round((count / window) * 60) });
+  }
+  return points;
+}
+
+interface BuildFluencyTimelineInput {
+  duration: number;
+  /** Timed words, e.g. from the pronunciation analysis */
+  words?: TimelineWord[];
+  /** Used with `silences` when there are no timed words */
+  transcript?: string;
+  silences?: TimeSpan[];
+}
+
+export function buildFluencyTimeline({ duration, words, transcript = '', silences = [] }: BuildFluencyTimelineInput): FluencyTimeline {
+  const timed = (words ?? []).filter((w) => Number.isFinite(w.start) && Number.isFinite(w.end));
+  const estimated = timed.length === 0;
+  const placed = estimated ? estimateWordTimings(transcript, duration, silences) : timed;
+  const pauses = estimated ? pausesFromSilences(silences, duration) : pausesFromWords(placed);
+  const spoken = placed.filter((w) => !isFiller(w.word));
+
+  return {
+    duration,
+    pauses,
+    pauseMetrics: summarizePauses(pauses),
+    fillers: placed.filter((w) => isFiller(w.word)).map((w) => ({ word: bare(w.word), time: w.start })),
+    pace: computePace(spoken, duration),
+    averageWpm: duration > 0 ? Math.round((spoken.length / duration) * 60) : 0,
+    estimated,
+  };
+}
@@ -0,0 +1,16 @@
+// Shared with transcribe-handwriting, which turns uploaded pages of a
+// handwritten answer into text for the student to confirm.
+export {
+  MAX_SCAN_BYTES,
+  MAX_SCAN_PAGES,
+  SCAN_MIME_TYPES,
+  UNCLEAR_MARK,
+  countUnclearMarks,
+  normalizeTranscription,
+  scanMimeType,
+} from '../../supabase/functions/_shared/handwritingTranscription.ts';
+
+export type {
+  HandwritingTranscription,
+  ScanMimeType,
+} from '../../supabase/functions/_shared/handwritingTranscription.ts';
@@ -858,71 +858,277 @@ function matchWithHyphens(userAnswer: string, correctAnswer: string): boolean {
 }
 
 // ============================================================================
-// MAIN VALIDATION FUNCTIONS
+// MATCH VERDICTS (explainable marking)
 // ============================================================================
 
 /**
- * Main answer checking function - checks if user answer matches correct answer
- * with IELTS Unified Marking Protocol
+ * Which rule of the marking protocol decided the verdict.
+ * Accepting matchers are listed in the order checkIeltsAnswer tries them;
+ * `word_limit`, `empty` and `none` are rejection reasons.
  */
-export function checkIeltsAnswer(userAnswer: string, correctAnswers: string): boolean {
-  if (!userAnswer || !correctAnswers) return false;
+export type AnswerMatcher =
+  | 'exact'
+  | 'spacing'
+  | 'spelling'
+  | 'date'
+  | 'time'
+  | 'number'
+  | 'number_text'
+  | 'measurement'
+  | 'currency'
+  | 'phone'
+  | 'alphanumeric'
+  | 'hyphen'
+  | 'article'
+  | 'option_id'
+  | 'option_set'
+  | 'word_limit'
+  | 'empty'
+  | 'none';
+
+export interface WordLimit {
+  maxWords: number;
+  maxNumbers?: number;
+}
 
-  const user = normalizeString(userAnswer);
-  
-  // Split correct answers by "/" for alternative answers
-  const rawAnswers = correctAnswers.split('/').map(a => a.trim());
-  
-  for (const rawCorrect of rawAnswers) {
-    // Handle optional words in brackets: (the) hospital
-    const { allVariations } = parseOptionalWords(rawCorrect);
-    
-    for (const correct of allVariations) {
-      const normalizedCorrect = normalizeString(correct);
-      
-      // 1. EXACT MATCH (case-insensitive)
-      if (user === normalizedCorrect) return true;
+export interface AnswerVerdict {
+  accepted: boolean;
+  matcher: AnswerMatcher;
+  /** User answer after case/space/quote normalization */
+  normalizedUser: string;
+  /** Normalized answer-key variant the user answer was compared against */
+  normalizedCorrect?: string;
+  /** Raw answer-key alternative (one "/"-separated entry) that matched */
+  matchedAlternative?: string;
+  /** Present when the answer is over an enforced or noted word limit */
+  wordLimit?: WordLimit & { wordCount: number; numberCount: number };
+}
+
+export interface AnswerCheckOptions {
+  /** Enforce an instruction word limit such as NO MORE THAN TWO WORDS */
+  wordLimit?: WordLimit | null;
+  /**
+   * Report an answer over this limit in the verdict without rejecting it.
+   * The scorers do not enforce instruction limits, so results pages use this
+   * to explain a mark without contradicting it.
+   */
+  noteWordLimit?: WordLimit | null;
+  /**
+   * Answer-sheet marking: still case-insensitive, but every word must be
+   * spelled and split as in the key ("week end" no longer matches "weekend").
+   * British/American variants and optional articles are still accepted.
+   */
+  strictSpelling?: boolean;
+}
+
+const LIMIT_NUMBER_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six'];
+
+/**
+ * Extract the word limit from an instruction such as
+ * "Write NO MORE THAN TWO WORDS AND/OR A NUMBER" or "ONE WORD ONLY".
+ */
+export function parseWordLimit(instruction: string | null | undefined): WordLimit | null {
+  if (!instruction) return null;
+  const s = instruction.toLowerCase().replace(/\s+/g, ' ');
+
+  const match = s.match(/(?:no more than|not more than|up to|maximum of)\s+(\w+)\s+words?/) ||
+    s.match(/\b(\w+)\s+words?\s+only\b/);
+  if (!match) return null;
+
+  const token = match[1];
+  const maxWords = /^\d+$/.test(token) ? parseInt(token, 10) : LIMIT_NUMBER_WORDS.indexOf(token);
+  if (maxWords <= 0) return null;
+
+  const allowsNumber = /and\/or (?:a|one) number/.test(s);
+  return allowsNumber ? { maxWords, maxNumbers: 1 } : { maxWords };
+}
 
-      // 2. MATCH WITHOUT SPACES
-      if (removeAllSpaces(user) === removeAllSpaces(normalizedCorrect)) return true;
+/**
+ * Render a word limit the way IELTS instructions phrase it
+ */
+export function formatWordLimit(limit: WordLimit): string {
+  const count = (LIMIT_NUMBER_WORDS[limit.maxWords] ?? String(limit.maxWords)).toUpperCase();
+  const words = `NO MORE THAN ${count} WORD${limit.maxWords === 1 ? '' : 'S'}`;
+  return limit.maxNumbers ? `${words} AND/OR A NUMBER` : words;
+}
 
-      // 3. SPELLING VARIATIONS (British/American)
-      if (matchWithSpellingVariations(user, normalizedCorrect)) return true;
+const ACCEPTED_DESCRIPTIONS: Partial<Record<AnswerMatcher, (key: string) => string>> = {
+  exact: (key) => `matches '${key}' exactly`,
+  spacing: (key) => `matches '${key}' ignoring spaces`,
+  spelling: (key) => `accepted as British/American spelling of '${key}'`,
+  date: (key) => `accepted as the same date as '${key}'`,
+  time: (key) => `accepted as the same time as '${key}'`,
+  number: (key) => `accepted as the same number as '${key}'`,
+  number_text: (key) => `accepted as '${key}' with the number written differently`,
+  measurement: (key) => `accepted as the same measurement as '${key}'`,
+  currency: (key) => `accepted as the same amount as '${key}'`,
+  phone: (key) => `accepted as the same phone number as '${key}'`,
+  alphanumeric: (key) => `accepted as the same code as '${key}'`,
+  hyphen: (key) => `accepted as a hyphenation variant of '${key}'`,
+  article: (key) => `accepted as '${key}' with a different article`,
+  option_id: (key) => `selected option ${key}`,
+  option_set: (key) => `selected options ${key}`,
+};
 
-      // 4. DATE FORMAT VARIATIONS
-      if (matchDate(user, normalizedCorrect)) return true;
+/**
+ * Human-readable one-liner for a verdict, e.g.
+ * "accepted as British/American spelling of 'color'" or
+ * "rejected: exceeds NO MORE THAN TWO WORDS (3 words)"
+ */
+export function describeAnswerVerdict(verdict: AnswerVerdict): string {
+  const limit = verdict.wordLimit;
+  const exceeds = limit
+    ? `exceeds ${formatWordLimit(limit)} (${limit.wordCount} word${limit.wordCount === 1 ? '' : 's'})`
+    : '';
+
+  if (verdict.accepted) {
+    const describe = ACCEPTED_DESCRIPTIONS[verdict.matcher];
+    const accepted = describe ? describe(verdict.matchedAlternative ?? verdict.normalizedCorrect ?? '') : 'accepted';
+    return exceeds ? `${accepted}, although it ${exceeds}` : accepted;
+  }
 
-      // 5. TIME FORMAT VARIATIONS
-      if (matchTime(user, normalizedCorrect)) return true;
+  switch (verdict.matcher) {
+    case 'empty':
+      return 'rejected: no answer given';
+    case 'word_limit':
+      return `rejected: ${exceeds}`;
+    case 'option_id':
+    case 'option_set':
+      return `rejected: the answer key is ${verdict.matchedAlternative ?? verdict.normalizedCorrect}`;
+    default:
+      return exceeds
+        ? `rejected: does not match the answer key and ${exceeds}`
+        : 'rejected: does not match the answer key or any accepted variant';
+  }
+}
 
-      // 6. NUMBER FORMAT VARIATIONS
-      if (matchNumber(user, normalizedCorrect)) return true;
+// ============================================================================
+// MAIN VALIDATION FUNCTIONS
+// ============================================================================
 
-      // 6b. NUMBER + TEXT VARIATIONS (e.g., "1 degree Celsius" = "one degree Celsius")
-      if (matchNumberWithText(user, normalizedCorrect)) return true;
+/** Matchers whose accepted variants are official, so strictSpelling leaves them alone */
+const STRICT_SPELLING_EXEMPT = new Set<AnswerMatcher>(['exact', 'spelling', 'number_text', 'article']);
 
-      // 7. MEASUREMENT VARIATIONS
-      if (matchMeasurement(user, normalizedCorrect)) return true;
+function wordTokens(str: string): string[] {
+  return str.split(/[\s\-/,.]+/).filter(token => /^[a-z']+$/.test(token));
+}
 
-      // 8. CURRENCY VARIATIONS
-      if (matchCurrency(user, normalizedCorrect)) return true;
+/**
+ * True when every word the user wrote appears, spelled the same way, in the
+ * answer key. Digits, symbols and ordinals are left to the format matchers.
+ */
+function isSpelledAsInKey(user: string, correct: string): boolean {
+  const keyWords = new Set(wordTokens(correct));
+  return wordTokens(user).every(word => keyWords.has(word));
+}
 
-      // 9. PHONE NUMBER VARIATIONS
-      if (matchPhoneNumber(user, normalizedCorrect)) return true;
+/**
+ * Ordered accepting matchers of the IELTS Unified Marking Protocol.
+ * Both sides are already normalized with normalizeString.
+ */
+const IELTS_MATCHERS: Array<[AnswerMatcher, (user: string, correct: string) => boolean]> = [
+  // 1. EXACT MATCH (case-insensitive)
+  ['exact', (user, correct) => user === correct],
+  // 2. MATCH WITHOUT SPACES
+  ['spacing', (user, correct) => removeAllSpaces(user) === removeAllSpaces(correct)],
+  // 3. SPELLING VARIATIONS (British/American)
+  ['spelling', matchWithSpellingVariations],
+  // 4. DATE FORMAT VARIATIONS
+  ['date', matchDate],
+  // 5. TIME FORMAT VARIATIONS
+  ['time', matchTime],
+  // 6. NUMBER FORMAT VARIATIONS
+  ['number', matchNumber],
+  // 6b. NUMBER + TEXT VARIATIONS (e.g., "1 degree Celsius" = "one degree Celsius")
+  ['number_text', matchNumberWithText],
+  // 7. MEASUREMENT VARIATIONS
+  ['measurement', matchMeasurement],
+  // 8. CURRENCY VARIATIONS
+  ['currency', matchCurrency],
+  // 9. PHONE NUMBER VARIATIONS
+  ['phone', matchPhoneNumber],
+  // 10. ALPHANUMERIC CODE VARIATIONS
+  ['alphanumeric', matchAlphanumericCode],
+  // 11. HYPHEN/SPACE VARIATIONS
+  ['hyphen', matchWithHyphens],
+  // 12. ARTICLE VARIATIONS ("the", "a", "an")
+  ['article', (user, correct) => {
+    const withoutArticle = (s: string) => s.replace(/^(the|a|an)\s+/, '');
+    return withoutArticle(user) === withoutArticle(correct);
+  }],
+];
 
-      // 10. ALPHANUMERIC CODE VARIATIONS
-      if (matchAlphanumericCode(user, normalizedCorrect)) return true;
+/**
+ * Explainable version of checkIeltsAnswer: reports which matcher accepted the
+ * answer (and against which answer-key variant), or why it was rejected.
+ */
+export function explainIeltsAnswer(
+  userAnswer: string,
+  correctAnswers: string,
+  options: AnswerCheckOptions = {}
+): AnswerVerdict {
+  const user = normalizeString(userAnswer || '');
+  if (!user || !correctAnswers) {
+    return { accepted: false, matcher: 'empty', normalizedUser: user };
+  }
 
-      // 11. HYPHEN/SPACE VARIATIONS
-      if (matchWithHyphens(user, normalizedCorrect)) return true;
+  const limit = options.wordLimit ?? options.noteWordLimit;
+  let overLimit: AnswerVerdict['wordLimit'];
+  if (limit) {
+    const { valid, wordCount, numberCount } = validateWordLimit(user, limit.maxWords, limit.maxNumbers);
+    if (!valid) overLimit = { ...limit, wordCount, numberCount };
+  }
+  if (overLimit && options.wordLimit) {
+    return { accepted: false, matcher: 'word_limit', normalizedUser: user, wordLimit: overLimit };
+  }
 
-      // 12. ARTICLE VARIATIONS ("the", "a", "an")
-      const withoutArticle = (s: string) => s.replace(/^(the|a|an)\s+/, '');
-      if (withoutArticle(user) === withoutArticle(normalizedCorrect)) return true;
+  // Split correct answers by "/" for alternative answers
+  const rawAnswers = correctAnswers.split('/').map(a => a.trim());
+
+  for (const rawCorrect of rawAnswers) {
+    // Handle optional words in brackets: (the) hospital
+    const { allVariations } = parseOptionalWords(rawCorrect);
+
+    for (const correct of allVariations) {
+      const normalizedCorrect = normalizeString(correct);
+
+      for (const [matcher, matches] of IELTS_MATCHERS) {
+        if (matches(user, normalizedCorrect)) {
+          if (
+            options.strictSpelling &&
+            !STRICT_SPELLING_EXEMPT.has(matcher) &&
+            !isSpelledAsInKey(user, normalizedCorrect)
+          ) {
+            continue;
+          }
+          return {
+            accepted: true,
+            matcher,
+            normalizedUser: user,
+            normalizedCorrect,
+            matchedAlternative: rawCorrect,
+            ...(overLimit ? { wordLimit: overLimit } : {}),
+          };
+        }
+      }
     }
   }
 
-  return false;
+  return {
+    accepted: false,
+    matcher: 'none',
+    normalizedUser: user,
+    normalizedCorrect: normalizeString(rawAnswers[0] ?? ''),
+    ...(overLimit ? { wordLimit: overLimit } : {}),
+  };
+}
+
+/**
+ * Main answer checking function - checks if user answer matches correct answer
+ * with IELTS Unified Marking Protocol
+ */
+export function checkIeltsAnswer(userAnswer: string, correctAnswers: string): boolean {
+  return explainIeltsAnswer(userAnswer, correctAnswers).accepted;
 }
 
 /**
@@ -947,55 +1153,85 @@ export function checkMultipleChoiceMultiple(userAnswer: string, correctAnswer: s
          [...correctOptions].every(opt => userOptions.has(opt));
 }
 
+// For option-id based question types, compare by option id only.
+// This prevents "A/B/C/D" style strings from making every option appear correct.
+// Matching Sentence Endings also compares by option id (A/B/C...), not full text.
+const OPTION_ID_TYPES = new Set([
+  'MULTIPLE_CHOICE',
+  'MULTIPLE_CHOICE_SINGLE',
+  'MATCHING_HEADINGS',
+  'MATCHING_INFORMATION',
+  'MATCHING_FEATURES',
+  'MATCHING_CORRECT_LETTER',
+  'DRAG_AND_DROP_OPTIONS',
+  'MATCHING_SENTENCE_ENDINGS',
+]);
+
 /**
- * Smart answer checker that determines the question type and applies appropriate logic
+ * Whether an accepted "/"-separated variant can be added to this type's key.
+ * Option ids and option sets are compared as ids, so "A/C" would read as "A".
  */
-export function checkAnswer(
+export function supportsAnswerVariants(questionType?: string): boolean {
+  return !questionType || (questionType !== 'MULTIPLE_CHOICE_MULTIPLE' && !OPTION_ID_TYPES.has(questionType));
+}
+
+function normalizeOptionId(s: string): string {
+  const trimmed = (s ?? '').trim();
+  const m = trimmed.match(/^([A-Z]|\d+|[ivxlcdm]+)\b/i);
+  return (m?.[1] ?? trimmed).toUpperCase();
+}
+
+/**
+ * Explainable version of checkAnswer: picks the marking rule for the question
+ * type and returns the full verdict.
+ */
+export function explainAnswer(
   userAnswer: string,
   correctAnswer: string,
-  questionType?: string
-): boolean {
+  questionType?: string,
+  options: AnswerCheckOptions = {}
+): AnswerVerdict {
   // Handle multiple choice multiple answers
   if (questionType === 'MULTIPLE_CHOICE_MULTIPLE') {
-    return checkMultipleChoiceMultiple(userAnswer, correctAnswer);
-  }
-
-  // For option-id based question types, compare by option id only.
-  // This prevents "A/B/C/D" style strings from making every option appear correct.
-  const optionIdTypes = new Set([
-    'MULTIPLE_CHOICE',
-    'MULTIPLE_CHOICE_SINGLE',
-    'MATCHING_HEADINGS',
-    'MATCHING_INFORMATION',
-    'MATCHING_FEATURES',
-    'MATCHING_CORRECT_LETTER',
-    'DRAG_AND_DROP_OPTIONS',
-  ]);
-
-  const normalizeOptionId = (s: string) => {
-    const trimmed = (s ?? '').trim();
-    const m = trimmed.match(/^([A-Z]|\d+|[ivxlcdm]+)\b/i);
-    return (m?.[1] ?? trimmed).toUpperCase();
-  };
-
-  if (questionType && optionIdTypes.has(questionType)) {
-    if (!userAnswer || !correctAnswer) return false;
-    return normalizeOptionId(userAnswer) === normalizeOptionId(correctAnswer);
+    const normalizedUser = normalizeString(userAnswer || '');
+    if (!normalizedUser) return { accepted: false, matcher: 'empty', normalizedUser };
+    return {
+      accepted: checkMultipleChoiceMultiple(userAnswer, correctAnswer),
+      matcher: 'option_set',
+      normalizedUser,
+      normalizedCorrect: normalizeString(correctAnswer || ''),
+      matchedAlternative: correctAnswer,
+    };
   }
 
-  // Matching Sentence Endings: compare by option id (A/B/C...), not full text.
-  if (questionType === 'MATCHING_SENTENCE_ENDINGS') {
-    const extractId = (s: string) => {
-      const trimmed = (s ?? '').trim();
-      const m = trimmed.match(/^([A-Z]|\d+|[ivxlcdm]+)\b/i);
-      return (m?.[1] ?? trimmed).toUpperCase();
+  if (questionType && OPTION_ID_TYPES.has(questionType)) {
+    const normalizedUser = userAnswer ? normalizeOptionId(userAnswer) : '';
+    if (!normalizedUser || !correctAnswer) {
+      return { accepted: false, matcher: 'empty', normalizedUser };
+    }
+    const normalizedCorrect = normalizeOptionId(correctAnswer);
+    return {
+      accepted: normalizedUser === normalizedCorrect,
+      matcher: 'option_id',
+      normalizedUser,
+      normalizedCorrect,
+      matchedAlternative: normalizedCorrect,
     };
-    if (!userAnswer || !correctAnswer) return false;
-    return extractId(userAnswer) === extractId(correctAnswer);
   }
 
   // Use IELTS-aware validation for other types
-  return checkIeltsAnswer(userAnswer, correctAnswer);
+  return explainIeltsAnswer(userAnswer, correctAnswer, options);
+}
+
+/**
+ * Smart answer checker that determines the question type and applies appropriate logic
+ */
+export function checkAnswer(
+  userAnswer: string,
+  correctAnswer: string,
+  questionType?: string
+): boolean {
+  return explainAnswer(userAnswer, correctAnswer, questionType).accepted;
 }
 
 
@@ -1,18 +1,26 @@
-export function roundIELTSOverallBand(rawAverage: number): number {
-  // IELTS rounding convention:
-  // - Round to nearest 0.5.
-  // - If average ends in .25, round up to .5.
-  // - If average ends in .75, round up to next whole band.
-  if (!Number.isFinite(rawAverage)) return 0;
+// Band rounding and combination rules are shared with the edge functions, so a
+// report always shows the band that was stored for the attempt.
+import { calculateSpeakingBandFromCriteria } from '../../supabase/functions/_shared/ieltsScoring.ts';
 
-  const avg = Math.max(0, Math.min(9, rawAverage));
-  const floor = Math.floor(avg);
-  const fraction = avg - floor;
+export {
+  IELTS_SCORING_VERSION,
+  SPEAKING_CRITERIA,
+  SPEAKING_PART_WEIGHTS,
+  WRITING_CRITERIA,
+  averageBands,
+  calculateOverallBand,
+  calculateSpeakingBandFromCriteria,
+  calculateWritingBand,
+  calculateWritingTaskBand,
+  computeBandFromQuestionBands,
+  computeWeightedPartBand,
+  getCriterionBand,
+  isValidBand,
+  resolveSpeakingOverallBand,
+  roundIELTSBand,
+} from '../../supabase/functions/_shared/ieltsScoring.ts';
 
-  if (fraction < 0.25) return floor;
-  if (fraction < 0.75) return floor + 0.5;
-  return floor + 1;
-}
+export type { SpeakingCriterion, WritingCriterion } from '../../supabase/functions/_shared/ieltsScoring.ts';
 
 export function computeSpeakingOverallBandFromCriteria(criteria: {
   fluency: number;
@@ -20,8 +28,10 @@ export function computeSpeakingOverallBandFromCriteria(criteria: {
   grammar: number;
   pronunciation: number;
 }): number {
-  const scores = [criteria.fluency, criteria.lexical, criteria.grammar, criteria.pronunciation]
-    .map((n) => (Number.isFinite(n) ? n : 0));
-  const avg = scores.reduce((a, b) => a + b, 0) / 4;
-  return roundIELTSOverallBand(avg);
+  return calculateSpeakingBandFromCriteria({
+    fluency_coherence: criteria.fluency,
+    lexical_resource: criteria.lexical,
+    grammatical_range: criteria.grammar,
+    pronunciation: criteria.pronunciation,
+  });
 }
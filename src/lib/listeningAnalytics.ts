@@ -0,0 +1,138 @@
+/**
+ * Post-test listening analytics: where in the recording each answer lives
+ * and which sections / question types a student misses most.
+ */
+
+export type ListeningPart = 1 | 2 | 3 | 4;
+
+export const LISTENING_PARTS: ListeningPart[] = [1, 2, 3, 4];
+
+// Seconds of audio played either side of a question's timestamp
+export const CLIP_LEAD_SECONDS = 8;
+export const CLIP_TAIL_SECONDS = 7;
+
+/** Questions 1-10 are Part 1, 11-20 Part 2, and so on */
+export function getListeningPart(questionNumber: number): ListeningPart {
+  const part = Math.ceil(questionNumber / 10);
+  return Math.min(4, Math.max(1, part)) as ListeningPart;
+}
+
+export interface AudioClipWindow {
+  start: number;
+  end: number;
+}
+
+/** Window of audio around an answer, clamped to the recording */
+export function getClipWindow(
+  timestamp: number,
+  duration?: number,
+  lead = CLIP_LEAD_SECONDS,
+  tail = CLIP_TAIL_SECONDS
+): AudioClipWindow {
+  const start = Math.max(0, timestamp - lead);
+  const end = timestamp + tail;
+  return {
+    start,
+    end: duration && Number.isFinite(duration) ? Math.min(duration, end) : end,
+  };
+}
+
+const normalizeWords = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9'\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+/** Split a transcript into sentences, dropping "Speaker:" prefixes */
+export function splitTranscriptSentences(transcript: string): string[] {
+  return transcript
+    .split('\n')
+    .map(line => line.replace(/^[^:\n]{1,40}:\s*/, '').trim())
+    .filter(Boolean)
+    .flatMap(line => line.match(/[^.!?]+[.!?]*/g) ?? [line])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The transcript sentence that gives away the answer: the first sentence
+ * containing every word of any accepted answer ("/"-separated), or failing
+ * that the one sharing the most words with it.
+ */
+export function findAnswerSentence(transcript: string | null | undefined, correctAnswer: string): string | null {
+  if (!transcript || !correctAnswer) return null;
+  const sentences = splitTranscriptSentences(transcript);
+  const alternatives = correctAnswer
+    .split('/')
+    .map(alt => normalizeWords(alt))
+    .filter(words => words.length > 0);
+  if (sentences.length === 0 || alternatives.length === 0) return null;
+
+  let best: { sentence: string; overlap: number } | null = null;
+  for (const sentence of sentences) {
+    const words = new Set(normalizeWords(sentence));
+    for (const answerWords of alternatives) {
+      const overlap = answerWords.filter(word => words.has(word)).length / answerWords.length;
+      if (overlap === 1) return sentence;
+      if (overlap > 0 && (!best || overlap > best.overlap)) {
+        best = { sentence, overlap };
+      }
+    }
+  }
+  return best && best.overlap >= 0.5 ? best.sentence : null;
+}
+
+export interface ListeningAnswerOutcome {
+  questionNumber: number;
+  questionType?: string;
+  isCorrect: boolean;
+}
+
+export interface MissBucket<K> {
+  key: K;
+  missed: number;
+  total: number;
+  /** Share of questions in this bucket that were missed (0-1) */
+  missRate: number;
+}
+
+export interface ListeningMissSummary {
+  byPart: MissBucket<ListeningPart>[];
+  /** Sorted with the most-missed question type first */
+  byQuestionType: MissBucket<string>[];
+}
+
+function toBuckets<K>(counts: Map<K, { missed: number; total: number }>): MissBucket<K>[] {
+  return [...counts.entries()].map(([key, { missed, total }]) => ({
+    key,
+    missed,
+    total,
+    missRate: total > 0 ? missed / total : 0,
+  }));
+}
+
+/** Aggregate wrong answers by section (1-4) and by question type */
+export function summarizeListeningMisses(outcomes: ListeningAnswerOutcome[]): ListeningMissSummary {
+  const byPart = new Map<ListeningPart, { missed: number; total: number }>(
+    LISTENING_PARTS.map(part => [part, { missed: 0, total: 0 }])
+  );
+  const byType = new Map<string, { missed: number; total: number }>();
+
+  for (const outcome of outcomes) {
+    const partCounts = byPart.get(getListeningPart(outcome.questionNumber))!;
+    partCounts.total++;
+    if (!outcome.isCorrect) partCounts.missed++;
+
+    const type = outcome.questionType || 'OTHER';
+    const typeCounts = byType.get(type) ?? { missed: 0, total: 0 };
+    typeCounts.total++;
+    if (!outcome.isCorrect) typeCounts.missed++;
+    byType.set(type, typeCounts);
+  }
+
+  return {
+    byPart: toBuckets(byPart),
+    byQuestionType: toBuckets(byType).sort((a, b) => b.missed - a.missed || b.missRate - a.missRate),
+  };
+}
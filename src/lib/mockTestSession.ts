@@ -0,0 +1,67 @@
+import { calculateOverallBand, calculateWritingBand } from './ieltsBand';
+
+export type MockTestSection = 'listening' | 'reading' | 'writing' | 'speaking';
+export type MockTestStage = MockTestSection | 'break' | 'report';
+
+/**
+ * Exam order: Listening, Reading and Writing back-to-back, then a break
+ * before Speaking (which is usually held separately on test day).
+ */
+export const MOCK_TEST_SEQUENCE: MockTestStage[] = ['listening', 'reading', 'writing', 'break', 'speaking', 'report'];
+
+export const MOCK_TEST_SECTIONS: MockTestSection[] = ['listening', 'reading', 'writing', 'speaking'];
+
+// Hand-over between back-to-back sections; it can be skipped but not paused
+export const MOCK_SECTION_TRANSITION_SECONDS = 10;
+export const MOCK_SPEAKING_BREAK_MINUTES = 10;
+
+export const MOCK_SESSION_PARAM = 'mockSession';
+
+export function isMockTestSection(stage: string): stage is MockTestSection {
+  return (MOCK_TEST_SECTIONS as string[]).includes(stage);
+}
+
+export function getNextMockStage(stage: MockTestStage): MockTestStage {
+  const index = MOCK_TEST_SEQUENCE.indexOf(stage);
+  return index === -1 ? 'report' : MOCK_TEST_SEQUENCE[Math.min(index + 1, MOCK_TEST_SEQUENCE.length - 1)];
+}
+
+export function getMockSectionPath(section: MockTestSection, testId: string, sessionId: string): string {
+  return `/${section}/test/${testId}?${MOCK_SESSION_PARAM}=${sessionId}`;
+}
+
+export type MockSectionBands = Partial<Record<MockTestSection, number | null>>;
+
+export interface MockOverallBand {
+  /** Null until at least one section has a band */
+  overallBand: number | null;
+  /** True while a section is still missing or being evaluated */
+  isProvisional: boolean;
+  missing: MockTestSection[];
+}
+
+/** Task 2 carries twice the weight of Task 1 in the Writing band */
+export function computeMockWritingBand(task1: number | null | undefined, task2: number | null | undefined): number | null {
+  return calculateWritingBand(task1, task2);
+}
+
+/**
+ * Overall band for a mock session: the mean of the four section bands,
+ * rounded with the official IELTS convention. Sections without a band yet
+ * are left out and reported as missing.
+ */
+export function computeMockOverallBand(bands: MockSectionBands): MockOverallBand {
+  const missing = MOCK_TEST_SECTIONS.filter((section) => {
+    const band = bands[section];
+    return typeof band !== 'number' || !Number.isFinite(band);
+  });
+  const scores = MOCK_TEST_SECTIONS
+    .filter((section) => !missing.includes(section))
+    .map((section) => bands[section] as number);
+
+  return {
+    overallBand: calculateOverallBand(scores),
+    isProvisional: missing.length > 0,
+    missing,
+  };
+}
@@ -0,0 +1,25 @@
+// Shared with the edge functions, which validate model output against these
+// schemas (and request a repair) before it is returned or stored.
+export {
+  GENERATED_LISTENING_SCHEMA,
+  GENERATED_READING_SCHEMA,
+  GENERATED_SPEAKING_SCHEMA,
+  GENERATED_WRITING_TASK_SCHEMA,
+  HANDWRITING_TRANSCRIPTION_SCHEMA,
+  WRITING_FULL_TEST_EVALUATION_SCHEMA,
+  buildRepairPrompt,
+  describeSchema,
+  formatIssues,
+  s,
+  speakingEvaluationSchema,
+  speakingResultSchema,
+  validateOutput,
+  writingTaskEvaluationSchema,
+} from '../../supabase/functions/_shared/outputSchemas.ts';
+
+export type {
+  ObjectSchema,
+  OutputSchema,
+  SchemaIssue,
+  ValidationResult,
+} from '../../supabase/functions/_shared/outputSchemas.ts';
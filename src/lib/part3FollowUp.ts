@@ -0,0 +1,19 @@
+// Shared with ai-speaking-session, which writes the follow-ups, and the
+// speaking evaluators, which read the saved tree from the job.
+export {
+  PART3_MOVE_LABELS,
+  PART3_TREE_VERSION,
+  applyPart3QuestionTree,
+  buildFollowUpPrompt,
+  chooseNextMove,
+  isPart3QuestionTree,
+  parseFollowUp,
+} from '../../supabase/functions/_shared/part3FollowUp.ts';
+
+export type {
+  Part3FollowUp,
+  Part3FollowUpMove,
+  Part3Move,
+  Part3QuestionTree,
+  Part3Turn,
+} from '../../supabase/functions/_shared/part3FollowUp.ts';
@@ -0,0 +1,20 @@
+// Shared with groq-speaking-evaluate, which stores the analysis on the result
+// as `pronunciation_analysis`.
+export {
+  CLARITY_REASON_LABELS,
+  PRONUNCIATION_ANALYSIS_VERSION,
+  analyzeAnswerPronunciation,
+  analyzePronunciation,
+} from '../../supabase/functions/_shared/pronunciationAnalysis.ts';
+
+export type {
+  AnalyzedWord,
+  AnswerPronunciation,
+  ClarityReason,
+  MispronouncedWord,
+  PronunciationAnalysis,
+  TimedAnswer,
+  TimedPhrase,
+  TimedWord,
+  WordClarity,
+} from '../../supabase/functions/_shared/pronunciationAnalysis.ts';
@@ -0,0 +1,20 @@
+// Shared with groq-speaking-evaluate, which scores a single re-recorded
+// question against the original answer.
+export {
+  MIN_RETRY_WORDS,
+  MODEL_SCORED_CRITERIA,
+  RETRY_CRITERION_LABELS,
+  attemptFromRow,
+  buildQuestionRetryPrompt,
+  criteriaDelta,
+  formatBandDelta,
+  parseQuestionRetryEvaluation,
+  retryOverallBand,
+} from '../../supabase/functions/_shared/questionRetry.ts';
+
+export type {
+  QuestionAttempt,
+  QuestionRetryEvaluation,
+  QuestionRetrySource,
+  RetryCriteria,
+} from '../../supabase/functions/_shared/questionRetry.ts';
@@ -6,6 +6,7 @@ export * from './types';
 export * from './browserDetection';
 export * from './pauseMetrics';
 export * from './ghostWordTracker';
+export * from './voiceActivity';
 export {
   getStoredAccent,
   setStoredAccent,
@@ -21,17 +21,47 @@ export interface PauseMetrics {
   pauseEvents: PauseEvent[];
 }
 
+// Thresholds (in milliseconds)
+export const PAUSE_THRESHOLDS = {
+  hesitation: 500,
+  pause: 1000,
+  breakdown: 2000,
+} as const;
+
+export function classifyPause(durationMs: number): PauseEvent['type'] {
+  if (durationMs >= PAUSE_THRESHOLDS.breakdown) return 'breakdown';
+  if (durationMs >= PAUSE_THRESHOLDS.pause) return 'pause';
+  return 'hesitation';
+}
+
+/**
+ * Summarise pause events, whether tracked live or found afterwards in a
+ * recording's word timings
+ */
+export function summarizePauses(pauseEvents: PauseEvent[]): PauseMetrics {
+  const totalPauseDuration = pauseEvents.reduce((sum, p) => sum + p.duration, 0);
+  return {
+    totalPauses: pauseEvents.length,
+    hesitations: pauseEvents.filter(p => p.type === 'hesitation').length,
+    noticeablePauses: pauseEvents.filter(p => p.type === 'pause').length,
+    fluencyBreakdowns: pauseEvents.filter(p => p.type === 'breakdown').length,
+    totalPauseDuration,
+    averagePauseDuration: pauseEvents.length > 0
+      ? totalPauseDuration / pauseEvents.length
+      : 0,
+    longestPause: pauseEvents.length > 0
+      ? Math.max(...pauseEvents.map(p => p.duration))
+      : 0,
+    pauseEvents: [...pauseEvents]
+  };
+}
+
 export class PauseTracker {
   private lastEventTime: number = 0;
   private pauseEvents: PauseEvent[] = [];
   private sessionStartTime: number = 0;
   private isTracking: boolean = false;
   
-  // Thresholds (in milliseconds)
-  private readonly HESITATION_THRESHOLD = 500;
-  private readonly NOTICEABLE_PAUSE_THRESHOLD = 1000;
-  private readonly BREAKDOWN_THRESHOLD = 2000;
-  
   start(): void {
     this.sessionStartTime = Date.now();
     this.lastEventTime = this.sessionStartTime;
@@ -60,12 +90,12 @@ export class PauseTracker {
     const gap = currentTime - this.lastEventTime;
     
     // Only record significant pauses
-    if (gap >= this.HESITATION_THRESHOLD) {
+    if (gap >= PAUSE_THRESHOLDS.hesitation) {
       const pauseEvent: PauseEvent = {
         startTime: this.lastEventTime,
         endTime: currentTime,
         duration: gap,
-        type: this.classifyPause(gap)
+        type: classifyPause(gap)
       };
       
       this.pauseEvents.push(pauseEvent);
@@ -74,37 +104,11 @@ export class PauseTracker {
     this.lastEventTime = currentTime;
   }
   
-  private classifyPause(duration: number): PauseEvent['type'] {
-    if (duration >= this.BREAKDOWN_THRESHOLD) return 'breakdown';
-    if (duration >= this.NOTICEABLE_PAUSE_THRESHOLD) return 'pause';
-    return 'hesitation';
-  }
-  
   /**
    * Get comprehensive pause metrics for fluency evaluation
    */
   getMetrics(): PauseMetrics {
-    const hesitations = this.pauseEvents.filter(p => p.type === 'hesitation').length;
-    const noticeablePauses = this.pauseEvents.filter(p => p.type === 'pause').length;
-    const fluencyBreakdowns = this.pauseEvents.filter(p => p.type === 'breakdown').length;
-    
-    const totalPauseDuration = this.pauseEvents.reduce((sum, p) => sum + p.duration, 0);
-    const longestPause = this.pauseEvents.length > 0 
-      ? Math.max(...this.pauseEvents.map(p => p.duration))
-      : 0;
-    
-    return {
-      totalPauses: this.pauseEvents.length,
-      hesitations,
-      noticeablePauses,
-      fluencyBreakdowns,
-      totalPauseDuration,
-      averagePauseDuration: this.pauseEvents.length > 0 
-        ? totalPauseDuration / this.pauseEvents.length 
-        : 0,
-      longestPause,
-      pauseEvents: [...this.pauseEvents]
-    };
+    return summarizePauses(this.pauseEvents);
   }
   
   /**
@@ -0,0 +1,79 @@
+/**
+ * Voice Activity Detection (All Browsers)
+ * Tells speech from silence on the live microphone level, so the examiner
+ * can react when the candidate stalls or reaches a breath
+ */
+
+export interface VoiceActivityState {
+  isSpeaking: boolean;
+  hasSpoken: boolean;
+  silenceMs: number; // Since the last voiced frame, or since start
+  speechMs: number;  // Total voiced time
+}
+
+// Thresholds
+const MIN_SPEECH_RMS = 0.015;     // Never call anything quieter speech
+const NOISE_MULTIPLIER = 3;       // Speech stands this far above the noise floor
+const HANGOVER_MS = 300;          // Bridge the gaps between syllables
+const FLOOR_FALL = 0.05;          // Floor follows quiet frames quickly...
+const FLOOR_RISE = 0.001;         // ...and loud ones slowly, so speech does not raise it
+
+export function computeRms(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+}
+
+export class VoiceActivityDetector {
+  private noiseFloor: number | null = null;
+  private isStarted: boolean = false;
+  private lastVoicedAt: number = 0;
+  private lastFrameAt: number = 0;
+  private speechMs: number = 0;
+  private hasSpoken: boolean = false;
+
+  start(now: number = Date.now()): void {
+    this.noiseFloor = null;
+    this.isStarted = true;
+    this.lastVoicedAt = now;
+    this.lastFrameAt = now;
+    this.speechMs = 0;
+    this.hasSpoken = false;
+  }
+
+  /**
+   * Feed one frame's RMS level
+   */
+  process(rms: number, now: number = Date.now()): VoiceActivityState {
+    const floor = this.noiseFloor ?? rms;
+    const voiced = rms >= Math.max(MIN_SPEECH_RMS, floor * NOISE_MULTIPLIER);
+
+    if (voiced) {
+      this.speechMs += now - this.lastFrameAt;
+      this.lastVoicedAt = now;
+      this.hasSpoken = true;
+    }
+    this.noiseFloor = floor + (rms - floor) * (rms < floor || !voiced ? FLOOR_FALL : FLOOR_RISE);
+    this.lastFrameAt = now;
+
+    return this.getState(now);
+  }
+
+  getState(now: number = Date.now()): VoiceActivityState {
+    const silenceMs = this.isStarted ? now - this.lastVoicedAt : 0;
+    return {
+      isSpeaking: this.hasSpoken && silenceMs < HANGOVER_MS,
+      hasSpoken: this.hasSpoken,
+      silenceMs,
+      speechMs: this.speechMs,
+    };
+  }
+
+  /**
+   * Restart the silence count, e.g. after the examiner has spoken
+   */
+  resetSilence(now: number = Date.now()): void {
+    this.lastVoicedAt = now;
+  }
+}
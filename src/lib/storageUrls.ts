@@ -0,0 +1,56 @@
+import { supabase } from '@/integrations/supabase/client';
+
+type ParsedStorageRef = { bucket: string; path: string };
+
+function parseSupabaseStorageObjectUrl(url: string): ParsedStorageRef | null {
+  try {
+    const u = new URL(url);
+    const markerPublic = '/storage/v1/object/public/';
+    const markerSign = '/storage/v1/object/sign/';
+    const marker = u.pathname.includes(markerPublic) ? markerPublic : u.pathname.includes(markerSign) ? markerSign : null;
+    if (!marker) return null;
+
+    const after = u.pathname.split(marker)[1];
+    if (!after) return null;
+
+    const [bucket, ...pathParts] = after.split('/').filter(Boolean);
+    const path = pathParts.join('/');
+    if (!bucket || !path) return null;
+
+    return { bucket, path: decodeURIComponent(path) };
+  } catch {
+    return null;
+  }
+}
+
+/** Playable URL for stored audio: external and public URLs as-is, private Supabase objects signed for an hour */
+export async function getSignedUrl(url: string): Promise<string> {
+  // If it's an external URL (R2, CDN, or any non-Supabase URL), use it directly
+  // This supports Cloudflare R2 and other external audio sources
+  if (!url.includes('/storage/v1/')) {
+    return url;
+  }
+
+  // If it's already a public Supabase URL, use it directly
+  if (url.includes('/storage/v1/object/public/')) {
+    return url;
+  }
+
+  // For Supabase private storage URLs, generate a signed URL
+  const storageRef = parseSupabaseStorageObjectUrl(url);
+  if (!storageRef) {
+    // Fallback: if we can't parse but it looks like Supabase, return as-is
+    return url;
+  }
+
+  // Generate a signed URL for private buckets
+  const { data, error } = await supabase.storage
+    .from(storageRef.bucket)
+    .createSignedUrl(storageRef.path, 3600);
+
+  if (error || !data?.signedUrl) {
+    throw new Error(`Failed to get signed URL: ${error?.message || 'Unknown error'}`);
+  }
+
+  return data.signedUrl;
+}
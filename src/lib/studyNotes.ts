@@ -0,0 +1,243 @@
+/**
+ * Highlights and notes kept in `study_highlights`: conversion between the
+ * in-test shape used by HighlightNoteProvider and table rows, splitting
+ * selections that cross paragraphs, and the Markdown export of the Notebook
+ * page.
+ */
+
+import type { Highlight, HighlightNoteState, Note } from '@/hooks/useHighlightNotes';
+
+/** The columns HighlightNoteProvider owns; user, test and timestamps are added on save */
+export interface StudyHighlightRow {
+  id: string;
+  content_id: string;
+  text: string;
+  color: 'yellow' | 'red';
+  start_offset: number;
+  end_offset: number;
+  note: string | null;
+}
+
+export interface StoredStudyHighlight extends StudyHighlightRow {
+  created_at: string;
+  updated_at: string;
+}
+
+/** One row per highlight, with its note (if any) folded in */
+export function toStudyHighlightRows({ highlights, notes }: HighlightNoteState): StudyHighlightRow[] {
+  const noteByHighlight = new Map(notes.map((note) => [note.highlightId, note.text]));
+  return highlights.map((h) => ({
+    id: h.id,
+    content_id: h.contentId,
+    text: h.text,
+    color: h.color,
+    start_offset: h.startOffset,
+    end_offset: h.endOffset,
+    note: noteByHighlight.get(h.id) ?? null,
+  }));
+}
+
+export function fromStudyHighlightRows(testId: string, rows: StoredStudyHighlight[]): HighlightNoteState {
+  const highlights: Highlight[] = [];
+  const notes: Note[] = [];
+  for (const row of rows) {
+    const hasNote = row.note !== null;
+    highlights.push({
+      id: row.id,
+      testId,
+      contentId: row.content_id,
+      text: row.text,
+      color: hasNote ? 'red' : row.color,
+      startOffset: row.start_offset,
+      endOffset: row.end_offset,
+      isNote: hasNote,
+    });
+    if (hasNote) {
+      notes.push({
+        id: `${row.id}-note`,
+        highlightId: row.id,
+        text: row.note!,
+        createdAt: Date.parse(row.created_at),
+        updatedAt: Date.parse(row.updated_at),
+      });
+    }
+  }
+  return { highlights, notes };
+}
+
+/**
+ * Combine what this browser has with what the server has. Server copies win
+ * for highlights both sides know about; highlights only made locally (e.g.
+ * before signing in) are kept so they get uploaded. Local highlights this
+ * browser synced before but the server no longer has were deleted elsewhere
+ * and are dropped.
+ */
+export function mergeHighlightStates(
+  local: HighlightNoteState,
+  remote: HighlightNoteState,
+  syncedIds: ReadonlySet<string> = new Set()
+): HighlightNoteState {
+  const remoteIds = new Set(remote.highlights.map((h) => h.id));
+  const localOnly = local.highlights.filter((h) => !remoteIds.has(h.id) && !syncedIds.has(h.id));
+  const localOnlyIds = new Set(localOnly.map((h) => h.id));
+  return {
+    highlights: [...remote.highlights, ...localOnly],
+    notes: [...remote.notes, ...local.notes.filter((n) => localOnlyIds.has(n.highlightId))],
+  };
+}
+
+/** Stable serialization for change detection, whatever key order the row came in */
+export function serializeStudyHighlightRow(row: StudyHighlightRow): string {
+  return JSON.stringify([row.id, row.content_id, row.text, row.color, row.start_offset, row.end_offset, row.note]);
+}
+
+/**
+ * Rows to write and ids to delete to bring the server from `synced` (id ->
+ * serialized row as last saved) to `rows`.
+ */
+export function diffStudyHighlightRows(
+  synced: Map<string, string>,
+  rows: StudyHighlightRow[]
+): { upserts: StudyHighlightRow[]; deletedIds: string[] } {
+  const current = new Set(rows.map((row) => row.id));
+  return {
+    upserts: rows.filter((row) => synced.get(row.id) !== serializeStudyHighlightRow(row)),
+    deletedIds: [...synced.keys()].filter((id) => !current.has(id)),
+  };
+}
+
+export interface HighlightedSegment<H> {
+  text: string;
+  highlight?: H;
+}
+
+/**
+ * Split plain text into runs, attaching each highlight to the run it covers.
+ * Stored offsets are tried first; if the text has shifted since, the nearest
+ * occurrence of the highlighted words is used instead.
+ */
+export function splitTextByHighlights<H extends Pick<Highlight, 'text' | 'startOffset'>>(
+  text: string,
+  highlights: H[]
+): HighlightedSegment<H>[] {
+  const ranges: { start: number; end: number; highlight: H }[] = [];
+  for (const highlight of highlights) {
+    if (!highlight.text) continue;
+    let start = text.slice(highlight.startOffset, highlight.startOffset + highlight.text.length) === highlight.text
+      ? highlight.startOffset
+      : -1;
+    if (start === -1) {
+      let best = -1;
+      for (let i = text.indexOf(highlight.text); i !== -1; i = text.indexOf(highlight.text, i + 1)) {
+        if (best === -1 || Math.abs(i - highlight.startOffset) < Math.abs(best - highlight.startOffset)) best = i;
+      }
+      start = best;
+    }
+    if (start !== -1) ranges.push({ start, end: start + highlight.text.length, highlight });
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const segments: HighlightedSegment<H>[] = [];
+  let cursor = 0;
+  for (const range of ranges) {
+    if (range.start < cursor) continue; // overlaps an earlier highlight
+    if (range.start > cursor) segments.push({ text: text.slice(cursor, range.start) });
+    segments.push({ text: text.slice(range.start, range.end), highlight: range.highlight });
+    cursor = range.end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+  return segments;
+}
+
+/** One block's share of a selection, in that block's plain-text offsets */
+export type SelectionSegment = Pick<Highlight, 'contentId' | 'text' | 'startOffset' | 'endOffset'>;
+
+/**
+ * Split a selection running across several highlightable blocks (e.g. the
+ * paragraphs of a passage) into one segment per block, in document order, so
+ * each block stores its own highlight. Blocks carry their content id in
+ * `data-highlight-content-id`; parts that are only whitespace are dropped.
+ */
+export function splitSelectionByContent(range: Range, blocks: Iterable<HTMLElement>): SelectionSegment[] {
+  const segments: SelectionSegment[] = [];
+  for (const block of blocks) {
+    const contentId = block.dataset.highlightContentId;
+    if (!contentId || !range.intersectsNode(block)) continue;
+
+    const part = document.createRange();
+    part.selectNodeContents(block);
+    if (block.contains(range.startContainer)) part.setStart(range.startContainer, range.startOffset);
+    if (block.contains(range.endContainer)) part.setEnd(range.endContainer, range.endOffset);
+
+    const raw = part.toString();
+    const text = raw.trim();
+    if (!text) continue;
+
+    const before = document.createRange();
+    before.setStart(block, 0);
+    before.setEnd(part.startContainer, part.startOffset);
+    const startOffset = before.toString().length + raw.length - raw.trimStart().length;
+    segments.push({ contentId, text, startOffset, endOffset: startOffset + text.length });
+  }
+  return segments;
+}
+
+export interface NotebookEntry {
+  id: string;
+  testType: string;
+  testTitle: string;
+  /** Where in the test the note was made, e.g. "Passage 2 · Paragraph C" */
+  location: string;
+  text: string;
+  note: string;
+  updatedAt: string;
+  href: string;
+}
+
+const TEST_TYPE_HEADINGS: Record<string, string> = {
+  reading: 'Reading',
+  listening: 'Listening',
+  writing: 'Writing',
+  speaking: 'Speaking',
+};
+
+/** Reading notes open in PassageStudy on the right passage, scrolled to the highlight */
+export function getPassageStudyPath(testId: string, passageNumber: number, highlightId: string): string {
+  return `/reading/study/${testId}?passage=${passageNumber}&highlight=${highlightId}`;
+}
+
+/** Entries grouped by module, then by test, in the order given */
+export function groupNotebookEntries(entries: NotebookEntry[]): { testType: string; tests: { title: string; entries: NotebookEntry[] }[] }[] {
+  const byType = new Map<string, Map<string, NotebookEntry[]>>();
+  for (const entry of entries) {
+    const tests = byType.get(entry.testType) ?? new Map<string, NotebookEntry[]>();
+    tests.set(entry.testTitle, [...(tests.get(entry.testTitle) ?? []), entry]);
+    byType.set(entry.testType, tests);
+  }
+  return [...byType.entries()].map(([testType, tests]) => ({
+    testType,
+    tests: [...tests.entries()].map(([title, testEntries]) => ({ title, entries: testEntries })),
+  }));
+}
+
+const quote = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n');
+
+export function notebookToMarkdown(entries: NotebookEntry[], exportedAt: Date = new Date()): string {
+  const lines = ['# IELTS Study Notebook', '', `_Exported ${exportedAt.toISOString().slice(0, 10)}_`];
+
+  for (const group of groupNotebookEntries(entries)) {
+    lines.push('', `## ${TEST_TYPE_HEADINGS[group.testType] ?? group.testType}`);
+    for (const test of group.tests) {
+      lines.push('', `### ${test.title}`);
+      for (const entry of test.entries) {
+        lines.push('', `**${entry.location}**`, '', quote(entry.text), '', entry.note);
+      }
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
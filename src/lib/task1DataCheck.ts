@@ -0,0 +1,24 @@
+// Shared with evaluate-ai-practice-writing, which verifies Task 1 claims
+// against the chart data before the report is stored.
+export {
+  CLAIM_KINDS,
+  applyDataCheck,
+  buildDataCheckInstructions,
+  dataCheckBandCap,
+  extractChartFacts,
+  readDataCheck,
+  resolveDataCheck,
+} from '../../supabase/functions/_shared/task1DataCheck.ts';
+
+export type {
+  ChartDataPoint,
+  ChartFacts,
+  ChartKeyFeature,
+  ChartSection,
+  CheckedClaim,
+  ClaimKind,
+  ClaimVerdict,
+  KeyFeatureKind,
+  Task1ChartData,
+  Task1DataCheck,
+} from '../../supabase/functions/_shared/task1DataCheck.ts';
@@ -0,0 +1,104 @@
+/**
+ * Server-side snapshots of an in-progress test, so a student can start on one
+ * device and carry on from another. Pure helpers shared by useTestSessionSync.
+ */
+
+import type { Highlight, Note } from '@/hooks/useHighlightNotes';
+
+export type TestSessionType = 'reading' | 'listening' | 'writing' | 'speaking';
+
+export interface TestSessionSnapshot {
+  answers: Record<number, string>;
+  timeLeft: number;
+  currentQuestion: number;
+  currentPassageIndex: number;
+  flaggedQuestions: number[];
+  highlights: Highlight[];
+  notes: Note[];
+}
+
+/** A snapshot as stored, with who saved it and when */
+export interface SavedTestSession extends TestSessionSnapshot {
+  id: string;
+  deviceId: string;
+  deviceLabel: string | null;
+  revision: number;
+  updatedAt: string;
+}
+
+// Snapshots are written at most this often while the test is running
+export const TEST_SESSION_AUTOSAVE_MS = 10_000;
+// A device that saved within this window is treated as still having the test open
+export const TEST_SESSION_ACTIVE_WINDOW_MS = 45_000;
+
+const DEVICE_ID_KEY = 'ieltsai-device-id';
+
+/** Stable per-browser id, so our own saves can be told apart from another device's */
+export function getDeviceId(): string {
+  try {
+    const existing = localStorage.getItem(DEVICE_ID_KEY);
+    if (existing) return existing;
+    const id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+    return id;
+  } catch {
+    return 'unknown-device';
+  }
+}
+
+/** Short human label for the restore and conflict dialogs, e.g. "Chrome on Windows" */
+export function describeDevice(userAgent: string): string {
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /Firefox\//.test(userAgent)
+      ? 'Firefox'
+      : /Chrome\//.test(userAgent)
+        ? 'Chrome'
+        : /Safari\//.test(userAgent)
+          ? 'Safari'
+          : 'Browser';
+  const os = /iPad/.test(userAgent)
+    ? 'iPad'
+    : /iPhone/.test(userAgent)
+      ? 'iPhone'
+      : /Android/.test(userAgent)
+        ? 'Android'
+        : /Mac OS X/.test(userAgent)
+          ? 'Mac'
+          : /Windows/.test(userAgent)
+            ? 'Windows'
+            : /Linux/.test(userAgent)
+              ? 'Linux'
+              : null;
+  return os ? `${browser} on ${os}` : browser;
+}
+
+/** Whether a snapshot holds anything worth offering to resume */
+export function hasResumableProgress(session: Pick<TestSessionSnapshot, 'answers' | 'highlights'>): boolean {
+  return Object.values(session.answers).some((answer) => answer?.trim()) || session.highlights.length > 0;
+}
+
+/**
+ * A session is open elsewhere when the latest save came from a different
+ * device recently enough that its timer is probably still running.
+ */
+export function isOpenOnAnotherDevice(
+  session: Pick<SavedTestSession, 'deviceId' | 'updatedAt'>,
+  deviceId: string,
+  now = Date.now()
+): boolean {
+  if (session.deviceId === deviceId) return false;
+  return now - new Date(session.updatedAt).getTime() < TEST_SESSION_ACTIVE_WINDOW_MS;
+}
+
+/**
+ * A save conflicts when the stored revision has moved past the one this
+ * device last wrote or loaded and the newer write came from somewhere else.
+ */
+export function isConflictingRevision(
+  stored: Pick<SavedTestSession, 'deviceId' | 'revision'>,
+  knownRevision: number,
+  deviceId: string
+): boolean {
+  return stored.revision > knownRevision && stored.deviceId !== deviceId;
+}
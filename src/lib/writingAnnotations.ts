@@ -0,0 +1,17 @@
+// Shared with the writing evaluators, which resolve the model's quoted errors
+// to character offsets before the report is stored.
+export {
+  ANNOTATION_CATEGORIES,
+  ANNOTATION_CATEGORY_LABELS,
+  annotationCriterionLabel,
+  buildAnnotationInstructions,
+  readWritingAnnotations,
+  resolveWritingAnnotations,
+  segmentAnnotatedText,
+} from '../../supabase/functions/_shared/writingAnnotations.ts';
+
+export type {
+  AnnotatedSegment,
+  AnnotationCategory,
+  WritingAnnotation,
+} from '../../supabase/functions/_shared/writingAnnotations.ts';
@@ -0,0 +1,321 @@
+/**
+ * Live checks for a writing draft, run in the browser as the student types
+ * in practice mode: paragraph roles (introduction, overview, body,
+ * conclusion), words leaned on too often, informal register and, for
+ * Task 1 reports, whether there is an overview sentence.
+ *
+ * Heuristics only, so the panel can update on every keystroke without a
+ * model call; the examiner's evaluation after submission is what counts.
+ */
+
+export type ParagraphRole = 'introduction' | 'overview' | 'body' | 'conclusion';
+
+export interface DraftParagraph {
+  role: ParagraphRole;
+  words: number;
+  /** The phrase that identified the role, or null when it was inferred from position */
+  signal: string | null;
+}
+
+export interface OverusedWord {
+  word: string;
+  count: number;
+  alternatives: string[];
+}
+
+export interface InformalPhrase {
+  /** First occurrence as written in the draft */
+  text: string;
+  count: number;
+  suggestion: string;
+}
+
+export interface AssistantHint {
+  id: 'no_paragraphs' | 'few_body_paragraphs' | 'no_introduction' | 'no_conclusion' | 'no_overview' | 'conclusion_in_report';
+  severity: 'warning' | 'tip';
+  message: string;
+}
+
+export interface DraftAnalysis {
+  wordCount: number;
+  paragraphs: DraftParagraph[];
+  hints: AssistantHint[];
+  overusedWords: OverusedWord[];
+  informalPhrases: InformalPhrase[];
+  /** Task 1 reports only; null when the check does not apply */
+  hasOverview: boolean | null;
+}
+
+export interface DraftContext {
+  taskNumber: 1 | 2;
+  /** General Training Task 1 */
+  isLetter?: boolean;
+}
+
+// Below this many words structure hints are noise: the student is still starting
+const MIN_WORDS_FOR_STRUCTURE = 80;
+
+// ============================================================================
+// PARAGRAPHS
+// ============================================================================
+
+const INTRODUCTION_SIGNALS: RegExp[] = [
+  /\bthe (?:given |provided )?(?:line |bar |pie )?(?:graph|chart|table|diagram|map|maps|process|figure)s? (?:shows?|illustrates?|compares?|depicts?|gives?|provides?|presents?|describes?)\b/i,
+  /\b(?:this|in this) essay\b/i,
+  /\bi am writing to\b/i,
+  /\bit is (?:often|widely|commonly) (?:argued|believed|said|thought)\b/i,
+  /\bsome people (?:believe|argue|think|claim|say)\b/i,
+  /\b(?:nowadays|in recent (?:years|decades)|these days)\b/i,
+  /\bi (?:strongly |partly |completely )?(?:agree|disagree)\b/i,
+];
+
+const OVERVIEW_SIGNALS: RegExp[] = [
+  /\b(?:overall|in general|generally speaking)\b/i,
+  /\bit is (?:clear|evident|apparent|noticeable) that\b/i,
+  /\bas (?:is )?(?:can be seen|shown|illustrated)\b/i,
+  /\bthe most (?:striking|noticeable|significant) (?:feature|trend|change)\b/i,
+];
+
+const ESSAY_CONCLUSION = /\b(?:in conclusion|to conclude|to sum up|in summary|to summari[sz]e|all in all|in short)\b/i;
+
+const CONCLUSION_SIGNALS: RegExp[] = [
+  ESSAY_CONCLUSION,
+  /\b(?:yours (?:sincerely|faithfully|truly)|best (?:wishes|regards)|kind regards)\b/i,
+  /\bi look forward to\b/i,
+];
+
+function firstSignal(text: string, signals: RegExp[]): string | null {
+  for (const signal of signals) {
+    const match = text.match(signal);
+    if (match) return match[0];
+  }
+  return null;
+}
+
+const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+// Shorter lines are salutations, sign-offs or names rather than paragraphs
+const MIN_PARAGRAPH_WORDS = 5;
+
+/** Paragraphs are separated by line breaks; blank lines between them are optional */
+export function splitParagraphs(text: string): string[] {
+  return text.split(/\n+/).map((p) => p.trim()).filter((p) => countWords(p) >= MIN_PARAGRAPH_WORDS);
+}
+
+function paragraphRole(text: string, index: number, total: number, context: DraftContext): DraftParagraph {
+  const words = countWords(text);
+  const report = context.taskNumber === 1 && !context.isLetter;
+  const isFirst = index === 0;
+  const isLast = index === total - 1 && total > 1;
+
+  const conclusion = isLast ? firstSignal(text, CONCLUSION_SIGNALS) : null;
+  if (conclusion) return { role: 'conclusion', words, signal: conclusion };
+
+  const introduction = isFirst ? firstSignal(text, INTRODUCTION_SIGNALS) : null;
+  if (introduction) return { role: 'introduction', words, signal: introduction };
+
+  if (report) {
+    // The overview usually follows the introduction, or closes the report
+    const overview = firstSignal(text, OVERVIEW_SIGNALS);
+    if (overview && !isFirst) return { role: 'overview', words, signal: overview };
+  }
+
+  if (isFirst) return { role: 'introduction', words, signal: null };
+  if (isLast && !report && total > 2) return { role: 'conclusion', words, signal: null };
+  return { role: 'body', words, signal: null };
+}
+
+/** Whether any sentence of a Task 1 report reads as an overview */
+export function hasOverviewSentence(text: string): boolean {
+  return firstSignal(text, OVERVIEW_SIGNALS) !== null;
+}
+
+function structureHints(paragraphs: DraftParagraph[], text: string, context: DraftContext, wordCount: number): AssistantHint[] {
+  const hints: AssistantHint[] = [];
+  if (wordCount < MIN_WORDS_FOR_STRUCTURE) return hints;
+
+  if (paragraphs.length === 1) {
+    hints.push({
+      id: 'no_paragraphs',
+      severity: 'warning',
+      message: 'Everything is in one paragraph. Press Enter to start a new paragraph for each main idea.',
+    });
+    return hints;
+  }
+
+  const detected = (role: ParagraphRole) => paragraphs.some((p) => p.role === role && p.signal);
+  const bodyCount = paragraphs.filter((p) => p.role === 'body').length;
+
+  if (!detected('introduction')) {
+    hints.push({
+      id: 'no_introduction',
+      severity: 'tip',
+      message: context.isLetter
+        ? 'Open with the purpose of your letter, e.g. "I am writing to…".'
+        : context.taskNumber === 1
+          ? 'Start by paraphrasing what the visual shows, e.g. "The chart compares…".'
+          : 'Your first paragraph should paraphrase the question and give your position.',
+    });
+  }
+
+  if (context.taskNumber === 2) {
+    if (bodyCount < 2) {
+      hints.push({
+        id: 'few_body_paragraphs',
+        severity: 'tip',
+        message: 'Aim for two or three body paragraphs, each built around one main idea.',
+      });
+    }
+    if (!detected('conclusion')) {
+      hints.push({
+        id: 'no_conclusion',
+        severity: 'warning',
+        message: 'No clear conclusion yet. Finish with a short paragraph starting "In conclusion," that restates your position.',
+      });
+    }
+  } else if (!context.isLetter) {
+    if (ESSAY_CONCLUSION.test(text)) {
+      hints.push({
+        id: 'conclusion_in_report',
+        severity: 'tip',
+        message: 'Task 1 reports need an overview of the main trends rather than a conclusion with opinions.',
+      });
+    }
+  }
+
+  return hints;
+}
+
+// ============================================================================
+// VOCABULARY
+// ============================================================================
+
+/** Everyday words examiners see too often, with higher-band alternatives */
+const WATCHED_WORDS: Record<string, string[]> = {
+  very: ['extremely', 'highly', 'considerably'],
+  good: ['beneficial', 'positive', 'valuable'],
+  bad: ['harmful', 'detrimental', 'negative'],
+  big: ['substantial', 'significant', 'considerable'],
+  important: ['crucial', 'essential', 'vital'],
+  thing: ['aspect', 'factor', 'issue'],
+  things: ['aspects', 'factors', 'issues'],
+  many: ['numerous', 'a large number of', 'a wide range of'],
+  increase: ['rise', 'growth', 'climb'],
+  decrease: ['fall', 'decline', 'drop'],
+  show: ['illustrate', 'indicate', 'reveal'],
+  shows: ['illustrates', 'indicates', 'reveals'],
+  help: ['assist', 'support', 'enable'],
+  problem: ['issue', 'challenge', 'difficulty'],
+  problems: ['issues', 'challenges', 'difficulties'],
+  also: ['furthermore', 'in addition', 'moreover'],
+};
+
+const WATCHED_WORD_LIMIT = 3;
+
+const STOPWORDS = new Set(
+  ('a about above after again against all am an and any are as at be because been before being below between both but by ' +
+  'can could did do does doing down during each few for from further had has have having he her here hers herself him ' +
+  'himself his how i if in into is it its itself just me more most my myself no nor not now of off on once only or other ' +
+  'our ours ourselves out over own same she should so some such than that the their theirs them themselves then there ' +
+  'these they this those through to too under until up was we were what when where which while who whom why will with ' +
+  'would you your yours yourself yourselves also may might must however therefore there\'s one two three per cent percent')
+    .split(' '),
+);
+
+/** Words repeated noticeably more than a varied answer would repeat them */
+export function findOverusedWords(text: string): OverusedWord[] {
+  const tokens = text.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) ?? [];
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+
+  // Topic words repeat naturally; only flag general repetition well above that
+  const generalLimit = Math.max(5, Math.ceil(tokens.length / 40));
+  const overused: OverusedWord[] = [];
+
+  for (const [word, count] of counts) {
+    const alternatives = WATCHED_WORDS[word];
+    if (alternatives && count >= WATCHED_WORD_LIMIT) {
+      overused.push({ word, count, alternatives });
+    } else if (!alternatives && word.length >= 4 && !STOPWORDS.has(word) && count >= generalLimit) {
+      overused.push({ word, count, alternatives: [] });
+    }
+  }
+
+  return overused.sort((a, b) => b.count - a.count || a.word.localeCompare(b.word));
+}
+
+// ============================================================================
+// REGISTER
+// ============================================================================
+
+interface RegisterRule {
+  pattern: RegExp;
+  suggestion: string;
+  /** Contractions are normal in an informal letter */
+  contraction?: boolean;
+}
+
+const REGISTER_RULES: RegisterRule[] = [
+  { pattern: /\b(?:do|does|did|is|are|was|were|have|has|had|could|would|should|ca|wo)n't\b/gi, suggestion: 'Write the full form, e.g. "do not".', contraction: true },
+  { pattern: /\b(?:i'm|it's|that's|there's|they're|we're|you're|i've|we've|they've|i'll|it'll|we'll|they'll|i'd|let's)\b/gi, suggestion: 'Write the full form, e.g. "it is".', contraction: true },
+  { pattern: /\b(?:gonna|wanna|gotta)\b/gi, suggestion: 'Use "going to", "want to" or "have to".' },
+  { pattern: /\bkids\b/gi, suggestion: 'Use "children".' },
+  { pattern: /\bstuff\b/gi, suggestion: 'Name the thing, or use "items" or "material".' },
+  { pattern: /\b(?:a lot of|lots of|tons of|loads of)\b/gi, suggestion: 'Use "a great deal of", "many" or "a large number of".' },
+  { pattern: /\b(?:guys|folks)\b/gi, suggestion: 'Use "people".' },
+  { pattern: /\b(?:ok|okay)\b/gi, suggestion: 'Use "acceptable" or "satisfactory".' },
+  { pattern: /\b(?:really|pretty|super) (?=[a-z])/gi, suggestion: 'Drop the intensifier or use "highly" or "considerably".' },
+  { pattern: /\betc\b\.?/gi, suggestion: 'Give one more example instead of "etc.".' },
+  { pattern: /(?:^|[.!?]\s+)(?:but|and|so)\b/gim, suggestion: 'Start the sentence with "However,", "In addition," or "Therefore,".' },
+  { pattern: /!/g, suggestion: 'Avoid exclamation marks in academic writing.' },
+];
+
+/** Informal words and constructions, grouped by rule */
+export function findInformalPhrases(text: string, context: DraftContext): InformalPhrase[] {
+  const phrases: InformalPhrase[] = [];
+  // Straight and curly apostrophes both count
+  const normalized = text.replace(/’/g, "'");
+
+  for (const rule of REGISTER_RULES) {
+    if (rule.contraction && context.isLetter) continue;
+    const matches = normalized.match(rule.pattern);
+    if (!matches) continue;
+    phrases.push({
+      text: matches[0].replace(/^[.!?]?\s*/, '').trim() || matches[0],
+      count: matches.length,
+      suggestion: rule.suggestion,
+    });
+  }
+
+  return phrases;
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+export function analyzeDraft(text: string, context: DraftContext): DraftAnalysis {
+  const wordCount = countWords(text);
+  const paragraphTexts = splitParagraphs(text);
+  const paragraphs = paragraphTexts.map((p, i) => paragraphRole(p, i, paragraphTexts.length, context));
+  const hints = structureHints(paragraphs, text, context, wordCount);
+
+  const isReport = context.taskNumber === 1 && !context.isLetter;
+  const hasOverview = isReport ? hasOverviewSentence(text) : null;
+  if (hasOverview === false && wordCount >= MIN_WORDS_FOR_STRUCTURE) {
+    hints.unshift({
+      id: 'no_overview',
+      severity: 'warning',
+      message: 'No overview sentence yet. Summarise the main trends or features, e.g. "Overall, …". Without one, Task Achievement is usually held at band 5.',
+    });
+  }
+
+  return {
+    wordCount,
+    paragraphs,
+    hints,
+    overusedWords: findOverusedWords(text),
+    informalPhrases: findInformalPhrases(text, context),
+    hasOverview,
+  };
+}
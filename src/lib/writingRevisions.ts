@@ -0,0 +1,22 @@
+// Shared with evaluate-writing-submission, which reviews a revision against
+// the feedback its previous version received.
+export {
+  REVISION_STATUSES,
+  SUBMISSION_REPORT_CRITERIA,
+  buildRevisionReviewSection,
+  diffStats,
+  diffWords,
+  parseRevisionReview,
+  previousFeedbackPoints,
+  revisionBands,
+  revisionChain,
+} from '../../supabase/functions/_shared/writingRevisions.ts';
+
+export type {
+  DiffPart,
+  RevisionBands,
+  RevisionNode,
+  RevisionReview,
+  RevisionReviewItem,
+  RevisionStatus,
+} from '../../supabase/functions/_shared/writingRevisions.ts';
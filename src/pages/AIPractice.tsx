@@ -20,6 +20,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { useTopicCompletions } from '@/hooks/useTopicCompletions';
 import { useSmartTopicCycle } from '@/hooks/useSmartTopicCycle';
 import { usePendingSpeakingTests } from '@/hooks/usePendingSpeakingTests';
+import { useIELTSModulePreference, IELTS_MODULE_LABELS } from '@/hooks/useIELTSModulePreference';
 import { PendingSpeakingTestBanner } from '@/components/speaking/PendingSpeakingTestBanner';
 import { supabase } from '@/integrations/supabase/client';
 import { playCompletionSound, playErrorSound } from '@/lib/sounds';
@@ -106,6 +107,14 @@ const WRITING_TASK1_VISUAL_TYPES = [
   { value: 'COMPARISON_DIAGRAM', label: 'Comparison Diagram', description: 'Comparing two items' },
 ];
 
+// Task 1 letter types for General Training
+const WRITING_TASK1_LETTER_TYPES = [
+  { value: 'RANDOM', label: 'Random', description: 'Any letter type' },
+  { value: 'LETTER_FORMAL', label: 'Formal Letter', description: 'To a company, official or someone you do not know' },
+  { value: 'LETTER_SEMI_FORMAL', label: 'Semi-formal Letter', description: 'To a neighbour, colleague or landlord' },
+  { value: 'LETTER_INFORMAL', label: 'Informal Letter', description: 'To a friend or family member' },
+];
+
 // Task 2 essay types for dropdown  
 const WRITING_TASK2_ESSAY_TYPES = [
   { value: 'RANDOM', label: 'Random', description: 'Any essay type' },
@@ -154,6 +163,7 @@ export default function AIPractice() {
   
   // Check for pending (unsubmitted) speaking tests
   const { pendingTests, discardTest, hasPendingTests } = usePendingSpeakingTests();
+  const { module: ieltsModule } = useIELTSModulePreference();
 
   // Form state
   const [activeModule, setActiveModule] = useState<PracticeModule>('reading');
@@ -169,6 +179,16 @@ export default function AIPractice() {
   const [timeMinutes, setTimeMinutes] = useState(10);
   const [audioSpeed, setAudioSpeed] = useState(1);
 
+  // General Training changes Reading passages and Writing Task 1 (letters); Listening and Speaking are shared
+  const isGeneralTraining = ieltsModule === 'general';
+  const usesModuleTrack = activeModule === 'reading' || activeModule === 'writing';
+  const task1Types = isGeneralTraining ? WRITING_TASK1_LETTER_TYPES : WRITING_TASK1_VISUAL_TYPES;
+
+  // Visual and letter types don't overlap, so reset when the module preference changes
+  useEffect(() => {
+    setWritingTask1VisualType('RANDOM');
+  }, [ieltsModule]);
+
   // Update writing time when task type changes
   useEffect(() => {
     const taskConfig = WRITING_TASK_TYPES.find(t => t.value === writingTaskType);
@@ -315,7 +335,9 @@ export default function AIPractice() {
 
     // OPTIMIZATION: Check DB cache BEFORE calling edge function (saves quota + bandwidth)
     // Now supports reading, listening, writing, and speaking modules
-    if (activeModule === 'reading' || activeModule === 'listening' || activeModule === 'speaking' || activeModule === 'writing') {
+    // Presets are Academic, so General Training reading/writing always generates fresh
+    const canUsePresets = !(isGeneralTraining && usesModuleTrack);
+    if (canUsePresets && (activeModule === 'reading' || activeModule === 'listening' || activeModule === 'speaking' || activeModule === 'writing')) {
       try {
         console.log(`[cache] Checking DB cache for pre-generated ${activeModule} test...`);
         
@@ -784,6 +806,7 @@ export default function AIPractice() {
       const readingConfig = activeModule === 'reading' ? {
         passagePreset: 'medium',
         paragraphCount: READING_PASSAGE_PARAGRAPHS,
+        testModule: ieltsModule,
       } : undefined;
 
       // Build listening-specific configuration with speaker settings
@@ -815,6 +838,7 @@ export default function AIPractice() {
         task1VisualType: writingTask1VisualType,
         task2EssayType: writingTask2EssayType,
         timeMinutes: writingTimeMinutes,
+        testModule: ieltsModule,
       } : undefined;
 
       // Use writing time for writing module
@@ -898,6 +922,7 @@ export default function AIPractice() {
         id: data.testId || crypto.randomUUID(),
         module: activeModule,
         questionType: currentQuestionType,
+        testModule: usesModuleTrack ? ieltsModule : undefined,
         difficulty,
         topic: data.topic || topicPreference || 'Random Topic',
         timeMinutes: finalTimeMinutes,
@@ -1363,8 +1388,12 @@ export default function AIPractice() {
                           onClick={() => setWritingTaskType(type.value)}
                           autoScrollOnSelect
                         >
-                          <div className="font-medium pr-6">{type.label}</div>
-                          <div className="text-sm text-muted-foreground">{type.description}</div>
+                          <div className="font-medium pr-6">
+                            {isGeneralTraining && type.value === 'TASK_1' ? 'Task 1 (Letter)' : type.label}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {isGeneralTraining && type.value === 'TASK_1' ? 'Write a formal, semi-formal or informal letter' : type.description}
+                          </div>
                           <Badge variant="secondary" className="mt-2">
                             {type.value === 'FULL_TEST' ? '400+ words' : type.value === 'TASK_1' ? '150+ words' : '250+ words'}
                           </Badge>
@@ -1381,13 +1410,13 @@ export default function AIPractice() {
                       {/* Task 1 Visual Type */}
                       {writingTaskType === 'TASK_1' && (
                         <div className="space-y-2">
-                          <Label className="text-sm text-muted-foreground">Visual Type</Label>
+                          <Label className="text-sm text-muted-foreground">{isGeneralTraining ? 'Letter Type' : 'Visual Type'}</Label>
                           <Select value={writingTask1VisualType} onValueChange={setWritingTask1VisualType}>
                             <SelectTrigger className="max-w-md">
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              {WRITING_TASK1_VISUAL_TYPES.map((type) => (
+                              {task1Types.map((type) => (
                                 <SelectItem key={type.value} value={type.value}>
                                   <div className="flex flex-col">
                                     <span>{type.label}</span>
@@ -1623,6 +1652,7 @@ export default function AIPractice() {
                   <h3 className="font-bold text-lg mb-1">Ready to Practice?</h3>
                   <p className="text-muted-foreground">
                     {questionCount} {currentQuestionType.replace(/_/g, ' ').toLowerCase()} questions • {activeModule === 'listening' ? `${Math.floor(listeningAudioDuration / 60)} min audio` : `${timeMinutes} minutes`} • {difficulty} difficulty
+                    {usesModuleTrack && ` • IELTS ${IELTS_MODULE_LABELS[ieltsModule]}`}
                   </p>
                 </div>
                 <Button 
@@ -5,6 +5,7 @@ import {
   ListeningQuestions,
   ListeningNavigation,
   ListeningTimer,
+  ListeningAnswerSheet,
 } from '@/components/listening';
 import { TestOptionsMenu, ContrastMode, TextSizeMode } from '@/components/reading/TestOptionsMenu';
 import { TestStartOverlay } from '@/components/common/TestStartOverlay';
@@ -18,6 +19,8 @@ import {
   ResizablePanelGroup,
 } from "@/components/ui/resizable";
 import { cn } from '@/lib/utils';
+import { rawScoreToBand } from '@/lib/bandConversion';
+import { explainAnswer } from '@/lib/ieltsAnswerValidation';
 
 import { HighlightNoteProvider } from '@/hooks/useHighlightNotes';
 import { NoteSidebar } from '@/components/common/NoteSidebar';
@@ -31,7 +34,6 @@ import { useNetworkStatus } from '@/hooks/useNetworkStatus';
 import { useAudioPreloader } from '@/hooks/useAudioPreloader';
 import { describeApiError, ApiErrorDescriptor } from '@/lib/apiErrors';
 import { 
-  calculateBandScoreFromPercentage,
   processMCMAGroup,
   saveFailedSubmission,
   clearFailedSubmission,
@@ -159,6 +161,8 @@ export default function AIPracticeListeningTest() {
   const playbackSpeedRef = useRef(1);
   const [audioEnded, setAudioEnded] = useState(false);
   const [reviewTimeLeft, setReviewTimeLeft] = useState(30);
+  // Exam mode: single play-through (no pause/speed), then the answer sheet instead of the review countdown
+  const [examMode, setExamMode] = useState(false);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const audioUrlRef = useRef<string | null>(null);
   const audioInitSeqRef = useRef(0);
@@ -759,8 +763,12 @@ export default function AIPracticeListeningTest() {
         const correctAnswer = q.correct_answer;
         const normUser = userAnswer.toLowerCase();
         const normCorrect = String(correctAnswer).trim().toLowerCase();
-        const isCorrect = normUser === normCorrect || 
-          normCorrect.split(';').map(a => a.trim().toLowerCase()).includes(normUser);
+        const isCorrect = examMode
+          ? normCorrect.split(';').some(alt =>
+              explainAnswer(userAnswer, alt.trim(), q.question_type, { strictSpelling: true }).accepted
+            )
+          : normUser === normCorrect ||
+            normCorrect.split(';').map(a => a.trim().toLowerCase()).includes(normUser);
         
         if (isCorrect) correctCount++;
         
@@ -787,9 +795,8 @@ export default function AIPracticeListeningTest() {
         totalQuestions += qr.maxScore || 1;
       }
 
-      // Use percentage-based band score for AI practice (official raw score tables don't apply to 7-question tests)
-      const percentage = totalQuestions > 0 ? Math.round((correctCount / totalQuestions) * 100) : 0;
-      const bandScore = calculateBandScoreFromPercentage(percentage);
+      // Short AI sets are scaled onto the official 40-question listening table
+      const bandScore = rawScoreToBand('listening', correctCount, totalQuestions);
 
       const result: PracticeResult = {
         testId: test.id,
@@ -856,6 +863,12 @@ export default function AIPracticeListeningTest() {
     }
   };
 
+  const handleSubmitRef = useRef(handleSubmit);
+
+  useEffect(() => {
+    handleSubmitRef.current = handleSubmit;
+  });
+
   // Resubmit handler
   const handleResubmit = async () => {
     setSubmissionError(null);
@@ -943,10 +956,10 @@ export default function AIPracticeListeningTest() {
 
   // 30-second review countdown after audio ends
   useEffect(() => {
-    if (!audioEnded || !testStarted) return;
+    if (!audioEnded || !testStarted || examMode) return;
     
     if (reviewTimeLeft <= 0) {
-      handleSubmit();
+      handleSubmitRef.current();
       return;
     }
 
@@ -955,7 +968,7 @@ export default function AIPracticeListeningTest() {
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [audioEnded, reviewTimeLeft, testStarted]);
+  }, [audioEnded, reviewTimeLeft, testStarted, examMode]);
 
   // Handle test start from overlay
   const handleStartTest = useCallback(() => {
@@ -1005,6 +1018,8 @@ export default function AIPracticeListeningTest() {
         difficulty={test.difficulty}
         onStart={handleStartTest}
         onCancel={() => navigate('/ai-practice')}
+        examMode={examMode}
+        onExamModeChange={setExamMode}
       />
     );
   }
@@ -1051,7 +1066,7 @@ export default function AIPracticeListeningTest() {
                   <span className="text-xs">Device Audio</span>
                 </Badge>
               )}
-              {audioEnded && (
+              {audioEnded && !examMode && (
                 <Badge variant="destructive" className="gap-1 animate-pulse">
                   Review: {reviewTimeLeft}s
                 </Badge>
@@ -1074,15 +1089,16 @@ export default function AIPracticeListeningTest() {
                     variant="outline"
                     size="sm"
                     onClick={togglePlayPause}
-                    disabled={!audioReady}
+                    disabled={!audioReady || (examMode && (isPlaying || audioEnded))}
                     className="gap-2"
                   >
                     {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
-                    {isPlaying ? 'Pause' : 'Play'}
+                    {isPlaying ? (examMode ? 'Playing' : 'Pause') : 'Play'}
                   </Button>
                   <Progress value={audioProgress} className="flex-1" />
                   
                   {/* Playback Speed Control */}
+                  {!examMode && (
                   <select
                     value={playbackSpeed}
                     onChange={(e) => handleSpeedChange(parseFloat(e.target.value))}
@@ -1095,6 +1111,7 @@ export default function AIPracticeListeningTest() {
                     <option value={1.25}>1.25x</option>
                     <option value={1.5}>1.5x</option>
                   </select>
+                  )}
                   
                   <Volume2 className="w-4 h-4 text-muted-foreground" />
                 </>
@@ -1105,8 +1122,8 @@ export default function AIPracticeListeningTest() {
               <ListeningTimer 
                 timeLeft={timeLeft} 
                 setTimeLeft={setTimeLeft} 
-                isPaused={!testStarted || isPaused}
-                onTogglePause={() => setIsPaused(!isPaused)}
+                isPaused={!testStarted || isPaused || (examMode && audioEnded)}
+                onTogglePause={examMode ? undefined : () => setIsPaused(!isPaused)}
               />
               <button 
                 className="p-2 rounded transition-colors ielts-icon-btn"
@@ -1171,8 +1188,18 @@ export default function AIPracticeListeningTest() {
             <p className="not-italic">Listen and answer questions {currentPart.start}–{currentPart.end}.</p>
           </div>
 
+          {examMode && audioEnded && (
+            <ListeningAnswerSheet
+              answers={answers}
+              onAnswerChange={handleAnswerChange}
+              onSubmit={handleSubmit}
+              totalRows={questions.reduce((max, q) => Math.max(max, q.question_number), 0) || undefined}
+              isSubmitting={isSubmitting}
+            />
+          )}
+
           {/* Main Content */}
-          <div className="flex-1 min-h-0 overflow-hidden">
+          <div className={cn("flex-1 min-h-0 overflow-hidden", examMode && audioEnded && "hidden")}>
             {/* Desktop: Full questions view */}
             <div className="hidden md:block h-full">
               <ResizablePanelGroup direction="horizontal" className="h-full">
@@ -1270,16 +1297,16 @@ export default function AIPracticeListeningTest() {
                         variant="outline"
                         size="lg"
                         onClick={togglePlayPause}
-                        disabled={!audioReady}
+                        disabled={!audioReady || (examMode && (isPlaying || audioEnded))}
                         className="gap-2"
                       >
                         {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
-                        {isPlaying ? 'Pause' : 'Play Audio'}
+                        {isPlaying ? (examMode ? 'Playing' : 'Pause') : 'Play Audio'}
                       </Button>
                       <Progress value={audioProgress} className="w-full" />
                       
                       {/* Mobile Speed Control */}
-                      <div className="flex items-center gap-2">
+                      <div className={cn("flex items-center gap-2", examMode && "hidden")}>
                         <span className="text-xs text-muted-foreground">Speed:</span>
                         <select
                           value={playbackSpeed}
@@ -1302,6 +1329,7 @@ export default function AIPracticeListeningTest() {
         </div>
 
         {/* Bottom Navigation - stays fixed */}
+        {!(examMode && audioEnded) && (
         <ListeningNavigation
           questions={questions}
           answers={answers}
@@ -1314,6 +1342,7 @@ export default function AIPracticeListeningTest() {
           onSubmit={() => setShowSubmitDialog(true)}
           questionGroups={questionGroups}
         />
+        )}
       </div>
       
       {testId && (
@@ -17,7 +17,8 @@ import {
   ResizablePanelGroup,
 } from "@/components/ui/resizable";
 import { cn } from '@/lib/utils';
-import { checkAnswer } from '@/lib/ieltsAnswerValidation';
+import { explainAnswer, parseWordLimit } from '@/lib/ieltsAnswerValidation';
+import { rawScoreToBand } from '@/lib/bandConversion';
 import { HighlightNoteProvider } from '@/hooks/useHighlightNotes';
 import { NoteSidebar } from '@/components/common/NoteSidebar';
 import { SubmitConfirmDialog } from '@/components/common/SubmitConfirmDialog';
@@ -34,7 +35,6 @@ import {
 } from '@/types/aiPractice';
 import { renderRichText } from '@/components/admin/RichTextEditor';
 import { 
-  calculateBandScoreFromPercentage,
   processMCMAGroup,
   saveFailedSubmission,
   clearFailedSubmission,
@@ -442,12 +442,15 @@ export default function AIPracticeReadingTest() {
             (oq) => oq.question_number === q.question_number
           )?.correct_answer ?? q.correct_answer;
 
-        const questionType = q.question_type || 
-          test.questionGroups?.find(g => 
-            g.questions.some(gq => gq.question_number === q.question_number)
-          )?.question_type;
+        const originalGroup = test.questionGroups?.find(g => 
+          g.questions.some(gq => gq.question_number === q.question_number)
+        );
+        const questionType = q.question_type || originalGroup?.question_type;
 
-        const isCorrect = checkAnswer(userAnswer, correctAnswer, questionType);
+        const verdict = explainAnswer(userAnswer, correctAnswer, questionType, {
+          noteWordLimit: parseWordLimit(originalGroup?.instruction),
+        });
+        const isCorrect = verdict.accepted;
         
         const originalQ = test.questionGroups?.flatMap(g => g.questions).find(
           oq => oq.question_number === q.question_number
@@ -460,6 +463,7 @@ export default function AIPracticeReadingTest() {
           isCorrect,
           explanation: originalQ?.explanation || '',
           questionType,
+          verdict,
         });
       }
 
@@ -479,10 +483,8 @@ export default function AIPracticeReadingTest() {
         }
       }
       
-      const percentage = total > 0 ? Math.round((score / total) * 100) : 0;
-      
-      // Use shared band score calculation
-      const bandScore = calculateBandScoreFromPercentage(percentage);
+      // Short AI sets are scaled onto the official 40-question reading table
+      const bandScore = rawScoreToBand('reading', score, total, test.testModule);
 
       const result: PracticeResult = {
         testId: test.id,
@@ -34,6 +34,10 @@ import {
   User,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { convertRawScore } from '@/lib/bandConversion';
+import { AnswerVerdictNote } from '@/components/common/AnswerVerdictNote';
+import { DisputeAnswerButton } from '@/components/common/DisputeAnswerButton';
+import { supportsAnswerVariants } from '@/lib/ieltsAnswerValidation';
 
 function extractOptionId(option: string): string {
   const trimmed = (option ?? '').trim();
@@ -354,6 +358,11 @@ export default function AIPracticeResults() {
   }
 
   const percentage = Math.round((result.score / result.totalQuestions) * 100);
+  // Re-derive from the current conversion table so older results read the same way
+  const bandConversion = test.module === 'reading' || test.module === 'listening'
+    ? convertRawScore({ skill: test.module, correct: result.score, total: result.totalQuestions, module: test.testModule })
+    : null;
+  const bandScore = bandConversion?.band ?? result.bandScore;
 
   return (
     <div className="min-h-screen flex flex-col bg-background overflow-y-auto">
@@ -397,10 +406,15 @@ export default function AIPracticeResults() {
 
                 {/* Band Score */}
                 <div>
-                  <Badge className={cn("text-2xl md:text-3xl font-bold px-4 py-2", getBandColor(result.bandScore))}>
-                    {result.bandScore}
+                  <Badge className={cn("text-2xl md:text-3xl font-bold px-4 py-2", getBandColor(bandScore))}>
+                    {bandScore}
                   </Badge>
                   <p className="text-sm text-muted-foreground mt-2">Est. Band</p>
+                  {bandConversion?.isPartial && (
+                    <p className="text-xs text-muted-foreground">
+                      Scaled to {bandConversion.scaledRaw}/40
+                    </p>
+                  )}
                 </div>
 
                 {/* Time */}
@@ -694,6 +708,14 @@ export default function AIPracticeResults() {
                                       {renderAnswers(qResult.correctAnswer, 'correct')}
                                     </p>
                                   </div>
+
+                                  {qResult.verdict && (
+                                    <AnswerVerdictNote
+                                      verdict={qResult.verdict}
+                                      isCorrect={qResult.isCorrect}
+                                      className="md:col-span-2"
+                                    />
+                                  )}
                                 </div>
                               );
                             })()
@@ -706,20 +728,33 @@ export default function AIPracticeResults() {
 
                           {/* AI Follow-up Chat Section */}
                           <div className="border-t pt-4">
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => toggleChat(qResult.questionNumber)}
-                              className="gap-2 mb-3"
-                            >
-                              <MessageCircle className="w-4 h-4" />
-                              {chatState.isOpen ? 'Hide' : 'Ask AI'} about this question
-                              {chatState.messages.length > 0 && (
-                                <Badge variant="secondary" className="ml-1">
-                                  {chatState.messages.length} {chatState.messages.length === 1 ? 'message' : 'messages'}
-                                </Badge>
+                            <div className="flex flex-wrap items-center gap-2 mb-3">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => toggleChat(qResult.questionNumber)}
+                                className="gap-2"
+                              >
+                                <MessageCircle className="w-4 h-4" />
+                                {chatState.isOpen ? 'Hide' : 'Ask AI'} about this question
+                                {chatState.messages.length > 0 && (
+                                  <Badge variant="secondary" className="ml-1">
+                                    {chatState.messages.length} {chatState.messages.length === 1 ? 'message' : 'messages'}
+                                  </Badge>
+                                )}
+                              </Button>
+                              {!qResult.isCorrect && !isMCMAGroup && supportsAnswerVariants(qResult.questionType) && (
+                                <DisputeAnswerButton
+                                  testSource="ai_practice"
+                                  testId={test.id}
+                                  questionNumber={qResult.questionNumber}
+                                  questionText={question?.question_text}
+                                  questionType={qResult.questionType}
+                                  userAnswer={qResult.userAnswer}
+                                  correctAnswer={qResult.correctAnswer}
+                                />
                               )}
-                            </Button>
+                            </div>
 
                             {chatState.isOpen && (
                               <div className="bg-muted/30 rounded-lg border p-3 space-y-3">
@@ -47,6 +47,7 @@ import { useFullscreenTest } from '@/hooks/useFullscreenTest';
 import { compressAudio } from '@/utils/audioCompressor';
 import { trimSilence } from '@/utils/audioSilenceTrimmer';
 import { useAdvancedSpeechAnalysis, SpeechAnalysisResult } from '@/hooks/useAdvancedSpeechAnalysis';
+import { PART3_TREE_VERSION, type Part3FollowUp, type Part3QuestionTree } from '@/lib/part3FollowUp';
 
 
 // IELTS Official Timings
@@ -60,6 +61,9 @@ const TIMING = {
 // Minimum Part 2 speaking for fluency flag
 const PART2_MIN_SPEAKING = 80;
 
+// Longest wait for an interactive Part 3 follow-up before asking the prepared question
+const PART3_FOLLOW_UP_TIMEOUT_MS = 12000;
+
 type TestPhase =
   | 'loading'
   | 'ready'
@@ -126,6 +130,14 @@ export default function AIPracticeSpeakingTest() {
   // Evaluation mode: 'basic' (text-based) or 'accuracy' (audio-based)
   // Default to 'accuracy' to match MicrophoneTest default - more reliable evaluation
   const [evaluationMode, setEvaluationMode] = useState<EvaluationMode>('accuracy');
+
+  // Interactive Part 3: follow-ups are written from the candidate's answers
+  const [adaptivePart3, setAdaptivePart3] = useState(false);
+  const adaptivePart3Ref = useRef(adaptivePart3);
+  useEffect(() => { adaptivePart3Ref.current = adaptivePart3; }, [adaptivePart3]);
+  const part3TreeRef = useRef<Part3QuestionTree | null>(null);
+  // Latest live transcript per segment, readable as soon as finalization settles
+  const answerTranscriptsRef = useRef<Record<string, string>>({});
   
   // Shared audio for presets (instructions, transitions, endings - fetched from speaking_shared_audio table)
   const [sharedAudio, setSharedAudio] = useState<Record<string, { audio_url: string | null; fallback_text: string }>>({});
@@ -681,6 +693,8 @@ export default function AIPracticeSpeakingTest() {
           durationMs: analysis.durationMs,
         });
 
+        answerTranscriptsRef.current[key] = analysis.rawTranscript;
+
         // Persist analysis immediately so submission always includes transcripts
         setSegmentAnalyses((prev) => ({
           ...prev,
@@ -1293,6 +1307,7 @@ export default function AIPracticeSpeakingTest() {
             fluencyFlag,
             cancelExisting: true,
             evaluationMode: 'basic',
+            part3QuestionTree: getPart3Tree() ?? undefined,
             transcripts: transcriptData,
           },
         });
@@ -1577,6 +1592,7 @@ export default function AIPracticeSpeakingTest() {
           // CRITICAL: ALWAYS include transcripts as fallback for accuracy mode failures
           // Text-based evaluation can proceed if audio evaluation fails repeatedly
           transcripts: Object.keys(transcriptData).length > 0 ? transcriptData : undefined,
+          part3QuestionTree: getPart3Tree() ?? undefined,
         },
       });
 
@@ -1686,10 +1702,106 @@ export default function AIPracticeSpeakingTest() {
   };
 
 
+  // The interactive Part 3 questions asked so far, with each answer's transcript
+  const getPart3Tree = (): Part3QuestionTree | null => {
+    const tree = part3TreeRef.current;
+    if (!tree) return null;
+    return {
+      ...tree,
+      turns: tree.turns.map((turn) => ({
+        ...turn,
+        answerTranscript: answerTranscriptsRef.current[`part3-q${turn.questionId}`] ?? turn.answerTranscript,
+      })),
+    };
+  };
+
+  const fetchPart3FollowUp = async (tree: Part3QuestionTree): Promise<Part3FollowUp | null> => {
+    try {
+      const request = supabase.functions.invoke('ai-speaking-session', {
+        body: { mode: 'part3_followup', difficulty: test?.difficulty, part3Tree: tree },
+      });
+      const timeout = new Promise<null>((resolve) => window.setTimeout(() => resolve(null), PART3_FOLLOW_UP_TIMEOUT_MS));
+      const response = await Promise.race([request, timeout]);
+      if (!response) throw new Error('Timed out waiting for a follow-up question');
+      if (response.error || !response.data?.followUp) {
+        throw new Error(response.error?.message || response.data?.error || 'No follow-up returned');
+      }
+      return response.data.followUp as Part3FollowUp;
+    } catch (err) {
+      console.warn('[AIPracticeSpeakingTest] Part 3 follow-up failed, asking the prepared question:', err);
+      return null;
+    }
+  };
+
+  // Ask Part 3 question qIdx. In interactive mode every question after the
+  // first is written from the previous answer and replaces the prepared one.
+  const askPart3Question = async (qIdx: number) => {
+    const part3 = speakingPartsRef.current.part3;
+    const prepared = part3?.questions?.[qIdx];
+    if (!part3 || !prepared) {
+      endTest();
+      return;
+    }
+
+    setQuestionIndex(qIdx);
+    setPhase('part3_question');
+
+    if (!adaptivePart3Ref.current) {
+      speakText(prepared.question_text, getQuestionAudioKey(3, qIdx));
+      return;
+    }
+
+    const tree = getPart3Tree() ?? {
+      version: PART3_TREE_VERSION,
+      topic: speakingPartsRef.current.part2?.cue_card_topic || test?.topic || '',
+      turns: [],
+    };
+    const parent = tree.turns[tree.turns.length - 1];
+    const followUp = parent ? await fetchPart3FollowUp(tree) : null;
+
+    // The candidate may have left while the question was being written
+    if (exitRequestedRef.current || !isMountedRef.current || phaseRef.current !== 'part3_question') return;
+
+    part3TreeRef.current = {
+      ...tree,
+      turns: [
+        ...tree.turns,
+        {
+          questionId: prepared.id,
+          questionNumber: prepared.question_number,
+          questionText: followUp?.questionText ?? prepared.question_text,
+          move: followUp?.move ?? (parent ? 'prepared' : 'opening'),
+          parentQuestionId: parent?.questionId,
+          focus: followUp?.focus,
+        },
+      ],
+    };
+
+    if (!followUp) {
+      speakText(prepared.question_text, getQuestionAudioKey(3, qIdx));
+      return;
+    }
+
+    // Swap the text in so the on-screen question and the saved segment match what was asked
+    const asked = {
+      ...part3,
+      questions: part3.questions.map((q, i) => (i === qIdx ? { ...q, question_text: followUp.questionText, audio_base64: undefined } : q)),
+    };
+    speakingPartsRef.current = { ...speakingPartsRef.current, part3: asked };
+    setTest((prev) =>
+      prev?.speakingParts
+        ? { ...prev, speakingParts: prev.speakingParts.map((p) => (p.part_number === 3 ? asked : p)) }
+        : prev
+    );
+    // No audio key: preset recordings are of the prepared question
+    speakText(followUp.questionText);
+  };
+
   const startPart3 = () => {
     setCurrentPart(3);
     setQuestionIndex(0);
     const part3 = speakingPartsRef.current.part3;
+    part3TreeRef.current = null;
     
     if (part3 && part3.questions && part3.questions.length > 0) {
       setPhase('part3_intro');
@@ -1835,9 +1947,7 @@ export default function AIPracticeSpeakingTest() {
       const nextIdx = qIdx + 1;
       
       if (part3?.questions && nextIdx < part3.questions.length) {
-        setQuestionIndex(nextIdx);
-        setPhase('part3_question');
-        speakText(part3.questions[nextIdx].question_text, getQuestionAudioKey(3, nextIdx));
+        void askPart3Question(nextIdx);
       } else {
         endTest();
       }
@@ -1900,8 +2010,7 @@ export default function AIPracticeSpeakingTest() {
       // Start first Part 3 question
       const part3 = parts.part3;
       if (part3?.questions?.[0]) {
-        setPhase('part3_question');
-        speakText(part3.questions[0].question_text, getQuestionAudioKey(3, 0));
+        void askPart3Question(0);
       } else {
         // No Part 3 questions available - end the test to avoid blank screen
         console.warn('[AIPracticeSpeakingTest] Part 3 intro complete but no questions - ending test');
@@ -2006,9 +2115,7 @@ export default function AIPracticeSpeakingTest() {
       const nextIdx = qIdx + 1;
 
       if (part3?.questions && nextIdx < part3.questions.length) {
-        setQuestionIndex(nextIdx);
-        setPhase('part3_question');
-        speakText(part3.questions[nextIdx].question_text, getQuestionAudioKey(3, nextIdx));
+        void askPart3Question(nextIdx);
       } else {
         endTest();
       }
@@ -2366,9 +2473,11 @@ export default function AIPracticeSpeakingTest() {
     return (
       <div className="min-h-screen bg-secondary flex flex-col items-center justify-center gap-4">
         <MicrophoneTest 
-          onTestComplete={(accent, evalMode) => {
+          onTestComplete={(accent, evalMode, interactivePart3) => {
             setSelectedAccent(accent);
             setEvaluationMode(evalMode);
+            setAdaptivePart3(interactivePart3);
+            adaptivePart3Ref.current = interactivePart3;
             setShowMicrophoneTest(false);
             // Enter fullscreen mode automatically
             enterFullscreen();
@@ -2378,6 +2487,8 @@ export default function AIPracticeSpeakingTest() {
           onBack={() => navigate('/ai-practice')}
           initialAccent={selectedAccent}
           initialEvaluationMode={evaluationMode}
+          showAdaptivePart3={Boolean(speakingParts.part3?.questions?.length)}
+          initialAdaptivePart3={adaptivePart3}
         />
         
         {/* State Restoration Dialog */}
@@ -15,6 +15,7 @@ import {
   PracticeResult,
   GeneratedWritingSingleTask,
   isWritingFullTest,
+  isLetterTask1Type,
 } from '@/types/aiPractice';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
@@ -28,6 +29,8 @@ import { WritingTestControls } from '@/components/writing/WritingTestControls';
 import { TestStartOverlay } from '@/components/common/TestStartOverlay';
 import { ExitTestConfirmDialog } from '@/components/common/ExitTestConfirmDialog';
 import { IELTSVisualRenderer, IELTSChartData } from '@/components/common/IELTSVisualRenderer';
+import { WritingAssistantPanel, WritingAssistantSwitch } from '@/components/writing/WritingAssistantPanel';
+import { HandwritingUploadDialog } from '@/components/writing/HandwritingUploadDialog';
 import { Clock, Send, PenTool, ChevronLeft, ChevronRight, ArrowLeft } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
@@ -55,6 +58,11 @@ export default function AIPracticeWritingTest() {
   const [phase, setPhase] = useState<TestPhase>('loading');
   const [submissionError, setSubmissionError] = useState<ApiErrorDescriptor | null>(null);
   const [isResubmitting, setIsResubmitting] = useState(false);
+  // Exam mode keeps the live writing assistant off for the whole attempt
+  const [examMode, setExamMode] = useState(false);
+  const [showAssistant, setShowAssistant] = useState(false);
+  // Uploaded pages of handwritten answers, keyed like PracticeResult.answers
+  const [scanUrls, setScanUrls] = useState<Record<number, string[]>>({});
   const startTimeRef = useRef<number>(Date.now());
 
   // Determine if this is a full test
@@ -136,12 +144,15 @@ export default function AIPracticeWritingTest() {
           task2Instruction: isFullTest ? task2?.instruction : undefined,
           task1ImageBase64: isFullTest ? task1?.image_base64 : undefined,
           task1VisualType: isFullTest ? task1?.visual_type : undefined,
+          task1ChartData: isFullTest ? task1?.chartData : undefined,
           // Single task parameters
           taskType: isFullTest ? 'full_test' : task1?.task_type,
           instruction: isFullTest ? undefined : task1?.instruction,
           imageDescription: task1?.image_description,
           imageBase64: isFullTest ? undefined : task1?.image_base64,
           visualType: isFullTest ? undefined : task1?.visual_type,
+          chartData: isFullTest ? undefined : task1?.chartData,
+          letterBulletPoints: task1?.letter_bullet_points,
         },
       });
 
@@ -162,6 +173,7 @@ export default function AIPracticeWritingTest() {
         bandScore: data?.overall_band || 5,
         completedAt: new Date().toISOString(),
         timeSpent,
+        scanUrls: Object.keys(scanUrls).length > 0 ? scanUrls : undefined,
         questionResults: [{
           questionNumber: 1,
           userAnswer: isFullTest ? `Task 1: ${submissionText1}\n\nTask 2: ${submissionText2}` : submissionText1,
@@ -269,12 +281,14 @@ export default function AIPracticeWritingTest() {
         wordLimit={isFullTest ? 400 : (task1?.word_limit_min || 150)}
         onStart={handleStartTest}
         onCancel={() => navigate('/ai-practice')}
+        examMode={examMode}
+        onExamModeChange={setExamMode}
       />
     );
   }
 
   // Format instruction text with IELTS-style formatting
-  const formatIELTSInstruction = (text: string, _taskType: 'task1' | 'task2') => {
+  const formatIELTSInstruction = (text: string, _taskType: 'task1' | 'task2', letterPoints?: string[]) => {
     // Split instruction into parts if it contains the word count requirement
     const wordCountMatch = text.match(/Write at least (\d+) words\.?/i);
     const mainInstruction = text.replace(/Write at least \d+ words\.?/i, '').trim();
@@ -302,6 +316,18 @@ export default function AIPracticeWritingTest() {
           }} 
         />
         
+        {/* General Training Task 1: the points the letter must cover */}
+        {letterPoints && letterPoints.length > 0 && (
+          <div className="text-foreground" style={{ fontSize }}>
+            <p>In your letter</p>
+            <ul className="list-disc pl-6 mt-1 space-y-1">
+              {letterPoints.map((point, idx) => (
+                <li key={idx}>{point}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Word count requirement - styled as official IELTS */}
         {wordCountMatch && (
           <p className="text-sm font-medium text-foreground border-t pt-3 mt-4">
@@ -313,7 +339,27 @@ export default function AIPracticeWritingTest() {
   };
 
   // Render single task UI with IELTS-style formatting and resizable panels
-  const renderSingleTask = (task: GeneratedWritingSingleTask, submission: string, setSubmission: (s: string) => void, wordCount: number) => {
+  const renderSingleTask = (task: GeneratedWritingSingleTask, submission: string, setSubmission: (s: string) => void, wordCount: number, answerKey: 1 | 2) => {
+    const handwriting = (
+      <HandwritingUploadDialog
+        taskNumber={task.task_type === 'task1' ? 1 : 2}
+        hasText={submission.trim().length > 0}
+        onConfirm={(text, urls) => {
+          setSubmission(text);
+          setScanUrls((prev) => ({ ...prev, [answerKey]: urls }));
+        }}
+      />
+    );
+    const assistant = !examMode && showAssistant && (
+      <WritingAssistantPanel
+        text={submission}
+        taskNumber={task.task_type === 'task1' ? 1 : 2}
+        isLetter={isLetterTask1Type(task.visual_type)}
+        onClose={() => setShowAssistant(false)}
+        className={isMobile ? 'max-h-80' : 'w-64 shrink-0'}
+      />
+    );
+
     // Mobile view: stacked layout
     if (isMobile) {
       return (
@@ -330,8 +376,8 @@ export default function AIPracticeWritingTest() {
                 </p>
               </div>
               
-              {/* Task 1: Show visual first (as in real IELTS). Always render a diagram container so failure shows a professional placeholder. */}
-              {task.task_type === 'task1' && (
+              {/* Task 1: Show visual first (as in real IELTS). Always render a diagram container so failure shows a professional placeholder. Letters (General Training) have no visual. */}
+              {task.task_type === 'task1' && !isLetterTask1Type(task.visual_type) && (
                 <div className="flex justify-center py-4 border rounded-lg bg-muted/20">
                   {task.chartData ? (
                     <IELTSVisualRenderer
@@ -352,7 +398,7 @@ export default function AIPracticeWritingTest() {
               )}
               
               {/* Instruction with IELTS formatting */}
-              {formatIELTSInstruction(task.instruction, task.task_type as 'task1' | 'task2')}
+              {formatIELTSInstruction(task.instruction, task.task_type as 'task1' | 'task2', task.letter_bullet_points)}
             </CardContent>
           </Card>
 
@@ -367,6 +413,7 @@ export default function AIPracticeWritingTest() {
                     ✓ Min {task.word_limit_min}
                   </Badge>
                 )}
+                {handwriting}
               </div>
               <Textarea 
                 value={submission} 
@@ -377,6 +424,8 @@ export default function AIPracticeWritingTest() {
               />
             </CardContent>
           </Card>
+
+          {assistant}
         </div>
       );
     }
@@ -399,8 +448,8 @@ export default function AIPracticeWritingTest() {
               </p>
             </div>
             
-            {/* Task 1: Show visual first (as in real IELTS). Always render a diagram container so failure shows a professional placeholder. */}
-            {task.task_type === 'task1' && (
+            {/* Task 1: Show visual first (as in real IELTS). Always render a diagram container so failure shows a professional placeholder. Letters (General Training) have no visual. */}
+            {task.task_type === 'task1' && !isLetterTask1Type(task.visual_type) && (
               <div className="flex justify-center py-4 border rounded-lg bg-muted/20">
                 {task.chartData ? (
                   <IELTSVisualRenderer
@@ -421,7 +470,7 @@ export default function AIPracticeWritingTest() {
             )}
             
             {/* Instruction with IELTS formatting */}
-            {formatIELTSInstruction(task.instruction, task.task_type as 'task1' | 'task2')}
+            {formatIELTSInstruction(task.instruction, task.task_type as 'task1' | 'task2', task.letter_bullet_points)}
           </div>
         </ResizablePanel>
 
@@ -433,19 +482,25 @@ export default function AIPracticeWritingTest() {
               <Badge variant="secondary" className="text-sm px-3 py-1">
                 Word Count: {wordCount}
               </Badge>
-              {wordCount >= task.word_limit_min && (
-                <Badge variant="default" className="bg-success text-success-foreground">
-                  ✓ Minimum {task.word_limit_min} words met
-                </Badge>
-              )}
+              <div className="flex items-center gap-2">
+                {wordCount >= task.word_limit_min && (
+                  <Badge variant="default" className="bg-success text-success-foreground">
+                    ✓ Minimum {task.word_limit_min} words met
+                  </Badge>
+                )}
+                {handwriting}
+              </div>
+            </div>
+            <div className="flex-1 flex gap-3 min-h-0">
+              <Textarea 
+                value={submission} 
+                onChange={(e) => setSubmission(e.target.value)} 
+                placeholder="Start writing your response here..." 
+                className="flex-1 min-h-[400px] resize-none font-serif leading-relaxed"
+                style={{ fontSize }}
+              />
+              {assistant}
             </div>
-            <Textarea 
-              value={submission} 
-              onChange={(e) => setSubmission(e.target.value)} 
-              placeholder="Start writing your response here..." 
-              className="flex-1 min-h-[400px] resize-none font-serif leading-relaxed"
-              style={{ fontSize }}
-            />
           </div>
         </ResizablePanel>
       </ResizablePanelGroup>
@@ -510,6 +565,9 @@ export default function AIPracticeWritingTest() {
               setCustomTime={() => {}}
               onTimeChange={handleTimeChange}
             />
+            {!examMode && (
+              <WritingAssistantSwitch checked={showAssistant} onCheckedChange={setShowAssistant} />
+            )}
             <Button onClick={handleSubmit} className="gap-2"><Send className="w-4 h-4" /><span className="hidden sm:inline">Submit</span></Button>
           </div>
         </div>
@@ -531,11 +589,11 @@ export default function AIPracticeWritingTest() {
               </TabsList>
 
               <TabsContent value="task1" className="mt-4">
-                {renderSingleTask(task1, submissionText1, setSubmissionText1, wordCount1)}
+                {renderSingleTask(task1, submissionText1, setSubmissionText1, wordCount1, 1)}
               </TabsContent>
 
               <TabsContent value="task2" className="mt-4">
-                {renderSingleTask(task2, submissionText2, setSubmissionText2, wordCount2)}
+                {renderSingleTask(task2, submissionText2, setSubmissionText2, wordCount2, 2)}
               </TabsContent>
             </Tabs>
 
@@ -562,7 +620,7 @@ export default function AIPracticeWritingTest() {
             </div>
           </div>
         ) : task1 ? (
-          renderSingleTask(task1, submissionText1, setSubmissionText1, wordCount1)
+          renderSingleTask(task1, submissionText1, setSubmissionText1, wordCount1, 1)
         ) : null}
       </div>
     </div>
@@ -35,6 +35,15 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { computeSpeakingOverallBandFromCriteria } from '@/lib/ieltsBand';
+import type { PronunciationAnalysis } from '@/lib/pronunciationAnalysis';
+import type { GeneratedTest } from '@/types/aiPractice';
+import { PronunciationAnalysisCard, WordTimedTranscript } from '@/components/speaking/WordTimedTranscript';
+import { FluencyTimeline } from '@/components/speaking/FluencyTimeline';
+import { Part3DiscussionCard } from '@/components/speaking/Part3DiscussionCard';
+import { AnswerUpgradesCard } from '@/components/speaking/AnswerUpgradesCard';
+import { QuestionRetryDialog } from '@/components/speaking/QuestionRetryDialog';
+import { isAnswerUpgradesRecord, type AnswerUpgradesRecord } from '@/lib/answerUpgrade';
+import { applyPart3QuestionTree, isPart3QuestionTree, type Part3QuestionTree } from '@/lib/part3FollowUp';
 
 interface CriterionScore {
   score: number;
@@ -125,6 +134,8 @@ interface EvaluationReport {
   examiner_notes: string;
   summary?: string;
   modelAnswers?: ModelAnswer[];
+  pronunciation_analysis?: PronunciationAnalysis;
+  answer_upgrades?: AnswerUpgradesRecord; // Optional follow-up stage of the evaluation
 }
 
 interface SpeakingResult {
@@ -138,6 +149,7 @@ interface SpeakingResult {
     by_question?: Record<number, TranscriptEntry[]>;
   };
   has_text_based_transcripts?: boolean; // True if evaluation was from browser transcripts
+  part3_question_tree?: Part3QuestionTree; // Interactive Part 3 questions as asked
   created_at: string;
 }
 
@@ -297,6 +309,8 @@ function normalizeEvaluationReport(raw: any): EvaluationReport {
     strengths_to_maintain: strengthsToMaintain,
     examiner_notes: String(raw?.examiner_notes ?? raw?.summary ?? ''),
     modelAnswers,
+    pronunciation_analysis: Array.isArray(raw?.pronunciation_analysis?.answers) ? raw.pronunciation_analysis : undefined,
+    answer_upgrades: isAnswerUpgradesRecord(raw?.answer_upgrades) ? raw.answer_upgrades : undefined,
   };
 }
 
@@ -450,8 +464,7 @@ export default function AISpeakingResults() {
 
     const report = normalizeEvaluationReport(data.question_results);
 
-    // Compute overall band using IELTS rounding rules from the 4 criteria.
-    // This fixes cases like 5.5, 6.0, 5.5, 6.0 -> avg 5.75 -> 6.0.
+    // Overall band from the 4 criteria, using the shared IELTS rounding rules.
     const computedOverallBand = computeSpeakingOverallBandFromCriteria({
       fluency: report.fluency_coherence.score,
       lexical: report.lexical_resource.score,
@@ -491,10 +504,18 @@ export default function AISpeakingResults() {
       Object.keys((data.answers as any).transcripts).length > 0
     );
 
-    // Prefer computed value for display; keep stored band_score as fallback.
-    const overallBandToShow = computedOverallBand || data.band_score || report.overall_band || 0;
+    // Show the band that was stored for the attempt; the criteria average is
+    // only a fallback for results saved without one.
+    const overallBandToShow = data.band_score || report.overall_band || computedOverallBand || 0;
     report.overall_band = overallBandToShow;
 
+    // Interactive Part 3 replaced the prepared questions with follow-ups
+    const part3Tree = (data.answers as { part3_question_tree?: unknown } | null)?.part3_question_tree;
+    const part3QuestionTree = isPart3QuestionTree(part3Tree) ? part3Tree : undefined;
+    if (part3QuestionTree && testRow?.payload) {
+      setTestPayload(applyPart3QuestionTree(testRow.payload as unknown as GeneratedTest, part3QuestionTree));
+    }
+
     setResult({
       id: data.id,
       test_id: data.test_id,
@@ -506,6 +527,7 @@ export default function AISpeakingResults() {
         by_question: transcriptsByQuestion,
       },
       has_text_based_transcripts: hasTextBasedTranscripts,
+      part3_question_tree: part3QuestionTree,
       created_at: data.completed_at,
     });
     setLoading(false);
@@ -888,7 +910,16 @@ export default function AISpeakingResults() {
             </TabsContent>
 
             {/* REVIEW TAB: Merged Transcript + Model (Your Response + Better Version) */}
-            <TabsContent value="review" className="mt-4 md:mt-6">
+            <TabsContent value="review" className="mt-4 md:mt-6 space-y-6">
+              {report.pronunciation_analysis && (
+                <PronunciationAnalysisCard
+                  analysis={report.pronunciation_analysis}
+                  audioUrls={result.audio_urls || {}}
+                />
+              )}
+
+              {result.part3_question_tree && <Part3DiscussionCard tree={result.part3_question_tree} />}
+
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
@@ -904,6 +935,7 @@ export default function AISpeakingResults() {
                     // Build a unified list of all questions with audio, transcripts, and model answers
                     const allAudioUrls = Object.entries(result.audio_urls || {});
                     const modelAnswers = report.modelAnswers || [];
+                    const timedAnswers = report.pronunciation_analysis?.answers || [];
                     
                     // Group by part number based on segment key patterns
                     const questionsByPart: Map<number, Array<{
@@ -1040,7 +1072,16 @@ export default function AISpeakingResults() {
                                   <Badge variant="secondary" className="text-xs shrink-0">
                                     Q{q.questionNumber}
                                   </Badge>
-                                  <p className="text-sm font-medium">{q.questionText}</p>
+                                  <p className="text-sm font-medium flex-1">{q.questionText}</p>
+                                  <QuestionRetryDialog
+                                    source={{
+                                      resultId: result.id,
+                                      segmentKey: q.key,
+                                      partNumber: partNum,
+                                      questionNumber: q.questionNumber,
+                                      questionText: q.questionText,
+                                    }}
+                                  />
                                 </div>
                                 
                                 {/* Audio Player - only show if audio URL exists */}
@@ -1063,20 +1104,39 @@ export default function AISpeakingResults() {
                                 )}
                                 
                                 {/* Transcript / Your Response */}
-                                <div className="pl-3 border-l-2 border-muted">
-                                  <p className="text-xs text-muted-foreground mb-1">
-                                    {q.audioUrl ? 'Your Transcript:' : 'Your Response:'}
-                                  </p>
-                                  <p className="text-sm text-muted-foreground whitespace-pre-line">
-                                    {q.transcript || (
-                                      <span className="italic text-muted-foreground/70">
-                                        {q.audioUrl 
-                                          ? '(Transcript unavailable - listen to the recording above)'
-                                          : '(Response not available)'}
-                                      </span>
-                                    )}
-                                  </p>
-                                </div>
+                                {(() => {
+                                  const timed = timedAnswers.find(
+                                    (a) => a.segmentKey.toLowerCase() === q.key.toLowerCase() && a.words.length > 0
+                                  );
+                                  return (
+                                    <div className="pl-3 border-l-2 border-muted">
+                                      <p className="text-xs text-muted-foreground mb-1">
+                                        {q.audioUrl ? 'Your Transcript:' : 'Your Response:'}
+                                      </p>
+                                      {timed ? (
+                                        <WordTimedTranscript answer={timed} audioUrl={q.audioUrl} />
+                                      ) : (
+                                        <p className="text-sm text-muted-foreground whitespace-pre-line">
+                                          {q.transcript || (
+                                            <span className="italic text-muted-foreground/70">
+                                              {q.audioUrl 
+                                                ? '(Transcript unavailable - listen to the recording above)'
+                                                : '(Response not available)'}
+                                            </span>
+                                          )}
+                                        </p>
+                                      )}
+                                      {(q.audioUrl || timed) && (
+                                        <FluencyTimeline
+                                          audioUrl={q.audioUrl}
+                                          words={timed?.words}
+                                          transcript={q.transcript}
+                                          className="mt-3"
+                                        />
+                                      )}
+                                    </div>
+                                  );
+                                })()}
                                 
                                 {/* Better Version (Model Answer) */}
                                 {q.modelAnswer?.modelAnswer && (
@@ -1104,6 +1164,18 @@ export default function AISpeakingResults() {
                   </p>
                 </CardContent>
               </Card>
+
+              <AnswerUpgradesCard
+                resultId={result.id}
+                record={report.answer_upgrades}
+                onGenerated={(record) =>
+                  setResult((prev) =>
+                    prev?.evaluation_report
+                      ? { ...prev, evaluation_report: { ...prev.evaluation_report, answer_upgrades: record } }
+                      : prev
+                  )
+                }
+              />
             </TabsContent>
 
             {/* Lexical Upgrades Table */}
@@ -11,6 +11,10 @@ import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { IELTSVisualRenderer, IELTSChartData } from '@/components/common/IELTSVisualRenderer';
+import { AnnotatedEssay } from '@/components/writing/AnnotatedEssay';
+import { Task1DataCheckCard } from '@/components/writing/Task1DataCheckCard';
+import { readWritingAnnotations, type WritingAnnotation } from '@/lib/writingAnnotations';
+import { readDataCheck, type Task1DataCheck } from '@/lib/task1DataCheck';
 import {
   RotateCcw,
   Home,
@@ -46,6 +50,9 @@ interface TaskEvaluation {
   key_strengths: string[];
   priority_improvements: string[];
   model_paragraph?: string;
+  annotations: WritingAnnotation[];
+  /** Task 1 claims checked against the chart data, when it was known */
+  data_check: Task1DataCheck | null;
 }
 
 interface WritingEvaluationReport {
@@ -73,6 +80,8 @@ interface WritingResult {
   task1_image_base64?: string;
   task1_chart_data?: object; // JSON chart data for Task 1 visual
   task1_visual_type?: string;
+  /** Uploaded pages of a handwritten answer, by task number */
+  scan_urls?: Record<number, string[]>;
   created_at: string;
 }
 
@@ -112,6 +121,8 @@ function normalizeEvaluationReport(raw: any): WritingEvaluationReport {
       key_strengths: asArray<string>(t.key_strengths),
       priority_improvements: asArray<string>(t.priority_improvements),
       model_paragraph: t.model_paragraph,
+      annotations: readWritingAnnotations(t.annotations),
+      data_check: readDataCheck(t.data_check),
     };
   };
 
@@ -202,6 +213,7 @@ export default function AIWritingResults() {
         task1_image_base64: task1ImageBase64,
         task1_chart_data: task1ChartData,
         task1_visual_type: task1VisualType,
+        scan_urls: (data.scan_urls ?? undefined) as Record<number, string[]> | undefined,
         created_at: data.completed_at,
       });
       setLoading(false);
@@ -341,7 +353,7 @@ export default function AIWritingResults() {
     );
   };
 
-  const renderTaskEvaluation = (taskEval: TaskEvaluation | undefined, taskNumber: 1 | 2, taskBand?: number) => {
+  const renderTaskEvaluation = (taskEval: TaskEvaluation | undefined, taskNumber: 1 | 2, taskBand?: number, essayText?: string) => {
     if (!taskEval) return null;
     const isTask1 = taskNumber === 1;
     const criteria = getCriteria(taskEval, isTask1);
@@ -390,6 +402,38 @@ export default function AIWritingResults() {
           </Card>
         )}
 
+        {isTask1 && taskEval.data_check && <Task1DataCheckCard check={taskEval.data_check} />}
+
+        {/* Marked-up response */}
+        {essayText && (
+          <Card className="mb-4">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <FileText className="w-4 h-4" />
+                Your Response
+                {taskEval.annotations.length > 0 && (
+                  <Badge variant="secondary" className="ml-auto text-xs font-normal">
+                    {taskEval.annotations.length} marked {taskEval.annotations.length === 1 ? 'error' : 'errors'}
+                  </Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AnnotatedEssay text={essayText} annotations={taskEval.annotations} taskNumber={taskNumber} />
+              {(result.scan_urls?.[taskNumber]?.length ?? 0) > 0 && (
+                <p className="text-xs text-muted-foreground flex flex-wrap items-center gap-2 mt-3">
+                  Handwritten original:
+                  {result.scan_urls![taskNumber].map((url, i) => (
+                    <a key={url} href={url} target="_blank" rel="noreferrer" className="text-primary underline">
+                      Page {i + 1}
+                    </a>
+                  ))}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Criteria Breakdown */}
         {criteria.map(c => renderCriteriaCard(c))}
 
@@ -527,11 +571,11 @@ export default function AIWritingResults() {
               </TabsList>
 
               <TabsContent value="task1" className="mt-6">
-                {renderTaskEvaluation(report?.task1_evaluation, 1, report?.task1_band)}
+                {renderTaskEvaluation(report?.task1_evaluation, 1, report?.task1_band, result.task1_text)}
               </TabsContent>
 
               <TabsContent value="task2" className="mt-6">
-                {renderTaskEvaluation(report?.task2_evaluation, 2, report?.task2_band)}
+                {renderTaskEvaluation(report?.task2_evaluation, 2, report?.task2_band, result.task2_text)}
               </TabsContent>
 
               <TabsContent value="combined" className="mt-6 space-y-4">
@@ -600,7 +644,7 @@ export default function AIWritingResults() {
           ) : (
             // Single task evaluation
             <div className="mb-6">
-              {renderTaskEvaluation(singleTaskEval, 1)}
+              {renderTaskEvaluation(singleTaskEval, 1, undefined, result.task1_text)}
             </div>
           )}
 
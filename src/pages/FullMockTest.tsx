@@ -6,6 +6,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
 import { 
   BookOpen, 
   Clock, 
@@ -15,9 +17,13 @@ import {
   PenLine, 
   Mic,
   Play,
-  Brain
+  Brain,
+  Timer,
+  Loader2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { toTestModule } from '@/lib/bandConversion';
+import type { Tables } from '@/integrations/supabase/types';
 
 interface CambridgeBook {
   name: string;
@@ -29,16 +35,46 @@ interface CambridgeBook {
   };
 }
 
+interface MockTestSelection {
+  reading?: Tables<'reading_tests'>;
+  listening?: Tables<'listening_tests'>;
+  writing?: Tables<'writing_tests'>;
+  speaking?: Tables<'speaking_tests'>;
+}
+
 export default function FullMockTest() {
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [books, setBooks] = useState<Record<string, CambridgeBook>>({});
   const [selectedBook, setSelectedBook] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [activeSession, setActiveSession] = useState<Tables<'mock_test_sessions'> | null>(null);
+  const [startingTestNumber, setStartingTestNumber] = useState<number | null>(null);
 
   useEffect(() => {
     fetchAllTests();
   }, []);
 
+  useEffect(() => {
+    if (!user) {
+      setActiveSession(null);
+      return;
+    }
+
+    supabase
+      .from('mock_test_sessions')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('status', 'in_progress')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching mock test session:', error);
+        setActiveSession(data ?? null);
+      });
+  }, [user]);
+
   const fetchAllTests = async () => {
     try {
       // Fetch all test types
@@ -132,6 +168,38 @@ export default function FullMockTest() {
     }
   };
 
+  const startMockTest = async (testNumber: number, tests: MockTestSelection) => {
+    if (!user) {
+      navigate(`/auth?returnTo=${encodeURIComponent('/full-mock-test')}`);
+      return;
+    }
+
+    setStartingTestNumber(testNumber);
+    try {
+      const { data, error } = await supabase
+        .from('mock_test_sessions')
+        .insert({
+          user_id: user.id,
+          book_name: selectedBook!,
+          test_number: testNumber,
+          test_module: toTestModule(tests.reading?.test_type),
+          listening_test_id: tests.listening?.id ?? null,
+          reading_test_id: tests.reading?.id ?? null,
+          writing_test_id: tests.writing?.id ?? null,
+          speaking_test_id: tests.speaking?.id ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      navigate(`/full-mock-test/session/${data.id}`);
+    } catch (error) {
+      console.error('Error starting mock test:', error);
+      toast.error('Failed to start the mock test');
+      setStartingTestNumber(null);
+    }
+  };
+
   // Sort books by Cambridge number
   const sortedBookNames = Object.keys(books).sort((a, b) => {
     const numA = parseInt(a.match(/\d+/)?.[0] || '0');
@@ -177,6 +245,26 @@ export default function FullMockTest() {
           </p>
         </div>
 
+        {activeSession && (
+          <Card className="mb-8 border-primary/50">
+            <CardContent className="p-4 flex flex-col sm:flex-row items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <Timer className="w-6 h-6 text-primary" />
+                <div>
+                  <p className="font-medium">Mock test in progress</p>
+                  <p className="text-sm text-muted-foreground">
+                    {activeSession.book_name} • Test {activeSession.test_number}
+                  </p>
+                </div>
+              </div>
+              <Button onClick={() => navigate(`/full-mock-test/session/${activeSession.id}`)} className="gap-2">
+                <Play className="w-4 h-4" />
+                Resume
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {!selectedBook ? (
           /* Book Selection Grid */
           <>
@@ -296,6 +384,23 @@ export default function FullMockTest() {
                       </CardTitle>
                     </CardHeader>
                     <CardContent className="p-6">
+                      {readingTest && listeningTest && (
+                        <Button
+                          className="w-full mb-4 gap-2"
+                          onClick={() => startMockTest(testNumber, {
+                            reading: readingTest,
+                            listening: listeningTest,
+                            writing: writingTest,
+                            speaking: speakingTest,
+                          })}
+                          disabled={startingTestNumber !== null}
+                        >
+                          {startingTestNumber === testNumber
+                            ? <Loader2 className="w-4 h-4 animate-spin" />
+                            : <Timer className="w-4 h-4" />}
+                          Start Timed Mock Exam
+                        </Button>
+                      )}
                       <div className="space-y-3">
                         {/* Reading */}
                         {readingTest && (
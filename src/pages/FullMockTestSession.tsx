@@ -0,0 +1,483 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Navbar } from '@/components/Navbar';
+import { Footer } from '@/components/Footer';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import {
+  BookText,
+  Headphones,
+  PenLine,
+  Mic,
+  Coffee,
+  Clock,
+  Play,
+  Loader2,
+  RefreshCw,
+  Trophy,
+  ChevronRight,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import {
+  MOCK_SECTION_TRANSITION_SECONDS,
+  MOCK_SPEAKING_BREAK_MINUTES,
+  MOCK_TEST_SECTIONS,
+  computeMockOverallBand,
+  computeMockWritingBand,
+  getMockSectionPath,
+  getNextMockStage,
+  isMockTestSection,
+  type MockSectionBands,
+  type MockTestSection,
+  type MockTestStage,
+} from '@/lib/mockTestSession';
+
+type MockTestSession = Tables<'mock_test_sessions'>;
+
+const SECTION_INFO: Record<MockTestSection, { label: string; duration: string; icon: typeof BookText; color: string }> = {
+  listening: { label: 'Listening', duration: '30 mins + 10 mins transfer', icon: Headphones, color: 'text-amber-500 bg-amber-500/10' },
+  reading: { label: 'Reading', duration: '60 mins', icon: BookText, color: 'text-blue-500 bg-blue-500/10' },
+  writing: { label: 'Writing', duration: '60 mins • 2 tasks', icon: PenLine, color: 'text-emerald-500 bg-emerald-500/10' },
+  speaking: { label: 'Speaking', duration: '11-14 mins • 3 parts', icon: Mic, color: 'text-purple-500 bg-purple-500/10' },
+};
+
+const getSectionTestId = (session: MockTestSession, section: MockTestSection) => {
+  switch (section) {
+    case 'listening': return session.listening_test_id;
+    case 'reading': return session.reading_test_id;
+    case 'writing': return session.writing_test_id;
+    case 'speaking': return session.speaking_test_id;
+  }
+};
+
+export default function FullMockTestSession() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+
+  const [session, setSession] = useState<MockTestSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [secondsLeft, setSecondsLeft] = useState(MOCK_SECTION_TRANSITION_SECONDS);
+  const [isLaunching, setIsLaunching] = useState(false);
+
+  const stage = (session?.current_section ?? 'listening') as MockTestStage;
+
+  const loadSession = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      const { data, error } = await supabase
+        .from('mock_test_sessions')
+        .select('*')
+        .eq('id', sessionId)
+        .single();
+
+      if (error) throw error;
+      setSession(data);
+    } catch (error) {
+      console.error('Error loading mock test session:', error);
+      toast.error('Mock test session not found');
+      navigate('/full-mock-test');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, navigate]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      navigate(`/auth?returnTo=${encodeURIComponent(`/full-mock-test/session/${sessionId}`)}`);
+      return;
+    }
+    loadSession();
+  }, [authLoading, user, sessionId, loadSession, navigate]);
+
+  const moveToStage = useCallback(async (next: MockTestStage) => {
+    if (!session) return;
+    const { data, error } = await supabase
+      .from('mock_test_sessions')
+      .update({ current_section: next })
+      .eq('id', session.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating mock test session:', error);
+      toast.error('Failed to update mock test session');
+      return;
+    }
+    setSession(data);
+  }, [session]);
+
+  const launchSection = useCallback(async (section: MockTestSection) => {
+    if (!session || isLaunching) return;
+    const testId = getSectionTestId(session, section);
+    if (!testId) return;
+
+    setIsLaunching(true);
+    const timings = (session.section_timings ?? {}) as Record<string, Record<string, string>>;
+    const { error } = await supabase
+      .from('mock_test_sessions')
+      .update({
+        section_timings: {
+          ...timings,
+          [section]: { ...timings[section], started_at: new Date().toISOString() },
+        } as Json,
+      })
+      .eq('id', session.id);
+
+    if (error) console.error('Error recording section start:', error);
+    navigate(getMockSectionPath(section, testId, session.id), { replace: true });
+  }, [session, isLaunching, navigate]);
+
+  // Skip sections this book doesn't have (e.g. no speaking test published yet)
+  useEffect(() => {
+    if (!session || !isMockTestSection(stage)) return;
+    if (!getSectionTestId(session, stage)) {
+      moveToStage(getNextMockStage(stage));
+    }
+  }, [session, stage, moveToStage]);
+
+  // No pausing between sections: the next one starts when the countdown ends
+  const activeSessionId = session?.id;
+  useEffect(() => {
+    if (!activeSessionId || !isMockTestSection(stage)) return;
+    setSecondsLeft(MOCK_SECTION_TRANSITION_SECONDS);
+    const timer = setInterval(() => {
+      setSecondsLeft(prev => Math.max(0, prev - 1));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [activeSessionId, stage]);
+
+  useEffect(() => {
+    if (secondsLeft === 0 && isMockTestSection(stage)) {
+      launchSection(stage);
+    }
+  }, [secondsLeft, stage, launchSection]);
+
+  if (loading || authLoading || !session) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const completedSections = MOCK_TEST_SECTIONS.filter(section => {
+    const timings = (session.section_timings ?? {}) as Record<string, Record<string, string>>;
+    return !!timings[section]?.submitted_at;
+  }).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-accent/5 flex flex-col">
+      <Navbar />
+
+      <main className="flex-1 container mx-auto px-4 py-8 max-w-3xl">
+        <div className="mb-8">
+          <p className="text-sm text-muted-foreground">
+            {session.book_name} • Test {session.test_number}
+            {session.test_module === 'general' ? ' • General Training' : ' • Academic'}
+          </p>
+          <h1 className="text-3xl font-bold">Full Mock Test</h1>
+          <Progress value={(completedSections / MOCK_TEST_SECTIONS.length) * 100} className="mt-4 h-2" />
+        </div>
+
+        {isMockTestSection(stage) && (
+          <SectionTransition
+            section={stage}
+            sectionNumber={MOCK_TEST_SECTIONS.indexOf(stage) + 1}
+            secondsLeft={secondsLeft}
+            isLaunching={isLaunching}
+            onStart={() => launchSection(stage)}
+          />
+        )}
+
+        {stage === 'break' && (
+          <SpeakingBreak
+            hasSpeaking={!!session.speaking_test_id}
+            onStartSpeaking={() => moveToStage('speaking')}
+            onSkipSpeaking={() => moveToStage('report')}
+          />
+        )}
+
+        {stage === 'report' && (
+          <MockTestReport session={session} onSessionUpdated={setSession} />
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
+
+interface SectionTransitionProps {
+  section: MockTestSection;
+  sectionNumber: number;
+  secondsLeft: number;
+  isLaunching: boolean;
+  onStart: () => void;
+}
+
+function SectionTransition({ section, sectionNumber, secondsLeft, isLaunching, onStart }: SectionTransitionProps) {
+  const info = SECTION_INFO[section];
+  const Icon = info.icon;
+
+  return (
+    <Card className="text-center">
+      <CardHeader>
+        <div className={cn('w-16 h-16 rounded-2xl mx-auto mb-4 flex items-center justify-center', info.color)}>
+          <Icon className="w-8 h-8" />
+        </div>
+        <CardDescription>Section {sectionNumber} of {MOCK_TEST_SECTIONS.length}</CardDescription>
+        <CardTitle className="text-2xl">{info.label}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-muted-foreground">
+          <Clock className="w-4 h-4 inline mr-1" />
+          {info.duration}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Exam rules apply: the timer cannot be paused and the next section follows straight on.
+        </p>
+        <div className="text-5xl font-bold font-mono text-primary">{secondsLeft}</div>
+        <Button size="lg" onClick={onStart} disabled={isLaunching} className="gap-2">
+          {isLaunching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+          Start {info.label} now
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface SpeakingBreakProps {
+  hasSpeaking: boolean;
+  onStartSpeaking: () => void;
+  onSkipSpeaking: () => void;
+}
+
+function SpeakingBreak({ hasSpeaking, onStartSpeaking, onSkipSpeaking }: SpeakingBreakProps) {
+  const [breakSecondsLeft, setBreakSecondsLeft] = useState(MOCK_SPEAKING_BREAK_MINUTES * 60);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setBreakSecondsLeft(prev => Math.max(0, prev - 1));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const minutes = Math.floor(breakSecondsLeft / 60);
+  const seconds = breakSecondsLeft % 60;
+
+  return (
+    <Card className="text-center">
+      <CardHeader>
+        <div className="w-16 h-16 rounded-2xl mx-auto mb-4 flex items-center justify-center bg-primary/10 text-primary">
+          <Coffee className="w-8 h-8" />
+        </div>
+        <CardTitle className="text-2xl">Break before Speaking</CardTitle>
+        <CardDescription>
+          Listening, Reading and Writing are done. Take a short break before the Speaking test.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="text-5xl font-bold font-mono text-primary">
+          {minutes.toString().padStart(2, '0')}:{seconds.toString().padStart(2, '0')}
+        </div>
+        <div className="flex flex-col sm:flex-row gap-3 justify-center">
+          {hasSpeaking && (
+            <Button size="lg" onClick={onStartSpeaking} className="gap-2">
+              <Mic className="w-4 h-4" />
+              Start Speaking
+            </Button>
+          )}
+          <Button size="lg" variant="outline" onClick={onSkipSpeaking}>
+            {hasSpeaking ? 'Finish without Speaking' : 'View Report'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface MockTestReportProps {
+  session: MockTestSession;
+  onSessionUpdated: (session: MockTestSession) => void;
+}
+
+function MockTestReport({ session, onSessionUpdated }: MockTestReportProps) {
+  const navigate = useNavigate();
+  const [bands, setBands] = useState<MockSectionBands>({});
+  const [loading, setLoading] = useState(true);
+
+  const loadBands = useCallback(async () => {
+    setLoading(true);
+    try {
+      const writingIds = [session.writing_task1_submission_id, session.writing_task2_submission_id]
+        .filter((id): id is string => !!id);
+
+      const [listeningRes, readingRes, writingRes, speakingRes] = await Promise.all([
+        session.listening_submission_id
+          ? supabase.from('listening_test_submissions').select('band_score').eq('id', session.listening_submission_id).maybeSingle()
+          : null,
+        session.reading_submission_id
+          ? supabase.from('reading_test_submissions').select('band_score').eq('id', session.reading_submission_id).maybeSingle()
+          : null,
+        writingIds.length > 0
+          ? supabase.from('writing_submissions').select('id, overall_band').in('id', writingIds)
+          : null,
+        session.speaking_submission_id
+          ? supabase.from('speaking_submissions').select('overall_band').eq('id', session.speaking_submission_id).maybeSingle()
+          : null,
+      ]);
+
+      const writingBand = (id: string | null) =>
+        writingRes?.data?.find(submission => submission.id === id)?.overall_band ?? null;
+
+      const nextBands: MockSectionBands = {
+        listening: listeningRes?.data?.band_score ?? null,
+        reading: readingRes?.data?.band_score ?? null,
+        writing: computeMockWritingBand(
+          writingBand(session.writing_task1_submission_id),
+          writingBand(session.writing_task2_submission_id),
+        ),
+        speaking: speakingRes?.data?.overall_band ?? null,
+      };
+      setBands(nextBands);
+
+      const { overallBand, isProvisional } = computeMockOverallBand(nextBands);
+      const isComplete = !isProvisional && overallBand !== null;
+      if (overallBand !== session.overall_band || (isComplete && session.status !== 'completed')) {
+        const { data, error } = await supabase
+          .from('mock_test_sessions')
+          .update({
+            overall_band: overallBand,
+            ...(isComplete ? { status: 'completed', completed_at: session.completed_at ?? new Date().toISOString() } : {}),
+          })
+          .eq('id', session.id)
+          .select()
+          .single();
+
+        if (error) throw error;
+        onSessionUpdated(data);
+      }
+    } catch (error) {
+      console.error('Error loading mock test report:', error);
+      toast.error('Failed to load mock test report');
+    } finally {
+      setLoading(false);
+    }
+    // Only reload when the linked submissions change, not on our own band update
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    session.id,
+    session.listening_submission_id,
+    session.reading_submission_id,
+    session.writing_task1_submission_id,
+    session.writing_task2_submission_id,
+    session.speaking_submission_id,
+  ]);
+
+  useEffect(() => {
+    loadBands();
+  }, [loadBands]);
+
+  const { overallBand, isProvisional, missing } = computeMockOverallBand(bands);
+
+  const getResultPath = (section: MockTestSection): string | null => {
+    switch (section) {
+      case 'listening':
+        return session.listening_submission_id
+          ? `/results/${session.listening_submission_id}?type=listening&testId=${session.listening_test_id}`
+          : null;
+      case 'reading':
+        return session.reading_submission_id
+          ? `/results/${session.reading_submission_id}?type=reading&testId=${session.reading_test_id}`
+          : null;
+      case 'writing':
+        return session.writing_task1_submission_id
+          ? `/writing/evaluation/${session.writing_test_id}/${session.writing_task1_submission_id}`
+          : null;
+      case 'speaking':
+        return session.speaking_submission_id
+          ? `/speaking/evaluation/${session.speaking_test_id}/${session.speaking_submission_id}`
+          : null;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="text-center overflow-hidden">
+        <CardHeader className="bg-gradient-to-r from-primary/10 to-accent/10">
+          <Trophy className="w-10 h-10 mx-auto text-primary" />
+          <CardTitle className="text-2xl">Overall Band</CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-3">
+          {loading ? (
+            <Loader2 className="w-8 h-8 mx-auto animate-spin text-primary" />
+          ) : (
+            <>
+              <div className="text-6xl font-bold text-primary">
+                {overallBand !== null ? overallBand.toFixed(1) : '-'}
+              </div>
+              {isProvisional && (
+                <Badge variant="secondary">
+                  Provisional • waiting for {missing.map(section => SECTION_INFO[section].label).join(', ')}
+                </Badge>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Section Bands</CardTitle>
+          <Button variant="ghost" size="sm" onClick={loadBands} disabled={loading} className="gap-1">
+            <RefreshCw className={cn('w-4 h-4', loading && 'animate-spin')} />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {MOCK_TEST_SECTIONS.map(section => {
+            const info = SECTION_INFO[section];
+            const Icon = info.icon;
+            const band = bands[section];
+            const resultPath = getResultPath(section);
+
+            return (
+              <div
+                key={section}
+                className={cn(
+                  'flex items-center justify-between p-3 rounded-lg border border-border/50',
+                  resultPath && 'cursor-pointer hover:bg-muted/50 transition-colors'
+                )}
+                onClick={() => resultPath && navigate(resultPath)}
+              >
+                <div className="flex items-center gap-3">
+                  <div className={cn('p-2 rounded-lg', info.color)}>
+                    <Icon className="w-5 h-5" />
+                  </div>
+                  <div>
+                    <p className="font-medium">{info.label}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {!resultPath ? 'Not taken' : typeof band === 'number' ? 'View detailed results' : 'Evaluation in progress'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-2xl font-bold">{typeof band === 'number' ? band.toFixed(1) : '-'}</span>
+                  {resultPath && <ChevronRight className="w-4 h-4 text-muted-foreground" />}
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
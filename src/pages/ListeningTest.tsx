@@ -5,6 +5,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import {
   WebAudioScheduledPlayerSafe,
+  ListeningAnswerSheet,
   ListeningQuestions,
   ListeningNavigation,
   ListeningTimer,
@@ -17,10 +18,11 @@ import {
   ResizablePanelGroup,
 } from "@/components/ui/resizable";
 import { cn } from '@/lib/utils';
-import { HighlightNoteProvider } from '@/hooks/useHighlightNotes';
+import { HighlightNoteProvider, type HighlightNoteState } from '@/hooks/useHighlightNotes';
 import { NoteSidebar } from '@/components/common/NoteSidebar';
 import { SubmitConfirmDialog } from '@/components/common/SubmitConfirmDialog';
 import { RestoreTestStateDialog } from '@/components/common/RestoreTestStateDialog';
+import { SessionConflictDialog } from '@/components/common/SessionConflictDialog';
 import { PullToRefreshIndicator } from '@/components/common/PullToRefreshIndicator';
 import { SubmissionErrorState } from '@/components/common/SubmissionErrorState';
 import { OfflineBanner } from '@/components/common/OfflineBanner';
@@ -30,10 +32,10 @@ import { useSwipeGesture } from '@/hooks/useSwipeGesture';
 import { usePullToRefresh } from '@/hooks/usePullToRefresh';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useNetworkStatus } from '@/hooks/useNetworkStatus';
+import { useMockTestSession } from '@/hooks/useMockTestSession';
+import { useTestSessionSync } from '@/hooks/useTestSessionSync';
 import { 
   useTestSubmission, 
-  calculateBandScoreFromRaw40,
-  calculateBandScoreFromPercentage,
   checkAnswerWithAlternatives,
   checkMCMAAnswer,
   savePendingTestState,
@@ -44,6 +46,14 @@ import {
   dismissRetryToast,
 } from '@/hooks/useTestSubmission';
 import { describeApiError } from '@/lib/apiErrors';
+import { rawScoreToBand } from '@/lib/bandConversion';
+import { explainAnswer } from '@/lib/ieltsAnswerValidation';
+import {
+  hasResumableProgress,
+  isOpenOnAnotherDevice,
+  type SavedTestSession,
+  type TestSessionSnapshot,
+} from '@/lib/testSession';
 
 interface Question {
   id: string;
@@ -116,6 +126,14 @@ export default function ListeningTest() {
   
   // Network status for offline indicator
   const { isOnline } = useNetworkStatus();
+
+  // Part of a full mock test: results go to the mock report
+  const { isMockSession, completeSection } = useMockTestSession();
+
+  // Paper-based exam mode: one uninterrupted play-through, then the answer sheet.
+  // Always on inside a mock test.
+  const [examMode, setExamMode] = useState(() => isMockSession || searchParams.get('mode') === 'exam');
+  const [isTransferPhase, setIsTransferPhase] = useState(false);
   const [usingDeviceAudio, setUsingDeviceAudio] = useState(false);
   
   const filterType = searchParams.get('type');
@@ -147,7 +165,7 @@ export default function ListeningTest() {
   const [showSubmitDialog, setShowSubmitDialog] = useState(false);
   const [showRestoreDialog, setShowRestoreDialog] = useState(false);
   const [restoredTimeLeft, setRestoredTimeLeft] = useState<number | null>(null);
-  const [flaggedQuestions, _setFlaggedQuestions] = useState<Set<number>>(new Set());
+  const [flaggedQuestions, setFlaggedQuestions] = useState<Set<number>>(new Set());
   const [showAudioOverlay, setShowAudioOverlay] = useState(true);
   const [testStarted, setTestStarted] = useState(false);
   
@@ -161,6 +179,22 @@ export default function ListeningTest() {
   } = useTestSubmission();
   
   const hasAutoSubmitted = useRef(false);
+
+  // Server-side snapshot so the test can be resumed on another device
+  const {
+    deviceId,
+    savedSession,
+    isLoaded: isSessionLoaded,
+    conflict: sessionConflict,
+    queueSnapshot,
+    takeOver: takeOverSession,
+    adoptRemote: adoptRemoteSession,
+    discard: discardSession,
+  } = useTestSessionSync({ testType: 'listening', testId });
+  const [highlightState, setHighlightState] = useState<HighlightNoteState>({ highlights: [], notes: [] });
+  const [highlightRestore, setHighlightRestore] = useState<HighlightNoteState | null>(null);
+  const [restoredSession, setRestoredSession] = useState<SavedTestSession | null>(null);
+  const [isSessionChecked, setIsSessionChecked] = useState(false);
   const [mobileView, setMobileView] = useState<'questions' | 'audio'>('questions');
   const isMobile = useIsMobile();
 
@@ -348,14 +382,59 @@ export default function ListeningTest() {
     restorePendingState();
   }, [testId]);
 
+  // activePartIndex follows currentQuestion, so restoring the question also restores the part
+  const applySessionSnapshot = useCallback((session: TestSessionSnapshot) => {
+    setAnswers(session.answers);
+    setCurrentQuestion(session.currentQuestion);
+    setFlaggedQuestions(new Set(session.flaggedQuestions));
+    setTimeLeft(session.timeLeft);
+    setHighlightRestore({ highlights: session.highlights, notes: session.notes });
+  }, []);
 
-  // Auto-submit when time runs out
+  // Resume from the server snapshot once the test has loaded (a pending
+  // post-login restore from this browser takes precedence)
   useEffect(() => {
+    if (loading || !isSessionLoaded || isSessionChecked) return;
+    setIsSessionChecked(true);
+    if (showRestoreDialog || !savedSession || !hasResumableProgress(savedSession)) return;
+
+    applySessionSnapshot(savedSession);
+    setRestoredSession(savedSession);
+    setRestoredTimeLeft(savedSession.timeLeft);
+    setShowRestoreDialog(true);
+  }, [loading, isSessionLoaded, isSessionChecked, showRestoreDialog, savedSession, applySessionSnapshot]);
+
+  // Hand the latest state to the autosave
+  useEffect(() => {
+    if (!testStarted || !isSessionChecked) return;
+    queueSnapshot({
+      answers,
+      timeLeft,
+      currentQuestion,
+      currentPassageIndex: activePartIndex,
+      flaggedQuestions: [...flaggedQuestions],
+      highlights: highlightState.highlights,
+      notes: highlightState.notes,
+    });
+  }, [testStarted, isSessionChecked, answers, timeLeft, currentQuestion, activePartIndex, flaggedQuestions, highlightState, queueSnapshot]);
+
+  const handleLoadOtherDevice = () => {
+    const remote = adoptRemoteSession();
+    if (remote) {
+      applySessionSnapshot(remote);
+      toast.success('Loaded progress from your other device');
+    }
+  };
+
+
+  // Auto-submit when time runs out (exam mode is paced by the recording and answer sheet instead)
+  useEffect(() => {
+    if (examMode) return;
     if (timeLeft <= 0 && !hasAutoSubmitted.current && questions.length > 0) {
       hasAutoSubmitted.current = true;
       setShowSubmitDialog(true);
     }
-  }, [timeLeft, questions.length]);
+  }, [timeLeft, questions.length, examMode]);
 
   // Update current part based on current question
   useEffect(() => {
@@ -523,6 +602,9 @@ export default function ListeningTest() {
         if (dbCorrectAnswer) {
           if (q.question_type === 'MULTIPLE_CHOICE_MULTIPLE') {
             isCorrect = checkMCMAAnswer(userAnswer, dbCorrectAnswer);
+          } else if (examMode) {
+            // Answer-sheet marking: any capitalisation, but spelling must be exact
+            isCorrect = explainAnswer(userAnswer, dbCorrectAnswer, q.question_type, { strictSpelling: true }).accepted;
           } else {
             isCorrect = checkAnswerWithAlternatives(userAnswer, dbCorrectAnswer);
           }
@@ -541,12 +623,8 @@ export default function ListeningTest() {
       const total = questionResults.length;
       const percentage = total > 0 ? Math.round((score / total) * 100) : 0;
       
-      // Use official IELTS raw score table for full 40-question tests
-      // Use percentage-based for filtered/part tests
-      const isFullTest = total === 40 && !filterType && !filterPart;
-      const bandScore = isFullTest 
-        ? calculateBandScoreFromRaw40(score) 
-        : calculateBandScoreFromPercentage(percentage);
+      // Official listening table; filtered/part tests are scaled onto the 40-question scale
+      const bandScore = rawScoreToBand('listening', score, total);
       
       let submissionId = crypto.randomUUID() as `${string}-${string}-${string}-${string}-${string}`;
       
@@ -602,6 +680,7 @@ export default function ListeningTest() {
       
       // Use shared utility to clear pending state
       clearPendingTestState();
+      await discardSession();
       
       const resultData = {
         id: submissionId,
@@ -617,6 +696,11 @@ export default function ListeningTest() {
       };
       
       sessionStorage.setItem(`test_result_${submissionId}`, JSON.stringify(resultData));
+
+      if (isMockSession) {
+        await completeSection('listening', { listening_submission_id: submissionId });
+        return;
+      }
       
       navigate(`/results/${submissionId}?type=listening&testId=${testId}`);
     } catch (err: unknown) {
@@ -646,8 +730,12 @@ export default function ListeningTest() {
 
   const handleTestComplete = useCallback(() => {
     setIsTestCompleted(true);
+    if (examMode) {
+      setIsTransferPhase(true);
+      return;
+    }
     setShowSubmitDialog(true);
-  }, []);
+  }, [examMode]);
 
   const handleAudioPlay = useCallback(() => {
     setShowAudioOverlay(false);
@@ -764,7 +852,7 @@ export default function ListeningTest() {
   // Allow tests without audio for practice mode
 
   return (
-    <HighlightNoteProvider testId={testId!}>
+    <HighlightNoteProvider testId={testId!} testType="listening" restoreState={highlightRestore} onStateChange={setHighlightState}>
       <div className={cn("h-screen flex flex-col overflow-hidden", getThemeClasses(), "ielts-test-content")}>
         {/* Offline Banner */}
         <OfflineBanner hasPendingAnswers={Object.keys(answers).length > 0} />
@@ -813,6 +901,7 @@ export default function ListeningTest() {
                   }
                 }}
                 onTestComplete={handleTestComplete}
+                examMode={examMode}
                 onFallbackUsed={() => setUsingDeviceAudio(true)}
               />
             </div>
@@ -823,7 +912,7 @@ export default function ListeningTest() {
             <ListeningTimer 
               timeLeft={timeLeft} 
               setTimeLeft={setTimeLeft} 
-              isPaused={!testStarted || isTestCompleted}
+              isPaused={!testStarted || isTestCompleted || !!sessionConflict}
               onTogglePause={() => {}}
             />
             {/* Notes Button */}
@@ -909,8 +998,16 @@ export default function ListeningTest() {
             <p className="not-italic">Listen and answer questions {currentPart.start}–{currentPart.end}.</p>
           </div>
 
+          {isTransferPhase && (
+            <ListeningAnswerSheet
+              answers={answers}
+              onAnswerChange={handleAnswerChange}
+              onSubmit={handleSubmit}
+            />
+          )}
+
           {/* Main Content */}
-          <div className="flex-1 min-h-0 overflow-hidden">
+          <div className={cn("flex-1 min-h-0 overflow-hidden", isTransferPhase && "hidden")}>
             {/* Desktop: Full questions view */}
             <div className="hidden md:block h-full">
               <ResizablePanelGroup direction="horizontal" className="h-full">
@@ -1028,6 +1125,7 @@ export default function ListeningTest() {
                           }
                         }}
                         onTestComplete={handleTestComplete}
+                        examMode={examMode}
                       />
                     </div>
                   )}
@@ -1038,6 +1136,7 @@ export default function ListeningTest() {
         </div>
 
         {/* Bottom Navigation - stays fixed */}
+        {!isTransferPhase && (
         <ListeningNavigation
           questions={displayQuestions}
           answers={answers}
@@ -1050,6 +1149,7 @@ export default function ListeningTest() {
           onSubmit={() => setShowSubmitDialog(true)}
           questionGroups={questionGroups}
         />
+        )}
       </div>
       {testId && (
         <NoteSidebar 
@@ -1073,6 +1173,12 @@ export default function ListeningTest() {
         timeLeft={restoredTimeLeft ?? 0}
         answeredCount={submitStats.answeredCount}
         totalQuestions={submitStats.totalCount}
+        savedOnDevice={
+          restoredSession && restoredSession.deviceId !== deviceId
+            ? restoredSession.deviceLabel ?? 'another device'
+            : null
+        }
+        isOpenElsewhere={!!restoredSession && isOpenOnAnotherDevice(restoredSession, deviceId)}
         onContinue={() => {
           localStorage.removeItem('pendingTestSubmission');
           setShowRestoreDialog(false);
@@ -1084,11 +1190,19 @@ export default function ListeningTest() {
           await handleSubmit();
         }}
       />
+      <SessionConflictDialog
+        session={sessionConflict}
+        totalQuestions={submitStats.totalCount}
+        onUseThisDevice={takeOverSession}
+        onLoadOtherDevice={handleLoadOtherDevice}
+      />
       {/* Audio Play Overlay - IELTS Official Style */}
       {test.audio_url && (
         <AudioPlayOverlay 
           onPlay={handleAudioPlay} 
           isVisible={showAudioOverlay} 
+          examMode={examMode}
+          onExamModeChange={isMockSession ? undefined : setExamMode}
         />
       )}
     </HighlightNoteProvider>
@@ -0,0 +1,252 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Navbar } from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Download, Loader2, NotebookPen, Search, ArrowUpRight, BookOpen, Headphones } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  getPassageStudyPath,
+  groupNotebookEntries,
+  notebookToMarkdown,
+  type NotebookEntry,
+} from '@/lib/studyNotes';
+
+interface NoteRow {
+  id: string;
+  test_type: string;
+  test_id: string;
+  content_id: string;
+  text: string;
+  note: string | null;
+  source_path: string | null;
+  updated_at: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const uniqueIds = (ids: string[]) => [...new Set(ids)].filter((id) => UUID_PATTERN.test(id));
+
+/**
+ * Turn note rows into Notebook entries: test titles, where in the test each
+ * note was made, and a link back to that spot.
+ */
+async function buildNotebookEntries(rows: NoteRow[]): Promise<NotebookEntry[]> {
+  const readingRows = rows.filter((row) => row.test_type === 'reading');
+  const listeningRows = rows.filter((row) => row.test_type === 'listening');
+  const readingTestIds = uniqueIds(readingRows.map((row) => row.test_id));
+  const listeningTestIds = uniqueIds(listeningRows.map((row) => row.test_id));
+
+  const [readingTests, passages, paragraphs, listeningTests, listeningQuestions] = await Promise.all([
+    readingTestIds.length
+      ? supabase.from('reading_tests').select('id, title').in('id', readingTestIds)
+      : Promise.resolve({ data: [] }),
+    readingTestIds.length
+      ? supabase.from('reading_passages').select('id, test_id, passage_number').in('test_id', readingTestIds)
+      : Promise.resolve({ data: [] }),
+    readingRows.length
+      ? supabase.from('reading_paragraphs').select('id, passage_id, label').in('id', uniqueIds(readingRows.map((row) => row.content_id)))
+      : Promise.resolve({ data: [] }),
+    listeningTestIds.length
+      ? supabase.from('listening_tests').select('id, title').in('id', listeningTestIds)
+      : Promise.resolve({ data: [] }),
+    listeningRows.length
+      ? supabase.from('listening_questions').select('id, question_number').in('id', uniqueIds(listeningRows.map((row) => row.content_id)))
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  const testTitles = new Map<string, string>(
+    [...(readingTests.data ?? []), ...(listeningTests.data ?? [])].map((t) => [t.id, t.title])
+  );
+  const passageById = new Map((passages.data ?? []).map((p) => [p.id, p]));
+  const paragraphById = new Map((paragraphs.data ?? []).map((p) => [p.id, p]));
+  const questionNumberById = new Map((listeningQuestions.data ?? []).map((q) => [q.id, q.question_number]));
+
+  return rows.map((row) => {
+    const testTitle = testTitles.get(row.test_id) ?? 'Practice test';
+    const base = { id: row.id, testType: row.test_type, testTitle, text: row.text, note: row.note ?? '', updatedAt: row.updated_at };
+
+    if (row.test_type === 'reading') {
+      const paragraph = paragraphById.get(row.content_id);
+      const passageId = paragraph?.passage_id ?? (row.content_id.endsWith('-title') ? row.content_id.slice(0, -'-title'.length) : null);
+      const passage = passageId ? passageById.get(passageId) : undefined;
+      const location = passage
+        ? `Passage ${passage.passage_number}${paragraph?.label ? ` · Paragraph ${paragraph.label}` : ''}`
+        : 'Passage';
+      return {
+        ...base,
+        location,
+        href: passage
+          ? getPassageStudyPath(row.test_id, passage.passage_number, row.id)
+          : `/reading/study/${row.test_id}?highlight=${row.id}`,
+      };
+    }
+
+    const transcriptPart = row.content_id.match(/^transcript-part-(\d)$/);
+    const questionNumber = questionNumberById.get(row.content_id);
+    return {
+      ...base,
+      location: transcriptPart
+        ? `Transcript · Part ${transcriptPart[1]}`
+        : questionNumber
+          ? `Question ${questionNumber}`
+          : 'Listening',
+      href: row.source_path ?? `/listening/test/${row.test_id}`,
+    };
+  });
+}
+
+export default function Notebook() {
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const [entries, setEntries] = useState<NotebookEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      navigate('/auth?returnTo=/notebook');
+      return;
+    }
+
+    const fetchNotes = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('study_highlights')
+          .select('id, test_type, test_id, content_id, text, note, source_path, updated_at')
+          .eq('user_id', user.id)
+          .not('note', 'is', null)
+          .order('updated_at', { ascending: false });
+
+        if (error) throw error;
+        setEntries(await buildNotebookEntries(data ?? []));
+      } catch (error) {
+        console.error('Error loading notebook:', error);
+        toast.error('Could not load your notes');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchNotes();
+  }, [user, authLoading, navigate]);
+
+  const filteredEntries = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return entries;
+    return entries.filter((entry) =>
+      [entry.note, entry.text, entry.testTitle].some((field) => field.toLowerCase().includes(query))
+    );
+  }, [entries, search]);
+
+  const groups = groupNotebookEntries(filteredEntries);
+
+  const exportMarkdown = () => {
+    const blob = new Blob([notebookToMarkdown(filteredEntries)], { type: 'text/markdown;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ielts-notebook-${new Date().toISOString().slice(0, 10)}.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-accent/5 flex flex-col">
+      <Navbar />
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold flex items-center gap-2">
+              <NotebookPen className="text-primary" />
+              Notebook
+            </h2>
+            <p className="text-muted-foreground">Every note you've made on reading passages and listening tests</p>
+          </div>
+          <Button onClick={exportMarkdown} disabled={filteredEntries.length === 0} className="gap-2">
+            <Download size={16} />
+            Export to Markdown
+          </Button>
+        </div>
+
+        {entries.length > 0 && (
+          <div className="relative mb-6">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search notes"
+              className="pl-9"
+            />
+          </div>
+        )}
+
+        {groups.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <NotebookPen className="w-12 h-12 mx-auto text-muted-foreground/30 mb-3" />
+              <p className="text-muted-foreground">
+                {entries.length === 0
+                  ? 'No notes yet. Highlight text during a reading or listening test and add a note.'
+                  : 'No notes match your search.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-8">
+            {groups.map((group) => (
+              <section key={group.testType} className="space-y-4">
+                <h3 className="text-lg font-semibold flex items-center gap-2 capitalize">
+                  {group.testType === 'listening' ? <Headphones size={18} /> : <BookOpen size={18} />}
+                  {group.testType}
+                </h3>
+                {group.tests.map((test) => (
+                  <Card key={test.title}>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-base flex items-center justify-between">
+                        {test.title}
+                        <Badge variant="secondary">{test.entries.length}</Badge>
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {test.entries.map((entry) => (
+                        <Link
+                          key={entry.id}
+                          to={entry.href}
+                          className="block rounded-lg border border-border/60 p-3 hover:border-primary/40 hover:bg-muted/30 transition-colors group"
+                        >
+                          <div className="flex items-center justify-between gap-2 mb-1">
+                            <span className="text-xs font-medium text-muted-foreground">{entry.location}</span>
+                            <ArrowUpRight size={14} className="text-muted-foreground group-hover:text-primary" />
+                          </div>
+                          <p className="text-sm italic text-muted-foreground border-l-2 border-orange-400 pl-2 line-clamp-2">
+                            {entry.text}
+                          </p>
+                          <p className="text-sm mt-2 whitespace-pre-wrap">{entry.note}</p>
+                        </Link>
+                      ))}
+                    </CardContent>
+                  </Card>
+                ))}
+              </section>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
@@ -11,9 +11,14 @@ import {
   Loader2,
   Layers,
   X,
-  Check
+  Check,
+  StickyNote,
+  NotebookPen
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { HighlightNoteProvider, useHighlightNotes } from '@/hooks/useHighlightNotes';
+import { splitTextByHighlights } from '@/lib/studyNotes';
 import { WordSelectionToolbar } from '@/components/reading/WordSelectionToolbar';
 import { ImportToFlashcardDialog } from '@/components/reading/ImportToFlashcardDialog';
 
@@ -44,10 +49,106 @@ interface SelectedWord {
   context?: string;
 }
 
+/** Paragraph text with the highlights and notes made on it during tests */
+function StudyParagraphText({
+  testId,
+  contentId,
+  text,
+  activeHighlightId,
+}: {
+  testId: string;
+  contentId: string;
+  text: string;
+  activeHighlightId: string | null;
+}) {
+  const { getHighlightsForContent, getNoteForHighlight } = useHighlightNotes();
+  const segments = splitTextByHighlights(text, getHighlightsForContent(testId, contentId));
+
+  return (
+    <>
+      {segments.map((segment, idx) =>
+        segment.highlight ? (
+          <mark
+            key={idx}
+            id={`highlight-${segment.highlight.id}`}
+            title={getNoteForHighlight(segment.highlight.id)?.text}
+            className={cn(
+              segment.highlight.isNote ? 'ielts-highlight-note' : 'ielts-highlight',
+              activeHighlightId === segment.highlight.id && 'ring-2 ring-primary ring-offset-1 rounded'
+            )}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={idx}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/** Notes made on the current passage; clicking one scrolls to its highlight */
+function PassageNotesCard({
+  testId,
+  contentIds,
+  onSelect,
+}: {
+  testId: string;
+  contentIds: Set<string>;
+  onSelect: (highlightId: string) => void;
+}) {
+  const { getAllNotesForTest } = useHighlightNotes();
+  const passageNotes = getAllNotesForTest(testId).filter(({ highlight }) => contentIds.has(highlight.contentId));
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <StickyNote size={18} className="text-primary" />
+            Your Notes
+          </span>
+          <Link to="/notebook">
+            <Button variant="ghost" size="sm" className="gap-1">
+              <NotebookPen size={14} />
+              Notebook
+            </Button>
+          </Link>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {passageNotes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Notes you make on this passage during a test appear here
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {passageNotes.map(({ highlight, note }) => (
+              <button
+                key={highlight.id}
+                type="button"
+                onClick={() => onSelect(highlight.id)}
+                className="w-full text-left p-2 rounded-lg bg-muted/50 hover:bg-muted transition-colors"
+              >
+                <p className="text-xs text-muted-foreground line-clamp-1">"{highlight.text}"</p>
+                <p className="text-sm mt-1">{note.text}</p>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function PassageStudy() {
   const { testId } = useParams<{ testId: string }>();
+  const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { } = useAuth();
+  // Linked from the Notebook: ?passage=<number>&highlight=<id>
+  const linkedPassage = Number.parseInt(searchParams.get('passage') ?? '', 10);
+  const [activeHighlightId, setActiveHighlightId] = useState<string | null>(searchParams.get('highlight'));
   
   const [test, setTest] = useState<Test | null>(null);
   const [passages, setPassages] = useState<Passage[]>([]);
@@ -68,6 +169,22 @@ export default function PassageStudy() {
     }
   }, [testId]);
 
+  // Open the passage a Notebook link points at
+  useEffect(() => {
+    if (Number.isNaN(linkedPassage)) return;
+    const index = passages.findIndex(p => p.passage_number === linkedPassage);
+    if (index !== -1) setCurrentPassageIndex(index);
+  }, [passages, linkedPassage]);
+
+  // Bring the linked (or clicked) highlight into view once it has rendered
+  useEffect(() => {
+    if (!activeHighlightId || loading) return;
+    const timer = setTimeout(() => {
+      document.getElementById(`highlight-${activeHighlightId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [activeHighlightId, currentPassageIndex, loading]);
+
   // Handle text selection
   useEffect(() => {
     const handleMouseUp = () => {
@@ -172,6 +289,9 @@ export default function PassageStudy() {
 
   const currentPassage = passages[currentPassageIndex];
   const currentParagraphs = currentPassage ? paragraphs[currentPassage.id] || [] : [];
+  const currentContentIds = new Set(
+    currentPassage ? [`${currentPassage.id}-title`, ...currentParagraphs.map(p => p.id)] : []
+  );
 
   if (loading) {
     return (
@@ -190,189 +310,202 @@ export default function PassageStudy() {
   }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-background via-background to-accent/5">
-      {/* Header */}
-      <header className="border-b border-border/50 bg-background/80 backdrop-blur-sm z-20">
-        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
-          <Button variant="ghost" onClick={() => navigate(-1)} className="gap-2">
-            <ArrowLeft size={18} />
-            Back
-          </Button>
-          <div className="text-center">
-            <h1 className="text-lg font-semibold">{test.title}</h1>
-            <p className="text-sm text-muted-foreground">Study Mode - Select words to import</p>
-          </div>
-          <div className="flex items-center gap-2">
-            <Button 
-              variant="outline" 
-              size="sm"
-              onClick={() => setFontSize(Math.max(12, fontSize - 2))}
-            >
-              A-
-            </Button>
-            <Button 
-              variant="outline" 
-              size="sm"
-              onClick={() => setFontSize(Math.min(24, fontSize + 2))}
-            >
-              A+
+    <HighlightNoteProvider testId={test.id} testType="reading">
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-accent/5">
+        {/* Header */}
+        <header className="border-b border-border/50 bg-background/80 backdrop-blur-sm z-20">
+          <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+            <Button variant="ghost" onClick={() => navigate(-1)} className="gap-2">
+              <ArrowLeft size={18} />
+              Back
             </Button>
+            <div className="text-center">
+              <h1 className="text-lg font-semibold">{test.title}</h1>
+              <p className="text-sm text-muted-foreground">Study Mode - Select words to import</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => setFontSize(Math.max(12, fontSize - 2))}
+              >
+                A-
+              </Button>
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => setFontSize(Math.min(24, fontSize + 2))}
+              >
+                A+
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        {/* Passage Navigation */}
+        <div className="border-b border-border/50 bg-muted/30">
+          <div className="container mx-auto px-4 py-2 flex items-center gap-2">
+            {passages.map((p, idx) => (
+              <Button
+                key={p.id}
+                variant={idx === currentPassageIndex ? "default" : "ghost"}
+                size="sm"
+                onClick={() => setCurrentPassageIndex(idx)}
+              >
+                Passage {p.passage_number}
+              </Button>
+            ))}
           </div>
         </div>
-      </header>
-
-      {/* Passage Navigation */}
-      <div className="border-b border-border/50 bg-muted/30">
-        <div className="container mx-auto px-4 py-2 flex items-center gap-2">
-          {passages.map((p, idx) => (
-            <Button
-              key={p.id}
-              variant={idx === currentPassageIndex ? "default" : "ghost"}
-              size="sm"
-              onClick={() => setCurrentPassageIndex(idx)}
-            >
-              Passage {p.passage_number}
-            </Button>
-          ))}
-        </div>
-      </div>
 
-      {/* Main Content */}
-      <div className="container mx-auto px-4 py-6">
-        <div className="grid lg:grid-cols-[1fr_300px] gap-6">
-          {/* Passage Content */}
-          <Card className="h-fit">
-            <CardHeader className="pb-4">
-              <CardTitle className="flex items-center gap-2">
-                <BookOpen className="text-primary" />
-                {currentPassage?.title}
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <ScrollArea className="h-[calc(100vh-300px)]">
-                <div 
-                  className="prose prose-sm max-w-none space-y-4"
-                  style={{ fontSize: `${fontSize}px` }}
-                >
-                  {currentParagraphs.map((paragraph, index) => (
-                    <div key={paragraph.id || index} className="flex items-start gap-3">
-                      {paragraph.label && (
-                        <span className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center font-bold text-sm">
-                          {paragraph.label}
-                        </span>
-                      )}
-                      <p className="flex-1 leading-relaxed text-foreground/90 select-text">
-                        {paragraph.content}
-                      </p>
-                    </div>
-                  ))}
-                </div>
-              </ScrollArea>
-            </CardContent>
-          </Card>
-
-          {/* Selected Words Panel */}
-          <div className="space-y-4">
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-base flex items-center justify-between">
-                  <span className="flex items-center gap-2">
-                    <Layers size={18} className="text-primary" />
-                    Selected Words
-                  </span>
-                  {selectedWords.length > 0 && (
-                    <Button variant="ghost" size="sm" onClick={clearSelection}>
-                      Clear All
-                    </Button>
-                  )}
+        {/* Main Content */}
+        <div className="container mx-auto px-4 py-6">
+          <div className="grid lg:grid-cols-[1fr_300px] gap-6">
+            {/* Passage Content */}
+            <Card className="h-fit">
+              <CardHeader className="pb-4">
+                <CardTitle className="flex items-center gap-2">
+                  <BookOpen className="text-primary" />
+                  {currentPassage?.title}
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                {selectedWords.length === 0 ? (
-                  <div className="text-center py-8">
-                    <BookOpen className="w-12 h-12 mx-auto text-muted-foreground/30 mb-3" />
-                    <p className="text-sm text-muted-foreground">
-                      Select words from the passage to add them here
-                    </p>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      Highlight text and click the + button
-                    </p>
-                  </div>
-                ) : (
-                  <div className="space-y-2">
-                    {selectedWords.map((word, idx) => (
-                      <div 
-                        key={idx}
-                        className="flex items-center justify-between p-2 rounded-lg bg-muted/50 group"
-                      >
-                        <span className="font-medium">{word.text}</span>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
-                          onClick={() => removeFromSelection(word.text)}
-                        >
-                          <X size={14} />
-                        </Button>
+                <ScrollArea className="h-[calc(100vh-300px)]">
+                  <div 
+                    className="prose prose-sm max-w-none space-y-4"
+                    style={{ fontSize: `${fontSize}px` }}
+                  >
+                    {currentParagraphs.map((paragraph, index) => (
+                      <div key={paragraph.id || index} className="flex items-start gap-3">
+                        {paragraph.label && (
+                          <span className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center font-bold text-sm">
+                            {paragraph.label}
+                          </span>
+                        )}
+                        <p className="flex-1 leading-relaxed text-foreground/90 select-text">
+                          <StudyParagraphText
+                            testId={test.id}
+                            contentId={paragraph.id}
+                            text={paragraph.content}
+                            activeHighlightId={activeHighlightId}
+                          />
+                        </p>
                       </div>
                     ))}
                   </div>
-                )}
-
-                {selectedWords.length > 0 && (
-                  <Button 
-                    className="w-full mt-4 gap-2"
-                    onClick={() => setShowImportDialog(true)}
-                  >
-                    <Layers size={16} />
-                    Import to Flashcards ({selectedWords.length})
-                  </Button>
-                )}
+                </ScrollArea>
               </CardContent>
             </Card>
 
-            {/* Instructions */}
-            <Card className="bg-primary/5 border-primary/20">
-              <CardContent className="pt-4">
-                <h4 className="font-medium mb-2 flex items-center gap-2">
-                  <Check size={16} className="text-primary" />
-                  How to use
-                </h4>
-                <ol className="text-sm text-muted-foreground space-y-1 list-decimal list-inside">
-                  <li>Highlight any word or phrase in the passage</li>
-                  <li>Click the + button that appears</li>
-                  <li>Review your selected words</li>
-                  <li>Click "Import to Flashcards" to save</li>
-                </ol>
-              </CardContent>
-            </Card>
+            {/* Selected Words Panel */}
+            <div className="space-y-4">
+              <PassageNotesCard
+                testId={test.id}
+                contentIds={currentContentIds}
+                onSelect={setActiveHighlightId}
+              />
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      <Layers size={18} className="text-primary" />
+                      Selected Words
+                    </span>
+                    {selectedWords.length > 0 && (
+                      <Button variant="ghost" size="sm" onClick={clearSelection}>
+                        Clear All
+                      </Button>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {selectedWords.length === 0 ? (
+                    <div className="text-center py-8">
+                      <BookOpen className="w-12 h-12 mx-auto text-muted-foreground/30 mb-3" />
+                      <p className="text-sm text-muted-foreground">
+                        Select words from the passage to add them here
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Highlight text and click the + button
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      {selectedWords.map((word, idx) => (
+                        <div 
+                          key={idx}
+                          className="flex items-center justify-between p-2 rounded-lg bg-muted/50 group"
+                        >
+                          <span className="font-medium">{word.text}</span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                            onClick={() => removeFromSelection(word.text)}
+                          >
+                            <X size={14} />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {selectedWords.length > 0 && (
+                    <Button 
+                      className="w-full mt-4 gap-2"
+                      onClick={() => setShowImportDialog(true)}
+                    >
+                      <Layers size={16} />
+                      Import to Flashcards ({selectedWords.length})
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Instructions */}
+              <Card className="bg-primary/5 border-primary/20">
+                <CardContent className="pt-4">
+                  <h4 className="font-medium mb-2 flex items-center gap-2">
+                    <Check size={16} className="text-primary" />
+                    How to use
+                  </h4>
+                  <ol className="text-sm text-muted-foreground space-y-1 list-decimal list-inside">
+                    <li>Highlight any word or phrase in the passage</li>
+                    <li>Click the + button that appears</li>
+                    <li>Review your selected words</li>
+                    <li>Click "Import to Flashcards" to save</li>
+                  </ol>
+                </CardContent>
+              </Card>
+            </div>
           </div>
         </div>
-      </div>
 
-      {/* Selection Toolbar */}
-      {selectionPosition && currentSelection && (
-        <WordSelectionToolbar
-          position={selectionPosition}
-          word={currentSelection}
-          onAdd={addToSelection}
-          onClose={() => {
-            setCurrentSelection('');
-            setSelectionPosition(null);
+        {/* Selection Toolbar */}
+        {selectionPosition && currentSelection && (
+          <WordSelectionToolbar
+            position={selectionPosition}
+            word={currentSelection}
+            onAdd={addToSelection}
+            onClose={() => {
+              setCurrentSelection('');
+              setSelectionPosition(null);
+            }}
+          />
+        )}
+
+        {/* Import Dialog */}
+        <ImportToFlashcardDialog
+          open={showImportDialog}
+          onOpenChange={setShowImportDialog}
+          words={selectedWords.map(w => w.text)}
+          onSuccess={() => {
+            setSelectedWords([]);
+            setShowImportDialog(false);
           }}
         />
-      )}
-
-      {/* Import Dialog */}
-      <ImportToFlashcardDialog
-        open={showImportDialog}
-        onOpenChange={setShowImportDialog}
-        words={selectedWords.map(w => w.text)}
-        onSuccess={() => {
-          setSelectedWords([]);
-          setShowImportDialog(false);
-        }}
-      />
-    </div>
+      </div>
+    </HighlightNoteProvider>
   );
 }
@@ -15,10 +15,12 @@ import {
   ResizablePanelGroup,
 } from "@/components/ui/resizable";
 import { cn } from '@/lib/utils';
-import { HighlightNoteProvider } from '@/hooks/useHighlightNotes';
+import { HighlightNoteProvider, type HighlightNoteState } from '@/hooks/useHighlightNotes';
 import { NoteSidebar } from '@/components/common/NoteSidebar';
 import { SubmitConfirmDialog } from '@/components/common/SubmitConfirmDialog';
+import { TestReviewScreen, type ReviewPart } from '@/components/common/TestReviewScreen';
 import { RestoreTestStateDialog } from '@/components/common/RestoreTestStateDialog';
+import { SessionConflictDialog } from '@/components/common/SessionConflictDialog';
 import { TestEntryOverlay } from '@/components/common/TestEntryOverlay';
 import { PullToRefreshIndicator } from '@/components/common/PullToRefreshIndicator';
 import { SubmissionErrorState } from '@/components/common/SubmissionErrorState';
@@ -28,11 +30,12 @@ import { useFullscreenTest } from '@/hooks/useFullscreenTest';
 import { useSwipeGesture } from '@/hooks/useSwipeGesture';
 import { usePullToRefresh } from '@/hooks/usePullToRefresh';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useMockTestSession } from '@/hooks/useMockTestSession';
+import { useTestSessionSync } from '@/hooks/useTestSessionSync';
 import { 
   useTestSubmission, 
-  calculateBandScoreFromRaw40,
-  calculateBandScoreFromPercentage,
   checkAnswerWithAlternatives,
+  getUnansweredQuestionNumbers,
   savePendingTestState,
   clearPendingTestState,
   withRetry,
@@ -41,6 +44,13 @@ import {
   dismissRetryToast,
 } from '@/hooks/useTestSubmission';
 import { describeApiError } from '@/lib/apiErrors';
+import { rawScoreToBand, toTestModule } from '@/lib/bandConversion';
+import {
+  hasResumableProgress,
+  isOpenOnAnotherDevice,
+  type SavedTestSession,
+  type TestSessionSnapshot,
+} from '@/lib/testSession';
 
 interface Question {
   id: string;
@@ -87,6 +97,7 @@ interface Test {
   title: string;
   book_name: string;
   test_number: number;
+  test_type: string;
   time_limit: number;
   total_questions: number;
 }
@@ -102,6 +113,12 @@ export default function ReadingTest() {
   // Get filter params from URL
   const filterType = searchParams.get('type');
   const filterPart = searchParams.get('part');
+
+  // Part of a full mock test: exam rules apply and results go to the mock report
+  const { isMockSession, completeSection } = useMockTestSession();
+  // Computer-delivered IELTS interactions (always on inside a mock test)
+  const [cdMode, setCdMode] = useState(() => isMockSession || searchParams.get('mode') === 'cd');
+  const [showReviewScreen, setShowReviewScreen] = useState(false);
   
   const [test, setTest] = useState<Test | null>(null);
   const [passages, setPassages] = useState<Passage[]>([]);
@@ -148,6 +165,22 @@ export default function ReadingTest() {
     setIsResubmitting,
   } = useTestSubmission();
   const hasAutoSubmitted = useRef(false);
+
+  // Server-side snapshot so the test can be resumed on another device
+  const {
+    deviceId,
+    savedSession,
+    isLoaded: isSessionLoaded,
+    conflict: sessionConflict,
+    queueSnapshot,
+    takeOver: takeOverSession,
+    adoptRemote: adoptRemoteSession,
+    discard: discardSession,
+  } = useTestSessionSync({ testType: 'reading', testId });
+  const [highlightState, setHighlightState] = useState<HighlightNoteState>({ highlights: [], notes: [] });
+  const [highlightRestore, setHighlightRestore] = useState<HighlightNoteState | null>(null);
+  const [restoredSession, setRestoredSession] = useState<SavedTestSession | null>(null);
+  const [isSessionChecked, setIsSessionChecked] = useState(false);
   
   // Mobile view state - 'passage' or 'questions'
   const [mobileView, setMobileView] = useState<'passage' | 'questions'>('passage');
@@ -279,6 +312,50 @@ export default function ReadingTest() {
     restorePendingState();
   }, [testId]);
 
+  const applySessionSnapshot = useCallback((session: TestSessionSnapshot) => {
+    setAnswers(session.answers);
+    setCurrentQuestion(session.currentQuestion);
+    setCurrentPassageIndex(session.currentPassageIndex);
+    setFlaggedQuestions(new Set(session.flaggedQuestions));
+    setTimeLeft(session.timeLeft);
+    setHighlightRestore({ highlights: session.highlights, notes: session.notes });
+  }, []);
+
+  // Resume from the server snapshot once the test has loaded (a pending
+  // post-login restore from this browser takes precedence)
+  useEffect(() => {
+    if (loading || !isSessionLoaded || isSessionChecked) return;
+    setIsSessionChecked(true);
+    if (showRestoreDialog || !savedSession || !hasResumableProgress(savedSession)) return;
+
+    applySessionSnapshot(savedSession);
+    setRestoredSession(savedSession);
+    setRestoredTimeLeft(savedSession.timeLeft);
+    setShowRestoreDialog(true);
+  }, [loading, isSessionLoaded, isSessionChecked, showRestoreDialog, savedSession, applySessionSnapshot]);
+
+  // Hand the latest state to the autosave
+  useEffect(() => {
+    if (!testStarted || !isSessionChecked) return;
+    queueSnapshot({
+      answers,
+      timeLeft,
+      currentQuestion,
+      currentPassageIndex,
+      flaggedQuestions: [...flaggedQuestions],
+      highlights: highlightState.highlights,
+      notes: highlightState.notes,
+    });
+  }, [testStarted, isSessionChecked, answers, timeLeft, currentQuestion, currentPassageIndex, flaggedQuestions, highlightState, queueSnapshot]);
+
+  const handleLoadOtherDevice = () => {
+    const remote = adoptRemoteSession();
+    if (remote) {
+      applySessionSnapshot(remote);
+      toast.success('Loaded progress from your other device');
+    }
+  };
+
   // Handler for test entry - enter fullscreen on consent
   const handleEnterTest = useCallback(() => {
     setShowEntryOverlay(false);
@@ -607,12 +684,8 @@ export default function ReadingTest() {
       const total = questionResults.length;
       const percentage = total > 0 ? Math.round((score / total) * 100) : 0;
       
-      // Use official IELTS raw score table for full 40-question tests
-      // Use percentage-based for filtered/part tests
-      const isFullTest = total === 40 && !filterType && !filterPart;
-      const bandScore = isFullTest 
-        ? calculateBandScoreFromRaw40(score) 
-        : calculateBandScoreFromPercentage(percentage);
+      // Official reading table; filtered/part tests are scaled onto the 40-question scale
+      const bandScore = rawScoreToBand('reading', score, total, toTestModule(test?.test_type));
       
       let submissionId = crypto.randomUUID();
       
@@ -663,6 +736,7 @@ export default function ReadingTest() {
       
       // Use shared utility to clear pending state
       clearPendingTestState();
+      await discardSession();
       
       // Store result in sessionStorage for the results page
       const resultData = {
@@ -679,6 +753,11 @@ export default function ReadingTest() {
       };
       
       sessionStorage.setItem(`test_result_${submissionId}`, JSON.stringify(resultData));
+
+      if (isMockSession) {
+        await completeSection('reading', { reading_submission_id: submissionId });
+        return;
+      }
       
       // Navigate to results page
       navigate(`/results/${submissionId}?type=reading&testId=${testId}`);
@@ -853,6 +932,37 @@ export default function ReadingTest() {
     return { totalCount, answeredCount };
   }, [answers, questionGroups, questions, test?.total_questions]);
 
+  // End-of-test review screen (CD-IELTS mode): every question by part, and which are still blank
+  const reviewParts = useMemo<ReviewPart[]>(() => {
+    return passages
+      .map((p, idx) => {
+        const nums = new Set(displayQuestions.filter(q => q.passage_id === p.id).map(q => q.question_number));
+        for (const g of questionGroups) {
+          if (g.question_type === 'MULTIPLE_CHOICE_MULTIPLE' && nums.has(g.start_question)) {
+            for (let n = g.start_question; n <= g.end_question; n++) nums.add(n);
+          }
+        }
+        return { label: `Part ${idx + 1}`, questionNumbers: Array.from(nums).sort((a, b) => a - b) };
+      })
+      .filter(part => part.questionNumbers.length > 0);
+  }, [passages, displayQuestions, questionGroups]);
+
+  const unansweredQuestions = useMemo(
+    () => getUnansweredQuestionNumbers(answers, reviewParts.flatMap(p => p.questionNumbers), questionGroups),
+    [answers, reviewParts, questionGroups]
+  );
+
+  const handleReviewGoToQuestion = (questionNumber: number) => {
+    setShowReviewScreen(false);
+    setCurrentQuestion(questionNumber);
+    const question = displayQuestions.find(q => q.question_number === questionNumber)
+      ?? displayQuestions.find(q => questionGroups.some(g =>
+        g.start_question === q.question_number && questionNumber >= g.start_question && questionNumber <= g.end_question
+      ));
+    const passageIdx = passages.findIndex(p => p.id === question?.passage_id);
+    if (passageIdx !== -1) setCurrentPassageIndex(passageIdx);
+  };
+
   // Early returns - must be after all hooks
   if (loading) {
     return (
@@ -886,7 +996,7 @@ export default function ReadingTest() {
   }
 
   return (
-    <HighlightNoteProvider testId={testId!}>
+    <HighlightNoteProvider testId={testId!} testType="reading" restoreState={highlightRestore} onStateChange={setHighlightState}>
       <div className={cn("h-screen flex flex-col overflow-hidden", getThemeClasses(), "ielts-test-content")}>
         {/* Offline Banner */}
         <OfflineBanner hasPendingAnswers={Object.keys(answers).length > 0} />
@@ -910,8 +1020,8 @@ export default function ReadingTest() {
               <ReadingTimer 
                 timeLeft={timeLeft} 
                 setTimeLeft={setTimeLeft} 
-                isPaused={!testStarted || isPaused} 
-                onTogglePause={() => setIsPaused(!isPaused)} 
+                isPaused={!testStarted || isPaused || !!sessionConflict} 
+                onTogglePause={isMockSession ? undefined : () => setIsPaused(!isPaused)} 
               />
               {/* Notes/Bell Button */}
               <button 
@@ -1108,6 +1218,7 @@ export default function ReadingTest() {
                           renderRichText={renderRichText}
                           selectedHeading={selectedHeading}
                           onSelectedHeadingChange={setSelectedHeading}
+                          cdMode={cdMode}
                         />
                       )}
                     </div>
@@ -1234,6 +1345,7 @@ export default function ReadingTest() {
                       renderRichText={renderRichText}
                       selectedHeading={selectedHeading}
                       onSelectedHeadingChange={setSelectedHeading}
+                      cdMode={cdMode}
                     />
                   )}
                 </div>
@@ -1301,7 +1413,7 @@ export default function ReadingTest() {
               return newSet;
             });
           }}
-          onSubmit={() => setShowSubmitDialog(true)}
+          onSubmit={() => (cdMode ? setShowReviewScreen(true) : setShowSubmitDialog(true))}
           questionGroups={questionGroups}
         />
       </div>
@@ -1322,11 +1434,29 @@ export default function ReadingTest() {
         totalCount={submitStats.totalCount}
         contrastMode={contrastMode}
       />
+      <TestReviewScreen
+        open={showReviewScreen}
+        onOpenChange={setShowReviewScreen}
+        parts={reviewParts}
+        unansweredQuestions={unansweredQuestions}
+        flaggedQuestions={flaggedQuestions}
+        onGoToQuestion={handleReviewGoToQuestion}
+        onSubmit={() => {
+          setShowReviewScreen(false);
+          handleSubmit();
+        }}
+      />
       <RestoreTestStateDialog
         open={showRestoreDialog}
         timeLeft={restoredTimeLeft ?? 0}
         answeredCount={submitStats.answeredCount}
         totalQuestions={submitStats.totalCount}
+        savedOnDevice={
+          restoredSession && restoredSession.deviceId !== deviceId
+            ? restoredSession.deviceLabel ?? 'another device'
+            : null
+        }
+        isOpenElsewhere={!!restoredSession && isOpenOnAnotherDevice(restoredSession, deviceId)}
         onContinue={() => {
           localStorage.removeItem('pendingTestSubmission');
           setShowRestoreDialog(false);
@@ -1338,11 +1468,19 @@ export default function ReadingTest() {
           await handleSubmit();
         }}
       />
+      <SessionConflictDialog
+        session={sessionConflict}
+        totalQuestions={submitStats.totalCount}
+        onUseThisDevice={takeOverSession}
+        onLoadOtherDevice={handleLoadOtherDevice}
+      />
       <TestEntryOverlay
         onEnter={handleEnterTest}
         isVisible={showEntryOverlay && !testStarted}
         testType="reading"
         testTitle={test?.title}
+        cdMode={cdMode}
+        onCdModeChange={isMockSession ? undefined : setCdMode}
       />
     </HighlightNoteProvider>
   );
@@ -4,9 +4,12 @@ import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
 import { BookSectionNew, QuestionTypeFilter } from '@/components/test-list';
 import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { BookOpen } from 'lucide-react';
 import { useUserTestScores } from '@/hooks/useUserTestScores';
 import { useAuth } from '@/hooks/useAuth';
+import { useIELTSModulePreference, IELTS_MODULE_LABELS } from '@/hooks/useIELTSModulePreference';
+import { toTestModule, type IELTSTestModule } from '@/lib/bandConversion';
 
 interface Passage {
   id: string;
@@ -27,6 +30,7 @@ interface ReadingTest {
   title: string;
   book_name: string;
   test_number: number;
+  test_type: string;
   time_limit: number;
   total_questions: number;
   created_at: string;
@@ -46,6 +50,7 @@ export default function ReadingTestList() {
   const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
   const { reading: userScores, loading: scoresLoading } = useUserTestScores();
   const { user } = useAuth();
+  const { module: ieltsModule, setModule: setIeltsModule } = useIELTSModulePreference();
 
   useEffect(() => {
     fetchTests();
@@ -99,9 +104,14 @@ export default function ReadingTestList() {
     }
   };
 
+  const moduleTests = useMemo(
+    () => tests.filter((test) => toTestModule(test.test_type) === ieltsModule),
+    [tests, ieltsModule]
+  );
+
   // Group tests by book and sort books by number descending (newest first)
   const groupedTests = useMemo(() => {
-    const groups = tests.reduce((acc, test) => {
+    const groups = moduleTests.reduce((acc, test) => {
       if (!acc[test.book_name]) {
         acc[test.book_name] = [];
       }
@@ -115,18 +125,18 @@ export default function ReadingTestList() {
     });
 
     return sortedEntries;
-  }, [tests]);
+  }, [moduleTests]);
 
   // Get all unique question types
   const availableQuestionTypes = useMemo(() => {
     const types = new Set<string>();
-    tests.forEach((test) => {
+    moduleTests.forEach((test) => {
       test.question_groups?.forEach((group) => {
         types.add(group.question_type);
       });
     });
     return Array.from(types).sort();
-  }, [tests]);
+  }, [moduleTests]);
 
   const handleTypeToggle = (type: string) => {
     setSelectedTypes((prev) =>
@@ -150,12 +160,22 @@ export default function ReadingTestList() {
               fontFamily: 'var(--font-ielts)'
             }}
           >
-            <h1 className="text-xl font-bold" style={{ color: 'hsl(var(--ielts-section-text))' }}>
-              IELTS Academic Reading Practice Tests
-            </h1>
-            <p className="text-sm text-muted-foreground mt-1">
-              Cambridge IELTS Books • {tests.length} tests available{user ? ' • Your scores are saved' : ''}
-            </p>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h1 className="text-xl font-bold" style={{ color: 'hsl(var(--ielts-section-text))' }}>
+                  IELTS {IELTS_MODULE_LABELS[ieltsModule]} Reading Practice Tests
+                </h1>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Cambridge IELTS Books • {moduleTests.length} tests available{user ? ' • Your scores are saved' : ''}
+                </p>
+              </div>
+              <Tabs value={ieltsModule} onValueChange={(v) => setIeltsModule(v as IELTSTestModule).catch(console.error)}>
+                <TabsList>
+                  <TabsTrigger value="academic">{IELTS_MODULE_LABELS.academic}</TabsTrigger>
+                  <TabsTrigger value="general">{IELTS_MODULE_LABELS.general}</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
           </div>
 
           {/* Question Type Filter */}
@@ -180,7 +200,7 @@ export default function ReadingTestList() {
               </div>
               <p className="text-muted-foreground">Loading tests...</p>
             </div>
-          ) : tests.length === 0 ? (
+          ) : moduleTests.length === 0 ? (
             <Card className="text-center py-16">
               <CardContent className="flex flex-col items-center gap-4">
                 <div className="w-20 h-20 rounded-2xl bg-secondary flex items-center justify-center">
@@ -188,7 +208,7 @@ export default function ReadingTestList() {
                 </div>
                 <div>
                   <h3 className="font-semibold text-lg">No Tests Available</h3>
-                  <p className="text-muted-foreground">Check back soon for new reading tests.</p>
+                  <p className="text-muted-foreground">Check back soon for new {IELTS_MODULE_LABELS[ieltsModule]} reading tests.</p>
                 </div>
               </CardContent>
             </Card>
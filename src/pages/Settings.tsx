@@ -7,8 +7,10 @@ import { UserApiKeyManager } from '@/components/user/UserApiKeyManager';
 import { toast } from 'sonner';
 import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
-import { Globe, Save } from 'lucide-react';
+import { Globe, Save, GraduationCap } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { useIELTSModulePreference, IELTS_MODULE_LABELS } from '@/hooks/useIELTSModulePreference';
+import type { IELTSTestModule } from '@/lib/bandConversion';
 
 const SUPPORTED_LANGUAGES = [
   { code: 'bn', name: 'বাংলা (Bengali)' },
@@ -73,6 +75,7 @@ export default function Settings() {
   const [selectedLanguage, setSelectedLanguage] = useState<string>('');
   const [isSaving, setIsSaving] = useState(false);
   const [autoDetected, setAutoDetected] = useState(false);
+  const { module: ieltsModule, setModule: setIeltsModule, loading: moduleLoading } = useIELTSModulePreference();
 
   useEffect(() => {
     // Load language preference from localStorage
@@ -108,6 +111,16 @@ export default function Settings() {
     }
   };
 
+  const handleModuleChange = async (value: string) => {
+    try {
+      await setIeltsModule(value as IELTSTestModule);
+      toast.success(`Switched to IELTS ${IELTS_MODULE_LABELS[value as IELTSTestModule]}`);
+    } catch (error) {
+      console.error('Error saving IELTS module:', error);
+      toast.error('Failed to save IELTS module preference');
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background flex flex-col">
       <Navbar />
@@ -118,6 +131,34 @@ export default function Settings() {
         </div>
 
         <div className="space-y-6">
+          {/* IELTS Module */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <GraduationCap size={20} className="text-primary" />
+                IELTS Module
+              </CardTitle>
+              <CardDescription>
+                Choose the test you are preparing for. Reading and writing tests are filtered to match, and reading scores use that module's band table.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="ielts-module">Module</Label>
+              <Select value={ieltsModule} onValueChange={handleModuleChange} disabled={moduleLoading}>
+                <SelectTrigger id="ielts-module" className="w-full max-w-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="academic">{IELTS_MODULE_LABELS.academic}</SelectItem>
+                  <SelectItem value="general">{IELTS_MODULE_LABELS.general}</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                General Training uses letters for Writing Task 1 and everyday/workplace texts in Reading.
+              </p>
+            </CardContent>
+          </Card>
+
           {/* Language Preferences */}
           <Card>
             <CardHeader>
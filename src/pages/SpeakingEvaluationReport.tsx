@@ -16,6 +16,9 @@ import { ModelAnswersAccordion } from '@/components/speaking/ModelAnswersAccordi
 import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
 import { cn } from '@/lib/utils';
+import { roundIELTSBand } from '@/lib/ieltsBand';
+import { FluencyTimeline } from '@/components/speaking/FluencyTimeline';
+import { QuestionRetryDialog } from '@/components/speaking/QuestionRetryDialog';
 import {
   ArrowLeft,
   Mic,
@@ -128,11 +131,6 @@ interface EvaluationReport {
   part_analysis?: PartAnalysis[];
 }
 
-// Helper function to round to nearest 0.5
-const roundToHalf = (num: number): number => {
-  return Math.round(num * 2) / 2;
-};
-
 // Normalize criterion to consistent format
 const normalizeCriterion = (data: CriterionScore | undefined): {
   score: number;
@@ -399,7 +397,7 @@ export default function SpeakingEvaluationReport() {
                   <SelectContent>
                     {allSubmissions.map((sub, index) => {
                       const bandForAttempt = sub.overall_band !== null && sub.overall_band !== undefined
-                        ? roundToHalf(sub.overall_band)
+                        ? roundIELTSBand(sub.overall_band)
                         : null;
 
                       return (
@@ -585,6 +583,11 @@ export default function SpeakingEvaluationReport() {
                             <audio controls src={audioUrl} className="w-full h-10" preload="metadata">
                               Your browser does not support audio playback.
                             </audio>
+                            <FluencyTimeline
+                              audioUrl={audioUrl}
+                              transcript={transcriptsForPart.map((t) => t.transcript).join(' ')}
+                              className="mt-3"
+                            />
                           </div>
                         )}
 
@@ -605,9 +608,22 @@ export default function SpeakingEvaluationReport() {
 
                               return (
                                 <div key={question.id} className="space-y-2 pb-3 border-b last:border-b-0 last:pb-0">
-                                  <p className="text-sm font-medium">
-                                    Q{qn}: {question.question_text}
-                                  </p>
+                                  <div className="flex items-start gap-2">
+                                    <p className="text-sm font-medium flex-1">
+                                      Q{qn}: {question.question_text}
+                                    </p>
+                                    {transcript && (
+                                      <QuestionRetryDialog
+                                        source={{
+                                          submissionId: currentSubmission.id,
+                                          segmentKey: `part${partNum}-q${question.id}`,
+                                          partNumber: partNum,
+                                          questionNumber: qn,
+                                          questionText: question.question_text,
+                                        }}
+                                      />
+                                    )}
+                                  </div>
 
                                   <div className="pl-3 border-l-2 border-muted">
                                     <p className="text-xs text-muted-foreground mb-1 flex items-center gap-1">
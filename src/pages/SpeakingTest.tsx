@@ -24,6 +24,7 @@ import { Badge } from '@/components/ui/badge';
 import { MicrophoneTest } from '@/components/speaking/MicrophoneTest';
 import { AILoadingScreen } from '@/components/common/AILoadingScreen';
 import { useFullscreenTest } from '@/hooks/useFullscreenTest';
+import { useMockTestSession } from '@/hooks/useMockTestSession';
 
 type SpeakingTest = Tables<'speaking_tests'>;
 
@@ -69,6 +70,9 @@ export default function SpeakingTest() {
   const location = useLocation();
   const { user } = useAuth();
 
+  // Part of a full mock test: exam rules apply and results go to the mock report
+  const { isMockSession, completeSection } = useMockTestSession();
+
   // Guard to prevent in-flight submission/evaluation from navigating after user leaves
   const isMountedRef = useRef(true);
   const exitRequestedRef = useRef(false);
@@ -811,7 +815,9 @@ export default function SpeakingTest() {
         await exitFullscreen();
         // Navigate to results using the result ID from the evaluation response
         const resultId = data?.resultId;
-        if (resultId) {
+        if (isMockSession) {
+          await completeSection('speaking', { speaking_submission_id: newSubmission.id });
+        } else if (resultId) {
           navigate(`/ai-speaking/results/${speakingTest.id}/${resultId}`);
         } else {
           navigate(`/speaking/evaluation/${testId}/${newSubmission.id}`);
@@ -830,7 +836,7 @@ export default function SpeakingTest() {
       setIsSubmitting(false);
       setShowAILoadingScreen(false); // Hide loading screen
     }
-  }, [user, speakingTest, testId, isRecording, stopRecording, navigate, questionGroups, saveGuestDraft, clearGuestDraft, isSubmitting, saveFailedSubmissionLocally]);
+  }, [user, speakingTest, testId, isRecording, stopRecording, navigate, questionGroups, saveGuestDraft, clearGuestDraft, isSubmitting, saveFailedSubmissionLocally, isMockSession, completeSection]);
 
   // Resubmit handler
   const handleResubmit = useCallback(async () => {
@@ -1334,7 +1340,7 @@ export default function SpeakingTest() {
               })()}
               
               {/* Pause/Resume button */}
-              {isRecording && (
+              {isRecording && !isMockSession && (
                 <Button
                   variant={isPaused ? "default" : "outline"}
                   size="sm"
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -24,8 +24,15 @@ import { cn } from '@/lib/utils';
 import { toast } from '@/hooks/use-toast';
 import { describeApiError } from '@/lib/apiErrors';
 import { TranscriptViewer } from '@/components/listening/TranscriptViewer';
+import { HighlightNoteProvider } from '@/hooks/useHighlightNotes';
+import { AnswerClipPlayer, ListeningMissBreakdown } from '@/components/listening/ListeningMissAnalysis';
 import { AddToFlashcardButton } from '@/components/common/AddToFlashcardButton';
 import { ProgressOverlayFlashcard } from '@/components/common/ProgressOverlayFlashcard';
+import { AnswerVerdictNote } from '@/components/common/AnswerVerdictNote';
+import { DisputeAnswerButton } from '@/components/common/DisputeAnswerButton';
+import { AnswerVerdict, explainAnswer, parseWordLimit, supportsAnswerVariants } from '@/lib/ieltsAnswerValidation';
+import { convertRawScore, toTestModule, type BandConversion } from '@/lib/bandConversion';
+import { findAnswerSentence, getListeningPart, summarizeListeningMisses } from '@/lib/listeningAnalytics';
 
 interface QuestionResult {
   questionNumber: number;
@@ -36,6 +43,7 @@ interface QuestionResult {
   explanation?: string;
   options?: any;
   questionType?: string;
+  verdict?: AnswerVerdict;
 }
 
 /**
@@ -67,10 +75,12 @@ interface TopScorer {
 
 interface TestResultData {
   id: string;
+  testId?: string;
   score: number;
   total: number;
   percentage: number;
   bandScore: number;
+  bandConversion: BandConversion;
   testTitle: string;
   bookName: string;
   testNumber: number;
@@ -102,6 +112,8 @@ export default function TestResults() {
     passage3?: { title: string; content: string } | null;
   }>({});
   const [questionPassageMap, setQuestionPassageMap] = useState<Record<number, number>>({});
+  // Listening only: the audio file and offset where each answer is heard
+  const [answerClips, setAnswerClips] = useState<Record<number, { audioUrl: string; timestamp: number }>>({});
   const [showOnlyIncorrect, setShowOnlyIncorrect] = useState(false);
   const [showFlashcardReview, setShowFlashcardReview] = useState(false);
   const autoLoadedRef = useRef(false);
@@ -201,7 +213,8 @@ export default function TestResults() {
           (g.listening_questions || []).map((lq: any) => ({
             ...lq,
             question_type: g.question_type,
-            group_options: g.options
+            group_options: g.options,
+            instruction: g.instruction
           }))
         ) || [];
       }
@@ -212,6 +225,9 @@ export default function TestResults() {
         const correctAnswer = q.correct_answer || '';
         const correctOptions = correctAnswer.toLowerCase().split('/').map((a: string) => a.trim());
         const isCorrect = correctOptions.includes(userAnswer.toLowerCase().trim());
+        const verdict = explainAnswer(userAnswer, correctAnswer, q.question_type, {
+          noteWordLimit: parseWordLimit(q.instruction),
+        });
 
         return {
           questionNumber: q.question_number,
@@ -220,7 +236,8 @@ export default function TestResults() {
           correctAnswer,
           isCorrect,
           options: q.options || q.group_options,
-          questionType: q.question_type
+          questionType: q.question_type,
+          verdict
         };
       }).sort((a, b) => a.questionNumber - b.questionNumber);
 
@@ -228,14 +245,21 @@ export default function TestResults() {
       const total = submission.total_questions || questionResults.length;
       const percentage = total > 0 ? Math.round((score / total) * 100) : 0;
       
-      const bandScore = calculateBandScore(percentage);
+      const bandConversion = convertRawScore({
+        skill: testType === 'listening' ? 'listening' : 'reading',
+        correct: score,
+        total,
+        module: toTestModule(testInfo?.test_type),
+      });
 
       setResultData({
         id: submission.id,
+        testId: submission.test_id,
         score,
         total,
         percentage,
-        bandScore,
+        bandScore: bandConversion.band,
+        bandConversion,
         testTitle: testInfo?.title || 'Test',
         bookName: testInfo?.book_name || '',
         testNumber: testInfo?.test_number || 1,
@@ -246,6 +270,11 @@ export default function TestResults() {
       // Set transcripts for listening tests
       if (testType === 'listening' && testInfo) {
         const listeningTestInfo = testInfo as {
+          audio_url?: string | null;
+          audio_url_part1?: string | null;
+          audio_url_part2?: string | null;
+          audio_url_part3?: string | null;
+          audio_url_part4?: string | null;
           transcript_part1?: string | null;
           transcript_part2?: string | null;
           transcript_part3?: string | null;
@@ -257,6 +286,16 @@ export default function TestResults() {
           part3: listeningTestInfo.transcript_part3,
           part4: listeningTestInfo.transcript_part4,
         });
+
+        // Timestamps are relative to the part's own file, or the combined file for single-audio tests
+        const clips: Record<number, { audioUrl: string; timestamp: number }> = {};
+        questions.forEach(q => {
+          if (q.audio_timestamp === null || q.audio_timestamp === undefined) return;
+          const partKey = `audio_url_part${getListeningPart(q.question_number)}` as keyof typeof listeningTestInfo;
+          const audioUrl = listeningTestInfo[partKey] || listeningTestInfo.audio_url;
+          if (audioUrl) clips[q.question_number] = { audioUrl, timestamp: Number(q.audio_timestamp) };
+        });
+        setAnswerClips(clips);
       }
     } catch (error) {
       console.error('Error fetching result data:', error);
@@ -337,23 +376,6 @@ export default function TestResults() {
     }
   };
 
-  const calculateBandScore = (percentage: number): number => {
-    if (percentage >= 93) return 9;
-    if (percentage >= 85) return 8.5;
-    if (percentage >= 78) return 8;
-    if (percentage >= 70) return 7.5;
-    if (percentage >= 63) return 7;
-    if (percentage >= 55) return 6.5;
-    if (percentage >= 48) return 6;
-    if (percentage >= 40) return 5.5;
-    if (percentage >= 33) return 5;
-    if (percentage >= 25) return 4.5;
-    if (percentage >= 18) return 4;
-    if (percentage >= 13) return 3.5;
-    if (percentage >= 8) return 3;
-    return 2.5;
-  };
-
   const getTranscriptContext = (questionNumber: number): string => {
     // Determine which part the question belongs to based on question number
     // Part 1: Q1-10, Part 2: Q11-20, Part 3: Q21-30, Part 4: Q31-40
@@ -478,6 +500,27 @@ Thank you for looking into this.
     });
   };
 
+  const renderDisputeButton = (questionResult: QuestionResult, className?: string) => {
+    const disputedTestId = resultData?.testId || testId;
+    if (questionResult.isCorrect || !disputedTestId) return null;
+    if (testType !== 'reading' && testType !== 'listening') return null;
+    if (!supportsAnswerVariants(questionResult.questionType)) return null;
+
+    return (
+      <DisputeAnswerButton
+        testSource={testType}
+        testId={disputedTestId}
+        submissionId={submissionId}
+        questionNumber={questionResult.questionNumber}
+        questionText={questionResult.questionText}
+        questionType={questionResult.questionType}
+        userAnswer={questionResult.userAnswer}
+        correctAnswer={questionResult.correctAnswer}
+        className={className}
+      />
+    );
+  };
+
   const handleRetake = () => {
     if (testId) {
       navigate(`/${testType}/test/${testId}`);
@@ -494,6 +537,24 @@ Thank you for looking into this.
     ? resultData?.questionResults.filter(r => !r.isCorrect) || []
     : resultData?.questionResults || [];
 
+  const listeningMissSummary = useMemo(
+    () => testType === 'listening' && resultData ? summarizeListeningMisses(resultData.questionResults) : null,
+    [testType, resultData]
+  );
+
+  // Transcript sentence that gives away each missed answer
+  const missedAnswerSentences = useMemo(() => {
+    const sentences: Record<number, string> = {};
+    if (testType !== 'listening' || !resultData) return sentences;
+    for (const result of resultData.questionResults) {
+      if (result.isCorrect) continue;
+      const transcript = transcripts[`part${getListeningPart(result.questionNumber)}` as keyof typeof transcripts];
+      const sentence = findAnswerSentence(transcript, result.correctAnswer);
+      if (sentence) sentences[result.questionNumber] = sentence;
+    }
+    return sentences;
+  }, [testType, resultData, transcripts]);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -516,6 +577,8 @@ Thank you for looking into this.
     );
   }
 
+  const resultTestId = resultData.testId || testId;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-accent/5">
       {/* Header */}
@@ -556,6 +619,11 @@ Thank you for looking into this.
                     </Badge>
                     <span className="text-2xl font-bold">{resultData.percentage}%</span>
                   </div>
+                  {resultData.bandConversion.isPartial && (
+                    <p className="text-xs text-muted-foreground mb-2">
+                      Estimated from a partial test, scaled to {resultData.bandConversion.scaledRaw}/40
+                    </p>
+                  )}
                   <div className="flex items-center gap-4 text-sm">
                     <span className="flex items-center gap-1 text-emerald-600">
                       <CheckCircle2 size={16} />
@@ -728,6 +796,19 @@ Thank you for looking into this.
                       </div>
                     </div>
 
+                    {result.verdict && (
+                      <AnswerVerdictNote verdict={result.verdict} isCorrect={result.isCorrect} />
+                    )}
+
+                    {testType === 'listening' && !result.isCorrect && answerClips[result.questionNumber] && (
+                      <AnswerClipPlayer
+                        audioUrl={answerClips[result.questionNumber].audioUrl}
+                        timestamp={answerClips[result.questionNumber].timestamp}
+                        correctAnswer={result.correctAnswer}
+                        answerSentence={missedAnswerSentences[result.questionNumber]}
+                      />
+                    )}
+
                     {/* AI Explanation - Always Visible */}
                     <div className="pt-2 border-t border-border/50">
                       {explanations[result.questionNumber] ? (
@@ -737,15 +818,18 @@ Thank you for looking into this.
                               <Sparkles size={16} className="text-primary" />
                               <span className="text-sm font-medium">AI Explanation</span>
                             </div>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => reportIssue(result)}
-                              className="gap-1 text-xs text-muted-foreground hover:text-amber-600 h-7"
-                            >
-                              <Flag size={12} />
-                              Report
-                            </Button>
+                            <div className="flex items-center gap-1">
+                              {renderDisputeButton(result, 'h-7 text-xs')}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => reportIssue(result)}
+                                className="gap-1 text-xs text-muted-foreground hover:text-amber-600 h-7"
+                              >
+                                <Flag size={12} />
+                                Report
+                              </Button>
+                            </div>
                           </div>
                           <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">
                             {explanations[result.questionNumber]}
@@ -794,6 +878,7 @@ Thank you for looking into this.
                             <Flag size={14} />
                             Report Issue
                           </Button>
+                          {renderDisputeButton(result)}
                           <AddToFlashcardButton 
                             word={result.questionText.slice(0, 50)}
                             meaning={result.correctAnswer}
@@ -811,12 +896,22 @@ Thank you for looking into this.
 
             {/* Transcript Viewer for Listening Tests */}
             {testType === 'listening' && (transcripts.part1 || transcripts.part2 || transcripts.part3 || transcripts.part4) && (
-              <TranscriptViewer transcripts={transcripts} className="mt-6" />
+              <HighlightNoteProvider testId={resultTestId ?? 'results'} testType={resultTestId ? 'listening' : undefined}>
+                <TranscriptViewer
+                  transcripts={transcripts}
+                  className="mt-6"
+                  highlightSentences={Object.values(missedAnswerSentences)}
+                  noteTestId={resultTestId ?? undefined}
+                />
+              </HighlightNoteProvider>
             )}
           </div>
 
           {/* Right Side - Top Scorers */}
-          <div className="lg:sticky lg:top-24 lg:self-start">
+          <div className="lg:sticky lg:top-24 lg:self-start space-y-4">
+            {listeningMissSummary && resultData.questionResults.some(r => !r.isCorrect) && (
+              <ListeningMissBreakdown summary={listeningMissSummary} />
+            )}
             <Card>
               <CardHeader className="pb-3">
                 <CardTitle className="flex items-center gap-2 text-base">
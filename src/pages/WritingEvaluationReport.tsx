@@ -4,13 +4,17 @@ import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Star, FileText, MessageSquareText, Lightbulb, CheckCircle2, History, AlertCircle, BookOpen } from 'lucide-react';
+import { ArrowLeft, Star, FileText, MessageSquareText, Lightbulb, CheckCircle2, History, AlertCircle, BookOpen, PenLine } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '@/hooks/useAuth';
 import { Tables } from '@/integrations/supabase/types';
 import { renderRichText } from '@/components/admin/RichTextEditor';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AddToFlashcardButton } from '@/components/common/AddToFlashcardButton';
+import { calculateWritingBand } from '@/lib/ieltsBand';
+import { readWritingAnnotations } from '@/lib/writingAnnotations';
+import { AnnotatedEssay } from '@/components/writing/AnnotatedEssay';
+import { RevisionHistory } from '@/components/writing/RevisionHistory';
 
 
 type WritingTest = Tables<'writing_tests'>;
@@ -31,15 +35,11 @@ interface EvaluationReport {
   lexical_resource: CriterionEvaluation;
   grammatical_range_and_accuracy: CriterionEvaluation;
   overall_suggestions: string; // This one is a direct string
+  annotations?: unknown; // Resolved error spans, see readWritingAnnotations
   raw_response?: string;
   parse_error?: string;
 }
 
-// Helper function to round to nearest 0.5
-const roundToHalf = (num: number): number => {
-  return Math.round(num * 2) / 2;
-};
-
 export default function WritingEvaluationReport() {
   const { testId, submissionId: urlSubmissionId } = useParams<{ testId: string; submissionId?: string }>(); // Get optional submissionId
   const navigate = useNavigate();
@@ -173,19 +173,9 @@ export default function WritingEvaluationReport() {
     return new Date(dateB).getTime() - new Date(dateA).getTime();
   });
 
-  // Calculate combined overall band score
+  // Writing band for the attempt: Task 2 counts twice as much as Task 1
   const combinedOverallBand = useMemo(() => {
-    const scores: number[] = [];
-    if (currentSubmission1?.overall_band !== null && currentSubmission1?.overall_band !== undefined) {
-      scores.push(currentSubmission1.overall_band);
-    }
-    if (currentSubmission2?.overall_band !== null && currentSubmission2?.overall_band !== undefined) {
-      scores.push(currentSubmission2.overall_band);
-    }
-
-    if (scores.length === 0) return null;
-    const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
-    return roundToHalf(average);
+    return calculateWritingBand(currentSubmission1?.overall_band, currentSubmission2?.overall_band);
   }, [currentSubmission1, currentSubmission2]);
 
   const renderEvaluationSection = (submission: WritingSubmission | null, task: WritingTask | null, taskNumber: 1 | 2) => {
@@ -231,13 +221,33 @@ export default function WritingEvaluationReport() {
               Your Submission
             </h3>
             <div className="bg-muted/30 p-4 rounded-md border text-foreground">
-              <p className="whitespace-pre-wrap" style={{ fontSize: '14px' }}>{submission.submission_text}</p>
+              <AnnotatedEssay
+                text={submission.submission_text}
+                annotations={readWritingAnnotations(evaluationReport?.annotations)}
+                taskNumber={taskNumber}
+              />
               <p className="text-sm text-muted-foreground mt-2">Word Count: {submission.word_count}</p>
               <p className="text-sm text-muted-foreground">Min. Word Limit: {task.word_limit_min}</p>
               {task.word_limit_max && <p className="text-sm text-muted-foreground">Max. Word Limit: {task.word_limit_max}</p>}
+              {submission.scan_urls.length > 0 && (
+                <p className="text-sm text-muted-foreground flex flex-wrap items-center gap-2">
+                  Handwritten original:
+                  {submission.scan_urls.map((url, i) => (
+                    <a key={url} href={url} target="_blank" rel="noreferrer" className="text-primary underline">
+                      Page {i + 1}
+                    </a>
+                  ))}
+                </p>
+              )}
             </div>
           </div>
 
+          <RevisionHistory
+            submissions={allSubmissions.filter(s => s.task_id === task.id)}
+            currentId={submission.id}
+            taskNumber={taskNumber}
+          />
+
           {evaluationReport ? (
             <div className="space-y-4">
               <h3 className="text-lg font-semibold flex items-center gap-2">
@@ -381,11 +391,22 @@ export default function WritingEvaluationReport() {
             <p className="text-muted-foreground">Review your AI-generated feedback</p>
           </div>
         </div>
-        {combinedOverallBand !== null && (
-          <Badge className="bg-primary text-primary-foreground text-lg px-4 py-2">
-            Overall Band: {combinedOverallBand.toFixed(1)}
-          </Badge>
-        )}
+        <div className="flex items-center gap-3">
+          {(currentSubmission1 || currentSubmission2) && (
+            <Button
+              variant="outline"
+              onClick={() => navigate(`/writing/test/${testId}/new-submission?revise=${(currentSubmission1 ?? currentSubmission2)!.id}`)}
+            >
+              <PenLine size={16} className="mr-2" />
+              Revise this attempt
+            </Button>
+          )}
+          {combinedOverallBand !== null && (
+            <Badge className="bg-primary text-primary-foreground text-lg px-4 py-2">
+              Overall Band: {combinedOverallBand.toFixed(1)}
+            </Badge>
+          )}
+        </div>
       </header>
 
       <main className="flex-1 container mx-auto px-4 py-12">
@@ -405,10 +426,10 @@ export default function WritingEvaluationReport() {
                   </SelectTrigger>
                   <SelectContent>
                     {sortedAttempts.map(([submittedAt, submissionsInAttempt], index) => {
-                      const validScores = submissionsInAttempt.filter(s => s.overall_band !== null && s.overall_band !== undefined);
-                      const averageBandForAttempt = validScores.length > 0 
-                        ? roundToHalf(validScores.reduce((sum, s) => sum + (s.overall_band || 0), 0) / validScores.length)
-                        : null;
+                      const averageBandForAttempt = calculateWritingBand(
+                        submissionsInAttempt.find(s => s.task_id === task1?.id)?.overall_band,
+                        submissionsInAttempt.find(s => s.task_id === task2?.id)?.overall_band
+                      );
 
                       return (
                         <SelectItem 
@@ -416,6 +437,7 @@ export default function WritingEvaluationReport() {
                           value={submissionsInAttempt[0].id} // Use Task 1's submission ID to represent the attempt
                         >
                           Attempt {sortedAttempts.length - index} - {new Date(submittedAt).toLocaleString()}
+                          {submissionsInAttempt[0].revision_number > 1 && ` · version ${submissionsInAttempt[0].revision_number}`}
                           {averageBandForAttempt !== null && (
                             <span className="ml-2 text-muted-foreground">
                               (Band {averageBandForAttempt.toFixed(1)})
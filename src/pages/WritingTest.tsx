@@ -23,12 +23,26 @@ import { describeApiError, ApiErrorDescriptor } from '@/lib/apiErrors';
 import { Tables, TablesInsert } from '@/integrations/supabase/types';
 import { AILoadingScreen } from '@/components/common/AILoadingScreen';
 import { useFullscreenTest } from '@/hooks/useFullscreenTest';
+import { useMockTestSession } from '@/hooks/useMockTestSession';
+import { toTestModule } from '@/lib/bandConversion';
+import type { DraftContext } from '@/lib/writingAssistant';
 
 // Define types for the new structure
 type WritingTest = Tables<'writing_tests'>;
 type WritingTask = Tables<'writing_tasks'>;
 // WritingSubmission type available from Tables<'writing_submissions'>
 
+interface RevisionSource {
+  id: string;
+  revision_number: number;
+}
+
+// Columns linking a new row to the version it revises
+const revisionFields = (source: RevisionSource | null) => ({
+  revision_of: source?.id ?? null,
+  revision_number: source ? source.revision_number + 1 : 1,
+});
+
 // Helper to render rich text (markdown-like formatting)
 const renderRichText = (text: string): string => {
   if (!text) return '';
@@ -94,7 +108,18 @@ export default function WritingTest() {
   const [submissionError, setSubmissionError] = useState<ApiErrorDescriptor | null>(null);
   const [isResubmitting, setIsResubmitting] = useState(false);
 
-  const isNewSubmissionRequest = location.pathname.endsWith('/new-submission');
+  // Part of a full mock test: exam rules apply and results go to the mock report
+  const { isMockSession, completeSection } = useMockTestSession();
+
+  // A mock test always starts from a blank answer sheet rather than old drafts
+  const isNewSubmissionRequest = location.pathname.endsWith('/new-submission') || isMockSession;
+
+  // `?revise=<submission id>` starts a revision of that attempt: both tasks open
+  // with the previous text and the new rows link back to it
+  const reviseFromId = isMockSession ? null : new URLSearchParams(location.search).get('revise');
+  const [revisionOf, setRevisionOf] = useState<Record<'task1' | 'task2', RevisionSource | null>>({ task1: null, task2: null });
+  // Uploaded pages when an answer was written on paper and transcribed
+  const [scanUrls, setScanUrls] = useState<Record<'task1' | 'task2', string[]>>({ task1: [], task2: [] });
 
   // --- Start of reordered functions ---
 
@@ -120,6 +145,8 @@ export default function WritingTest() {
         submission_text: submissionText1,
         word_count: wordCount1,
         submitted_at: submissionTimestamp, // Use the consistent timestamp
+        scan_urls: scanUrls.task1,
+        ...revisionFields(revisionOf.task1),
       };
       if (submissionId1) {
         await supabase.from('writing_submissions').update(submissionData1).eq('id', submissionId1);
@@ -135,6 +162,8 @@ export default function WritingTest() {
         submission_text: submissionText2,
         word_count: wordCount2,
         submitted_at: submissionTimestamp, // Use the consistent timestamp
+        scan_urls: scanUrls.task2,
+        ...revisionFields(revisionOf.task2),
       };
       if (submissionId2) {
         await supabase.from('writing_submissions').update(submissionData2).eq('id', submissionId2);
@@ -152,7 +181,7 @@ export default function WritingTest() {
     } finally {
       setIsSaving(false);
     }
-  }, [user, writingTest, task1, task2, submissionText1, wordCount1, submissionId1, submissionText2, wordCount2, submissionId2]);
+  }, [user, writingTest, task1, task2, submissionText1, wordCount1, submissionId1, submissionText2, wordCount2, submissionId2, revisionOf, scanUrls]);
 
   const handleSubmit = useCallback(async () => {
     if (!user) {
@@ -212,6 +241,8 @@ export default function WritingTest() {
         submission_text: submissionText1,
         word_count: wordCount1,
         submitted_at: submissionTimestamp,
+        scan_urls: scanUrls.task1,
+        ...revisionFields(revisionOf.task1),
       };
       // Always insert a new submission for Task 1 if it's a new submission request or no ID exists
       if (isNewSubmissionRequest || !currentSubmissionId1) {
@@ -230,6 +261,8 @@ export default function WritingTest() {
         submission_text: submissionText2,
         word_count: wordCount2,
         submitted_at: submissionTimestamp,
+        scan_urls: scanUrls.task2,
+        ...revisionFields(revisionOf.task2),
       };
       // Always insert a new submission for Task 2 if it's a new submission request or no ID exists
       if (isNewSubmissionRequest || !currentSubmissionId2) {
@@ -274,6 +307,13 @@ export default function WritingTest() {
       await simulateProgress(3); // Step 3: Calculating band score
 
       toast.success('Writing submitted and AI evaluation triggered!', { id: 'ai-eval-toast' });
+      if (isMockSession) {
+        await completeSection('writing', {
+          writing_task1_submission_id: currentSubmissionId1,
+          writing_task2_submission_id: currentSubmissionId2,
+        });
+        return;
+      }
       navigate(`/writing/evaluation/${testId}/${currentSubmissionId1}`);
     } catch (error: any) {
       console.error('Error submitting writing:', error);
@@ -288,7 +328,7 @@ export default function WritingTest() {
       setIsSubmitting(false);
       setShowAILoadingScreen(false); // Hide loading screen
     }
-  }, [user, writingTest, task1, task2, submissionText1, wordCount1, submissionId1, submissionText2, wordCount2, submissionId2, navigate, isNewSubmissionRequest]);
+  }, [user, writingTest, task1, task2, submissionText1, wordCount1, submissionId1, submissionText2, wordCount2, submissionId2, revisionOf, scanUrls, navigate, isNewSubmissionRequest, isMockSession, completeSection]);
 
   // Resubmit handler
   const handleResubmit = useCallback(async () => {
@@ -342,7 +382,7 @@ export default function WritingTest() {
     if (testId) {
       fetchTestData();
     }
-  }, [testId, isNewSubmissionRequest]);
+  }, [testId, isNewSubmissionRequest, reviseFromId]);
 
   // Handle fullscreen - auto-enter on mount
   useEffect(() => {
@@ -382,6 +422,30 @@ export default function WritingTest() {
     };
   }, [user, writingTest, submissionText1, submissionText2, isPaused, handleSave]);
 
+  // Both task rows of the attempt being revised (they share submitted_at)
+  const loadRevisionSources = async (userId: string, submissionId: string, task1Id: string, task2Id: string) => {
+    const { data: target } = await supabase
+      .from('writing_submissions')
+      .select('submitted_at')
+      .eq('id', submissionId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (!target?.submitted_at) return null;
+
+    const { data: rows, error } = await supabase
+      .from('writing_submissions')
+      .select('id, task_id, submission_text, revision_number')
+      .eq('user_id', userId)
+      .eq('submitted_at', target.submitted_at)
+      .in('task_id', [task1Id, task2Id]);
+    if (error || !rows) return null;
+
+    return {
+      task1: rows.find((r) => r.task_id === task1Id) ?? null,
+      task2: rows.find((r) => r.task_id === task2Id) ?? null,
+    };
+  };
+
   const fetchTestData = async () => {
     setLoading(true);
     let fetchedTask1: WritingTask | null = null;
@@ -435,6 +499,7 @@ export default function WritingTest() {
           const existingSub1 = submissions.find(s => s.task_id === fetchedTask1?.id);
           const existingSub2 = submissions.find(s => s.task_id === fetchedTask2?.id);
           
+          setScanUrls({ task1: existingSub1?.scan_urls ?? [], task2: existingSub2?.scan_urls ?? [] });
           if (existingSub1) {
             setSubmissionText1(existingSub1.submission_text);
             setSubmissionId1(existingSub1.id);
@@ -459,7 +524,19 @@ export default function WritingTest() {
         setSubmissionId1(null);
         setSubmissionText2('');
         setSubmissionId2(null);
-        toast.info('Starting a new submission.');
+
+        const revised = user && reviseFromId && fetchedTask1 && fetchedTask2
+          ? await loadRevisionSources(user.id, reviseFromId, fetchedTask1.id, fetchedTask2.id)
+          : null;
+        if (revised) {
+          setSubmissionText1(revised.task1?.submission_text ?? '');
+          setSubmissionText2(revised.task2?.submission_text ?? '');
+          setRevisionOf({ task1: revised.task1, task2: revised.task2 });
+          const version = Math.max(revised.task1?.revision_number ?? 0, revised.task2?.revision_number ?? 0) + 1;
+          toast.info(`Revising your essay (version ${version}). Your previous text is loaded.`);
+        } else {
+          toast.info('Starting a new submission.');
+        }
       }
 
     } catch (error) {
@@ -483,6 +560,16 @@ export default function WritingTest() {
   const currentSubmissionText = activeTask === 'task1' ? submissionText1 : submissionText2;
   const currentWordCount = activeTask === 'task1' ? wordCount1 : wordCount2;
   const onCurrentSubmissionTextChange = activeTask === 'task1' ? setSubmissionText1 : setSubmissionText2;
+  const onHandwrittenAnswer = (text: string, urls: string[]) => {
+    onCurrentSubmissionTextChange(text);
+    setScanUrls((prev) => ({ ...prev, [activeTask]: urls }));
+    toast.success('Transcription added. Your scan is kept with this answer.');
+  };
+  // The live assistant is a practice aid; mock sessions run under exam rules
+  const assistantContext: DraftContext | undefined = isMockSession ? undefined : {
+    taskNumber: activeTask === 'task1' ? 1 : 2,
+    isLetter: activeTask === 'task1' && toTestModule(writingTest?.test_type) === 'general',
+  };
 
   if (loading) {
     return (
@@ -542,6 +629,7 @@ export default function WritingTest() {
               customTime={customTime}
               setCustomTime={setCustomTime}
               onTimeChange={handleTimeChange}
+              examMode={isMockSession}
             />
             <Button variant="ghost" size="icon" onClick={() => setIsNoteSidebarOpen(true)} className="relative">
               <StickyNote size={18} />
@@ -602,6 +690,9 @@ export default function WritingTest() {
                       isSaving={isSaving}
                       isSubmitting={isSubmitting}
                       fontSize={fontSize}
+                      assistant={assistantContext}
+                      onHandwrittenAnswer={onHandwrittenAnswer}
+                      taskNumber={activeTask === 'task1' ? 1 : 2}
                     />
                   )}
                 </div>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Navbar } from '@/components/Navbar';
@@ -6,9 +6,12 @@ import { Footer } from '@/components/Footer';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { PenTool, Clock, ArrowRight, FileText, RotateCcw } from 'lucide-react'; // Added RotateCcw icon
 import { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
+import { useIELTSModulePreference, IELTS_MODULE_LABELS } from '@/hooks/useIELTSModulePreference';
+import { toTestModule, type IELTSTestModule } from '@/lib/bandConversion';
 
 // Define the type for the new WritingTest table
 type WritingTest = Tables<'writing_tests'>;
@@ -19,6 +22,12 @@ export default function WritingTestList() {
   const [loading, setLoading] = useState(true);
   const [userSubmissions, setUserSubmissions] = useState<Record<string, WritingSubmission[]>>({}); // Store submissions per test
   const { user } = useAuth();
+  const { module: ieltsModule, setModule: setIeltsModule } = useIELTSModulePreference();
+
+  const moduleTests = useMemo(
+    () => tests.filter((test) => toTestModule(test.test_type) === ieltsModule),
+    [tests, ieltsModule]
+  );
 
   useEffect(() => {
     fetchTests();
@@ -106,19 +115,31 @@ export default function WritingTestList() {
             <Badge variant="secondary" className="mb-4">IELTS Writing Practice</Badge>
             <h1 className="text-4xl font-bold mb-4">Writing Practice Tests</h1>
             <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
-              Practice with various IELTS Writing Task 1 and Task 2 prompts. Improve your essay writing and report skills.
+              {ieltsModule === 'general'
+                ? 'Practice General Training Task 1 letters and Task 2 essays. Improve your letter and essay writing skills.'
+                : 'Practice with various IELTS Writing Task 1 and Task 2 prompts. Improve your essay writing and report skills.'}
             </p>
+            <Tabs
+              value={ieltsModule}
+              onValueChange={(v) => setIeltsModule(v as IELTSTestModule).catch(console.error)}
+              className="mt-6 inline-flex"
+            >
+              <TabsList>
+                <TabsTrigger value="academic">{IELTS_MODULE_LABELS.academic}</TabsTrigger>
+                <TabsTrigger value="general">{IELTS_MODULE_LABELS.general}</TabsTrigger>
+              </TabsList>
+            </Tabs>
           </div>
 
           {loading ? (
             <div className="flex justify-center py-12">
               <div className="animate-pulse text-muted-foreground">Loading tests...</div>
             </div>
-          ) : tests.length === 0 ? (
+          ) : moduleTests.length === 0 ? (
             <Card className="text-center py-12">
               <CardContent>
                 <PenTool className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
-                <p className="text-muted-foreground">No writing tests available yet.</p>
+                <p className="text-muted-foreground">No {IELTS_MODULE_LABELS[ieltsModule]} writing tests available yet.</p>
               </CardContent>
             </Card>
           ) : (
@@ -128,7 +149,7 @@ export default function WritingTestList() {
                 Available Writing Tests
               </h2>
               <div className="grid gap-4 md:grid-cols-2">
-                {tests.map((test) => {
+                {moduleTests.map((test) => {
                   const hasSubmitted = userSubmissions[test.id] && userSubmissions[test.id].length > 0;
                   const latestSubmission = hasSubmitted ? userSubmissions[test.id][0] : null;
                   const hasEvaluation = latestSubmission?.overall_band !== null || latestSubmission?.evaluation_report !== null;
@@ -145,7 +166,7 @@ export default function WritingTestList() {
                         </div>
                         <CardTitle className="text-lg mt-2">{test.title}</CardTitle>
                         <CardDescription>
-                          Includes Task 1 & Task 2
+                          {toTestModule(test.test_type) === 'general' ? 'Includes Task 1 letter & Task 2' : 'Includes Task 1 & Task 2'}
                         </CardDescription>
                       </CardHeader>
                       <CardContent>
@@ -14,7 +14,8 @@ import {
   Headphones,
   PenTool,
   Mic,
-  Gift
+  Gift,
+  Scale
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -25,6 +26,7 @@ const sidebarItems = [
   { label: 'Writing Tests', href: '/admin/writing', icon: PenTool },
   { label: 'Speaking Tests', href: '/admin/speaking', icon: Mic },
   { label: 'Promotion Codes', href: '/admin/promotions', icon: Gift },
+  { label: 'Answer Disputes', href: '/admin/disputes', icon: Scale },
   { label: 'Test Bank', href: '/admin/testbank', icon: FileText },
   { label: 'Settings', href: '/admin/settings', icon: Menu },
 ];
@@ -19,7 +19,8 @@ import {
   EyeOff,
   Gauge,
   BarChart3,
-  Zap
+  Zap,
+  Server
 } from 'lucide-react';
 import {
   Table,
@@ -87,15 +88,25 @@ interface ApiKey {
   groq_rpm_cooldown_until?: string | null;
 }
 
+type SpeakingProvider = 'gemini' | 'groq' | 'self_hosted';
+
 interface ProviderSettings {
   id?: string;
-  provider: 'gemini' | 'groq';
+  provider: SpeakingProvider;
   groq_stt_model: string;
   groq_llm_model: string;
   gemini_model: string;
+  self_hosted_stt_url: string;
+  self_hosted_stt_model: string;
   auto_fallback_enabled: boolean;
 }
 
+const PROVIDER_NAMES: Record<SpeakingProvider, string> = {
+  gemini: 'Gemini',
+  groq: 'Groq',
+  self_hosted: 'Self-hosted Whisper',
+};
+
 export default function AdminSettings() {
   const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
   const [groqApiKeys, setGroqApiKeys] = useState<ApiKey[]>([]);
@@ -113,6 +124,8 @@ export default function AdminSettings() {
     groq_stt_model: 'whisper-large-v3-turbo',
     groq_llm_model: 'qwen/qwen3-32b',  // Updated primary model
     gemini_model: 'gemini-2.5-flash',
+    self_hosted_stt_url: '',
+    self_hosted_stt_model: 'whisper-1',
     auto_fallback_enabled: true,
   });
   const [savingProvider, setSavingProvider] = useState(false);
@@ -179,10 +192,12 @@ export default function AdminSettings() {
         const settingsData = data as any;
         setProviderSettings({
           id: settingsData.id,
-          provider: settingsData.provider as 'gemini' | 'groq',
+          provider: settingsData.provider as SpeakingProvider,
           groq_stt_model: settingsData.groq_stt_model || 'whisper-large-v3-turbo',
           groq_llm_model: settingsData.groq_llm_model || 'qwen/qwen3-32b',  // Updated default
           gemini_model: settingsData.gemini_model || 'gemini-2.5-flash',
+          self_hosted_stt_url: settingsData.self_hosted_stt_url || '',
+          self_hosted_stt_model: settingsData.self_hosted_stt_model || 'whisper-1',
           auto_fallback_enabled: settingsData.auto_fallback_enabled ?? true,
         });
       }
@@ -205,6 +220,8 @@ export default function AdminSettings() {
           groq_stt_model: updatedSettings.groq_stt_model,
           groq_llm_model: updatedSettings.groq_llm_model,
           gemini_model: updatedSettings.gemini_model,
+          self_hosted_stt_url: updatedSettings.self_hosted_stt_url.trim() || null,
+          self_hosted_stt_model: updatedSettings.self_hosted_stt_model.trim() || 'whisper-1',
           auto_fallback_enabled: updatedSettings.auto_fallback_enabled,
           updated_at: new Date().toISOString(),
         }, { onConflict: 'singleton_key' });
@@ -214,7 +231,7 @@ export default function AdminSettings() {
       setProviderSettings(updatedSettings);
       toast({
         title: 'Success',
-        description: `Settings saved: ${updatedSettings.provider === 'groq' ? 'Groq' : 'Gemini'}${updatedSettings.auto_fallback_enabled ? ' with auto-fallback' : ''}`,
+        description: `Settings saved: ${PROVIDER_NAMES[updatedSettings.provider]}${updatedSettings.auto_fallback_enabled ? ' with auto-fallback' : ''}`,
       });
     } catch (error: any) {
       console.error('Error saving provider settings:', error);
@@ -542,7 +559,7 @@ export default function AdminSettings() {
                 <Label className="min-w-32">Current Provider:</Label>
                 <Select 
                   value={providerSettings.provider} 
-                  onValueChange={(value: 'gemini' | 'groq') => saveProviderSettings({ provider: value })}
+                  onValueChange={(value: SpeakingProvider) => saveProviderSettings({ provider: value })}
                   disabled={savingProvider}
                 >
                   <SelectTrigger className="w-80">
@@ -561,6 +578,12 @@ export default function AdminSettings() {
                         <span className="text-xs text-muted-foreground">2-step: STT → LLM, faster inference</span>
                       </div>
                     </SelectItem>
+                    <SelectItem value="self_hosted">
+                      <div className="flex flex-col">
+                        <span>Self-hosted Whisper + Groq LLM</span>
+                        <span className="text-xs text-muted-foreground">Transcription on your own Whisper-compatible server</span>
+                      </div>
+                    </SelectItem>
                   </SelectContent>
                 </Select>
                 {savingProvider && <RefreshCw className="w-4 h-4 animate-spin" />}
@@ -578,6 +601,47 @@ export default function AdminSettings() {
                 </Alert>
               )}
 
+              {providerSettings.provider === 'self_hosted' && (
+                <Alert>
+                  <Server className="h-4 w-4" />
+                  <AlertDescription>
+                    <strong>Self-hosted Mode:</strong> Audio is transcribed by your own OpenAI-compatible Whisper server
+                    (faster-whisper-server, whisper.cpp, LocalAI), then evaluated by the Groq LLM.
+                    Set the <code>SELF_HOSTED_STT_API_KEY</code> edge function secret if the server needs a token.
+                    Groq is only used for transcription when auto-fallback is on.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {/* Self-hosted server (also the transcription fallback for Groq) */}
+              {providerSettings.provider !== 'gemini' && (
+                <div className="grid gap-3 sm:grid-cols-[8rem_1fr] sm:items-center">
+                  <Label htmlFor="selfHostedSttUrl">Whisper server URL</Label>
+                  <Input
+                    id="selfHostedSttUrl"
+                    placeholder="https://stt.your-school.example"
+                    value={providerSettings.self_hosted_stt_url}
+                    onChange={(e) => setProviderSettings((prev) => ({ ...prev, self_hosted_stt_url: e.target.value }))}
+                    onBlur={() => saveProviderSettings({})}
+                    disabled={savingProvider}
+                  />
+                  <Label htmlFor="selfHostedSttModel">Model name</Label>
+                  <Input
+                    id="selfHostedSttModel"
+                    className="w-80"
+                    value={providerSettings.self_hosted_stt_model}
+                    onChange={(e) => setProviderSettings((prev) => ({ ...prev, self_hosted_stt_model: e.target.value }))}
+                    onBlur={() => saveProviderSettings({})}
+                    disabled={savingProvider}
+                  />
+                  <p className="text-xs text-muted-foreground sm:col-start-2">
+                    {providerSettings.provider === 'groq'
+                      ? 'Optional: used for transcription when all Groq keys are exhausted.'
+                      : 'Required: every speaking job is transcribed here.'}
+                  </p>
+                </div>
+              )}
+
               {providerSettings.provider === 'gemini' && (
                 <Alert>
                   <Zap className="h-4 w-4" />
@@ -595,7 +659,7 @@ export default function AdminSettings() {
                   onCheckedChange={(checked) => saveProviderSettings({ auto_fallback_enabled: checked })}
                   disabled={savingProvider}
                 />
-                <Label>Auto-fallback to Gemini if Groq fails after 3 attempts</Label>
+                <Label>Auto-fallback to Gemini if {providerSettings.provider === 'self_hosted' ? 'the self-hosted pipeline' : 'Groq'} fails after 3 attempts</Label>
               </div>
 
               {/* Status summary */}
@@ -0,0 +1,213 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Loader2, Scale, Check, X, BookOpen, Headphones, Sparkles } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+type AnswerDispute = Tables<'answer_disputes'>;
+type DisputeStatus = 'pending' | 'accepted' | 'rejected';
+
+const SOURCE_LABELS: Record<string, { label: string; icon: typeof BookOpen }> = {
+  reading: { label: 'Reading', icon: BookOpen },
+  listening: { label: 'Listening', icon: Headphones },
+  ai_practice: { label: 'AI Practice', icon: Sparkles },
+};
+
+export default function AnswerDisputesAdmin() {
+  const [disputes, setDisputes] = useState<AnswerDispute[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<DisputeStatus>('pending');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const loadDisputes = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('answer_disputes')
+        .select('*')
+        .eq('status', status)
+        .order('created_at', { ascending: status === 'pending' });
+
+      if (error) throw error;
+      setDisputes(data || []);
+    } catch (error) {
+      console.error('Error loading disputes:', error);
+      toast.error('Failed to load answer disputes');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    loadDisputes();
+  }, [loadDisputes]);
+
+  const handleResolve = async (dispute: AnswerDispute, action: 'accept' | 'reject') => {
+    if (action === 'accept' && !confirm(
+      `Add "${dispute.user_answer}" as an accepted answer for Q${dispute.question_number} and re-score all affected submissions?`
+    )) return;
+
+    setResolvingId(dispute.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('resolve-answer-dispute', {
+        body: { disputeId: dispute.id, action, adminNote: notes[dispute.id]?.trim() || undefined },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      if (action === 'accept') {
+        const duplicates = data?.closedDuplicates ? `, ${data.closedDuplicates} duplicate dispute(s) closed` : '';
+        toast.success(`Answer accepted: ${data?.rescoredSubmissions ?? 0} submission(s) re-scored${duplicates}`);
+      } else {
+        toast.success('Dispute rejected');
+      }
+
+      loadDisputes();
+    } catch (error) {
+      console.error('Error resolving dispute:', error);
+      toast.error(`Failed to resolve dispute: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Answer Disputes</h1>
+          <p className="text-muted-foreground">Review answers students believe were marked wrong</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Scale className="w-5 h-5" />
+                Adjudication Queue
+              </CardTitle>
+              <CardDescription>
+                Accepting adds the answer to the question's accepted variants and re-scores every submission that gave it
+              </CardDescription>
+            </div>
+            <Tabs value={status} onValueChange={(v) => setStatus(v as DisputeStatus)}>
+              <TabsList>
+                <TabsTrigger value="pending">Pending</TabsTrigger>
+                <TabsTrigger value="accepted">Accepted</TabsTrigger>
+                <TabsTrigger value="rejected">Rejected</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : disputes.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">
+              No {status} disputes
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Question</TableHead>
+                  <TableHead>Student Answer</TableHead>
+                  <TableHead>Answer Key</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Filed</TableHead>
+                  <TableHead className="w-72">{status === 'pending' ? 'Decision' : 'Resolution'}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {disputes.map((dispute) => {
+                  const source = SOURCE_LABELS[dispute.test_source] ?? SOURCE_LABELS.reading;
+                  const SourceIcon = source.icon;
+                  const isResolving = resolvingId === dispute.id;
+
+                  return (
+                    <TableRow key={dispute.id}>
+                      <TableCell className="max-w-xs">
+                        <div className="flex items-center gap-2 mb-1">
+                          <Badge variant="outline" className="gap-1">
+                            <SourceIcon className="w-3 h-3" />
+                            {source.label}
+                          </Badge>
+                          <Badge variant="secondary" className="font-mono">Q{dispute.question_number}</Badge>
+                        </div>
+                        {dispute.question_text && (
+                          <p className="text-sm text-muted-foreground line-clamp-2">{dispute.question_text}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-medium">{dispute.user_answer}</TableCell>
+                      <TableCell className="text-muted-foreground">{dispute.correct_answer}</TableCell>
+                      <TableCell className="max-w-xs text-sm text-muted-foreground">
+                        {dispute.reason || '-'}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-sm whitespace-nowrap">
+                        {format(new Date(dispute.created_at), 'MMM d, yyyy')}
+                      </TableCell>
+                      <TableCell>
+                        {status === 'pending' ? (
+                          <div className="space-y-2">
+                            <Input
+                              placeholder="Note to student (optional)"
+                              value={notes[dispute.id] || ''}
+                              onChange={(e) => setNotes(prev => ({ ...prev, [dispute.id]: e.target.value }))}
+                              className="h-8 text-sm"
+                            />
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                onClick={() => handleResolve(dispute, 'accept')}
+                                disabled={isResolving}
+                              >
+                                {isResolving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Check className="w-4 h-4 mr-1" />}
+                                Accept
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleResolve(dispute, 'reject')}
+                                disabled={isResolving}
+                              >
+                                <X className="w-4 h-4 mr-1" />
+                                Reject
+                              </Button>
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="text-sm space-y-1">
+                            {dispute.resolved_at && (
+                              <p className="text-muted-foreground">
+                                {format(new Date(dispute.resolved_at), 'MMM d, yyyy')}
+                                {status === 'accepted' && ` · ${dispute.rescored_submissions} re-scored`}
+                              </p>
+                            )}
+                            {dispute.admin_note && <p>{dispute.admin_note}</p>}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
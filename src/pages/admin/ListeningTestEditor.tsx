@@ -18,6 +18,7 @@ import {
   QuestionGroup // Imported from ListeningQuestionGroupEditor
 } from '@/components/admin/ListeningQuestionGroupEditor';
 import { FullListeningTestPreview } from '@/components/admin/FullListeningTestPreview';
+import { AudioTimestampEditor } from '@/components/admin/AudioTimestampEditor';
 import { Json } from '@/integrations/supabase/types'; // Import Json type
 
 interface PartTimestamp {
@@ -98,6 +99,8 @@ export default function ListeningTestEditor() {
   // Timestamps handling available through testData.part_timestamps
 
   const [questionGroups, setQuestionGroups] = useState<QuestionGroup[]>([]); // This now holds ALL groups
+  // Where each answer is heard, in seconds into its part's audio (keyed by question number)
+  const [questionTimestamps, setQuestionTimestamps] = useState<Record<number, number>>({});
 
   // Load from localStorage on mount (for draft recovery)
   useEffect(() => {
@@ -108,6 +111,7 @@ export default function ListeningTestEditor() {
           const draft = JSON.parse(savedDraft);
           if (draft.testData) setTestData(draft.testData);
           if (draft.questionGroups) setQuestionGroups(draft.questionGroups);
+          if (draft.questionTimestamps) setQuestionTimestamps(draft.questionTimestamps);
           toast.info('Draft restored from previous session');
         } catch (e) {
           console.error('Failed to restore draft:', e);
@@ -119,11 +123,11 @@ export default function ListeningTestEditor() {
   // Auto-save to localStorage
   const autoSaveToLocal = useCallback(() => {
     if (!isEditing) {
-      const draft = { testData, questionGroups, savedAt: Date.now() };
+      const draft = { testData, questionGroups, questionTimestamps, savedAt: Date.now() };
       localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(draft));
       setAutoSaveStatus('saved');
     }
-  }, [testData, questionGroups, isEditing]);
+  }, [testData, questionGroups, questionTimestamps, isEditing]);
 
   // Debounced auto-save
   useEffect(() => {
@@ -250,6 +254,14 @@ export default function ListeningTestEditor() {
       });
       setQuestionGroups(formattedGroups as QuestionGroup[]);
 
+      const timestamps: Record<number, number> = {};
+      (groupsData || []).forEach(g => {
+        (g.listening_questions || []).forEach(q => {
+          if (q.audio_timestamp !== null) timestamps[q.question_number] = Number(q.audio_timestamp);
+        });
+      });
+      setQuestionTimestamps(timestamps);
+
     } catch (error) {
       console.error('Error fetching listening test:', error);
       toast.error('Failed to load listening test data');
@@ -406,6 +418,7 @@ export default function ListeningTestEditor() {
                   is_given: tableQuestion.is_given,
                   heading: tableQuestion.heading,
                   table_data: tableQuestion.table_data as unknown as Json, // Save the full table data
+                  audio_timestamp: questionTimestamps[tableQuestion.question_number] ?? null,
                   options: null, // Ensure null for non-MCQ questions
                   option_format: null, // Ensure null for non-MCQ questions
                 });
@@ -427,6 +440,7 @@ export default function ListeningTestEditor() {
                     table_data: null,
                     options: null,
                     option_format: null,
+                    audio_timestamp: questionTimestamps[q.question_number] ?? null,
                   }))
                 );
               if (qError) throw qError;
@@ -448,6 +462,7 @@ export default function ListeningTestEditor() {
                   table_data: null,
                   options: null,
                   option_format: null,
+                  audio_timestamp: questionTimestamps[s.blankNumber] ?? null,
                 }));
               
               if (flowchartQuestions.length > 0) {
@@ -471,6 +486,7 @@ export default function ListeningTestEditor() {
                     table_data: null, // Ensure table_data is null for non-table questions
                     options: q.options || null, // Save question-level options if any
                     option_format: q.option_format || null, // Save question-level option format if any
+                    audio_timestamp: questionTimestamps[q.question_number] ?? null,
                   }))
                 );
               if (qError) throw qError;
@@ -752,6 +768,47 @@ export default function ListeningTestEditor() {
                 )}
               </CardContent>
             </Card>
+
+            {/* Answer timestamps for the results-page replay clips */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Headphones size={20} />
+                  Answer Timestamps
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <p className="text-sm text-muted-foreground">
+                  Mark where each answer is heard. Students replay a short clip around it for every question they get wrong.
+                </p>
+                {LISTENING_PART_RANGES.map((range, idx) => {
+                  const partKey = `audio_url_part${idx + 1}` as 'audio_url_part1' | 'audio_url_part2' | 'audio_url_part3' | 'audio_url_part4';
+                  const audioUrl = testData[partKey] || testData.audio_url;
+                  if (!audioUrl) return null;
+                  return (
+                    <div key={range.label} className="space-y-2">
+                      <Label className="font-semibold">{range.label} (Questions {range.start}-{range.end})</Label>
+                      <AudioTimestampEditor
+                        audioUrl={audioUrl}
+                        questionNumbers={Array.from({ length: range.end - range.start + 1 }, (_, i) => range.start + i)}
+                        questionTimestamps={questionTimestamps}
+                        onQuestionTimestampChange={(questionNumber, seconds) =>
+                          setQuestionTimestamps(prev => {
+                            const next = { ...prev };
+                            if (seconds === null) delete next[questionNumber];
+                            else next[questionNumber] = seconds;
+                            return next;
+                          })
+                        }
+                      />
+                    </div>
+                  );
+                })}
+                {!testData.audio_url && !testData.audio_url_part1 && !testData.audio_url_part2 && !testData.audio_url_part3 && !testData.audio_url_part4 && (
+                  <p className="text-sm text-muted-foreground italic">Upload audio above to set answer timestamps.</p>
+                )}
+              </CardContent>
+            </Card>
           </div>
         </TabsContent>
 
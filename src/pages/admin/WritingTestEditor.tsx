@@ -7,6 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Save, ArrowLeft, Cloud, CloudOff, PenTool, Info, Image as ImageIcon } from 'lucide-react';
 import { toast } from 'sonner';
@@ -36,6 +37,7 @@ export default function WritingTestEditor() {
     title: '',
     description: null,
     time_limit: 60, // Default to 60 minutes for the combined test
+    test_type: 'academic',
     is_published: false,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
@@ -368,6 +370,21 @@ export default function WritingTestEditor() {
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Test Type</Label>
+                  <Select
+                    value={writingTest.test_type}
+                    onValueChange={(value) => setWritingTest({ ...writingTest, test_type: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="academic">Academic</SelectItem>
+                      <SelectItem value="general">General Training (Task 1 letter)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div className="space-y-2">
                   <Label className="flex items-center gap-2">
                     Time Limit (minutes)
@@ -3,6 +3,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { uploadToR2 } from '@/lib/r2Upload';
 import { compressAudio } from '@/utils/audioCompressor';
 import type { Json } from '@/integrations/supabase/types';
+import type { AnswerVerdict } from '@/lib/ieltsAnswerValidation';
+import type { IELTSTestModule } from '@/lib/bandConversion';
 
 function stableHashHex(input: string): string {
   // djb2 (32-bit)
@@ -51,7 +53,7 @@ export type ListeningQuestionType =
 // Writing task types
 export type WritingTaskType = 'FULL_TEST' | 'TASK_1' | 'TASK_2';
 
-// Writing Task 1 visual types (charts, graphs, diagrams)
+// Writing Task 1 visual types (charts, graphs, diagrams) and General Training letters
 export type WritingTask1VisualType = 
   | 'RANDOM'
   | 'BAR_CHART'
@@ -61,7 +63,14 @@ export type WritingTask1VisualType =
   | 'MIXED_CHARTS'  // e.g., pie + bar
   | 'PROCESS_DIAGRAM'
   | 'MAP'
-  | 'COMPARISON_DIAGRAM';
+  | 'COMPARISON_DIAGRAM'
+  | 'LETTER_FORMAL'
+  | 'LETTER_SEMI_FORMAL'
+  | 'LETTER_INFORMAL';
+
+export function isLetterTask1Type(visualType: string | undefined): boolean {
+  return !!visualType && visualType.startsWith('LETTER_');
+}
 
 // Writing Task 2 essay types
 export type WritingTask2EssayType =
@@ -137,6 +146,7 @@ export interface PracticeConfig {
   topicPreference?: string;
   timeMinutes: number;
   audioSpeed?: number; // For listening only
+  testModule?: IELTSTestModule; // Academic or General Training (reading/writing)
 }
 
 // Generated question structure
@@ -186,7 +196,8 @@ export interface GeneratedWritingSingleTask {
   svgCode?: string; // Legacy SVG format (deprecated)
   chartData?: object; // JSON chart data for frontend rendering (preferred)
   image_description?: string;
-  visual_type?: string; // Type of visual for Task 1
+  visual_type?: string; // Type of visual for Task 1 (LETTER_* for General Training)
+  letter_bullet_points?: string[]; // General Training Task 1 - points the letter must cover
   word_limit_min: number;
   word_limit_max?: number;
 }
@@ -234,6 +245,7 @@ export interface GeneratedTest {
   id: string;
   module: PracticeModule;
   questionType: QuestionType;
+  testModule?: IELTSTestModule; // Academic when absent
   difficulty: DifficultyLevel;
   topic: string;
   timeMinutes: number;
@@ -265,6 +277,8 @@ export interface PracticeResult {
   completedAt: string;
   timeSpent: number; // seconds
   questionResults: QuestionResult[];
+  /** Writing: uploaded pages of a handwritten answer, by task number */
+  scanUrls?: Record<number, string[]>;
 }
 
 export interface QuestionResult {
@@ -277,6 +291,7 @@ export interface QuestionResult {
   maxScore?: number; // Total possible marks for this result
   explanation: string;
   questionType?: string; // To help with rendering
+  verdict?: AnswerVerdict; // Which marking rule accepted/rejected the answer
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -720,6 +735,7 @@ export async function savePracticeResultAsync(result: PracticeResult, userId: st
     time_spent_seconds: result.timeSpent,
     question_results: result.questionResults as unknown as Json,
     completed_at: result.completedAt,
+    scan_urls: (result.scanUrls ?? null) as unknown as Json,
   });
 
   if (error) {
@@ -750,6 +766,7 @@ export async function loadPracticeResultsAsync(userId: string): Promise<Practice
     completedAt: row.completed_at,
     timeSpent: row.time_spent_seconds,
     questionResults: row.question_results as unknown as QuestionResult[],
+    scanUrls: (row.scan_urls ?? undefined) as unknown as Record<number, string[]> | undefined,
   }));
 }
 
@@ -785,6 +802,7 @@ export async function loadPracticeResultByTestIdAsync(userId: string, testId: st
     completedAt: data.completed_at,
     timeSpent: data.time_spent_seconds,
     questionResults: data.question_results as unknown as QuestionResult[],
+    scanUrls: (data.scan_urls ?? undefined) as unknown as Record<number, string[]> | undefined,
   };
 }
 
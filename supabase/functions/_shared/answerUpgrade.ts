@@ -0,0 +1,252 @@
+/**
+ * Answer Upgrades
+ *
+ * An optional follow-up stage of the speaking evaluation job: each of the
+ * candidate's own transcripts is rewritten one band higher, keeping their
+ * ideas, and every change is tagged with the criterion it improves. Unlike
+ * the model answers, the upgrade stays close enough to the original that a
+ * word diff shows exactly which collocations and structures made the
+ * difference.
+ *
+ * Dependency-free: speaking-answer-upgrades builds the prompt and parses the
+ * reply, and the web app diffs the stored upgrades for display
+ * (src/lib/answerUpgrade.ts re-exports it).
+ */
+
+export const ANSWER_UPGRADE_VERSION = "2026.1";
+
+export type AnswerUpgradeCriterion = "lexical_resource" | "grammatical_range" | "fluency_coherence";
+
+export type AnswerUpgradeKind = "collocation" | "vocabulary" | "complex_structure" | "accuracy" | "linking";
+
+export interface AnswerUpgradeChange {
+  /** Words as the candidate said them */
+  original: string;
+  /** What replaces them in the upgrade */
+  upgraded: string;
+  criterion: AnswerUpgradeCriterion;
+  kind: AnswerUpgradeKind;
+  explanation: string;
+}
+
+export interface AnswerUpgrade {
+  segmentKey: string;
+  partNumber: number;
+  questionNumber: number;
+  questionText: string;
+  fromBand: number;
+  targetBand: number;
+  original: string;
+  upgraded: string;
+  changes: AnswerUpgradeChange[];
+}
+
+/** Saved with the evaluation report as `answer_upgrades` */
+export interface AnswerUpgradesRecord {
+  version: string;
+  generatedAt: string;
+  upgrades: AnswerUpgrade[];
+}
+
+/** One answer to upgrade */
+export interface AnswerUpgradeSource {
+  segmentKey: string;
+  partNumber: number;
+  questionNumber: number;
+  questionText: string;
+  transcript: string;
+  band: number;
+}
+
+export const UPGRADE_CRITERION_LABELS: Record<AnswerUpgradeCriterion, string> = {
+  lexical_resource: "Lexical Resource",
+  grammatical_range: "Grammatical Range & Accuracy",
+  fluency_coherence: "Fluency & Coherence",
+};
+
+export const UPGRADE_KIND_LABELS: Record<AnswerUpgradeKind, string> = {
+  collocation: "Collocation",
+  vocabulary: "Vocabulary",
+  complex_structure: "Complex structure",
+  accuracy: "Accuracy",
+  linking: "Linking",
+};
+
+const CRITERIA = Object.keys(UPGRADE_CRITERION_LABELS) as AnswerUpgradeCriterion[];
+const KINDS = Object.keys(UPGRADE_KIND_LABELS) as AnswerUpgradeKind[];
+
+// Answers shorter than this have too little to rewrite
+export const MIN_UPGRADE_WORDS = 5;
+
+/** The band one level up: 5.5 → 6, 6 → 7, capped at 9 */
+export function nextBand(band: number): number {
+  return Math.min(9, Math.floor(band) + 1);
+}
+
+export function isAnswerUpgradesRecord(value: unknown): value is AnswerUpgradesRecord {
+  const record = value as AnswerUpgradesRecord | null;
+  return !!record && typeof record === "object" && Array.isArray(record.upgrades) &&
+    record.upgrades.every((u) => u && typeof u.original === "string" && typeof u.upgraded === "string" && Array.isArray(u.changes));
+}
+
+export function buildAnswerUpgradePrompt(sources: AnswerUpgradeSource[]): string {
+  const answers = sources
+    .map((s) =>
+      `[${s.segmentKey}] Part ${s.partNumber} Q${s.questionNumber}: "${s.questionText}"
+Current band: ${s.band} → rewrite at Band ${nextBand(s.band)}
+Candidate: "${s.transcript.trim()}"`
+    )
+    .join("\n\n");
+
+  return `You are a senior IELTS Speaking examiner coaching a candidate. Rewrite each of the candidate's OWN answers one band higher.
+
+ANSWERS:
+${answers}
+
+RULES:
+- Keep the candidate's ideas, examples, opinions and order. This is an edit of their answer, not a new model answer
+- Change only what is needed to reach the target band: better collocations and topic vocabulary, complex structures (conditionals, relative clauses, passives), accurate grammar, natural linking
+- Keep it spoken English and roughly the same length (at most 30% longer)
+- List EVERY change. "original" must be copied exactly from the candidate's words; "upgraded" exactly as it appears in your rewrite
+- criterion: "lexical_resource", "grammatical_range" or "fluency_coherence"
+- kind: "collocation", "vocabulary", "complex_structure", "accuracy" or "linking"
+- explanation: one short sentence on why the change raises the band
+
+Return ONLY JSON:
+{"upgrades": [{"segment_key": "...", "upgraded": "...", "changes": [{"original": "...", "upgraded": "...", "criterion": "...", "kind": "...", "explanation": "..."}]}]}`;
+}
+
+const asString = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+function readChange(value: unknown): AnswerUpgradeChange | null {
+  const c = value as Record<string, unknown> | null;
+  if (!c || typeof c !== "object") return null;
+  const upgraded = asString(c.upgraded);
+  const criterion = asString(c.criterion) as AnswerUpgradeCriterion;
+  if (!upgraded || !CRITERIA.includes(criterion)) return null;
+  const kind = asString(c.kind) as AnswerUpgradeKind;
+  return {
+    original: asString(c.original),
+    upgraded,
+    criterion,
+    kind: KINDS.includes(kind) ? kind : criterion === "grammatical_range" ? "complex_structure" : "vocabulary",
+    explanation: asString(c.explanation),
+  };
+}
+
+/** Match the model's reply to the answers it was given; answers it skipped are left out */
+export function parseAnswerUpgrades(text: string, sources: AnswerUpgradeSource[]): AnswerUpgrade[] {
+  const cleaned = text.replace(/```(?:json)?/gi, "").trim();
+  let items: unknown[] = [];
+  try {
+    const parsed = JSON.parse(cleaned.slice(cleaned.indexOf("{"), cleaned.lastIndexOf("}") + 1));
+    items = Array.isArray(parsed?.upgrades) ? parsed.upgrades : [];
+  } catch {
+    return [];
+  }
+
+  const byKey = new Map<string, Record<string, unknown>>();
+  for (const item of items) {
+    const key = asString((item as Record<string, unknown> | null)?.segment_key).toLowerCase();
+    if (key) byKey.set(key, item as Record<string, unknown>);
+  }
+
+  return sources.flatMap((source) => {
+    const item = byKey.get(source.segmentKey.toLowerCase());
+    const upgraded = asString(item?.upgraded);
+    if (!item || !upgraded) return [];
+    const changes = (Array.isArray(item.changes) ? item.changes : [])
+      .map(readChange)
+      .filter((c): c is AnswerUpgradeChange => c !== null);
+
+    return [{
+      segmentKey: source.segmentKey,
+      partNumber: source.partNumber,
+      questionNumber: source.questionNumber,
+      questionText: source.questionText,
+      fromBand: source.band,
+      targetBand: nextBand(source.band),
+      original: source.transcript.trim(),
+      upgraded,
+      changes,
+    }];
+  });
+}
+
+export interface DiffSegment {
+  op: "equal" | "removed" | "added";
+  text: string;
+  /** Criterion of the change this segment belongs to */
+  criterion?: AnswerUpgradeCriterion;
+}
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+
+/**
+ * Word-level diff (longest common subsequence). Punctuation and case are
+ * ignored when matching so a moved comma is not shown as a change.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+  const na = a.map(normalizeWord);
+  const nb = b.map(normalizeWord);
+
+  // lcs[i][j] = common subsequence length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = na[i] === nb[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (op: DiffSegment["op"], word: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.op === op) last.text += ` ${word}`;
+    else segments.push({ op, text: word });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (na[i] === nb[j]) {
+      push("equal", b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+
+  return segments;
+}
+
+const words = (text: string) => text.split(/\s+/).map(normalizeWord).filter(Boolean);
+
+/** The change a diff segment belongs to: the one sharing most of its words */
+function findChange(segment: DiffSegment, changes: AnswerUpgradeChange[]): AnswerUpgradeChange | undefined {
+  const segmentWords = words(segment.text);
+  let best: AnswerUpgradeChange | undefined;
+  let bestOverlap = 0;
+  for (const change of changes) {
+    const changeWords = new Set(words(segment.op === "added" ? change.upgraded : change.original));
+    const overlap = segmentWords.filter((w) => changeWords.has(w)).length;
+    if (overlap > bestOverlap) {
+      best = change;
+      bestOverlap = overlap;
+    }
+  }
+  return best;
+}
+
+/** The upgrade as a diff, each changed segment tagged with the criterion it improves */
+export function diffAnswerUpgrade(upgrade: AnswerUpgrade): DiffSegment[] {
+  return diffWords(upgrade.original, upgrade.upgraded).map((segment) =>
+    segment.op === "equal" ? segment : { ...segment, criterion: findChange(segment, upgrade.changes)?.criterion }
+  );
+}
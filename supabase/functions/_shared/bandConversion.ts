@@ -0,0 +1,139 @@
+/**
+ * IELTS Raw Score → Band Conversion
+ *
+ * Single source of truth for converting Listening/Reading raw scores into
+ * band scores. Dependency-free so it can be imported from edge functions
+ * (Deno) and from the web app (src/lib/bandConversion.ts re-exports it).
+ *
+ * Bump BAND_CONVERSION_VERSION whenever a table changes so stored results
+ * can be traced back to the table that produced them.
+ */
+
+export const BAND_CONVERSION_VERSION = "2026.1";
+
+export type ScoredSkill = "listening" | "reading";
+export type IELTSTestModule = "academic" | "general";
+
+/** Rows of [minimum raw score out of 40, band], highest first */
+export type ConversionTable = ReadonlyArray<readonly [number, number]>;
+
+export const FULL_TEST_QUESTIONS = 40;
+
+// ============================================================================
+// OFFICIAL TABLES (out of 40)
+// ============================================================================
+
+/**
+ * Listening is the same for Academic and General Training.
+ * 39-40 → 9, 37-38 → 8.5, 35-36 → 8, 32-34 → 7.5, 30-31 → 7, 26-29 → 6.5,
+ * 23-25 → 6, 18-22 → 5.5, 16-17 → 5, 13-15 → 4.5, 10-12 → 4
+ */
+const LISTENING_TABLE: ConversionTable = [
+  [39, 9], [37, 8.5], [35, 8], [32, 7.5], [30, 7], [26, 6.5], [23, 6], [18, 5.5],
+  [16, 5], [13, 4.5], [10, 4], [8, 3.5], [6, 3], [4, 2.5], [2, 2], [1, 1],
+];
+
+/**
+ * Academic Reading.
+ * 39-40 → 9, 37-38 → 8.5, 35-36 → 8, 33-34 → 7.5, 30-32 → 7, 27-29 → 6.5,
+ * 23-26 → 6, 19-22 → 5.5, 15-18 → 5, 13-14 → 4.5, 10-12 → 4
+ */
+const ACADEMIC_READING_TABLE: ConversionTable = [
+  [39, 9], [37, 8.5], [35, 8], [33, 7.5], [30, 7], [27, 6.5], [23, 6], [19, 5.5],
+  [15, 5], [13, 4.5], [10, 4], [8, 3.5], [6, 3], [4, 2.5], [2, 2], [1, 1],
+];
+
+/**
+ * General Training Reading (the texts are easier, so more correct answers are
+ * needed for the same band).
+ * 40 → 9, 39 → 8.5, 37-38 → 8, 36 → 7.5, 34-35 → 7, 32-33 → 6.5, 30-31 → 6,
+ * 27-29 → 5.5, 23-26 → 5, 19-22 → 4.5, 15-18 → 4, 12-14 → 3.5, 9-11 → 3
+ */
+const GENERAL_TRAINING_READING_TABLE: ConversionTable = [
+  [40, 9], [39, 8.5], [37, 8], [36, 7.5], [34, 7], [32, 6.5], [30, 6], [27, 5.5],
+  [23, 5], [19, 4.5], [15, 4], [12, 3.5], [9, 3], [6, 2.5], [3, 2], [1, 1],
+];
+
+/** Normalise a stored test_type / ielts_module value ('general', 'general_training', 'GT', ...) */
+export function toTestModule(value: string | null | undefined): IELTSTestModule {
+  const normalized = (value ?? "").toLowerCase();
+  return normalized === "gt" || normalized.startsWith("general") ? "general" : "academic";
+}
+
+export function getConversionTable(skill: ScoredSkill, module: IELTSTestModule = "academic"): ConversionTable {
+  if (skill === "listening") return LISTENING_TABLE;
+  return module === "general" ? GENERAL_TRAINING_READING_TABLE : ACADEMIC_READING_TABLE;
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+export interface BandConversionInput {
+  skill: ScoredSkill;
+  correct: number;
+  /** Questions in the set. Defaults to a full 40-question test. */
+  total?: number;
+  module?: IELTSTestModule;
+}
+
+export interface BandConversion {
+  band: number;
+  correct: number;
+  total: number;
+  /** Raw score on the 40-question scale the table was read with */
+  scaledRaw: number;
+  /** True when the set had fewer than 40 questions and was scaled up */
+  isPartial: boolean;
+  skill: ScoredSkill;
+  module: IELTSTestModule;
+  version: string;
+}
+
+function lookupBand(table: ConversionTable, raw: number): number {
+  for (const [min, band] of table) {
+    if (raw >= min) return band;
+  }
+  return 0;
+}
+
+/**
+ * Convert a raw score into a band using the official table for the skill and
+ * module. Sets with fewer than 40 questions (AI practice, single sections) are
+ * scaled proportionally onto the 40-question scale first, so 12/15 is read as
+ * 32/40.
+ */
+export function convertRawScore({
+  skill,
+  correct,
+  total = FULL_TEST_QUESTIONS,
+  module = "academic",
+}: BandConversionInput): BandConversion {
+  const safeTotal = Number.isFinite(total) && total > 0 ? total : FULL_TEST_QUESTIONS;
+  const safeCorrect = Math.max(0, Math.min(Number.isFinite(correct) ? correct : 0, safeTotal));
+  const isPartial = safeTotal !== FULL_TEST_QUESTIONS;
+  const scaledRaw = isPartial
+    ? Math.round((safeCorrect / safeTotal) * FULL_TEST_QUESTIONS)
+    : safeCorrect;
+
+  return {
+    band: lookupBand(getConversionTable(skill, module), scaledRaw),
+    correct: safeCorrect,
+    total: safeTotal,
+    scaledRaw,
+    isPartial,
+    skill,
+    module,
+    version: BAND_CONVERSION_VERSION,
+  };
+}
+
+/** Shorthand for convertRawScore(...).band */
+export function rawScoreToBand(
+  skill: ScoredSkill,
+  correct: number,
+  total: number = FULL_TEST_QUESTIONS,
+  module: IELTSTestModule = "academic",
+): number {
+  return convertRawScore({ skill, correct, total, module }).band;
+}
@@ -0,0 +1,147 @@
+/**
+ * Examiner Interventions
+ *
+ * A live examiner does not wait silently: they prompt a candidate who stalls
+ * ("Can you tell me more?"), cut off Part 1 and Part 3 answers that run on,
+ * and stop the Part 2 long turn at two minutes. The speaking exam decides
+ * when to step in from voice activity on the microphone, and every
+ * intervention is logged with the answer so evaluators can tell a prompted
+ * or cut-off answer from one the candidate ended on their own.
+ *
+ * Dependency-free: the web app runs the decisions (src/lib/examinerInterventions.ts
+ * re-exports it) and the evaluators describe the log in their prompts.
+ */
+
+export type ExaminerInterventionType =
+  | "silence_prompt" // Candidate stalled; examiner prompts them to go on
+  | "moved_on" // Still silent after the prompts; examiner moves to the next question
+  | "interrupt" // Part 1/3 answer ran long; examiner cuts in
+  | "time_up"; // Part 2 long turn reached its time limit
+
+export interface ExaminerIntervention {
+  type: ExaminerInterventionType;
+  partNumber: 1 | 2 | 3;
+  questionId: string;
+  /** Seconds into the answer when the examiner spoke */
+  atSeconds: number;
+  /** Silence that triggered a prompt or move-on, in seconds */
+  silenceSeconds?: number;
+  /** What the examiner said */
+  prompt: string;
+}
+
+export interface ExaminerTimingPolicy {
+  /** Silence before the examiner prompts */
+  silencePromptSeconds: number;
+  /** Prompts per answer before the examiner gives up and moves on */
+  maxSilencePrompts: number;
+  /** Part 1/3: answer length after which the examiner cuts in at the next breath */
+  maxAnswerSeconds: number | null;
+}
+
+export const EXAMINER_TIMING: Record<1 | 2 | 3, ExaminerTimingPolicy> = {
+  1: { silencePromptSeconds: 5, maxSilencePrompts: 1, maxAnswerSeconds: 45 },
+  2: { silencePromptSeconds: 8, maxSilencePrompts: 2, maxAnswerSeconds: null },
+  3: { silencePromptSeconds: 6, maxSilencePrompts: 2, maxAnswerSeconds: 90 },
+};
+
+// An overlong answer is cut at a breath; past this grace it is cut regardless
+const INTERRUPT_GRACE_SECONDS = 10;
+const BREATH_SECONDS = 0.4;
+
+const SILENCE_PROMPTS: Record<1 | 2 | 3, string[]> = {
+  1: ["Can you tell me more?", "Why is that?"],
+  2: ["Can you tell me a bit more about it?", "Take your time. What else can you say about it?"],
+  3: ["Can you tell me more?", "Why do you think that is?"],
+};
+
+const CLOSING_LINES: Record<Exclude<ExaminerInterventionType, "silence_prompt">, string> = {
+  moved_on: "All right. Let's move on.",
+  interrupt: "Thank you.",
+  time_up: "Thank you. That's the end of the time.",
+};
+
+export interface AnswerActivity {
+  partNumber: 1 | 2 | 3;
+  elapsedSeconds: number;
+  /** Seconds since the candidate last made a sound (or since recording started) */
+  silenceSeconds: number;
+  /** Silence prompts already given for this answer */
+  promptsGiven: number;
+  /** Part 2 long-turn limit */
+  speakingTimeSeconds?: number;
+}
+
+/** Whether the examiner should step in now, and how */
+export function decideIntervention(activity: AnswerActivity): ExaminerInterventionType | null {
+  const { partNumber, elapsedSeconds, silenceSeconds, promptsGiven } = activity;
+  const policy = EXAMINER_TIMING[partNumber];
+
+  if (partNumber === 2 && elapsedSeconds >= (activity.speakingTimeSeconds ?? 120)) return "time_up";
+
+  if (
+    policy.maxAnswerSeconds !== null &&
+    elapsedSeconds >= policy.maxAnswerSeconds &&
+    (silenceSeconds >= BREATH_SECONDS || elapsedSeconds >= policy.maxAnswerSeconds + INTERRUPT_GRACE_SECONDS)
+  ) {
+    return "interrupt";
+  }
+
+  if (silenceSeconds < policy.silencePromptSeconds) return null;
+  if (promptsGiven < policy.maxSilencePrompts) return "silence_prompt";
+  // The long turn is the candidate's to use; the examiner never moves on early
+  return partNumber === 2 ? null : "moved_on";
+}
+
+/** The line the examiner speaks for an intervention */
+export function examinerLine(partNumber: 1 | 2 | 3, type: ExaminerInterventionType, promptsGiven = 0): string {
+  if (type !== "silence_prompt") return CLOSING_LINES[type];
+  const prompts = SILENCE_PROMPTS[partNumber];
+  return prompts[Math.min(promptsGiven, prompts.length - 1)];
+}
+
+const INTERVENTION_TYPES: ExaminerInterventionType[] = ["silence_prompt", "moved_on", "interrupt", "time_up"];
+
+/** Keep the well-formed entries of a log sent by the client */
+export function readInterventions(value: unknown): ExaminerIntervention[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((entry): entry is ExaminerIntervention => {
+    const i = entry as ExaminerIntervention | null;
+    return !!i && typeof i === "object" &&
+      INTERVENTION_TYPES.includes(i.type) &&
+      [1, 2, 3].includes(i.partNumber) &&
+      typeof i.questionId === "string" &&
+      typeof i.atSeconds === "number";
+  });
+}
+
+const formatSeconds = (s: number) => `${Math.floor(s / 60)}:${String(Math.round(s % 60)).padStart(2, "0")}`;
+
+function describeIntervention(i: ExaminerIntervention): string {
+  const where = `[part${i.partNumber}-q${i.questionId}] at ${formatSeconds(i.atSeconds)}`;
+  switch (i.type) {
+    case "silence_prompt":
+      return `${where}: candidate silent for ${Math.round(i.silenceSeconds ?? 0)}s, examiner prompted "${i.prompt}"`;
+    case "moved_on":
+      return `${where}: candidate still silent after prompting, examiner moved on`;
+    case "interrupt":
+      return `${where}: answer ran long, examiner cut in`;
+    case "time_up":
+      return `${where}: long turn stopped at the time limit`;
+  }
+}
+
+/**
+ * Prompt section describing the interventions, optionally for one part.
+ * Empty when the examiner never had to step in.
+ */
+export function describeInterventionsForPrompt(value: unknown, partNumber?: 1 | 2 | 3): string {
+  const interventions = readInterventions(value).filter((i) => !partNumber || i.partNumber === partNumber);
+  if (interventions.length === 0) return "";
+
+  return `EXAMINER INTERVENTIONS DURING THE TEST:
+${interventions.map((i) => `- ${describeIntervention(i)}`).join("\n")}
+How to weigh them:
+- A silence prompt or move-on means the candidate could not keep going unaided: reflect it in Fluency & Coherence
+- Being cut off for a long answer or at the Part 2 time limit is normal examiner practice and must NOT be penalised; the answer was simply not finished`;
+}
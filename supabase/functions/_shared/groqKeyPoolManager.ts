@@ -319,7 +319,7 @@ export async function interSegmentDelay(): Promise<void> {
 export async function getSpeakingEvaluationProvider(
   supabaseService: any
 ): Promise<{
-  provider: 'gemini' | 'groq';
+  provider: 'gemini' | 'groq' | 'self_hosted';
   groqSttModel: string;
   groqLlmModel: string;
   geminiModel: string;
@@ -334,7 +334,7 @@ export async function getSpeakingEvaluationProvider(
   
   const settings = data[0];
   return {
-    provider: settings.provider as 'gemini' | 'groq',
+    provider: settings.provider as 'gemini' | 'groq' | 'self_hosted',
     groqSttModel: settings.groq_stt_model,
     groqLlmModel: settings.groq_llm_model,
     geminiModel: settings.gemini_model,
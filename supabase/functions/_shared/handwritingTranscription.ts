@@ -0,0 +1,111 @@
+/**
+ * Handwritten Answers
+ *
+ * Students who practise on paper upload photos or a PDF of their answer
+ * (stored through upload-media). transcribe-handwriting sends the pages to a
+ * Gemini vision model, the same path evaluate-writing-submission uses for
+ * Task 1 chart images, and returns the text for the student to check before
+ * it is evaluated like a typed answer. Words the model could not read are
+ * left in the text with an UNCLEAR_MARK so the student has to look at them.
+ *
+ * Dependency-free (src/lib/handwritingTranscription.ts re-exports it).
+ */
+
+// ============================================================================
+// SCANS
+// ============================================================================
+
+export const MAX_SCAN_PAGES = 4;
+
+/** Per page; larger photos should be resized before upload */
+export const MAX_SCAN_BYTES = 10 * 1024 * 1024;
+
+export const SCAN_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+  "application/pdf",
+] as const;
+
+export type ScanMimeType = typeof SCAN_MIME_TYPES[number];
+
+const EXTENSION_MIME_TYPES: Record<string, ScanMimeType> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  heic: "image/heic",
+  heif: "image/heif",
+  pdf: "application/pdf",
+};
+
+/**
+ * MIME type of an uploaded page, from the response Content-Type when it is a
+ * supported one, otherwise from the file extension. Null when neither is.
+ */
+export function scanMimeType(url: string, contentType?: string | null): ScanMimeType | null {
+  const declared = (contentType ?? "").split(";")[0].trim().toLowerCase();
+  if ((SCAN_MIME_TYPES as readonly string[]).includes(declared)) return declared as ScanMimeType;
+
+  const extension = url.split(/[?#]/)[0].split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_MIME_TYPES[extension] ?? null;
+}
+
+/** Base64 of a byte array, encoded in chunks so large scans do not overflow the call stack */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+// ============================================================================
+// TRANSCRIPTION
+// ============================================================================
+
+/** Follows a word the model could not read with confidence */
+export const UNCLEAR_MARK = "[?]";
+
+export function buildHandwritingTranscriptionPrompt(taskNumber: 1 | 2, pageCount: number): string {
+  return `The ${pageCount > 1 ? `${pageCount} attached pages are` : "attached page is"} a student's handwritten answer to IELTS Writing Task ${taskNumber}${pageCount > 1 ? ", in order" : ""}.
+
+Transcribe the answer exactly as written:
+- Keep the student's own spelling, grammar and punctuation mistakes. Do NOT correct anything; the transcription will be marked.
+- Keep paragraph breaks as blank lines. Join lines that were only wrapped at the edge of the page.
+- Leave out crossed-out words, page numbers, the task question if it was copied, and anything written in the margins.
+- If you cannot read a word with confidence, write your best guess followed by ${UNCLEAR_MARK}, e.g. "environment${UNCLEAR_MARK}".
+- If a page is not handwriting (a blank page, a printed page, a photo of something else), say so in "notes".
+
+Return JSON: { "text": "the transcribed answer", "notes": "anything the student should know about the scan, or an empty string" }`;
+}
+
+export interface HandwritingTranscription {
+  text: string;
+  notes: string;
+  /** Number of words marked UNCLEAR_MARK */
+  unclearCount: number;
+}
+
+export function countUnclearMarks(text: string): number {
+  return text.split(UNCLEAR_MARK).length - 1;
+}
+
+/** Tidies the model's text: one blank line between paragraphs, no stray whitespace */
+export function normalizeTranscription(raw: { text?: unknown; notes?: unknown }): HandwritingTranscription {
+  const text = (typeof raw.text === "string" ? raw.text : "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s*\n\s*/g, " ").replace(/[ \t]+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n\n");
+
+  return {
+    text,
+    notes: typeof raw.notes === "string" ? raw.notes.trim() : "",
+    unclearCount: countUnclearMarks(text),
+  };
+}
@@ -0,0 +1,213 @@
+/**
+ * IELTS Scoring
+ *
+ * Single source of truth for band rounding and for combining criterion, part,
+ * task and section bands into an overall band. Dependency-free so it can be
+ * imported from edge functions (Deno) and from the web app
+ * (src/lib/ieltsBand.ts re-exports it). The conformance suite in
+ * src/lib/__tests__/ieltsScoring.test.ts pins the expected results, so a band
+ * stored by an edge function is the band every report shows.
+ *
+ * Bump IELTS_SCORING_VERSION whenever a rule changes.
+ */
+
+export {
+  BAND_CONVERSION_VERSION,
+  convertRawScore,
+  rawScoreToBand,
+} from "./bandConversion.ts";
+
+export const IELTS_SCORING_VERSION = "2026.1";
+
+// ============================================================================
+// ROUNDING
+// ============================================================================
+
+/**
+ * IELTS band rounding rules:
+ * - Round to nearest 0.5
+ * - If fractional part is .25 or above, round up to .5
+ * - If fractional part is .75 or above, round up to next whole band
+ */
+export function roundIELTSBand(rawAverage: number): number {
+  if (!Number.isFinite(rawAverage)) return 0;
+
+  const avg = Math.max(0, Math.min(9, rawAverage));
+  const floor = Math.floor(avg);
+  const fraction = avg - floor;
+
+  if (fraction < 0.25) return floor;
+  if (fraction < 0.75) return floor + 0.5;
+  return floor + 1;
+}
+
+export function isValidBand(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 9;
+}
+
+/** Mean of the valid bands, IELTS-rounded; null when there are none */
+export function averageBands(bands: ReadonlyArray<unknown>): number | null {
+  const valid = bands.filter(isValidBand);
+  if (valid.length === 0) return null;
+  return roundIELTSBand(valid.reduce((sum, band) => sum + band, 0) / valid.length);
+}
+
+/** Criterion entries come back as a bare number or as `{ band }` / `{ score }` */
+export function getCriterionBand(criterion: unknown): number | null {
+  if (isValidBand(criterion)) return criterion;
+  if (!criterion || typeof criterion !== "object") return null;
+  const { band, score } = criterion as { band?: unknown; score?: unknown };
+  if (isValidBand(band)) return band;
+  if (isValidBand(score)) return score;
+  return null;
+}
+
+// ============================================================================
+// SPEAKING
+// ============================================================================
+
+export const SPEAKING_CRITERIA = [
+  "fluency_coherence",
+  "lexical_resource",
+  "grammatical_range",
+  "pronunciation",
+] as const;
+
+export type SpeakingCriterion = typeof SPEAKING_CRITERIA[number];
+
+/**
+ * Overall speaking band from the four criteria. Criteria the model left out
+ * are skipped rather than counted as zero; returns 0 if none are usable.
+ */
+export function calculateSpeakingBandFromCriteria(criteria: unknown): number {
+  return averageSpeakingCriteria(criteria) ?? 0;
+}
+
+function averageSpeakingCriteria(criteria: unknown): number | null {
+  const source = (criteria && typeof criteria === "object" ? criteria : {}) as Record<string, unknown>;
+  return averageBands(SPEAKING_CRITERIA.map((key) => getCriterionBand(source[key])));
+}
+
+/**
+ * Official IELTS-style part weighting:
+ * - Part 1: 25% (warmup, familiar topics)
+ * - Part 2: 40% (core demonstration, long turn)
+ * - Part 3: 35% (abstract discussion, deeper assessment)
+ */
+export const SPEAKING_PART_WEIGHTS = { part1: 0.25, part2: 0.40, part3: 0.35 } as const;
+
+/**
+ * Weighted overall band from part-level scores. Returns null unless parts
+ * covering at least half of the weight were scored.
+ */
+export function computeWeightedPartBand(partScores: {
+  part1?: number;
+  part2?: number;
+  part3?: number;
+}): number | null {
+  let weightedTotal = 0;
+  let totalWeight = 0;
+
+  for (const part of ["part1", "part2", "part3"] as const) {
+    const score = partScores?.[part];
+    if (isValidBand(score)) {
+      weightedTotal += score * SPEAKING_PART_WEIGHTS[part];
+      totalWeight += SPEAKING_PART_WEIGHTS[part];
+    }
+  }
+
+  if (totalWeight < 0.5) return null;
+  return roundIELTSBand(weightedTotal / totalWeight);
+}
+
+/** Per-question weights when only modelAnswers[].estimatedBand is available */
+const QUESTION_PART_WEIGHTS: Record<number, number> = { 1: 1.0, 2: 2.0, 3: 1.5 };
+
+/**
+ * Overall band from the per-question estimates in `modelAnswers`, with the
+ * Part 2 long turn counting double (answers without a part count once).
+ * Clamped to 1-9; null if no question has an estimate.
+ */
+export function computeBandFromQuestionBands(result: unknown): number | null {
+  const modelAnswers = (result as { modelAnswers?: unknown })?.modelAnswers;
+  if (!Array.isArray(modelAnswers)) return null;
+
+  let sum = 0;
+  let weight = 0;
+  for (const answer of modelAnswers) {
+    const raw = answer?.estimatedBand ?? answer?.estimated_band ?? answer?.questionBandScore ?? answer?.question_band_score;
+    const band = raw === null || raw === undefined || raw === "" ? NaN : Number(raw);
+    if (!Number.isFinite(band)) continue;
+    const w = QUESTION_PART_WEIGHTS[Number(answer?.partNumber)] ?? 1;
+    sum += band * w;
+    weight += w;
+  }
+
+  if (weight === 0) return null;
+  return Math.min(9, Math.max(1, roundIELTSBand(sum / weight)));
+}
+
+/**
+ * The band to store for a speaking evaluation: weighted part scores, then the
+ * four criteria, then the per-question estimates, then `fallback`.
+ */
+export function resolveSpeakingOverallBand(result: unknown, fallback = 6): number {
+  const r = (result ?? {}) as { part_scores?: Record<string, number>; criteria?: unknown };
+  return (
+    computeWeightedPartBand(r.part_scores ?? {}) ??
+    averageSpeakingCriteria(r.criteria) ??
+    computeBandFromQuestionBands(result) ??
+    fallback
+  );
+}
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+export const WRITING_CRITERIA = [
+  "task_achievement",
+  "coherence_cohesion",
+  "lexical_resource",
+  "grammatical_range",
+] as const;
+
+export type WritingCriterion = typeof WRITING_CRITERIA[number];
+
+/**
+ * Band for one writing task from its four criteria. Task 1 reports
+ * `task_achievement` and Task 2 `task_response`; either is accepted.
+ */
+export function calculateWritingTaskBand(criteria: unknown): number | null {
+  const source = (criteria && typeof criteria === "object" ? criteria : {}) as Record<string, unknown>;
+  return averageBands(
+    WRITING_CRITERIA.map((key) =>
+      getCriterionBand(source[key] ?? (key === "task_achievement" ? source.task_response : undefined))
+    ),
+  );
+}
+
+/** Task 2 carries twice the weight of Task 1 in the Writing band */
+export function calculateWritingBand(
+  task1: number | null | undefined,
+  task2: number | null | undefined,
+): number | null {
+  const hasTask1 = isValidBand(task1);
+  const hasTask2 = isValidBand(task2);
+  if (hasTask1 && hasTask2) return roundIELTSBand((task1 + 2 * task2) / 3);
+  if (hasTask2) return task2;
+  if (hasTask1) return task1;
+  return null;
+}
+
+// ============================================================================
+// OVERALL
+// ============================================================================
+
+/**
+ * Overall band from the Listening, Reading, Writing and Speaking bands: the
+ * mean, IELTS-rounded. Sections without a band are left out.
+ */
+export function calculateOverallBand(sectionBands: ReadonlyArray<number | null | undefined>): number | null {
+  return averageBands(sectionBands);
+}
@@ -0,0 +1,79 @@
+/**
+ * General Training Letters
+ *
+ * General Training Task 1 is a letter rather than a data report, so Task
+ * Achievement is marked on purpose, tone and coverage of the bullet points.
+ * AI practice letters carry their tone in the visual type (LETTER_FORMAL
+ * etc.); admin-authored tests only say they are General Training
+ * (`writing_tests.test_type = 'general'`), so the tone is left for the
+ * examiner to infer from the situation.
+ *
+ * Used by evaluate-ai-practice-writing and evaluate-writing-submission.
+ */
+
+export const LETTER_TONES: Record<string, string> = {
+  LETTER_FORMAL: 'formal (e.g. "Dear Sir or Madam" ... "Yours faithfully")',
+  LETTER_SEMI_FORMAL: 'semi-formal (e.g. "Dear Mr Smith" ... "Yours sincerely")',
+  LETTER_INFORMAL: 'informal (e.g. "Dear Sam" ... "Best wishes")',
+};
+
+export function isLetterTask(visualType?: string): boolean {
+  return !!visualType && visualType.startsWith("LETTER_");
+}
+
+// Task Achievement is judged on purpose, tone and bullet-point coverage
+// instead of data description
+export const LETTER_TASK1_CRITERIA = `
+GENERAL TRAINING TASK 1 (LETTER) BAND DESCRIPTORS:
+
+TASK ACHIEVEMENT (assess purpose, tone and coverage of the bullet points):
+- Band 9: Fully satisfies all requirements; all bullet points fully and appropriately extended; purpose is clear; tone is consistent and entirely appropriate
+- Band 8: Covers all requirements sufficiently; bullet points well extended; clear purpose; tone consistent and appropriate
+- Band 7: Covers all requirements; presents a clear purpose; tone is consistent and appropriate; bullet points clearly highlighted but could be more fully extended
+- Band 6: Addresses all bullet points although some may be more fully covered than others; purpose is generally clear; tone may be inconsistent in places
+- Band 5: Generally addresses the task; bullet points may be inadequately covered or missing detail; purpose may be unclear at times; tone may be variable or inappropriate in places
+- Band 4: Attempts to address the task but does not cover all bullet points; purpose may be confused; tone may be inappropriate
+- Band 3: Fails to address the task; purpose of the letter is unclear; tone is largely inappropriate
+
+COHERENCE AND COHESION (assess organization of the letter):
+- Band 9: Uses cohesion in such a way that it attracts no attention; skilfully manages paragraphing and letter conventions
+- Band 8: Sequences information logically; manages all aspects of cohesion well; paragraphs each bullet point appropriately
+- Band 7: Logically organises information; clear progression; appropriate opening, closing and paragraphing
+- Band 6: Arranges information coherently; some faulty or mechanical cohesion; paragraphing may not always be logical
+- Band 5: Some organisation but lacks overall progression; opening or closing may be missing or unsuitable
+- Band 4: Information not arranged coherently; basic cohesive devices used inaccurately
+- Band 3: Does not organise ideas logically
+
+LEXICAL RESOURCE (assess vocabulary range, accuracy and register):
+- Band 9: Wide range of vocabulary with natural control; register entirely suited to the recipient
+- Band 8: Wide range used fluently and flexibly; register well controlled
+- Band 7: Sufficient range for flexibility and precision; awareness of style and collocation suited to the tone
+- Band 6: Adequate range for the task; some inappropriate register or word choice
+- Band 5: Limited range; noticeable errors in spelling or word formation; register frequently mismatched
+- Band 4: Basic vocabulary used repetitively or inappropriately for the recipient
+- Band 3: Very limited range of words and expressions
+
+GRAMMATICAL RANGE AND ACCURACY (assess sentence structures and error frequency):
+- Band 9: Wide range of structures with full flexibility and accuracy
+- Band 8: Wide range of structures; majority of sentences error-free
+- Band 7: Variety of complex structures; frequent error-free sentences
+- Band 6: Mix of simple and complex sentence forms; some errors in grammar and punctuation
+- Band 5: Limited range of structures; complex sentences attempted with limited accuracy
+- Band 4: Very limited range of structures; errors predominate
+- Band 3: Errors in grammar and punctuation predominate`;
+
+/** Letter type, expected tone and bullet points for the evaluation prompt */
+export function getLetterContext(visualType?: string, bulletPoints?: string[]): string {
+  const tone = LETTER_TONES[visualType ?? ""] ?? "appropriate to the recipient and the situation";
+  const kind = visualType ? `${visualType.replace("LETTER_", "").replace("_", "-").toLowerCase()} letter` : "letter";
+  const points = bulletPoints?.length
+    ? `
+BULLET POINTS THE LETTER MUST COVER:
+${bulletPoints.map((p) => `- ${p}`).join("\n")}`
+    : "";
+  return `
+LETTER TYPE: General Training ${kind}
+EXPECTED TONE: ${tone}${points}
+
+IMPORTANT: Evaluate whether the purpose is clear from the opening, every bullet point is covered and extended, and the tone, salutation and sign-off match the recipient. Do NOT expect an overview or data description.`;
+}
@@ -0,0 +1,659 @@
+/**
+ * LLM Gateway
+ *
+ * One request/response shape for every text model the edge functions call,
+ * whichever provider serves it. Callers describe the request (prompt, optional
+ * system prompt and images, JSON mode, token budget) and an ordered list of
+ * targets - a provider, a key and the models to try with it - and the gateway
+ * handles the wire format, JSON enforcement, retries, fallback across models
+ * and keys, and `log_model_performance`.
+ *
+ * Two wire formats cover every provider:
+ * - gemini: Google Generative Language `generateContent`
+ * - openai: any OpenAI-compatible `/chat/completions` (Groq, OpenRouter,
+ *   Together, a vLLM or Ollama server, ...)
+ *
+ * Built-in providers live in BUILT_IN_PROVIDERS. Further OpenAI-compatible
+ * providers are rows in `llm_providers` with their keys in `api_keys`
+ * (provider = the row's id), so adding one is configuration, not code.
+ *
+ * Usage:
+ *   const reply = await callLLM(
+ *     { taskType: "analyze", system, prompt, json: true },
+ *     [geminiTarget(apiKey, ["gemini-2.5-flash", "gemini-2.0-flash"])],
+ *     { serviceClient, logPrefix: "analyze-performance" },
+ *   );
+ *   const analysis = reply.json;
+ *
+ * `callLLMWithSchema` adds validation against a declared schema
+ * (outputSchemas.ts) and one targeted repair round.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { logModelPerformance, type TaskType } from "./performanceLogger.ts";
+import {
+  buildRepairPrompt,
+  formatIssues,
+  validateOutput,
+  type OutputSchema,
+  type SchemaIssue,
+} from "./outputSchemas.ts";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LLMApiStyle = "gemini" | "openai";
+
+export interface LLMProviderConfig {
+  id: string;
+  apiStyle: LLMApiStyle;
+  /** API root, e.g. https://api.groq.com/openai/v1 */
+  baseUrl: string;
+  defaultModels: string[];
+  /** Provider honours `response_format: json_object` / `responseMimeType` */
+  supportsJsonMode: boolean;
+  supportsImages: boolean;
+}
+
+/** A key for one provider and the models to try with it, in order */
+export interface LLMTarget {
+  provider: LLMProviderConfig;
+  apiKey: string;
+  models: string[];
+  /** Pool key id (api_keys.id), passed to the logger and to the hooks */
+  keyId?: string | null;
+}
+
+export interface LLMImage {
+  mimeType: string;
+  /** Base64 data, with or without a data: URL prefix */
+  data: string;
+}
+
+export interface LLMRequest {
+  taskType: TaskType;
+  prompt: string;
+  system?: string;
+  images?: LLMImage[];
+  /** Ask for JSON and reject replies that do not parse */
+  json?: boolean;
+  temperature?: number;
+  /**
+   * Output token budget. With several values, the next one is tried on the
+   * same model when the endpoint rejects the request (400/422).
+   */
+  maxTokens?: number | number[];
+}
+
+export interface LLMResponse {
+  text: string;
+  /** Parsed reply when the request was in JSON mode */
+  json?: unknown;
+  provider: string;
+  model: string;
+  keyId: string | null;
+  responseTimeMs: number;
+  finishReason: string | null;
+  usage: { promptTokens: number; completionTokens: number } | null;
+}
+
+export type LLMFailureKind =
+  | "quota"        // daily/billing quota used up
+  | "rate_limit"   // per-minute limit, recovers on its own
+  | "invalid_key"  // 401/403
+  | "rejected"     // 400/422, usually the token budget or an unsupported option
+  | "server"       // 5xx
+  | "network"      // fetch threw
+  | "empty"        // no text (safety filter, empty candidate)
+  | "invalid_json"; // JSON mode reply that does not parse
+
+export interface LLMFailure {
+  provider: string;
+  model: string;
+  keyId: string | null;
+  kind: LLMFailureKind;
+  status: number | null;
+  message: string;
+}
+
+export interface LLMRetryPolicy {
+  /** On quota or rate limit, try the key's next model or skip to the next target */
+  onRateLimit: "next_model" | "next_target";
+  /** Extra attempts on the same model after a server or network error */
+  transientRetries: number;
+  /** First backoff delay; doubles on each retry, capped at 30s */
+  backoffMs: number;
+  /**
+   * When the last target hits a per-minute rate limit, wait this long and
+   * retry it (up to transientRetries times). 0 disables.
+   */
+  rateLimitWaitMs: number;
+}
+
+export interface LLMCallOptions {
+  serviceClient?: SupabaseClient;
+  logPrefix?: string;
+  policy?: Partial<LLMRetryPolicy>;
+  /** Called after every failed attempt, e.g. to cool down or deactivate a pool key */
+  onFailure?: (target: LLMTarget, failure: LLMFailure) => Promise<void> | void;
+  onSuccess?: (target: LLMTarget, response: LLMResponse) => Promise<void> | void;
+}
+
+export class LLMGatewayError extends Error {
+  constructor(public readonly failures: LLMFailure[]) {
+    const last = failures[failures.length - 1];
+    super(last ? `All LLM targets failed (last: ${last.provider}/${last.model} ${last.kind}: ${last.message})` : "No LLM targets to try");
+    this.name = "LLMGatewayError";
+  }
+
+  /** Every attempt ran into a quota or rate limit */
+  get quotaExceeded(): boolean {
+    return this.failures.length > 0 && this.failures.every((f) => f.kind === "quota" || f.kind === "rate_limit");
+  }
+
+  has(kind: LLMFailureKind): boolean {
+    return this.failures.some((f) => f.kind === kind);
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const BUILT_IN_PROVIDERS: Record<string, LLMProviderConfig> = {
+  gemini: {
+    id: "gemini",
+    apiStyle: "gemini",
+    baseUrl: "https://generativelanguage.googleapis.com/v1beta",
+    defaultModels: ["gemini-2.5-flash", "gemini-2.0-flash"],
+    supportsJsonMode: true,
+    supportsImages: true,
+  },
+  groq: {
+    id: "groq",
+    apiStyle: "openai",
+    baseUrl: "https://api.groq.com/openai/v1",
+    defaultModels: ["qwen/qwen3-32b", "llama-3.3-70b-versatile", "llama-3.1-8b-instant"],
+    supportsJsonMode: true,
+    supportsImages: false,
+  },
+};
+
+const DEFAULT_POLICY: LLMRetryPolicy = {
+  onRateLimit: "next_model",
+  transientRetries: 1,
+  backoffMs: 1000,
+  rateLimitWaitMs: 0,
+};
+
+const DEFAULT_MAX_TOKENS = 8192;
+const DEFAULT_TEMPERATURE = 0.7;
+
+export function geminiTarget(apiKey: string, models?: string[], keyId?: string | null): LLMTarget {
+  const provider = BUILT_IN_PROVIDERS.gemini;
+  return { provider, apiKey, models: models ?? provider.defaultModels, keyId: keyId ?? null };
+}
+
+export function groqTarget(apiKey: string, models?: string[], keyId?: string | null): LLMTarget {
+  const provider = BUILT_IN_PROVIDERS.groq;
+  return { provider, apiKey, models: models ?? provider.defaultModels, keyId: keyId ?? null };
+}
+
+interface LLMProviderRow {
+  id: string;
+  api_style: string;
+  base_url: string;
+  models: string[] | null;
+  supports_json_mode: boolean | null;
+  supports_images: boolean | null;
+  task_types: string[] | null;
+}
+
+/**
+ * Fallback targets from the `llm_providers` table for a task, in priority
+ * order, one per active key in `api_keys`. Providers without a key are
+ * skipped; a failure to read the table yields no targets rather than an
+ * error, so configuration problems never break the primary path.
+ */
+export async function loadConfiguredTargets(
+  serviceClient: SupabaseClient,
+  taskType: TaskType,
+  options: { excludeProviders?: string[]; requireImages?: boolean } = {},
+): Promise<LLMTarget[]> {
+  const { data: rows, error } = await serviceClient
+    .from("llm_providers")
+    .select("id, api_style, base_url, models, supports_json_mode, supports_images, task_types")
+    .eq("is_active", true)
+    .order("priority", { ascending: true });
+
+  if (error || !rows) {
+    if (error) console.warn(`[llmGateway] Could not load llm_providers:`, error.message);
+    return [];
+  }
+
+  const exclude = new Set(options.excludeProviders ?? []);
+  const providers = (rows as LLMProviderRow[])
+    .filter((row) => !exclude.has(row.id))
+    .filter((row) => !row.task_types || row.task_types.length === 0 || row.task_types.includes(taskType))
+    .filter((row) => !options.requireImages || row.supports_images)
+    .map((row): LLMProviderConfig => ({
+      id: row.id,
+      apiStyle: row.api_style === "gemini" ? "gemini" : "openai",
+      baseUrl: row.base_url.replace(/\/+$/, ""),
+      defaultModels: row.models ?? [],
+      supportsJsonMode: row.supports_json_mode ?? false,
+      supportsImages: row.supports_images ?? false,
+    }))
+    .filter((provider) => provider.defaultModels.length > 0);
+
+  if (providers.length === 0) return [];
+
+  const { data: keys, error: keysError } = await serviceClient
+    .from("api_keys")
+    .select("id, provider, key_value")
+    .in("provider", providers.map((p) => p.id))
+    .eq("is_active", true)
+    .order("error_count", { ascending: true });
+
+  if (keysError || !keys) {
+    if (keysError) console.warn(`[llmGateway] Could not load keys for llm_providers:`, keysError.message);
+    return [];
+  }
+
+  const targets: LLMTarget[] = [];
+  for (const provider of providers) {
+    for (const key of keys as Array<{ id: string; provider: string; key_value: string }>) {
+      if (key.provider !== provider.id) continue;
+      targets.push({ provider, apiKey: key.key_value, models: provider.defaultModels, keyId: key.id });
+    }
+  }
+  return targets;
+}
+
+// ============================================================================
+// RESPONSE PARSING
+// ============================================================================
+
+/**
+ * Parse a model's JSON reply, tolerating markdown fences, reasoning blocks
+ * (`<think>...</think>`) and prose around the object. Null if nothing parses.
+ */
+export function parseLLMJson(text: string): unknown {
+  const cleaned = text.replace(/<think>[\s\S]*?<\/think>/gi, "").trim();
+  const candidates: string[] = [cleaned];
+
+  const fenced = cleaned.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) candidates.push(fenced[1].trim());
+
+  const objectStart = cleaned.indexOf("{");
+  const objectEnd = cleaned.lastIndexOf("}");
+  if (objectStart !== -1 && objectEnd > objectStart) candidates.push(cleaned.slice(objectStart, objectEnd + 1));
+
+  const arrayStart = cleaned.indexOf("[");
+  const arrayEnd = cleaned.lastIndexOf("]");
+  if (arrayStart !== -1 && arrayEnd > arrayStart) candidates.push(cleaned.slice(arrayStart, arrayEnd + 1));
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // try the next shape
+    }
+  }
+  return null;
+}
+
+/** Classify an HTTP error from either wire format */
+export function classifyLLMFailure(status: number, body: string): LLMFailureKind {
+  const msg = body.toLowerCase();
+  if (status === 401 || status === 403 || msg.includes("permission_denied") || msg.includes("api key not valid") || msg.includes("invalid_api_key")) {
+    return "invalid_key";
+  }
+  if (status === 429 || msg.includes("resource_exhausted") || msg.includes("resource exhausted")) {
+    const isDaily = msg.includes("check your plan") ||
+      msg.includes("billing") ||
+      msg.includes("daily") ||
+      msg.includes("per day") ||
+      (msg.includes("quota") && !msg.includes("per minute"));
+    return isDaily ? "quota" : "rate_limit";
+  }
+  if (status === 400 || status === 413 || status === 422) return "rejected";
+  return "server";
+}
+
+// ============================================================================
+// WIRE FORMATS
+// ============================================================================
+
+function stripDataUrl(data: string): string {
+  const comma = data.indexOf(",");
+  return data.startsWith("data:") && comma !== -1 ? data.slice(comma + 1) : data;
+}
+
+function buildHttpRequest(
+  target: LLMTarget,
+  model: string,
+  request: LLMRequest,
+  maxTokens: number,
+): { url: string; init: RequestInit } {
+  const { provider } = target;
+  const temperature = request.temperature ?? DEFAULT_TEMPERATURE;
+  const jsonMode = !!request.json && provider.supportsJsonMode;
+  const images = provider.supportsImages ? request.images ?? [] : [];
+
+  if (provider.apiStyle === "gemini") {
+    const parts: Array<Record<string, unknown>> = [{ text: request.prompt }];
+    for (const image of images) {
+      parts.push({ inlineData: { mimeType: image.mimeType, data: stripDataUrl(image.data) } });
+    }
+    return {
+      url: `${provider.baseUrl}/models/${model}:generateContent?key=${target.apiKey}`,
+      init: {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+          contents: [{ role: "user", parts }],
+          generationConfig: {
+            temperature,
+            maxOutputTokens: maxTokens,
+            ...(jsonMode ? { responseMimeType: "application/json" } : {}),
+          },
+        }),
+      },
+    };
+  }
+
+  const userContent = images.length === 0 ? request.prompt : [
+    { type: "text", text: request.prompt },
+    ...images.map((image) => ({
+      type: "image_url",
+      image_url: { url: image.data.startsWith("data:") ? image.data : `data:${image.mimeType};base64,${image.data}` },
+    })),
+  ];
+  const messages = [
+    ...(request.system ? [{ role: "system", content: request.system }] : []),
+    { role: "user", content: userContent },
+  ];
+
+  return {
+    url: `${provider.baseUrl}/chat/completions`,
+    init: {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${target.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        ...(jsonMode ? { response_format: { type: "json_object" } } : {}),
+      }),
+    },
+  };
+}
+
+interface ParsedReply {
+  text: string;
+  finishReason: string | null;
+  usage: LLMResponse["usage"];
+}
+
+interface GeminiReply {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> }; finishReason?: string }>;
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
+
+interface OpenAIReply {
+  choices?: Array<{ message?: { content?: string | null }; finish_reason?: string }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+function readReply(apiStyle: LLMApiStyle, data: unknown): ParsedReply {
+  if (apiStyle === "gemini") {
+    const reply = (data ?? {}) as GeminiReply;
+    const candidate = reply.candidates?.[0];
+    const meta = reply.usageMetadata;
+    return {
+      text: (candidate?.content?.parts ?? []).map((part) => part.text ?? "").join(""),
+      finishReason: candidate?.finishReason ?? null,
+      usage: meta ? { promptTokens: meta.promptTokenCount || 0, completionTokens: meta.candidatesTokenCount || 0 } : null,
+    };
+  }
+
+  const reply = (data ?? {}) as OpenAIReply;
+  const choice = reply.choices?.[0];
+  const usage = reply.usage;
+  return {
+    text: String(choice?.message?.content ?? ""),
+    finishReason: choice?.finish_reason ?? null,
+    usage: usage ? { promptTokens: usage.prompt_tokens || 0, completionTokens: usage.completion_tokens || 0 } : null,
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ============================================================================
+// CALL
+// ============================================================================
+
+/**
+ * Send a request to the first target/model that answers. Targets are tried in
+ * order and, within a target, its models in order. Throws LLMGatewayError
+ * with every failed attempt when nothing succeeds.
+ */
+export async function callLLM(
+  request: LLMRequest,
+  targets: LLMTarget[],
+  options: LLMCallOptions = {},
+): Promise<LLMResponse> {
+  const policy: LLMRetryPolicy = { ...DEFAULT_POLICY, ...options.policy };
+  const prefix = `[${options.logPrefix ?? "llmGateway"}]`;
+  const tokenBudgets = Array.isArray(request.maxTokens)
+    ? request.maxTokens
+    : [request.maxTokens ?? DEFAULT_MAX_TOKENS];
+  const failures: LLMFailure[] = [];
+
+  for (let t = 0; t < targets.length; t++) {
+    const target = targets[t];
+    const isLastTarget = t === targets.length - 1;
+    if (request.images?.length && !target.provider.supportsImages) {
+      console.warn(`${prefix} ${target.provider.id} cannot read images, skipping`);
+      continue;
+    }
+
+    let skipTarget = false;
+    for (const model of target.models) {
+      if (skipTarget) break;
+      let budgetIndex = 0;
+      let retries = 0;
+
+      while (budgetIndex < tokenBudgets.length) {
+        const maxTokens = tokenBudgets[budgetIndex];
+        const startTime = Date.now();
+        let failure: LLMFailure | null = null;
+
+        console.log(`${prefix} ${target.provider.id}/${model} (max_tokens=${maxTokens})${retries > 0 ? ` retry ${retries}` : ""}`);
+        try {
+          const { url, init } = buildHttpRequest(target, model, request, maxTokens);
+          const res = await fetch(url, init);
+
+          if (!res.ok) {
+            const body = await res.text();
+            failure = {
+              provider: target.provider.id,
+              model,
+              keyId: target.keyId ?? null,
+              kind: classifyLLMFailure(res.status, body),
+              status: res.status,
+              message: body.slice(0, 300),
+            };
+          } else {
+            const reply = readReply(target.provider.apiStyle, await res.json());
+            const responseTimeMs = Date.now() - startTime;
+            const base = { provider: target.provider.id, model, keyId: target.keyId ?? null, status: res.status };
+
+            if (!reply.text.trim()) {
+              failure = { ...base, kind: "empty", message: `Empty response (finish reason: ${reply.finishReason ?? "unknown"})` };
+            } else {
+              const json = request.json ? parseLLMJson(reply.text) : undefined;
+              if (request.json && json === null) {
+                failure = { ...base, kind: "invalid_json", message: `Reply is not valid JSON${reply.finishReason === "length" || reply.finishReason === "MAX_TOKENS" ? " (truncated)" : ""}` };
+              } else {
+                const response: LLMResponse = {
+                  text: reply.text,
+                  json,
+                  provider: target.provider.id,
+                  model,
+                  keyId: target.keyId ?? null,
+                  responseTimeMs,
+                  finishReason: reply.finishReason,
+                  usage: reply.usage,
+                };
+                console.log(`${prefix} Success with ${target.provider.id}/${model} in ${responseTimeMs}ms`);
+                await logModelPerformance({
+                  modelName: model,
+                  taskType: request.taskType,
+                  status: "success",
+                  responseTimeMs,
+                  apiKeyId: target.keyId ?? undefined,
+                }, options.serviceClient);
+                await options.onSuccess?.(target, response);
+                return response;
+              }
+            }
+          }
+        } catch (error) {
+          failure = {
+            provider: target.provider.id,
+            model,
+            keyId: target.keyId ?? null,
+            kind: "network",
+            status: null,
+            message: error instanceof Error ? error.message : String(error),
+          };
+        }
+
+        // Only failures reach this point
+        const responseTimeMs = Date.now() - startTime;
+        console.warn(`${prefix} ${target.provider.id}/${model} failed (${failure.kind}${failure.status ? ` ${failure.status}` : ""}): ${failure.message.slice(0, 200)}`);
+        failures.push(failure);
+        await logModelPerformance({
+          modelName: model,
+          taskType: request.taskType,
+          status: failure.kind === "quota" || failure.kind === "rate_limit" ? "quota_exceeded" : "error",
+          responseTimeMs,
+          errorMessage: `${failure.kind}: ${failure.message}`.slice(0, 500),
+          apiKeyId: target.keyId ?? undefined,
+        }, options.serviceClient);
+        await options.onFailure?.(target, failure);
+
+        if (failure.kind === "rejected") {
+          budgetIndex++;
+          retries = 0;
+          continue;
+        }
+        if (failure.kind === "server" || failure.kind === "network") {
+          if (retries < policy.transientRetries) {
+            await sleep(Math.min(policy.backoffMs * Math.pow(2, retries), 30000));
+            retries++;
+            continue;
+          }
+          break;
+        }
+        if (failure.kind === "rate_limit" && isLastTarget && policy.rateLimitWaitMs > 0 && retries < policy.transientRetries) {
+          console.log(`${prefix} Rate limited on the last target, waiting ${policy.rateLimitWaitMs}ms...`);
+          await sleep(policy.rateLimitWaitMs);
+          retries++;
+          continue;
+        }
+        if (failure.kind === "invalid_key") {
+          skipTarget = true;
+        } else if ((failure.kind === "quota" || failure.kind === "rate_limit") && policy.onRateLimit === "next_target") {
+          skipTarget = true;
+        }
+        break;
+      }
+    }
+  }
+
+  throw new LLMGatewayError(failures);
+}
+
+// ============================================================================
+// SCHEMA-VALIDATED CALL
+// ============================================================================
+
+export class LLMSchemaError extends Error {
+  constructor(public readonly schemaName: string, public readonly issues: SchemaIssue[]) {
+    super(`${schemaName} failed validation:\n${formatIssues(issues, 10)}`);
+    this.name = "LLMSchemaError";
+  }
+}
+
+export interface SchemaCallResult<T> {
+  value: T;
+  response: LLMResponse;
+  /** The first reply failed validation and a repair round fixed it */
+  repaired: boolean;
+}
+
+/**
+ * Ask the model to fix the fields of `output` that fail `schema`. Returns the
+ * repaired, validated value or throws LLMSchemaError. Useful on its own when
+ * the output came from a call the gateway does not make (audio input, ...).
+ */
+export async function repairStructuredOutput<T>(
+  output: unknown,
+  schema: OutputSchema,
+  schemaName: string,
+  issues: SchemaIssue[],
+  taskType: TaskType,
+  targets: LLMTarget[],
+  options: LLMCallOptions = {},
+): Promise<SchemaCallResult<T>> {
+  const prefix = `[${options.logPrefix ?? "llmGateway"}]`;
+  console.warn(`${prefix} ${schemaName} failed validation, requesting repair:\n${formatIssues(issues, 10)}`);
+
+  const response = await callLLM(
+    {
+      taskType,
+      prompt: buildRepairPrompt({ schemaName, schema, output, issues }),
+      json: true,
+      temperature: 0,
+      // The reply is the whole object again
+      maxTokens: [16384, 8192],
+    },
+    targets,
+    options,
+  );
+
+  const checked = validateOutput<T>(schema, response.json);
+  if (!checked.valid) throw new LLMSchemaError(schemaName, checked.issues);
+  console.log(`${prefix} ${schemaName} repaired by ${response.provider}/${response.model}`);
+  return { value: checked.value, response, repaired: true };
+}
+
+/**
+ * callLLM in JSON mode, then validate the reply against `schema`. A reply
+ * that parses but fails validation gets one repair round with the same
+ * targets; if that still fails, LLMSchemaError lists what is wrong.
+ */
+export async function callLLMWithSchema<T>(
+  request: LLMRequest,
+  schema: OutputSchema,
+  schemaName: string,
+  targets: LLMTarget[],
+  options: LLMCallOptions = {},
+): Promise<SchemaCallResult<T>> {
+  const response = await callLLM({ ...request, json: true }, targets, options);
+  const checked = validateOutput<T>(schema, response.json);
+  if (checked.valid) return { value: checked.value, response, repaired: false };
+
+  return await repairStructuredOutput<T>(response.json, schema, schemaName, checked.issues, request.taskType, targets, options);
+}
@@ -0,0 +1,461 @@
+/**
+ * Output Schemas
+ *
+ * Declared shapes for the JSON the models return: evaluations (writing
+ * criteria, speaking criteria and model answers) and generated test content
+ * (reading, listening, writing and speaking payloads that become a
+ * GeneratedTest). `validateOutput` checks a parsed reply against one, coercing
+ * harmless differences (numeric strings, camelCase aliases, off-step bands) and
+ * listing what is actually wrong; `buildRepairPrompt` turns that list into a
+ * targeted prompt so the model fixes only the broken fields.
+ *
+ * llmGateway's `callLLMWithSchema` runs validate -> repair -> validate, so
+ * edge functions either get output that matches the schema or an error, never
+ * a half-filled object that crashes the results page.
+ *
+ * Dependency-free: the edge functions validate with it and the web app's
+ * tests exercise it through src/lib/outputSchemas.ts.
+ */
+
+// ============================================================================
+// SCHEMA DEFINITIONS
+// ============================================================================
+
+interface BaseSchema {
+  optional?: boolean;
+  /** Shown to the model in repair prompts */
+  description?: string;
+}
+
+export interface StringSchema extends BaseSchema {
+  kind: "string";
+  minLength?: number;
+  enum?: readonly string[];
+}
+
+export interface NumberSchema extends BaseSchema {
+  kind: "number";
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  /** Values are rounded to the nearest step (0.5 for bands) */
+  step?: number;
+}
+
+export interface BooleanSchema extends BaseSchema {
+  kind: "boolean";
+}
+
+export interface ArraySchema extends BaseSchema {
+  kind: "array";
+  items: OutputSchema;
+  minItems?: number;
+}
+
+export interface ObjectSchema extends BaseSchema {
+  kind: "object";
+  properties: Record<string, OutputSchema>;
+  /** Alternative key -> canonical key, e.g. { model_answer: "modelAnswer" } */
+  aliases?: Record<string, string>;
+}
+
+/** Any non-empty value */
+export interface PresentSchema extends BaseSchema {
+  kind: "present";
+}
+
+export type OutputSchema =
+  | StringSchema
+  | NumberSchema
+  | BooleanSchema
+  | ArraySchema
+  | ObjectSchema
+  | PresentSchema;
+
+type Options<T> = Omit<T, "kind" | "items" | "properties">;
+
+export const s = {
+  string: (opts: Options<StringSchema> = {}): StringSchema => ({ kind: "string", ...opts }),
+  number: (opts: Options<NumberSchema> = {}): NumberSchema => ({ kind: "number", ...opts }),
+  boolean: (opts: Options<BooleanSchema> = {}): BooleanSchema => ({ kind: "boolean", ...opts }),
+  array: (items: OutputSchema, opts: Options<ArraySchema> = {}): ArraySchema => ({ kind: "array", items, ...opts }),
+  object: (properties: Record<string, OutputSchema>, opts: Omit<ObjectSchema, "kind" | "properties"> = {}): ObjectSchema =>
+    ({ kind: "object", properties, ...opts }),
+  present: (opts: Options<PresentSchema> = {}): PresentSchema => ({ kind: "present", ...opts }),
+  /** IELTS band: 0-9 in half bands */
+  band: (opts: Options<NumberSchema> = {}): NumberSchema => ({ kind: "number", min: 0, max: 9, step: 0.5, ...opts }),
+  optional: <T extends OutputSchema>(schema: T): T => ({ ...schema, optional: true }),
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export interface SchemaIssue {
+  /** Dotted path, e.g. `evaluation_report.lexical_resource.band` */
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult<T = unknown> {
+  valid: boolean;
+  /** Coerced copy of the input (only meaningful when valid) */
+  value: T;
+  issues: SchemaIssue[];
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function check(schema: OutputSchema, value: unknown, path: string, issues: SchemaIssue[]): unknown {
+  const label = path || "(root)";
+
+  if (isMissing(value)) {
+    if (!schema.optional) issues.push({ path: label, message: "is required" });
+    return undefined;
+  }
+
+  switch (schema.kind) {
+    case "present": {
+      if (typeof value === "string" && !value.trim()) {
+        issues.push({ path: label, message: "must not be empty" });
+      }
+      return value;
+    }
+
+    case "string": {
+      const text = typeof value === "number" ? String(value) : value;
+      if (typeof text !== "string") {
+        issues.push({ path: label, message: `must be a string, got ${Array.isArray(value) ? "array" : typeof value}` });
+        return value;
+      }
+      if (schema.minLength && text.trim().length < schema.minLength) {
+        issues.push({
+          path: label,
+          message: schema.minLength === 1 ? "must not be empty" : `must be at least ${schema.minLength} characters`,
+        });
+      }
+      if (schema.enum && !schema.enum.includes(text)) {
+        issues.push({ path: label, message: `must be one of ${schema.enum.join(", ")}` });
+      }
+      return text;
+    }
+
+    case "number": {
+      const parsed = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      if (typeof parsed !== "number" || !Number.isFinite(parsed)) {
+        issues.push({ path: label, message: `must be a number, got ${JSON.stringify(value)}` });
+        return value;
+      }
+      let num = parsed;
+      if (schema.step) num = Math.round(num / schema.step) * schema.step;
+      if (schema.integer && !Number.isInteger(num)) {
+        issues.push({ path: label, message: "must be a whole number" });
+      }
+      if (schema.min !== undefined && num < schema.min) {
+        issues.push({ path: label, message: `must be at least ${schema.min}, got ${num}` });
+      }
+      if (schema.max !== undefined && num > schema.max) {
+        issues.push({ path: label, message: `must be at most ${schema.max}, got ${num}` });
+      }
+      return num;
+    }
+
+    case "boolean": {
+      if (value === "true" || value === "false") return value === "true";
+      if (typeof value !== "boolean") issues.push({ path: label, message: "must be true or false" });
+      return value;
+    }
+
+    case "array": {
+      if (!Array.isArray(value)) {
+        issues.push({ path: label, message: `must be an array, got ${typeof value}` });
+        return value;
+      }
+      if (schema.minItems && value.length < schema.minItems) {
+        issues.push({ path: label, message: `must have at least ${schema.minItems} item(s), got ${value.length}` });
+      }
+      return value.map((item, i) => check(schema.items, item, joinPath(path, i), issues));
+    }
+
+    case "object": {
+      if (typeof value !== "object" || Array.isArray(value)) {
+        issues.push({ path: label, message: `must be an object, got ${Array.isArray(value) ? "array" : typeof value}` });
+        return value;
+      }
+      // Unknown keys pass through untouched
+      const out: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+      for (const [alias, canonical] of Object.entries(schema.aliases ?? {})) {
+        if (isMissing(out[canonical]) && !isMissing(out[alias])) out[canonical] = out[alias];
+      }
+      for (const [key, child] of Object.entries(schema.properties)) {
+        const checked = check(child, out[key], joinPath(path, key), issues);
+        if (checked !== undefined) out[key] = checked;
+      }
+      return out;
+    }
+  }
+}
+
+/** Validate (and lightly coerce) a parsed model reply */
+export function validateOutput<T = unknown>(schema: OutputSchema, value: unknown): ValidationResult<T> {
+  const issues: SchemaIssue[] = [];
+  const coerced = check(schema, value, "", issues);
+  return { valid: issues.length === 0, value: coerced as T, issues };
+}
+
+export function formatIssues(issues: SchemaIssue[], limit = 25): string {
+  const lines = issues.slice(0, limit).map((issue) => `- ${issue.path}: ${issue.message}`);
+  if (issues.length > limit) lines.push(`- ...and ${issues.length - limit} more`);
+  return lines.join("\n");
+}
+
+// ============================================================================
+// REPAIR PROMPT
+// ============================================================================
+
+/** Compact TypeScript-like rendering of a schema for prompts */
+export function describeSchema(schema: OutputSchema, indent = ""): string {
+  const note = schema.description ? ` // ${schema.description}` : "";
+  switch (schema.kind) {
+    case "present":
+      return `any non-empty value${note}`;
+    case "string":
+      return `${schema.enum ? schema.enum.map((v) => JSON.stringify(v)).join(" | ") : "string"}${note}`;
+    case "number": {
+      const range = schema.min !== undefined && schema.max !== undefined ? ` ${schema.min}-${schema.max}` : "";
+      const step = schema.step ? ` in steps of ${schema.step}` : schema.integer ? " (integer)" : "";
+      return `number${range}${step}${note}`;
+    }
+    case "boolean":
+      return `boolean${note}`;
+    case "array":
+      return `Array<${describeSchema(schema.items, indent)}>${schema.minItems ? ` (at least ${schema.minItems})` : ""}${note}`;
+    case "object": {
+      const inner = `${indent}  `;
+      const fields = Object.entries(schema.properties)
+        .map(([key, child]) => `${inner}${key}${child.optional ? "?" : ""}: ${describeSchema(child, inner)}`);
+      return `{${note}\n${fields.join("\n")}\n${indent}}`;
+    }
+  }
+}
+
+/**
+ * Ask the model to fix only what failed validation. The original output is
+ * included so unaffected fields come back unchanged.
+ */
+export function buildRepairPrompt(opts: {
+  schemaName: string;
+  schema: OutputSchema;
+  output: unknown;
+  issues: SchemaIssue[];
+}): string {
+  const output = typeof opts.output === "string" ? opts.output : JSON.stringify(opts.output, null, 2);
+
+  return `The JSON below is a ${opts.schemaName} that failed validation. Return the corrected JSON.
+
+PROBLEMS TO FIX:
+${formatIssues(opts.issues)}
+
+RULES:
+- Fix ONLY the problems listed; copy every other field unchanged
+- Fill a missing field with content consistent with the rest of the JSON; never use placeholders like "N/A" or "..."
+- Keep all text in the same language and voice as the original
+- Return ONLY the complete JSON object, no markdown or commentary
+
+REQUIRED SHAPE:
+${describeSchema(opts.schema)}
+
+JSON TO FIX:
+${output}`;
+}
+
+// ============================================================================
+// EVALUATION SCHEMAS
+// ============================================================================
+
+const stringList = s.optional(s.array(s.string()));
+
+const speakingCriterion = s.object({
+  band: s.band(),
+  feedback: s.string({ minLength: 1 }),
+  strengths: stringList,
+  weaknesses: stringList,
+  suggestions: stringList,
+}, { aliases: { score: "band" } });
+
+const speakingCriteria = (pronunciationRequired: boolean) => s.object({
+  fluency_coherence: speakingCriterion,
+  lexical_resource: speakingCriterion,
+  grammatical_range: speakingCriterion,
+  pronunciation: pronunciationRequired ? speakingCriterion : s.optional(speakingCriterion),
+}, {
+  aliases: {
+    fluencyCoherence: "fluency_coherence",
+    lexicalResource: "lexical_resource",
+    grammaticalRange: "grammatical_range",
+  },
+});
+
+/**
+ * Transcript-based speaking evaluation (groq-speaking-evaluate). Pronunciation
+ * is calibrated from the audio afterwards, so the model's band is optional.
+ */
+export function speakingEvaluationSchema(questionCount: number): ObjectSchema {
+  return s.object({
+    criteria: speakingCriteria(false),
+    summary: s.optional(s.string()),
+    modelAnswers: s.array(s.object({
+      segment_key: s.string({ minLength: 1 }),
+      modelAnswer: s.string({ minLength: 1, description: "full model answer, never empty" }),
+      estimatedBand: s.optional(s.band()),
+      targetBand: s.optional(s.band()),
+      whyItWorks: stringList,
+      keyImprovements: stringList,
+    }, {
+      aliases: {
+        segmentKey: "segment_key",
+        model_answer: "modelAnswer",
+        why_it_works: "whyItWorks",
+        key_improvements: "keyImprovements",
+      },
+    }), { minItems: questionCount, description: "one per segment_key" }),
+    lexical_upgrades: s.optional(s.array(s.object({
+      original: s.string({ minLength: 1 }),
+      upgraded: s.string({ minLength: 1 }),
+      context: s.optional(s.string()),
+    }))),
+  });
+}
+
+/** Audio-based speaking result after normalizeGeminiResponse (one model answer per recording) */
+export function speakingResultSchema(questionCount: number): ObjectSchema {
+  return s.object({
+    overall_band: s.band({ min: 1 }),
+    criteria: speakingCriteria(true),
+    modelAnswers: s.array(s.object({}), { minItems: questionCount }),
+  }, { aliases: { overallBand: "overall_band", model_answers: "modelAnswers" } });
+}
+
+const writingCriterion = (extra: Record<string, OutputSchema> = {}) => s.object({
+  band: s.band(),
+  feedback: s.string({ minLength: 1 }),
+  strengths: stringList,
+  weaknesses: stringList,
+  examples: stringList,
+  ...extra,
+}, { aliases: { score: "band" } });
+
+const writingReport = (task: 1 | 2, withModelParagraph: boolean) => s.object({
+  [task === 1 ? "task_achievement" : "task_response"]: writingCriterion(),
+  coherence_cohesion: writingCriterion(),
+  lexical_resource: writingCriterion({
+    vocabulary_upgrades: s.optional(s.array(s.object({
+      original: s.string({ minLength: 1 }),
+      suggested: s.string({ minLength: 1 }),
+      context: s.optional(s.string()),
+    }))),
+  }),
+  grammatical_accuracy: writingCriterion({
+    error_corrections: s.optional(s.array(s.object({
+      error: s.string({ minLength: 1 }),
+      correction: s.string({ minLength: 1 }),
+      explanation: s.optional(s.string()),
+    }))),
+  }),
+  overall_feedback: s.string({ minLength: 1 }),
+  key_strengths: stringList,
+  priority_improvements: stringList,
+  ...(withModelParagraph ? { model_paragraph: s.optional(s.string()) } : {}),
+}, { aliases: task === 1 ? { task_response: "task_achievement" } : { task_achievement: "task_response" } });
+
+/** Single-task writing evaluation (evaluate-ai-practice-writing) */
+export function writingTaskEvaluationSchema(task: 1 | 2): ObjectSchema {
+  return s.object({
+    overall_band: s.band(),
+    evaluation_report: writingReport(task, true),
+  }, { aliases: { overallBand: "overall_band" } });
+}
+
+/** Full writing test evaluation: both tasks plus combined feedback */
+export const WRITING_FULL_TEST_EVALUATION_SCHEMA: ObjectSchema = s.object({
+  overall_band: s.band(),
+  task1_band: s.band(),
+  task2_band: s.band(),
+  task1_evaluation: writingReport(1, false),
+  task2_evaluation: writingReport(2, false),
+  combined_feedback: s.optional(s.object({
+    overall_assessment: s.optional(s.string()),
+    next_steps: stringList,
+  })),
+}, { aliases: { overallBand: "overall_band" } });
+
+// ============================================================================
+// GENERATED TEST SCHEMAS
+// ============================================================================
+
+const generatedQuestion = s.object({
+  question_number: s.optional(s.number({ integer: true, min: 1 })),
+  question_text: s.optional(s.string()),
+  correct_answer: s.present({ description: "never empty" }),
+  explanation: s.optional(s.string()),
+  options: s.optional(s.array(s.present())),
+});
+
+/** Reading generation reply (becomes GeneratedTest.passage + questionGroups) */
+export const GENERATED_READING_SCHEMA: ObjectSchema = s.object({
+  passage: s.object({
+    title: s.optional(s.string()),
+    content: s.string({ minLength: 200, description: "the full passage text" }),
+  }),
+  instruction: s.optional(s.string()),
+  questions: s.array(generatedQuestion, { minItems: 1 }),
+});
+
+/** Listening generation reply (dialogue becomes the transcript and TTS script) */
+export const GENERATED_LISTENING_SCHEMA: ObjectSchema = s.object({
+  dialogue: s.string({ minLength: 50 }),
+  instruction: s.string({ minLength: 1 }),
+  questions: s.array(generatedQuestion, { minItems: 1 }),
+});
+
+/** Writing task generation reply (one task; becomes GeneratedTest.writingTask) */
+export const GENERATED_WRITING_TASK_SCHEMA: ObjectSchema = s.object({
+  instruction: s.string({ minLength: 20 }),
+  visual_type: s.optional(s.string()),
+  visual_description: s.optional(s.string()),
+  bullet_points: stringList,
+  essay_type: s.optional(s.string()),
+});
+
+/** Speaking generation reply (becomes GeneratedTest.speakingParts) */
+export const GENERATED_SPEAKING_SCHEMA: ObjectSchema = s.object({
+  topic: s.optional(s.string()),
+  parts: s.array(s.object({
+    part_number: s.number({ integer: true, min: 1, max: 3 }),
+    instruction: s.optional(s.string()),
+    questions: s.array(s.object({
+      question_number: s.optional(s.number({ integer: true, min: 1 })),
+      question_text: s.string({ minLength: 1 }),
+      sample_answer: s.optional(s.string()),
+    })),
+    cue_card_topic: s.optional(s.string()),
+    cue_card_content: s.optional(s.string()),
+  }), { minItems: 1 }),
+});
+
+// ============================================================================
+// TRANSCRIPTION SCHEMAS
+// ============================================================================
+
+/** Handwritten answer transcription (transcribe-handwriting) */
+export const HANDWRITING_TRANSCRIPTION_SCHEMA: ObjectSchema = s.object({
+  text: s.string({ description: "the transcribed answer, empty if nothing is legible" }),
+  notes: s.optional(s.string()),
+});
@@ -0,0 +1,170 @@
+/**
+ * Adaptive Part 3 Follow-ups
+ *
+ * In adaptive mode every Part 3 question after the first is written from the
+ * candidate's previous answer, pressing for justification, comparison and
+ * speculation the way a live examiner does. The turns are kept as a question
+ * tree (each follow-up points at the answer it reacts to) and saved with the
+ * submission, so evaluators grade against the questions actually asked and
+ * the report can show how the discussion developed.
+ *
+ * Dependency-free: ai-speaking-session builds the follow-up prompt from it,
+ * the evaluators apply the tree to the test payload and the web app reads
+ * the same types (src/lib/part3FollowUp.ts re-exports it).
+ */
+
+export const PART3_TREE_VERSION = "2026.1";
+
+/** "prepared" marks a pre-generated question asked because no follow-up could be written */
+export type Part3Move = "opening" | "prepared" | "justify" | "compare" | "speculate" | "evaluate";
+
+export type Part3FollowUpMove = Exclude<Part3Move, "opening" | "prepared">;
+
+export interface Part3Turn {
+  questionId: string;
+  questionNumber: number;
+  questionText: string;
+  move: Part3Move;
+  /** Question whose answer this follow-up reacts to; absent for the opening question */
+  parentQuestionId?: string;
+  /** What the follow-up picks up from that answer */
+  focus?: string;
+  /** Live transcript of the candidate's answer */
+  answerTranscript?: string;
+}
+
+export interface Part3QuestionTree {
+  version: string;
+  /** The Part 2 topic the discussion grows out of */
+  topic: string;
+  turns: Part3Turn[];
+}
+
+export interface Part3FollowUp {
+  questionText: string;
+  move: Part3FollowUpMove;
+  focus?: string;
+}
+
+export const PART3_MOVE_LABELS: Record<Part3Move, string> = {
+  opening: "Opening question",
+  prepared: "Prepared question",
+  justify: "Justify",
+  compare: "Compare",
+  speculate: "Speculate",
+  evaluate: "Evaluate",
+};
+
+const MOVE_GUIDANCE: Record<Part3FollowUpMove, string> = {
+  justify: "Ask the candidate to justify or explain something they just claimed: why they think so, or what example shows it.",
+  compare: "Ask the candidate to compare: the past and now, their country and others, different generations, or two things they mentioned.",
+  speculate: "Ask the candidate to speculate about the future or a hypothetical situation that grows out of what they said.",
+  evaluate: "Ask the candidate to weigh up advantages and disadvantages, or give a view on the wider issue their answer raised.",
+};
+
+const FOLLOW_UP_MOVES: Part3FollowUpMove[] = ["justify", "compare", "speculate", "evaluate"];
+
+// Below this an answer has not developed its point and is pressed for reasons
+const SHORT_ANSWER_WORDS = 25;
+const MAX_QUESTION_LENGTH = 300;
+
+const countWords = (text?: string) => (text ?? "").split(/\s+/).filter(Boolean).length;
+
+export function isPart3QuestionTree(value: unknown): value is Part3QuestionTree {
+  const tree = value as Part3QuestionTree | null;
+  return !!tree && typeof tree === "object" && Array.isArray(tree.turns) &&
+    tree.turns.every((t) => t && typeof t.questionId === "string" && typeof t.questionText === "string");
+}
+
+/**
+ * Pick the examiner's next move. A short answer is pressed for justification;
+ * otherwise the moves rotate so the discussion reaches comparison and
+ * speculation instead of asking "why" every time.
+ */
+export function chooseNextMove(turns: Part3Turn[]): Part3FollowUpMove {
+  const last = turns[turns.length - 1];
+  if (last && last.move !== "justify" && countWords(last.answerTranscript) < SHORT_ANSWER_WORDS) return "justify";
+
+  const used = new Set(turns.map((t) => t.move));
+  const unused = FOLLOW_UP_MOVES.find((m) => !used.has(m) && m !== last?.move);
+  if (unused) return unused;
+
+  const lastIndex = FOLLOW_UP_MOVES.indexOf(last?.move as Part3FollowUpMove);
+  return FOLLOW_UP_MOVES[(lastIndex + 1) % FOLLOW_UP_MOVES.length];
+}
+
+/** Instruction appended to the examiner persona when writing the next question */
+export function buildFollowUpPrompt(tree: Part3QuestionTree, move: Part3FollowUpMove): string {
+  const discussion = tree.turns
+    .map((t, i) => `Q${i + 1}: ${t.questionText}\nCandidate: ${t.answerTranscript?.trim() || "(no answer recorded)"}`)
+    .join("\n\n");
+
+  return `You are in Part 3 of the test, discussing issues related to the Part 2 topic "${tree.topic}".
+
+DISCUSSION SO FAR:
+${discussion}
+
+Write the next Part 3 question as the examiner would ask it, reacting to the candidate's LAST answer.
+${MOVE_GUIDANCE[move]}
+
+RULES:
+- One question only, one or two sentences, spoken naturally
+- Pick up a specific idea, claim or example from the last answer; do not repeat an earlier question
+- Keep it abstract and discussion-based (society, trends, causes, consequences), not personal Part 1 questions
+- If the last answer was empty or off-topic, ask a fresh question on the topic instead
+- Do not comment on or praise the answer
+
+Return ONLY JSON: {"question": "...", "focus": "the idea from the answer you picked up, in a few words"}`;
+}
+
+/** Read the model's reply; null when it is not a usable question */
+export function parseFollowUp(text: string, move: Part3FollowUpMove): Part3FollowUp | null {
+  const cleaned = text.replace(/```(?:json)?/gi, "").trim();
+  let question = "";
+  let focus: string | undefined;
+
+  try {
+    const parsed = JSON.parse(cleaned.slice(cleaned.indexOf("{"), cleaned.lastIndexOf("}") + 1));
+    question = typeof parsed?.question === "string" ? parsed.question : "";
+    focus = typeof parsed?.focus === "string" && parsed.focus.trim() ? parsed.focus.trim() : undefined;
+  } catch {
+    // Some replies drop the JSON wrapper and give the bare question
+    if (!cleaned.includes("{")) question = cleaned.split("\n")[0];
+  }
+
+  question = question.replace(/^["']|["']$/g, "").trim();
+  if (!question || question.length > MAX_QUESTION_LENGTH) return null;
+  if (!/[?.]$/.test(question)) question += "?";
+
+  return { questionText: question, move, focus };
+}
+
+export interface SpeakingPayload {
+  speakingParts?: Array<{
+    part_number?: number | string;
+    questions?: Array<{ id?: string; question_number?: number | string; question_text?: string }>;
+  }>;
+}
+
+/**
+ * The test payload with Part 3 question texts replaced by the ones asked in
+ * adaptive mode, so prompts and reports quote the real questions.
+ */
+export function applyPart3QuestionTree<T extends SpeakingPayload>(payload: T, tree: unknown): T {
+  if (!isPart3QuestionTree(tree) || !Array.isArray(payload?.speakingParts)) return payload;
+  const asked = new Map(tree.turns.map((t) => [t.questionId, t.questionText]));
+
+  return {
+    ...payload,
+    speakingParts: payload.speakingParts.map((part) =>
+      Number(part?.part_number) !== 3 || !Array.isArray(part?.questions)
+        ? part
+        : {
+          ...part,
+          questions: part.questions.map((q) =>
+            asked.has(String(q?.id)) ? { ...q, question_text: asked.get(String(q?.id)) } : q
+          ),
+        }
+    ),
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * Word-level Pronunciation Analysis
+ *
+ * Turns Whisper word timings into per-word clarity flags, a speech rate per
+ * recorded answer and a short list of words that were likely mispronounced.
+ * Dependency-free so groq-speaking-evaluate can run it on the stored
+ * transcription and the web app can read the same types
+ * (src/lib/pronunciationAnalysis.ts re-exports it).
+ *
+ * Groq Whisper does not return usable word probabilities, so clarity is read
+ * from how long each word took relative to the speaker's own pace and from
+ * the recognition confidence (avg_logprob) of the phrase around it. Word
+ * probabilities are still used when a provider supplies them.
+ */
+
+export const PRONUNCIATION_ANALYSIS_VERSION = "2026.1";
+
+export interface TimedWord {
+  word: string;
+  /** Seconds from the start of the answer's recording */
+  start: number;
+  end: number;
+  probability?: number;
+}
+
+export interface TimedPhrase {
+  start: number;
+  end: number;
+  avg_logprob: number;
+}
+
+export interface TimedAnswer {
+  segmentKey: string;
+  partNumber: number;
+  questionNumber: number;
+  duration: number;
+  words?: TimedWord[];
+  segments?: TimedPhrase[];
+}
+
+export type WordClarity = "clear" | "uncertain" | "unclear";
+
+export type ClarityReason = "low_confidence" | "unclear_phrase" | "drawn_out" | "rushed";
+
+export interface AnalyzedWord {
+  word: string;
+  start: number;
+  end: number;
+  clarity: WordClarity;
+  reasons: ClarityReason[];
+}
+
+export interface AnswerPronunciation {
+  segmentKey: string;
+  partNumber: number;
+  questionNumber: number;
+  /** Words per minute over the whole recording */
+  speechRate: number;
+  /** Words per minute while actually speaking (pauses over 0.5s left out) */
+  articulationRate: number;
+  words: AnalyzedWord[];
+  unclearCount: number;
+}
+
+export interface MispronouncedWord {
+  word: string;
+  segmentKey: string;
+  start: number;
+  end: number;
+  reasons: ClarityReason[];
+}
+
+export interface PronunciationAnalysis {
+  version: string;
+  answers: AnswerPronunciation[];
+  likelyMispronounced: MispronouncedWord[];
+  /** Share of words marked clear, 0-1 */
+  clarityRatio: number;
+  averageSpeechRate: number;
+}
+
+export const CLARITY_REASON_LABELS: Record<ClarityReason, string> = {
+  low_confidence: "The recogniser was unsure of this word",
+  unclear_phrase: "Said in a phrase the recogniser found hard to follow",
+  drawn_out: "Took much longer than your usual pace",
+  rushed: "Said much faster than your usual pace",
+};
+
+const LOW_WORD_PROBABILITY = 0.5;
+const UNCLEAR_PHRASE_LOGPROB = -0.8;
+const DRAWN_OUT_RATIO = 2.5;
+const DRAWN_OUT_MIN_SECONDS = 0.6;
+const RUSHED_RATIO = 0.35;
+const RUSHED_MIN_LETTERS = 6;
+const ARTICULATION_PAUSE_SECONDS = 0.5;
+const MAX_MISPRONOUNCED = 15;
+
+const FILLERS = new Set(["um", "uh", "ah", "er", "erm", "hmm", "mm", "like"]);
+
+const letters = (word: string) => word.toLowerCase().replace(/[^a-z']/g, "");
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const perMinute = (count: number, seconds: number) => (seconds > 0 ? Math.round((count / seconds) * 60) : 0);
+
+function analyzeWord(word: TimedWord, secondsPerLetter: number, phrases: TimedPhrase[]): AnalyzedWord {
+  const text = letters(word.word);
+  const duration = Math.max(0, word.end - word.start);
+  const reasons: ClarityReason[] = [];
+
+  if (typeof word.probability === "number" && word.probability > 0 && word.probability < LOW_WORD_PROBABILITY) {
+    reasons.push("low_confidence");
+  }
+
+  const phrase = phrases.find((p) => word.start >= p.start && word.start < p.end);
+  if (phrase && phrase.avg_logprob < UNCLEAR_PHRASE_LOGPROB) reasons.push("unclear_phrase");
+
+  if (text && secondsPerLetter > 0 && !FILLERS.has(text)) {
+    const expected = secondsPerLetter * text.length;
+    if (duration >= DRAWN_OUT_MIN_SECONDS && duration > expected * DRAWN_OUT_RATIO) reasons.push("drawn_out");
+    if (text.length >= RUSHED_MIN_LETTERS && duration > 0 && duration < expected * RUSHED_RATIO) reasons.push("rushed");
+  }
+
+  // A difficult phrase on its own only makes a word uncertain; anything
+  // specific to the word itself makes it unclear
+  const clarity: WordClarity = reasons.some((r) => r !== "unclear_phrase")
+    ? "unclear"
+    : reasons.length > 0
+      ? "uncertain"
+      : "clear";
+
+  return { word: word.word.trim(), start: word.start, end: word.end, clarity, reasons };
+}
+
+export function analyzeAnswerPronunciation(answer: TimedAnswer, secondsPerLetter: number): AnswerPronunciation {
+  const timed = (answer.words ?? []).filter((w) => Number.isFinite(w.start) && Number.isFinite(w.end) && w.word.trim());
+  const words = timed.map((w) => analyzeWord(w, secondsPerLetter, answer.segments ?? []));
+
+  let speakingSeconds = 0;
+  for (let i = 0; i < timed.length; i++) {
+    speakingSeconds += Math.max(0, timed[i].end - timed[i].start);
+    const gap = i > 0 ? timed[i].start - timed[i - 1].end : 0;
+    if (gap > 0 && gap <= ARTICULATION_PAUSE_SECONDS) speakingSeconds += gap;
+  }
+  const duration = answer.duration > 0 ? answer.duration : (timed[timed.length - 1]?.end ?? 0);
+
+  return {
+    segmentKey: answer.segmentKey,
+    partNumber: answer.partNumber,
+    questionNumber: answer.questionNumber,
+    speechRate: perMinute(timed.length, duration),
+    articulationRate: perMinute(timed.length, speakingSeconds),
+    words,
+    unclearCount: words.filter((w) => w.clarity === "unclear").length,
+  };
+}
+
+/**
+ * Analyse every recorded answer against the speaker's own median pace, so a
+ * naturally slow or fast speaker is not flagged throughout.
+ */
+export function analyzePronunciation(answers: TimedAnswer[]): PronunciationAnalysis {
+  const perLetter = answers.flatMap((a) =>
+    (a.words ?? [])
+      .map((w) => ({ length: letters(w.word).length, duration: w.end - w.start }))
+      .filter((w) => w.length >= 2 && w.duration > 0)
+      .map((w) => w.duration / w.length)
+  );
+  const secondsPerLetter = median(perLetter);
+
+  const analyzed = answers.map((a) => analyzeAnswerPronunciation(a, secondsPerLetter));
+  const allWords = analyzed.flatMap((a) => a.words);
+
+  const seen = new Set<string>();
+  const likelyMispronounced: MispronouncedWord[] = [];
+  for (const answer of analyzed) {
+    for (const w of answer.words) {
+      const key = letters(w.word);
+      if (w.clarity !== "unclear" || key.length < 4 || FILLERS.has(key) || seen.has(key)) continue;
+      seen.add(key);
+      likelyMispronounced.push({ word: w.word, segmentKey: answer.segmentKey, start: w.start, end: w.end, reasons: w.reasons });
+    }
+  }
+  likelyMispronounced.sort((a, b) => b.reasons.length - a.reasons.length);
+
+  const rated = analyzed.filter((a) => a.words.length > 0);
+  return {
+    version: PRONUNCIATION_ANALYSIS_VERSION,
+    answers: analyzed,
+    likelyMispronounced: likelyMispronounced.slice(0, MAX_MISPRONOUNCED),
+    clarityRatio: allWords.length ? allWords.filter((w) => w.clarity === "clear").length / allWords.length : 0,
+    averageSpeechRate: rated.length ? Math.round(rated.reduce((sum, a) => sum + a.speechRate, 0) / rated.length) : 0,
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Question Retry
+ *
+ * After a speaking evaluation the candidate can re-record a single question
+ * from the report. The new answer goes through a lightweight single-segment
+ * path in groq-speaking-evaluate: the original and the retry transcript are
+ * scored side by side in one call, so the per-criterion delta compares like
+ * with like. Pronunciation is not scored by the model; it comes from the
+ * Whisper confidence of the retry and from the report for the original.
+ *
+ * Every retry is kept in `speaking_question_attempts`, giving each question
+ * its own attempt history.
+ *
+ * Dependency-free: groq-speaking-evaluate builds the prompt and parses the
+ * reply, and the web app formats the deltas (src/lib/questionRetry.ts
+ * re-exports it).
+ */
+
+import {
+  SPEAKING_CRITERIA,
+  calculateSpeakingBandFromCriteria,
+  isValidBand,
+  roundIELTSBand,
+  type SpeakingCriterion,
+} from "./ieltsScoring.ts";
+
+export type RetryCriteria = Partial<Record<SpeakingCriterion, number>>;
+
+/** The criteria the model scores; pronunciation is measured from the audio */
+export const MODEL_SCORED_CRITERIA: SpeakingCriterion[] = ["fluency_coherence", "lexical_resource", "grammatical_range"];
+
+export const RETRY_CRITERION_LABELS: Record<SpeakingCriterion, string> = {
+  fluency_coherence: "Fluency & Coherence",
+  lexical_resource: "Lexical Resource",
+  grammatical_range: "Grammatical Range & Accuracy",
+  pronunciation: "Pronunciation",
+};
+
+// A retry shorter than this is not worth sending to the model
+export const MIN_RETRY_WORDS = 3;
+
+export interface QuestionRetrySource {
+  partNumber: number;
+  questionNumber: number;
+  questionText: string;
+  originalTranscript: string;
+  retryTranscript: string;
+  retryDurationSeconds: number;
+}
+
+export interface QuestionRetryEvaluation {
+  original: RetryCriteria;
+  retry: RetryCriteria;
+  feedback: string;
+}
+
+/** One stored retry, as returned to the report pages */
+export interface QuestionAttempt {
+  id: string;
+  segmentKey: string;
+  transcript: string;
+  audioUrl: string | null;
+  durationSeconds: number | null;
+  criteria: RetryCriteria;
+  overallBand: number;
+  originalCriteria: RetryCriteria;
+  originalBand: number;
+  feedback: string;
+  createdAt: string;
+}
+
+export function buildQuestionRetryPrompt(source: QuestionRetrySource): string {
+  const partGuide = source.partNumber === 2
+    ? "Part 2 long turn: expect 1-2 minutes of connected speech"
+    : source.partNumber === 3
+    ? "Part 3 discussion: expect a developed, abstract answer of 3-6 sentences"
+    : "Part 1 interview: expect a short, direct answer with a reason or example";
+
+  return `Score two answers by the same IELTS candidate to the same Speaking question. The second is a retry recorded after seeing feedback on the first.
+
+QUESTION (Part ${source.partNumber} Q${source.questionNumber}): "${source.questionText}"
+${partGuide}
+
+ORIGINAL ANSWER:
+"${source.originalTranscript.trim() || "(no answer recorded)"}"
+
+RETRY (${Math.round(source.retryDurationSeconds)}s of audio):
+"${source.retryTranscript.trim()}"
+
+RULES:
+- Score each answer on its own merits against the public band descriptors, using the same standard for both
+- Bands are whole or half bands from 0 to 9
+- Score fluency_coherence, lexical_resource and grammatical_range only; do NOT score pronunciation
+- If the retry is off topic or much shorter, score it lower even if the language is better
+- feedback: 1-2 sentences on what changed between the attempts, quoting the retry
+
+Return ONLY JSON:
+{"original": {"fluency_coherence": 0, "lexical_resource": 0, "grammatical_range": 0}, "retry": {"fluency_coherence": 0, "lexical_resource": 0, "grammatical_range": 0}, "feedback": "..."}`;
+}
+
+function readCriteria(value: unknown): RetryCriteria {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const criteria: RetryCriteria = {};
+  for (const key of MODEL_SCORED_CRITERIA) {
+    const band = Number(source[key]);
+    if (isValidBand(band)) criteria[key] = roundIELTSBand(band);
+  }
+  return criteria;
+}
+
+/** Null unless the retry was given a band on every model-scored criterion */
+export function parseQuestionRetryEvaluation(text: string): QuestionRetryEvaluation | null {
+  const cleaned = text.replace(/```(?:json)?/gi, "").trim();
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(cleaned.slice(cleaned.indexOf("{"), cleaned.lastIndexOf("}") + 1));
+  } catch {
+    return null;
+  }
+
+  const retry = readCriteria(parsed?.retry);
+  if (MODEL_SCORED_CRITERIA.some((key) => retry[key] === undefined)) return null;
+
+  return {
+    original: readCriteria(parsed?.original),
+    retry,
+    feedback: typeof parsed?.feedback === "string" ? parsed.feedback.trim() : "",
+  };
+}
+
+function readStoredCriteria(value: unknown): RetryCriteria {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const criteria: RetryCriteria = {};
+  for (const key of SPEAKING_CRITERIA) {
+    if (isValidBand(source[key])) criteria[key] = source[key] as number;
+  }
+  return criteria;
+}
+
+/** A `speaking_question_attempts` row as the report pages use it */
+export function attemptFromRow(row: Record<string, unknown>): QuestionAttempt {
+  const duration = Number(row.duration_seconds);
+  return {
+    id: String(row.id),
+    segmentKey: String(row.segment_key || ""),
+    transcript: String(row.transcript || ""),
+    audioUrl: typeof row.audio_url === "string" ? row.audio_url : null,
+    durationSeconds: Number.isFinite(duration) && row.duration_seconds !== null ? duration : null,
+    criteria: readStoredCriteria(row.criteria),
+    overallBand: Number(row.overall_band) || 0,
+    originalCriteria: readStoredCriteria(row.original_criteria),
+    originalBand: Number(row.original_band) || 0,
+    feedback: String(row.feedback || ""),
+    createdAt: String(row.created_at || ""),
+  };
+}
+
+/** Overall band of a single answer from whichever criteria it has */
+export function retryOverallBand(criteria: RetryCriteria): number {
+  return calculateSpeakingBandFromCriteria(criteria);
+}
+
+/** Retry minus original for every criterion both attempts were scored on */
+export function criteriaDelta(original: RetryCriteria, retry: RetryCriteria): RetryCriteria {
+  const delta: RetryCriteria = {};
+  for (const key of SPEAKING_CRITERIA) {
+    const before = original[key];
+    const after = retry[key];
+    if (before !== undefined && after !== undefined) delta[key] = after - before;
+  }
+  return delta;
+}
+
+/** "+0.5", "-1", "±0" */
+export function formatBandDelta(delta: number): string {
+  if (delta === 0) return "±0";
+  return `${delta > 0 ? "+" : ""}${delta}`;
+}
@@ -7,6 +7,7 @@
  */
 
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import { speakingResultSchema, validateOutput } from "./outputSchemas.ts";
 
 // ============================================================================
 // ENCRYPTION UTILITIES
@@ -246,86 +247,15 @@ export function sleep(ms: number): Promise<void> {
 // BAND SCORE CALCULATION UTILITIES
 // ============================================================================
 
-/**
- * IELTS band rounding rules:
- * - Round to nearest 0.5
- * - If fractional part is .25 or above, round up to .5
- * - If fractional part is .75 or above, round up to next whole band
- */
-export function roundIELTSBand(rawAverage: number): number {
-  if (!Number.isFinite(rawAverage)) return 0;
-  
-  const avg = Math.max(0, Math.min(9, rawAverage));
-  const floor = Math.floor(avg);
-  const fraction = avg - floor;
-  
-  if (fraction < 0.25) return floor;
-  if (fraction < 0.75) return floor + 0.5;
-  return floor + 1;
-}
-
-/**
- * Calculate overall band score from criteria scores using IELTS rounding
- * This should match frontend computeSpeakingOverallBandFromCriteria
- */
-export function calculateBandFromCriteria(criteria: any): number {
-  const criteriaKeys = ['fluency_coherence', 'lexical_resource', 'grammatical_range', 'pronunciation'];
-  let total = 0;
-  let count = 0;
-
-  for (const key of criteriaKeys) {
-    const criterion = criteria?.[key];
-    const band = criterion?.band ?? criterion?.score;
-    if (typeof band === 'number' && band >= 0 && band <= 9) {
-      total += band;
-      count++;
-    }
-  }
-
-  if (count === 0) return 0;
-  
-  const avg = total / count;
-  // Use proper IELTS rounding
-  return roundIELTSBand(avg);
-}
-
-/**
- * Compute weighted overall band from part-level scores
- * Uses official IELTS-style weighting:
- * - Part 1: 25% (warmup, familiar topics)
- * - Part 2: 40% (core demonstration, long turn)
- * - Part 3: 35% (abstract discussion, deeper assessment)
- */
-export function computeWeightedPartBand(partScores: {
-  part1?: number;
-  part2?: number;
-  part3?: number;
-}): number | null {
-  const WEIGHTS = { part1: 0.25, part2: 0.40, part3: 0.35 };
-  
-  let weightedTotal = 0;
-  let totalWeight = 0;
-
-  if (typeof partScores.part1 === 'number' && partScores.part1 >= 0 && partScores.part1 <= 9) {
-    weightedTotal += partScores.part1 * WEIGHTS.part1;
-    totalWeight += WEIGHTS.part1;
-  }
-  if (typeof partScores.part2 === 'number' && partScores.part2 >= 0 && partScores.part2 <= 9) {
-    weightedTotal += partScores.part2 * WEIGHTS.part2;
-    totalWeight += WEIGHTS.part2;
-  }
-  if (typeof partScores.part3 === 'number' && partScores.part3 >= 0 && partScores.part3 <= 9) {
-    weightedTotal += partScores.part3 * WEIGHTS.part3;
-    totalWeight += WEIGHTS.part3;
-  }
-
-  // Only use weighted calculation if we have enough data (at least 50% weight)
-  if (totalWeight < 0.5) return null;
-
-  const rawBand = weightedTotal / totalWeight;
-  // Use proper IELTS rounding
-  return roundIELTSBand(rawBand);
-}
+// Rounding and band combination live in ieltsScoring.ts so edge functions and
+// the web app score identically; re-exported here for existing imports.
+export {
+  roundIELTSBand,
+  calculateSpeakingBandFromCriteria as calculateBandFromCriteria,
+  computeWeightedPartBand,
+  computeBandFromQuestionBands,
+  resolveSpeakingOverallBand,
+} from "./ieltsScoring.ts";
 
 // ============================================================================
 // VALIDATION UTILITIES
@@ -344,37 +274,22 @@ export function validateEvaluationResult(
     return { valid: false, issues: ['Response is not a valid object'] };
   }
 
-  // Check overall_band exists and is reasonable
-  const overallBand = result.overall_band ?? result.overallBand;
-  if (typeof overallBand !== 'number' || overallBand < 1 || overallBand > 9) {
-    issues.push(`Invalid overall_band: ${overallBand}`);
+  // Bands, criteria and modelAnswers are checked against the declared result schema
+  for (const issue of validateOutput(speakingResultSchema(expectedQuestionCount), result).issues) {
+    issues.push(`${issue.path}: ${issue.message}`);
   }
 
-  // Check criteria scores - handle both formats
   const criteria = result.criteria || {};
   const criteriaKeys = ['fluency_coherence', 'lexical_resource', 'grammatical_range', 'pronunciation'];
 
+  // Ensure we have feedback, not just "no audio input"
   for (const key of criteriaKeys) {
-    const criterion = criteria[key] || result[key];
-    const band = criterion?.band ?? criterion?.score;
-
-    if (typeof band !== 'number' || band < 0 || band > 9) {
-      issues.push(`Missing or invalid band for ${key}: ${band}`);
-    }
-
-    // Ensure we have feedback, not just "no audio input"
-    const feedback = criterion?.feedback || '';
+    const feedback = (criteria[key] || result[key])?.feedback || '';
     if (typeof feedback === 'string' && feedback.toLowerCase().includes('no audio input')) {
       issues.push(`${key} says "no audio input" - audio wasn't processed correctly`);
     }
   }
 
-  // Check modelAnswers count
-  const modelAnswers = result.modelAnswers || result.model_answers || [];
-  if (!Array.isArray(modelAnswers) || modelAnswers.length < expectedQuestionCount) {
-    issues.push(`Expected ${expectedQuestionCount} modelAnswers, got ${modelAnswers.length}`);
-  }
-
   // Check transcripts exist
   const transcriptsByQuestion = result.transcripts_by_question;
   if (!transcriptsByQuestion || typeof transcriptsByQuestion !== 'object') {
@@ -0,0 +1,409 @@
+/**
+ * Task 1 Data Check
+ *
+ * AI-generated Task 1 visuals are drawn from structured chart data
+ * (IELTSVisualRenderer), so the figures a candidate reports can be checked
+ * instead of judged by eye. extractChartFacts lists every data point and the
+ * key features a complete report should cover. The examiner model gets that
+ * sheet and only has to list the candidate's claims (figures, trends and
+ * comparisons) with the data points they refer to; resolveDataCheck then
+ * verifies each claim against the numbers itself. Misreported figures and
+ * missed key features set a ceiling on Task Achievement (dataCheckBandCap).
+ *
+ * Used by evaluate-ai-practice-writing; the results page shows the check
+ * (src/lib/task1DataCheck.ts re-exports it).
+ */
+
+// ============================================================================
+// CHART FACTS
+// ============================================================================
+
+/** The parts of IELTSChartData the check reads; process diagrams and maps carry no figures */
+export interface Task1ChartData {
+  type: string;
+  title?: string;
+  yAxisLabel?: string;
+  data?: Array<{ label: string; value: number }>;
+  series?: Array<{ name: string; data: Array<{ x: string | number; y: number }> }>;
+  headers?: string[];
+  rows?: Array<Array<{ value: string | number }>>;
+  charts?: Task1ChartData[];
+}
+
+export interface ChartDataPoint {
+  id: string;
+  label: string;
+  value: number;
+}
+
+export interface ChartSection {
+  title: string;
+  unit?: string;
+  points: ChartDataPoint[];
+}
+
+export type KeyFeatureKind = "highest" | "lowest" | "trend";
+
+export interface ChartKeyFeature {
+  id: string;
+  kind: KeyFeatureKind;
+  description: string;
+}
+
+export interface ChartFacts {
+  sections: ChartSection[];
+  features: ChartKeyFeature[];
+}
+
+const MAX_KEY_FEATURES = 10;
+
+// A change within 5% of the larger value reads as "stable" in a key feature
+const STABLE_CHANGE = 0.05;
+
+// Reported figures and "similar" comparisons may round by up to 10%
+const VALUE_TOLERANCE = 0.1;
+
+function formatValue(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/** Numeric table cell, allowing thousands separators, currency and percent signs */
+function parseCellNumber(value: string | number): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const cleaned = value.replace(/[,%$£€\s]/g, "");
+  return /^-?\d+(\.\d+)?$/.test(cleaned) ? Number(cleaned) : null;
+}
+
+class FactsBuilder {
+  sections: ChartSection[] = [];
+  features: ChartKeyFeature[] = [];
+  private pointCount = 0;
+
+  section(title: string, unit: string | undefined): ChartSection {
+    const section: ChartSection = { title, ...(unit ? { unit } : {}), points: [] };
+    this.sections.push(section);
+    return section;
+  }
+
+  point(section: ChartSection, label: string, value: number): ChartDataPoint {
+    const point = { id: `p${++this.pointCount}`, label, value };
+    section.points.push(point);
+    return point;
+  }
+
+  feature(kind: KeyFeatureKind, description: string) {
+    this.features.push({ id: `f${this.features.length + 1}`, kind, description });
+  }
+
+  extremes(points: ChartDataPoint[], scope: string) {
+    if (points.length < 2) return;
+    const sorted = [...points].sort((a, b) => b.value - a.value);
+    const [highest, lowest] = [sorted[0], sorted[sorted.length - 1]];
+    if (highest.value === lowest.value) return;
+    this.feature("highest", `${highest.label} is the highest ${scope} (${formatValue(highest.value)})`);
+    this.feature("lowest", `${lowest.label} is the lowest ${scope} (${formatValue(lowest.value)})`);
+  }
+
+  trend(name: string, points: ChartDataPoint[], start: string, end: string) {
+    if (points.length < 2) return;
+    const [first, last] = [points[0], points[points.length - 1]];
+    const verb = { up: "rose", down: "fell", stable: "stayed roughly stable" }[direction(first.value, last.value)];
+    this.feature("trend", `${name} ${verb} from ${formatValue(first.value)} (${start}) to ${formatValue(last.value)} (${end})`);
+  }
+}
+
+function direction(from: number, to: number): "up" | "down" | "stable" {
+  const scale = Math.max(Math.abs(from), Math.abs(to));
+  if (scale === 0 || Math.abs(to - from) <= scale * STABLE_CHANGE) return "stable";
+  return to > from ? "up" : "down";
+}
+
+function addChart(builder: FactsBuilder, chart: Task1ChartData, prefix: string) {
+  const title = chart.title?.trim() || chart.type.replace(/_/g, " ").toLowerCase();
+  const label = (text: string) => `${prefix}${text}`;
+
+  switch (chart.type) {
+    case "BAR_CHART":
+    case "PIE_CHART": {
+      const section = builder.section(title, chart.yAxisLabel);
+      const points = (chart.data ?? [])
+        .filter((d) => d?.label && typeof d.value === "number" && Number.isFinite(d.value))
+        .map((d) => builder.point(section, label(d.label), d.value));
+      builder.extremes(points, chart.type === "PIE_CHART" ? "share" : "value");
+      break;
+    }
+    case "LINE_GRAPH": {
+      const section = builder.section(title, chart.yAxisLabel);
+      const series = (chart.series ?? []).filter((s) => s?.name && Array.isArray(s.data) && s.data.length > 0);
+      const all: ChartDataPoint[] = [];
+      for (const s of series) {
+        const data = s.data.filter((d) => typeof d.y === "number" && Number.isFinite(d.y));
+        const points = data.map((d) => builder.point(section, label(`${s.name}, ${d.x}`), d.y));
+        all.push(...points);
+        if (data.length > 0) builder.trend(label(s.name), points, String(data[0].x), String(data[data.length - 1].x));
+      }
+      builder.extremes(all, "value");
+      break;
+    }
+    case "TABLE": {
+      const section = builder.section(title, chart.yAxisLabel);
+      const headers = chart.headers ?? [];
+      const columns = new Map<number, ChartDataPoint[]>();
+      for (const row of chart.rows ?? []) {
+        const rowLabel = String(row[0]?.value ?? "").trim();
+        if (!rowLabel) continue;
+        row.slice(1).forEach((cell, i) => {
+          const value = parseCellNumber(cell?.value ?? "");
+          if (value === null) return;
+          const column = headers[i + 1] ?? `column ${i + 2}`;
+          const point = builder.point(section, label(`${rowLabel}, ${column}`), value);
+          columns.set(i, [...(columns.get(i) ?? []), point]);
+        });
+      }
+      for (const [i, points] of columns) builder.extremes(points, `for ${headers[i + 1] ?? `column ${i + 2}`}`);
+      break;
+    }
+    case "MIXED_CHARTS":
+      (chart.charts ?? []).forEach((sub) => addChart(builder, sub, `${sub.title?.trim() || sub.type.replace(/_/g, " ").toLowerCase()}: `));
+      break;
+  }
+}
+
+/**
+ * Data points and key features of a Task 1 chart, or null when the visual
+ * has no figures to check (process diagrams, maps, missing data).
+ */
+export function extractChartFacts(chartData: unknown): ChartFacts | null {
+  if (!chartData || typeof chartData !== "object" || typeof (chartData as Task1ChartData).type !== "string") return null;
+
+  const builder = new FactsBuilder();
+  addChart(builder, chartData as Task1ChartData, "");
+
+  const sections = builder.sections.filter((s) => s.points.length > 0);
+  if (sections.length === 0) return null;
+
+  // Trends first: they are what an overview is built from
+  const features = [
+    ...builder.features.filter((f) => f.kind === "trend"),
+    ...builder.features.filter((f) => f.kind !== "trend"),
+  ].slice(0, MAX_KEY_FEATURES);
+  return { sections, features };
+}
+
+// ============================================================================
+// PROMPT
+// ============================================================================
+
+export const CLAIM_KINDS = ["figure", "trend", "comparison"] as const;
+
+export type ClaimKind = typeof CLAIM_KINDS[number];
+
+const MAX_CLAIMS = 20;
+
+/**
+ * Prompt section with the chart data and the request for a `data_check`
+ * object. `location` names where the object goes in the response, e.g.
+ * "evaluation_report".
+ */
+export function buildDataCheckInstructions(facts: ChartFacts, location: string): string {
+  const sheet = facts.sections
+    .map((section) => [
+      `${section.title}${section.unit ? ` (${section.unit})` : ""}:`,
+      ...section.points.map((p) => `${p.id} ${p.label}: ${formatValue(p.value)}`),
+    ].join("\n"))
+    .join("\n\n");
+  const features = facts.features.map((f) => `${f.id} ${f.description}`).join("\n");
+
+  return `CHART DATA (the exact figures behind the visual):
+${sheet}
+
+KEY FEATURES a complete report should cover:
+${features}
+
+DATA CHECK:
+Also return a "data_check" object in ${location}. Do not judge accuracy yourself; every claim is verified against the chart data above.
+- "claims": each specific figure, trend or comparison the candidate states (at most ${MAX_CLAIMS}), as
+  {"quote": "the candidate's words, copied exactly", "kind": ${CLAIM_KINDS.map((k) => `"${k}"`).join(" | ")}, "points": ["p1"], ...}
+  - figure: "points" is the one data point described and "value" is the number the candidate gives, in the chart's units
+  - trend: "points" is [start, end] of the change described and "direction" is "up", "down" or "stable"
+  - comparison: "points" is [first, second] in the order compared and "relation" is "higher", "lower" or "similar" (first relative to second)
+- "covered_features": ids of the key features the candidate mentions, even inaccurately or grouped with others`;
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+export type ClaimVerdict = "accurate" | "misreported" | "unverifiable";
+
+export interface CheckedClaim {
+  quote: string;
+  kind: ClaimKind;
+  verdict: ClaimVerdict;
+  /** What the chart shows, for misreported claims */
+  actual?: string;
+}
+
+export interface Task1DataCheck {
+  claims: CheckedClaim[];
+  /** Key features the report leaves out */
+  missing_features: string[];
+  feature_count: number;
+  /** Task Achievement ceiling from the check, null when it sets none */
+  band_cap: number | null;
+  /** The examiner's Task Achievement band, when the cap lowered it */
+  original_band?: number;
+}
+
+function withinTolerance(claimed: number, actual: number): boolean {
+  return Math.abs(claimed - actual) <= Math.abs(actual) * VALUE_TOLERANCE;
+}
+
+function verifyClaim(entry: Record<string, unknown>, kind: ClaimKind, points: ChartDataPoint[]): Pick<CheckedClaim, "verdict" | "actual"> {
+  const [a, b] = points;
+  switch (kind) {
+    case "figure": {
+      const claimed = typeof entry.value === "number" ? entry.value : parseCellNumber(String(entry.value ?? ""));
+      if (!a || claimed === null) return { verdict: "unverifiable" };
+      return withinTolerance(claimed, a.value)
+        ? { verdict: "accurate" }
+        : { verdict: "misreported", actual: `${a.label} is ${formatValue(a.value)}` };
+    }
+    case "trend": {
+      const claimed = String(entry.direction ?? "").toLowerCase();
+      if (!a || !b || !["up", "down", "stable"].includes(claimed)) return { verdict: "unverifiable" };
+      const holds = claimed === "up" ? b.value > a.value : claimed === "down" ? b.value < a.value : withinTolerance(b.value, a.value);
+      return holds
+        ? { verdict: "accurate" }
+        : { verdict: "misreported", actual: `${formatValue(a.value)} (${a.label}) to ${formatValue(b.value)} (${b.label})` };
+    }
+    case "comparison": {
+      const claimed = String(entry.relation ?? "").toLowerCase();
+      if (!a || !b || !["higher", "lower", "similar"].includes(claimed)) return { verdict: "unverifiable" };
+      const holds = claimed === "higher" ? a.value > b.value : claimed === "lower" ? a.value < b.value : withinTolerance(a.value, b.value);
+      return holds
+        ? { verdict: "accurate" }
+        : { verdict: "misreported", actual: `${a.label} is ${formatValue(a.value)}, ${b.label} is ${formatValue(b.value)}` };
+    }
+  }
+}
+
+// Caps follow the Task 1 descriptors: band 7 has at most a slip, band 6
+// "some details may be inaccurate" and band 5 "details may be inaccurate"
+// throughout or "key features not adequately covered"
+const CAP_ONE_MISREPORT = 7;
+const CAP_SOME_MISREPORTED = 6;
+const CAP_MOSTLY_MISREPORTED = 5;
+const CAP_HALF_FEATURES_MISSING = 6;
+const CAP_NO_FEATURES = 5;
+
+/** Task Achievement ceiling from misreported claims and missed key features, or null */
+export function dataCheckBandCap(claims: CheckedClaim[], missingCount: number, featureCount: number): number | null {
+  const misreported = claims.filter((c) => c.verdict === "misreported").length;
+  const checked = misreported + claims.filter((c) => c.verdict === "accurate").length;
+
+  const caps: number[] = [];
+  if (misreported >= 2 && misreported * 2 >= checked) caps.push(CAP_MOSTLY_MISREPORTED);
+  else if (misreported >= 2) caps.push(CAP_SOME_MISREPORTED);
+  else if (misreported === 1) caps.push(CAP_ONE_MISREPORT);
+
+  if (featureCount > 0 && missingCount >= featureCount) caps.push(CAP_NO_FEATURES);
+  else if (featureCount > 0 && missingCount * 2 >= featureCount) caps.push(CAP_HALF_FEATURES_MISSING);
+
+  return caps.length > 0 ? Math.min(...caps) : null;
+}
+
+/**
+ * Verify the model's `data_check` against the chart. Claims whose quote is
+ * not in the essay or whose kind is unknown are dropped; claims pointing at
+ * unknown data points are kept as unverifiable.
+ */
+export function resolveDataCheck(facts: ChartFacts, raw: unknown, essay: string): Task1DataCheck {
+  const source = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const byId = new Map(facts.sections.flatMap((s) => s.points).map((p) => [p.id, p]));
+  const lowerEssay = essay.toLowerCase();
+
+  const claims: CheckedClaim[] = [];
+  for (const item of Array.isArray(source.claims) ? source.claims.slice(0, MAX_CLAIMS) : []) {
+    if (!item || typeof item !== "object") continue;
+    const entry = item as Record<string, unknown>;
+
+    const quote = typeof entry.quote === "string" ? entry.quote.trim() : "";
+    const kind = String(entry.kind ?? "").trim().toLowerCase() as ClaimKind;
+    if (!quote || !CLAIM_KINDS.includes(kind) || !lowerEssay.includes(quote.toLowerCase())) continue;
+    if (claims.some((c) => c.quote === quote && c.kind === kind)) continue;
+
+    const ids = Array.isArray(entry.points) ? entry.points : [];
+    const points = ids.map((id) => byId.get(String(id).trim()));
+    const verdict = points.every((p): p is ChartDataPoint => !!p)
+      ? verifyClaim(entry, kind, points)
+      : { verdict: "unverifiable" as const };
+    claims.push({ quote, kind, ...verdict });
+  }
+
+  const covered = new Set((Array.isArray(source.covered_features) ? source.covered_features : []).map((id) => String(id).trim()));
+  const missing = facts.features.filter((f) => !covered.has(f.id)).map((f) => f.description);
+
+  return {
+    claims,
+    missing_features: missing,
+    feature_count: facts.features.length,
+    band_cap: dataCheckBandCap(claims, missing.length, facts.features.length),
+  };
+}
+
+// ============================================================================
+// TASK ACHIEVEMENT
+// ============================================================================
+
+function describeCap(check: Task1DataCheck, cap: number): string {
+  const misreported = check.claims.filter((c) => c.verdict === "misreported").length;
+  const reasons = [
+    misreported > 0 ? `misstates ${misreported} ${misreported === 1 ? "detail" : "details"} from the chart` : "",
+    check.missing_features.length > 0
+      ? `leaves out ${check.missing_features.length} of ${check.feature_count} key features`
+      : "",
+  ].filter(Boolean);
+  return `Your report ${reasons.join(" and ")}, which limits Task Achievement to band ${cap}.`;
+}
+
+/**
+ * Store the check on a Task 1 report and hold Task Achievement to its cap,
+ * noting why in the criterion's weaknesses. Returns true when the band was
+ * lowered, so the caller can recompute the task band.
+ */
+export function applyDataCheck(report: Record<string, unknown>, check: Task1DataCheck): boolean {
+  const stored: Task1DataCheck = { ...check };
+  const criterion = report.task_achievement;
+  let lowered = false;
+
+  if (check.band_cap !== null && criterion && typeof criterion === "object") {
+    const target = criterion as Record<string, unknown>;
+    if (typeof target.band === "number" && target.band > check.band_cap) {
+      stored.original_band = target.band;
+      target.band = check.band_cap;
+      target.weaknesses = [...(Array.isArray(target.weaknesses) ? target.weaknesses : []), describeCap(check, check.band_cap)];
+      lowered = true;
+    }
+  }
+
+  report.data_check = stored;
+  return lowered;
+}
+
+/** Stored check from a report field, or null for reports without one */
+export function readDataCheck(value: unknown): Task1DataCheck | null {
+  if (!value || typeof value !== "object") return null;
+  const source = value as Record<string, unknown>;
+  if (!Array.isArray(source.claims) || !Array.isArray(source.missing_features)) return null;
+
+  return {
+    claims: source.claims.filter((c): c is CheckedClaim =>
+      !!c && typeof c === "object" && typeof c.quote === "string" && typeof c.verdict === "string"
+    ),
+    missing_features: source.missing_features.filter((f): f is string => typeof f === "string"),
+    feature_count: typeof source.feature_count === "number" ? source.feature_count : source.missing_features.length,
+    band_cap: typeof source.band_cap === "number" ? source.band_cap : null,
+    ...(typeof source.original_band === "number" ? { original_band: source.original_band } : {}),
+  };
+}
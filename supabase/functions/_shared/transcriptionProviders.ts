@@ -0,0 +1,280 @@
+/**
+ * Transcription Providers
+ *
+ * The transcription stage of the speaking job pipeline talks to any
+ * OpenAI-compatible `/audio/transcriptions` endpoint that returns Whisper's
+ * verbose_json. Two providers exist:
+ * - groq: Groq Whisper with keys checked out from the shared key pool
+ * - self_hosted: a Whisper-compatible server run by the school
+ *   (faster-whisper-server, whisper.cpp server, LocalAI, ...)
+ *
+ * `speaking_evaluation_settings.provider` picks the first provider; the
+ * others follow as fallbacks so a job survives Groq quota exhaustion or a
+ * self-hosted server going down. The self-hosted endpoint is configured by
+ * `self_hosted_stt_url` / `self_hosted_stt_model`; its optional bearer token
+ * lives in the SELF_HOSTED_STT_API_KEY secret, never in the table.
+ *
+ * Usage:
+ *   const settings = await loadTranscriptionSettings(supabase);
+ *   for (const id of transcriptionProviderOrder(job.provider, settings)) {
+ *     const provider = await checkoutTranscriptionProvider(supabase, id, settings, jobId);
+ *     // ... requestTranscription(provider, audioBlob, { prompt }) ...
+ *   }
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TranscriptionProviderId = "groq" | "self_hosted";
+
+export interface WhisperWord {
+  word: string;
+  start: number;
+  end: number;
+  probability?: number;
+}
+
+export interface WhisperSegment {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  avg_logprob: number;
+  compression_ratio: number;
+  no_speech_prob: number;
+  words?: WhisperWord[];
+}
+
+/** Whisper `verbose_json` response */
+export interface WhisperResponse {
+  text: string;
+  segments: WhisperSegment[];
+  language: string;
+  duration: number;
+  words?: WhisperWord[];
+}
+
+export interface TranscriptionSettings {
+  /** speaking_evaluation_settings.provider */
+  provider: string;
+  autoFallbackEnabled: boolean;
+  groqSttModel: string | null;
+  selfHostedUrl: string | null;
+  selfHostedModel: string | null;
+}
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  /** Full URL of the `/audio/transcriptions` endpoint */
+  url: string;
+  apiKey: string | null;
+  /** Tried in order until one answers */
+  models: string[];
+  /** Pool key used, if the provider has one (stored on the job for auditing) */
+  keyId: string | null;
+  /** Account for audio transcribed by this provider in the current job */
+  recordUsage(audioSeconds: number): Promise<void>;
+  /** The endpoint answered 429 on every model */
+  markRateLimited(): Promise<void>;
+}
+
+export class TranscriptionError extends Error {
+  constructor(message: string, public readonly rateLimited: boolean) {
+    super(message);
+    this.name = "TranscriptionError";
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const GROQ_TRANSCRIPTION_URL = "https://api.groq.com/openai/v1/audio/transcriptions";
+
+// Primary: whisper-large-v3-turbo - 400K ASH, 400 RPM, fastest
+// Fallback: whisper-large-v3 - 200K ASH, 300 RPM, more accurate
+const GROQ_STT_MODELS = ["whisper-large-v3-turbo", "whisper-large-v3"];
+
+// Model name most Whisper-compatible servers accept for their loaded model
+const DEFAULT_SELF_HOSTED_MODEL = "whisper-1";
+
+export async function loadTranscriptionSettings(supabaseService: SupabaseClient): Promise<TranscriptionSettings> {
+  const { data, error } = await supabaseService
+    .from("speaking_evaluation_settings")
+    .select("provider, auto_fallback_enabled, groq_stt_model, self_hosted_stt_url, self_hosted_stt_model")
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`[transcriptionProviders] Could not load settings, using defaults:`, error.message);
+  }
+
+  return {
+    provider: data?.provider || "gemini",
+    autoFallbackEnabled: data?.auto_fallback_enabled ?? true,
+    groqSttModel: data?.groq_stt_model || null,
+    selfHostedUrl: data?.self_hosted_stt_url?.trim() || null,
+    selfHostedModel: data?.self_hosted_stt_model?.trim() || null,
+  };
+}
+
+/**
+ * Whether jobs of this evaluation provider run the two-step pipeline
+ * (groq-speaking-transcribe, then groq-speaking-evaluate) rather than
+ * sending audio to Gemini.
+ */
+export function usesTranscriptionPipeline(provider: string | null | undefined): boolean {
+  return provider === "groq" || provider === "self_hosted";
+}
+
+/**
+ * Providers to try, in order. The job's provider goes first. Groq jobs fall
+ * back to the self-hosted server when one is configured; self-hosted jobs
+ * only fall back to Groq when auto-fallback is enabled, so a school can keep
+ * its audio on its own server.
+ */
+export function transcriptionProviderOrder(
+  jobProvider: string | null | undefined,
+  settings: TranscriptionSettings,
+): TranscriptionProviderId[] {
+  const preferred = jobProvider || settings.provider;
+
+  if (preferred === "self_hosted") {
+    if (!settings.selfHostedUrl) {
+      console.warn(`[transcriptionProviders] self_hosted selected but no self_hosted_stt_url is configured`);
+      return ["groq"];
+    }
+    return settings.autoFallbackEnabled ? ["self_hosted", "groq"] : ["self_hosted"];
+  }
+  return settings.selfHostedUrl ? ["groq", "self_hosted"] : ["groq"];
+}
+
+/** Normalise a server base URL to its transcription endpoint */
+export function selfHostedTranscriptionUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, "");
+  if (/\/audio\/transcriptions$/.test(trimmed)) return trimmed;
+  if (/\/v1$/.test(trimmed)) return `${trimmed}/audio/transcriptions`;
+  return `${trimmed}/v1/audio/transcriptions`;
+}
+
+/**
+ * Ready a provider for one job. Returns null when it cannot be used right
+ * now (no Groq key free, or no self-hosted URL).
+ */
+export async function checkoutTranscriptionProvider(
+  supabaseService: SupabaseClient,
+  id: TranscriptionProviderId,
+  settings: TranscriptionSettings,
+  jobId: string,
+  partNumber = 1,
+): Promise<TranscriptionProvider | null> {
+  if (id === "self_hosted") {
+    if (!settings.selfHostedUrl) return null;
+    return {
+      id,
+      url: selfHostedTranscriptionUrl(settings.selfHostedUrl),
+      apiKey: Deno.env.get("SELF_HOSTED_STT_API_KEY") || null,
+      models: [settings.selfHostedModel || DEFAULT_SELF_HOSTED_MODEL],
+      keyId: null,
+      recordUsage: async () => {},
+      markRateLimited: async () => {},
+    };
+  }
+
+  // Key checkout uses the TEXT-based function signature
+  const { data: keyData, error: keyError } = await supabaseService.rpc("checkout_groq_key_for_stt", {
+    p_job_id: String(jobId),
+    p_lock_duration_seconds: 300,
+    p_part_number: partNumber,
+  });
+  if (keyError || !keyData || keyData.length === 0) {
+    console.warn(`[transcriptionProviders] No Groq keys available for STT:`, keyError?.message);
+    return null;
+  }
+
+  const keyId: string = keyData[0].out_key_id;
+  return {
+    id,
+    url: GROQ_TRANSCRIPTION_URL,
+    apiKey: keyData[0].out_key_value,
+    models: [...new Set([settings.groqSttModel, ...GROQ_STT_MODELS].filter((m): m is string => !!m))],
+    keyId,
+    recordUsage: async (audioSeconds) => {
+      if (audioSeconds <= 0) return;
+      await supabaseService.rpc("record_groq_ash_usage", {
+        p_key_id: keyId,
+        p_audio_seconds: Math.ceil(audioSeconds),
+      });
+    },
+    markRateLimited: async () => {
+      await supabaseService.rpc("mark_groq_key_rpm_limited", {
+        p_key_id: keyId,
+        p_cooldown_seconds: 60,
+      });
+    },
+  };
+}
+
+// ============================================================================
+// REQUEST
+// ============================================================================
+
+/**
+ * Transcribe one recording, trying each of the provider's models. Throws a
+ * TranscriptionError (rateLimited when every model answered 429) if none
+ * succeeds.
+ */
+export async function requestTranscription(
+  provider: TranscriptionProvider,
+  audioBlob: Blob,
+  options: { prompt?: string } = {},
+): Promise<{ result: WhisperResponse; model: string }> {
+  // Use the proper file extension so the server picks the right decoder
+  const fileExtension = audioBlob.type.includes("mpeg") || audioBlob.type.includes("mp3") ? "mp3" : "webm";
+  let rateLimitedCount = 0;
+
+  for (const model of provider.models) {
+    console.log(`[transcriptionProviders] ${provider.id}: trying STT model ${model}`);
+
+    const formData = new FormData();
+    formData.append("file", audioBlob, `audio.${fileExtension}`);
+    formData.append("model", model);
+    formData.append("response_format", "verbose_json");
+    formData.append("timestamp_granularities[]", "word");
+    formData.append("timestamp_granularities[]", "segment");
+    formData.append("language", "en");
+    formData.append("temperature", "0"); // Reduce randomness to minimize hallucinations
+    if (options.prompt) formData.append("prompt", options.prompt);
+
+    try {
+      const response = await fetch(provider.url, {
+        method: "POST",
+        headers: provider.apiKey ? { "Authorization": `Bearer ${provider.apiKey}` } : {},
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.warn(`[transcriptionProviders] ${provider.id} model ${model} failed: ${response.status} - ${errorText.slice(0, 300)}`);
+        if (response.status === 429) rateLimitedCount++;
+        continue;
+      }
+
+      const result = await response.json() as WhisperResponse;
+      // Some servers leave out segments they did not split
+      if (!Array.isArray(result.segments)) result.segments = [];
+      return { result, model };
+    } catch (err) {
+      console.warn(`[transcriptionProviders] ${provider.id} model ${model} error:`, err);
+    }
+  }
+
+  throw new TranscriptionError(
+    `${provider.id} transcription failed on all models`,
+    rateLimitedCount === provider.models.length,
+  );
+}
@@ -0,0 +1,195 @@
+/**
+ * Writing Annotations
+ *
+ * Span-level error annotations for writing evaluations. The examiner model
+ * quotes each error exactly as written and gives its category, a correction
+ * and the criterion it affects. Models are unreliable at counting
+ * characters, so the edge function resolves each quote to character offsets
+ * into the essay itself (resolveWritingAnnotations) before the report is
+ * stored. Quotes that cannot be found are dropped rather than guessed.
+ *
+ * Used by evaluate-writing-submission and evaluate-ai-practice-writing; the
+ * web app renders the marked-up essay (src/lib/writingAnnotations.ts
+ * re-exports it).
+ */
+
+import { WRITING_CRITERIA, type WritingCriterion } from "./ieltsScoring.ts";
+
+export const ANNOTATION_CATEGORIES = ["grammar", "collocation", "spelling", "cohesion", "register"] as const;
+
+export type AnnotationCategory = typeof ANNOTATION_CATEGORIES[number];
+
+export const ANNOTATION_CATEGORY_LABELS: Record<AnnotationCategory, string> = {
+  grammar: "Grammar",
+  collocation: "Collocation",
+  spelling: "Spelling",
+  cohesion: "Cohesion",
+  register: "Register",
+};
+
+const CRITERION_LABELS: Record<WritingCriterion, string> = {
+  task_achievement: "Task Achievement",
+  coherence_cohesion: "Coherence & Cohesion",
+  lexical_resource: "Lexical Resource",
+  grammatical_range: "Grammatical Range & Accuracy",
+};
+
+/** Task 2 reports the first criterion as Task Response */
+export function annotationCriterionLabel(criterion: WritingCriterion, taskNumber: 1 | 2 = 1): string {
+  return criterion === "task_achievement" && taskNumber === 2 ? "Task Response" : CRITERION_LABELS[criterion];
+}
+
+export interface WritingAnnotation {
+  /** Character offsets into the essay, end exclusive */
+  start: number;
+  end: number;
+  /** essay.slice(start, end) */
+  text: string;
+  category: AnnotationCategory;
+  correction: string;
+  explanation: string;
+  criterion: WritingCriterion;
+}
+
+// Criterion a category affects when the model leaves it out
+const CATEGORY_CRITERION: Record<AnnotationCategory, WritingCriterion> = {
+  grammar: "grammatical_range",
+  collocation: "lexical_resource",
+  spelling: "lexical_resource",
+  cohesion: "coherence_cohesion",
+  register: "lexical_resource",
+};
+
+// Report keys used by the two writing evaluators
+const CRITERION_ALIASES: Record<string, WritingCriterion> = {
+  task_response: "task_achievement",
+  task_achievement_response: "task_achievement",
+  coherence_and_cohesion: "coherence_cohesion",
+  grammatical_accuracy: "grammatical_range",
+  grammatical_range_and_accuracy: "grammatical_range",
+};
+
+const MAX_ANNOTATIONS = 40;
+
+/** Prompt section asking for the `annotations` array */
+export function buildAnnotationInstructions(): string {
+  return `ERROR ANNOTATIONS:
+Also return an "annotations" array marking individual errors in the candidate's text (at most ${MAX_ANNOTATIONS}, most important first):
+- "quote": the erroneous words copied EXACTLY from the text (same spelling, casing and punctuation), as short as possible but enough to locate it
+- "occurrence": 1 unless the same quote appears earlier in the text (2 for the second occurrence, ...)
+- "category": one of ${ANNOTATION_CATEGORIES.map((c) => `"${c}"`).join(", ")}
+- "correction": the corrected wording that would replace the quote
+- "explanation": one short sentence addressed to the candidate
+- "criterion": the criterion it affects: ${WRITING_CRITERIA.map((c) => `"${c}"`).join(", ")}
+Only mark real errors; do not annotate correct but plain wording.`;
+}
+
+function normalizeCategory(value: unknown): AnnotationCategory | null {
+  const key = String(value ?? "").trim().toLowerCase();
+  return (ANNOTATION_CATEGORIES as readonly string[]).includes(key) ? key as AnnotationCategory : null;
+}
+
+function normalizeAnnotationCriterion(value: unknown, category: AnnotationCategory): WritingCriterion {
+  const key = String(value ?? "").trim().toLowerCase();
+  if ((WRITING_CRITERIA as readonly string[]).includes(key)) return key as WritingCriterion;
+  return CRITERION_ALIASES[key] ?? CATEGORY_CRITERION[category];
+}
+
+/** Offset of the nth (1-based) occurrence of `needle`, or -1 */
+function nthIndexOf(haystack: string, needle: string, occurrence: number): number {
+  let index = -1;
+  for (let i = 0; i < occurrence; i++) {
+    index = haystack.indexOf(needle, index + 1);
+    if (index === -1) return -1;
+  }
+  return index;
+}
+
+function locate(essay: string, quote: string, occurrence: number, hintStart: unknown): number {
+  // Model-supplied offsets are used only when they point at the quote
+  if (typeof hintStart === "number" && essay.slice(hintStart, hintStart + quote.length) === quote) {
+    return hintStart;
+  }
+  const exact = nthIndexOf(essay, quote, occurrence);
+  if (exact !== -1) return exact;
+  // Miscounted occurrence, then casing differences
+  const first = essay.indexOf(quote);
+  return first !== -1 ? first : essay.toLowerCase().indexOf(quote.toLowerCase());
+}
+
+/**
+ * Turn the model's `annotations` into offsets into `essay`. Unknown
+ * categories, quotes not found in the essay and spans overlapping an earlier
+ * annotation are dropped. The result is sorted by position.
+ */
+export function resolveWritingAnnotations(essay: string, raw: unknown): WritingAnnotation[] {
+  if (!essay || !Array.isArray(raw)) return [];
+
+  const resolved: WritingAnnotation[] = [];
+  for (const item of raw.slice(0, MAX_ANNOTATIONS)) {
+    if (!item || typeof item !== "object") continue;
+    const entry = item as Record<string, unknown>;
+
+    const quote = typeof entry.quote === "string" ? entry.quote.trim() : typeof entry.text === "string" ? entry.text.trim() : "";
+    const category = normalizeCategory(entry.category);
+    const correction = typeof entry.correction === "string" ? entry.correction.trim() : "";
+    if (!quote || !category || !correction || correction === quote) continue;
+
+    const occurrence = typeof entry.occurrence === "number" && entry.occurrence >= 1 ? Math.floor(entry.occurrence) : 1;
+    const start = locate(essay, quote, occurrence, entry.start);
+    if (start === -1) continue;
+
+    const end = start + quote.length;
+    if (resolved.some((a) => start < a.end && end > a.start)) continue;
+
+    resolved.push({
+      start,
+      end,
+      text: essay.slice(start, end),
+      category,
+      correction,
+      explanation: typeof entry.explanation === "string" ? entry.explanation.trim() : "",
+      criterion: normalizeAnnotationCriterion(entry.criterion, category),
+    });
+  }
+
+  return resolved.sort((a, b) => a.start - b.start);
+}
+
+export interface AnnotatedSegment {
+  text: string;
+  annotation?: WritingAnnotation;
+}
+
+/**
+ * Split the essay into plain and annotated runs for rendering. Annotations
+ * must be sorted and non-overlapping (as resolveWritingAnnotations returns
+ * them); stored spans that no longer match the essay are skipped.
+ */
+export function segmentAnnotatedText(essay: string, annotations: WritingAnnotation[]): AnnotatedSegment[] {
+  const segments: AnnotatedSegment[] = [];
+  let cursor = 0;
+
+  for (const annotation of annotations) {
+    if (annotation.start < cursor || essay.slice(annotation.start, annotation.end) !== annotation.text) continue;
+    if (annotation.start > cursor) segments.push({ text: essay.slice(cursor, annotation.start) });
+    segments.push({ text: annotation.text, annotation });
+    cursor = annotation.end;
+  }
+  if (cursor < essay.length) segments.push({ text: essay.slice(cursor) });
+
+  return segments;
+}
+
+/** Stored annotations from a report field, tolerating rows written before annotations existed */
+export function readWritingAnnotations(value: unknown): WritingAnnotation[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((a): a is WritingAnnotation =>
+    !!a &&
+    typeof a === "object" &&
+    typeof a.start === "number" &&
+    typeof a.end === "number" &&
+    typeof a.text === "string" &&
+    normalizeCategory(a.category) !== null
+  ).sort((a, b) => a.start - b.start);
+}
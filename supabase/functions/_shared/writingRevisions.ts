@@ -0,0 +1,254 @@
+/**
+ * Writing Revisions
+ *
+ * A writing submission can be a revision of an earlier one
+ * (`writing_submissions.revision_of`). When a revision is evaluated,
+ * evaluate-writing-submission shows the examiner the previous version and
+ * the feedback it received and asks whether each point was addressed; the
+ * answer is stored as `evaluation_report.revision_review`. The report page
+ * walks the chain to show a word-level diff between versions and the band
+ * trend per criterion.
+ *
+ * Dependency-free apart from the scoring helpers (src/lib/writingRevisions.ts
+ * re-exports it).
+ */
+
+import { getCriterionBand, isValidBand, type WritingCriterion } from "./ieltsScoring.ts";
+
+// ============================================================================
+// CHAIN
+// ============================================================================
+
+export interface RevisionNode {
+  id: string;
+  revision_of: string | null;
+  revision_number: number;
+  submitted_at: string | null;
+}
+
+/**
+ * The revision chain `currentId` belongs to, oldest first: its ancestors,
+ * itself, then the latest revision of each later version.
+ */
+export function revisionChain<T extends RevisionNode>(submissions: T[], currentId: string): T[] {
+  const byId = new Map(submissions.map((s) => [s.id, s]));
+  const current = byId.get(currentId);
+  if (!current) return [];
+
+  const chain: T[] = [current];
+  const seen = new Set([current.id]);
+
+  for (let node = current; node.revision_of && byId.has(node.revision_of) && !seen.has(node.revision_of);) {
+    node = byId.get(node.revision_of)!;
+    chain.unshift(node);
+    seen.add(node.id);
+  }
+
+  for (let node: T | undefined = current; node;) {
+    const parentId: string = node.id;
+    node = submissions
+      .filter((s) => s.revision_of === parentId && !seen.has(s.id))
+      .sort((a, b) => (b.submitted_at ?? "").localeCompare(a.submitted_at ?? ""))[0];
+    if (node) {
+      chain.push(node);
+      seen.add(node.id);
+    }
+  }
+
+  return chain;
+}
+
+// ============================================================================
+// BAND TREND
+// ============================================================================
+
+/** Criterion keys of the evaluate-writing-submission report */
+export const SUBMISSION_REPORT_CRITERIA: ReadonlyArray<{ key: string; criterion: WritingCriterion }> = [
+  { key: "task_achievement_response", criterion: "task_achievement" },
+  { key: "coherence_and_cohesion", criterion: "coherence_cohesion" },
+  { key: "lexical_resource", criterion: "lexical_resource" },
+  { key: "grammatical_range_and_accuracy", criterion: "grammatical_range" },
+];
+
+export interface RevisionBands {
+  overall: number | null;
+  criteria: Partial<Record<WritingCriterion, number>>;
+}
+
+export function revisionBands(overallBand: unknown, report: unknown): RevisionBands {
+  const source = (report && typeof report === "object" ? report : {}) as Record<string, unknown>;
+  const criteria: Partial<Record<WritingCriterion, number>> = {};
+  for (const { key, criterion } of SUBMISSION_REPORT_CRITERIA) {
+    const band = getCriterionBand(source[key]);
+    if (band !== null) criteria[criterion] = band;
+  }
+  return { overall: isValidBand(overallBand) ? overallBand : null, criteria };
+}
+
+// ============================================================================
+// WORD DIFF
+// ============================================================================
+
+export interface DiffPart {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+// Above this many token pairs the LCS table gets too big; show a full replace
+const MAX_DIFF_CELLS = 4_000_000;
+
+function pushPart(parts: DiffPart[], type: DiffPart["type"], text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) last.text += text;
+  else parts.push({ type, text });
+}
+
+/**
+ * Word-level diff of two versions. Words and the whitespace between them are
+ * separate tokens, so joining the `same` and `removed` parts gives `before`
+ * and joining `same` and `added` gives `after`.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.match(/\s+|[^\s]+/g) ?? [];
+  const b = after.match(/\s+|[^\s]+/g) ?? [];
+  const parts: DiffPart[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (before) parts.push({ type: "removed", text: before });
+    if (after) parts.push({ type: "added", text: after });
+    return parts;
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, "same", a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      pushPart(parts, "removed", a[i++]);
+    } else {
+      pushPart(parts, "added", b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, "removed", a[i++]);
+  while (j < b.length) pushPart(parts, "added", b[j++]);
+
+  return parts;
+}
+
+export function diffStats(parts: DiffPart[]): { added: number; removed: number } {
+  const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+  return parts.reduce(
+    (acc, part) => {
+      if (part.type === "added") acc.added += words(part.text);
+      if (part.type === "removed") acc.removed += words(part.text);
+      return acc;
+    },
+    { added: 0, removed: 0 },
+  );
+}
+
+// ============================================================================
+// REVISION REVIEW
+// ============================================================================
+
+export const REVISION_STATUSES = ["addressed", "partially_addressed", "not_addressed"] as const;
+
+export type RevisionStatus = typeof REVISION_STATUSES[number];
+
+export interface RevisionReviewItem {
+  feedback: string;
+  status: RevisionStatus;
+  comment: string;
+}
+
+export interface RevisionReview {
+  summary: string;
+  items: RevisionReviewItem[];
+}
+
+const MAX_FEEDBACK_POINTS = 12;
+
+const stripMarkdown = (text: string) => text.replace(/\*\*|==/g, "").trim();
+
+/** The points of a previous report a revision is expected to act on */
+export function previousFeedbackPoints(report: unknown): string[] {
+  const source = (report && typeof report === "object" ? report : {}) as Record<string, unknown>;
+  const points: string[] = [];
+
+  for (const { key } of SUBMISSION_REPORT_CRITERIA) {
+    const criterion = source[key] as Record<string, unknown> | undefined;
+    for (const field of ["weaknesses", "suggestions_for_improvement"]) {
+      const value = criterion?.[field];
+      if (typeof value === "string" && value.trim()) points.push(stripMarkdown(value));
+    }
+  }
+  if (Array.isArray(source.annotations)) {
+    for (const a of source.annotations as Array<Record<string, unknown>>) {
+      if (typeof a?.text === "string" && typeof a?.correction === "string") {
+        points.push(`"${a.text}" should be "${a.correction}"`);
+      }
+    }
+  }
+
+  return points.slice(0, MAX_FEEDBACK_POINTS);
+}
+
+/** Prompt section for evaluating a revision against the previous version */
+export function buildRevisionReviewSection(previous: { text: string; report: unknown; revisionNumber: number }): string {
+  const points = previousFeedbackPoints(previous.report);
+  if (points.length === 0) return "";
+
+  return `THIS IS A REVISION (version ${previous.revisionNumber + 1}). The student rewrote version ${previous.revisionNumber} after receiving feedback.
+
+PREVIOUS VERSION:
+"""
+${previous.text}
+"""
+
+FEEDBACK THE PREVIOUS VERSION RECEIVED:
+${points.map((p, i) => `${i + 1}. ${p}`).join("\n")}
+
+Score the new version on its own merits. Then judge, for each feedback point above, whether the new version acted on it: "addressed", "partially_addressed" or "not_addressed". Add a "revision_review" field to "evaluation_report":
+"revision_review": {
+  "summary": "two or three sentences to the student on how well the revision used the feedback",
+  "items": [{ "feedback": "the feedback point, shortened", "status": "addressed", "comment": "what changed, quoting the new version" }]
+}`;
+}
+
+export function parseRevisionReview(raw: unknown): RevisionReview | null {
+  if (!raw || typeof raw !== "object") return null;
+  const source = raw as Record<string, unknown>;
+
+  const items = (Array.isArray(source.items) ? source.items : [])
+    .map((item): RevisionReviewItem | null => {
+      if (!item || typeof item !== "object") return null;
+      const entry = item as Record<string, unknown>;
+      const status = String(entry.status ?? "").trim().toLowerCase().replace(/\s+/g, "_");
+      if (typeof entry.feedback !== "string" || !entry.feedback.trim()) return null;
+      if (!(REVISION_STATUSES as readonly string[]).includes(status)) return null;
+      return {
+        feedback: entry.feedback.trim(),
+        status: status as RevisionStatus,
+        comment: typeof entry.comment === "string" ? entry.comment.trim() : "",
+      };
+    })
+    .filter((item): item is RevisionReviewItem => item !== null);
+
+  const summary = typeof source.summary === "string" ? source.summary.trim() : "";
+  if (!summary && items.length === 0) return null;
+  return { summary, items };
+}
@@ -1,6 +1,21 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import {
+  buildFollowUpPrompt,
+  chooseNextMove,
+  isPart3QuestionTree,
+  parseFollowUp,
+  type Part3FollowUp,
+  type Part3QuestionTree,
+} from "../_shared/part3FollowUp.ts";
+import {
+  callLLM,
+  geminiTarget,
+  LLMGatewayError,
+  loadConfiguredTargets,
+  type LLMTarget,
+} from "../_shared/llmGateway.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -34,6 +49,40 @@ async function decryptApiKey(encryptedValue: string, encryptionKey: string): Pro
   return decoder.decode(decryptedData);
 }
 
+const FOLLOW_UP_MODELS = ['gemini-2.5-flash', 'gemini-2.0-flash'];
+
+// Write the next adaptive Part 3 question from the candidate's last answer
+async function generatePart3FollowUp(
+  targets: LLMTarget[],
+  difficulty: string,
+  tree: Part3QuestionTree,
+  serviceClient: SupabaseClient,
+): Promise<Part3FollowUp | null> {
+  const move = chooseNextMove(tree.turns);
+
+  try {
+    const reply = await callLLM(
+      {
+        taskType: 'generate',
+        system: buildExaminerInstruction('PART_3', difficulty, tree.topic),
+        prompt: buildFollowUpPrompt(tree, move),
+        json: true,
+        temperature: 0.8,
+        maxTokens: 256,
+      },
+      targets,
+      { serviceClient, logPrefix: 'ai-speaking-session' },
+    );
+    const followUp = parseFollowUp(reply.text, move);
+    if (!followUp) console.warn(`Part 3 follow-up from ${reply.provider}/${reply.model} was not a usable question:`, reply.text);
+    return followUp;
+  } catch (err) {
+    if (!(err instanceof LLMGatewayError)) throw err;
+    console.error('Part 3 follow-up failed:', err.message);
+    return null;
+  }
+}
+
 // Generate session config for Gemini Speaking API
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -91,7 +140,39 @@ serve(async (req) => {
 
     const geminiApiKey = await decryptApiKey(userSecret.encrypted_value, appEncryptionKey);
 
-    const { partType, difficulty, topic } = await req.json();
+    const { partType, difficulty, topic, mode, part3Tree } = await req.json();
+
+    // Adaptive Part 3: return the next question only, never the key
+    if (mode === 'part3_followup') {
+      if (!isPart3QuestionTree(part3Tree) || part3Tree.turns.length === 0) {
+        return new Response(JSON.stringify({ error: 'part3Tree with at least one answered question is required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const serviceClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      );
+      const targets = [
+        geminiTarget(geminiApiKey, FOLLOW_UP_MODELS),
+        ...(await loadConfiguredTargets(serviceClient, 'generate', { excludeProviders: ['gemini'] })),
+      ];
+
+      const followUp = await generatePart3FollowUp(targets, difficulty, part3Tree, serviceClient);
+      if (!followUp) {
+        return new Response(JSON.stringify({ error: 'Could not generate a follow-up question' }), {
+          status: 502,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      console.log(`Part 3 follow-up (${followUp.move}) for user:`, user.id);
+      return new Response(JSON.stringify({ success: true, followUp }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
     // Build system instruction for IELTS examiner with British accent personality
     const systemInstruction = buildExaminerInstruction(partType, difficulty, topic);
@@ -166,6 +247,7 @@ PART 3 STRUCTURE (4-5 minutes):
 - Transition: "We've been talking about the Part 2 topic, and I'd like to discuss some related questions."
 - Ask 4-6 abstract, discussion-type questions related to the Part 2 topic
 - Use follow-up prompts: "Why do you think that is?" "Can you give an example?"
+- Build each question on the candidate's previous answer: press for justification, ask them to compare, and invite speculation about the future
 
 EVALUATION CRITERIA (Apply strictly):
 - Fluency and Coherence: Natural flow, logical organization, appropriate connectors
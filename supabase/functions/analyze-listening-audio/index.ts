@@ -1,5 +1,11 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import {
+  callLLM,
+  geminiTarget,
+  loadConfiguredTargets,
+  type LLMTarget,
+} from "../_shared/llmGateway.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -188,80 +194,26 @@ async function fetchAudioAsBase64(audioUrl: string): Promise<{ base64: string; m
   return { base64, mimeType, bytes: uint8Array.byteLength };
 }
 
-async function transcribeWithGemini(opts: {
-  geminiApiKey: string;
+async function transcribeAudio(opts: {
+  targets: LLMTarget[];
   mimeType: string;
   audioBase64: string;
   prompt: string;
+  serviceClient: SupabaseClient;
 }): Promise<{ result: GeminiTranscriptionResult; usedModel: string }> {
-  let lastError: string | null = null;
-
-  for (const modelName of GEMINI_MODELS_FALLBACK_ORDER) {
-    console.log(`Gemini transcribe attempt: ${modelName}`);
-
-    try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${encodeURIComponent(opts.geminiApiKey)}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: [
-              {
-                role: "user",
-                parts: [
-                  { text: opts.prompt },
-                  {
-                    inlineData: {
-                      mimeType: opts.mimeType,
-                      data: opts.audioBase64,
-                    },
-                  },
-                ],
-              },
-            ],
-            generationConfig: {
-              temperature: 0.2,
-              responseMimeType: "application/json",
-            },
-          }),
-        },
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`Gemini ${modelName} failed:`, response.status, errorText);
-        if (response.status === 429) {
-          lastError = `Rate limited on ${modelName}`;
-          continue;
-        }
-        lastError = `${modelName}: ${response.status}`;
-        continue;
-      }
-
-      const data = await response.json();
-      const content = data?.candidates?.[0]?.content?.parts
-        ?.map((p: any) => p?.text)
-        .filter(Boolean)
-        .join("\n");
-
-      if (!content) {
-        lastError = `${modelName}: Empty response`;
-        continue;
-      }
-
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      const parsed: GeminiTranscriptionResult = JSON.parse(jsonMatch ? jsonMatch[0] : content);
-
-      return { result: parsed, usedModel: modelName };
-    } catch (e: any) {
-      console.error(`Gemini ${modelName} exception:`, e?.message || e);
-      lastError = e?.message || "Unknown error";
-      continue;
-    }
-  }
+  const reply = await callLLM(
+    {
+      taskType: "transcribe",
+      prompt: opts.prompt,
+      images: [{ mimeType: opts.mimeType, data: opts.audioBase64 }],
+      json: true,
+      temperature: 0.2,
+    },
+    opts.targets,
+    { serviceClient: opts.serviceClient, logPrefix: "analyze-listening-audio" },
+  );
 
-  throw new Error(`All Gemini models failed. Last error: ${lastError}`);
+  return { result: reply.json as GeminiTranscriptionResult, usedModel: `${reply.provider}/${reply.model}` };
 }
 
 Deno.serve(async (req) => {
@@ -332,6 +284,16 @@ Deno.serve(async (req) => {
     // 2) Service-role client for DB updates
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
 
+    // Gemini reads the audio as inline media; OpenAI-style providers cannot take it
+    const configuredTargets = await loadConfiguredTargets(supabaseAdmin, "transcribe", {
+      excludeProviders: ["gemini"],
+      requireImages: true,
+    });
+    const targets = [
+      geminiTarget(geminiApiKey, [...GEMINI_MODELS_FALLBACK_ORDER]),
+      ...configuredTargets.filter((target) => target.provider.apiStyle === "gemini"),
+    ];
+
     console.log("Starting timestamp analysis for test:", testId);
 
     const { data: test, error: testError } = await supabaseAdmin
@@ -387,14 +349,15 @@ Deno.serve(async (req) => {
 
       const prompt = buildGeminiPrompt(part.replace("part", "Part "), partGroups);
 
-      const { result, usedModel } = await transcribeWithGemini({
-        geminiApiKey,
+      const { result, usedModel } = await transcribeAudio({
+        targets,
         mimeType,
         audioBase64,
         prompt,
+        serviceClient: supabaseAdmin,
       });
 
-      console.log(`Gemini used model: ${usedModel}`);
+      console.log(`Transcribed with: ${usedModel}`);
 
       const segments = Array.isArray(result.segments) ? result.segments : [];
       const cues: { start: number; end: number; seconds: number; text: string }[] = [];
@@ -1,35 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import { BAND_CONVERSION_VERSION, convertRawScore, ScoredSkill, toTestModule } from "../_shared/bandConversion.ts";
+import { averageBands } from "../_shared/ieltsScoring.ts";
+import { callLLM, geminiTarget, LLMGatewayError, loadConfiguredTargets } from "../_shared/llmGateway.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Performance logging
-async function logModelPerformance(
-  serviceClient: any,
-  modelName: string,
-  status: 'success' | 'error' | 'quota_exceeded',
-  responseTimeMs?: number,
-  errorMessage?: string
-): Promise<void> {
-  try {
-    await serviceClient.rpc('log_model_performance', {
-      p_api_key_id: null,
-      p_model_name: modelName,
-      p_task_type: 'analyze',
-      p_status: status,
-      p_response_time_ms: responseTimeMs || null,
-      p_error_message: errorMessage?.slice(0, 500) || null,
-    });
-    console.log(`[PerformanceLog] ${status} for ${modelName} (analyze)`);
-  } catch (err) {
-    console.warn('[PerformanceLog] Failed to log:', err);
-  }
-}
-
 // Decrypt user's Gemini API key
 async function decryptApiKey(encryptedValue: string, encryptionKey: string): Promise<string> {
   const encoder = new TextEncoder();
@@ -59,58 +39,29 @@ async function decryptApiKey(encryptedValue: string, encryptionKey: string): Pro
 
 const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.0-flash'];
 
-async function callGemini(apiKey: string, systemPrompt: string, userPrompt: string, serviceClient?: any): Promise<string | null> {
-  for (const model of GEMINI_MODELS) {
-    const startTime = Date.now();
-    try {
-      console.log(`Trying Gemini model: ${model}`);
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [
-              { role: 'user', parts: [{ text: `${systemPrompt}\n\n${userPrompt}` }] }
-            ],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 8192,
-            },
-          }),
-        }
-      );
-
-      const responseTimeMs = Date.now() - startTime;
+interface ScoredSubmission {
+  score: number | null;
+  total_questions: number | null;
+  reading_tests?: { test_type?: string | null } | null;
+  [key: string]: unknown;
+}
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`Gemini ${model} failed with status ${response.status}`);
-        const isQuota = response.status === 429 || errorText.toLowerCase().includes('quota');
-        if (serviceClient) {
-          await logModelPerformance(serviceClient, model, isQuota ? 'quota_exceeded' : 'error', responseTimeMs, errorText.slice(0, 200));
-        }
-        continue;
-      }
+// Re-derive band scores from the official conversion tables so the analysis
+// never relies on stored or model-estimated bands
+function withConvertedBands(submissions: ScoredSubmission[], skill: ScoredSkill) {
+  return submissions.map((submission) => {
+    const conversion = convertRawScore({
+      skill,
+      correct: submission.score ?? 0,
+      total: submission.total_questions ?? undefined,
+      module: toTestModule(submission.reading_tests?.test_type),
+    });
+    return { ...submission, band_score: conversion.band, band_scaled_raw: conversion.scaledRaw };
+  });
+}
 
-      const data = await response.json();
-      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (text) {
-        if (serviceClient) {
-          await logModelPerformance(serviceClient, model, 'success', responseTimeMs);
-        }
-        return text;
-      }
-    } catch (err) {
-      const responseTimeMs = Date.now() - startTime;
-      console.error(`Error with ${model}:`, err);
-      if (serviceClient) {
-        await logModelPerformance(serviceClient, model, 'error', responseTimeMs, err instanceof Error ? err.message : String(err));
-      }
-      continue;
-    }
-  }
-  return null;
+function averageBand(submissions: Array<{ band_score: number }>): number | null {
+  return averageBands(submissions.map((s) => s.band_score));
 }
 
 serve(async (req) => {
@@ -173,6 +124,7 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
     
     let detailedTestData = testData;
+    const convertedBands: Partial<Record<ScoredSkill, number | null>> = {};
     
     if (supabaseUrl && supabaseServiceKey) {
       const supabase = createClient(supabaseUrl, supabaseServiceKey);
@@ -181,7 +133,7 @@ serve(async (req) => {
       const [readingSubmissions, listeningSubmissions] = await Promise.all([
         supabase
           .from('reading_test_submissions')
-          .select('*, reading_tests(title, book_name)')
+          .select('*, reading_tests(title, book_name, test_type)')
           .eq('user_id', user.id)
           .order('completed_at', { ascending: false })
           .limit(5),
@@ -193,9 +145,14 @@ serve(async (req) => {
           .limit(5)
       ]);
       
+      const reading = withConvertedBands(readingSubmissions.data || [], 'reading');
+      const listening = withConvertedBands(listeningSubmissions.data || [], 'listening');
+      convertedBands.reading = averageBand(reading);
+      convertedBands.listening = averageBand(listening);
+
       detailedTestData = {
-        reading: readingSubmissions.data || [],
-        listening: listeningSubmissions.data || [],
+        reading,
+        listening,
         ...testData
       };
     }
@@ -254,31 +211,35 @@ Provide:
 4. Recommend specific resources for improvement
 5. Be encouraging but honest about areas needing work`;
 
-    const content = await callGemini(geminiApiKey, systemPrompt, userPrompt, serviceClient);
-    
-    if (!content) {
+    // The user's Gemini key first, then any configured fallback provider
+    const targets = [
+      geminiTarget(geminiApiKey, GEMINI_MODELS),
+      ...await loadConfiguredTargets(serviceClient, 'analyze', { excludeProviders: ['gemini'] }),
+    ];
+
+    let analytics: { modules?: Array<{ module: string; bandScore?: number }>; bandConversionVersion?: string };
+    try {
+      const reply = await callLLM(
+        { taskType: 'analyze', system: systemPrompt, prompt: userPrompt, json: true, temperature: 0.7, maxTokens: 8192 },
+        targets,
+        { serviceClient, logPrefix: 'analyze-performance' },
+      );
+      analytics = reply.json as typeof analytics;
+    } catch (error) {
+      if (!(error instanceof LLMGatewayError)) throw error;
+      console.error("Failed to generate analysis:", error.message);
       return new Response(
         JSON.stringify({ analytics: null, error: 'Failed to generate analysis' }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
-    
-    // Parse JSON from response
-    let analytics;
-    try {
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        analytics = JSON.parse(jsonMatch[0]);
-      } else {
-        throw new Error("No JSON found in response");
-      }
-    } catch (parseError) {
-      console.error("Failed to parse AI response:", parseError);
-      return new Response(
-        JSON.stringify({ analytics: null }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+
+    // Reading/listening bands come from the conversion tables, not the model
+    for (const moduleAnalysis of analytics.modules ?? []) {
+      const band = convertedBands[moduleAnalysis.module as ScoredSkill];
+      if (band != null) moduleAnalysis.bandScore = band;
     }
+    analytics.bandConversionVersion = BAND_CONVERSION_VERSION;
 
     return new Response(
       JSON.stringify({ analytics }),
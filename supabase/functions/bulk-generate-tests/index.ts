@@ -1,5 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { 
   getActiveGeminiKeysForModels,
   markModelQuotaExhausted,
@@ -8,9 +8,15 @@ import {
   ALL_MODEL_QUOTA_COLUMNS
 } from "../_shared/apiKeyQuotaUtils.ts";
 import { 
-  createPerformanceLogger,
   classifyGeminiErrorStatus
 } from "../_shared/performanceLogger.ts";
+import {
+  callLLM,
+  geminiTarget,
+  loadConfiguredTargets,
+  type LLMCallOptions,
+  type LLMTarget,
+} from "../_shared/llmGateway.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -690,7 +696,7 @@ async function processGenerationJob(
       // Generate content using the same prompts as generate-ai-practice
       // Pass voiceName for gender synchronization (listening/speaking modules)
       let content = await withRetry(
-        () => generateContent(module, topic, difficulty, currentQuestionType, monologue, voiceName, writingConfig),
+        () => generateContent(supabase, module, topic, difficulty, currentQuestionType, monologue, voiceName, writingConfig),
         3,
         2000
       );
@@ -761,9 +767,7 @@ async function processGenerationJob(
             if (!monologue && scriptText.includes('Speaker')) {
               console.log(`[Job ${jobId}] Attempting monologue rescue for test ${i + 1}...`);
               try {
-                const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-                if (LOVABLE_API_KEY) {
-                  const monologuePrompt = `Rewrite the following dialogue as a detailed monologue or narration. 
+                const monologuePrompt = `Rewrite the following dialogue as a detailed monologue or narration. 
 Remove all speaker labels (e.g., "Speaker1:", "Speaker2:", names followed by colons). 
 Convert the conversation into a flowing narrative that a single narrator would read aloud.
 Keep ALL factual information, numbers, dates, names, and details that would be needed to answer test questions.
@@ -771,44 +775,23 @@ Return ONLY the raw monologue text, no JSON wrapper.
 
 DIALOGUE TO CONVERT:
 ${scriptText}`;
-                  
-                  const rescueResponse = await fetchWithTimeout(
-                    "https://ai.gateway.lovable.dev/v1/chat/completions",
-                    {
-                      method: "POST",
-                      headers: {
-                        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-                        "Content-Type": "application/json",
-                      },
-                      body: JSON.stringify({
-                        model: "google/gemini-2.5-flash",
-                        messages: [
-                          { role: "user", content: monologuePrompt },
-                        ],
-                      }),
-                    },
-                    60_000
-                  );
-                  
-                  if (rescueResponse.ok) {
-                    const rescueData = await rescueResponse.json();
-                    const rescuedMonologue = rescueData.choices?.[0]?.message?.content;
-                    
-                    if (rescuedMonologue && rescuedMonologue.trim().length > 50) {
-                      console.log(`[Job ${jobId}] Monologue rescue successful for test ${i + 1}`);
-                      content.dialogue = rescuedMonologue.trim();
-                      content.script = rescuedMonologue.trim();
-                      content.speaker_names = { Speaker1: 'Narrator' };
-                      content.monologue_rescued = true;
-                      // Continue without throwing - test will be saved with browser TTS fallback
-                    } else {
-                      throw new Error('Monologue rescue returned empty result');
-                    }
-                  } else {
-                    throw new Error('Monologue rescue API call failed');
-                  }
+
+                const rescueReply = await callLLM(
+                  { taskType: 'generate', prompt: monologuePrompt },
+                  await contentTargets(supabase),
+                  contentCallOptions(supabase),
+                );
+                const rescuedMonologue = rescueReply.text;
+
+                if (rescuedMonologue.trim().length > 50) {
+                  console.log(`[Job ${jobId}] Monologue rescue successful for test ${i + 1}`);
+                  content.dialogue = rescuedMonologue.trim();
+                  content.script = rescuedMonologue.trim();
+                  content.speaker_names = { Speaker1: 'Narrator' };
+                  content.monologue_rescued = true;
+                  // Continue without throwing - test will be saved with browser TTS fallback
                 } else {
-                  throw new Error('LOVABLE_API_KEY not available for rescue');
+                  throw new Error('Monologue rescue returned empty result');
                 }
               } catch (rescueError) {
                 console.error(`[Job ${jobId}] Monologue rescue failed for test ${i + 1}:`, rescueError);
@@ -1036,7 +1019,33 @@ function getQuestionTypesForModule(module: string, selectedType: string): string
 }
 
 // Generate content using Lovable AI Gateway with performance logging
+// Pool Gemini keys first, then the providers configured for generation
+async function contentTargets(supabaseServiceClient: SupabaseClient): Promise<LLMTarget[]> {
+  const keys = await getActiveGeminiKeysForContent(supabaseServiceClient);
+  return [
+    ...keys.map((key) => geminiTarget(key.key_value, CONTENT_MODELS, key.id)),
+    ...(await loadConfiguredTargets(supabaseServiceClient, 'generate', { excludeProviders: ['gemini'] })),
+  ];
+}
+
+function contentCallOptions(supabaseServiceClient: SupabaseClient): LLMCallOptions {
+  return {
+    serviceClient: supabaseServiceClient,
+    logPrefix: 'bulk-generate-tests',
+    policy: { onRateLimit: 'next_target' },
+    onFailure: async (target, failure) => {
+      if (!target.keyId || target.provider.id !== 'gemini') return;
+      if (failure.kind === 'quota') {
+        await markContentQuotaExhausted(supabaseServiceClient, target.keyId, failure.model);
+      } else if (failure.kind === 'invalid_key') {
+        await incrementKeyErrorCount(supabaseServiceClient, target.keyId, true);
+      }
+    },
+  };
+}
+
 async function generateContent(
+  supabaseServiceClient: SupabaseClient,
   module: string,
   topic: string,
   difficulty: string,
@@ -1045,100 +1054,25 @@ async function generateContent(
   voiceName?: string,
   writingConfig?: any
 ): Promise<any> {
-  const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-  
-  if (!LOVABLE_API_KEY) {
-    throw new Error("LOVABLE_API_KEY not configured");
+  const targets = await contentTargets(supabaseServiceClient);
+  if (targets.length === 0) {
+    throw new Error("No Gemini API keys or LLM providers available for content generation");
   }
 
   const prompt = getPromptForModule(module, topic, difficulty, questionType, monologue, voiceName, writingConfig);
-  
-  // Create performance logger for this task
-  const perfLogger = createPerformanceLogger('generate');
-  const modelName = "google/gemini-2.5-flash";
-  const callStart = Date.now();
-
-  try {
-    const response = await fetchWithTimeout(
-      "https://ai.gateway.lovable.dev/v1/chat/completions",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${LOVABLE_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: modelName,
-          messages: [
-            {
-              role: "system",
-              content:
-                "You are an expert IELTS test creator. Generate high-quality, authentic exam content. Always respond with valid JSON only, no markdown code blocks.",
-            },
-            { role: "user", content: prompt },
-          ],
-        }),
-      },
-      90_000
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      const callEnd = Date.now() - callStart;
-      
-      // Log appropriate error type
-      const isQuota = response.status === 429 || 
-                      errorText.toLowerCase().includes('quota') ||
-                      errorText.toLowerCase().includes('resource_exhausted');
-      
-      if (isQuota) {
-        await perfLogger.logQuotaExceeded(modelName, errorText.slice(0, 200));
-      } else {
-        await perfLogger.logError(modelName, `HTTP ${response.status}: ${errorText.slice(0, 100)}`, callEnd);
-      }
-      
-      throw new Error(`AI generation failed: ${response.status} - ${errorText.slice(0, 200)}`);
-    }
 
-    const data = await response.json();
-    const contentText = data.choices?.[0]?.message?.content;
-
-    if (!contentText) {
-      const callEnd = Date.now() - callStart;
-      await perfLogger.logError(modelName, 'Empty AI response', callEnd);
-      throw new Error("Empty AI response");
-    }
-
-    // Parse JSON from response
-    let jsonContent = contentText;
-    if (contentText.includes("```json")) {
-      jsonContent = contentText.replace(/```json\n?/g, "").replace(/```\n?/g, "");
-    } else if (contentText.includes("```")) {
-      jsonContent = contentText.replace(/```\n?/g, "");
-    }
+  const reply = await callLLM(
+    {
+      taskType: 'generate',
+      system: "You are an expert IELTS test creator. Generate high-quality, authentic exam content. Always respond with valid JSON only, no markdown code blocks.",
+      prompt,
+      json: true,
+    },
+    targets,
+    contentCallOptions(supabaseServiceClient),
+  );
 
-    try {
-      const result = JSON.parse(jsonContent.trim());
-      
-      // Log success
-      const callEnd = Date.now() - callStart;
-      await perfLogger.logSuccess(modelName, callEnd);
-      
-      return result;
-    } catch (parseError) {
-      const callEnd = Date.now() - callStart;
-      await perfLogger.logError(modelName, 'JSON parse failed', callEnd);
-      console.error("JSON parse error:", parseError, "Content:", jsonContent.slice(0, 500));
-      throw new Error("Failed to parse AI response as JSON");
-    }
-  } catch (err) {
-    // If error wasn't already logged, log it now
-    if (err instanceof Error && !err.message.includes('AI generation failed') && !err.message.includes('Empty AI response') && !err.message.includes('Failed to parse')) {
-      const callEnd = Date.now() - callStart;
-      await perfLogger.logError(modelName, err.message, callEnd);
-    }
-    throw err;
-  }
+  return reply.json;
 }
 
 // Get prompt based on module and question type
@@ -1,6 +1,29 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import {
+  callLLMWithSchema,
+  geminiTarget,
+  LLMGatewayError,
+  LLMSchemaError,
+  loadConfiguredTargets,
+  type LLMTarget,
+} from "../_shared/llmGateway.ts";
+import {
+  WRITING_FULL_TEST_EVALUATION_SCHEMA,
+  writingTaskEvaluationSchema,
+  type ObjectSchema,
+} from "../_shared/outputSchemas.ts";
+import { buildAnnotationInstructions, resolveWritingAnnotations } from "../_shared/writingAnnotations.ts";
+import { averageBands, calculateWritingBand, getCriterionBand } from "../_shared/ieltsScoring.ts";
+import {
+  applyDataCheck,
+  buildDataCheckInstructions,
+  extractChartFacts,
+  resolveDataCheck,
+  type ChartFacts,
+} from "../_shared/task1DataCheck.ts";
+import { getLetterContext, isLetterTask, LETTER_TASK1_CRITERIA } from "../_shared/letterRubric.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -109,65 +132,38 @@ async function decryptApiKey(encryptedValue: string, encryptionKey: string): Pro
   return decoder.decode(decryptedData);
 }
 
-// Error classification for user-friendly messages
-interface GeminiErrorInfo {
+// User-facing message for the failure that ended the gateway's fallback chain
+interface EvaluationErrorInfo {
   code: string;
   userMessage: string;
-  isQuota: boolean;
-  isRateLimit: boolean;
-  isInvalidKey: boolean;
 }
 
-function classifyGeminiError(status: number, errorText: string): GeminiErrorInfo {
-  const lower = errorText.toLowerCase();
-  
-  if (status === 429 || lower.includes('quota') || lower.includes('resource_exhausted')) {
+function describeGatewayError(error: LLMGatewayError): EvaluationErrorInfo {
+  if (error.quotaExceeded) {
     return {
       code: 'QUOTA_EXCEEDED',
-      userMessage: 'Gemini API quota exceeded. Please wait a few minutes or check your Google AI Studio billing.',
-      isQuota: true,
-      isRateLimit: false,
-      isInvalidKey: false,
-    };
-  }
-  
-  if (lower.includes('rate limit') || lower.includes('too many requests')) {
-    return {
-      code: 'RATE_LIMITED',
-      userMessage: 'Too many requests. Please wait 30 seconds and try again.',
-      isQuota: false,
-      isRateLimit: true,
-      isInvalidKey: false,
-    };
-  }
-  
-  if (status === 400 && (lower.includes('api_key') || lower.includes('api key'))) {
-    return {
-      code: 'INVALID_API_KEY',
-      userMessage: 'Invalid Gemini API key. Please update your API key in Settings.',
-      isQuota: false,
-      isRateLimit: false,
-      isInvalidKey: true,
+      userMessage: 'All API keys have reached their rate limit. Please wait a few minutes and try again.',
     };
   }
-  
-  if (status === 403) {
-    return {
-      code: 'PERMISSION_DENIED',
-      userMessage: 'API access denied. Your key may not have permissions for this model.',
-      isQuota: false,
-      isRateLimit: false,
-      isInvalidKey: false,
-    };
+
+  switch (error.failures[error.failures.length - 1]?.kind) {
+    case 'invalid_key':
+      return {
+        code: 'INVALID_API_KEY',
+        userMessage: 'Invalid Gemini API key. Please update your API key in Settings.',
+      };
+    case 'invalid_json':
+    case 'empty':
+      return {
+        code: 'EVALUATION_UNREADABLE',
+        userMessage: 'The AI examiner returned an unreadable evaluation. Please try again.',
+      };
+    default:
+      return {
+        code: 'ALL_MODELS_FAILED',
+        userMessage: 'All AI models failed. Please try again.',
+      };
   }
-  
-  return {
-    code: 'UNKNOWN_ERROR',
-    userMessage: 'An unexpected error occurred. Please try again.',
-    isQuota: false,
-    isRateLimit: false,
-    isInvalidKey: false,
-  };
 }
 
 interface EvaluationRequest {
@@ -184,6 +180,11 @@ interface EvaluationRequest {
   task2Instruction?: string;
   task1ImageBase64?: string;
   task1VisualType?: string;
+  // Chart data of an AI-generated Task 1 visual (IELTSChartData)
+  chartData?: unknown;
+  task1ChartData?: unknown;
+  // General Training Task 1 letters
+  letterBulletPoints?: string[];
 }
 
 function getWritingEvaluationPrompt(
@@ -192,9 +193,12 @@ function getWritingEvaluationPrompt(
   submissionText: string,
   wordCount: number,
   imageDescription?: string,
-  visualType?: string
+  visualType?: string,
+  letterBulletPoints?: string[],
+  chartFacts?: ChartFacts | null
 ): string {
   const isTask1 = taskType === 'task1';
+  const isLetter = isTask1 && isLetterTask(visualType);
   
   const task1Criteria = `
 TASK 1 SPECIFIC BAND DESCRIPTORS:
@@ -278,11 +282,13 @@ GRAMMATICAL RANGE AND ACCURACY (assess sentence structures and error frequency):
     ? `Word count requirement: Minimum 150 words. Candidate wrote ${wordCount} words.${wordCount < 150 ? ' PENALTY: Under word count will affect Task Achievement score.' : ''}`
     : `Word count requirement: Minimum 250 words. Candidate wrote ${wordCount} words.${wordCount < 250 ? ' PENALTY: Under word count will affect Task Response score.' : ''}`;
 
-  const visualContext = isTask1 && visualType 
-    ? `\nVISUAL TYPE: ${visualType}${imageDescription ? `\nIMAGE DESCRIPTION: ${imageDescription}` : ''}\n\nIMPORTANT: Evaluate how accurately and completely the candidate has described the data/visual elements. For ${visualType}, check for:\n- Accurate data interpretation\n- Key trends and comparisons\n- Appropriate overview\n- Relevant details selected`
+  const visualContext = isLetter
+    ? getLetterContext(visualType, letterBulletPoints)
+    : isTask1 && visualType
+    ? `\nVISUAL TYPE: ${visualType}${imageDescription ? `\nIMAGE DESCRIPTION: ${imageDescription}` : ''}\n\nIMPORTANT: Evaluate how accurately and completely the candidate has described the data/visual elements. For ${visualType}, check for:\n- Accurate data interpretation\n- Key trends and comparisons\n- Appropriate overview\n- Relevant details selected${chartFacts ? `\n\n${buildDataCheckInstructions(chartFacts, 'evaluation_report')}` : ''}`
     : '';
 
-  return `You are an expert IELTS Writing examiner (2025 standards). Evaluate this ${isTask1 ? 'Task 1 Report' : 'Task 2 Essay'} submission with professional rigor.
+  return `You are an expert IELTS Writing examiner (2025 standards). Evaluate this ${isLetter ? 'General Training Task 1 Letter' : isTask1 ? 'Task 1 Report' : 'Task 2 Essay'} submission with professional rigor.
 
 TASK INSTRUCTIONS: "${instruction}"
 ${visualContext}
@@ -293,7 +299,7 @@ CANDIDATE'S SUBMISSION:
 ${submissionText}
 """
 
-${isTask1 ? task1Criteria : task2Criteria}
+${isLetter ? LETTER_TASK1_CRITERIA : isTask1 ? task1Criteria : task2Criteria}
 
 CRITICAL SCORING GUIDELINES:
 1. Score each criterion INDEPENDENTLY based on the specific evidence you observe
@@ -309,6 +315,8 @@ IMPORTANT DIFFERENTIATION:
 - A well-organized essay with limited vocabulary should score HIGH on coherence but LOWER on lexical resource
 - Consider each criterion in isolation based ONLY on evidence relevant to that skill
 
+${buildAnnotationInstructions()}
+
 Respond with ONLY valid JSON in this exact format:
 {
   "overall_band": number,
@@ -350,7 +358,10 @@ Respond with ONLY valid JSON in this exact format:
     "overall_feedback": "Comprehensive summary addressing the candidate directly...",
     "key_strengths": ["main strength 1", "main strength 2", "main strength 3"],
     "priority_improvements": ["most important improvement 1", "improvement 2", "improvement 3"],
-    "model_paragraph": "A sample paragraph demonstrating ideal writing for this task..."
+    "model_paragraph": "A sample paragraph demonstrating ideal writing for this task...",
+    "annotations": [
+      {"quote": "exact words from the text", "occurrence": 1, "category": "grammar", "correction": "corrected words", "explanation": "why", "criterion": "grammatical_range"}
+    ]
   }
 }`;
 }
@@ -363,14 +374,21 @@ function getFullTestEvaluationPrompt(
   task2Text: string,
   task2WordCount: number,
   task1VisualType?: string,
-  task1ImageDescription?: string
+  task1ImageDescription?: string,
+  letterBulletPoints?: string[],
+  task1ChartFacts?: ChartFacts | null
 ): string {
+  const isLetter = isLetterTask(task1VisualType);
+  const task1Context = isLetter
+    ? `${getLetterContext(task1VisualType, letterBulletPoints)}\nScore Task 1 against the General Training letter descriptors.`
+    : `${task1VisualType ? `Visual Type: ${task1VisualType}` : ''}
+${task1ImageDescription ? `Image Description: ${task1ImageDescription}` : ''}${task1ChartFacts ? `\n\n${buildDataCheckInstructions(task1ChartFacts, 'task1_evaluation')}` : ''}`;
+
   return `You are an expert IELTS Writing examiner (2025 standards). Evaluate this FULL WRITING TEST with both Task 1 and Task 2.
 
-=== TASK 1 (Report) ===
+=== TASK 1 (${isLetter ? 'Letter' : 'Report'}) ===
 Instructions: "${task1Instruction}"
-${task1VisualType ? `Visual Type: ${task1VisualType}` : ''}
-${task1ImageDescription ? `Image Description: ${task1ImageDescription}` : ''}
+${task1Context}
 Word Count: ${task1WordCount} words (minimum 150 required)
 
 Candidate's Task 1 Response:
@@ -394,6 +412,9 @@ SCORING GUIDELINES:
 - Use half-band scores when appropriate
 - Address the candidate directly using "you" and "your"
 
+${buildAnnotationInstructions()}
+Annotate each task separately: Task 1 quotes go in task1_evaluation.annotations, Task 2 quotes in task2_evaluation.annotations.
+
 Respond with ONLY valid JSON:
 {
   "overall_band": number,
@@ -406,7 +427,8 @@ Respond with ONLY valid JSON:
     "grammatical_accuracy": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "error_corrections": [] },
     "overall_feedback": string,
     "key_strengths": [],
-    "priority_improvements": []
+    "priority_improvements": [],
+    "annotations": []
   },
   "task2_evaluation": {
     "task_response": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "examples": [] },
@@ -415,7 +437,8 @@ Respond with ONLY valid JSON:
     "grammatical_accuracy": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "error_corrections": [] },
     "overall_feedback": string,
     "key_strengths": [],
-    "priority_improvements": []
+    "priority_improvements": [],
+    "annotations": []
   },
   "combined_feedback": {
     "overall_assessment": string,
@@ -426,120 +449,6 @@ Respond with ONLY valid JSON:
 }`;
 }
 
-interface GeminiCallResult {
-  success: boolean;
-  text?: string;
-  error?: GeminiErrorInfo;
-  shouldFallbackToPool?: boolean;
-}
-
-async function callGeminiWithImage(
-  apiKey: string, 
-  prompt: string, 
-  imageBase64?: string,
-  supabaseService?: any,
-  poolKeyId?: string
-): Promise<GeminiCallResult> {
-  for (const model of GEMINI_MODELS) {
-    try {
-      const parts: any[] = [{ text: prompt }];
-      
-      // Add image if provided
-      if (imageBase64) {
-        const base64Data = imageBase64.includes(',') 
-          ? imageBase64.split(',')[1] 
-          : imageBase64;
-        
-        parts.push({
-          inlineData: {
-            mimeType: 'image/png',
-            data: base64Data
-          }
-        });
-      }
-
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ parts }],
-            generationConfig: { 
-              temperature: 0.5,
-              maxOutputTokens: 8192,
-              responseMimeType: 'application/json'
-            },
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`Model ${model} failed (${response.status}):`, errorText.slice(0, 300));
-        
-        const errorInfo = classifyGeminiError(response.status, errorText);
-        
-        // If pool key failed with quota/rate limit, try next key
-        if (poolKeyId && supabaseService && (errorInfo.isQuota || errorInfo.isRateLimit)) {
-          await incrementKeyErrorCount(supabaseService, poolKeyId, false);
-          return { success: false, error: errorInfo };
-        }
-        
-        // If invalid pool key, deactivate it
-        if (poolKeyId && supabaseService && errorInfo.isInvalidKey) {
-          await incrementKeyErrorCount(supabaseService, poolKeyId, true);
-          return { success: false, error: errorInfo };
-        }
-        
-        // For user key quota/rate limit, signal to fallback to pool
-        if (!poolKeyId && (errorInfo.isQuota || errorInfo.isRateLimit)) {
-          return { success: false, error: errorInfo, shouldFallbackToPool: true };
-        }
-        
-        continue; // Try next model
-      }
-
-      const data = await response.json();
-      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (text) {
-        // Reset error count on success for pool keys
-        if (poolKeyId && supabaseService) {
-          await resetKeyErrorCount(supabaseService, poolKeyId);
-        }
-        return { success: true, text };
-      }
-    } catch (err) {
-      console.error(`Model ${model} error:`, err);
-      continue;
-    }
-  }
-  return { success: false, error: { code: 'ALL_MODELS_FAILED', userMessage: 'All AI models failed. Please try again.', isQuota: false, isRateLimit: false, isInvalidKey: false } };
-}
-
-function parseJsonResponse(responseText: string): any {
-  try {
-    // Try to extract JSON from markdown code blocks
-    const jsonMatch = responseText.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[1].trim());
-    }
-    // Try direct JSON parsing
-    return JSON.parse(responseText.trim());
-  } catch {
-    // Try to find JSON object in the response
-    const objectMatch = responseText.match(/\{[\s\S]*\}/);
-    if (objectMatch) {
-      try {
-        return JSON.parse(objectMatch[0]);
-      } catch {
-        return null;
-      }
-    }
-    return null;
-  }
-}
-
 serve(async (req) => {
   const startTime = Date.now();
   console.log(`[evaluate-ai-practice-writing] Request received`);
@@ -626,16 +535,22 @@ serve(async (req) => {
       task1Instruction,
       task2Instruction,
       task1ImageBase64,
-      task1VisualType
+      task1VisualType,
+      chartData,
+      task1ChartData,
+      letterBulletPoints,
     } = body;
 
     let evaluationPrompt: string;
+    let evaluationSchema: ObjectSchema;
     let imageToInclude: string | undefined;
+    let chartFacts: ChartFacts | null = null;
 
     if (isFullTest && task1Text && task2Text) {
       // Full test evaluation
       const task1WordCount = task1Text.trim().split(/\s+/).filter(Boolean).length;
       const task2WordCount = task2Text.trim().split(/\s+/).filter(Boolean).length;
+      chartFacts = isLetterTask(task1VisualType) ? null : extractChartFacts(task1ChartData);
       
       evaluationPrompt = getFullTestEvaluationPrompt(
         task1Instruction || 'Describe the visual data',
@@ -645,14 +560,18 @@ serve(async (req) => {
         task2Text,
         task2WordCount,
         task1VisualType,
-        imageDescription
+        imageDescription,
+        letterBulletPoints,
+        chartFacts
       );
+      evaluationSchema = WRITING_FULL_TEST_EVALUATION_SCHEMA;
       imageToInclude = task1ImageBase64;
       
-      console.log(`[evaluate-ai-practice-writing] Full test: Task1=${task1WordCount} words, Task2=${task2WordCount} words`);
+      console.log(`[evaluate-ai-practice-writing] Full test: Task1=${task1WordCount} words, Task2=${task2WordCount} words${chartFacts ? ', checking chart data' : ''}`);
     } else {
       // Single task evaluation
       const wordCount = submissionText.trim().split(/\s+/).filter(Boolean).length;
+      chartFacts = taskType === 'task1' && !isLetterTask(visualType) ? extractChartFacts(chartData) : null;
       
       evaluationPrompt = getWritingEvaluationPrompt(
         taskType,
@@ -660,76 +579,114 @@ serve(async (req) => {
         submissionText,
         wordCount,
         imageDescription,
-        visualType
+        visualType,
+        letterBulletPoints,
+        chartFacts
       );
+      evaluationSchema = writingTaskEvaluationSchema(taskType === 'task1' ? 1 : 2);
       imageToInclude = imageBase64;
       
-      console.log(`[evaluate-ai-practice-writing] Single task: ${taskType}, ${wordCount} words`);
+      console.log(`[evaluate-ai-practice-writing] Single task: ${taskType}, ${wordCount} words${chartFacts ? ', checking chart data' : ''}`);
     }
 
-    // Try user key first, then fall back to pool
-    let result: GeminiCallResult | null = null;
-    let lastError: GeminiErrorInfo | null = null;
-    
-    if (userApiKey) {
-      console.log('[evaluate-ai-practice-writing] Trying user API key first');
-      result = await callGeminiWithImage(userApiKey, evaluationPrompt, imageToInclude);
-      
-      if (result.success) {
-        console.log('[evaluate-ai-practice-writing] User key succeeded');
-      } else if (result.shouldFallbackToPool && activePoolKeys.length > 0) {
-        console.log('[evaluate-ai-practice-writing] User key failed, falling back to pool');
-        lastError = result.error || null;
-        result = null; // Reset to try pool
-      } else if (result.error) {
-        lastError = result.error;
-      }
-    }
-    
-    // Try pool keys if user key failed or not available
-    if (!result?.success && activePoolKeys.length > 0) {
-      for (const poolKey of activePoolKeys) {
-        console.log(`[evaluate-ai-practice-writing] Trying pool key ${poolKey.id.slice(0, 8)}...`);
-        result = await callGeminiWithImage(poolKey.key_value, evaluationPrompt, imageToInclude, supabaseService, poolKey.id);
-        
-        if (result.success) {
-          console.log('[evaluate-ai-practice-writing] Pool key succeeded');
-          break;
-        }
-        lastError = result.error || null;
+    // User key first, then the pool, then any configured fallback provider
+    const targets: LLMTarget[] = [
+      ...(userApiKey ? [geminiTarget(userApiKey, GEMINI_MODELS)] : []),
+      ...activePoolKeys.map((key) => geminiTarget(key.key_value, GEMINI_MODELS, key.id)),
+      ...await loadConfiguredTargets(supabaseService, 'evaluate_writing', {
+        excludeProviders: ['gemini'],
+        requireImages: !!imageToInclude,
+      }),
+    ];
+
+    let parsed: Record<string, unknown>;
+    try {
+      const { value, response: reply, repaired } = await callLLMWithSchema<Record<string, unknown>>(
+        {
+          taskType: 'evaluate_writing',
+          prompt: evaluationPrompt,
+          images: imageToInclude ? [{ mimeType: 'image/png', data: imageToInclude }] : undefined,
+          temperature: 0.5,
+          maxTokens: 8192,
+        },
+        evaluationSchema,
+        evaluationSchema === WRITING_FULL_TEST_EVALUATION_SCHEMA ? 'writing full test evaluation' : 'writing task evaluation',
+        targets,
+        {
+          serviceClient: supabaseService,
+          logPrefix: 'evaluate-ai-practice-writing',
+          // A quota-limited key is done for this request; move on to the next one
+          policy: { onRateLimit: 'next_target' },
+          onFailure: async (target, failure) => {
+            if (!target.keyId) return;
+            if (failure.kind === 'invalid_key') await incrementKeyErrorCount(supabaseService, target.keyId, true);
+            else if (failure.kind === 'quota' || failure.kind === 'rate_limit') await incrementKeyErrorCount(supabaseService, target.keyId, false);
+          },
+          onSuccess: async (target) => {
+            if (target.keyId) await resetKeyErrorCount(supabaseService, target.keyId);
+          },
+        },
+      );
+      parsed = value;
+      console.log(`[evaluate-ai-practice-writing] Evaluated with ${reply.provider}/${reply.model}${reply.keyId ? '' : ' (user key)'}${repaired ? ', repaired' : ''}`);
+    } catch (error) {
+      // Never hand the results page an evaluation with missing criteria
+      if (error instanceof LLMSchemaError) {
+        console.error('[evaluate-ai-practice-writing] Evaluation failed validation after repair:', error.message);
+        return new Response(JSON.stringify({
+          error: 'The AI examiner returned an incomplete evaluation. Please try again.',
+          code: 'EVALUATION_INVALID',
+          errorType: 'EVALUATION_INVALID',
+        }), {
+          status: 502,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
-    }
-    
-    if (!result?.success || !result.text) {
-      console.error('[evaluate-ai-practice-writing] All API keys failed');
-      const errorMessage = lastError?.userMessage || 'All API keys have reached their rate limit. Please wait a few minutes and try again.';
+      if (!(error instanceof LLMGatewayError)) throw error;
+      console.error('[evaluate-ai-practice-writing] All API keys failed:', error.message);
+      const info = describeGatewayError(error);
       return new Response(JSON.stringify({ 
-        error: `QUOTA_EXCEEDED: ${errorMessage}`,
-        code: lastError?.code || 'QUOTA_EXCEEDED',
-        errorType: lastError?.code || 'QUOTA_EXCEEDED',
+        error: error.quotaExceeded ? `QUOTA_EXCEEDED: ${info.userMessage}` : info.userMessage,
+        code: info.code,
+        errorType: info.code,
         suggestion: 'Add your own Gemini API key in Settings for unlimited access.'
       }), {
-        status: 429,
+        status: error.quotaExceeded ? 429 : 502,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    const parsed = parseJsonResponse(result.text);
-    
-    if (!parsed) {
-      console.error('[evaluate-ai-practice-writing] Failed to parse JSON response');
-      return new Response(JSON.stringify({ 
-        overall_band: 5.5,
-        evaluation_report: { 
-          overall_feedback: result.text,
-          task_achievement: { band: 5.5, feedback: 'Evaluation parsing failed. Raw response preserved.' },
-          coherence_cohesion: { band: 5.5, feedback: '' },
-          lexical_resource: { band: 5.5, feedback: '' },
-          grammatical_accuracy: { band: 5.5, feedback: '' }
+    // Quotes become character offsets into the text the candidate submitted
+    const annotate = (report: unknown, text: string | undefined) => {
+      if (!report || typeof report !== 'object') return;
+      const target = report as Record<string, unknown>;
+      target.annotations = resolveWritingAnnotations(text ?? '', target.annotations);
+    };
+    if (evaluationSchema === WRITING_FULL_TEST_EVALUATION_SCHEMA) {
+      annotate(parsed.task1_evaluation, task1Text);
+      annotate(parsed.task2_evaluation, task2Text);
+    } else {
+      annotate(parsed.evaluation_report, submissionText);
+    }
+
+    // Task 1 claims are verified against the chart data; a capped Task Achievement changes the bands
+    const isFullTestReport = evaluationSchema === WRITING_FULL_TEST_EVALUATION_SCHEMA;
+    const task1Report = isFullTestReport ? parsed.task1_evaluation : parsed.evaluation_report;
+    if (chartFacts && task1Report && typeof task1Report === 'object') {
+      const report = task1Report as Record<string, unknown>;
+      const check = resolveDataCheck(chartFacts, report.data_check, (isFullTestReport ? task1Text : submissionText) ?? '');
+      if (applyDataCheck(report, check)) {
+        const taskBand = averageBands(
+          [report.task_achievement, report.coherence_cohesion, report.lexical_resource, report.grammatical_accuracy].map(getCriterionBand)
+        );
+        if (isFullTestReport) {
+          parsed.task1_band = taskBand ?? parsed.task1_band;
+          parsed.overall_band = calculateWritingBand(taskBand, parsed.task2_band as number | undefined) ?? parsed.overall_band;
+        } else {
+          parsed.overall_band = taskBand ?? parsed.overall_band;
         }
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+      }
+      console.log(`[evaluate-ai-practice-writing] Data check: ${check.claims.length} claims, ${check.claims.filter((c) => c.verdict === 'misreported').length} misreported, ${check.missing_features.length}/${check.feature_count} features missing, cap ${check.band_cap ?? 'none'}`);
     }
 
     const elapsed = Date.now() - startTime;
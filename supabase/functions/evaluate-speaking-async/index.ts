@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isPart3QuestionTree } from "../_shared/part3FollowUp.ts";
+import { readInterventions } from "../_shared/examinerInterventions.ts";
+import { usesTranscriptionPipeline } from "../_shared/transcriptionProviders.ts";
 
 /**
  * Speaking Evaluation Job Creator (Queue-Based Architecture)
@@ -46,6 +49,10 @@ interface EvaluationRequest {
     durationMs: number;
     overallClarityScore: number;
   }>;
+  // Questions asked in adaptive Part 3, saved so evaluation and the report use them
+  part3QuestionTree?: unknown;
+  // Examiner prompts and cut-offs during the live test, weighed by the evaluators
+  examinerInterventions?: unknown;
 }
 
 serve(async (req) => {
@@ -87,6 +94,8 @@ serve(async (req) => {
       cancelExisting,
       transcripts,
       evaluationMode,
+      part3QuestionTree,
+      examinerInterventions,
     } = body;
 
     // Determine evaluation path based on mode
@@ -227,8 +236,8 @@ serve(async (req) => {
       if (!useAudioEvaluation && hasTranscripts) {
         // Text-based evaluation (same for both providers)
         stage = 'pending_text_eval';
-      } else if (currentProvider === 'groq') {
-        // Groq audio evaluation starts with transcription
+      } else if (usesTranscriptionPipeline(currentProvider)) {
+        // Groq / self-hosted Whisper audio evaluation starts with transcription
         stage = 'pending_transcription';
       } else {
         // Gemini audio evaluation starts with upload
@@ -240,6 +249,13 @@ serve(async (req) => {
       // CRITICAL: ALWAYS store browser transcripts (if provided) as fallback for accuracy mode failures
       // This enables text-based fallback when audio evaluation fails after retries
       const partialResultsPayload: Record<string, any> = { evaluationMode };
+      if (isPart3QuestionTree(part3QuestionTree)) {
+        partialResultsPayload.part3QuestionTree = part3QuestionTree;
+      }
+      const interventions = readInterventions(examinerInterventions);
+      if (interventions.length > 0) {
+        partialResultsPayload.examinerInterventions = interventions;
+      }
       
       // Store transcripts in ALL modes for fallback capability
       if (hasTranscripts) {
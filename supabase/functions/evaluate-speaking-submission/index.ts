@@ -15,11 +15,14 @@ import {
   sleep,
   calculateBandFromCriteria,
   computeWeightedPartBand,
+  computeBandFromQuestionBands,
   validateEvaluationResult,
   normalizeGeminiResponse,
   corsHeaders,
   QuotaError,
 } from "../_shared/speakingUtils.ts";
+import { geminiTarget, repairStructuredOutput } from "../_shared/llmGateway.ts";
+import { speakingResultSchema, validateOutput } from "../_shared/outputSchemas.ts";
 
 /**
  * OPTIMIZED Speaking Evaluation Edge Function for Cambridge Tests
@@ -30,6 +33,40 @@ import {
 
 const GEMINI_MODELS = ['gemini-2.5-flash'];
 
+/**
+ * Results whose bands, criteria and model answers match the result schema are
+ * kept despite softer issues (short transcripts, ...). Anything else gets one
+ * text-only repair call on the same key and model, and is rejected if that
+ * fails so a partial report never reaches ai_practice_results.
+ */
+async function repairSpeakingResult(
+  normalized: Record<string, unknown>,
+  questionCount: number,
+  candidateKey: { key: string; keyId: string | null },
+  modelName: string,
+  supabaseService: ReturnType<typeof createClient>,
+): Promise<Record<string, unknown> | null> {
+  const schema = speakingResultSchema(questionCount);
+  const structural = validateOutput(schema, normalized);
+  if (structural.valid) return normalized;
+
+  try {
+    const { value } = await repairStructuredOutput(
+      normalized,
+      schema,
+      'speaking evaluation',
+      structural.issues,
+      'evaluate_speaking',
+      [geminiTarget(candidateKey.key, [modelName], candidateKey.keyId)],
+      { serviceClient: supabaseService, logPrefix: 'evaluate-speaking-submission' },
+    );
+    return normalizeGeminiResponse(value);
+  } catch (error) {
+    console.warn(`[evaluate-speaking-submission] Repair failed:`, error instanceof Error ? error.message : error);
+  }
+  return null;
+}
+
 function isPermanentQuotaExhausted(err: any): boolean {
   const msg = String(err?.message || err || '').toLowerCase();
   if (msg.includes('check your plan') || msg.includes('billing')) return true;
@@ -223,33 +260,6 @@ FINAL RULES:
 4. DO NOT inflate scores - a 3-word response CANNOT score above 3.0`;
 }
 
-function computeOverallBandFromQuestionBands(result: any): number | null {
-  const modelAnswers = Array.isArray(result?.modelAnswers) ? result.modelAnswers : [];
-  const bands = modelAnswers
-    .map((a: any) => ({
-      part: Number(a?.partNumber),
-      band: typeof a?.estimatedBand === 'number' ? a.estimatedBand : Number(a?.estimatedBand),
-    }))
-    .filter((x: any) => (x.part === 1 || x.part === 2 || x.part === 3) && Number.isFinite(x.band));
-
-  if (!bands.length) return null;
-
-  const weightForPart = (p: number) => (p === 2 ? 2.0 : p === 3 ? 1.5 : 1.0);
-  const weighted = bands.reduce(
-    (acc: { sum: number; w: number }, x: any) => {
-      const w = weightForPart(x.part);
-      return { sum: acc.sum + x.band * w, w: acc.w + w };
-    },
-    { sum: 0, w: 0 },
-  );
-
-  if (weighted.w <= 0) return null;
-
-  const avg = weighted.sum / weighted.w;
-  const rounded = Math.round(avg * 2) / 2;
-  return Math.min(9, Math.max(1, rounded));
-}
-
 serve(async (req) => {
   console.log(`[evaluate-speaking-submission] Request at ${new Date().toISOString()}`);
   
@@ -459,11 +469,10 @@ serve(async (req) => {
                     break;
                   } else {
                     console.warn(`[evaluate-speaking-submission] Validation issues: ${validation.issues.join(', ')}`);
-                    const overallBand = normalized.overall_band ?? normalized.overallBand;
-                    const hasSomeCriteria = normalized.criteria && Object.keys(normalized.criteria).length > 0;
-                    
-                    if (typeof overallBand === 'number' && overallBand > 0 && hasSomeCriteria) {
-                      evaluationResult = normalized;
+                    const repaired = await repairSpeakingResult(normalized, audioFiles.length, candidateKey, modelName, supabaseService);
+
+                    if (repaired) {
+                      evaluationResult = repaired;
                       usedModel = modelName;
                       usedKey = candidateKey;
                       break;
@@ -534,7 +543,7 @@ serve(async (req) => {
     // Calculate band score using weighted part scores if available
     const partScores = evaluationResult.part_scores || {};
     const weightedBand = computeWeightedPartBand(partScores);
-    const derivedFromQuestions = computeOverallBandFromQuestionBands(evaluationResult);
+    const derivedFromQuestions = computeBandFromQuestionBands(evaluationResult);
     const derivedFromCriteria = calculateBandFromCriteria(evaluationResult.criteria);
     
     const overallBand = weightedBand ?? 
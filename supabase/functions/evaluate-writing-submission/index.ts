@@ -1,38 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import { buildAnnotationInstructions, resolveWritingAnnotations } from "../_shared/writingAnnotations.ts";
+import { buildRevisionReviewSection, parseRevisionReview } from "../_shared/writingRevisions.ts";
+import { bytesToBase64 } from "../_shared/handwritingTranscription.ts";
+import { callLLM, geminiTarget, LLMGatewayError, type LLMImage } from "../_shared/llmGateway.ts";
+import { getLetterContext, LETTER_TASK1_CRITERIA } from "../_shared/letterRubric.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-gemini-api-key',
 };
 
-// ============================================================================
-// PERFORMANCE LOGGING - Track AI calls for analytics dashboard
-// ============================================================================
-async function logModelPerformance(
-  serviceClient: any,
-  modelName: string,
-  status: 'success' | 'error' | 'quota_exceeded',
-  responseTimeMs?: number,
-  errorMessage?: string,
-  apiKeyId?: string
-): Promise<void> {
-  try {
-    await serviceClient.rpc('log_model_performance', {
-      p_api_key_id: apiKeyId || null,
-      p_model_name: modelName,
-      p_task_type: 'evaluate_writing',
-      p_status: status,
-      p_response_time_ms: responseTimeMs || null,
-      p_error_message: errorMessage?.slice(0, 500) || null,
-    });
-    console.log(`[PerformanceLog] ${status} for ${modelName} (evaluate_writing)`);
-  } catch (err) {
-    console.warn('[PerformanceLog] Failed to log:', err);
-  }
-}
-
 // ============================================================================
 // CREDIT SYSTEM - Cost Map and Daily Limits
 // ============================================================================
@@ -199,7 +178,7 @@ serve(async (req) => {
     // 1. Fetch submission details
     const { data: submission, error: submissionError } = await supabaseClient
       .from('writing_submissions')
-      .select('submission_text, task_id, user_id')
+      .select('submission_text, task_id, user_id, revision_of')
       .eq('id', submissionId)
       .eq('user_id', user.id) // Ensure user owns the submission
       .single();
@@ -219,21 +198,41 @@ serve(async (req) => {
       throw new Error(taskError?.message || 'Associated writing task not found.');
     }
 
-    // Fetch image as base64 if it's a Task 1 with an image
+    // General Training tests ask for a letter in Task 1, not a data report
+    const { data: writingTest } = await supabaseClient
+      .from('writing_tests')
+      .select('test_type')
+      .eq('id', task.writing_test_id)
+      .maybeSingle();
+    const isLetter = task.task_type === 'task1' && writingTest?.test_type === 'general';
+
+    // A revision is also judged on whether it acted on the previous version's feedback
+    let revisionSection = '';
+    if (submission.revision_of) {
+      const { data: previous } = await supabaseClient
+        .from('writing_submissions')
+        .select('submission_text, evaluation_report, revision_number')
+        .eq('id', submission.revision_of)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (previous) {
+        revisionSection = buildRevisionReviewSection({
+          text: previous.submission_text,
+          report: previous.evaluation_report,
+          revisionNumber: previous.revision_number,
+        });
+      }
+    }
+
+    // Fetch image as base64 if it's a Task 1 report with an image
     let imageBase64: string | null = null;
-    if (task.task_type === 'task1' && task.image_url) {
+    if (task.task_type === 'task1' && !isLetter && task.image_url) {
       try {
         console.log('Fetching Task 1 image for vision analysis:', task.image_url);
         const imageResponse = await fetch(task.image_url);
         if (imageResponse.ok) {
           const imageBuffer = await imageResponse.arrayBuffer();
-          const imageBytes = new Uint8Array(imageBuffer);
-          // Convert to base64
-          let binary = '';
-          for (let i = 0; i < imageBytes.length; i++) {
-            binary += String.fromCharCode(imageBytes[i]);
-          }
-          imageBase64 = btoa(binary);
+          imageBase64 = bytesToBase64(new Uint8Array(imageBuffer));
           console.log('Successfully fetched and encoded image for vision analysis');
         }
       } catch (imgError) {
@@ -328,21 +327,19 @@ serve(async (req) => {
       console.log(`Credits reserved: ${creditCheck.creditsUsed}/${DAILY_CREDIT_LIMIT}`);
     }
 
-    // 4. Call Gemini API for evaluation with fallback models
-    let responseText: string | null = null;
-    let usedModel: string | null = null;
+    // 4. Call Gemini for evaluation through the gateway, falling back across models
+    const prompt = `You are an expert IELTS writing examiner and a supportive English teacher. Please provide a detailed evaluation of your student's IELTS ${isLetter ? 'General Training Task 1 Letter' : task.task_type === 'task1' ? 'Task 1 Report' : 'Task 2 Essay'} submission. Focus on offering constructive feedback and an overall band score, speaking directly to the student as their teacher would.
 
-    for (const modelName of GEMINI_MODELS_FALLBACK_ORDER) {
-      const startTime = Date.now();
-      console.log(`Attempting evaluation with Gemini model: ${modelName}`);
-      const GEMINI_API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${geminiApiKey}`;
+IMPORTANT: Write your feedback as a teacher speaking directly to the student. Use "you" and "your" when addressing them. Do NOT use technical terms like "prompt" - instead say "the question", "the task", or "what was asked". Make the feedback feel like a one-on-one tutoring session.
 
-      // Move prompt construction inside the loop to access modelName
-      const prompt = `You are an expert IELTS writing examiner and a supportive English teacher. Please provide a detailed evaluation of your student's IELTS ${task.task_type === 'task1' ? 'Task 1 Report' : 'Task 2 Essay'} submission. Focus on offering constructive feedback and an overall band score, speaking directly to the student as their teacher would.
+      ${isLetter ? `This is an IELTS General Training Task 1 Letter. The student's submission should be a letter responding to the situation described below.
+      ${getLetterContext()}
 
-IMPORTANT: Write your feedback as a teacher speaking directly to the student. Use "you" and "your" when addressing them. Do NOT use technical terms like "prompt" - instead say "the question", "the task", or "what was asked". Make the feedback feel like a one-on-one tutoring session.
+      Task 1 Instructions:
+      "${task.instruction}"
+      ${task.text_content ? `Additional Task Content: "${task.text_content}"` : ''}
 
-      ${task.task_type === 'task1' ? `This is an IELTS Task 1 Report. The student's submission should describe a visual (e.g., chart, graph, diagram, map, or process). ${imageBase64 ? 'I have provided the actual image/diagram that the student was asked to describe. Please carefully analyze this visual and evaluate how accurately and comprehensively the student has described it.' : 'Please note that you are NOT provided with the actual image, but the textual instructions and any accompanying text content for the task are given below.'} Evaluate the report based on how well it addresses these requirements.
+      ${LETTER_TASK1_CRITERIA}` : task.task_type === 'task1' ? `This is an IELTS Task 1 Report. The student's submission should describe a visual (e.g., chart, graph, diagram, map, or process). ${imageBase64 ? 'I have provided the actual image/diagram that the student was asked to describe. Please carefully analyze this visual and evaluate how accurately and comprehensively the student has described it.' : 'Please note that you are NOT provided with the actual image, but the textual instructions and any accompanying text content for the task are given below.'} Evaluate the report based on how well it addresses these requirements.
 
       Task 1 Instructions:
       "${task.instruction}"
@@ -359,6 +356,8 @@ IMPORTANT: Write your feedback as a teacher speaking directly to the student. Us
     Minimum Word Limit: ${task.word_limit_min}
     ${task.word_limit_max ? `Maximum Word Limit: ${task.word_limit_max}` : ''}
 
+    ${revisionSection}
+
     Provide your evaluation focusing on the following IELTS criteria. For each criterion, give a band score (from 0 to 9, in 0.5 increments), identify strengths, point out weaknesses, and offer specific suggestions for improvement. Address the student directly using "you" and "your".
     
     **When providing strengths, weaknesses, and suggestions, use markdown for emphasis:**
@@ -367,7 +366,7 @@ IMPORTANT: Write your feedback as a teacher speaking directly to the student. Us
 
     1.  **Task Achievement/Response**:
         -   **Band**: [0-9, in 0.5 increments]
-        -   **Strengths**: What you did well in addressing the task, presenting an overview, and supporting main features.
+        -   **Strengths**: What you did well in addressing the task, ${isLetter ? 'making your purpose clear, covering every bullet point and keeping a suitable tone' : 'presenting an overview, and supporting main features'}.
         -   **Weaknesses**: Areas where you could improve in fully addressing the task requirements.
         -   **Suggestions for Improvement**: Actionable advice to enhance your task achievement.
     2.  **Coherence and Cohesion**:
@@ -388,6 +387,8 @@ IMPORTANT: Write your feedback as a teacher speaking directly to the student. Us
     5.  **Overall Suggestions for Improvement**: Offer general actionable advice and strategies you can use to improve your writing for future IELTS tests.
 
     Also, provide an **Overall Band Score** (from 0 to 9, in 0.5 increments).
+
+    ${buildAnnotationInstructions()}
     
     Format your response as a JSON object with the following structure:
     {
@@ -417,113 +418,47 @@ IMPORTANT: Write your feedback as a teacher speaking directly to the student. Us
           "weaknesses": string,
           "suggestions_for_improvement": string
         },
-        "overall_suggestions": string
+        "overall_suggestions": string,
+        "annotations": [
+          { "quote": string, "occurrence": number, "category": string, "correction": string, "explanation": string, "criterion": string }
+        ]
       }
     }
     
-    Ensure your response is ONLY the JSON object, with no additional text or markdown formatting outside of the JSON itself.
-    (Using model: ${modelName})`; // Added model name to prompt for debugging/context
-
-      try {
-        // Build the request body with optional image for Task 1
-        const parts: any[] = [{ text: prompt }];
-        
-        // Include image for vision-enabled evaluation if available
-        if (imageBase64 && task.task_type === 'task1') {
-          // Determine image mime type (default to png)
-          let mimeType = 'image/png';
-          if (task.image_url?.includes('.jpg') || task.image_url?.includes('.jpeg')) {
-            mimeType = 'image/jpeg';
-          } else if (task.image_url?.includes('.gif')) {
-            mimeType = 'image/gif';
-          } else if (task.image_url?.includes('.webp')) {
-            mimeType = 'image/webp';
-          }
-          
-          parts.push({
-            inline_data: {
-              mime_type: mimeType,
-              data: imageBase64
-            }
-          });
-          console.log(`Including image in request (${mimeType})`);
-        }
-
-        const geminiResponse = await fetch(GEMINI_API_URL, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            contents: [{ parts }],
-          }),
-        });
-
-        const responseTimeMs = Date.now() - startTime;
-
-        if (geminiResponse.ok) {
-          const geminiData = await geminiResponse.json();
-          const content = geminiData.candidates?.[0]?.content?.parts?.[0]?.text;
-          if (content) {
-            responseText = content;
-            usedModel = modelName;
-            // Log success
-            await logModelPerformance(serviceClient, modelName, 'success', responseTimeMs);
-            break; // Exit loop on successful response with content
-          } else {
-            console.warn(`Model ${modelName} returned OK but no content. Trying next model.`);
-            await logModelPerformance(serviceClient, modelName, 'error', responseTimeMs, 'Empty response');
-          }
-        } else {
-          const errorText = await geminiResponse.text();
-          console.error(`Gemini API error with model ${modelName} (Status: ${geminiResponse.status}): ${errorText}`);
-
-          // Determine if quota error
-          const isQuota = geminiResponse.status === 429 || 
-            errorText.toLowerCase().includes('quota') || 
-            errorText.toLowerCase().includes('resource_exhausted');
-
-          // Log error or quota_exceeded
-          await logModelPerformance(
-            serviceClient, 
-            modelName, 
-            isQuota ? 'quota_exceeded' : 'error',
-            responseTimeMs,
-            errorText.slice(0, 200)
-          );
-
-          // Check for recoverable errors: rate limit (429), server errors (5xx), or specific messages
-          const isRecoverableError = 
-            geminiResponse.status === 429 || 
-            (geminiResponse.status >= 500 && geminiResponse.status < 600) || // 5xx server errors
-            errorText.includes('rate limit') || 
-            errorText.includes('overloaded') || 
-            errorText.includes('model not found') || 
-            errorText.includes('invalid model');
-
-          if (isRecoverableError) {
-            console.log(`Recoverable error with model ${modelName}. Trying next model.`);
-            continue; // Try next model
-          } else {
-            // Non-recoverable error, throw it
-            throw new Error(`Gemini API error with model ${modelName}: ${geminiResponse.status} - ${errorText}`);
-          }
-        }
-      } catch (fetchError: any) {
-        const responseTimeMs = Date.now() - startTime;
-        console.error(`Fetch error with model ${modelName}:`, fetchError.message);
-        await logModelPerformance(serviceClient, modelName, 'error', responseTimeMs, fetchError.message);
-        // Network error or other fetch-related issue, try next model
-        continue;
+    Ensure your response is ONLY the JSON object, with no additional text or markdown formatting outside of the JSON itself.`;
+
+    // Include the Task 1 image for vision-enabled evaluation if available
+    const images: LLMImage[] = [];
+    if (imageBase64 && task.task_type === 'task1') {
+      // Determine image mime type (default to png)
+      let mimeType = 'image/png';
+      if (task.image_url?.includes('.jpg') || task.image_url?.includes('.jpeg')) {
+        mimeType = 'image/jpeg';
+      } else if (task.image_url?.includes('.gif')) {
+        mimeType = 'image/gif';
+      } else if (task.image_url?.includes('.webp')) {
+        mimeType = 'image/webp';
       }
+      images.push({ mimeType, data: imageBase64 });
+      console.log(`Including image in request (${mimeType})`);
     }
 
-    if (!responseText || !usedModel) {
+    let responseText: string;
+    try {
+      const reply = await callLLM(
+        // Pro models spend part of the budget on thinking before the report
+        { taskType: 'evaluate_writing', prompt, images, maxTokens: 16384 },
+        [geminiTarget(geminiApiKey, GEMINI_MODELS_FALLBACK_ORDER)],
+        { serviceClient, logPrefix: 'evaluate-writing-submission' },
+      );
+      responseText = reply.text;
+      console.log(`Successfully received response from model: ${reply.model}`);
+    } catch (llmError) {
+      if (!(llmError instanceof LLMGatewayError)) throw llmError;
+      console.error('Writing evaluation failed on every model:', llmError.message);
       throw new Error('All Gemini models failed to provide a valid response after multiple attempts.');
     }
 
-    console.log(`Successfully received response from model: ${usedModel}`);
-
     let evaluationReport: any;
     let overallBand: number | null = null;
 
@@ -536,6 +471,12 @@ IMPORTANT: Write your feedback as a teacher speaking directly to the student. Us
       const parsedResponse = JSON.parse(responseText);
       overallBand = parsedResponse.overall_band;
       evaluationReport = parsedResponse.evaluation_report;
+      if (evaluationReport && typeof evaluationReport === 'object') {
+        evaluationReport.annotations = resolveWritingAnnotations(submission.submission_text, evaluationReport.annotations);
+        const revisionReview = revisionSection ? parseRevisionReview(evaluationReport.revision_review) : null;
+        if (revisionReview) evaluationReport.revision_review = revisionReview;
+        else delete evaluationReport.revision_review;
+      }
     } catch (parseError) {
       console.error('Failed to parse Gemini JSON response:', parseError);
       // Fallback: If Gemini doesn't return perfect JSON, try to extract what we can
@@ -575,7 +516,7 @@ IMPORTANT: Write your feedback as a teacher speaking directly to the student. Us
 
       const { data: userSubmissionsForTest, error: userSubmissionsError } = await supabaseClient
         .from('writing_submissions')
-        .select('id, submitted_at')
+        .select('id, submitted_at, revision_of')
         .eq('user_id', user.id)
         .in('task_id', allTaskIdsForTest)
         .order('submitted_at', { ascending: false }); // Newest first
@@ -583,9 +524,18 @@ IMPORTANT: Write your feedback as a teacher speaking directly to the student. Us
       if (userSubmissionsError) {
         console.error('Error fetching user submissions for cleanup:', userSubmissionsError);
       } else if (userSubmissionsForTest) {
+        // Versions in a revision chain are kept so the report can compare them
+        const chainedIds = new Set<string>();
+        userSubmissionsForTest.forEach(sub => {
+          if (sub.revision_of) {
+            chainedIds.add(sub.id);
+            chainedIds.add(sub.revision_of);
+          }
+        });
+
         // Group submissions by their submitted_at timestamp to identify unique attempts
         const attemptsMap = new Map<string, string[]>(); // submitted_at -> [submission_ids]
-        userSubmissionsForTest.forEach(sub => {
+        userSubmissionsForTest.filter(sub => !chainedIds.has(sub.id)).forEach(sub => {
           const submittedAt = sub.submitted_at || 'unknown';
           if (!attemptsMap.has(submittedAt)) {
             attemptsMap.set(submittedAt, []);
@@ -1,35 +1,19 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import {
+  callLLM,
+  geminiTarget,
+  LLMGatewayError,
+  loadConfiguredTargets,
+  type LLMTarget,
+} from "../_shared/llmGateway.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Performance logging - logs AI calls to model_performance_logs table
-async function logModelPerformance(
-  serviceClient: any,
-  modelName: string,
-  status: 'success' | 'error' | 'quota_exceeded',
-  responseTimeMs?: number,
-  errorMessage?: string
-): Promise<void> {
-  try {
-    await serviceClient.rpc('log_model_performance', {
-      p_api_key_id: null,
-      p_model_name: modelName,
-      p_task_type: 'explain',
-      p_status: status,
-      p_response_time_ms: responseTimeMs || null,
-      p_error_message: errorMessage?.slice(0, 500) || null,
-    });
-    console.log(`[PerformanceLog] ${status} for ${modelName} (explain)`);
-  } catch (err) {
-    console.warn('[PerformanceLog] Failed to log:', err);
-  }
-}
-
 // Decrypt user's Gemini API key
 async function decryptApiKey(encryptedValue: string, encryptionKey: string): Promise<string> {
   const encoder = new TextEncoder();
@@ -66,59 +50,20 @@ const GEMINI_MODELS = [
   'gemini-2.0-flash',
 ];
 
-async function callGemini(apiKey: string, prompt: string, serviceClient?: any): Promise<string | null> {
-  for (const model of GEMINI_MODELS) {
-    const startTime = Date.now();
-    try {
-      console.log(`Trying Gemini model: ${model}`);
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: prompt }] }],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 2048,
-            },
-          }),
-        }
-      );
-
-      const responseTimeMs = Date.now() - startTime;
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        const errorText = JSON.stringify(errorData);
-        console.error(`Gemini ${model} failed:`, errorText);
-        
-        const isQuota = response.status === 429 || errorText.toLowerCase().includes('quota');
-        if (serviceClient) {
-          await logModelPerformance(serviceClient, model, isQuota ? 'quota_exceeded' : 'error', responseTimeMs, errorText.slice(0, 200));
-        }
-        continue;
-      }
-
-      const data = await response.json();
-      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (text) {
-        console.log(`Success with ${model}`);
-        if (serviceClient) {
-          await logModelPerformance(serviceClient, model, 'success', responseTimeMs);
-        }
-        return text;
-      }
-    } catch (err) {
-      const responseTimeMs = Date.now() - startTime;
-      console.error(`Error with ${model}:`, err);
-      if (serviceClient) {
-        await logModelPerformance(serviceClient, model, 'error', responseTimeMs, err instanceof Error ? err.message : String(err));
-      }
-      continue;
-    }
+async function callTutor(targets: LLMTarget[], prompt: string, serviceClient: SupabaseClient): Promise<string | null> {
+  try {
+    const reply = await callLLM(
+      { taskType: 'explain', prompt, temperature: 0.7, maxTokens: 2048 },
+      targets,
+      { serviceClient, logPrefix: 'explain-answer-followup' },
+    );
+    console.log(`Success with ${reply.provider}/${reply.model}`);
+    return reply.text;
+  } catch (err) {
+    if (!(err instanceof LLMGatewayError)) throw err;
+    console.error('[explain-answer-followup]', err.message);
+    return null;
   }
-  return null;
 }
 
 serve(async (req) => {
@@ -237,7 +182,11 @@ First, evaluate if the student's message is meaningful and related to the questi
 
 Respond naturally as their personal tutor. Be encouraging, specific, and reference the actual ${context.module === 'listening' ? 'transcript' : 'passage'} content when helpful. Keep it conversational - 2-4 short paragraphs unless they need more detail.`;
 
-    const result = await callGemini(geminiApiKey, prompt, serviceClient);
+    const targets = [
+      geminiTarget(geminiApiKey, GEMINI_MODELS),
+      ...(await loadConfiguredTargets(serviceClient, 'explain', { excludeProviders: ['gemini'] })),
+    ];
+    const result = await callTutor(targets, prompt, serviceClient);
     
     if (!result) {
       return new Response(JSON.stringify({ error: 'Failed to generate response' }), {
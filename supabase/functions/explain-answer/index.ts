@@ -1,35 +1,20 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import {
+  callLLM,
+  geminiTarget,
+  groqTarget,
+  LLMGatewayError,
+  loadConfiguredTargets,
+  type LLMTarget,
+} from "../_shared/llmGateway.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Performance logging - logs AI calls to model_performance_logs table
-async function logModelPerformance(
-  serviceClient: any,
-  modelName: string,
-  status: 'success' | 'error' | 'quota_exceeded',
-  responseTimeMs?: number,
-  errorMessage?: string
-): Promise<void> {
-  try {
-    await serviceClient.rpc('log_model_performance', {
-      p_api_key_id: null,
-      p_model_name: modelName,
-      p_task_type: 'explain',
-      p_status: status,
-      p_response_time_ms: responseTimeMs || null,
-      p_error_message: errorMessage?.slice(0, 500) || null,
-    });
-    console.log(`[PerformanceLog] ${status} for ${modelName} (explain)`);
-  } catch (err) {
-    console.warn('[PerformanceLog] Failed to log:', err);
-  }
-}
-
 // Decrypt user's Gemini API key
 async function decryptApiKey(encryptedValue: string, encryptionKey: string): Promise<string> {
   const encoder = new TextEncoder();
@@ -68,8 +53,6 @@ const GROQ_EXPLAIN_MODELS = [
   'openai/gpt-oss-20b',       // Fallback: 1000 T/s, 250K TPM - very fast
 ];
 
-const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
-
 // Gemini fallback models (if Groq fails entirely)
 const GEMINI_MODELS = [
   'gemini-2.0-flash-lite-preview-02-05', // Fast Gemini fallback
@@ -77,152 +60,27 @@ const GEMINI_MODELS = [
   'gemini-2.0-flash',
 ];
 
-async function callGroqExplain(
-  apiKey: string,
+// One gateway call across the given targets; null when every one failed
+async function callExplain(
+  targets: LLMTarget[],
   systemPrompt: string,
   userPrompt: string,
-  serviceClient?: any
+  serviceClient: SupabaseClient
 ): Promise<string | null> {
-  for (const model of GROQ_EXPLAIN_MODELS) {
-    const startTime = Date.now();
-    try {
-      console.log(`[explain-answer] Trying Groq model: ${model}`);
-      const response = await fetch(GROQ_API_URL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: model,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt },
-          ],
-          temperature: 0.7,
-          max_tokens: 2048,
-        }),
-      });
-
-      const responseTimeMs = Date.now() - startTime;
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`[explain-answer] Groq ${model} failed with status ${response.status}`);
-        
-        const isQuota = response.status === 429;
-        if (serviceClient) {
-          await logModelPerformance(
-            serviceClient, 
-            model, 
-            isQuota ? 'quota_exceeded' : 'error',
-            responseTimeMs,
-            errorText.slice(0, 200)
-          );
-        }
-        continue;
-      }
-
-      const data = await response.json();
-      const text = data.choices?.[0]?.message?.content;
-      if (text) {
-        if (serviceClient) {
-          await logModelPerformance(serviceClient, model, 'success', responseTimeMs);
-        }
-        console.log(`[explain-answer] Success with Groq ${model} in ${responseTimeMs}ms`);
-        return text;
-      }
-    } catch (err) {
-      const responseTimeMs = Date.now() - startTime;
-      console.error(`[explain-answer] Error with ${model}:`, err);
-      if (serviceClient) {
-        await logModelPerformance(
-          serviceClient, 
-          model, 
-          'error',
-          responseTimeMs,
-          err instanceof Error ? err.message : String(err)
-        );
-      }
-      continue;
-    }
-  }
-  return null;
-}
-
-async function callGemini(
-  apiKey: string, 
-  systemPrompt: string, 
-  userPrompt: string,
-  serviceClient?: any
-): Promise<string | null> {
-  for (const model of GEMINI_MODELS) {
-    const startTime = Date.now();
-    try {
-      console.log(`[explain-answer] Trying Gemini model: ${model}`);
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [
-              { role: 'user', parts: [{ text: `${systemPrompt}\n\n${userPrompt}` }] }
-            ],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 2048,
-            },
-          }),
-        }
-      );
-
-      const responseTimeMs = Date.now() - startTime;
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`[explain-answer] Gemini ${model} failed with status ${response.status}`);
-        
-        const isQuota = response.status === 429 || 
-          errorText.toLowerCase().includes('quota') || 
-          errorText.toLowerCase().includes('resource_exhausted');
-        
-        if (serviceClient) {
-          await logModelPerformance(
-            serviceClient, 
-            model, 
-            isQuota ? 'quota_exceeded' : 'error',
-            responseTimeMs,
-            errorText.slice(0, 200)
-          );
-        }
-        continue;
-      }
-
-      const data = await response.json();
-      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (text) {
-        if (serviceClient) {
-          await logModelPerformance(serviceClient, model, 'success', responseTimeMs);
-        }
-        return text;
-      }
-    } catch (err) {
-      const responseTimeMs = Date.now() - startTime;
-      console.error(`[explain-answer] Error with ${model}:`, err);
-      if (serviceClient) {
-        await logModelPerformance(
-          serviceClient, 
-          model, 
-          'error',
-          responseTimeMs,
-          err instanceof Error ? err.message : String(err)
-        );
-      }
-      continue;
-    }
+  if (targets.length === 0) return null;
+  try {
+    const reply = await callLLM(
+      { taskType: 'explain', system: systemPrompt, prompt: userPrompt, temperature: 0.7, maxTokens: 2048 },
+      targets,
+      { serviceClient, logPrefix: 'explain-answer' },
+    );
+    console.log(`[explain-answer] Success with ${reply.provider}/${reply.model} in ${reply.responseTimeMs}ms`);
+    return reply.text;
+  } catch (err) {
+    if (!(err instanceof LLMGatewayError)) throw err;
+    console.error('[explain-answer]', err.message);
+    return null;
   }
-  return null;
 }
 
 serve(async (req) => {
@@ -356,19 +214,20 @@ Please explain ${isCorrect ? 'why this answer is correct and what concept it dem
     // Strategy: Try Groq with system keys first (fast, high quota), then fall back to user's Gemini
     let explanation: string | null = null;
     
-    // 1. Try Groq with system API keys (preferred - fast & high quota)
+    // 1. Try Groq with system API keys (preferred - fast & high quota), then any configured provider
     const { data: groqKeyData } = await serviceClient
       .from('api_keys')
-      .select('key_value')
+      .select('id, key_value')
       .eq('provider', 'groq')
       .eq('is_active', true)
       .limit(1)
       .maybeSingle();
     
-    if (groqKeyData?.key_value) {
-      console.log("[explain-answer] Trying Groq with system key...");
-      explanation = await callGroqExplain(groqKeyData.key_value, systemPrompt, userPrompt, serviceClient);
-    }
+    const systemTargets = [
+      ...(groqKeyData?.key_value ? [groqTarget(groqKeyData.key_value, GROQ_EXPLAIN_MODELS, groqKeyData.id)] : []),
+      ...(await loadConfiguredTargets(serviceClient, 'explain', { excludeProviders: ['gemini', 'groq'] })),
+    ];
+    explanation = await callExplain(systemTargets, systemPrompt, userPrompt, serviceClient);
     
     // 2. Fall back to user's Gemini key if Groq failed
     if (!explanation) {
@@ -397,7 +256,7 @@ Please explain ${isCorrect ? 'why this answer is correct and what concept it dem
       }
 
       const geminiApiKey = await decryptApiKey(secretData.encrypted_value, appEncryptionKey);
-      explanation = await callGemini(geminiApiKey, systemPrompt, userPrompt, serviceClient);
+      explanation = await callExplain([geminiTarget(geminiApiKey, GEMINI_MODELS)], systemPrompt, userPrompt, serviceClient);
     }
     
     if (!explanation) {
@@ -1,11 +1,25 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
 import { encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
-import { 
-  createPerformanceLogger,
-  classifyGeminiErrorStatus
-} from "../_shared/performanceLogger.ts";
+import {
+  callLLM,
+  callLLMWithSchema,
+  geminiTarget,
+  LLMGatewayError,
+  loadConfiguredTargets,
+  repairStructuredOutput,
+  type LLMCallOptions,
+  type LLMTarget,
+} from "../_shared/llmGateway.ts";
+import {
+  GENERATED_LISTENING_SCHEMA,
+  GENERATED_READING_SCHEMA,
+  GENERATED_SPEAKING_SCHEMA,
+  GENERATED_WRITING_TASK_SCHEMA,
+  validateOutput,
+  type OutputSchema,
+} from "../_shared/outputSchemas.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -487,13 +501,56 @@ async function waitWithBackoff(attempt: number, baseDelayMs: number = 1000): Pro
   await new Promise(resolve => setTimeout(resolve, delay));
 }
 
-// Simple sleep utility to prevent rate limiting between API calls
-async function sleep(ms: number): Promise<void> {
-  console.log(`Rate limit cooldown: waiting ${ms}ms...`);
-  await new Promise(resolve => setTimeout(resolve, ms));
+// DB keys in rotation order (or the single caller-supplied key), then any configured fallback provider
+async function generationTargets(
+  apiKey: string,
+  dbKeys: ApiKeyRecord[],
+  serviceClient?: LLMCallOptions['serviceClient'],
+): Promise<LLMTarget[]> {
+  return [
+    ...(dbKeys.length > 0
+      ? dbKeys.map((key) => geminiTarget(key.key_value, GEMINI_MODELS, key.id))
+      : [geminiTarget(apiKey, GEMINI_MODELS)]),
+    ...(serviceClient ? await loadConfiguredTargets(serviceClient, 'generate', { excludeProviders: ['gemini'] }) : []),
+  ];
+}
+
+// Gateway options for generation calls: cool down or flag pool keys as they fail
+function generationCallOptions(
+  keyCount: number,
+  transientRetries: number,
+  serviceClient?: SupabaseClient,
+): LLMCallOptions {
+  return {
+    serviceClient,
+    logPrefix: 'generate-ai-practice',
+    policy: {
+      onRateLimit: 'next_target',
+      transientRetries,
+      // Single key: a per-minute limit is worth waiting out
+      rateLimitWaitMs: keyCount <= 1 ? 45000 : 0,
+    },
+    onFailure: async (target, failure) => {
+      if (!serviceClient || !target.keyId) return;
+      if (failure.kind === 'quota') {
+        await markModelQuotaExhaustedForGeneration(serviceClient, target.keyId, failure.model);
+      } else if (failure.kind === 'rate_limit') {
+        // mark_key_rate_limited uses minutes, so 1 minute is the minimum
+        await serviceClient.rpc('mark_key_rate_limited', {
+          p_key_id: target.keyId,
+          p_cooldown_minutes: 1,
+        });
+      } else if (failure.kind === 'invalid_key') {
+        await incrementKeyErrorCount(serviceClient, target.keyId, true);
+      }
+    },
+    onSuccess: async (target) => {
+      if (serviceClient && target.keyId) await resetKeyErrorCount(serviceClient, target.keyId);
+    },
+  };
 }
 
-// Enhanced callGemini with DB key rotation support and performance logging
+// callGemini via the shared LLM gateway, with DB key rotation and performance logging
 // If dbKeys array is provided, will rotate through them on 429/403 errors
 async function callGemini(
   apiKey: string, 
@@ -509,224 +566,134 @@ async function callGemini(
   lastTokensUsed = 0;
   isQuotaExceeded = false;
   
-  // Create performance logger for this task
-  const perfLogger = createPerformanceLogger('generate');
-  
   const dbKeys = options?.dbKeys || [];
   const serviceClient = options?.serviceClient;
-  let currentKeyIndex = options?.currentKeyIndex || 0;
-  let currentApiKey = apiKey;
-  let currentKeyRecord: ApiKeyRecord | null = null;
-  
-  // If we have DB keys, use the first one
-  if (dbKeys.length > 0 && currentKeyIndex < dbKeys.length) {
-    currentKeyRecord = dbKeys[currentKeyIndex];
-    currentApiKey = currentKeyRecord.key_value;
-    console.log(`Using DB-managed key ${currentKeyIndex + 1}/${dbKeys.length}`);
-  }
-  
-  for (const model of GEMINI_MODELS) {
-    let retryCount = 0;
-    const modelCallStart = Date.now();
-    
-    while (retryCount <= maxRetries) {
-      try {
-        console.log(`Trying Gemini model: ${model}${retryCount > 0 ? ` (retry ${retryCount})` : ''}`);
-        const response = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${currentApiKey}`,
-          {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                contents: [{ parts: [{ text: prompt }] }],
-                generationConfig: {
-                  temperature: 0.7,
-                  maxOutputTokens: 8192,
-                  // Strongly encourages the model to return valid JSON (prevents "[A] ..." non-JSON output)
-                  responseMimeType: 'application/json',
-                },
-              }),
-          }
-        );
+  const currentKeyIndex = options?.currentKeyIndex || 0;
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          console.error(`Gemini ${model} failed:`, JSON.stringify(errorData));
-          
-          // Parse error message for user-friendly display
-          const errorMessage = errorData?.error?.message || '';
-          const errorStatus = errorData?.error?.status || '';
-          
-          if (response.status === 429 || errorStatus === 'RESOURCE_EXHAUSTED') {
-            // Check if this is a DAILY quota exhaustion (not just per-minute rate limit)
-            const isDailyQuota = 
-              errorMessage.toLowerCase().includes('check your plan') ||
-              errorMessage.toLowerCase().includes('billing') ||
-              errorMessage.toLowerCase().includes('daily') ||
-              errorMessage.toLowerCase().includes('per day') ||
-              (errorMessage.toLowerCase().includes('quota') && !errorMessage.toLowerCase().includes('per minute'));
-            
-            // Log quota exceeded
-            const modelCallEnd = Date.now() - modelCallStart;
-            await perfLogger.logQuotaExceeded(model, errorMessage.slice(0, 200), currentKeyRecord?.id);
-            
-            // Apply cooldown/exhaustion before switching keys
-            if (serviceClient && currentKeyRecord) {
-              if (isDailyQuota) {
-                // Daily quota exhaustion - mark model exhausted for this key
-                console.log(`Key ${currentKeyIndex + 1} DAILY QUOTA EXHAUSTED on ${model}, marking exhausted...`);
-                await markModelQuotaExhaustedForGeneration(serviceClient, currentKeyRecord.id, model);
-              } else {
-                // Rate limit (429/TPM/RPM) - apply 45s cooldown
-                console.log(`Key ${currentKeyIndex + 1} rate limited on ${model}, applying 45s cooldown...`);
-                // Note: mark_key_rate_limited uses minutes, so 1 minute is the minimum
-                // The actual cooldown logic handles 45s waits for single-key scenarios
-                await serviceClient.rpc('mark_key_rate_limited', {
-                  p_key_id: currentKeyRecord.id,
-                  p_cooldown_minutes: 1, // ~45-60 seconds
-                });
-              }
-            }
-            
-            // Key rotation: try next DB key if available
-            if (dbKeys.length > 0 && currentKeyIndex < dbKeys.length - 1) {
-              console.log(`Rotating to next key after ${isDailyQuota ? 'quota exhaustion' : 'rate limit'}...`);
-              currentKeyIndex++;
-              currentKeyRecord = dbKeys[currentKeyIndex];
-              currentApiKey = currentKeyRecord.key_value;
-              console.log(`Switched to DB key ${currentKeyIndex + 1}/${dbKeys.length}`);
-              retryCount = 0; // Reset retry count for new key
-              continue;
-            }
-            
-            // SINGLE KEY SCENARIO or all keys exhausted:
-            // If only one key available and rate limited (not daily exhausted), wait 45s and retry
-            if (!isDailyQuota && (dbKeys.length <= 1) && retryCount < maxRetries) {
-              console.log(`Single key scenario: rate limited, waiting 45s before retry...`);
-              await sleep(45000); // Wait 45 seconds for rate limit to reset
-              retryCount++;
-              continue;
-            }
-            
-            // Check if it's a rate limit that might recover with waiting (no DB keys case)
-            if (retryCount < maxRetries && !isDailyQuota && dbKeys.length === 0) {
-              console.log(`Rate limit hit on ${model}, will retry after backoff...`);
-              await waitWithBackoff(retryCount);
-              retryCount++;
-              continue;
-            }
-            
-            // All retries and keys exhausted - mark all keys as exhausted for this model
-            if (isDailyQuota && serviceClient && dbKeys.length > 0) {
-              for (const key of dbKeys) {
-                await markModelQuotaExhaustedForGeneration(serviceClient, key.id, model);
-              }
-            }
-            
-            // All retries and keys exhausted
-            isQuotaExceeded = true;
-            lastGeminiError = isDailyQuota 
-              ? 'QUOTA_EXCEEDED: All API keys have exhausted their daily quota. Please try again tomorrow or add your own Gemini API key in Settings.'
-              : 'QUOTA_EXCEEDED: All API keys have reached their rate limit. Please wait a few minutes and try again.';
-            break;
-          } else if (response.status === 403 || errorStatus === 'PERMISSION_DENIED') {
-            // Key is invalid - try next DB key
-            const modelCallEnd = Date.now() - modelCallStart;
-            await perfLogger.logError(model, 'Permission denied', modelCallEnd, currentKeyRecord?.id);
-            
-            if (dbKeys.length > 0 && currentKeyIndex < dbKeys.length - 1) {
-              console.log(`Key ${currentKeyIndex + 1} permission denied, rotating to next key...`);
-              
-              // Deactivate this key
-              if (serviceClient && currentKeyRecord) {
-                await incrementKeyErrorCount(serviceClient, currentKeyRecord.id, true);
-              }
-              
-              currentKeyIndex++;
-              currentKeyRecord = dbKeys[currentKeyIndex];
-              currentApiKey = currentKeyRecord.key_value;
-              retryCount = 0;
-              continue;
-            }
-            
-            lastGeminiError = 'API access denied. Please verify your Gemini API key is valid and has the correct permissions.';
-            break;
-          } else if (response.status === 400) {
-            const modelCallEnd = Date.now() - modelCallStart;
-            await perfLogger.logError(model, 'Invalid request', modelCallEnd, currentKeyRecord?.id);
-            lastGeminiError = 'Invalid request to AI. The generation request was rejected. Please try again with different settings.';
-            break;
-          } else if (response.status >= 500) {
-            if (retryCount < maxRetries) {
-              console.log(`Server error on ${model}, will retry after backoff...`);
-              await waitWithBackoff(retryCount);
-              retryCount++;
-              continue;
-            }
-            const modelCallEnd = Date.now() - modelCallStart;
-            await perfLogger.logError(model, `Server error ${response.status}: ${errorMessage.slice(0, 100)}`, modelCallEnd, currentKeyRecord?.id);
-            lastGeminiError = `AI service error (${response.status}): ${errorMessage.slice(0, 100)}`;
-          } else {
-            lastGeminiError = `AI service error (${response.status}): ${errorMessage.slice(0, 100)}`;
-          }
-          break;
-        }
+  const targets = await generationTargets(apiKey, dbKeys.slice(currentKeyIndex), serviceClient);
 
-        const data = await response.json();
-        
-        // Extract token usage from response metadata
-        const usageMetadata = data.usageMetadata;
-        if (usageMetadata) {
-          const promptTokens = usageMetadata.promptTokenCount || 0;
-          const candidateTokens = usageMetadata.candidatesTokenCount || 0;
-          lastTokensUsed = promptTokens + candidateTokens;
-          console.log(`Token usage - Prompt: ${promptTokens}, Output: ${candidateTokens}, Total: ${lastTokensUsed}`);
-        }
-        
-        const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-        if (text) {
-          console.log(`Success with ${model}`);
-          
-          // Log successful performance
-          const modelCallEnd = Date.now() - modelCallStart;
-          await perfLogger.logSuccess(model, modelCallEnd, currentKeyRecord?.id);
-          
-          // Reset error count on success
-          if (serviceClient && currentKeyRecord) {
-            await resetKeyErrorCount(serviceClient, currentKeyRecord.id);
-          }
-          
-          return text;
-        } else {
-          const finishReason = data.candidates?.[0]?.finishReason;
-          const modelCallEnd = Date.now() - modelCallStart;
-          if (finishReason === 'SAFETY') {
-            await perfLogger.logError(model, 'Content filtered by safety settings', modelCallEnd, currentKeyRecord?.id);
-            lastGeminiError = 'Content was filtered by safety settings. Please try a different topic.';
-          } else {
-            await perfLogger.logError(model, 'Empty response from AI', modelCallEnd, currentKeyRecord?.id);
-            lastGeminiError = 'AI returned empty response. Please try again.';
-          }
-        }
-        break;
-      } catch (err) {
-        console.error(`Error with ${model}:`, err);
-        const modelCallEnd = Date.now() - modelCallStart;
-        await perfLogger.logError(model, err instanceof Error ? err.message : 'Unknown error', modelCallEnd, currentKeyRecord?.id);
-        
-        if (retryCount < maxRetries) {
-          console.log(`Connection error on ${model}, will retry after backoff...`);
-          await waitWithBackoff(retryCount);
-          retryCount++;
-          continue;
-        }
-        
-        lastGeminiError = `Connection error: Unable to reach AI service. Please check your internet connection and try again.`;
-        break;
-      }
+  try {
+    const reply = await callLLM(
+      { taskType: 'generate', prompt, json: true, temperature: 0.7, maxTokens: 8192 },
+      targets,
+      generationCallOptions(dbKeys.length, maxRetries, serviceClient),
+    );
+
+    if (reply.usage) {
+      lastTokensUsed = reply.usage.promptTokens + reply.usage.completionTokens;
+      console.log(`Token usage - Prompt: ${reply.usage.promptTokens}, Output: ${reply.usage.completionTokens}, Total: ${lastTokensUsed}`);
     }
+    return reply.text;
+  } catch (error) {
+    if (!(error instanceof LLMGatewayError)) throw error;
+    lastGeminiError = describeGenerationFailure(error);
+    isQuotaExceeded = error.quotaExceeded;
+    return null;
   }
-  return null;
+}
+
+// User-facing message for the failure that ended the key/model chain
+function describeGenerationFailure(error: LLMGatewayError): string {
+  if (error.quotaExceeded) {
+    return error.has('quota')
+      ? 'QUOTA_EXCEEDED: All API keys have exhausted their daily quota. Please try again tomorrow or add your own Gemini API key in Settings.'
+      : 'QUOTA_EXCEEDED: All API keys have reached their rate limit. Please wait a few minutes and try again.';
+  }
+
+  const last = error.failures[error.failures.length - 1];
+  switch (last?.kind) {
+    case 'invalid_key':
+      return 'API access denied. Please verify your Gemini API key is valid and has the correct permissions.';
+    case 'rejected':
+      return 'Invalid request to AI. The generation request was rejected. Please try again with different settings.';
+    case 'network':
+      return 'Connection error: Unable to reach AI service. Please check your internet connection and try again.';
+    case 'empty':
+      return last.message.includes('SAFETY')
+        ? 'Content was filtered by safety settings. Please try a different topic.'
+        : 'AI returned empty response. Please try again.';
+    case 'invalid_json':
+      return 'AI returned an incomplete response. Please try again.';
+    default:
+      return `AI service error (${last?.status ?? 'unknown'}): ${(last?.message ?? '').slice(0, 100)}`;
+  }
+}
+
+// Generation replies once their schema (outputSchemas.ts) has passed. The
+// schema guarantees the core fields; the rest depends on the question type
+// and is handed to the renderers as the model wrote it.
+interface GeneratedQuestionReply {
+  question_number?: number;
+  question_text?: string;
+  correct_answer: unknown;
+  explanation?: string;
+  options?: unknown[];
+  heading?: string;
+  max_answers?: number;
+}
+
+interface GeneratedGroupReply {
+  instruction?: string;
+  questions: GeneratedQuestionReply[];
+  options?: unknown[];
+  max_answers?: number;
+  headings?: unknown[];
+  summary_text?: string;
+  word_bank?: unknown[];
+  sentence_beginnings?: unknown[];
+  sentence_endings?: unknown[];
+  table_data?: unknown;
+  flowchart_title?: string;
+  flowchart_steps?: unknown[];
+  map_description?: string;
+  map_type?: string;
+  map_labels?: unknown[];
+  landmarks?: unknown[];
+  note_sections?: unknown[];
+}
+
+interface GeneratedReadingReply extends GeneratedGroupReply {
+  passage: { title?: string; content: string };
+}
+
+interface GeneratedListeningReply extends GeneratedGroupReply {
+  dialogue: string;
+  speaker_names?: { Speaker1?: string; Speaker2?: string };
+  drag_options?: string[];
+}
+
+interface GeneratedWritingTaskReply {
+  instruction: string;
+  visual_type?: string;
+  visual_description?: string;
+  visualData?: unknown;
+  bullet_points?: string[];
+  essay_type?: string;
+}
+
+interface GeneratedSpeakingReply {
+  topic?: string;
+  parts: unknown[];
+}
+
+// Check parsed generation output against its schema, with one repair round
+// on the same keys. Throws LLMSchemaError (or LLMGatewayError) if it stays invalid.
+async function conformGenerated<T = unknown>(
+  parsed: unknown,
+  schema: OutputSchema,
+  schemaName: string,
+  apiKey: string,
+  options: { dbKeys?: ApiKeyRecord[]; serviceClient?: LLMCallOptions['serviceClient'] },
+): Promise<T> {
+  const checked = validateOutput<T>(schema, parsed);
+  if (checked.valid) return checked.value;
+
+  const targets = await generationTargets(apiKey, options.dbKeys || [], options.serviceClient);
+  const { value } = await repairStructuredOutput<T>(parsed, schema, schemaName, checked.issues, 'generate', targets, {
+    serviceClient: options.serviceClient,
+    logPrefix: 'generate-ai-practice',
+  });
+  return value;
 }
 
 // Save test to test_presets bank
@@ -1415,8 +1382,32 @@ interface ReadingConfig {
   paragraphCount?: number;
   wordCount?: number;
   useWordCountMode?: boolean;
+  testModule?: 'academic' | 'general';
+  gtSection?: 1 | 2 | 3; // General Training section structure (random when omitted)
 }
 
+// General Training Reading section structures (Academic uses a single long academic passage)
+const GT_READING_SECTIONS: Record<1 | 2 | 3, { title: string; structure: string }> = {
+  1: {
+    title: 'Section 1 - Social survival',
+    structure: `   - 3 to 5 SHORT, SEPARATE everyday texts (e.g. notices, advertisements, timetables, leaflets, hotel or course information)
+   - Each text is one labelled block [A], [B], [C], etc. with its own short heading on the first line
+   - Factual, practical information a person living in an English-speaking country would need`,
+  },
+  2: {
+    title: 'Section 2 - Workplace survival',
+    structure: `   - 2 or 3 work-related texts (e.g. job descriptions, staff handbooks, workplace policies, training or application guidance)
+   - Each text is split into labelled paragraphs [A], [B], [C], etc.; start each new text with a short heading
+   - Clear, semi-formal workplace register`,
+  },
+  3: {
+    title: 'Section 3 - General reading',
+    structure: `   - ONE longer text on a topic of general interest (e.g. from a magazine, newspaper or non-specialist book)
+   - Descriptive or instructive rather than argumentative academic writing
+   - Well-structured with clear paragraph labels [A], [B], etc.`,
+  },
+};
+
 // Listening configuration interface
 // Gemini free tier limits: ~15 min audio/day, keep each request to max ~2 min (70% of capacity)
 // ~150 words per minute of speech at normal pace
@@ -1464,8 +1455,8 @@ function getReadingPrompt(
     String.fromCharCode(65 + i) // A, B, C, ...
   );
   const labelList = paragraphLabels.map(l => `[${l}]`).join(', ');
-  
-  const basePrompt = `Generate an IELTS Academic Reading test with the following specifications:
+
+  const academicBasePrompt = `Generate an IELTS Academic Reading test with the following specifications:
 
 Topic: ${topic}
 Difficulty: ${difficulty} (${difficultyDesc})
@@ -1482,6 +1473,30 @@ Requirements:
 
 `;
 
+  // General Training swaps the single academic passage for one of the three GT section structures
+  let gtBasePrompt: string | null = null;
+  if (readingConfig?.testModule === 'general') {
+    const sectionNumber = readingConfig.gtSection ?? ((Math.floor(Math.random() * 3) + 1) as 1 | 2 | 3);
+    const section = GT_READING_SECTIONS[sectionNumber];
+    gtBasePrompt = `Generate an IELTS General Training Reading test (${section.title}) with the following specifications:
+
+Topic: ${topic}
+Difficulty: ${difficulty} (${difficultyDesc})
+
+Requirements:
+1. Create the reading material with these specifications:
+   - Total word count: approximately ${wordCount} words (strict: between ${wordCount - 50} and ${wordCount + 100} words)
+${section.structure}
+   - Use up to ${paragraphCount} labels in total (${labelList})
+   - Contains specific information that can be tested
+   - Appropriate for the ${difficulty} difficulty level
+   - Put the section name in the passage title, e.g. "${section.title}: <title>"
+
+`;
+  }
+
+  const basePrompt = gtBasePrompt ?? academicBasePrompt;
+
   switch (questionType) {
     case 'TRUE_FALSE_NOT_GIVEN':
     case 'YES_NO_NOT_GIVEN':
@@ -3278,21 +3293,10 @@ serve(async (req) => {
       let parsed;
       try {
         const jsonStr = extractJsonFromResponse(result);
-        parsed = JSON.parse(jsonStr);
-        
-        // Validate required fields
-        if (!parsed.passage || !parsed.passage.content) {
-          throw new Error('Missing passage content in AI response');
-        }
-        if (!Array.isArray(parsed.questions) || parsed.questions.length === 0) {
-          throw new Error('Missing or empty questions array in AI response');
-        }
-        // Validate each question has required fields
-        for (const q of parsed.questions) {
-          if (!q.correct_answer) {
-            throw new Error(`Question ${q.question_number || '?'} missing correct_answer`);
-          }
-        }
+        parsed = await conformGenerated<GeneratedReadingReply>(JSON.parse(jsonStr), GENERATED_READING_SCHEMA, 'reading test', geminiApiKey, {
+          dbKeys: dbApiKeys,
+          serviceClient,
+        });
       } catch (e) {
         console.error("Failed to parse/validate Gemini response:", e);
         // Refund credits on parse failure
@@ -3432,24 +3436,10 @@ serve(async (req) => {
       let parsed;
       try {
         const jsonStr = extractJsonFromResponse(result);
-        parsed = JSON.parse(jsonStr);
-        
-        // Validate required fields
-        if (!parsed.dialogue || typeof parsed.dialogue !== 'string' || parsed.dialogue.trim().length < 50) {
-          throw new Error('Missing or too short dialogue in AI response');
-        }
-        if (!Array.isArray(parsed.questions) || parsed.questions.length === 0) {
-          throw new Error('Missing or empty questions array in AI response');
-        }
-        if (!parsed.instruction || typeof parsed.instruction !== 'string') {
-          throw new Error('Missing instruction in AI response');
-        }
-        // Validate each question has required fields
-        for (const q of parsed.questions) {
-          if (!q.correct_answer) {
-            throw new Error(`Question ${q.question_number || '?'} missing correct_answer`);
-          }
-        }
+        parsed = await conformGenerated<GeneratedListeningReply>(JSON.parse(jsonStr), GENERATED_LISTENING_SCHEMA, 'listening test', geminiApiKey, {
+          dbKeys: dbApiKeys,
+          serviceClient,
+        });
         
         // MCMA-specific validation: must have options with at least 5 choices
         if (questionType === 'MULTIPLE_CHOICE_MULTIPLE') {
@@ -3778,6 +3768,8 @@ Return ONLY valid JSON:
       const taskType = writingConfig.taskType || questionType;
       const task1VisualType = writingConfig.task1VisualType || 'RANDOM';
       const task2EssayType = writingConfig.task2EssayType || 'RANDOM';
+      // General Training Task 1 is a letter rather than a chart/diagram report
+      const isGeneralTraining = writingConfig.testModule === 'general';
       
       const isFullTest = taskType === 'FULL_TEST';
       const includeTask1 = isFullTest || taskType === 'TASK_1';
@@ -3789,7 +3781,43 @@ Return ONLY valid JSON:
         const isTask1 = taskNum === 1;
         let writingPrompt: string;
         
-        if (isTask1) {
+        const isLetter = isTask1 && (visualType.startsWith('LETTER_') || (isGeneralTraining && visualType === 'RANDOM'));
+
+        if (isLetter) {
+          const letterTypeToUse = visualType.startsWith('LETTER_')
+            ? visualType
+            : ['LETTER_FORMAL', 'LETTER_SEMI_FORMAL', 'LETTER_INFORMAL'][Math.floor(Math.random() * 3)];
+
+          const letterGuide: Record<string, string> = {
+            LETTER_FORMAL: 'a FORMAL letter to someone the writer does not know (e.g. a company manager, a council officer, a customer service department). Opening: "Dear Sir or Madam,"',
+            LETTER_SEMI_FORMAL: 'a SEMI-FORMAL letter to someone the writer knows but not closely (e.g. a landlord, neighbour, colleague or teacher). Opening: "Dear Mr/Ms [Surname],"',
+            LETTER_INFORMAL: 'an INFORMAL letter to a friend or family member. Opening: "Dear [First name],"',
+          };
+
+          const letterUniquenessSeed = crypto.randomUUID().slice(0, 8);
+
+          writingPrompt = `Generate an IELTS General Training Writing Task 1 (letter).
+
+UNIQUENESS ID: ${letterUniquenessSeed} (Create a COMPLETELY UNIQUE situation each time)
+Topic: ${topic}
+Difficulty: ${difficulty}
+Letter Type: ${letterTypeToUse}
+
+CRITICAL INSTRUCTIONS:
+1. The situation must call for ${letterGuide[letterTypeToUse]}
+2. Give a realistic everyday situation in 1-2 sentences, then "Write a letter to [recipient]."
+3. Provide EXACTLY 3 bullet points the letter must cover (each starting with a verb, e.g. "explain", "describe", "say what you would like").
+4. End with: "Write at least 150 words. You do NOT need to write any addresses. Begin your letter as follows: Dear ...,"
+5. Do NOT include the bullet points inside the instruction text; return them separately.
+
+Return this EXACT JSON structure:
+{
+  "task_type": "task1",
+  "instruction": "[Situation]. Write a letter to [recipient]. Write at least 150 words. You do NOT need to write any addresses. Begin your letter as follows: Dear ...,",
+  "visual_type": "${letterTypeToUse}",
+  "bullet_points": ["first point", "second point", "third point"]
+}`;
+        } else if (isTask1) {
           const visualTypeToUse = visualType === 'RANDOM'
             ? ['BAR_CHART', 'LINE_GRAPH', 'PIE_CHART', 'TABLE', 'MIXED_CHARTS', 'PROCESS_DIAGRAM', 'MAP'][Math.floor(Math.random() * 7)]
             : visualType;
@@ -4022,117 +4050,41 @@ Return this EXACT JSON structure:
 }`;
         }
 
-        // Use Gemini with JSON mode for stable, non-truncated output
+        // JSON mode through the gateway, validated against the writing task schema
         console.log(`Generating Task ${taskNum} with JSON mode...`);
 
-        const safeParseJson = (raw: string): any => {
-          // 1) Direct parse (best case)
-          try {
-            return JSON.parse(raw);
-          } catch {
-            // 2) Extract JSON from mixed content (code fences etc.)
-            const extracted = extractJsonFromResponse(raw);
-            return JSON.parse(extracted);
-          }
-        };
-
-        const baseMaxOutputTokens = 2048;
-        const maxAttempts = 3;
-        let lastErr: unknown = null;
-
-        for (let attempt = 0; attempt < maxAttempts; attempt++) {
-          const maxOutputTokens = attempt === 0 ? baseMaxOutputTokens : baseMaxOutputTokens * 2;
-
-          // Retry loop for transient API errors (503, 429, etc.)
-          let response: Response | null = null;
-          const maxApiRetries = 3;
-          for (let apiRetry = 0; apiRetry < maxApiRetries; apiRetry++) {
-            response = await fetch(
-              `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${geminiApiKey}`,
-              {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                  contents: [{ parts: [{ text: writingPrompt }] }],
-                  generationConfig: {
-                    temperature: 0.2,
-                    maxOutputTokens,
-                    responseMimeType: 'application/json',
-                  },
-                }),
-              }
-            );
-
-            // Retry on transient errors (503 overloaded, 429 rate limit, 500 server error)
-            if (response.status === 503 || response.status === 429 || response.status === 500) {
-              const retryDelay = Math.pow(2, apiRetry) * 1000 + Math.random() * 500;
-              console.warn(`Task ${taskNum} API returned ${response.status}, retrying in ${Math.round(retryDelay)}ms (attempt ${apiRetry + 1}/${maxApiRetries})`);
-              await new Promise(resolve => setTimeout(resolve, retryDelay));
-              continue;
-            }
-            break;
-          }
-
-          if (!response || !response.ok) {
-            const errorText = response ? await response.text() : 'No response';
-            console.error(`Task ${taskNum} generation failed:`, response?.status, errorText);
-            throw new Error(`Failed to generate Task ${taskNum}: ${response?.status || 'unknown'}`);
-          }
-
-          const data = await response.json();
-
-          // Track token usage
-          const usageMetadata = data.usageMetadata;
-          if (usageMetadata) {
-            const promptTokens = usageMetadata.promptTokenCount || 0;
-            const candidateTokens = usageMetadata.candidatesTokenCount || 0;
-            writingTotalTokensUsed += promptTokens + candidateTokens;
-            console.log(`Task ${taskNum} tokens - Prompt: ${promptTokens}, Output: ${candidateTokens}`);
-          }
-
-          const finishReason = data.candidates?.[0]?.finishReason;
+        try {
+          const { value: parsed, response } = await callLLMWithSchema<GeneratedWritingTaskReply>(
+            // Room for a full Task 1 visual; drop to 2048 if the endpoint rejects the larger budget
+            { taskType: 'generate', prompt: writingPrompt, temperature: 0.2, maxTokens: [4096, 2048] },
+            GENERATED_WRITING_TASK_SCHEMA,
+            `writing Task ${taskNum}`,
+            await generationTargets(geminiApiKey, dbApiKeys, serviceClient),
+            generationCallOptions(dbApiKeys.length, 2, serviceClient),
+          );
 
-          const resultText = data.candidates?.[0]?.content?.parts?.[0]?.text;
-          if (!resultText) {
-            lastErr = new Error(`Empty response for Task ${taskNum}`);
-            console.error(lastErr);
-            continue;
+          if (response.usage) {
+            writingTotalTokensUsed += response.usage.promptTokens + response.usage.completionTokens;
+            console.log(`Task ${taskNum} tokens - Prompt: ${response.usage.promptTokens}, Output: ${response.usage.completionTokens}`);
           }
 
-          console.log(`Task ${taskNum} response length: ${resultText.length} chars (attempt ${attempt + 1}/${maxAttempts}, finishReason=${finishReason || 'unknown'})`);
-
-          try {
-            const parsed = safeParseJson(resultText);
-
-            return {
-              id: crypto.randomUUID(),
-              task_type: isTask1 ? 'task1' : 'task2',
-              instruction: parsed.instruction,
-              image_description: parsed.visual_description || parsed.instruction, // Fallback
-              chartData: parsed.visualData || null, // Direct from combined response
-              visual_type: parsed.visual_type,
-              essay_type: parsed.essay_type,
-              word_limit_min: isTask1 ? 150 : 250,
-              word_limit_max: isTask1 ? 200 : 350,
-            };
-          } catch (e) {
-            lastErr = e;
-            const preview = resultText?.substring(0, 500);
-            console.error(`Failed to parse Task ${taskNum} JSON (attempt ${attempt + 1}/${maxAttempts}):`, e, preview);
-
-            // If the model output looks truncated, retry with a larger token budget.
-            // Otherwise, retry once more anyway (models sometimes self-correct on retry).
-            const looksTruncated = !resultText.trim().endsWith('}') || finishReason === 'MAX_TOKENS';
-            if (!looksTruncated && attempt >= 1) {
-              break;
-            }
-
-            continue;
-          }
+          return {
+            id: crypto.randomUUID(),
+            task_type: isTask1 ? 'task1' : 'task2',
+            instruction: parsed.instruction,
+            image_description: parsed.visual_description || parsed.instruction, // Fallback
+            chartData: parsed.visualData || null, // Direct from combined response
+            visual_type: parsed.visual_type,
+            letter_bullet_points: Array.isArray(parsed.bullet_points) ? parsed.bullet_points : undefined,
+            essay_type: parsed.essay_type,
+            word_limit_min: isTask1 ? 150 : 250,
+            word_limit_max: isTask1 ? 200 : 350,
+          };
+        } catch (e) {
+          console.error(`Task ${taskNum} generation failed:`, e);
+          if (e instanceof LLMGatewayError) throw new Error(describeGenerationFailure(e));
+          throw new Error(`Failed to parse Task ${taskNum} content`);
         }
-
-        console.error(`Failed to parse Task ${taskNum} after ${maxAttempts} attempts:`, lastErr);
-        throw new Error(`Failed to parse Task ${taskNum} content`);
       }
 
       try {
@@ -4344,7 +4296,10 @@ Generate natural, conversational questions matching Cambridge IELTS Band 7-8 dif
       let parsed;
       try {
         const jsonStr = extractJsonFromResponse(result);
-        parsed = JSON.parse(jsonStr);
+        parsed = await conformGenerated<GeneratedSpeakingReply>(JSON.parse(jsonStr), GENERATED_SPEAKING_SCHEMA, 'speaking test', geminiApiKey, {
+          dbKeys: dbApiKeys,
+          serviceClient,
+        });
       } catch (e) {
         console.error("Failed to parse Gemini response:", e, result?.substring(0, 500));
         return new Response(JSON.stringify({ error: 'Failed to parse generated content. Please try again.' }), {
@@ -1,5 +1,46 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { calculateSpeakingBandFromCriteria, getCriterionBand, roundIELTSBand } from "../_shared/ieltsScoring.ts";
+import {
+  analyzePronunciation,
+  CLARITY_REASON_LABELS,
+  type PronunciationAnalysis,
+  type TimedPhrase,
+  type TimedWord,
+} from "../_shared/pronunciationAnalysis.ts";
+import { applyPart3QuestionTree, type SpeakingPayload } from "../_shared/part3FollowUp.ts";
+import { describeInterventionsForPrompt } from "../_shared/examinerInterventions.ts";
+import { uploadToR2 } from "../_shared/r2Client.ts";
+import {
+  callLLM,
+  groqTarget,
+  LLMGatewayError,
+  LLMSchemaError,
+  loadConfiguredTargets,
+  repairStructuredOutput,
+  type LLMResponse,
+  type LLMTarget,
+} from "../_shared/llmGateway.ts";
+import { speakingEvaluationSchema, validateOutput } from "../_shared/outputSchemas.ts";
+import {
+  TranscriptionError,
+  checkoutTranscriptionProvider,
+  loadTranscriptionSettings,
+  requestTranscription,
+  transcriptionProviderOrder,
+  type TranscriptionProvider,
+  type TranscriptionSettings,
+  type WhisperResponse,
+} from "../_shared/transcriptionProviders.ts";
+import {
+  MIN_RETRY_WORDS,
+  MODEL_SCORED_CRITERIA,
+  attemptFromRow,
+  buildQuestionRetryPrompt,
+  parseQuestionRetryEvaluation,
+  retryOverallBand,
+  type RetryCriteria,
+} from "../_shared/questionRetry.ts";
 
 /**
  * Groq Speaking Evaluate
@@ -7,7 +48,9 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
  * Step 2 of Groq evaluation pipeline:
  * - Takes transcription results from groq-speaking-transcribe
  * - Estimates pronunciation from transcription confidence scores
- * - Calls Groq Llama 3.3 70B for final IELTS evaluation
+ * - Flags unclear words and measures speech rate from Whisper word timings
+ * - Calls Groq Llama 3.3 70B for final IELTS evaluation (self-hosted jobs use
+ *   the llm_providers configured for evaluate_speaking instead)
  * - Stores results in EXACT same format as Gemini for UI compatibility
  * 
  * OUTPUT SCHEMA matches Gemini pipeline exactly:
@@ -16,6 +59,9 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
  * - lexical_upgrades and vocabulary_upgrades (5-8 minimum)
  * - part_analysis for ALL parts (1, 2, 3 if full test)
  * - transcripts_by_part and transcripts_by_question
+ *
+ * With `mode: 'single_question'` it instead scores one re-recorded question
+ * from a report against the original answer (see _shared/questionRetry.ts).
  */
 
 const corsHeaders = {
@@ -24,8 +70,6 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
-const GROQ_LLM_URL = 'https://api.groq.com/openai/v1/chat/completions';
-
 // =============================================================================
 // GROQ LLM MODEL FALLBACK CHAIN (Speaking Evaluation)
 // =============================================================================
@@ -40,13 +84,8 @@ const GROQ_LLM_MODELS = [
 ];
 const GROQ_LLM_MODEL = GROQ_LLM_MODELS[0]; // Primary model for single-model calls
 
-async function callGroqLLMWithModelFallback(opts: {
-  apiKey: string;
-  prompt: string;
-  maxTokensCandidates: number[];
-}) {
-  // System prompt: human-like IELTS examiner (calibrated scoring, generous model answers)
-  const system = `You are a CERTIFIED IELTS Speaking Examiner scoring like a real human examiner would.
+// System prompt: human-like IELTS examiner (calibrated scoring, generous model answers)
+const EXAMINER_SYSTEM_PROMPT = `You are a CERTIFIED IELTS Speaking Examiner scoring like a real human examiner would.
 
 ## SCORING PHILOSOPHY (Human-Like, Not AI-Harsh)
 - IELTS examiners are trained to be FAIR and ENCOURAGING, not punitive.
@@ -74,60 +113,107 @@ async function callGroqLLMWithModelFallback(opts: {
 
 FAILURE TO MEET WORD COUNTS OR UPGRADE COUNTS IS UNACCEPTABLE.`;
 
-  // Try each model in the fallback chain
-  for (const model of GROQ_LLM_MODELS) {
-    let lastResponse: Response | null = null;
-    
-    // For each model, try different token limits
-    for (const maxTokens of opts.maxTokensCandidates) {
-      console.log(`[groq-speaking-evaluate] Trying model ${model} with max_tokens=${maxTokens}`);
-      
-      const res = await fetch(GROQ_LLM_URL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${opts.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: model,
-          messages: [
-            { role: 'system', content: system },
-            { role: 'user', content: opts.prompt },
-          ],
-          temperature: 0.2,
-          max_tokens: maxTokens,
-          response_format: { type: 'json_object' },
-        }),
-      });
-
-      // If token setting is rejected, try next candidate for same model
-      if (!res.ok && (res.status === 400 || res.status === 422)) {
-        lastResponse = res;
-        continue;
-      }
-      
-      // Rate limit or quota - try next model
-      if (res.status === 429) {
-        const errorText = await res.text();
-        console.warn(`[groq-speaking-evaluate] Model ${model} rate limited: ${errorText}`);
-        break; // Move to next model
-      }
+/** The checked-out Groq key, then the providers configured for speaking evaluation */
+async function groqScoringTargets(
+  serviceClient: SupabaseClient,
+  apiKey: string,
+  keyId?: string | null,
+): Promise<LLMTarget[]> {
+  return [
+    groqTarget(apiKey, GROQ_LLM_MODELS, keyId),
+    ...(await loadConfiguredTargets(serviceClient, 'evaluate_speaking', { excludeProviders: ['groq'] })),
+  ];
+}
 
-      // Success
-      if (res.ok) {
-        console.log(`[groq-speaking-evaluate] Success with model ${model}`);
-        return res;
-      }
+interface ScoringStage {
+  targets: LLMTarget[];
+  /** Checked-out Groq pool key, when the stage runs on Groq */
+  groqKeyId: string | null;
+}
 
-      lastResponse = res;
+/**
+ * LLM targets for the scoring stage. Self-hosted jobs score only with the
+ * providers configured in `llm_providers`, so a school's transcripts never
+ * reach the Groq or Gemini pools; without one the job fails with a
+ * configuration error. Other jobs check out a Groq key as before.
+ */
+async function checkoutScoringStage(
+  serviceClient: SupabaseClient,
+  provider: string | null | undefined,
+  lock: { jobId: string; durationSeconds: number; partNumber: number },
+): Promise<ScoringStage> {
+  if (provider === 'self_hosted') {
+    const targets = await loadConfiguredTargets(serviceClient, 'evaluate_speaking', { excludeProviders: ['gemini', 'groq'] });
+    if (targets.length === 0) {
+      throw new Error('Self-hosted scoring is not configured: add an active llm_providers entry with an API key for evaluate_speaking');
     }
-    
-    // If we exhausted token candidates for this model, try next model
-    console.log(`[groq-speaking-evaluate] Model ${model} failed, trying next...`);
+    console.log(`[groq-speaking-evaluate] Scoring with configured providers: ${targets.map((t) => t.provider.id).join(', ')}`);
+    return { targets, groqKeyId: null };
+  }
+
+  // Get Groq API key for LLM - use TEXT-based function signature
+  const { data: keyData, error: keyError } = await serviceClient.rpc('checkout_groq_key_for_llm', {
+    p_job_id: lock.jobId,
+    p_lock_duration_seconds: lock.durationSeconds,
+    p_part_number: lock.partNumber,
+  });
+
+  if (keyError || !keyData || keyData.length === 0) {
+    console.error(`[groq-speaking-evaluate] No Groq LLM keys available:`, keyError);
+    throw new Error('No Groq API keys available for LLM');
   }
 
-  console.error(`[groq-speaking-evaluate] All models in fallback chain failed`);
-  return new Response('Failed to call Groq LLM - all models exhausted', { status: 500 });
+  const groqKeyId: string = keyData[0].out_key_id;
+  console.log(`[groq-speaking-evaluate] Using Groq LLM key ${groqKeyId?.slice(0, 8)}...`);
+  return { targets: await groqScoringTargets(serviceClient, keyData[0].out_key_value, groqKeyId), groqKeyId };
+}
+
+/**
+ * Call the scoring LLM through the shared gateway: each model of each target
+ * in turn, stepping down the token budget when a model rejects it. A 429 on
+ * one model moves on to the next.
+ */
+async function callGroqLLMWithModelFallback(opts: {
+  targets: LLMTarget[];
+  serviceClient: SupabaseClient;
+  prompt: string;
+  maxTokensCandidates: number[];
+  system?: string;
+}): Promise<LLMResponse> {
+  return await callLLM(
+    {
+      taskType: 'evaluate_speaking',
+      system: opts.system ?? EXAMINER_SYSTEM_PROMPT,
+      prompt: opts.prompt,
+      json: true,
+      temperature: 0.2,
+      maxTokens: opts.maxTokensCandidates,
+    },
+    opts.targets,
+    { serviceClient: opts.serviceClient, logPrefix: 'groq-speaking-evaluate' },
+  );
+}
+
+interface SpeakingCriterionReply {
+  band?: number;
+  score?: number;
+  feedback?: string;
+  strengths?: unknown;
+  weaknesses?: unknown;
+  suggestions?: unknown;
+}
+
+/** Evaluation reply after speakingEvaluationSchema; extra fields are passed through as-is */
+interface SpeakingEvaluationReply {
+  criteria?: Record<string, SpeakingCriterionReply>;
+  summary?: string;
+  examiner_notes?: string;
+  modelAnswers?: unknown;
+  lexical_upgrades?: unknown;
+  vocabulary_upgrades?: unknown;
+  part_notes?: unknown;
+  improvement_priorities?: unknown;
+  strengths_to_maintain?: unknown;
 }
 
 interface PronunciationEstimate {
@@ -148,6 +234,8 @@ interface TranscriptionSegment {
   longPauses: { start: number; end: number; duration: number }[];
   wordCount: number;
   noSpeechProb?: number;
+  words?: TimedWord[];
+  segments?: TimedPhrase[];
 }
 
 serve(async (req) => {
@@ -162,7 +250,12 @@ serve(async (req) => {
   const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
 
   try {
-    const { jobId } = await req.json();
+    const body = await req.json();
+    if (body?.mode === 'single_question') {
+      return await evaluateSingleQuestion(req, body, supabaseService);
+    }
+
+    const { jobId } = body;
     
     if (!jobId) {
       return new Response(JSON.stringify({ error: 'Missing jobId' }), {
@@ -192,6 +285,7 @@ serve(async (req) => {
     const transcriptionResult = job.transcription_result as {
       transcriptions: TranscriptionSegment[];
       totalAudioSeconds: number;
+      sttProviders?: string[];
     };
 
     if (!transcriptionResult?.transcriptions?.length) {
@@ -209,34 +303,28 @@ serve(async (req) => {
       })
       .eq('id', jobId);
 
-    // Get Groq API key for LLM - use TEXT-based function signature
-    const { data: keyData, error: keyError } = await supabaseService.rpc('checkout_groq_key_for_llm', {
-      p_job_id: String(jobId),
-      p_lock_duration_seconds: 300,
-      p_part_number: 1,
+    const { targets: scoringTargets, groqKeyId } = await checkoutScoringStage(supabaseService, job.provider, {
+      jobId: String(jobId),
+      durationSeconds: 300,
+      partNumber: 1,
     });
 
-    if (keyError || !keyData || keyData.length === 0) {
-      console.error(`[groq-speaking-evaluate] No Groq LLM keys available:`, keyError);
-      throw new Error('No Groq API keys available for LLM');
-    }
-
-    const groqKey = keyData[0];
-    const groqApiKey = groqKey.out_key_value;
-    const groqKeyId = groqKey.out_key_id;
-
-    console.log(`[groq-speaking-evaluate] Using Groq LLM key ${groqKeyId?.slice(0, 8)}...`);
-
     // Update job with LLM key used
-    await supabaseService
-      .from('speaking_evaluation_jobs')
-      .update({ groq_llm_key_id: groqKeyId })
-      .eq('id', jobId);
+    if (groqKeyId) {
+      await supabaseService
+        .from('speaking_evaluation_jobs')
+        .update({ groq_llm_key_id: groqKeyId })
+        .eq('id', jobId);
+    }
 
     // Estimate pronunciation from transcription data
     const pronunciationEstimate = estimatePronunciation(transcriptionResult.transcriptions);
     console.log(`[groq-speaking-evaluate] Pronunciation estimate: ${pronunciationEstimate.estimatedBand} (${pronunciationEstimate.confidence})`);
 
+    // Word-level clarity and speech rate from the Whisper word timings
+    const pronunciationAnalysis = analyzePronunciation(transcriptionResult.transcriptions);
+    console.log(`[groq-speaking-evaluate] Pronunciation analysis: ${(pronunciationAnalysis.clarityRatio * 100).toFixed(0)}% clear, ${pronunciationAnalysis.averageSpeechRate} wpm, ${pronunciationAnalysis.likelyMispronounced.length} likely mispronounced`);
+
     // Fetch AI practice test payload for question context
     const { data: aiTestRow } = await supabaseService
       .from('ai_practice_tests')
@@ -244,7 +332,8 @@ serve(async (req) => {
       .eq('id', job.test_id)
       .maybeSingle();
 
-    const testPayload = (aiTestRow as any)?.payload;
+    // Adaptive Part 3 asks questions written during the test
+    const testPayload = applyPart3QuestionTree((aiTestRow as { payload?: SpeakingPayload | null } | null)?.payload || {}, job.partial_results?.part3QuestionTree);
 
     // Determine which parts exist in the test
     const partNumbers = [...new Set(transcriptionResult.transcriptions.map(t => t.partNumber))].sort();
@@ -256,61 +345,78 @@ serve(async (req) => {
     const evaluationPrompt = buildEvaluationPrompt(
       transcriptionResult.transcriptions,
       pronunciationEstimate,
+      pronunciationAnalysis,
       testPayload,
       job,
       partNumbers
     );
 
-    // Call Groq LLM with model fallback chain
-    console.log(`[groq-speaking-evaluate] Calling Groq LLM with fallback chain: ${GROQ_LLM_MODELS.join(' → ')}...`);
+    // Call the scoring LLM with its model fallback chain
+    console.log(`[groq-speaking-evaluate] Calling scoring LLM: ${scoringTargets.map((t) => t.provider.id).join(' → ')}...`);
     const startTime = Date.now();
 
-    const llmResponse = await callGroqLLMWithModelFallback({
-      apiKey: groqApiKey,
-      prompt: evaluationPrompt,
-      maxTokensCandidates: [12000, 10000, 8192],
-    });
-
-    if (!llmResponse.ok) {
-      const errorText = await llmResponse.text();
-      console.error(`[groq-speaking-evaluate] LLM API error: ${llmResponse.status} - ${errorText}`);
-      
-      if (llmResponse.status === 429) {
-        await supabaseService.rpc('mark_groq_key_exhausted', {
-          p_key_id: groqKeyId,
-          p_model: GROQ_LLM_MODEL,
-        });
-        throw new Error('RATE_LIMIT: Groq LLM quota exhausted');
+    let llmReply: LLMResponse;
+    try {
+      llmReply = await callGroqLLMWithModelFallback({
+        targets: scoringTargets,
+        serviceClient: supabaseService,
+        prompt: evaluationPrompt,
+        maxTokensCandidates: [12000, 10000, 8192],
+      });
+    } catch (error) {
+      if (error instanceof LLMGatewayError && error.quotaExceeded) {
+        if (groqKeyId) {
+          await supabaseService.rpc('mark_groq_key_exhausted', {
+            p_key_id: groqKeyId,
+            p_model: GROQ_LLM_MODEL,
+          });
+        }
+        throw new Error(`RATE_LIMIT: ${groqKeyId ? 'Groq' : 'Scoring'} LLM quota exhausted`);
       }
-      
-      throw new Error(`LLM API error: ${llmResponse.status}`);
+      if (error instanceof LLMGatewayError && error.has('invalid_json')) {
+        throw new Error('Failed to parse evaluation response');
+      }
+      throw error;
     }
 
-    const llmResult = await llmResponse.json();
     const processingTime = Date.now() - startTime;
 
     // Log token usage for debugging truncation
-    const usage = llmResult.usage;
-    if (usage) {
-      console.log(`[groq-speaking-evaluate] Tokens: prompt=${usage.prompt_tokens}, completion=${usage.completion_tokens}, total=${usage.total_tokens}`);
+    if (llmReply.usage) {
+      console.log(`[groq-speaking-evaluate] Tokens: prompt=${llmReply.usage.promptTokens}, completion=${llmReply.usage.completionTokens}`);
     }
     
     // Check for truncation
-    const finishReason = llmResult.choices?.[0]?.finish_reason;
-    if (finishReason === 'length') {
+    if (llmReply.finishReason === 'length') {
       console.warn(`[groq-speaking-evaluate] ⚠️ Response may be truncated (finish_reason=length)`);
     }
 
-    console.log(`[groq-speaking-evaluate] LLM response received in ${processingTime}ms`);
+    console.log(`[groq-speaking-evaluate] LLM response from ${llmReply.model} received in ${processingTime}ms`);
 
-    // Parse evaluation result
-    let evaluation: any;
-    try {
-      const content = llmResult.choices?.[0]?.message?.content;
-      evaluation = JSON.parse(content);
-    } catch (parseError) {
-      console.error(`[groq-speaking-evaluate] Failed to parse LLM response:`, parseError);
-      throw new Error('Failed to parse evaluation response');
+    // Parsed by the gateway (JSON mode); missing criteria or model answers get one repair round
+    const evaluationSchema = speakingEvaluationSchema(transcriptionResult.transcriptions.length);
+    const checked = validateOutput<SpeakingEvaluationReply>(evaluationSchema, llmReply.json);
+    let evaluation: SpeakingEvaluationReply;
+    if (checked.valid) {
+      evaluation = checked.value;
+    } else {
+      try {
+        const repaired = await repairStructuredOutput<SpeakingEvaluationReply>(
+          llmReply.json,
+          evaluationSchema,
+          'IELTS speaking evaluation',
+          checked.issues,
+          'evaluate_speaking',
+          scoringTargets,
+          { serviceClient: supabaseService, logPrefix: 'groq-speaking-evaluate' },
+        );
+        evaluation = repaired.value;
+      } catch (error) {
+        if (error instanceof LLMSchemaError || error instanceof LLMGatewayError) {
+          throw new Error(`Evaluation response failed validation: ${error.message.slice(0, 300)}`);
+        }
+        throw error;
+      }
     }
 
     // Build audio URLs
@@ -355,7 +461,7 @@ serve(async (req) => {
 
     // Extract criteria with full Gemini-compatible structure
     const extractCriterion = (key: string, camelKey: string) => {
-      const c = evaluation?.criteria?.[key] || evaluation?.criteria?.[camelKey] || {};
+      const c: SpeakingCriterionReply = evaluation.criteria?.[key] || evaluation.criteria?.[camelKey] || {};
       return {
         band: typeof c.band === 'number' ? c.band : (typeof c.score === 'number' ? c.score : 5.0),
         feedback: c.feedback || '',
@@ -382,15 +488,8 @@ serve(async (req) => {
     );
     criteria.pronunciation.band = calibratedPronunciation;
 
-    // Compute overall band using IELTS rounding rules (same as frontend)
-    const criteriaScores = [
-      criteria.fluency_coherence.band,
-      criteria.lexical_resource.band,
-      criteria.grammatical_range.band,
-      criteria.pronunciation.band,
-    ];
-    const avgScore = criteriaScores.reduce((a, b) => a + b, 0) / 4;
-    const overallBand = roundIELTSBand(avgScore);
+    // Compute overall band with the shared IELTS scoring rules (same as frontend)
+    const overallBand = calculateSpeakingBandFromCriteria(criteria);
 
     console.log(`[groq-speaking-evaluate] Criteria: FC=${criteria.fluency_coherence.band}, LR=${criteria.lexical_resource.band}, GRA=${criteria.grammatical_range.band}, P=${calibratedPronunciation} (calibrated) => Overall=${overallBand}`);
 
@@ -482,10 +581,12 @@ serve(async (req) => {
       strengths_to_maintain: Array.isArray(evaluation?.strengths_to_maintain) ? evaluation.strengths_to_maintain : [],
       transcripts_by_part: transcriptsByPart,
       transcripts_by_question: transcriptsByQuestion,
+      pronunciation_analysis: pronunciationAnalysis,
       evaluationMetadata: {
         provider: 'groq',
         sttModel: 'whisper-large-v3-turbo',
-        llmModel: GROQ_LLM_MODEL,
+        sttProviders: transcriptionResult.sttProviders ?? ['groq'],
+        llmModel: llmReply.model,
         pronunciationEstimation: pronunciationEstimate,
         processingTimeMs: processingTime,
         transcriptionSegments: transcriptionResult.transcriptions.length,
@@ -525,6 +626,7 @@ serve(async (req) => {
           transcripts_by_part: transcriptsByPart,
           transcripts_by_question: transcriptsByQuestion,
           file_paths: filePaths,
+          part3_question_tree: job.partial_results?.part3QuestionTree,
         },
         evaluation_timing: evaluationTiming,
         completed_at: new Date().toISOString(),
@@ -576,20 +678,6 @@ serve(async (req) => {
   }
 });
 
-// ============================================================================
-// IELTS Band Rounding (same as frontend)
-// ============================================================================
-
-function roundIELTSBand(rawAverage: number): number {
-  if (!Number.isFinite(rawAverage)) return 0;
-  const avg = Math.max(0, Math.min(9, rawAverage));
-  const floor = Math.floor(avg);
-  const fraction = avg - floor;
-  if (fraction < 0.25) return floor;
-  if (fraction < 0.75) return floor + 0.5;
-  return floor + 1;
-}
-
 // ============================================================================
 // Pronunciation Estimation
 // ============================================================================
@@ -639,7 +727,7 @@ function estimatePronunciation(transcriptions: TranscriptionSegment[]): Pronunci
 
   const rawBand = compositeScore * 6 + 3;
   // No artificial cap - calibration happens post-LLM based on other criteria
-  const estimatedBand = Math.round(rawBand * 2) / 2;
+  const estimatedBand = roundIELTSBand(rawBand);
 
   // IMPROVED confidence thresholds for evidence-only pronunciation feedback
   // High confidence: We have enough data to potentially identify specific issues
@@ -701,8 +789,7 @@ function calibratePronunciationFromCriteria(
   // Clamp to valid IELTS range (1-9)
   const clamped = Math.max(1, Math.min(9, rawScore));
   
-  // Round to nearest 0.5 (IELTS convention)
-  return Math.round(clamped * 2) / 2;
+  return roundIELTSBand(clamped);
 }
 
 // ============================================================================
@@ -712,6 +799,7 @@ function calibratePronunciationFromCriteria(
 function buildEvaluationPrompt(
   transcriptions: TranscriptionSegment[],
   pronunciationEstimate: PronunciationEstimate,
+  pronunciationAnalysis: PronunciationAnalysis,
   testPayload: any,
   job: any,
   partNumbers: number[]
@@ -737,9 +825,12 @@ function buildEvaluationPrompt(
     return `{"segment_key":"${t.segmentKey}","partNumber":${t.partNumber},"questionNumber":${t.questionNumber},"estimatedBand":<1-9>,"targetBand":<estimatedBand+1>,"modelAnswer":"WRITE ${limits.min}+ WORDS (target ${limits.target}w)","whyItWorks":["<1 reason>"],"keyImprovements":["<1 tip>"]}`;
   }).join(',');
 
-  // Pronunciation feedback based on confidence level
-  const pronunciationInstruction = pronunciationEstimate.confidence === 'high'
-    ? `Pronunciation analysis: Use the provided Band ${pronunciationEstimate.estimatedBand} estimate. In weaknesses, quote specific words with low transcription confidence if available.`
+  // Pronunciation feedback: quote words only when the timing analysis flagged them
+  const flaggedWords = pronunciationAnalysis.likelyMispronounced
+    .map(w => `"${w.word}" (${w.reasons.map(r => CLARITY_REASON_LABELS[r].toLowerCase()).join('; ')})`)
+    .join(', ');
+  const pronunciationInstruction = flaggedWords
+    ? `Pronunciation analysis: Use the provided Band ${pronunciationEstimate.estimatedBand} estimate. Word timing analysis flagged these words as likely unclear: ${flaggedWords}. In pronunciation weaknesses, quote only words from this list.`
     : `Pronunciation analysis: Insufficient audio evidence for specific mispronunciation claims. Use Band ${pronunciationEstimate.estimatedBand} estimate. In weaknesses, provide general tips like "Practice clearer enunciation of multi-syllable words" without claiming specific words were mispronounced. NEVER say "might be mispronounced" or "specific examples are not available".`;
 
   // Enhanced prompt optimized for accuracy and completeness
@@ -756,6 +847,7 @@ ${transcriptSection}
 
 **PRONUNCIATION ESTIMATE:** Band ${pronunciationEstimate.estimatedBand} (${pronunciationEstimate.confidence} confidence)
 ${pronunciationInstruction}
+${describeInterventionsForPrompt(job.partial_results?.examinerInterventions)}
 
 **HUMAN-LIKE SCORING GUIDELINES (be FAIR, not harsh):**
 - On-topic, coherent, 1-2 minutes speaking → Band 5.5-6.5 baseline
@@ -873,3 +965,313 @@ function getQuestionTextFromPayload(payload: any, partNumber: number, questionNu
   
   return '';
 }
+
+// ============================================================================
+// Single-Question Retry
+// ============================================================================
+
+const RETRY_SYSTEM_PROMPT = 'You are a CERTIFIED IELTS Speaking Examiner. Score fairly against the public band descriptors, the way a trained human examiner would. Reply with valid JSON only.';
+// Whisper confidence says little about pronunciation on shorter answers
+const MIN_PRONUNCIATION_WORDS = 20;
+
+interface SingleQuestionRequest {
+  resultId?: string;
+  submissionId?: string;
+  segmentKey?: string;
+  partNumber?: number;
+  questionNumber?: number;
+  questionText?: string;
+  audioData?: string; // dataURL
+  durationSeconds?: number;
+}
+
+type StoredEntry = Record<string, unknown>;
+
+interface OriginalAnswer {
+  testId: string;
+  questionText: string;
+  transcript: string;
+  reportCriteria: Record<string, unknown>;
+}
+
+const retryJson = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const asEntries = (value: unknown): StoredEntry[] => (Array.isArray(value) ? value as StoredEntry[] : []);
+
+function findOriginalEntry(
+  transcriptsByQuestion: unknown,
+  modelAnswers: unknown,
+  partNumber: number,
+  matches: (entry: StoredEntry) => boolean,
+): { questionText: string; transcript: string } | null {
+  const byPart = (transcriptsByQuestion && typeof transcriptsByQuestion === 'object'
+    ? transcriptsByQuestion
+    : {}) as Record<string, unknown>;
+  const entry = asEntries(byPart[String(partNumber)]).find(matches);
+  if (entry) return { questionText: String(entry.question_text || ''), transcript: String(entry.transcript || '') };
+
+  const model = asEntries(modelAnswers).find(matches);
+  if (model) return { questionText: String(model.question || ''), transcript: String(model.candidateResponse || '') };
+  return null;
+}
+
+/** The answer being retried, from an AI practice result or an admin-test submission */
+async function loadOriginalAnswer(
+  supabaseService: ReturnType<typeof createClient>,
+  userId: string,
+  request: SingleQuestionRequest,
+): Promise<OriginalAnswer | null> {
+  const partNumber = Number(request.partNumber);
+  const segmentKey = String(request.segmentKey || '').toLowerCase();
+
+  if (request.resultId) {
+    const { data: row } = await supabaseService
+      .from('ai_practice_results')
+      .select('test_id, question_results, answers')
+      .eq('id', request.resultId)
+      .eq('user_id', userId)
+      .eq('module', 'speaking')
+      .maybeSingle();
+    if (!row) return null;
+
+    const report = (row.question_results || {}) as StoredEntry;
+    const answers = (row.answers || {}) as StoredEntry;
+    const original = findOriginalEntry(
+      answers.transcripts_by_question ?? report.transcripts_by_question,
+      report.modelAnswers,
+      partNumber,
+      (e) => String(e.segment_key || '').toLowerCase() === segmentKey,
+    );
+    return {
+      testId: String(row.test_id),
+      questionText: original?.questionText || '',
+      transcript: original?.transcript || '',
+      reportCriteria: (report.criteria || {}) as Record<string, unknown>,
+    };
+  }
+
+  if (request.submissionId) {
+    const { data: row } = await supabaseService
+      .from('speaking_submissions')
+      .select('test_id, evaluation_report')
+      .eq('id', request.submissionId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (!row) return null;
+
+    const report = (row.evaluation_report || {}) as StoredEntry;
+    const questionNumber = Number(request.questionNumber);
+    const original = findOriginalEntry(
+      report.transcripts_by_question,
+      report.modelAnswers,
+      partNumber,
+      (e) => Number(e.question_number ?? e.questionNumber) === questionNumber &&
+        (e.partNumber === undefined || Number(e.partNumber) === partNumber),
+    );
+    // Older reports keep the criteria at the top level
+    const criteria = (report.criteria || report) as Record<string, unknown>;
+    return {
+      testId: String(row.test_id),
+      questionText: original?.questionText || '',
+      transcript: original?.transcript || '',
+      reportCriteria: {
+        ...criteria,
+        grammatical_range: criteria.grammatical_range ?? criteria.grammatical_range_accuracy,
+      },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * One Whisper call with light hallucination filtering. The full pipeline in
+ * groq-speaking-transcribe is built for whole tests; a single retry only
+ * needs the text, duration and confidence.
+ */
+async function transcribeRetryAudio(
+  supabaseService: ReturnType<typeof createClient>,
+  audioBlob: Blob,
+  attemptId: string,
+  partNumber: number,
+  settings: TranscriptionSettings,
+): Promise<TranscriptionSegment> {
+  // Same providers as the transcription stage; a retry is its own one-off job
+  let result: WhisperResponse | null = null;
+  let provider: TranscriptionProvider | null = null;
+  for (const id of transcriptionProviderOrder(null, settings)) {
+    provider = await checkoutTranscriptionProvider(supabaseService, id, settings, `retry-${attemptId}`, partNumber);
+    if (!provider) continue;
+    try {
+      result = (await requestTranscription(provider, audioBlob)).result;
+      break;
+    } catch (error) {
+      if (error instanceof TranscriptionError && error.rateLimited) await provider.markRateLimited();
+      console.warn(`[groq-speaking-evaluate] Retry transcription with ${id} failed:`, error);
+    }
+  }
+  if (!result || !provider) throw new Error('No transcription provider could transcribe the retry');
+
+  const duration = typeof result.duration === 'number' ? result.duration : 0;
+  // Whisper invents text for silent segments
+  const segments = (result.segments || []).filter((s) => (s.no_speech_prob ?? 0) <= 0.5);
+  const text = duration < 0.5 ? '' : segments.map((s) => s.text || '').join(' ').replace(/\s+/g, ' ').trim();
+  const words = text ? (result.words || []) : [];
+  await provider.recordUsage(duration);
+
+  const fillerMatches = text.match(/\b(um|uh|ah|er|hmm|like|you know|i mean|sort of|kind of)\b/gi) || [];
+  const longPauses: TranscriptionSegment['longPauses'] = [];
+  for (let i = 1; i < words.length; i++) {
+    const gap = words[i].start - words[i - 1].end;
+    if (gap > 2.0) longPauses.push({ start: words[i - 1].end, end: words[i].start, duration: gap });
+  }
+
+  return {
+    segmentKey: 'retry',
+    partNumber: 0,
+    questionNumber: 0,
+    text,
+    duration,
+    avgConfidence: words.length > 0 ? words.reduce((sum, w) => sum + (w.probability || 0), 0) / words.length : 0,
+    avgLogprob: segments.length > 0 ? segments.reduce((sum, s) => sum + (s.avg_logprob || 0), 0) / segments.length : 0,
+    fillerWords: [...new Set(fillerMatches.map((f) => f.toLowerCase()))],
+    longPauses,
+    wordCount: text ? text.split(/\s+/).length : 0,
+    words,
+  };
+}
+
+async function evaluateSingleQuestion(
+  req: Request,
+  request: SingleQuestionRequest,
+  supabaseService: ReturnType<typeof createClient>,
+): Promise<Response> {
+  try {
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization')! } },
+    });
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return retryJson({ error: 'Unauthorized' }, 401);
+    }
+
+    const partNumber = Number(request.partNumber);
+    const questionNumber = Number(request.questionNumber);
+    if ((!request.resultId && !request.submissionId) || !request.segmentKey || !partNumber || !questionNumber || !request.audioData) {
+      return retryJson({ error: 'Missing required fields' }, 400);
+    }
+
+    const original = await loadOriginalAnswer(supabaseService, user.id, request);
+    if (!original) {
+      return retryJson({ error: 'Report not found' }, 404);
+    }
+
+    const dataUrl = request.audioData;
+    const commaIdx = dataUrl.indexOf(',');
+    const mimeType = dataUrl.startsWith('data:') ? dataUrl.slice(5, commaIdx).split(';')[0] || 'audio/webm' : 'audio/webm';
+    const audioBytes = Uint8Array.from(atob(commaIdx >= 0 ? dataUrl.slice(commaIdx + 1) : dataUrl), (c) => c.charCodeAt(0));
+    const attemptId = crypto.randomUUID();
+    console.log(`[groq-speaking-evaluate] Single-question retry ${attemptId} for ${request.segmentKey} (${audioBytes.length} bytes)`);
+
+    // Keep the recording for the attempt history; the score does not depend on it
+    const filePath = `speaking-audios/ai-speaking/${user.id}/${original.testId}/retry-${request.segmentKey}-${attemptId.slice(0, 8)}.${mimeType === 'audio/mpeg' ? 'mp3' : 'webm'}`;
+    const upload = await uploadToR2(filePath, audioBytes, mimeType);
+    if (!upload.success) {
+      console.warn(`[groq-speaking-evaluate] Retry audio upload failed: ${upload.error}`);
+    }
+
+    const settings = await loadTranscriptionSettings(supabaseService);
+    const retry = await transcribeRetryAudio(supabaseService, new Blob([audioBytes], { type: mimeType }), attemptId, partNumber, settings);
+    if (retry.wordCount < MIN_RETRY_WORDS) {
+      return retryJson({ error: 'We could not hear enough of your answer. Please try again.' }, 422);
+    }
+
+    const { targets: scoringTargets, groqKeyId } = await checkoutScoringStage(supabaseService, settings.provider, {
+      jobId: `retry-${attemptId}`,
+      durationSeconds: 60,
+      partNumber,
+    });
+
+    const questionText = original.questionText || String(request.questionText || '');
+    let llmReply: LLMResponse;
+    try {
+      llmReply = await callGroqLLMWithModelFallback({
+        targets: scoringTargets,
+        serviceClient: supabaseService,
+        system: RETRY_SYSTEM_PROMPT,
+        prompt: buildQuestionRetryPrompt({
+          partNumber,
+          questionNumber,
+          questionText,
+          originalTranscript: original.transcript,
+          retryTranscript: retry.text,
+          retryDurationSeconds: retry.duration || Number(request.durationSeconds) || 0,
+        }),
+        maxTokensCandidates: [1024, 800],
+      });
+    } catch (error) {
+      if (groqKeyId && error instanceof LLMGatewayError && error.quotaExceeded) {
+        await supabaseService.rpc('mark_groq_key_exhausted', { p_key_id: groqKeyId, p_model: GROQ_LLM_MODEL });
+      }
+      throw error;
+    }
+
+    const evaluation = parseQuestionRetryEvaluation(llmReply.text);
+    if (!evaluation) {
+      throw new Error('Could not read the evaluation of your retry');
+    }
+
+    // The model only scores the original when it has a transcript to read
+    const originalCriteria: RetryCriteria = {};
+    for (const key of MODEL_SCORED_CRITERIA) {
+      const band = evaluation.original[key] ?? getCriterionBand(original.reportCriteria[key]);
+      if (band !== null && band !== undefined) originalCriteria[key] = band;
+    }
+    const originalPronunciation = getCriterionBand(original.reportCriteria.pronunciation);
+    if (originalPronunciation !== null) originalCriteria.pronunciation = originalPronunciation;
+
+    const retryCriteria: RetryCriteria = { ...evaluation.retry };
+    const retryPronunciation = retry.wordCount >= MIN_PRONUNCIATION_WORDS
+      ? estimatePronunciation([retry]).estimatedBand
+      : originalPronunciation;
+    if (retryPronunciation !== null) retryCriteria.pronunciation = retryPronunciation;
+
+    const { data: row, error: saveError } = await supabaseService
+      .from('speaking_question_attempts')
+      .insert({
+        id: attemptId,
+        user_id: user.id,
+        result_id: request.resultId || null,
+        submission_id: request.resultId ? null : request.submissionId,
+        segment_key: request.segmentKey,
+        part_number: partNumber,
+        question_number: questionNumber,
+        question_text: questionText,
+        transcript: retry.text,
+        audio_url: upload.url || null,
+        file_path: upload.success ? filePath : null,
+        duration_seconds: retry.duration || Number(request.durationSeconds) || null,
+        criteria: retryCriteria,
+        overall_band: retryOverallBand(retryCriteria),
+        original_criteria: originalCriteria,
+        original_band: retryOverallBand(originalCriteria),
+        feedback: evaluation.feedback,
+      })
+      .select()
+      .single();
+    if (saveError || !row) throw saveError || new Error('Failed to save attempt');
+
+    const attempt = attemptFromRow(row);
+    console.log(`[groq-speaking-evaluate] Retry ${attemptId} scored ${attempt.overallBand} (original ${attempt.originalBand})`);
+
+    return retryJson({ success: true, attempt });
+  } catch (error) {
+    console.error('[groq-speaking-evaluate] Single-question retry error:', error);
+    const message = error instanceof Error ? error.message : String(error);
+    return retryJson({ error: message || 'Failed to evaluate your retry' }, 500);
+  }
+}
@@ -1,13 +1,25 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getFromR2 } from "../_shared/r2Client.ts";
+import {
+  TranscriptionError,
+  checkoutTranscriptionProvider,
+  loadTranscriptionSettings,
+  requestTranscription,
+  transcriptionProviderOrder,
+  type TranscriptionProvider,
+  type TranscriptionProviderId,
+  type WhisperSegment,
+  type WhisperWord,
+} from "../_shared/transcriptionProviders.ts";
 
 /**
  * Groq Speaking Transcribe
  * 
  * Step 1 of Groq evaluation pipeline:
  * - Downloads audio segments from R2
- * - Calls Groq Whisper API with verbose_json for rich metadata
+ * - Calls a Whisper transcription provider with verbose_json for rich metadata
+ *   (Groq, or the school's self-hosted server - see _shared/transcriptionProviders.ts)
  * - Stores transcription with word-level timestamps and confidence
  * 
  * Features:
@@ -28,20 +40,6 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
-// Groq API endpoint
-const GROQ_API_URL = 'https://api.groq.com/openai/v1/audio/transcriptions';
-
-// =============================================================================
-// GROQ STT MODEL FALLBACK CHAIN (Transcription)
-// =============================================================================
-// Primary: whisper-large-v3-turbo - 400K ASH, 400 RPM, fastest
-// Fallback: whisper-large-v3 - 200K ASH, 300 RPM, more accurate
-// =============================================================================
-const GROQ_STT_MODELS = [
-  'whisper-large-v3-turbo',  // Primary: Fast, 400K ASH limit
-  'whisper-large-v3',        // Fallback: More accurate, 200K ASH limit
-];
-
 // Inter-segment delay (ms) - reduced from 3000ms since we typically have <12 segments
 // and Groq free tier allows 20 RPM. 1 second delay = 60 req/min max, well under limit.
 const INTER_SEGMENT_DELAY_MS = 1000;
@@ -209,32 +207,6 @@ function filterKnownHallucinationWords(words: WhisperWord[]): WhisperWord[] {
   return filtered;
 }
 
-interface WhisperWord {
-  word: string;
-  start: number;
-  end: number;
-  probability: number;
-}
-
-interface WhisperSegment {
-  id: number;
-  text: string;
-  start: number;
-  end: number;
-  avg_logprob: number;
-  no_speech_prob: number;
-  compression_ratio: number;
-  words?: WhisperWord[];
-}
-
-interface WhisperResponse {
-  text: string;
-  segments: WhisperSegment[];
-  language: string;
-  duration: number;
-  words?: WhisperWord[];
-}
-
 interface SegmentTranscription {
   segmentKey: string;
   partNumber: number;
@@ -315,30 +287,38 @@ serve(async (req) => {
       })
       .eq('id', jobId);
 
-    // Get Groq API key - use TEXT-based function signature
-    const { data: keyData, error: keyError } = await supabaseService.rpc('checkout_groq_key_for_stt', {
-      p_job_id: String(jobId),
-      p_lock_duration_seconds: 300,
-      p_part_number: 1,
-    });
+    // Transcription providers in fallback order; each is checked out when first needed
+    const transcriptionSettings = await loadTranscriptionSettings(supabaseService);
+    const providerOrder = transcriptionProviderOrder(job.provider, transcriptionSettings);
+    const usedProviders: TranscriptionProvider[] = [];
+    const audioSecondsByProvider = new Map<TranscriptionProviderId, number>();
+    let provider: TranscriptionProvider | null = null;
+
+    const nextProvider = async (): Promise<TranscriptionProvider | null> => {
+      while (providerOrder.length > 0) {
+        const id = providerOrder.shift()!;
+        const candidate = await checkoutTranscriptionProvider(supabaseService, id, transcriptionSettings, String(jobId));
+        if (candidate) {
+          console.log(`[groq-speaking-transcribe] Using ${id} transcription${candidate.keyId ? ` with key ${candidate.keyId.slice(0, 8)}...` : ''}`);
+          usedProviders.push(candidate);
+          if (candidate.keyId) {
+            // Update job with STT key used
+            await supabaseService
+              .from('speaking_evaluation_jobs')
+              .update({ groq_stt_key_id: candidate.keyId })
+              .eq('id', jobId);
+          }
+          return candidate;
+        }
+      }
+      return null;
+    };
 
-    if (keyError || !keyData || keyData.length === 0) {
-      console.error(`[groq-speaking-transcribe] No Groq keys available:`, keyError);
-      throw new Error('No Groq API keys available for STT');
+    provider = await nextProvider();
+    if (!provider) {
+      throw new Error('No transcription provider available (Groq keys exhausted and no self-hosted server)');
     }
 
-    const groqKey = keyData[0];
-    const groqApiKey = groqKey.out_key_value;
-    const groqKeyId = groqKey.out_key_id;
-
-    console.log(`[groq-speaking-transcribe] Using Groq key ${groqKeyId?.slice(0, 8)}...`);
-
-    // Update job with STT key used
-    await supabaseService
-      .from('speaking_evaluation_jobs')
-      .update({ groq_stt_key_id: groqKeyId })
-      .eq('id', jobId);
-
     // Get file paths from job
     const filePaths = job.file_paths as Record<string, string>;
     const segments = Object.entries(filePaths);
@@ -395,44 +375,51 @@ serve(async (req) => {
           continue;
         }
 
-        // Call Groq Whisper API
-        const transcription = await transcribeWithWhisper(
-          audioBlob,
-          groqApiKey,
-          segmentKey,
-          partNumber,
-          questionNumber
-        );
+        // Rate-limited providers hand the segment on to the next one
+        let transcription: SegmentTranscription | null = null;
+        while (provider) {
+          try {
+            transcription = await transcribeWithWhisper(
+              audioBlob,
+              provider,
+              segmentKey,
+              partNumber,
+              questionNumber
+            );
+            break;
+          } catch (providerError) {
+            if (!(providerError instanceof TranscriptionError) || !providerError.rateLimited) throw providerError;
+            console.warn(`[groq-speaking-transcribe] ${provider.id} rate limited, switching provider`);
+            await provider.markRateLimited();
+            provider = await nextProvider();
+          }
+        }
+        if (!provider) {
+          throw new Error('RATE_LIMIT: All transcription providers rate limited');
+        }
 
         if (transcription) {
           transcriptions.push(transcription);
           totalAudioSeconds += transcription.duration;
+          audioSecondsByProvider.set(provider.id, (audioSecondsByProvider.get(provider.id) || 0) + transcription.duration);
         }
 
       } catch (segmentError: any) {
         console.error(`[groq-speaking-transcribe] Segment ${segmentKey} error:`, segmentError.message);
         
-        // Check if it's a rate limit error
-        if (segmentError.message?.includes('429') || segmentError.message?.includes('rate limit')) {
-          // Mark key as rate limited and try to switch
-          await supabaseService.rpc('mark_groq_key_rpm_limited', {
-            p_key_id: groqKeyId,
-            p_cooldown_seconds: 60,
-          });
-          throw new Error('RATE_LIMIT: Groq RPM limit hit');
+        if (segmentError.message?.startsWith('RATE_LIMIT')) {
+          throw segmentError;
         }
         
         // Continue with other segments
       }
     }
 
-    // Record ASH usage
-    if (totalAudioSeconds > 0) {
-      await supabaseService.rpc('record_groq_ash_usage', {
-        p_key_id: groqKeyId,
-        p_audio_seconds: Math.ceil(totalAudioSeconds),
-      });
-      console.log(`[groq-speaking-transcribe] Recorded ${Math.ceil(totalAudioSeconds)}s ASH usage`);
+    // Record usage (ASH for Groq keys)
+    for (const used of usedProviders) {
+      const seconds = audioSecondsByProvider.get(used.id) || 0;
+      await used.recordUsage(seconds);
+      if (seconds > 0) console.log(`[groq-speaking-transcribe] ${used.id}: ${Math.ceil(seconds)}s of audio transcribed`);
     }
 
     // Store transcription results
@@ -440,6 +427,7 @@ serve(async (req) => {
       transcriptions,
       totalAudioSeconds,
       segmentCount: transcriptions.length,
+      sttProviders: [...audioSecondsByProvider.keys()],
       processedAt: new Date().toISOString(),
     };
 
@@ -542,78 +530,21 @@ async function downloadFromR2(
 
 async function transcribeWithWhisper(
   audioBlob: Blob,
-  apiKey: string,
+  provider: TranscriptionProvider,
   segmentKey: string,
   partNumber: number,
   questionNumber: number
 ): Promise<SegmentTranscription | null> {
   const startTime = Date.now();
 
-  // Prepare form data for Whisper API
-  // IMPORTANT: Use proper file extension based on blob type for better Groq handling
-  const fileExtension = audioBlob.type.includes('mpeg') || audioBlob.type.includes('mp3') ? 'mp3' : 'webm';
-  
-  // Try each STT model in the fallback chain
-  let result: WhisperResponse | null = null;
-  let usedModel: string | null = null;
-  
-  for (const sttModel of GROQ_STT_MODELS) {
-    console.log(`[groq-speaking-transcribe] Trying STT model: ${sttModel}`);
-    
-    const formData = new FormData();
-    formData.append('file', audioBlob, `audio.${fileExtension}`);
-    formData.append('model', sttModel);
-    formData.append('response_format', 'verbose_json');
-    formData.append('timestamp_granularities[]', 'word');
-    formData.append('timestamp_granularities[]', 'segment');
-    formData.append('language', 'en');
-    formData.append('temperature', '0');  // Reduce randomness to minimize hallucinations
-  
-    // MINIMAL prompt to avoid Whisper echoing it back into transcripts.
-    formData.append('prompt', 
+  // MINIMAL prompt to avoid Whisper echoing it back into transcripts.
+  const { result, model: usedModel } = await requestTranscription(provider, audioBlob, {
+    prompt:
       'Transcribe exactly what is spoken. ' +
       'Include filler words: um, uh, like, you know. ' +
       'Silence produces no text. ' +
-      'Speech unclear: [INAUDIBLE].'
-    );
-
-    try {
-      const response = await fetch(GROQ_API_URL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.warn(`[groq-speaking-transcribe] Model ${sttModel} failed: ${response.status} - ${errorText}`);
-        
-        // Rate limit - try next model
-        if (response.status === 429) {
-          console.log(`[groq-speaking-transcribe] Model ${sttModel} rate limited, trying next...`);
-          continue;
-        }
-        
-        // Other errors - try next model
-        continue;
-      }
-
-      result = await response.json();
-      usedModel = sttModel;
-      console.log(`[groq-speaking-transcribe] Success with model ${sttModel}`);
-      break;
-    } catch (err) {
-      console.warn(`[groq-speaking-transcribe] Model ${sttModel} error:`, err);
-      continue;
-    }
-  }
-  
-  if (!result) {
-    console.error(`[groq-speaking-transcribe] All STT models failed for ${segmentKey}`);
-    throw new Error(`Whisper API error: All STT models failed`);
-  }
+      'Speech unclear: [INAUDIBLE].',
+  });
 
   const processingTime = Date.now() - startTime;
   const shortAudioDuration = typeof result.duration === 'number' ? result.duration : 0;
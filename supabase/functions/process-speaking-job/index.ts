@@ -9,6 +9,12 @@ import {
   isDailyQuotaExhaustedError
 } from "../_shared/apiKeyQuotaUtils.ts";
 import { getFromR2 } from "../_shared/r2Client.ts";
+import { applyPart3QuestionTree, type SpeakingPayload } from "../_shared/part3FollowUp.ts";
+import {
+  describeInterventionsForPrompt,
+  readInterventions,
+  type ExaminerIntervention,
+} from "../_shared/examinerInterventions.ts";
 import {
   decryptKey,
   uploadToGoogleFileAPI,
@@ -16,7 +22,7 @@ import {
   exponentialBackoffWithJitter,
   extractRetryAfterSeconds,
   sleep,
-  calculateBandFromCriteria,
+  resolveSpeakingOverallBand,
   corsHeaders,
   QuotaError,
 } from "../_shared/speakingUtils.ts";
@@ -202,6 +208,9 @@ async function processJob(job: any, supabaseService: any, appEncryptionKey: stri
     }
   }
 
+  // Adaptive Part 3 asks questions written during the test
+  payload = applyPart3QuestionTree(payload, partial_results?.part3QuestionTree);
+
   // Build segment ordering from file_paths - extract part number directly from key
   // Segment keys are formatted as: part{1|2|3}-q{questionId} where questionId may contain hyphens
   const parts = Array.isArray(payload?.speakingParts) ? payload.speakingParts : [];
@@ -329,7 +338,14 @@ async function processJob(job: any, supabaseService: any, appEncryptionKey: stri
   console.log(`[processJob] Key queue: ${keyQueue.length} keys`);
 
   // Build prompt with explicit audio indexing
-  const prompt = buildPrompt(payload, topic || testRow.topic, difficulty || testRow.difficulty, fluency_flag, orderedSegments);
+  const prompt = buildPrompt(
+    payload,
+    topic || testRow.topic,
+    difficulty || testRow.difficulty,
+    fluency_flag,
+    orderedSegments,
+    readInterventions(partial_results?.examinerInterventions),
+  );
 
   // Evaluation loop
   let evaluationResult: any = null;
@@ -457,7 +473,7 @@ async function processJob(job: any, supabaseService: any, appEncryptionKey: stri
 
   if (!evaluationResult) throw new Error('Evaluation failed: all models/keys exhausted');
 
-  const overallBand = evaluationResult.overall_band || calculateBand(evaluationResult);
+  const overallBand = evaluationResult.overall_band || resolveSpeakingOverallBand(evaluationResult);
 
   // Build public audio URLs
   const publicBase = (Deno.env.get('R2_PUBLIC_URL') || '').replace(/\/$/, '');
@@ -493,6 +509,7 @@ async function processJob(job: any, supabaseService: any, appEncryptionKey: stri
         transcripts_by_part: evaluationResult?.transcripts_by_part || {},
         transcripts_by_question: evaluationResult?.transcripts_by_question || {},
         file_paths,
+        part3_question_tree: partial_results?.part3QuestionTree,
       },
       evaluation_timing: evaluationTiming,
       completed_at: new Date().toISOString(),
@@ -575,7 +592,15 @@ async function processTextBasedEvaluation(job: any, supabaseService: any, appEnc
   if (keyQueue.length === 0) throw new Error('No API keys available (user or admin)');
 
   // Build the prompt
-  const prompt = buildTextPrompt(transcripts, topic || testRow.topic, difficulty || testRow.difficulty, fluency_flag, testRow.payload);
+  const payload = applyPart3QuestionTree(testRow.payload || {}, partial_results?.part3QuestionTree);
+  const prompt = buildTextPrompt(
+    transcripts,
+    topic || testRow.topic,
+    difficulty || testRow.difficulty,
+    fluency_flag,
+    payload,
+    readInterventions(partial_results?.examinerInterventions),
+  );
 
   // Count parts in transcripts for progress tracking
   const partsPresent = new Set<number>();
@@ -750,7 +775,7 @@ async function processTextBasedEvaluation(job: any, supabaseService: any, appEnc
   }
 
   // Calculate overall band - IDENTICAL to audio mode (no -0.5 penalty)
-  const overallBand = calculateBand(evaluationResult);
+  const overallBand = resolveSpeakingOverallBand(evaluationResult);
   evaluationResult.overall_band = overallBand;
 
   // =========================================================================
@@ -809,6 +834,7 @@ async function processTextBasedEvaluation(job: any, supabaseService: any, appEnc
         audio_urls: audioUrls,
         transcripts, // Include the rich transcript data (we store input transcripts, not echoed from Gemini)
         file_paths: latestFilePaths,
+        part3_question_tree: partial_results?.part3QuestionTree,
       },
       evaluation_timing: evaluationTimingText,
       completed_at: new Date().toISOString(),
@@ -836,7 +862,8 @@ function buildTextPrompt(
   topic: string,
   difficulty: string,
   fluencyFlag: boolean,
-  payload?: any
+  payload?: SpeakingPayload,
+  interventions: ExaminerIntervention[] = []
 ): string {
   const parts = Array.isArray(payload?.speakingParts) ? payload.speakingParts : [];
   const questionById = new Map<string, { partNumber: number; questionNumber: number; questionText: string }>();
@@ -888,6 +915,7 @@ Return ONLY valid JSON.
 
 CONTEXT: Topic: ${topic || 'General'}, Difficulty: ${difficulty || 'Medium'}
 ${fluencyFlag ? '⚠️ Speaking time under 80 seconds - apply fluency penalty.' : ''}
+${describeInterventionsForPrompt(interventions)}
 
 CANDIDATE RESPONSES (Speech Recognition Transcripts):
 ${segmentSummaries}
@@ -1002,6 +1030,7 @@ function buildPrompt(
   difficulty: string | undefined,
   fluencyFlag: boolean | undefined,
   orderedSegments: Array<{ segmentKey: string; partNumber: 1 | 2 | 3; questionNumber: number; questionText: string }>,
+  interventions: ExaminerIntervention[] = [],
 ): string {
   const parts = Array.isArray(payload?.speakingParts) ? payload.speakingParts : [];
   const questions = parts
@@ -1029,6 +1058,7 @@ Evaluate exactly as an official IELTS examiner. Return ONLY valid JSON.
 
 CONTEXT: Topic: ${topic || 'General'}, Difficulty: ${difficulty || 'Medium'}, Questions: ${numQ}
 ${fluencyFlag ? '⚠️ Part 2 speaking time under 80 seconds - apply fluency penalty.' : ''}
+${describeInterventionsForPrompt(interventions)}
 
 ══════════════════════════════════════════════════════════════
 CRITICAL: AUDIO-TO-QUESTION MAPPING (FIXED - DO NOT CHANGE!)
@@ -1118,41 +1148,3 @@ QUESTIONS JSON: ${JSON.stringify(questions)}
 
 REMINDER: There are exactly ${numQ} audio files. Return exactly ${numQ} modelAnswers with correct segment_keys matching the AUDIO_0 to AUDIO_${numQ - 1} mapping above.`;
 }
-
-function calculateBand(result: any): number {
-  const c = result.criteria;
-  
-  // CRITERIA-DERIVED BAND SCORE (Primary method - official IELTS approach)
-  // The overall band should be the average of the four criteria, rounded to nearest 0.5
-  const criterionScores = c ? [
-    c.fluency_coherence?.band,
-    c.lexical_resource?.band,
-    c.grammatical_range?.band,
-    c.pronunciation?.band,
-  ].filter((s: unknown): s is number => typeof s === 'number') : [];
-  
-  if (criterionScores.length > 0) {
-    const criterionAvg = criterionScores.reduce((a, b) => a + b, 0) / criterionScores.length;
-    // IELTS rounding: .25 rounds up to .5, .75 rounds up to next whole
-    const rounded = Math.round(criterionAvg * 2) / 2;
-    console.log(`[calculateBand] Criteria scores: ${criterionScores.join(', ')} → avg=${criterionAvg.toFixed(2)} → band=${rounded}`);
-    return rounded;
-  }
-  
-  // FALLBACK: If no criteria scores, try to extract from modelAnswers per-question scores
-  const modelAnswers = Array.isArray(result.modelAnswers) ? result.modelAnswers : [];
-  const questionScores = modelAnswers
-    .map((ma: any) => ma.estimatedBand ?? ma.estimated_band ?? ma.questionBandScore ?? ma.question_band_score)
-    .filter((band: unknown): band is number => typeof band === 'number');
-  
-  if (questionScores.length > 0) {
-    const avg = questionScores.reduce((a: number, b: number) => a + b, 0) / questionScores.length;
-    const rounded = Math.round(avg * 2) / 2;
-    console.log(`[calculateBand] Fallback - question scores avg: ${avg.toFixed(2)} → band=${rounded}`);
-    return rounded;
-  }
-  
-  // Default fallback
-  console.log('[calculateBand] No scores found, returning default 6.0');
-  return 6.0;
-}
@@ -0,0 +1,369 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  rawScoreToBand,
+  toTestModule,
+  type IELTSTestModule,
+  type ScoredSkill,
+} from "../_shared/bandConversion.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/**
+ * Admin adjudication of answer disputes.
+ *
+ * action = 'reject': closes the dispute.
+ * action = 'accept': appends the disputed answer to the question's "/"-separated
+ * correct_answer variants and re-scores every submission of that test that gave
+ * the same answer. Pending disputes for the same question and answer are closed
+ * as accepted too.
+ *
+ * The key change, the re-scoring and closing the dispute run in one database
+ * transaction (accept_*_answer_dispute), so a failure leaves the dispute
+ * pending with nothing applied and a retry starts from scratch.
+ */
+
+type DisputeSource = "reading" | "listening" | "ai_practice";
+
+interface AnswerDispute {
+  id: string;
+  test_source: DisputeSource;
+  test_id: string;
+  question_number: number;
+  user_answer: string;
+  status: string;
+}
+
+interface PracticePayload {
+  // Academic when absent, as in GeneratedTest.testModule
+  testModule?: string;
+  questionGroups?: Array<{ questions?: Array<{ question_number: number; correct_answer?: string }> }>;
+}
+
+interface DisputeResolution {
+  adminNote: string | null;
+  resolvedBy: string;
+}
+
+interface PracticeQuestionResult {
+  questionNumber: number;
+  userAnswer?: string;
+  correctAnswer?: string;
+  isCorrect: boolean;
+  verdict?: Record<string, unknown>;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Same normalization as checkAnswerWithAlternatives in the web app
+function normalizeAnswer(answer: string): string {
+  return (answer ?? "").toLowerCase().trim();
+}
+
+function matchesVariant(userAnswer: string, correctAnswer: string): boolean {
+  const normalizedUser = normalizeAnswer(userAnswer);
+  if (!normalizedUser) return false;
+  return correctAnswer.split("/").map(normalizeAnswer).some((alt) => alt === normalizedUser);
+}
+
+function appendVariant(correctAnswer: string, answer: string): string {
+  if (matchesVariant(answer, correctAnswer)) return correctAnswer;
+  return correctAnswer ? `${correctAnswer}/${answer.trim()}` : answer.trim();
+}
+
+/**
+ * Band for every raw score of each (skill, total) pair, keyed
+ * '<skill>:<total>:<score>' as the accept RPCs expect. The RPC picks the band
+ * for whatever score it ends up writing.
+ */
+function bandTable(
+  entries: Array<{ skill: ScoredSkill; total: number }>,
+  testModule: IELTSTestModule,
+): Record<string, number> {
+  const bands: Record<string, number> = {};
+  for (const { skill, total } of entries) {
+    for (let score = 0; score <= total; score++) {
+      bands[`${skill}:${total}:${score}`] = rawScoreToBand(skill, score, total, testModule);
+    }
+  }
+  return bands;
+}
+
+async function acceptForCambridgeTest(
+  supabase: SupabaseClient,
+  dispute: AnswerDispute,
+  resolution: DisputeResolution,
+): Promise<number> {
+  const isReading = dispute.test_source === "reading";
+  const skill: ScoredSkill = isReading ? "reading" : "listening";
+
+  // 1. Locate the question row
+  let question: { id: string; correct_answer: string } | null = null;
+  if (isReading) {
+    const { data: passages, error: passageError } = await supabase
+      .from("reading_passages")
+      .select("id")
+      .eq("test_id", dispute.test_id);
+    if (passageError) throw passageError;
+
+    const { data, error } = await supabase
+      .from("reading_questions")
+      .select("id, correct_answer")
+      .in("passage_id", (passages ?? []).map((p) => p.id))
+      .eq("question_number", dispute.question_number)
+      .maybeSingle();
+    if (error) throw error;
+    question = data;
+  } else {
+    const { data: groups, error: groupError } = await supabase
+      .from("listening_question_groups")
+      .select("id")
+      .eq("test_id", dispute.test_id);
+    if (groupError) throw groupError;
+
+    const { data, error } = await supabase
+      .from("listening_questions")
+      .select("id, correct_answer")
+      .in("group_id", (groups ?? []).map((g) => g.id))
+      .eq("question_number", dispute.question_number)
+      .maybeSingle();
+    if (error) throw error;
+    question = data;
+  }
+
+  if (!question) throw new Error(`Question ${dispute.question_number} not found for test ${dispute.test_id}`);
+
+  const oldKey = question.correct_answer || "";
+  const newKey = appendVariant(oldKey, dispute.user_answer);
+
+  // 2. Find submissions that now match but did not before
+  const { data: test, error: testError } = await supabase
+    .from(isReading ? "reading_tests" : "listening_tests")
+    .select("test_type")
+    .eq("id", dispute.test_id)
+    .maybeSingle();
+  if (testError) throw testError;
+
+  const { data: submissions, error: submissionError } = await supabase
+    .from(isReading ? "reading_test_submissions" : "listening_test_submissions")
+    .select("id, answers, total_questions")
+    .eq("test_id", dispute.test_id);
+  if (submissionError) throw submissionError;
+
+  const rescore = (submissions ?? []).filter((submission) => {
+    const answers = (submission.answers ?? {}) as Record<string, string>;
+    const answer = answers[String(dispute.question_number)];
+    return typeof answer === "string" && !matchesVariant(answer, oldKey) && matchesVariant(answer, newKey);
+  });
+
+  // 3. Update the key, the scores and the dispute together
+  const { data: rescored, error } = await supabase.rpc("accept_cambridge_answer_dispute", {
+    p_dispute_id: dispute.id,
+    p_resolved_by: resolution.resolvedBy,
+    p_admin_note: resolution.adminNote,
+    p_question_id: question.id,
+    p_old_key: question.correct_answer,
+    p_new_key: newKey,
+    p_submission_ids: rescore.map((submission) => submission.id),
+    p_bands: bandTable(rescore.map((submission) => ({ skill, total: submission.total_questions })), toTestModule(test?.test_type)),
+  });
+  if (error) throw error;
+
+  return rescored ?? 0;
+}
+
+async function acceptForAIPractice(
+  supabase: SupabaseClient,
+  dispute: AnswerDispute,
+  resolution: DisputeResolution,
+): Promise<number> {
+  // 1. Append the variant inside the stored test payload
+  const { data: test, error: testError } = await supabase
+    .from("ai_practice_tests")
+    .select("id, payload")
+    .eq("id", dispute.test_id)
+    .maybeSingle();
+  if (testError) throw testError;
+  if (!test) throw new Error(`AI practice test ${dispute.test_id} not found`);
+
+  const payload = (test.payload ?? {}) as PracticePayload;
+  let oldKey = "";
+  let newKey = "";
+  for (const group of payload.questionGroups ?? []) {
+    for (const q of group.questions ?? []) {
+      if (q.question_number !== dispute.question_number) continue;
+      oldKey = q.correct_answer || "";
+      newKey = appendVariant(oldKey, dispute.user_answer);
+      q.correct_answer = newKey;
+    }
+  }
+  if (!newKey) throw new Error(`Question ${dispute.question_number} not found in AI practice test`);
+
+  // 2. Find stored practice results for this test that now match
+  const { data: results, error: resultsError } = await supabase
+    .from("ai_practice_results")
+    .select("id, module, total_questions, question_results")
+    .eq("test_id", dispute.test_id);
+  if (resultsError) throw resultsError;
+
+  const updates: Array<{ id: string; index: number; entry: PracticeQuestionResult }> = [];
+  const totals: Array<{ skill: ScoredSkill; total: number }> = [];
+  for (const result of results ?? []) {
+    const questionResults = (Array.isArray(result.question_results) ? result.question_results : []) as PracticeQuestionResult[];
+    const index = questionResults.findIndex((r) => r.questionNumber === dispute.question_number);
+    const qr = questionResults[index];
+    if (!qr || qr.isCorrect || !matchesVariant(qr.userAnswer ?? "", newKey)) continue;
+
+    updates.push({
+      id: result.id,
+      index,
+      entry: {
+        ...qr,
+        isCorrect: true,
+        correctAnswer: newKey,
+        verdict: {
+          accepted: true,
+          matcher: "exact",
+          normalizedUser: normalizeAnswer(qr.userAnswer ?? ""),
+          normalizedCorrect: normalizeAnswer(dispute.user_answer),
+          matchedAlternative: dispute.user_answer.trim(),
+        },
+      },
+    });
+    totals.push({ skill: result.module === "listening" ? "listening" : "reading", total: result.total_questions });
+  }
+
+  // 3. Update the payload, the results and the dispute together. Reading
+  // results were banded with the test's own module (General Training or Academic)
+  const { data: rescored, error } = await supabase.rpc("accept_practice_answer_dispute", {
+    p_dispute_id: dispute.id,
+    p_resolved_by: resolution.resolvedBy,
+    p_admin_note: resolution.adminNote,
+    p_payload: newKey !== oldKey ? payload : null,
+    p_results: updates,
+    p_bands: bandTable(totals, toTestModule(payload.testModule)),
+  });
+  if (error) throw error;
+
+  return rescored ?? 0;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify admin status
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse({ error: "Invalid token" }, 401);
+    }
+
+    const { data: adminCheck } = await supabase
+      .from("admin_users")
+      .select("id")
+      .eq("user_id", user.id)
+      .single();
+
+    if (!adminCheck) {
+      return jsonResponse({ error: "Admin access required" }, 403);
+    }
+
+    const { disputeId, action, adminNote } = await req.json();
+
+    if (!disputeId || (action !== "accept" && action !== "reject")) {
+      return jsonResponse({ error: "disputeId and action ('accept' | 'reject') are required" }, 400);
+    }
+
+    const { data: dispute, error: disputeError } = await supabase
+      .from("answer_disputes")
+      .select("id, test_source, test_id, question_number, user_answer, status")
+      .eq("id", disputeId)
+      .maybeSingle();
+
+    if (disputeError) throw disputeError;
+    if (!dispute) {
+      return jsonResponse({ error: "Dispute not found" }, 404);
+    }
+    if (dispute.status !== "pending") {
+      return jsonResponse({ error: `Dispute is already ${dispute.status}` }, 409);
+    }
+
+    const resolution = {
+      admin_note: adminNote ?? null,
+      resolved_by: user.id,
+      resolved_at: new Date().toISOString(),
+    };
+
+    if (action === "reject") {
+      const { error } = await supabase
+        .from("answer_disputes")
+        .update({ ...resolution, status: "rejected" })
+        .eq("id", dispute.id);
+      if (error) throw error;
+
+      return jsonResponse({ success: true, status: "rejected", rescoredSubmissions: 0 });
+    }
+
+    const acceptance: DisputeResolution = { adminNote: resolution.admin_note, resolvedBy: user.id };
+    const rescoredSubmissions = dispute.test_source === "ai_practice"
+      ? await acceptForAIPractice(supabase, dispute as AnswerDispute, acceptance)
+      : await acceptForCambridgeTest(supabase, dispute as AnswerDispute, acceptance);
+
+    // Close duplicate pending disputes for the same question and answer
+    const { data: siblings, error: siblingsError } = await supabase
+      .from("answer_disputes")
+      .select("id, user_answer")
+      .eq("status", "pending")
+      .eq("test_source", dispute.test_source)
+      .eq("test_id", dispute.test_id)
+      .eq("question_number", dispute.question_number);
+    if (siblingsError) throw siblingsError;
+
+    const duplicateIds = (siblings ?? [])
+      .filter((s) => normalizeAnswer(s.user_answer) === normalizeAnswer(dispute.user_answer))
+      .map((s) => s.id);
+
+    if (duplicateIds.length > 0) {
+      const { error: duplicateError } = await supabase
+        .from("answer_disputes")
+        .update({ ...resolution, status: "accepted" })
+        .in("id", duplicateIds);
+      if (duplicateError) throw duplicateError;
+    }
+
+    console.log(
+      `[resolve-answer-dispute] Accepted ${dispute.id}: re-scored ${rescoredSubmissions} submission(s), closed ${duplicateIds.length} duplicate(s)`,
+    );
+
+    return jsonResponse({
+      success: true,
+      status: "accepted",
+      rescoredSubmissions,
+      closedDuplicates: duplicateIds.length,
+    });
+  } catch (error) {
+    console.error("resolve-answer-dispute error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -39,34 +39,6 @@ function isPermanentQuotaExhausted(err: unknown): boolean {
   return false;
 }
 
-function computeOverallBandFromQuestionBands(result: unknown): number | null {
-  const resultObj = result as { modelAnswers?: Array<{ partNumber?: number; estimatedBand?: number }> };
-  const modelAnswers = Array.isArray(resultObj?.modelAnswers) ? resultObj.modelAnswers : [];
-  const bands = modelAnswers
-    .map((a) => ({
-      part: Number(a?.partNumber),
-      band: typeof a?.estimatedBand === 'number' ? a.estimatedBand : Number(a?.estimatedBand),
-    }))
-    .filter((x) => (x.part === 1 || x.part === 2 || x.part === 3) && Number.isFinite(x.band));
-
-  if (!bands.length) return null;
-
-  const weightForPart = (p: number) => (p === 2 ? 2.0 : p === 3 ? 1.5 : 1.0);
-  const weighted = bands.reduce(
-    (acc, x) => {
-      const w = weightForPart(x.part);
-      return { sum: acc.sum + x.band * w, w: acc.w + w };
-    },
-    { sum: 0, w: 0 },
-  );
-
-  if (weighted.w <= 0) return null;
-
-  const avg = weighted.sum / weighted.w;
-  const rounded = Math.round(avg * 2) / 2;
-  return Math.min(9, Math.max(1, rounded));
-}
-
 function buildPrompt(
   payload: unknown,
   topic: string | undefined,
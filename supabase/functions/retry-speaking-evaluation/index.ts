@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { usesTranscriptionPipeline } from "../_shared/transcriptionProviders.ts";
 
 /**
  * Retry Speaking Evaluation Edge Function
@@ -198,7 +199,7 @@ serve(async (req) => {
           targetFunction = 'process-speaking-job';
         } else if (hasGoogleUris) {
           // Audio-based evaluation - route based on configured provider
-          targetFunction = configuredProvider === 'groq' ? 'groq-speaking-transcribe' : 'speaking-evaluate-job';
+          targetFunction = usesTranscriptionPipeline(configuredProvider) ? 'groq-speaking-transcribe' : 'speaking-evaluate-job';
         } else {
           targetFunction = 'speaking-upload-job';
         }
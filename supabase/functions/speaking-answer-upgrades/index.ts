@@ -0,0 +1,241 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCombinedActiveKeys, markKeyExhausted } from "../_shared/userApiKeyUtils.ts";
+import { callLLM, geminiTarget, LLMGatewayError, loadConfiguredTargets } from "../_shared/llmGateway.ts";
+import {
+  ANSWER_UPGRADE_VERSION,
+  MIN_UPGRADE_WORDS,
+  buildAnswerUpgradePrompt,
+  parseAnswerUpgrades,
+  type AnswerUpgradeSource,
+  type AnswerUpgradesRecord,
+} from "../_shared/answerUpgrade.ts";
+
+/**
+ * Speaking Answer Upgrades - optional follow-up stage of a speaking evaluation
+ *
+ * Runs after the job has completed: rewrites each of the candidate's own
+ * transcripts one band higher with every change tagged by criterion, and
+ * stores the result in the evaluation report as `answer_upgrades`. While it
+ * runs the job sits in the `answer_upgrades` stage (status stays
+ * `completed`), so the results page keeps working and a second request is
+ * refused.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const UPGRADE_MODELS = ['gemini-2.5-flash', 'gemini-2.0-flash'];
+const UPGRADE_STAGE = 'answer_upgrades';
+// A stage older than this is treated as abandoned and may be restarted
+const STALE_STAGE_SECONDS = 180;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+type StoredEntry = Record<string, unknown>;
+
+interface StoredReport {
+  modelAnswers?: StoredEntry[];
+}
+
+interface StoredAnswers {
+  transcripts_by_question?: Record<string, StoredEntry[]>;
+}
+
+// The answers worth rewriting, with the band each was given
+function collectSources(
+  report: StoredReport | null,
+  answers: StoredAnswers | null,
+  fallbackBand: number,
+): AnswerUpgradeSource[] {
+  const modelAnswers = Array.isArray(report?.modelAnswers) ? report.modelAnswers : [];
+  const bandByKey = new Map<string, number>();
+  for (const m of modelAnswers) {
+    const band = Number(m?.estimatedBand);
+    if (m?.segment_key && Number.isFinite(band) && band > 0) bandByKey.set(String(m.segment_key).toLowerCase(), band);
+  }
+
+  const sources: AnswerUpgradeSource[] = [];
+  const byQuestion = answers?.transcripts_by_question && typeof answers.transcripts_by_question === 'object'
+    ? answers.transcripts_by_question
+    : {};
+  for (const [part, entries] of Object.entries(byQuestion)) {
+    if (!Array.isArray(entries)) continue;
+    for (const entry of entries) {
+      const segmentKey = String(entry?.segment_key || '');
+      if (!segmentKey) continue;
+      sources.push({
+        segmentKey,
+        partNumber: Number(part),
+        questionNumber: Number(entry?.question_number) || sources.length + 1,
+        questionText: String(entry?.question_text || ''),
+        transcript: String(entry?.transcript || ''),
+        band: bandByKey.get(segmentKey.toLowerCase()) ?? fallbackBand,
+      });
+    }
+  }
+
+  // Text-based results may only carry the transcript on the model answers
+  if (sources.length === 0) {
+    for (const m of modelAnswers) {
+      if (!m?.segment_key) continue;
+      sources.push({
+        segmentKey: String(m.segment_key),
+        partNumber: Number(m.partNumber) || 1,
+        questionNumber: Number(m.questionNumber) || sources.length + 1,
+        questionText: String(m.question || ''),
+        transcript: String(m.candidateResponse || ''),
+        band: bandByKey.get(String(m.segment_key).toLowerCase()) ?? fallbackBand,
+      });
+    }
+  }
+
+  return sources.filter(
+    (s) => s.band < 9 && s.transcript.split(/\s+/).filter(Boolean).length >= MIN_UPGRADE_WORDS
+  );
+}
+
+async function generateUpgrades(
+  supabaseService: ReturnType<typeof createClient>,
+  userId: string,
+  sources: AnswerUpgradeSource[],
+): Promise<AnswerUpgradesRecord | null> {
+  const { keys, isUserKey } = await getCombinedActiveKeys(supabaseService, userId, 'flash_2_5');
+  if (keys.length === 0) throw new Error('No API keys available');
+
+  const targets = [
+    ...keys.map((key, i) => geminiTarget(key.key_value, UPGRADE_MODELS, isUserKey[i] ? null : key.id)),
+    ...(await loadConfiguredTargets(supabaseService, 'evaluate_speaking', { excludeProviders: ['gemini'] })),
+  ];
+
+  try {
+    const response = await callLLM(
+      { taskType: 'evaluate_speaking', prompt: buildAnswerUpgradePrompt(sources), json: true, temperature: 0.4, maxTokens: 16000 },
+      targets,
+      {
+        serviceClient: supabaseService,
+        logPrefix: 'speaking-answer-upgrades',
+        policy: { onRateLimit: 'next_target' },
+        onFailure: async (target, failure) => {
+          const index = targets.indexOf(target);
+          if (failure.kind !== 'quota' || index < 0 || index >= keys.length) return;
+          await markKeyExhausted(supabaseService, keys[index].id, isUserKey[index], 'flash_2_5');
+        },
+      },
+    );
+
+    const upgrades = parseAnswerUpgrades(response.text, sources);
+    if (upgrades.length > 0) {
+      return { version: ANSWER_UPGRADE_VERSION, generatedAt: new Date().toISOString(), upgrades };
+    }
+    console.warn(`[speaking-answer-upgrades] ${response.provider}/${response.model} returned no usable upgrades`);
+  } catch (err) {
+    if (!(err instanceof LLMGatewayError)) throw err;
+    console.error('[speaking-answer-upgrades] All keys failed:', err.message);
+  }
+  return null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseService = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  let jobId: string | null = null;
+  let jobPartialResults: Record<string, unknown> = {};
+
+  const setJobStage = async (stage: string, answerUpgrades: Record<string, unknown>) => {
+    if (!jobId) return;
+    await supabaseService
+      .from('speaking_evaluation_jobs')
+      .update({
+        stage,
+        partial_results: { ...jobPartialResults, answerUpgrades },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', jobId);
+  };
+
+  try {
+    const supabaseClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization')! } },
+    });
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { resultId } = await req.json().catch(() => ({}));
+    if (!resultId) {
+      return jsonResponse({ error: 'resultId is required' }, 400);
+    }
+
+    const { data: resultRow, error: resultError } = await supabaseService
+      .from('ai_practice_results')
+      .select('id, user_id, band_score, question_results, answers')
+      .eq('id', resultId)
+      .eq('user_id', user.id)
+      .eq('module', 'speaking')
+      .maybeSingle();
+    if (resultError || !resultRow) {
+      return jsonResponse({ error: 'Result not found' }, 404);
+    }
+
+    // Parallel-mode results have no job; the stage is only tracked when there is one
+    const { data: job } = await supabaseService
+      .from('speaking_evaluation_jobs')
+      .select('id, stage, status, partial_results, updated_at')
+      .eq('result_id', resultId)
+      .maybeSingle();
+    if (job) {
+      const stageAgeSeconds = (Date.now() - new Date(job.updated_at).getTime()) / 1000;
+      if (job.stage === UPGRADE_STAGE && stageAgeSeconds < STALE_STAGE_SECONDS) {
+        return jsonResponse({ error: 'Answer upgrades are already being generated' }, 409);
+      }
+      jobId = job.id;
+      jobPartialResults = (job.partial_results as Record<string, unknown>) || {};
+    }
+
+    const sources = collectSources(
+      resultRow.question_results as StoredReport | null,
+      resultRow.answers as StoredAnswers | null,
+      Number(resultRow.band_score) || 6,
+    );
+    if (sources.length === 0) {
+      return jsonResponse({ error: 'No answers long enough to upgrade' }, 422);
+    }
+
+    console.log(`[speaking-answer-upgrades] Upgrading ${sources.length} answers for result ${resultId}`);
+    await setJobStage(UPGRADE_STAGE, { status: 'processing', startedAt: new Date().toISOString() });
+
+    const record = await generateUpgrades(supabaseService, user.id, sources);
+    if (!record) {
+      await setJobStage('completed', { status: 'failed', error: 'No usable upgrades generated' });
+      return jsonResponse({ error: 'Could not generate answer upgrades. Please try again.' }, 502);
+    }
+
+    const { error: saveError } = await supabaseService
+      .from('ai_practice_results')
+      .update({ question_results: { ...(resultRow.question_results as Record<string, unknown>), answer_upgrades: record } })
+      .eq('id', resultId);
+    if (saveError) throw saveError;
+
+    await setJobStage('completed', { status: 'completed', count: record.upgrades.length, completedAt: record.generatedAt });
+    console.log(`[speaking-answer-upgrades] Saved ${record.upgrades.length} upgrades for result ${resultId}`);
+
+    return jsonResponse({ success: true, answerUpgrades: record });
+  } catch (error) {
+    console.error('[speaking-answer-upgrades] Error:', error);
+    const message = error instanceof Error ? error.message : String(error);
+    await setJobStage('completed', { status: 'failed', error: message }).catch(() => {});
+    return jsonResponse({ error: message || 'Failed to generate answer upgrades' }, 500);
+  }
+});
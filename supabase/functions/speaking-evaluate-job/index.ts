@@ -10,11 +10,15 @@ import {
 } from "../_shared/performanceLogger.ts";
 import {
   parseJson,
+  roundIELTSBand,
   calculateBandFromCriteria,
   computeWeightedPartBand,
+  resolveSpeakingOverallBand,
   corsHeaders,
 } from "../_shared/speakingUtils.ts";
 import { getFromR2 } from "../_shared/r2Client.ts";
+import { applyPart3QuestionTree } from "../_shared/part3FollowUp.ts";
+import { describeInterventionsForPrompt } from "../_shared/examinerInterventions.ts";
 import {
   checkoutKeyForPart,
   releaseKeyWithCooldown,
@@ -275,6 +279,9 @@ serve(async (req) => {
       }
     }
 
+    // Adaptive Part 3 asks questions written during the test
+    payload = applyPart3QuestionTree(payload, partialResults.part3QuestionTree);
+
     // Build segment metadata
     const parts = Array.isArray(payload?.speakingParts) ? payload.speakingParts : [];
     const questionById = new Map<string, { partNumber: 1 | 2 | 3; questionNumber: number; questionText: string }>();
@@ -460,7 +467,8 @@ serve(async (req) => {
         segments, 
         topic || testRow.topic, 
         difficulty || testRow.difficulty, 
-        fluency_flag && partToProcess === 2
+        fluency_flag && partToProcess === 2,
+        describeInterventionsForPrompt(existingPartialResults?.examinerInterventions, partToProcess as 1 | 2 | 3)
       );
 
       // Create performance logger
@@ -865,7 +873,7 @@ serve(async (req) => {
 
     const allSegments = [...segmentsByPart[1], ...segmentsByPart[2], ...segmentsByPart[3]];
     const finalResult = aggregatePartResults(partialResults, allSegments);
-    const overallBand = finalResult.overall_band || calculateBand(finalResult);
+    const overallBand = finalResult.overall_band || resolveSpeakingOverallBand(finalResult);
 
     // Build public audio URLs
     const publicBase = (Deno.env.get('R2_PUBLIC_URL') || '').replace(/\/$/, '');
@@ -904,6 +912,7 @@ serve(async (req) => {
           transcripts_by_part: finalResult?.transcripts_by_part || {},
           transcripts_by_question: finalResult?.transcripts_by_question || {},
           file_paths: filePathsMap,
+          part3_question_tree: partialResults.part3QuestionTree,
         },
         evaluation_timing: evaluationTiming,
         completed_at: new Date().toISOString(),
@@ -1036,6 +1045,7 @@ function buildPartPrompt(
   topic: string | undefined,
   difficulty: string | undefined,
   fluencyPenalty: boolean | undefined,
+  interventionNote = '',
 ): string {
   const numQ = segments.length;
   
@@ -1062,6 +1072,7 @@ Return ONLY valid JSON.
 
 CONTEXT: Topic: ${topic || 'General'}, Difficulty: ${difficulty || 'Medium'}
 ${fluencyPenalty ? '⚠️ Speaking time under 80 seconds - apply fluency penalty.' : ''}
+${interventionNote}
 
 ══════════════════════════════════════════════════════════════
 🚨 CRITICAL TRANSCRIPTION RULES 🚨
@@ -1246,7 +1257,7 @@ function aggregatePartResults(
     if (scores.length === 0) return { band: 5.5, feedback: '', strengths: [], weaknesses: [], suggestions: [] };
 
     return {
-      band: Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 2) / 2,
+      band: roundIELTSBand(scores.reduce((a, b) => a + b, 0) / scores.length),
       feedback: feedbacks.join(' '),
       strengths: [...new Set(allStrengths)].slice(0, 4),
       weaknesses: [...new Set(allWeaknesses)].slice(0, 4),
@@ -1296,15 +1307,7 @@ function aggregatePartResults(
   if (typeof part2.part_band === 'number') part_scores.part2 = part2.part_band;
   if (typeof part3.part_band === 'number') part_scores.part3 = part3.part_band;
 
-  const weightedBand = computeWeightedPartBand(part_scores);
-  const criteriaScores = [
-    criteria.fluency_coherence.band,
-    criteria.lexical_resource.band,
-    criteria.grammatical_range.band,
-    criteria.pronunciation.band,
-  ];
-  const criteriaAvg = Math.round((criteriaScores.reduce((a, b) => a + b, 0) / 4) * 2) / 2;
-  const overallBand = weightedBand ?? criteriaAvg;
+  const overallBand = computeWeightedPartBand(part_scores) ?? calculateBandFromCriteria(criteria);
 
   return {
     overall_band: overallBand,
@@ -1324,18 +1327,3 @@ function aggregatePartResults(
     strengths_to_maintain: [],
   };
 }
-
-function calculateBand(result: any): number {
-  const c = result.criteria;
-  if (!c) return 6.0;
-  const scores = [
-    c.fluency_coherence?.band,
-    c.lexical_resource?.band,
-    c.grammatical_range?.band,
-    c.pronunciation?.band,
-  ].filter((s: any) => typeof s === 'number');
-
-  if (scores.length === 0) return 6.0;
-  const avg = scores.reduce((a: number, b: number) => a + b, 0) / scores.length;
-  return Math.round(avg * 2) / 2;
-}
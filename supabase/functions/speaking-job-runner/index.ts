@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { usesTranscriptionPipeline } from "../_shared/transcriptionProviders.ts";
 
 /**
  * Speaking Job Runner - Watchdog & Dispatcher
@@ -95,8 +96,8 @@ serve(async (req) => {
         // Determine which stage to reset to based on provider
         let newStage = 'pending_upload';
         
-        if (jobProvider === 'groq') {
-          // Groq stages
+        if (usesTranscriptionPipeline(jobProvider)) {
+          // Groq / self-hosted Whisper stages
           if (job.stage === 'groq_evaluating' || job.stage === 'pending_groq_eval') {
             newStage = 'pending_groq_eval';
           } else if (job.stage === 'transcribing' || job.stage === 'pending_transcription') {
@@ -115,15 +116,15 @@ serve(async (req) => {
         if (retryCount >= maxRetries && !forceRetry) {
           // Check if we should fallback to Gemini for Groq jobs
           // CRITICAL: Only fallback if auto_fallback_enabled is explicitly true
-          if (jobProvider === 'groq' && autoFallback === true) {
-            console.log(`[speaking-job-runner] Job ${job.id} Groq failed, auto-fallback enabled, falling back to Gemini`);
+          if (usesTranscriptionPipeline(jobProvider) && autoFallback === true) {
+            console.log(`[speaking-job-runner] Job ${job.id} ${jobProvider} failed, auto-fallback enabled, falling back to Gemini`);
             await supabaseService
               .from('speaking_evaluation_jobs')
               .update({
                 status: 'pending',
                 stage: 'pending_upload',
                 provider: 'gemini',
-                last_error: `Groq failed after ${retryCount} attempts, falling back to Gemini (auto-fallback enabled)`,
+                last_error: `${jobProvider === 'groq' ? 'Groq' : 'Self-hosted transcription'} failed after ${retryCount} attempts, falling back to Gemini (auto-fallback enabled)`,
                 retry_count: 0, // Reset retry count for Gemini
                 lock_token: null,
                 lock_expires_at: null,
@@ -133,8 +134,8 @@ serve(async (req) => {
             results.stuckJobsReset++;
           } else {
             // Mark as failed (no fallback - either not Groq, or auto-fallback is disabled)
-            const failReason = jobProvider === 'groq' && autoFallback === false 
-              ? `Groq failed after ${retryCount} attempts (auto-fallback disabled)`
+            const failReason = usesTranscriptionPipeline(jobProvider) && autoFallback === false 
+              ? `${jobProvider === 'groq' ? 'Groq' : 'Self-hosted transcription'} failed after ${retryCount} attempts (auto-fallback disabled)`
               : `Job stuck in ${job.stage} stage after ${retryCount} attempts`;
             
             await supabaseService
@@ -208,8 +209,8 @@ serve(async (req) => {
           let functionName: string;
           
           // Route based on provider and stage
-          if (jobProvider === 'groq') {
-            // Groq pipeline
+          if (usesTranscriptionPipeline(jobProvider)) {
+            // Groq / self-hosted Whisper pipeline
             if (job.stage === 'pending_transcription') {
               functionName = 'groq-speaking-transcribe';
             } else if (job.stage === 'pending_groq_eval') {
@@ -6,6 +6,7 @@ import {
   corsHeaders,
   getMimeTypeFromExtension,
 } from "../_shared/speakingUtils.ts";
+import { usesTranscriptionPipeline } from "../_shared/transcriptionProviders.ts";
 
 /**
  * OPTIMIZED Speaking Upload Job - Stage 1 of Speaking Evaluation
@@ -345,8 +346,8 @@ serve(async (req) => {
 
     // Trigger the appropriate evaluate job based on provider
     let evaluateFunctionName: string;
-    if (configuredProvider === 'groq') {
-      // Groq pipeline: transcribe first, then evaluate
+    if (usesTranscriptionPipeline(configuredProvider)) {
+      // Groq / self-hosted Whisper pipeline: transcribe first, then evaluate
       evaluateFunctionName = 'groq-speaking-transcribe';
     } else {
       // Gemini pipeline: direct evaluation with audio
@@ -0,0 +1,159 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getCombinedActiveKeys, markKeyExhausted } from "../_shared/userApiKeyUtils.ts";
+import { getR2Config } from "../_shared/r2Client.ts";
+import {
+  callLLMWithSchema,
+  geminiTarget,
+  LLMGatewayError,
+  LLMSchemaError,
+  type LLMImage,
+} from "../_shared/llmGateway.ts";
+import { HANDWRITING_TRANSCRIPTION_SCHEMA } from "../_shared/outputSchemas.ts";
+import {
+  MAX_SCAN_BYTES,
+  MAX_SCAN_PAGES,
+  buildHandwritingTranscriptionPrompt,
+  bytesToBase64,
+  normalizeTranscription,
+  scanMimeType,
+} from "../_shared/handwritingTranscription.ts";
+
+/**
+ * Transcribe Handwriting - turns photos or a PDF of a handwritten writing
+ * answer into text
+ *
+ * The pages are uploaded through upload-media first; this function only
+ * reads them back from our own R2 bucket. Nothing is stored here: the
+ * student checks and edits the text, and the writing page saves the scan
+ * URLs with the submission.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const TRANSCRIPTION_MODELS = ['gemini-2.5-flash', 'gemini-2.0-flash'];
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+class ScanError extends Error {}
+
+async function loadScan(url: string, publicUrl: string): Promise<LLMImage> {
+  // Only pages we stored ourselves; anything else would let callers make us fetch arbitrary URLs
+  if (!publicUrl || !url.startsWith(`${publicUrl.replace(/\/+$/, '')}/`)) {
+    throw new ScanError('Scans must be uploaded before they can be transcribed');
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) throw new ScanError(`Could not read an uploaded page (${response.status})`);
+
+  const mimeType = scanMimeType(url, response.headers.get('content-type'));
+  if (!mimeType) throw new ScanError('Upload photos (JPEG, PNG, WebP, HEIC) or a PDF');
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (bytes.length > MAX_SCAN_BYTES) throw new ScanError('A page is larger than 10 MB. Please upload a smaller photo');
+
+  return { mimeType, data: bytesToBase64(bytes) };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseService = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const supabaseClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization')! } },
+    });
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { scanUrls, taskNumber } = await req.json().catch(() => ({}));
+    if (!Array.isArray(scanUrls) || scanUrls.length === 0 || !scanUrls.every((u) => typeof u === 'string')) {
+      return jsonResponse({ error: 'scanUrls is required' }, 400);
+    }
+    if (scanUrls.length > MAX_SCAN_PAGES) {
+      return jsonResponse({ error: `Upload at most ${MAX_SCAN_PAGES} pages` }, 400);
+    }
+
+    let pages: LLMImage[];
+    try {
+      pages = await Promise.all(scanUrls.map((url: string) => loadScan(url, getR2Config().publicUrl)));
+    } catch (error) {
+      if (error instanceof ScanError) return jsonResponse({ error: error.message }, 422);
+      throw error;
+    }
+
+    const { keys, isUserKey } = await getCombinedActiveKeys(supabaseService, user.id, 'flash_2_5');
+    if (keys.length === 0) {
+      return jsonResponse({ error: 'No API keys available. Please add your Gemini API key in Settings.' }, 429);
+    }
+
+    const task: 1 | 2 = taskNumber === 1 ? 1 : 2;
+    // Only pool keys carry an id for the performance log; user keys live in user_api_keys
+    const targets = keys.map((key, i) => geminiTarget(key.key_value, TRANSCRIPTION_MODELS, isUserKey[i] ? null : key.id));
+    console.log(`[transcribe-handwriting] Transcribing ${pages.length} page(s) of a Task ${task} answer for ${user.id}`);
+
+    try {
+      const { value, response } = await callLLMWithSchema<{ text: string; notes?: string }>(
+        {
+          taskType: 'transcribe',
+          prompt: buildHandwritingTranscriptionPrompt(task, pages.length),
+          images: pages,
+          // Transcription, not composition
+          temperature: 0.1,
+          maxTokens: 4096,
+        },
+        HANDWRITING_TRANSCRIPTION_SCHEMA,
+        'handwriting transcription',
+        targets,
+        {
+          serviceClient: supabaseService,
+          logPrefix: 'transcribe-handwriting',
+          policy: { onRateLimit: 'next_target' },
+          onFailure: async (target, failure) => {
+            const index = targets.indexOf(target);
+            if (failure.kind !== 'quota' || index < 0) return;
+            await markKeyExhausted(supabaseService, keys[index].id, isUserKey[index], 'flash_2_5');
+          },
+        },
+      );
+
+      const transcription = normalizeTranscription(value);
+      console.log(`[transcribe-handwriting] ${response.model}: ${transcription.text.split(/\s+/).filter(Boolean).length} words, ${transcription.unclearCount} unclear`);
+      if (!transcription.text) {
+        return jsonResponse({
+          error: transcription.notes || 'No handwriting could be read from the upload. Try a sharper, well-lit photo.',
+        }, 422);
+      }
+      return jsonResponse({ success: true, ...transcription });
+    } catch (error) {
+      if (error instanceof LLMSchemaError) {
+        return jsonResponse({ error: 'The transcription came back incomplete. Please try again.' }, 502);
+      }
+      if (error instanceof LLMGatewayError) {
+        console.error('[transcribe-handwriting] All keys failed:', error.message);
+        return jsonResponse({
+          error: error.quotaExceeded
+            ? 'All API keys have reached their rate limit. Please wait a few minutes and try again.'
+            : 'Could not transcribe the scan. Please try again.',
+        }, error.quotaExceeded ? 429 : 502);
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('[transcribe-handwriting] Error:', error);
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonResponse({ error: message || 'Failed to transcribe the scan' }, 500);
+  }
+});
@@ -0,0 +1,53 @@
+-- ================================================
+-- ANSWER DISPUTES
+-- Students flag reading/listening answers they believe were marked wrong;
+-- admins accept (answer becomes an accepted variant + re-score) or reject.
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS public.answer_disputes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  test_source TEXT NOT NULL CHECK (test_source IN ('reading', 'listening', 'ai_practice')),
+  test_id UUID NOT NULL,
+  submission_id UUID,
+  question_number INTEGER NOT NULL,
+  question_text TEXT,
+  question_type TEXT,
+  user_answer TEXT NOT NULL,
+  correct_answer TEXT NOT NULL,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  admin_note TEXT,
+  resolved_by UUID,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  rescored_submissions INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, test_source, test_id, question_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_disputes_status ON public.answer_disputes (status, created_at);
+CREATE INDEX IF NOT EXISTS idx_answer_disputes_question ON public.answer_disputes (test_source, test_id, question_number);
+
+ALTER TABLE public.answer_disputes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own answer disputes"
+ON public.answer_disputes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own answer disputes"
+ON public.answer_disputes
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND status = 'pending');
+
+CREATE POLICY "Admins can manage answer disputes"
+ON public.answer_disputes
+FOR ALL
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_answer_disputes_updated_at
+BEFORE UPDATE ON public.answer_disputes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
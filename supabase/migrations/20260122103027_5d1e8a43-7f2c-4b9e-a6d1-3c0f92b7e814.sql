@@ -0,0 +1,17 @@
+-- General Training support: per-user module preference and module tagging for writing tests.
+-- Values match reading_tests.test_type / listening_tests.test_type ('academic' | 'general').
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS ielts_module TEXT NOT NULL DEFAULT 'academic';
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_ielts_module_check CHECK (ielts_module IN ('academic', 'general'));
+
+COMMENT ON COLUMN public.profiles.ielts_module IS 'Preferred IELTS module: academic or general (General Training). Filters test lists and selects the reading band table.';
+
+ALTER TABLE public.writing_tests
+  ADD COLUMN IF NOT EXISTS test_type TEXT NOT NULL DEFAULT 'academic';
+
+COMMENT ON COLUMN public.writing_tests.test_type IS 'Type of test: academic (Task 1 report) or general (Task 1 letter)';
+
+CREATE INDEX IF NOT EXISTS idx_reading_tests_test_type ON public.reading_tests(test_type);
+CREATE INDEX IF NOT EXISTS idx_writing_tests_test_type ON public.writing_tests(test_type);
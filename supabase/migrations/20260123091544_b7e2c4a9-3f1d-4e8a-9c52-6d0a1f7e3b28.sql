@@ -0,0 +1,62 @@
+-- ================================================
+-- FULL MOCK TEST SESSIONS
+-- One row per timed mock exam. Listening, Reading and Writing run back-to-back,
+-- then a break before Speaking. Links the submissions of every section so a
+-- single overall-band report can be produced.
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS public.mock_test_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  book_name TEXT NOT NULL,
+  test_number INTEGER NOT NULL,
+  test_module TEXT NOT NULL DEFAULT 'academic' CHECK (test_module IN ('academic', 'general')),
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'abandoned')),
+  current_section TEXT NOT NULL DEFAULT 'listening'
+    CHECK (current_section IN ('listening', 'reading', 'writing', 'break', 'speaking', 'report')),
+  listening_test_id UUID REFERENCES public.listening_tests(id) ON DELETE SET NULL,
+  reading_test_id UUID REFERENCES public.reading_tests(id) ON DELETE SET NULL,
+  writing_test_id UUID REFERENCES public.writing_tests(id) ON DELETE SET NULL,
+  speaking_test_id UUID REFERENCES public.speaking_tests(id) ON DELETE SET NULL,
+  listening_submission_id UUID REFERENCES public.listening_test_submissions(id) ON DELETE SET NULL,
+  reading_submission_id UUID REFERENCES public.reading_test_submissions(id) ON DELETE SET NULL,
+  writing_task1_submission_id UUID REFERENCES public.writing_submissions(id) ON DELETE SET NULL,
+  writing_task2_submission_id UUID REFERENCES public.writing_submissions(id) ON DELETE SET NULL,
+  speaking_submission_id UUID REFERENCES public.speaking_submissions(id) ON DELETE SET NULL,
+  -- { "listening": { "started_at": ..., "submitted_at": ... }, ... }
+  section_timings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  overall_band NUMERIC(2,1),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mock_test_sessions_user ON public.mock_test_sessions (user_id, created_at DESC);
+
+ALTER TABLE public.mock_test_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own mock test sessions"
+ON public.mock_test_sessions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own mock test sessions"
+ON public.mock_test_sessions
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own mock test sessions"
+ON public.mock_test_sessions
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all mock test sessions"
+ON public.mock_test_sessions
+FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_mock_test_sessions_updated_at
+BEFORE UPDATE ON public.mock_test_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,9 @@
+-- ================================================
+-- LISTENING QUESTION AUDIO TIMESTAMPS
+-- Seconds into the recording where each answer is heard: into the part's
+-- own audio file for multi-part tests, or into the single combined file.
+-- Used by the results page to replay a clip around each wrong answer.
+-- ================================================
+
+ALTER TABLE public.listening_questions
+  ADD COLUMN IF NOT EXISTS audio_timestamp NUMERIC(7,2) CHECK (audio_timestamp IS NULL OR audio_timestamp >= 0);
@@ -0,0 +1,57 @@
+-- ================================================
+-- TEST SESSION SNAPSHOTS
+-- Autosaved state of an in-progress test (answers, remaining time, highlights,
+-- notes, current passage) so it can be resumed on another device. One row per
+-- user and test; deleted once the test is submitted. `revision` is bumped on
+-- every save so a device writing over a newer snapshot can detect it.
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS public.test_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  test_type TEXT NOT NULL CHECK (test_type IN ('reading', 'listening', 'writing', 'speaking')),
+  test_id TEXT NOT NULL,
+  answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  time_left INTEGER,
+  current_question INTEGER,
+  current_passage_index INTEGER,
+  flagged_questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  highlights JSONB NOT NULL DEFAULT '[]'::jsonb,
+  notes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  device_id TEXT NOT NULL,
+  device_label TEXT,
+  revision INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, test_type, test_id)
+);
+
+ALTER TABLE public.test_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own test sessions"
+ON public.test_sessions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own test sessions"
+ON public.test_sessions
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own test sessions"
+ON public.test_sessions
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own test sessions"
+ON public.test_sessions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_test_sessions_updated_at
+BEFORE UPDATE ON public.test_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Lets an open tab notice when another device saves the same session
+ALTER PUBLICATION supabase_realtime ADD TABLE public.test_sessions;
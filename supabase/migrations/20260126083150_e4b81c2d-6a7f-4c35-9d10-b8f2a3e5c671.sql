@@ -0,0 +1,56 @@
+-- ================================================
+-- STUDY HIGHLIGHTS
+-- Highlights and notes a student makes on reading passages, listening
+-- questions and transcripts, kept per test so they survive a cache clear and
+-- follow the student across devices. `id` is generated on the client so a
+-- highlight keeps the same id locally and on the server. The Notebook page
+-- lists every row with a note.
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS public.study_highlights (
+  id UUID NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL,
+  test_type TEXT NOT NULL CHECK (test_type IN ('reading', 'listening', 'writing', 'speaking')),
+  test_id TEXT NOT NULL,
+  -- Passage paragraph, question or transcript part the text was selected in
+  content_id TEXT NOT NULL,
+  text TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT 'yellow' CHECK (color IN ('yellow', 'red')),
+  start_offset INTEGER NOT NULL DEFAULT 0,
+  end_offset INTEGER NOT NULL DEFAULT 0,
+  note TEXT,
+  -- Page the highlight was made on, for linking back from the Notebook
+  source_path TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_study_highlights_user_test ON public.study_highlights (user_id, test_type, test_id);
+CREATE INDEX IF NOT EXISTS idx_study_highlights_user_notes ON public.study_highlights (user_id, updated_at DESC) WHERE note IS NOT NULL;
+
+ALTER TABLE public.study_highlights ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own study highlights"
+ON public.study_highlights
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own study highlights"
+ON public.study_highlights
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own study highlights"
+ON public.study_highlights
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own study highlights"
+ON public.study_highlights
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_study_highlights_updated_at
+BEFORE UPDATE ON public.study_highlights
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,47 @@
+-- ================================================
+-- SPEAKING QUESTION ATTEMPTS
+-- Re-recordings of a single question made from a speaking report. Each row
+-- is one retry scored by groq-speaking-evaluate, together with the scores of
+-- the original answer from the same call, so the report can show the
+-- per-criterion delta and the attempt history of every question. A retry
+-- belongs to an AI practice result or to a speaking submission.
+-- Rows are written by the edge function with the service role.
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS public.speaking_question_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  result_id UUID REFERENCES public.ai_practice_results(id) ON DELETE CASCADE,
+  submission_id UUID REFERENCES public.speaking_submissions(id) ON DELETE CASCADE,
+  segment_key TEXT NOT NULL,
+  part_number INTEGER NOT NULL,
+  question_number INTEGER NOT NULL,
+  question_text TEXT NOT NULL DEFAULT '',
+  transcript TEXT NOT NULL DEFAULT '',
+  audio_url TEXT,
+  file_path TEXT,
+  duration_seconds NUMERIC,
+  -- Bands keyed by criterion (fluency_coherence, lexical_resource, ...)
+  criteria JSONB NOT NULL DEFAULT '{}'::jsonb,
+  overall_band NUMERIC NOT NULL,
+  original_criteria JSONB NOT NULL DEFAULT '{}'::jsonb,
+  original_band NUMERIC NOT NULL,
+  feedback TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT speaking_question_attempts_source CHECK (result_id IS NOT NULL OR submission_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_speaking_question_attempts_result ON public.speaking_question_attempts (result_id, segment_key, created_at) WHERE result_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_speaking_question_attempts_submission ON public.speaking_question_attempts (submission_id, segment_key, created_at) WHERE submission_id IS NOT NULL;
+
+ALTER TABLE public.speaking_question_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own question attempts"
+ON public.speaking_question_attempts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own question attempts"
+ON public.speaking_question_attempts
+FOR DELETE
+USING (auth.uid() = user_id);
@@ -0,0 +1,20 @@
+-- ================================================
+-- SELF-HOSTED TRANSCRIPTION PROVIDER
+-- A third speaking evaluation provider: the transcription stage calls a
+-- Whisper-compatible HTTP server run by the school instead of Groq, then the
+-- transcript is evaluated as in the Groq pipeline. Groq jobs also fall back
+-- to this server when their keys are exhausted. The server's bearer token,
+-- if any, is the SELF_HOSTED_STT_API_KEY edge function secret.
+-- ================================================
+
+ALTER TABLE public.speaking_evaluation_settings
+DROP CONSTRAINT IF EXISTS speaking_evaluation_settings_provider_check;
+
+ALTER TABLE public.speaking_evaluation_settings
+ADD CONSTRAINT speaking_evaluation_settings_provider_check
+CHECK (provider IN ('gemini', 'groq', 'self_hosted'));
+
+ALTER TABLE public.speaking_evaluation_settings
+-- Base URL of the server, e.g. https://stt.school.example (or its full /v1/audio/transcriptions URL)
+ADD COLUMN IF NOT EXISTS self_hosted_stt_url TEXT,
+ADD COLUMN IF NOT EXISTS self_hosted_stt_model TEXT DEFAULT 'whisper-1';
@@ -0,0 +1,39 @@
+-- ================================================
+-- LLM PROVIDER CONFIGURATION
+-- ================================================
+-- Extra providers for the shared LLM gateway (_shared/llmGateway.ts).
+-- Gemini and Groq are built in; any OpenAI-compatible endpoint added here
+-- becomes a fallback for the task types it lists, using the active keys in
+-- api_keys whose provider equals the row's id.
+--
+-- Example:
+--   INSERT INTO public.llm_providers (id, display_name, base_url, models, task_types)
+--   VALUES ('openrouter', 'OpenRouter', 'https://openrouter.ai/api/v1',
+--           ARRAY['meta-llama/llama-3.3-70b-instruct'], ARRAY['evaluate_writing', 'analyze']);
+
+CREATE TABLE IF NOT EXISTS public.llm_providers (
+  id TEXT NOT NULL PRIMARY KEY,
+  display_name TEXT NOT NULL,
+  api_style TEXT NOT NULL DEFAULT 'openai' CHECK (api_style IN ('gemini', 'openai')),
+  base_url TEXT NOT NULL,
+  models TEXT[] NOT NULL DEFAULT '{}',
+  supports_json_mode BOOLEAN NOT NULL DEFAULT true,
+  supports_images BOOLEAN NOT NULL DEFAULT false,
+  -- NULL or empty: used for every task type
+  task_types TEXT[],
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.llm_providers ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can read/write provider configuration
+CREATE POLICY "Admins can manage llm providers"
+ON public.llm_providers
+FOR ALL
+USING (public.is_admin(auth.uid()));
+
+CREATE INDEX IF NOT EXISTS idx_llm_providers_active_priority
+ON public.llm_providers (is_active, priority);
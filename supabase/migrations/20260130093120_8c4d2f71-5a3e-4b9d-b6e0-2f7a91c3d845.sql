@@ -0,0 +1,15 @@
+-- ================================================
+-- WRITING REVISION CHAINS
+-- A submission written as a revision of an earlier one points at it, so the
+-- evaluation report can show the versions side by side, the band trend per
+-- criterion, and whether the earlier feedback was addressed. revision_number
+-- is 1 for a first draft and counts up along the chain.
+-- ================================================
+
+ALTER TABLE public.writing_submissions
+ADD COLUMN IF NOT EXISTS revision_of UUID REFERENCES public.writing_submissions(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS revision_number INTEGER NOT NULL DEFAULT 1 CHECK (revision_number >= 1);
+
+CREATE INDEX IF NOT EXISTS idx_writing_submissions_revision_of
+ON public.writing_submissions (revision_of)
+WHERE revision_of IS NOT NULL;
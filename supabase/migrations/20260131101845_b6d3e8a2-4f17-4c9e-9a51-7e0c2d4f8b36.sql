@@ -0,0 +1,14 @@
+-- ================================================
+-- HANDWRITTEN ANSWER SCANS
+-- Students who write on paper upload photos or a PDF of their answer, which
+-- transcribe-handwriting turns into text for them to confirm. The original
+-- pages (R2 URLs from upload-media) are kept with the answer.
+-- writing_submissions: the pages of that task's answer, in order.
+-- ai_practice_results: pages per task number, like `answers`.
+-- ================================================
+
+ALTER TABLE public.writing_submissions
+ADD COLUMN IF NOT EXISTS scan_urls TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.ai_practice_results
+ADD COLUMN IF NOT EXISTS scan_urls JSONB;
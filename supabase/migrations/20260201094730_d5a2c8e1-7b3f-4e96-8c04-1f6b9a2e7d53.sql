@@ -0,0 +1,151 @@
+-- ================================================
+-- ACCEPT ANSWER DISPUTES ATOMICALLY
+-- Accepting a dispute appends the answer to the key, re-scores the matching
+-- submissions and closes the dispute. Doing it in one transaction means a
+-- failure part-way leaves nothing half-applied, and scores are incremented in
+-- SQL so concurrent writes cannot be lost.
+--
+-- p_bands maps '<skill>:<total>:<score>' to the band for that raw score, so
+-- the band is set in the same statement as the new score.
+-- ================================================
+
+CREATE OR REPLACE FUNCTION public.accept_cambridge_answer_dispute(
+  p_dispute_id uuid,
+  p_resolved_by uuid,
+  p_admin_note text,
+  p_question_id uuid,
+  p_old_key text,
+  p_new_key text,
+  p_submission_ids uuid[],
+  p_bands jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_source text;
+  v_rescored integer := 0;
+BEGIN
+  SELECT test_source INTO v_source
+  FROM public.answer_disputes
+  WHERE id = p_dispute_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute % is no longer pending', p_dispute_id;
+  END IF;
+
+  IF v_source = 'reading' THEN
+    UPDATE public.reading_questions
+    SET correct_answer = p_new_key
+    WHERE id = p_question_id AND correct_answer IS NOT DISTINCT FROM p_old_key;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The answer key for this question changed, please retry';
+    END IF;
+
+    UPDATE public.reading_test_submissions
+    SET score = LEAST(score + 1, total_questions),
+        band_score = COALESCE(
+          (p_bands ->> ('reading:' || total_questions || ':' || LEAST(score + 1, total_questions)))::numeric,
+          band_score
+        )
+    WHERE id = ANY(p_submission_ids);
+    GET DIAGNOSTICS v_rescored = ROW_COUNT;
+  ELSIF v_source = 'listening' THEN
+    UPDATE public.listening_questions
+    SET correct_answer = p_new_key
+    WHERE id = p_question_id AND correct_answer IS NOT DISTINCT FROM p_old_key;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The answer key for this question changed, please retry';
+    END IF;
+
+    UPDATE public.listening_test_submissions
+    SET score = LEAST(score + 1, total_questions),
+        band_score = COALESCE(
+          (p_bands ->> ('listening:' || total_questions || ':' || LEAST(score + 1, total_questions)))::numeric,
+          band_score
+        )
+    WHERE id = ANY(p_submission_ids);
+    GET DIAGNOSTICS v_rescored = ROW_COUNT;
+  ELSE
+    RAISE EXCEPTION 'Dispute % is not for a reading or listening test', p_dispute_id;
+  END IF;
+
+  UPDATE public.answer_disputes
+  SET status = 'accepted',
+      admin_note = p_admin_note,
+      resolved_by = p_resolved_by,
+      resolved_at = now(),
+      rescored_submissions = v_rescored
+  WHERE id = p_dispute_id;
+
+  RETURN v_rescored;
+END;
+$$;
+
+-- p_results: [{ "id": result id, "index": position in question_results, "entry": new question result }]
+CREATE OR REPLACE FUNCTION public.accept_practice_answer_dispute(
+  p_dispute_id uuid,
+  p_resolved_by uuid,
+  p_admin_note text,
+  p_payload jsonb,
+  p_results jsonb,
+  p_bands jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_test_id uuid;
+  v_item jsonb;
+  v_updated integer;
+  v_rescored integer := 0;
+BEGIN
+  SELECT test_id INTO v_test_id
+  FROM public.answer_disputes
+  WHERE id = p_dispute_id AND status = 'pending' AND test_source = 'ai_practice'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute % is no longer pending', p_dispute_id;
+  END IF;
+
+  IF p_payload IS NOT NULL THEN
+    UPDATE public.ai_practice_tests SET payload = p_payload WHERE id = v_test_id;
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_results, '[]'::jsonb)) LOOP
+    -- Skip results already marked correct for this question, so nothing is counted twice
+    UPDATE public.ai_practice_results
+    SET question_results = jsonb_set(question_results, ARRAY[v_item ->> 'index'], v_item -> 'entry'),
+        score = LEAST(score + 1, total_questions),
+        band_score = COALESCE(
+          (p_bands ->> (
+            CASE WHEN module = 'listening' THEN 'listening' ELSE 'reading' END
+            || ':' || total_questions || ':' || LEAST(score + 1, total_questions)
+          ))::numeric,
+          band_score
+        )
+    WHERE id = (v_item ->> 'id')::uuid
+      AND NOT COALESCE((question_results -> ((v_item ->> 'index')::integer) ->> 'isCorrect')::boolean, false);
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    v_rescored := v_rescored + v_updated;
+  END LOOP;
+
+  UPDATE public.answer_disputes
+  SET status = 'accepted',
+      admin_note = p_admin_note,
+      resolved_by = p_resolved_by,
+      resolved_at = now(),
+      rescored_submissions = v_rescored
+  WHERE id = p_dispute_id;
+
+  RETURN v_rescored;
+END;
+$$;
+
+-- Only the resolve-answer-dispute function (service role) may call these
+REVOKE EXECUTE ON FUNCTION public.accept_cambridge_answer_dispute(uuid, uuid, text, uuid, text, text, uuid[], jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.accept_practice_answer_dispute(uuid, uuid, text, jsonb, jsonb, jsonb) FROM PUBLIC, anon, authenticated;